@@ -15,6 +15,8 @@ import InfoModal from './components/InfoModal';
 import AppToolbar from './components/AppToolbar';
 import LoginScreen from './components/LoginScreen';
 import UserStatus from './components/UserStatus';
+import AdminConsoleModal from './components/AdminConsoleModal';
+import WorkspaceModal from './components/WorkspaceModal';
 import LanguageSwitcher from './components/LanguageSwitcher';
 import HistoryPanel from './components/HistoryPanel';
 import { ImageEditorModal } from './components/ImageEditorModal';
@@ -88,6 +90,8 @@ function App() {
         isImageLayoutModalOpen,
         isBeforeAfterModalOpen,
         isAppCoverCreatorModalOpen,
+        isAdminConsoleOpen,
+        isWorkspaceModalOpen,
         isStoryboardingModalMounted,
         isStoryboardingModalVisible,
         isLayerComposerMounted,
@@ -106,6 +110,8 @@ function App() {
         closeImageLayoutModal,
         closeBeforeAfterModal,
         closeAppCoverCreatorModal,
+        closeAdminConsole,
+        closeWorkspaceModal,
         closeStoryboardingModal,
         hideStoryboardingModal,
         closeLayerComposer,
@@ -114,7 +120,7 @@ function App() {
     } = useAppControls();
     
     const { imageToEdit, closeImageEditor } = useImageEditor();
-    const { loginSettings, isLoggedIn, isLoading, currentUser } = useAuth();
+    const { loginSettings, isLoggedIn, isLoading, currentUser, isAdmin } = useAuth();
 
     useEffect(() => {
         const hasSeenInfoModal = localStorage.getItem('CaoTrangAI_hasSeenInfoModal');
@@ -133,6 +139,8 @@ function App() {
                                isImageLayoutModalOpen || 
                                isBeforeAfterModalOpen || 
                                isAppCoverCreatorModalOpen ||
+                               isAdminConsoleOpen ||
+                               isWorkspaceModalOpen ||
                                isStoryboardingModalVisible ||
                                isLayerComposerVisible || 
                                !!imageToEdit;
@@ -147,7 +155,7 @@ function App() {
         return () => {
             document.body.style.overflow = 'auto';
         };
-    }, [isSearchOpen, isGalleryOpen, isInfoOpen, isHistoryPanelOpen, isImageLayoutModalOpen, isBeforeAfterModalOpen, isAppCoverCreatorModalOpen, isStoryboardingModalVisible, isLayerComposerVisible, imageToEdit]);
+    }, [isSearchOpen, isGalleryOpen, isInfoOpen, isHistoryPanelOpen, isImageLayoutModalOpen, isBeforeAfterModalOpen, isAppCoverCreatorModalOpen, isAdminConsoleOpen, isWorkspaceModalOpen, isStoryboardingModalVisible, isLayerComposerVisible, imageToEdit]);
 
     const getExportableState = useCallback((appState: any, appId: string): any => {
         const exportableState = JSON.parse(JSON.stringify(appState));
@@ -353,6 +361,16 @@ function App() {
                 isOpen={isAppCoverCreatorModalOpen}
                 onClose={closeAppCoverCreatorModal}
             />
+            <WorkspaceModal
+                isOpen={isWorkspaceModalOpen}
+                onClose={closeWorkspaceModal}
+            />
+            {isAdmin && (
+                <AdminConsoleModal
+                    isOpen={isAdminConsoleOpen}
+                    onClose={closeAdminConsole}
+                />
+            )}
             {isStoryboardingModalMounted && (
                 <StoryboardingModal
                     isOpen={isStoryboardingModalVisible}
@@ -0,0 +1,327 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useCallback, FormEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { useAppControls, useAuth, type AppConfig } from './uiUtils';
+import { CloseIcon, ReloadIcon, LoadingSpinnerIcon, AccordionArrowIcon } from './icons';
+import { cn } from '../lib/utils';
+import { fetchAccounts, createAccount, updateAccount, type AccountSummary } from '../lib/accounts';
+import { adjustCredits } from '../lib/credits';
+import type { UserRole } from '../lib/auth';
+
+interface AdminConsoleModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const ROLES: UserRole[] = ['normal', 'vip', 'admin'];
+
+const UsageList: React.FC<{ account: AccountSummary }> = ({ account }) => {
+    const { t, settings } = useAppControls();
+    const apps: AppConfig[] = settings?.apps || [];
+    // Apps from settings first, then any app id that only appears in the ledger.
+    const appIds = [
+        ...apps.map(app => app.id).filter(id => account.usage[id]),
+        ...Object.keys(account.usage).filter(id => !apps.some(app => app.id === id)),
+    ].filter(id => account.usage[id].generations > 0 || account.usage[id].credits > 0);
+
+    if (appIds.length === 0) {
+        return <p className="text-sm text-neutral-500">{t('adminConsole_usageEmpty')}</p>;
+    }
+
+    return (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+            {appIds.map(id => {
+                const app = apps.find(a => a.id === id);
+                const { generations, credits } = account.usage[id];
+                return (
+                    <li key={id} className="flex justify-between gap-4">
+                        <span className="text-neutral-300 truncate">{app ? t(app.titleKey) : id}</span>
+                        <span className="text-neutral-400 font-mono flex-shrink-0">{t('adminConsole_usageItem', generations, credits)}</span>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+const AccountRow: React.FC<{
+    account: AccountSummary;
+    isSelf: boolean;
+    onChanged: (account: AccountSummary) => void;
+    onCreditsChanged: () => void;
+}> = ({ account, isSelf, onChanged, onCreditsChanged }) => {
+    const { t } = useAppControls();
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+    const [adjustment, setAdjustment] = useState('');
+    const [note, setNote] = useState('');
+
+    const runUpdate = async (update: { role?: UserRole; disabled?: boolean }) => {
+        setIsBusy(true);
+        try {
+            onChanged(await updateAccount(account.username, update));
+            toast.success(t('adminConsole_updateSuccess', account.username));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleAdjust = async (e: FormEvent) => {
+        e.preventDefault();
+        const amount = parseInt(adjustment, 10);
+        if (!Number.isInteger(amount) || amount === 0) return;
+        setIsBusy(true);
+        try {
+            await adjustCredits(account.username, amount, note.trim() || undefined);
+            toast.success(t('adminConsole_adjustSuccess', amount > 0 ? `+${amount}` : amount, account.username));
+            setAdjustment('');
+            setNote('');
+            onCreditsChanged();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <li className={cn("rounded-lg border border-white/10 bg-neutral-900/60 p-3", account.disabled && "opacity-60")}>
+            <div className="flex flex-wrap items-center gap-3">
+                <button
+                    onClick={() => setIsExpanded(prev => !prev)}
+                    className="flex items-center gap-2 min-w-[10rem] text-left"
+                    aria-expanded={isExpanded}
+                >
+                    <AccordionArrowIcon className={cn("h-4 w-4 transition-transform", isExpanded && "rotate-180")} />
+                    <span className="font-bold text-yellow-400">{account.username}</span>
+                </button>
+                <select
+                    value={account.role}
+                    onChange={(e) => runUpdate({ role: e.target.value as UserRole })}
+                    disabled={isBusy || isSelf}
+                    className="form-input !w-auto !py-1 text-sm"
+                    aria-label={t('adminConsole_role')}
+                >
+                    {ROLES.map(role => <option key={role} value={role}>{t(`adminConsole_roles.${role}`)}</option>)}
+                </select>
+                <span className="text-sm font-mono text-neutral-300">
+                    {account.balance} / {account.allowance}
+                </span>
+                <span className={cn("text-xs px-2 py-0.5 rounded", account.disabled ? "bg-red-500/30 text-red-300" : "bg-green-500/20 text-green-300")}>
+                    {account.disabled ? t('adminConsole_disabled') : t('adminConsole_active')}
+                </span>
+                <form onSubmit={handleAdjust} className="flex items-center gap-2 ml-auto">
+                    <input
+                        type="number"
+                        step={1}
+                        value={adjustment}
+                        onChange={(e) => setAdjustment(e.target.value)}
+                        placeholder={t('adminConsole_adjustPlaceholder')}
+                        className="form-input !w-28 !py-1 text-sm"
+                        disabled={isBusy}
+                    />
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder={t('adminConsole_adjustNote')}
+                        className="form-input !w-36 !py-1 text-sm"
+                        disabled={isBusy}
+                    />
+                    <button type="submit" className="btn btn-secondary btn-sm" disabled={isBusy || !adjustment}>
+                        {t('adminConsole_adjust')}
+                    </button>
+                </form>
+                <button
+                    onClick={() => runUpdate({ disabled: !account.disabled })}
+                    className="btn btn-secondary btn-sm"
+                    disabled={isBusy || isSelf}
+                >
+                    {account.disabled ? t('adminConsole_enable') : t('adminConsole_disable')}
+                </button>
+            </div>
+            {isExpanded && (
+                <div className="mt-3 border-t border-white/10 pt-3">
+                    <h5 className="text-xs uppercase tracking-wide text-neutral-500 mb-2">{t('adminConsole_usage')}</h5>
+                    <UsageList account={account} />
+                </div>
+            )}
+        </li>
+    );
+};
+
+const CreateAccountForm: React.FC<{ onCreated: (account: AccountSummary) => void }> = ({ onCreated }) => {
+    const { t } = useAppControls();
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [role, setRole] = useState<UserRole>('normal');
+    const [credits, setCredits] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setIsBusy(true);
+        try {
+            const account = await createAccount({
+                username: username.trim(),
+                password,
+                role,
+                ...(credits !== '' ? { credits: parseInt(credits, 10) } : {}),
+            });
+            toast.success(t('adminConsole_createSuccess', account.username));
+            setUsername('');
+            setPassword('');
+            setRole('normal');
+            setCredits('');
+            onCreated(account);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="rounded-lg border border-yellow-400/20 p-3">
+            <h4 className="font-bold text-yellow-400/90 mb-3">{t('adminConsole_createTitle')}</h4>
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder={t('adminConsole_username')}
+                    className="form-input !w-40 !py-1 text-sm"
+                    required
+                />
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={t('adminConsole_password')}
+                    className="form-input !w-40 !py-1 text-sm"
+                    autoComplete="new-password"
+                    required
+                />
+                <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as UserRole)}
+                    className="form-input !w-auto !py-1 text-sm"
+                    aria-label={t('adminConsole_role')}
+                >
+                    {ROLES.map(r => <option key={r} value={r}>{t(`adminConsole_roles.${r}`)}</option>)}
+                </select>
+                <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={credits}
+                    onChange={(e) => setCredits(e.target.value)}
+                    placeholder={t('adminConsole_initialCredits')}
+                    className="form-input !w-36 !py-1 text-sm"
+                />
+                <button type="submit" className="btn btn-primary btn-sm" disabled={isBusy}>
+                    {t('adminConsole_create')}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+const AdminConsoleModal: React.FC<AdminConsoleModalProps> = ({ isOpen, onClose }) => {
+    const { t, refreshCredits } = useAppControls();
+    const { currentUser } = useAuth();
+    const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const loadAccounts = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setAccounts(await fetchAccounts());
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) loadAccounts();
+    }, [isOpen, loadAccounts]);
+
+    const replaceAccount = (updated: AccountSummary) => {
+        setAccounts(prev => prev.map(acc => acc.username === updated.username ? updated : acc));
+    };
+
+    const handleCreditsChanged = () => {
+        loadAccounts();
+        // The admin may have adjusted their own balance.
+        refreshCredits();
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="modal-overlay"
+                    aria-modal="true"
+                    role="dialog"
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+                        animate={{ scale: 1, opacity: 1, y: 0 }}
+                        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="modal-content md:!max-w-5xl relative"
+                    >
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="base-font font-bold text-2xl text-yellow-400">{t('adminConsole_title')}</h3>
+                            <div className="flex items-center gap-2">
+                                <button onClick={loadAccounts} className="p-2 rounded-full hover:bg-white/10 transition-colors" aria-label={t('adminConsole_refresh')} disabled={isLoading}>
+                                    <ReloadIcon className="h-5 w-5" strokeWidth={2} />
+                                </button>
+                                <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors" aria-label={t('adminConsole_close')}>
+                                    <CloseIcon className="h-6 w-6" strokeWidth={2} />
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="max-h-[65vh] overflow-y-auto pr-2 space-y-4">
+                            <CreateAccountForm onCreated={(account) => setAccounts(prev => [...prev, account].sort((a, b) => a.username.localeCompare(b.username)))} />
+
+                            {isLoading && accounts.length === 0 ? (
+                                <div className="flex items-center justify-center gap-2 py-8 text-neutral-400">
+                                    <LoadingSpinnerIcon className="h-5 w-5 animate-spin" />
+                                    <span>{t('adminConsole_loading')}</span>
+                                </div>
+                            ) : (
+                                <ul className="space-y-2">
+                                    {accounts.map(account => (
+                                        <AccountRow
+                                            key={account.username}
+                                            account={account}
+                                            isSelf={account.username === currentUser}
+                                            onChanged={replaceAccount}
+                                            onCreditsChanged={handleCreditsChanged}
+                                        />
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default AdminConsoleModal;
@@ -9,6 +9,8 @@ import { useAppControls, useImageEditor, combineImages, useLightbox, useDebounce
 import { ImageThumbnailActions } from './ImageThumbnailActions';
 import { cn } from '../lib/utils';
 import Lightbox from './Lightbox';
+import { StoredImage } from './StoredImage';
+import { resolveImageUrl, storeImage } from '../lib/imageStore';
 import { 
     CloudUploadIcon, 
     PlacementTopLeftIcon,
@@ -32,13 +34,16 @@ interface SelectedItem {
 
 const COVER_ASPECT_RATIOS = ['Giữ nguyên', '1:1', '2:3', '3:2', '5:4', '4:5', '2:1', '1:2', '16:9', '9:16'];
 
-const loadImg = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = 'Anonymous';
-    img.onload = () => resolve(img);
-    img.onerror = () => reject(new Error(`Failed to load image: ${url.substring(0, 50)}...`));
-    img.src = url;
-});
+const loadImg = async (url: string): Promise<HTMLImageElement> => {
+    const src = await resolveImageUrl(url);
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'Anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${url.substring(0, 50)}...`));
+        img.src = src;
+    });
+};
 
 type Placement = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
 type Direction = 'horizontal' | 'vertical';
@@ -292,10 +297,12 @@ const AppCoverCreatorModal: React.FC<AppCoverCreatorModalProps> = ({ isOpen, onC
             return;
         }
 
-        openImageEditor(urlToEdit, (newUrl) => {
+        openImageEditor(urlToEdit, async (newUrl) => {
             replaceImageInGallery(indexToEdit, newUrl);
-            if (urlToEdit === outputImage) setOutputImage(newUrl);
-            setInputImages(prev => prev.map(img => img === urlToEdit ? newUrl : img));
+            // The gallery now holds the edited image by reference; select it the same way.
+            const newRef = await storeImage(newUrl);
+            if (urlToEdit === outputImage) setOutputImage(newRef);
+            setInputImages(prev => prev.map(img => img === urlToEdit ? newRef : img));
         });
     };
 
@@ -383,7 +390,7 @@ const AppCoverCreatorModal: React.FC<AppCoverCreatorModalProps> = ({ isOpen, onC
                                     <div onDragOver={handleOutputDragOver} onDragLeave={() => setIsDraggingOverOutput(false)} onDrop={handleOutputDrop}>
                                         <label className="block text-base font-medium text-neutral-300 mb-2">{t('appCover_output')}</label>
                                         <div className={cn("h-32 bg-neutral-800 rounded-md flex items-center justify-center transition-all", isDraggingOverOutput && "ring-4 ring-blue-500 ring-inset")}>
-                                            {outputImage ? <img src={outputImage} className="w-full h-full object-contain rounded-md" alt="Output preview"/> : <span className="text-sm text-neutral-500">{t('appCover_selectOutput')}</span>}
+                                            {outputImage ? <StoredImage src={outputImage} className="w-full h-full object-contain rounded-md" alt="Output preview"/> : <span className="text-sm text-neutral-500">{t('appCover_selectOutput')}</span>}
                                         </div>
                                     </div>
                                     <div onDragOver={handleInputsDragOver} onDragLeave={() => setIsDraggingOverInputs(false)} onDrop={handleInputsDrop}>
@@ -392,7 +399,7 @@ const AppCoverCreatorModal: React.FC<AppCoverCreatorModalProps> = ({ isOpen, onC
                                             {Array.from({ length: 4 }).map((_, i) => (
                                                 <div key={i} className="h-20 w-1/4 bg-neutral-800 rounded-md flex items-center justify-center relative overflow-hidden">
                                                     {inputImages[i] ? (
-                                                        <img src={inputImages[i]} className="w-full h-full object-cover" alt={`Input ${i+1} preview`}/>
+                                                        <StoredImage src={inputImages[i]} className="w-full h-full object-cover" alt={`Input ${i+1} preview`}/>
                                                     ) : (
                                                         i === 0 && <span className="text-xs text-neutral-500 text-center px-1">{t('appCover_selectInputs')}</span>
                                                     )}
@@ -432,7 +439,7 @@ const AppCoverCreatorModal: React.FC<AppCoverCreatorModalProps> = ({ isOpen, onC
                                                         {isVideo(img) ? (
                                                             <video src={img} autoPlay loop muted playsInline className="w-full h-auto block" />
                                                         ) : (
-                                                            <img src={img} alt={`Gallery image ${index + 1}`} loading="lazy" className="w-full h-auto block" />
+                                                            <StoredImage src={img} alt={`Gallery image ${index + 1}`} loading="lazy" className="w-full h-auto block" />
                                                         )}
                                                         <div className={cn("absolute inset-0 transition-all duration-200 pointer-events-none", isSelected ? '' : 'bg-black/60 opacity-0 group-hover:opacity-100' )}>{renderSelectionBadge(img)}</div>
                                                         <ImageThumbnailActions
@@ -19,6 +19,7 @@ import {
     HistoryIcon,
     StoryboardIcon
 } from './icons';
+import JobsTray from './JobsTray';
 
 const AppToolbar: React.FC = () => {
     const {
@@ -197,6 +198,10 @@ const AppToolbar: React.FC = () => {
                 >
                     <HistoryIcon className="h-5 w-5" strokeWidth={1.5} />
                 </button>
+                <JobsTray
+                    onMouseEnter={(e) => showTooltip(t('jobsTray_title'), e)}
+                    onMouseLeave={hideTooltip}
+                />
                 
                 {/* --- Group 2: Creation & Tools (Hidden on mobile) --- */}
                 <div className="hidden md:flex items-center gap-2">
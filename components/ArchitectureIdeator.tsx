@@ -4,7 +4,7 @@
 */
 import React, { useState, ChangeEvent, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { generateArchitecturalImage, editImageWithPrompt } from '../services/geminiService';
+import { generateArchitecturalImage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -21,11 +21,12 @@ import {
     processAndDownloadAll,
     SearchableSelect,
     useAppControls,
-    embedJsonInPng,
+    useBatchGeneration,
+    applySingleResult,
+    SINGLE_RESULT_KEY,
     getInitialStateForApp,
 } from './uiUtils';
 import toast from 'react-hot-toast';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
 
 interface ArchitectureIdeatorProps {
     mainTitle: string;
@@ -50,9 +51,20 @@ const ArchitectureIdeator: React.FC<ArchitectureIdeatorProps> = (props) => {
         ...headerProps 
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<ArchitectureIdeatorState>('architecture-ideator', {
+        generate: (_key, state, { signal }) => generateArchitecturalImage(state.uploadedImage, state.options, state.styleReferenceImage, { signal }),
+        applyResult: applySingleResult,
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getJobLabel: () => t('jobsTray_generateLabel'),
+        onComplete: (_state, failedKeys, reservation) => { if (failedKeys.length === 0) toast.success(`Tạo ảnh thành công. Bạn còn ${reservation.balance} lượt.`); },
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
-    const { videoTasks, generateVideo } = useVideoGeneration();
+    const { videoTasks, generateVideo } = useVideoGeneration('architecture-ideator');
     const [localNotes, setLocalNotes] = useState(appState.options.notes);
 
     useEffect(() => {
@@ -101,81 +113,13 @@ const ArchitectureIdeator: React.FC<ArchitectureIdeatorProps> = (props) => {
     const executeInitialGeneration = async () => {
         if (!appState.uploadedImage) return;
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập lại."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-        
         const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            const resultUrl = await generateArchitecturalImage(appState.uploadedImage, appState.options, appState.styleReferenceImage);
-
-            // --- Deduct Credit ---
-            const nextCredits = decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Tạo ảnh thành công. Bạn còn ${nextCredits} lượt.`);
-            // ---------------------
-
-            const settingsToEmbed = { 
-                viewId: 'architecture-ideator', 
-                state: { ...appState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('architecture-ideator', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImage: urlWithMetadata,
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startBatch({ ...appState, stage: 'generating', error: null }, [SINGLE_RESULT_KEY], preGenState);
     };
 
     const handleRegeneration = async (prompt: string) => {
         if (!appState.generatedImage) return;
-
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập lại."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
-        const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            const resultUrl = await editImageWithPrompt(appState.generatedImage, prompt);
-
-             // --- Deduct Credit ---
-            const nextCredits = decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Tạo lại ảnh thành công. Bạn còn ${nextCredits} lượt.`);
-            // ---------------------
-
-             const settingsToEmbed = { 
-                viewId: 'architecture-ideator', 
-                state: { ...appState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('architecture-ideator', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImage: urlWithMetadata,
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startEdit({ ...appState, stage: 'generating', error: null }, SINGLE_RESULT_KEY, { sourceUrl: appState.generatedImage, prompt }, appState);
     };
     
     const handleUploadedImageChange = (newUrl: string | null) => {
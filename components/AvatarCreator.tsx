@@ -2,10 +2,10 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useCallback, useEffect, useRef } from 'react';
+import React, { useState, ChangeEvent, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generatePatrioticImage, editImageWithPrompt, analyzeAvatarForConcepts } from '../services/geminiService';
+import { generatePatrioticImage, analyzeAvatarForConcepts } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -20,10 +20,12 @@ import {
     useVideoGeneration,
     processAndDownloadAll,
     useAppControls,
-    embedJsonInPng,
+    useBatchGeneration,
+    applyIdeaResult, applyIdeaEditResult,
 } from './uiUtils';
 import { MagicWandIcon } from './icons';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
+
+const STYLE_REFERENCE_IDEA = "Style Reference";
 
 interface AvatarCreatorProps {
     mainTitle: string;
@@ -54,13 +56,26 @@ const AvatarCreator: React.FC<AvatarCreatorProps> = (props) => {
         ...headerProps
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<AvatarCreatorState>('avatar-creator', {
+        generate: (idea, { uploadedImage, styleReferenceImage, options }, { signal }) => idea === STYLE_REFERENCE_IDEA
+            ? generatePatrioticImage(uploadedImage!, '', options.additionalPrompt, options.removeWatermark, options.aspectRatio, styleReferenceImage, { signal })
+            : generatePatrioticImage(uploadedImage!, idea, options.additionalPrompt, options.removeWatermark, options.aspectRatio, undefined, { signal }),
+        applyResult: applyIdeaResult,
+        applyEditResult: applyIdeaEditResult,
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getEditJobLabel: idea => t('jobsTray_editLabel', idea),
+        onComplete: () => toast.success("Đã hoàn tất tạo ảnh."),
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
-    const { videoTasks, generateVideo } = useVideoGeneration();
+    const { videoTasks, generateVideo } = useVideoGeneration('avatar-creator');
     const isMobile = useMediaQuery('(max-width: 768px)');
     const [localPrompt, setLocalPrompt] = useState(appState.options.additionalPrompt);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const hasLoggedGeneration = useRef(false);
 
     useEffect(() => {
         setLocalPrompt(appState.options.additionalPrompt);
@@ -137,74 +152,26 @@ const AvatarCreator: React.FC<AvatarCreatorProps> = (props) => {
     const executeGeneration = async (ideas?: string[]) => {
         if (!appState.uploadedImage) return;
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        const currentCredits = getUserCredits(username);
-        
-        // Estimate needed credits
-        const count = appState.styleReferenceImage ? 1 : (ideas ? ideas.length : 0);
-        if (currentCredits < count) {
-            toast.error(`Bạn cần ${count} credit nhưng chỉ còn ${currentCredits}.`);
-            return;
+        if (!appState.styleReferenceImage) {
+            if (!ideas || ideas.length === 0) return;
+            if (ideas.length > maxIdeas && !ideas.includes(t('avatarCreator_randomConcept'))) {
+                toast.error(t('avatarCreator_maxIdeasError', maxIdeas));
+                return;
+            }
         }
-        // --------------------
 
-        hasLoggedGeneration.current = false;
-        
         // --- Branch 1: Generation from Style Reference Image ---
         if (appState.styleReferenceImage) {
-            const idea = "Style Reference";
+            const idea = STYLE_REFERENCE_IDEA;
             const preGenState = { ...appState, selectedIdeas: [idea] };
             const stage: 'generating' = 'generating';
             const generatingState = { ...appState, stage, generatedImages: { [idea]: { status: 'pending' as const } }, selectedIdeas: [idea] };
-            onStateChange(generatingState);
-
-            try {
-                const resultUrl = await generatePatrioticImage(
-                    appState.uploadedImage,
-                    '',
-                    appState.options.additionalPrompt,
-                    appState.options.removeWatermark,
-                    appState.options.aspectRatio,
-                    appState.styleReferenceImage
-                );
-                
-                // Deduct Credit
-                decreaseUserCredits(username);
-                refreshCredits();
-
-                const settingsToEmbed = {
-                    viewId: 'avatar-creator',
-                    state: { ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-                };
-                const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-                logGeneration('avatar-creator', preGenState, urlWithMetadata);
-                onStateChange({
-                    ...generatingState,
-                    stage: 'results',
-                    generatedImages: { [idea]: { status: 'done' as const, url: urlWithMetadata } },
-                    historicalImages: [...generatingState.historicalImages, { idea, url: urlWithMetadata }],
-                });
-                addImagesToGallery([urlWithMetadata]);
-                toast.success(`Tạo ảnh thành công.`);
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                onStateChange({
-                    ...generatingState,
-                    stage: 'results',
-                    generatedImages: { [idea]: { status: 'error' as const, error: errorMessage } },
-                });
-            }
+            await startBatch(generatingState, [idea], preGenState);
             return;
         }
 
         // --- Branch 2: Generation from Selected Ideas ---
-        if (!ideas || ideas.length === 0) return;
-        if (ideas.length > maxIdeas && !ideas.includes(t('avatarCreator_randomConcept'))) {
-            toast.error(t('avatarCreator_maxIdeasError', maxIdeas));
-            return;
-        }
+        if (!ideas) return;
 
         const preGenState = { ...appState, selectedIdeas: ideas };
         const randomConceptString = t('avatarCreator_randomConcept');
@@ -255,70 +222,8 @@ const AvatarCreator: React.FC<AvatarCreatorProps> = (props) => {
             initialGeneratedImages[idea] = { status: 'pending' as const };
         });
         
-        onStateChange({ ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate });
-
-        const concurrencyLimit = 2;
-        const ideasQueue = [...ideasToGenerate];
-        
-        let currentAppState: AvatarCreatorState = { ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
-        const settingsToEmbed = {
-            viewId: 'avatar-creator',
-            state: { ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-        };
-
-        const processIdea = async (idea: string) => {
-            try {
-                const resultUrl = await generatePatrioticImage(appState.uploadedImage!, idea, appState.options.additionalPrompt, appState.options.removeWatermark, appState.options.aspectRatio);
-                
-                // Deduct Credit per image
-                decreaseUserCredits(username);
-                refreshCredits();
-
-                const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-                
-                if (!hasLoggedGeneration.current) {
-                    logGeneration('avatar-creator', preGenState, urlWithMetadata);
-                    hasLoggedGeneration.current = true;
-                }
-
-                currentAppState = {
-                    ...currentAppState,
-                    generatedImages: {
-                        ...currentAppState.generatedImages,
-                        [idea]: { status: 'done' as const, url: urlWithMetadata },
-                    },
-                    historicalImages: [...currentAppState.historicalImages, { idea, url: urlWithMetadata }],
-                };
-                onStateChange(currentAppState);
-                addImagesToGallery([urlWithMetadata]);
-
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                 currentAppState = {
-                    ...currentAppState,
-                    generatedImages: {
-                        ...currentAppState.generatedImages,
-                        [idea]: { status: 'error' as const, error: errorMessage },
-                    },
-                };
-                onStateChange(currentAppState);
-                console.error(`Failed to generate image for ${idea}:`, err);
-            }
-        };
-
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (ideasQueue.length > 0) {
-                const idea = ideasQueue.shift();
-                if (idea) {
-                    await processIdea(idea);
-                }
-            }
-        });
-
-        await Promise.all(workers);
-        
-        onStateChange({ ...currentAppState, stage: 'results' });
-        toast.success("Đã hoàn tất tạo ảnh.");
+        const generatingState: AvatarCreatorState = { ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
+        await startBatch(generatingState, ideasToGenerate, preGenState);
     };
 
     const handleGenerateClick = async () => {
@@ -338,53 +243,16 @@ const AvatarCreator: React.FC<AvatarCreatorProps> = (props) => {
     };
 
     const handleRegenerateIdea = async (idea: string, customPrompt: string) => {
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
         const imageToEditState = appState.generatedImages[idea];
         if (!imageToEditState || imageToEditState.status !== 'done' || !imageToEditState.url) {
             return;
         }
-
-        const imageUrlToEdit = imageToEditState.url;
-        const preGenState = { ...appState };
-        
-        onStateChange({
-            ...appState,
-            generatedImages: { ...appState.generatedImages, [idea]: { status: 'pending' as const } }
-        });
-
-        try {
-            const resultUrl = await editImageWithPrompt(imageUrlToEdit, customPrompt);
-            
-            // Deduct Credit
-            const next = decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Chỉnh sửa thành công. Còn ${next} lượt.`);
-
-            const settingsToEmbed = {
-                viewId: 'avatar-creator',
-                state: { ...appState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('avatar-creator', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                generatedImages: { ...appState.generatedImages, [idea]: { status: 'done' as const, url: urlWithMetadata } },
-                historicalImages: [...appState.historicalImages, { idea: `${idea}-edit`, url: urlWithMetadata }],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-             onStateChange({
-                ...appState,
-                generatedImages: { ...appState.generatedImages, [idea]: { status: 'error' as const, error: errorMessage } }
-            });
-            console.error(`Failed to regenerate image for ${idea}:`, err);
-        }
+        await startEdit(
+            { ...appState, generatedImages: { ...appState.generatedImages, [idea]: { status: 'pending' as const } } },
+            idea,
+            { sourceUrl: imageToEditState.url, prompt: customPrompt },
+            appState
+        );
     };
     
      const handleGeneratedImageChange = (idea: string) => (newUrl: string) => {
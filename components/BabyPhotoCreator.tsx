@@ -5,10 +5,10 @@
 // @-NOTE-TO-SYSTEM: Thành phần này chia sẻ mã nguồn đáng kể với AvatarCreator.tsx.
 // Sự trùng lặp này hiện là có chủ ý để cho phép các tính năng phát triển độc lập.
 // Việc tái cấu trúc thành một thành phần chung, duy nhất được lên kế hoạch cho phiên bản tương lai và sự trùng lặp này không nên được "sửa" tự động.
-import React, { useState, ChangeEvent, useCallback, useEffect, useRef } from 'react';
+import React, { useState, ChangeEvent, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generateBabyPhoto, estimateAgeGroup, editImageWithPrompt } from '../services/geminiService';
+import { generateBabyPhoto, estimateAgeGroup } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -23,10 +23,12 @@ import {
     useVideoGeneration,
     processAndDownloadAll,
     useAppControls,
-    embedJsonInPng,
+    useBatchGeneration,
+    applyIdeaResult, applyIdeaEditResult,
 } from './uiUtils';
 import { MagicWandIcon } from './icons';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
+
+const STYLE_REFERENCE_IDEA = "Style Reference";
 
 interface BabyPhotoCreatorProps {
     mainTitle: string;
@@ -57,13 +59,26 @@ const BabyPhotoCreator: React.FC<BabyPhotoCreatorProps> = (props) => {
         ...headerProps
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<BabyPhotoCreatorState>('baby-photo-creator', {
+        generate: (idea, { uploadedImage, styleReferenceImage, options }, { signal }) => idea === STYLE_REFERENCE_IDEA
+            ? generateBabyPhoto(uploadedImage!, '', options.additionalPrompt, options.removeWatermark, options.aspectRatio, styleReferenceImage, { signal })
+            : generateBabyPhoto(uploadedImage!, idea, options.additionalPrompt, options.removeWatermark, options.aspectRatio, undefined, { signal }),
+        applyResult: applyIdeaResult,
+        applyEditResult: applyIdeaEditResult,
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getEditJobLabel: idea => t('jobsTray_editLabel', idea),
+        onComplete: () => toast.success("Đã hoàn tất tạo ảnh."),
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
-    const { videoTasks, generateVideo } = useVideoGeneration();
+    const { videoTasks, generateVideo } = useVideoGeneration('baby-photo-creator');
     const isMobile = useMediaQuery('(max-width: 768px)');
     const [localPrompt, setLocalPrompt] = useState(appState.options.additionalPrompt);
     const [isEstimatingAge, setIsEstimatingAge] = useState(false);
-    const hasLoggedGeneration = useRef(false);
 
     useEffect(() => {
         setLocalPrompt(appState.options.additionalPrompt);
@@ -140,77 +155,27 @@ const BabyPhotoCreator: React.FC<BabyPhotoCreatorProps> = (props) => {
     const executeGeneration = async (ideas?: string[]) => {
         if (!appState.uploadedImage) return;
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        const currentCredits = getUserCredits(username);
-        
-        // Estimate needed credits
-        const count = appState.styleReferenceImage ? 1 : (ideas ? ideas.length : 0);
-        if (currentCredits < count) {
-            toast.error(`Bạn cần ${count} credit nhưng chỉ còn ${currentCredits}.`);
-            return;
+        if (!appState.styleReferenceImage) {
+            if (!ideas || ideas.length === 0) return;
+            if (ideas.length > maxIdeas && !ideas.includes(t('babyPhotoCreator_randomConcept'))) {
+                toast.error(t('babyPhotoCreator_maxIdeasError', maxIdeas));
+                return;
+            }
         }
-        // --------------------
-
-        hasLoggedGeneration.current = false;
 
         if (appState.styleReferenceImage) {
-            const idea = "Style Reference";
+            const idea = STYLE_REFERENCE_IDEA;
             const preGenState = { ...appState, selectedIdeas: [idea] };
             const stage: 'generating' = 'generating';
             // FIX: Capture intermediate state to pass to subsequent updates, avoiding stale state issues.
             // FIX: The status property was being inferred as a generic 'string'. Using 'as const' ensures
             // it's typed as a literal, which is assignable to the 'ImageStatus' type.
             const generatingState = { ...appState, stage, generatedImages: { [idea]: { status: 'pending' as const } }, selectedIdeas: [idea] };
-            onStateChange(generatingState);
-
-            try {
-                const resultUrl = await generateBabyPhoto(
-                    appState.uploadedImage,
-                    '',
-                    appState.options.additionalPrompt,
-                    appState.options.removeWatermark,
-                    appState.options.aspectRatio,
-                    appState.styleReferenceImage
-                );
-                
-                // Deduct Credit
-                decreaseUserCredits(username);
-                refreshCredits();
-
-                const settingsToEmbed = {
-                    viewId: 'baby-photo-creator',
-                    state: { ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-                };
-                const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-                logGeneration('baby-photo-creator', preGenState, urlWithMetadata);
-                // FIX: Pass a state object instead of a function to `onStateChange`.
-                onStateChange({
-                    ...generatingState,
-                    stage: 'results',
-                    generatedImages: { [idea]: { status: 'done' as const, url: urlWithMetadata } },
-                    historicalImages: [...generatingState.historicalImages, { idea, url: urlWithMetadata }],
-                });
-                addImagesToGallery([urlWithMetadata]);
-                toast.success(`Tạo ảnh thành công.`);
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                // FIX: Pass a state object instead of a function to `onStateChange`.
-                onStateChange({
-                    ...generatingState,
-                    stage: 'results',
-                    generatedImages: { [idea]: { status: 'error' as const, error: errorMessage } },
-                });
-            }
+            await startBatch(generatingState, [idea], preGenState);
             return;
         }
 
-        if (!ideas || ideas.length === 0) return;
-        if (ideas.length > maxIdeas && !ideas.includes(t('babyPhotoCreator_randomConcept'))) {
-            toast.error(t('babyPhotoCreator_maxIdeasError', maxIdeas));
-            return;
-        }
+        if (!ideas) return;
 
         const preGenState = { ...appState, selectedIdeas: ideas };
         const randomConceptString = t('babyPhotoCreator_randomConcept');
@@ -254,72 +219,8 @@ const BabyPhotoCreator: React.FC<BabyPhotoCreatorProps> = (props) => {
             initialGeneratedImages[idea] = { status: 'pending' as const };
         });
         
-        onStateChange({ ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate });
-
-        const concurrencyLimit = 2;
-        const ideasQueue = [...ideasToGenerate];
-        
-        let currentAppState: BabyPhotoCreatorState = { ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
-        const settingsToEmbed = {
-            viewId: 'baby-photo-creator',
-            state: { ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-        };
-
-        const processIdea = async (idea: string) => {
-            try {
-                const resultUrl = await generateBabyPhoto(appState.uploadedImage!, idea, appState.options.additionalPrompt, appState.options.removeWatermark, appState.options.aspectRatio);
-                
-                 // Deduct Credit per image
-                decreaseUserCredits(username);
-                refreshCredits();
-
-                const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-                
-                if (!hasLoggedGeneration.current) {
-                    logGeneration('baby-photo-creator', preGenState, urlWithMetadata);
-                    hasLoggedGeneration.current = true;
-                }
-                
-                currentAppState = {
-                    ...currentAppState,
-                    generatedImages: {
-                        ...currentAppState.generatedImages,
-                        // FIX: Add 'as const' to prevent type widening of 'status' to string.
-                        [idea]: { status: 'done' as const, url: urlWithMetadata },
-                    },
-                    historicalImages: [...currentAppState.historicalImages, { idea, url: urlWithMetadata }],
-                };
-                onStateChange(currentAppState);
-                addImagesToGallery([urlWithMetadata]);
-
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                 currentAppState = {
-                    ...currentAppState,
-                    generatedImages: {
-                        ...currentAppState.generatedImages,
-                        // FIX: Add 'as const' to prevent type widening of 'status' to string.
-                        [idea]: { status: 'error' as const, error: errorMessage },
-                    },
-                };
-                onStateChange(currentAppState);
-                console.error(`Failed to generate image for ${idea}:`, err);
-            }
-        };
-
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (ideasQueue.length > 0) {
-                const idea = ideasQueue.shift();
-                if (idea) {
-                    await processIdea(idea);
-                }
-            }
-        });
-
-        await Promise.all(workers);
-        
-        onStateChange({ ...currentAppState, stage: 'results' });
-        toast.success("Đã hoàn tất tạo ảnh.");
+        const generatingState: BabyPhotoCreatorState = { ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
+        await startBatch(generatingState, ideasToGenerate, preGenState);
     };
 
     const handleGenerateClick = async () => {
@@ -339,57 +240,17 @@ const BabyPhotoCreator: React.FC<BabyPhotoCreatorProps> = (props) => {
     };
 
     const handleRegenerateIdea = async (idea: string, customPrompt: string) => {
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
         // FIX: Remove 'as any' type cast to fix type error on 'status' property.
         const imageToEditState = appState.generatedImages[idea];
         if (!imageToEditState || imageToEditState.status !== 'done' || !imageToEditState.url) {
             return;
         }
-
-        const imageUrlToEdit = imageToEditState.url;
-        const preGenState = { ...appState };
-        
-        onStateChange({
-            ...appState,
-            // FIX: Add 'as const' to prevent type widening of 'status' to string.
-            generatedImages: { ...appState.generatedImages, [idea]: { status: 'pending' as const } }
-        });
-
-        try {
-            const resultUrl = await editImageWithPrompt(imageUrlToEdit, customPrompt);
-            
-            // Deduct Credit
-            const next = decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Chỉnh sửa thành công. Còn ${next} lượt.`);
-
-            const settingsToEmbed = {
-                viewId: 'baby-photo-creator',
-                state: { ...appState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('baby-photo-creator', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                // FIX: Add 'as const' to prevent type widening of 'status' to string.
-                generatedImages: { ...appState.generatedImages, [idea]: { status: 'done' as const, url: urlWithMetadata } },
-                historicalImages: [...appState.historicalImages, { idea: `${idea}-edit`, url: urlWithMetadata }],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-             onStateChange({
-                ...appState,
-                // FIX: Add 'as const' to prevent type widening of 'status' to string.
-                generatedImages: { ...appState.generatedImages, [idea]: { status: 'error' as const, error: errorMessage } }
-            });
-            console.error(`Failed to regenerate image for ${idea}:`, err);
-        }
+        await startEdit(
+            { ...appState, generatedImages: { ...appState.generatedImages, [idea]: { status: 'pending' as const } } },
+            idea,
+            { sourceUrl: imageToEditState.url, prompt: customPrompt },
+            appState
+        );
     };
     
      const handleGeneratedImageChange = (idea: string) => (newUrl: string) => {
@@ -2,10 +2,10 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useCallback, useEffect, useRef, ChangeEvent } from 'react';
+import React, { useState, useCallback, useEffect, ChangeEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generateBeautyImage, editImageWithPrompt, analyzeForBeautyConcepts } from '../services/geminiService';
+import { generateBeautyImage, analyzeForBeautyConcepts } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -20,11 +20,13 @@ import {
     useVideoGeneration,
     processAndDownloadAll,
     useAppControls,
-    embedJsonInPng,
+    useBatchGeneration,
+    applyIdeaResult, applyIdeaEditResult,
     useMediaQuery,
 } from './uiUtils';
 import { MagicWandIcon } from './icons';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
+
+const STYLE_REFERENCE_IDEA = "Style Reference";
 
 interface BeautyCreatorProps {
     mainTitle: string;
@@ -55,13 +57,26 @@ const BeautyCreator: React.FC<BeautyCreatorProps> = (props) => {
         ...headerProps 
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<BeautyCreatorState>('beauty-creator', {
+        generate: (idea, { uploadedImage, styleReferenceImage, options }, { signal }) => idea === STYLE_REFERENCE_IDEA
+            ? generateBeautyImage(uploadedImage!, '', options, styleReferenceImage, { signal })
+            : generateBeautyImage(uploadedImage!, idea, options, undefined, { signal }),
+        applyResult: applyIdeaResult,
+        applyEditResult: applyIdeaEditResult,
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getEditJobLabel: idea => t('jobsTray_editLabel', idea),
+        onComplete: () => toast.success("Đã hoàn tất."),
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
-    const { videoTasks, generateVideo } = useVideoGeneration();
+    const { videoTasks, generateVideo } = useVideoGeneration('beauty-creator');
     const isMobile = useMediaQuery('(max-width: 768px)');
     const [localNotes, setLocalNotes] = useState(appState.options.notes);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const hasLoggedGeneration = useRef(false);
 
     const IDEAS_BY_CATEGORY = t('beautyCreator_ideasByCategory');
     const ASPECT_RATIO_OPTIONS = t('aspectRatioOptions');
@@ -130,64 +145,23 @@ const BeautyCreator: React.FC<BeautyCreatorProps> = (props) => {
             return;
         }
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        const currentCredits = getUserCredits(username);
-        
-        // Estimate needed credits
-        const count = appState.styleReferenceImage ? 1 : (ideas ? ideas.length : 0);
-        if (currentCredits < count) {
-            toast.error(`Bạn cần ${count} credit nhưng chỉ còn ${currentCredits}.`);
-            return;
+        if (!appState.styleReferenceImage) {
+            if (!ideas || ideas.length === 0) return;
+            if (ideas.length > maxIdeas && !ideas.includes(t('beautyCreator_randomConcept'))) {
+                toast.error(t('beautyCreator_maxIdeasError', maxIdeas));
+                return;
+            }
         }
-        // --------------------
-
-        hasLoggedGeneration.current = false;
 
         if (appState.styleReferenceImage) {
-            const idea = "Style Reference";
+            const idea = STYLE_REFERENCE_IDEA;
             const preGenState = { ...appState, selectedIdeas: [idea] };
             const generatingState = { ...appState, stage: 'generating' as const, generatedImages: { [idea]: { status: 'pending' as const } }, selectedIdeas: [idea] };
-            onStateChange(generatingState);
-
-            try {
-                const resultUrl = await generateBeautyImage(appState.uploadedImage, '', appState.options, appState.styleReferenceImage);
-                
-                 // Deduct Credit
-                decreaseUserCredits(username);
-                refreshCredits();
-                
-                const settingsToEmbed = { 
-                    viewId: 'beauty-creator', 
-                    state: { ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-                };
-                const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-                logGeneration('beauty-creator', preGenState, urlWithMetadata);
-                onStateChange({
-                    ...generatingState,
-                    stage: 'results',
-                    generatedImages: { [idea]: { status: 'done' as const, url: urlWithMetadata } },
-                    historicalImages: [...generatingState.historicalImages, { idea, url: urlWithMetadata }],
-                });
-                addImagesToGallery([urlWithMetadata]);
-                toast.success("Tạo ảnh thành công.");
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                onStateChange({
-                    ...generatingState,
-                    stage: 'results',
-                    generatedImages: { [idea]: { status: 'error' as const, error: errorMessage } },
-                });
-            }
+            await startBatch(generatingState, [idea], preGenState);
             return;
         }
         
-        if (!ideas || ideas.length === 0) return;
-        if (ideas.length > maxIdeas && !ideas.includes(t('beautyCreator_randomConcept'))) {
-            toast.error(t('beautyCreator_maxIdeasError', maxIdeas));
-            return;
-        }
+        if (!ideas) return;
         
         const preGenState = { ...appState, selectedIdeas: ideas };
         const randomConceptString = t('beautyCreator_randomConcept');
@@ -234,55 +208,8 @@ const BeautyCreator: React.FC<BeautyCreatorProps> = (props) => {
         const initialGeneratedImages = { ...appState.generatedImages };
         // FIX: Add 'as const' to prevent type widening of 'status' to string.
         ideasToGenerate.forEach(idea => { initialGeneratedImages[idea] = { status: 'pending' as const }; });
-        onStateChange({ ...appState, stage: 'generating', generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate });
-
-        const concurrencyLimit = 2;
-        const ideasQueue = [...ideasToGenerate];
-        
-        let currentAppState: BeautyCreatorState = { ...appState, stage: 'generating', generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
-        const settingsToEmbed = {
-            viewId: 'beauty-creator',
-            state: { ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-        };
-
-        const processIdea = async (idea: string) => {
-            try {
-                const resultUrl = await generateBeautyImage(appState.uploadedImage!, idea, appState.options);
-                
-                // Deduct Credit per image
-                decreaseUserCredits(username);
-                refreshCredits();
-
-                const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-                
-                if (!hasLoggedGeneration.current) {
-                    logGeneration('beauty-creator', preGenState, urlWithMetadata);
-                    hasLoggedGeneration.current = true;
-                }
-                
-                currentAppState = {
-                    ...currentAppState,
-                    // FIX: Add 'as const' to prevent type widening of 'status' to string.
-                    generatedImages: { ...currentAppState.generatedImages, [idea]: { status: 'done' as const, url: urlWithMetadata } },
-                    historicalImages: [...currentAppState.historicalImages, { idea, url: urlWithMetadata }],
-                };
-                onStateChange(currentAppState);
-                addImagesToGallery([urlWithMetadata]);
-
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                 currentAppState = {
-                    ...currentAppState,
-                    // FIX: Add 'as const' to prevent type widening of 'status' to string.
-                    generatedImages: { ...currentAppState.generatedImages, [idea]: { status: 'error' as const, error: errorMessage } },
-                };
-                onStateChange(currentAppState);
-            }
-        };
-        const workers = Array(concurrencyLimit).fill(null).map(async () => { while (ideasQueue.length > 0) { const idea = ideasQueue.shift(); if (idea) await processIdea(idea); } });
-        await Promise.all(workers);
-        onStateChange({ ...currentAppState, stage: 'results' });
-        toast.success("Đã hoàn tất.");
+        const generatingState: BeautyCreatorState = { ...appState, stage: 'generating', generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
+        await startBatch(generatingState, ideasToGenerate, preGenState);
     };
 
     const handleGenerateClick = async () => {
@@ -302,47 +229,15 @@ const BeautyCreator: React.FC<BeautyCreatorProps> = (props) => {
     };
 
     const handleRegeneration = async (idea: string, prompt: string) => {
-         // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
         // FIX: Remove 'as any' type cast to fix type error on 'status' property.
         const imageToEditState = appState.generatedImages[idea];
         if (!imageToEditState || imageToEditState.status !== 'done' || !imageToEditState.url) return;
-
-        const imageUrlToEdit = imageToEditState.url;
-        const preGenState = { ...appState };
-        // FIX: Add 'as const' to prevent type widening of 'status' to string.
-        onStateChange({ ...appState, generatedImages: { ...appState.generatedImages, [idea]: { status: 'pending' as const } } });
-
-        try {
-            const resultUrl = await editImageWithPrompt(imageUrlToEdit, prompt);
-            
-            // Deduct Credit
-            const next = decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Chỉnh sửa thành công. Còn ${next} lượt.`);
-            
-            const settingsToEmbed = {
-                viewId: 'beauty-creator',
-                state: { ...appState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('beauty-creator', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                // FIX: Add 'as const' to prevent type widening of 'status' to string.
-                generatedImages: { ...appState.generatedImages, [idea]: { status: 'done' as const, url: urlWithMetadata } },
-                historicalImages: [...appState.historicalImages, { idea: `${idea}-edit`, url: urlWithMetadata }],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            // FIX: Add 'as const' to prevent type widening of 'status' to string.
-            onStateChange({ ...appState, generatedImages: { ...appState.generatedImages, [idea]: { status: 'error' as const, error: errorMessage } } });
-        }
+        await startEdit(
+            { ...appState, generatedImages: { ...appState.generatedImages, [idea]: { status: 'pending' as const } } },
+            idea,
+            { sourceUrl: imageToEditState.url, prompt: prompt },
+            appState
+        );
     };
 
     const handleUploadedImageChange = (newUrl: string) => {
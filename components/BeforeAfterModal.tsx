@@ -9,6 +9,8 @@ import { useAppControls, useImageEditor, useLightbox } from './uiUtils';
 import { cn } from '../lib/utils';
 import Lightbox from './Lightbox';
 import { ImageThumbnailActions } from './ImageThumbnailActions';
+import { StoredImage } from './StoredImage';
+import { storeImage } from '../lib/imageStore';
 
 interface BeforeAfterModalProps {
     isOpen: boolean;
@@ -71,10 +73,12 @@ const BeforeAfterModal: React.FC<BeforeAfterModalProps> = ({ isOpen, onClose })
         const urlToEdit = imageGallery[indexToEdit];
         if (isVideo(urlToEdit)) return;
 
-        openImageEditor(urlToEdit, (newUrl) => {
+        openImageEditor(urlToEdit, async (newUrl) => {
             replaceImageInGallery(indexToEdit, newUrl);
-            if (urlToEdit === beforeImage) setBeforeImage(newUrl);
-            if (urlToEdit === afterImage) setAfterImage(newUrl);
+            // The gallery now holds the edited image by reference; select it the same way.
+            const newRef = await storeImage(newUrl);
+            if (urlToEdit === beforeImage) setBeforeImage(newRef);
+            if (urlToEdit === afterImage) setAfterImage(newRef);
         });
     };
 
@@ -128,7 +132,7 @@ const BeforeAfterModal: React.FC<BeforeAfterModalProps> = ({ isOpen, onClose })
                                                 {isVideo(img) ? (
                                                     <video src={img} autoPlay loop muted playsInline className="w-full h-auto block" />
                                                 ) : (
-                                                    <img src={img} alt={`Gallery image ${index + 1}`} loading="lazy" />
+                                                    <StoredImage src={img} alt={`Gallery image ${index + 1}`} loading="lazy" />
                                                 )}
                                                 <div className={cn(
                                                     "absolute inset-0 transition-all duration-200 pointer-events-none",
@@ -165,12 +169,12 @@ const BeforeAfterModal: React.FC<BeforeAfterModalProps> = ({ isOpen, onClose })
                                     <div className="comparison-container">
                                         {/* After Image (Bottom Layer) */}
                                         <div className="comparison-image-wrapper">
-                                            <img src={afterImage} alt={t('beforeAfter_after')} className="comparison-image" loading="lazy" />
+                                            <StoredImage src={afterImage} alt={t('beforeAfter_after')} className="comparison-image" loading="lazy" />
                                              <div className="absolute bottom-2 right-2 bg-green-500 text-white text-xs font-bold px-2 py-1 rounded">2: {t('beforeAfter_after')}</div>
                                         </div>
                                         {/* Before Image (Top Layer, Clipped) */}
                                         <div className="comparison-image-wrapper" style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}>
-                                            <img src={beforeImage} alt={t('beforeAfter_before')} className="comparison-image" loading="lazy" />
+                                            <StoredImage src={beforeImage} alt={t('beforeAfter_before')} className="comparison-image" loading="lazy" />
                                             <div className="absolute bottom-2 left-2 bg-blue-500 text-white text-xs font-bold px-2 py-1 rounded">1: {t('beforeAfter_before')}</div>
                                         </div>
                                         {/* Slider Handle */}
@@ -4,7 +4,7 @@
 */
 import React, { useState, useCallback, ChangeEvent, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { generateDressedModelImage, editImageWithPrompt } from '../services/geminiService';
+import { generateDressedModelImage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -20,11 +20,12 @@ import {
     processAndDownloadAll,
     SearchableSelect,
     useAppControls,
-    embedJsonInPng,
+    useBatchGeneration,
+    applySingleResult,
+    SINGLE_RESULT_KEY,
     getInitialStateForApp,
 } from './uiUtils';
 import toast from 'react-hot-toast';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
 
 interface DressTheModelProps {
     mainTitle: string;
@@ -54,9 +55,20 @@ const DressTheModel: React.FC<DressTheModelProps> = (props) => {
         ...headerProps
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<DressTheModelState>('dress-the-model', {
+        generate: (_key, state, { signal }) => generateDressedModelImage(state.modelImage, state.clothingImage, state.options, { signal }),
+        applyResult: applySingleResult,
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getJobLabel: () => t('jobsTray_generateLabel'),
+        onComplete: (_state, failedKeys) => { if (failedKeys.length === 0) toast.success(`Tạo ảnh thành công.`); },
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
-    const { videoTasks, generateVideo } = useVideoGeneration();
+    const { videoTasks, generateVideo } = useVideoGeneration('dress-the-model');
     const isMobile = useMediaQuery('(max-width: 768px)');
     const [localNotes, setLocalNotes] = useState(appState.options.notes);
 
@@ -132,68 +144,13 @@ const DressTheModel: React.FC<DressTheModelProps> = (props) => {
     const executeInitialGeneration = async () => {
         if (!appState.modelImage || !appState.clothingImage) return;
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
         const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-        try {
-            // No need to transform options, the service handles '' and 'Tự động' correctly
-            const resultUrl = await generateDressedModelImage(appState.modelImage, appState.clothingImage, appState.options);
-            
-            // Deduct Credit
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Tạo ảnh thành công.`);
-
-            const settingsToEmbed = {
-                viewId: 'dress-the-model',
-                state: { ...appState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('dress-the-model', preGenState, urlWithMetadata);
-            onStateChange({ ...appState, stage: 'results', generatedImage: urlWithMetadata, historicalImages: [...appState.historicalImages, urlWithMetadata] });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startBatch({ ...appState, stage: 'generating', error: null }, [SINGLE_RESULT_KEY], preGenState);
     };
     
     const handleRegeneration = async (prompt: string) => {
         if (!appState.generatedImage) return;
-
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
-        const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-        try {
-            const resultUrl = await editImageWithPrompt(appState.generatedImage, prompt);
-            
-            // Deduct Credit
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Chỉnh sửa thành công.`);
-
-            const settingsToEmbed = {
-                viewId: 'dress-the-model',
-                state: { ...appState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('dress-the-model', preGenState, urlWithMetadata);
-            onStateChange({ ...appState, stage: 'results', generatedImage: urlWithMetadata, historicalImages: [...appState.historicalImages, urlWithMetadata] });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startEdit({ ...appState, stage: 'generating', error: null }, SINGLE_RESULT_KEY, { sourceUrl: appState.generatedImage, prompt }, appState);
     };
     
     const handleBackToOptions = () => {
@@ -2,10 +2,10 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useCallback, useEffect, useRef } from 'react';
+import React, { useState, ChangeEvent, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generateEntrepreneurImage, editImageWithPrompt, analyzeForEntrepreneurConcepts } from '../services/geminiService';
+import { generateEntrepreneurImage, analyzeForEntrepreneurConcepts } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -20,10 +20,12 @@ import {
     useVideoGeneration,
     processAndDownloadAll,
     useAppControls,
-    embedJsonInPng,
+    useBatchGeneration,
+    applyIdeaResult, applyIdeaEditResult,
 } from './uiUtils';
 import { MagicWandIcon } from './icons';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
+
+const STYLE_REFERENCE_IDEA = "Style Reference";
 
 interface EntrepreneurCreatorProps {
     mainTitle: string;
@@ -54,13 +56,26 @@ const EntrepreneurCreator: React.FC<EntrepreneurCreatorProps> = (props) => {
         ...headerProps
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<EntrepreneurCreatorState>('entrepreneur-creator', {
+        generate: (idea, { uploadedImage, styleReferenceImage, options }, { signal }) => idea === STYLE_REFERENCE_IDEA
+            ? generateEntrepreneurImage(uploadedImage!, '', options.additionalPrompt, options.removeWatermark, options.aspectRatio, styleReferenceImage, { signal })
+            : generateEntrepreneurImage(uploadedImage!, idea, options.additionalPrompt, options.removeWatermark, options.aspectRatio, undefined, { signal }),
+        applyResult: applyIdeaResult,
+        applyEditResult: applyIdeaEditResult,
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getEditJobLabel: idea => t('jobsTray_editLabel', idea),
+        onComplete: () => toast.success("Đã hoàn tất."),
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
-    const { videoTasks, generateVideo } = useVideoGeneration();
+    const { videoTasks, generateVideo } = useVideoGeneration('entrepreneur-creator');
     const isMobile = useMediaQuery('(max-width: 768px)');
     const [localPrompt, setLocalPrompt] = useState(appState.options.additionalPrompt);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const hasLoggedGeneration = useRef(false);
 
     useEffect(() => {
         setLocalPrompt(appState.options.additionalPrompt);
@@ -133,72 +148,24 @@ const EntrepreneurCreator: React.FC<EntrepreneurCreatorProps> = (props) => {
     const executeGeneration = async (ideas?: string[]) => {
         if (!appState.uploadedImage) return;
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        const currentCredits = getUserCredits(username);
-        
-        // Estimate needed credits
-        const count = appState.styleReferenceImage ? 1 : (ideas ? ideas.length : 0);
-        if (currentCredits < count) {
-            toast.error(`Bạn cần ${count} credit nhưng chỉ còn ${currentCredits}.`);
-            return;
+        if (!appState.styleReferenceImage) {
+            if (!ideas || ideas.length === 0) return;
+            if (ideas.length > maxIdeas && !ideas.includes(t('entrepreneurCreator_randomConcept'))) {
+                toast.error(t('entrepreneurCreator_maxIdeasError', maxIdeas));
+                return;
+            }
         }
-        // --------------------
-
-        hasLoggedGeneration.current = false;
 
         if (appState.styleReferenceImage) {
-            const idea = "Style Reference";
+            const idea = STYLE_REFERENCE_IDEA;
             const preGenState = { ...appState, selectedIdeas: [idea] };
             const stage: 'generating' = 'generating';
             const generatingState = { ...appState, stage, generatedImages: { [idea]: { status: 'pending' as const } }, selectedIdeas: [idea] };
-            onStateChange(generatingState);
-
-            try {
-                const resultUrl = await generateEntrepreneurImage(
-                    appState.uploadedImage,
-                    '',
-                    appState.options.additionalPrompt,
-                    appState.options.removeWatermark,
-                    appState.options.aspectRatio,
-                    appState.styleReferenceImage
-                );
-                
-                // Deduct Credit
-                decreaseUserCredits(username);
-                refreshCredits();
-
-                const settingsToEmbed = {
-                    viewId: 'entrepreneur-creator',
-                    state: { ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-                };
-                const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-                logGeneration('entrepreneur-creator', preGenState, urlWithMetadata);
-                onStateChange({
-                    ...generatingState,
-                    stage: 'results',
-                    generatedImages: { [idea]: { status: 'done' as const, url: urlWithMetadata } },
-                    historicalImages: [...generatingState.historicalImages, { idea, url: urlWithMetadata }],
-                });
-                addImagesToGallery([urlWithMetadata]);
-                toast.success("Tạo ảnh thành công.");
-            } catch (err) {
-                 const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                onStateChange({
-                    ...generatingState,
-                    stage: 'results',
-                    generatedImages: { [idea]: { status: 'error' as const, error: errorMessage } },
-                });
-            }
+            await startBatch(generatingState, [idea], preGenState);
             return;
         }
 
-        if (!ideas || ideas.length === 0) return;
-        if (ideas.length > maxIdeas && !ideas.includes(t('entrepreneurCreator_randomConcept'))) {
-            toast.error(t('entrepreneurCreator_maxIdeasError', maxIdeas));
-            return;
-        }
+        if (!ideas) return;
         
         const preGenState = { ...appState, selectedIdeas: ideas };
         const randomConceptString = t('entrepreneurCreator_randomConcept');
@@ -250,70 +217,8 @@ const EntrepreneurCreator: React.FC<EntrepreneurCreatorProps> = (props) => {
             initialGeneratedImages[idea] = { status: 'pending' as const };
         });
         
-        onStateChange({ ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate });
-
-        const concurrencyLimit = 2;
-        const ideasQueue = [...ideasToGenerate];
-        
-        let currentAppState: EntrepreneurCreatorState = { ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
-        const settingsToEmbed = {
-            viewId: 'entrepreneur-creator',
-            state: { ...preGenState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-        };
-
-        const processIdea = async (idea: string) => {
-            try {
-                const resultUrl = await generateEntrepreneurImage(appState.uploadedImage!, idea, appState.options.additionalPrompt, appState.options.removeWatermark, appState.options.aspectRatio);
-                
-                 // Deduct Credit per image
-                decreaseUserCredits(username);
-                refreshCredits();
-
-                const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-                
-                if (!hasLoggedGeneration.current) {
-                    logGeneration('entrepreneur-creator', preGenState, urlWithMetadata);
-                    hasLoggedGeneration.current = true;
-                }
-
-                currentAppState = {
-                    ...currentAppState,
-                    generatedImages: {
-                        ...currentAppState.generatedImages,
-                        [idea]: { status: 'done' as const, url: urlWithMetadata },
-                    },
-                    historicalImages: [...currentAppState.historicalImages, { idea, url: urlWithMetadata }],
-                };
-                onStateChange(currentAppState);
-                addImagesToGallery([urlWithMetadata]);
-
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                 currentAppState = {
-                    ...currentAppState,
-                    generatedImages: {
-                        ...currentAppState.generatedImages,
-                        [idea]: { status: 'error' as const, error: errorMessage },
-                    },
-                };
-                onStateChange(currentAppState);
-                console.error(`Failed to generate image for ${idea}:`, err);
-            }
-        };
-
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (ideasQueue.length > 0) {
-                const idea = ideasQueue.shift();
-                if (idea) {
-                    await processIdea(idea);
-                }
-            }
-        });
-
-        await Promise.all(workers);
-        
-        onStateChange({ ...currentAppState, stage: 'results' });
-        toast.success("Đã hoàn tất.");
+        const generatingState: EntrepreneurCreatorState = { ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
+        await startBatch(generatingState, ideasToGenerate, preGenState);
     };
 
     const handleGenerateClick = async () => {
@@ -333,53 +238,16 @@ const EntrepreneurCreator: React.FC<EntrepreneurCreatorProps> = (props) => {
     };
 
     const handleRegenerateIdea = async (idea: string, customPrompt: string) => {
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
         const imageToEditState = appState.generatedImages[idea];
         if (!imageToEditState || imageToEditState.status !== 'done' || !imageToEditState.url) {
             return;
         }
-        
-        const imageUrlToEdit = imageToEditState.url;
-        const preGenState = { ...appState };
-        
-        onStateChange({
-            ...appState,
-            generatedImages: { ...appState.generatedImages, [idea]: { status: 'pending' as const } }
-        });
-
-        try {
-            const resultUrl = await editImageWithPrompt(imageUrlToEdit, customPrompt);
-            
-            // Deduct Credit
-            const next = decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Chỉnh sửa thành công. Còn ${next} lượt.`);
-
-            const settingsToEmbed = {
-                viewId: 'entrepreneur-creator',
-                state: { ...appState, stage: 'configuring', generatedImages: {}, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('entrepreneur-creator', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                generatedImages: { ...appState.generatedImages, [idea]: { status: 'done' as const, url: urlWithMetadata } },
-                historicalImages: [...appState.historicalImages, { idea: `${idea}-edit`, url: urlWithMetadata }],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-             onStateChange({
-                ...appState,
-                generatedImages: { ...appState.generatedImages, [idea]: { status: 'error' as const, error: errorMessage } }
-            });
-            console.error(`Failed to regenerate image for ${idea}:`, err);
-        }
+        await startEdit(
+            { ...appState, generatedImages: { ...appState.generatedImages, [idea]: { status: 'pending' as const } } },
+            idea,
+            { sourceUrl: imageToEditState.url, prompt: customPrompt },
+            appState
+        );
     };
     
      const handleGeneratedImageChange = (idea: string) => (newUrl: string) => {
@@ -5,10 +5,10 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAppControls } from './uiUtils';
-import { LayoutIcon, BeforeAfterIcon, AppCoverIcon } from './icons';
+import { LayoutIcon, BeforeAfterIcon, AppCoverIcon, WorkspaceIcon } from './icons';
 
 const ExtraTools: React.FC<{ isOpen: boolean }> = ({ isOpen }) => {
-    const { openImageLayoutModal, openBeforeAfterModal, openAppCoverCreatorModal, t } = useAppControls();
+    const { openImageLayoutModal, openBeforeAfterModal, openAppCoverCreatorModal, openWorkspaceModal, t } = useAppControls();
 
     const tools = [
         {
@@ -28,6 +28,12 @@ const ExtraTools: React.FC<{ isOpen: boolean }> = ({ isOpen }) => {
             label: t('extraTools_appCover'),
             action: openAppCoverCreatorModal,
             icon: <AppCoverIcon className="h-5 w-5 group-hover:text-yellow-400 transition-colors" />,
+        },
+        {
+            id: 'workspace',
+            label: t('extraTools_workspace'),
+            action: openWorkspaceModal,
+            icon: <WorkspaceIcon className="h-5 w-5 group-hover:text-yellow-400 transition-colors" />,
         }
     ];
 
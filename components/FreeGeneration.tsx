@@ -18,14 +18,14 @@ import {
     useLightbox,
     useVideoGeneration,
     processAndDownloadAll,
-    embedJsonInPng,
     useAppControls,
+    useBatchGeneration,
+    SINGLE_RESULT_KEY,
     getInitialStateForApp,
     Switch,
 } from './uiUtils';
 import toast from 'react-hot-toast';
 import { MagicWandIcon } from './icons';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
 
 interface FreeGenerationProps {
     mainTitle: string;
@@ -63,8 +63,41 @@ const FreeGeneration: React.FC<FreeGenerationProps> = (props) => {
         ...headerProps
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
-    const { videoTasks, generateVideo } = useVideoGeneration();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<FreeGenerationState>('free-generation', {
+        // One job makes all of the requested images.
+        generate: (_key, state, { signal }) => generateFreeImage(
+            state.options.prompt,
+            state.options.numberOfImages,
+            state.options.aspectRatio,
+            state.image1,
+            state.image2,
+            state.image3,
+            state.image4,
+            state.options.removeWatermark,
+            { signal }
+        ),
+        applyResult: (state, _key, result) => 'error' in result
+            ? { ...state, error: result.error }
+            : { ...state, generatedImages: result.urls, historicalImages: [...state.historicalImages, ...result.urls] },
+        // An edit replaces the image at the index its key holds.
+        generateEdit: (edit, state, { signal }) => editImageWithPrompt(edit.sourceUrl, edit.prompt, undefined, state.options.removeWatermark, { signal }),
+        applyEditResult: (state, key, result) => 'error' in result
+            ? { ...state, error: result.error }
+            : {
+                ...state,
+                generatedImages: state.generatedImages.map((url, index) => index === Number(key) ? result.urls[0] : url),
+                historicalImages: [...state.historicalImages, ...result.urls],
+            },
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImages: [], historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getJobLabel: () => t('jobsTray_generateLabel'),
+        onComplete: (_state, failedKeys, reservation) => { if (failedKeys.length === 0) toast.success(`Tạo ảnh thành công. Bạn còn ${reservation.balance} lượt.`); },
+    });
+    const { videoTasks, generateVideo } = useVideoGeneration('free-generation');
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
     const isMobile = useMediaQuery('(max-width: 768px)');
     const [localPrompt, setLocalPrompt] = useState(appState.options.prompt);
@@ -123,19 +156,6 @@ const FreeGeneration: React.FC<FreeGenerationProps> = (props) => {
             return;
         }
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) {
-            toast.error("Bạn chưa đăng nhập, vui lòng đăng nhập lại.");
-            return;
-        }
-        const currentCredits = getUserCredits(username);
-        if (currentCredits <= 0) {
-            toast.error("Bạn đã sử dụng hết 5 lượt tạo ảnh. Vui lòng liên hệ admin để mua thêm credit.");
-            return;
-        }
-        // --------------------
-        
         let finalPrompt = appState.options.prompt;
         if (shouldEnhancePrompt && !appState.image1) {
             setIsEnhancing(true);
@@ -155,97 +175,18 @@ const FreeGeneration: React.FC<FreeGenerationProps> = (props) => {
         }
 
         const preGenState = { ...appState, options: { ...appState.options, prompt: finalPrompt } };
-        onStateChange({ ...preGenState, stage: 'generating', error: null, generatedImages: [] });
-
-        try {
-            const resultUrls = await generateFreeImage(
-                finalPrompt,
-                appState.options.numberOfImages,
-                appState.options.aspectRatio,
-                appState.image1,
-                appState.image2,
-                appState.image3,
-                appState.image4,
-                appState.options.removeWatermark
-            );
-
-            // --- Deduct Credit ---
-            const nextCredits = decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Tạo ảnh thành công. Bạn còn ${nextCredits} lượt.`);
-            // ---------------------
-
-            const settingsToEmbed = {
-                viewId: 'free-generation',
-                state: { ...preGenState, stage: 'configuring', generatedImages: [], historicalImages: [], error: null },
-            };
-        
-            const urlsWithMetadata = await Promise.all(
-                resultUrls.map(url => embedJsonInPng(url, settingsToEmbed, settings.enableImageMetadata))
-            );
-
-            if (urlsWithMetadata.length > 0) {
-                logGeneration('free-generation', preGenState, urlsWithMetadata[0]);
-            }
-
-            onStateChange({
-                ...preGenState,
-                stage: 'results',
-                generatedImages: urlsWithMetadata,
-                historicalImages: [...appState.historicalImages, ...urlsWithMetadata],
-            });
-            addImagesToGallery(urlsWithMetadata);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ ...preGenState, stage: 'results', error: errorMessage });
-        }
+        await startBatch(
+            { ...preGenState, stage: 'generating', error: null, generatedImages: [] },
+            [SINGLE_RESULT_KEY],
+            preGenState,
+            appState.options.numberOfImages
+        );
     };
 
     const handleRegeneration = async (index: number, prompt: string) => {
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
         const url = appState.generatedImages[index];
         if (!url) return;
-        
-        const originalGeneratedImages = [...appState.generatedImages];
-        const preGenState = { ...appState };
-        
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            const resultUrl = await editImageWithPrompt(url, prompt, undefined, appState.options.removeWatermark);
-            
-            // --- Deduct Credit ---
-            const nextCredits = decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Chỉnh sửa thành công. Còn ${nextCredits} lượt.`);
-            // ---------------------
-
-            const settingsToEmbed = {
-                viewId: 'free-generation',
-                state: { ...appState, stage: 'configuring', generatedImages: [], historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('free-generation', preGenState, urlWithMetadata);
-            
-            const newGeneratedImages = [...originalGeneratedImages];
-            newGeneratedImages[index] = urlWithMetadata;
-            
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImages: newGeneratedImages,
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ ...appState, stage: 'results', error: errorMessage, generatedImages: originalGeneratedImages });
-        }
+        await startEdit({ ...appState, stage: 'generating', error: null }, String(index), { sourceUrl: url, prompt }, appState);
     };
     
     const handleBackToOptions = () => {
@@ -4,11 +4,15 @@
 */
 import React, { useEffect, useState, useRef, ChangeEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { downloadAllImagesAsZip, ImageForZip, useLightbox, useAppControls, useImageEditor, combineImages } from './uiUtils';
+import { downloadAllImagesAsZip, ImageForZip, useLightbox, useAppControls, useImageEditor, useGenerationJobs, combineImages, showErrorToast } from './uiUtils';
 import Lightbox from './Lightbox';
 import { ImageThumbnail } from './ImageThumbnail';
 import { GalleryToolbar } from './GalleryToolbar';
 import { CloudUploadIcon } from './icons';
+import { throwIfCancelled } from '../services/geminiService';
+import { useEditLooks } from './ImageEditor/useEditLooks';
+import { applyEditLook } from './ImageEditor/ImageEditor.operations';
+import { type EditLook } from './ImageEditor/ImageEditor.types';
 
 interface GalleryModalProps {
     isOpen: boolean;
@@ -26,10 +30,13 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
 
     const { t, addImagesToGallery, removeImageFromGallery, replaceImageInGallery } = useAppControls();
     const { openImageEditor } = useImageEditor();
+    const { runJob } = useGenerationJobs('gallery');
+    const { looks } = useEditLooks();
     const [isDraggingOver, setIsDraggingOver] = useState(false);
     const [isSelectionMode, setIsSelectionMode] = useState(false);
     const [selectedIndices, setSelectedIndices] = useState<number[]>([]);
     const [isCombining, setIsCombining] = useState(false);
+    const [lookProgress, setLookProgress] = useState<{ name: string; done: number; total: number } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
@@ -127,6 +134,33 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
         }
     };
 
+    /**
+     * Applies a saved look to the selected images one by one in a background job. The
+     * originals stay; each result is added to the gallery as soon as it is rendered.
+     */
+    const handleApplyLook = async (look: EditLook) => {
+        const urls = selectedIndices.map(index => images[index]).filter(url => url && !url.startsWith('blob:'));
+        if (urls.length === 0) return;
+        setSelectedIndices([]);
+        setIsSelectionMode(false);
+        setLookProgress({ name: look.name, done: 0, total: urls.length });
+        try {
+            await runJob(t('galleryModal_applyLookJob', look.name, urls.length), async ({ signal, reportProgress }) => {
+                for (let i = 0; i < urls.length; i++) {
+                    throwIfCancelled(signal);
+                    const resultUrl = await applyEditLook(urls[i], look);
+                    await addImagesToGallery([resultUrl]);
+                    reportProgress((i + 1) / urls.length);
+                    setLookProgress({ name: look.name, done: i + 1, total: urls.length });
+                }
+            }, { retry: { maxAttempts: 1 } });
+        } catch (err) {
+            showErrorToast(err, t);
+        } finally {
+            setLookProgress(null);
+        }
+    };
+
     const processFiles = async (files: FileList | null) => {
         if (!files || files.length === 0) return;
         const imageFiles = Array.from(files).filter(file => file.type.startsWith('image/'));
@@ -195,7 +229,17 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
                                 onDownloadAll={handleDownloadAll}
                                 onCombineHorizontal={() => handleCombine('horizontal')}
                                 onCombineVertical={() => handleCombine('vertical')}
+                                looks={lookProgress ? [] : looks}
+                                onApplyLook={handleApplyLook}
                             />
+                            {lookProgress && (
+                                <div className="mb-4 flex-shrink-0">
+                                    <p className="text-sm text-neutral-300 mb-1">{t('galleryModal_applyLookProgress', lookProgress.name, lookProgress.done, lookProgress.total)}</p>
+                                    <div className="h-1.5 rounded bg-white/10 overflow-hidden">
+                                        <div className="h-full bg-yellow-400 transition-all" style={{ width: `${Math.round(lookProgress.done / lookProgress.total * 100)}%` }} />
+                                    </div>
+                                </div>
+                            )}
                             {images.length > 0 ? (
                                 <div className="gallery-grid">
                                     <AnimatePresence>
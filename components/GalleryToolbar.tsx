@@ -5,6 +5,7 @@
 import React from 'react';
 import { useAppControls } from './uiUtils';
 import { CloseIcon, CloudUploadIcon } from './icons';
+import { type EditLook } from './ImageEditor/ImageEditor.types';
 
 interface GalleryToolbarProps {
     isSelectionMode: boolean;
@@ -19,6 +20,8 @@ interface GalleryToolbarProps {
     onDownloadAll?: () => void; // Optional for contexts where download isn't needed
     onCombineHorizontal?: () => void;
     onCombineVertical?: () => void;
+    looks?: EditLook[];
+    onApplyLook?: (look: EditLook) => void;
 }
 
 export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({
@@ -34,6 +37,8 @@ export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({
     onDownloadAll,
     onCombineHorizontal,
     onCombineVertical,
+    looks,
+    onApplyLook,
 }) => {
     const { t } = useAppControls();
 
@@ -52,6 +57,21 @@ export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({
                              {isCombining ? t('galleryToolbar_combining') : t('galleryToolbar_combineVertical')}
                         </button>
                     )}
+                    {onApplyLook && looks && looks.length > 0 && (
+                        <select
+                            value=""
+                            onChange={e => {
+                                const look = looks.find(l => l.id === e.target.value);
+                                if (look) onApplyLook(look);
+                            }}
+                            disabled={selectedCount === 0 || isCombining}
+                            className="form-input !p-1.5 !text-sm !w-auto"
+                            aria-label={t('galleryToolbar_applyLook')}
+                        >
+                            <option value="" disabled>{t('galleryToolbar_applyLook')}</option>
+                            {looks.map(look => <option key={look.id} value={look.id}>{look.name}</option>)}
+                        </select>
+                    )}
                     <div className="w-px h-5 bg-white/20" />
                     <button onClick={onDeleteSelected} className="btn btn-secondary btn-sm !bg-red-500/20 !border-red-500/80 hover:!bg-red-500" disabled={selectedCount === 0 || isCombining}>
                         {t('common_delete')}
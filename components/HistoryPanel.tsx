@@ -4,18 +4,21 @@
 */
 import React, { useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAppControls } from './uiUtils';
+import { useAppControls, showErrorToast } from './uiUtils';
 import { type GenerationHistoryEntry } from './uiTypes';
-import { CloseIcon, DownloadIcon, ReloadIcon } from './icons';
+import { CloseIcon, DeleteIcon, DownloadIcon, ReloadIcon } from './icons';
 import { downloadJson } from './uiFileUtilities';
+import { StoredImage } from './StoredImage';
+import { hydrateImages } from '../lib/imageStore';
 
 interface HistoryItemProps {
     entry: GenerationHistoryEntry;
     onReload: (settings: GenerationHistoryEntry['settings']) => void;
     onDownload: (entry: GenerationHistoryEntry) => void;
+    onDelete: (id: string) => void;
 }
 
-const HistoryItem: React.FC<HistoryItemProps> = ({ entry, onReload, onDownload }) => {
+const HistoryItem: React.FC<HistoryItemProps> = ({ entry, onReload, onDownload, onDelete }) => {
     const { t } = useAppControls();
 
     const handleDownload = () => {
@@ -26,6 +29,10 @@ const HistoryItem: React.FC<HistoryItemProps> = ({ entry, onReload, onDownload }
         onReload(entry.settings);
     };
 
+    const handleDelete = () => {
+        onDelete(entry.id);
+    };
+
     return (
         <motion.li
             layout
@@ -35,7 +42,7 @@ const HistoryItem: React.FC<HistoryItemProps> = ({ entry, onReload, onDownload }
             transition={{ type: 'spring', stiffness: 300, damping: 30 }}
             className="flex items-start gap-4 p-3 bg-neutral-800/50 rounded-lg border border-transparent hover:border-yellow-400/30 hover:bg-neutral-800/80 transition-all"
         >
-            <img src={entry.thumbnailUrl} alt={`History thumbnail for ${entry.appName}`} className="w-16 h-16 object-cover rounded-md flex-shrink-0 bg-neutral-700" />
+            <StoredImage src={entry.thumbnailUrl} alt={`History thumbnail for ${entry.appName}`} className="w-16 h-16 object-cover rounded-md flex-shrink-0 bg-neutral-700" />
             <div className="flex-grow min-w-0">
                 <p className="font-bold text-yellow-400 truncate">{entry.appName}</p>
                 <p className="text-xs text-neutral-400">{new Date(entry.timestamp).toLocaleString()}</p>
@@ -46,6 +53,9 @@ const HistoryItem: React.FC<HistoryItemProps> = ({ entry, onReload, onDownload }
                     <button onClick={handleReload} className="thumbnail-action-btn" title={t('historyPanel_reload')}>
                         <ReloadIcon className="h-4 w-4" />
                     </button>
+                    <button onClick={handleDelete} className="thumbnail-action-btn" title={t('historyPanel_delete')}>
+                        <DeleteIcon className="h-4 w-4" />
+                    </button>
                 </div>
             </div>
         </motion.li>
@@ -58,20 +68,24 @@ interface HistoryPanelProps {
 }
 
 const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
-    const { generationHistory, importSettingsAndNavigate, t } = useAppControls();
+    const { generationHistory, importSettingsAndNavigate, removeGenerationFromHistory, t } = useAppControls();
 
     const handleReload = (settings: GenerationHistoryEntry['settings']) => {
         importSettingsAndNavigate(settings);
         onClose();
     };
 
-    const handleDownload = useCallback((entry: GenerationHistoryEntry) => {
-        // Since history now directly embeds image data, no rehydration is needed.
-        downloadJson(
-            entry.settings,
-            `CaoTrangAI-history-${entry.appId}-${entry.timestamp}.json`
-        );
-    }, []);
+    const handleDownload = useCallback(async (entry: GenerationHistoryEntry) => {
+        try {
+            // History holds image store references; the exported file embeds the image data.
+            downloadJson(
+                await hydrateImages(entry.settings),
+                `CaoTrangAI-history-${entry.appId}-${entry.timestamp}.json`
+            );
+        } catch (error) {
+            showErrorToast(error, t);
+        }
+    }, [t]);
     
     return (
         <AnimatePresence>
@@ -108,6 +122,7 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
                                         entry={entry} 
                                         onReload={handleReload}
                                         onDownload={handleDownload}
+                                        onDelete={removeGenerationFromHistory}
                                     />
                                 ))}
                             </AnimatePresence>
@@ -6,7 +6,7 @@ import React, { useState, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import { useAppControls, useImageEditor, extractJsonFromPng, type AppConfig } from './uiUtils';
-import * as db from '../lib/db';
+import { CANVAS_DOCUMENT, saveDocumentWithImages } from '../lib/imageStore';
 import { CloudUploadIcon, LayerComposerIcon, EditorIcon, StoryboardIcon } from './icons';
 
 interface ProcessedAppConfig extends AppConfig {
@@ -78,7 +78,7 @@ const Home: React.FC<HomeProps> = ({ onSelectApp, title, subtitle, apps }) => {
         if (settings) {
             // Check if it's a Canvas file
             if (settings.canvasSettings && Array.isArray(settings.layers)) {
-                await db.saveCanvasState(settings);
+                await saveDocumentWithImages(CANVAS_DOCUMENT, settings);
                 openLayerComposer();
             } 
             // Check if it's a regular app settings file
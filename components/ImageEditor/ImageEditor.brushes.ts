@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Point, type StrokePoint, type BrushEngine, type BrushSymmetry, type PressureSettings } from './ImageEditor.types';
+import { hexToRgba, createRandom } from './ImageEditor.utils';
+
+// Every brush draws a stroke as dabs along its path. The engines differ in the dab itself and
+// in how closely the dabs are spaced; pen pressure scales a dab's size and/or opacity, and
+// symmetry repeats the whole stroke around the image centre.
+
+// Distance between dabs as a fraction of the brush size.
+const DAB_SPACING: Record<BrushEngine, number> = { round: 1 / 8, airbrush: 1 / 16, pencil: 1 / 4, textured: 1 / 6 };
+// Alpha of a single airbrush dab; paint builds up where dabs overlap.
+const AIRBRUSH_FLOW = 0.12;
+
+/**
+ * Draws one round dab of a soft brush. Hardness (0–1) is how far out from the centre the
+ * colour stays opaque before fading.
+ */
+export const drawBrushDab = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, hardness: number, color: string) => {
+    if (radius <= 0) return;
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, hexToRgba(color, 100));
+    gradient.addColorStop(hardness, hexToRgba(color, 100));
+    gradient.addColorStop(1, hexToRgba(color, 0));
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+};
+
+/**
+ * Draws one dab of `engine` at `alpha` (0–1). `seed` picks the grain of a textured dab, so
+ * the same dab looks the same on every render.
+ */
+export const drawEngineDab = (
+    ctx: CanvasRenderingContext2D, engine: BrushEngine, x: number, y: number, radius: number, hardness: number, color: string, alpha: number, seed: number,
+) => {
+    if (radius <= 0 || alpha <= 0) return;
+    ctx.save();
+    switch (engine) {
+        case 'airbrush':
+            ctx.globalAlpha = alpha * AIRBRUSH_FLOW;
+            drawBrushDab(ctx, x, y, radius, hardness, color);
+            break;
+        case 'pencil':
+            // A hard disc with no falloff, whatever the hardness.
+            ctx.globalAlpha = alpha;
+            ctx.fillStyle = color;
+            ctx.beginPath();
+            ctx.arc(x, y, Math.max(0.5, radius), 0, Math.PI * 2);
+            ctx.fill();
+            break;
+        case 'textured': {
+            // Specks scattered over the dab, denser towards the centre.
+            const random = createRandom(seed);
+            const speckRadius = Math.max(0.5, radius / 10);
+            const count = Math.max(4, Math.round(radius * 1.5));
+            ctx.fillStyle = color;
+            for (let i = 0; i < count; i++) {
+                const angle = random() * Math.PI * 2;
+                const distance = radius * Math.pow(random(), 1 - hardness / 2);
+                ctx.globalAlpha = alpha * (0.4 + 0.6 * random());
+                ctx.beginPath();
+                ctx.arc(x + Math.cos(angle) * distance, y + Math.sin(angle) * distance, speckRadius, 0, Math.PI * 2);
+                ctx.fill();
+            }
+            break;
+        }
+        default:
+            ctx.globalAlpha = alpha;
+            drawBrushDab(ctx, x, y, radius, hardness, color);
+    }
+    ctx.restore();
+};
+
+/**
+ * The radius and alpha (0–1) of a dab of a `size`-wide brush at `pressure`.
+ */
+export const getPressureDab = (size: number, pressure: number | undefined, settings: PressureSettings | undefined) => {
+    const p = pressure ?? 1;
+    return {
+        radius: size / 2 * (settings?.size ? Math.max(0.1, p) : 1),
+        alpha: settings?.opacity ? p : 1,
+    };
+};
+
+/**
+ * Calls `draw` for every dab of a stroke through `points` (in pixels), spaced for `engine`
+ * and with the pressure interpolated between points. A single point is one dab.
+ */
+export const forEachStrokeDab = (
+    points: StrokePoint[], size: number, engine: BrushEngine, draw: (x: number, y: number, pressure: number | undefined, index: number) => void,
+) => {
+    if (points.length === 0) return;
+    const step = Math.max(1, size * DAB_SPACING[engine]);
+    let index = 0;
+    if (points.length === 1) {
+        draw(points[0].x, points[0].y, points[0].pressure, index);
+        return;
+    }
+    for (let i = 1; i < points.length; i++) {
+        const from = points[i - 1], to = points[i];
+        const dist = Math.hypot(to.x - from.x, to.y - from.y);
+        for (let d = 0; d < dist; d += step) {
+            const t = d / dist;
+            const pressure = from.pressure !== undefined && to.pressure !== undefined ? from.pressure + (to.pressure - from.pressure) * t : from.pressure;
+            draw(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, pressure, index++);
+        }
+    }
+    const last = points[points.length - 1];
+    draw(last.x, last.y, last.pressure, index);
+};
+
+/**
+ * The copies of `point` under `symmetry`, mirrored or rotated around the centre of a
+ * `width` x `height` image. The point itself comes first.
+ */
+export const getSymmetricPoints = <T extends Point>(point: T, symmetry: BrushSymmetry | undefined, width: number, height: number): T[] => {
+    const at = (x: number, y: number): T => ({ ...point, x, y });
+    switch (symmetry?.mode) {
+        case 'mirror-x':
+            return [point, at(width - point.x, point.y)];
+        case 'mirror-y':
+            return [point, at(point.x, height - point.y)];
+        case 'mirror-xy':
+            return [point, at(width - point.x, point.y), at(point.x, height - point.y), at(width - point.x, height - point.y)];
+        case 'radial': {
+            const cx = width / 2, cy = height / 2;
+            const dx = point.x - cx, dy = point.y - cy;
+            const segments = Math.max(2, Math.round(symmetry.segments));
+            return Array.from({ length: segments }, (_, i) => {
+                const angle = i * Math.PI * 2 / segments;
+                const cos = Math.cos(angle), sin = Math.sin(angle);
+                return i === 0 ? point : at(cx + dx * cos - dy * sin, cy + dx * sin + dy * cos);
+            });
+        }
+        default:
+            return [point];
+    }
+};
+
+/**
+ * A stroke (in pixels) and its symmetric copies, each as its own list of points.
+ */
+export const getSymmetricStrokes = (points: StrokePoint[], symmetry: BrushSymmetry | undefined, width: number, height: number): StrokePoint[][] => {
+    const copies = points.map(p => getSymmetricPoints(p, symmetry, width, height));
+    return (copies[0] ?? []).map((_, i) => copies.map(copy => copy[i]));
+};
@@ -2,7 +2,10 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { type ToolId, type ColorChannel } from './ImageEditor.types';
+import {
+    type ToolId, type ColorChannel, type ImageAdjustments, type Point, type ToneChannel, type ToneLevels, type ToneAdjustments,
+    type BrushPreset, type BrushSymmetry, type SymmetryMode, type PaintBlendMode, type RetouchMode,
+} from './ImageEditor.types';
 
 export const CROP_ASPECT_RATIO_OPTIONS = ['Free', 'Original', '1:1', '2:3', '3:2', '4:5', '5:4', '3:4', '4:3', '9:16', '16:9'];
 export const HANDLE_SIZE = 10;
@@ -22,6 +25,8 @@ export const TOOLTIPS: Record<ToolId, { name: string; description: string }> = {
     colorpicker: { name: 'Chấm màu (I)', description: 'Chọn một màu từ ảnh để sử dụng cho cọ vẽ.' },
     brush: { name: 'Cọ vẽ (B)', description: 'Vẽ lên ảnh bằng màu đã chọn.' },
     eraser: { name: 'Tẩy (E)', description: 'Xóa các nét đã vẽ.' },
+    clone: { name: 'Nhân bản (S)', description: 'Giữ Alt và nhấp để chọn điểm nguồn, rồi vẽ để sao chép vùng đó.' },
+    heal: { name: 'Chấm sửa (J)', description: 'Tô lên khuyết điểm để lấp bằng kết cấu và tông màu xung quanh.' },
     undo: { name: 'Hoàn tác (Undo)', description: 'Quay lại hành động cuối cùng.' },
     redo: { name: 'Làm lại (Redo)', description: 'Thực hiện lại hành động đã hoàn tác.' },
     colorSwatch: { name: 'Màu cọ vẽ', description: 'Nhấn để chọn màu cho cọ vẽ của bạn.' },
@@ -38,4 +43,49 @@ export const COLOR_CHANNELS: { id: ColorChannel, name: string, center: number, c
 
 export const INITIAL_COLOR_ADJUSTMENTS = Object.fromEntries(
     COLOR_CHANNELS.map(channel => [channel.id, { h: 0, s: 0, l: 0 }])
-) as Record<ColorChannel, { h: number; s: number; l: number }>;
\ No newline at end of file
+) as Record<ColorChannel, { h: number; s: number; l: number }>;
+export const INITIAL_ADJUSTMENTS: ImageAdjustments = {
+    luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
+    grain: 0, clarity: 0, dehaze: 0, blur: 0, isInverted: false,
+};
+
+export const TONE_CHANNELS: { id: ToneChannel, name: string, color: string }[] = [
+    { id: 'rgb',   name: 'RGB',   color: '#e5e5e5' },
+    { id: 'red',   name: 'Red',   color: '#ef4444' },
+    { id: 'green', name: 'Green', color: '#22c55e' },
+    { id: 'blue',  name: 'Blue',  color: '#3b82f6' },
+];
+export const INITIAL_TONE_LEVELS: ToneLevels = { inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 };
+export const INITIAL_TONE_ADJUSTMENTS: ToneAdjustments = {
+    curves: Object.fromEntries(TONE_CHANNELS.map(channel => [channel.id, [{ x: 0, y: 0 }, { x: 255, y: 255 }]])) as Record<ToneChannel, Point[]>,
+    levels: Object.fromEntries(TONE_CHANNELS.map(channel => [channel.id, INITIAL_TONE_LEVELS])) as Record<ToneChannel, ToneLevels>,
+};
+
+export const BRUSH_PRESETS: BrushPreset[] = [
+    { id: 'round',    name: 'Round',    hardness: 50,  opacity: 50 },
+    { id: 'airbrush', name: 'Airbrush', hardness: 0,   opacity: 60 },
+    { id: 'pencil',   name: 'Pencil',   hardness: 100, opacity: 100 },
+    { id: 'textured', name: 'Textured', hardness: 60,  opacity: 80 },
+    { id: 'smudge',   name: 'Smudge',   hardness: 50,  opacity: 60 },
+    { id: 'blur',     name: 'Blur',     hardness: 30,  opacity: 70 },
+    { id: 'sharpen',  name: 'Sharpen',  hardness: 30,  opacity: 50 },
+];
+export const RETOUCH_MODES: RetouchMode[] = ['smudge', 'blur', 'sharpen'];
+export const SYMMETRY_MODES: { id: SymmetryMode, name: string }[] = [
+    { id: 'none',      name: 'Off' },
+    { id: 'mirror-x',  name: 'Left ↔ Right' },
+    { id: 'mirror-y',  name: 'Top ↕ Bottom' },
+    { id: 'mirror-xy', name: 'Four-way' },
+    { id: 'radial',    name: 'Radial' },
+];
+export const INITIAL_SYMMETRY: BrushSymmetry = { mode: 'none', segments: 6 };
+export const PAINT_BLEND_MODES: { id: PaintBlendMode, name: string }[] = [
+    { id: 'source-over', name: 'Normal' },
+    { id: 'multiply',    name: 'Multiply' },
+    { id: 'screen',      name: 'Screen' },
+    { id: 'overlay',     name: 'Overlay' },
+    { id: 'darken',      name: 'Darken' },
+    { id: 'lighten',     name: 'Lighten' },
+    { id: 'soft-light',  name: 'Soft Light' },
+    { id: 'color',       name: 'Color' },
+];
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createRandom } from './ImageEditor.utils';
+
+// Patch-based filling of a region from its surroundings, used by the spot healing brush and
+// content-aware fill. Pixels are filled from the region's edge inwards; each takes the colour
+// of the known pixel whose neighbourhood best matches its own already-known neighbourhood.
+// Candidates are the sources of neighbouring filled pixels, shifted along (so texture
+// continues), plus random known pixels nearby.
+
+const PATCH_RADIUS = 3;
+const RANDOM_CANDIDATES = 24;
+
+/**
+ * Fills the pixels of `data` (RGBA, `width` x `height`) where `mask` is 1, in place.
+ * @param searchRadius How far from a pixel, in pixels, random source candidates are taken.
+ */
+export const fillMaskedPixels = (data: Uint8ClampedArray, width: number, height: number, mask: Uint8Array, searchRadius: number) => {
+    const pixelCount = width * height;
+    // Pixels that were known from the start; only these are copied from.
+    const isSource = new Uint8Array(pixelCount);
+    const isKnown = new Uint8Array(pixelCount);
+    let remaining = 0;
+    for (let i = 0; i < pixelCount; i++) {
+        isSource[i] = mask[i] ? 0 : 1;
+        isKnown[i] = isSource[i];
+        if (mask[i]) remaining++;
+    }
+    if (remaining === 0 || remaining === pixelCount) return;
+
+    const sourceOf = new Int32Array(pixelCount).fill(-1);
+    // Seeded, so the same region fills the same way on every render.
+    const random = createRandom(1);
+    const neighbours = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]];
+
+    const patchCost = (px: number, py: number, cx: number, cy: number) => {
+        let sum = 0, count = 0;
+        for (let dy = -PATCH_RADIUS; dy <= PATCH_RADIUS; dy++) {
+            const qy = py + dy, sy = cy + dy;
+            if (qy < 0 || qy >= height || sy < 0 || sy >= height) continue;
+            for (let dx = -PATCH_RADIUS; dx <= PATCH_RADIUS; dx++) {
+                const qx = px + dx, sx = cx + dx;
+                if (qx < 0 || qx >= width || sx < 0 || sx >= width) continue;
+                const q = qy * width + qx, s = sy * width + sx;
+                if (!isKnown[q] || !isKnown[s]) continue;
+                const qi = q * 4, si = s * 4;
+                const dr = data[qi] - data[si], dg = data[qi + 1] - data[si + 1], db = data[qi + 2] - data[si + 2];
+                sum += dr * dr + dg * dg + db * db;
+                count++;
+            }
+        }
+        return count === 0 ? Infinity : sum / count;
+    };
+
+    const hasKnownNeighbour = (index: number) => {
+        const x = index % width, y = (index - x) / width;
+        return neighbours.some(([dx, dy]) => {
+            const nx = x + dx, ny = y + dy;
+            return nx >= 0 && nx < width && ny >= 0 && ny < height && isKnown[ny * width + nx] === 1;
+        });
+    };
+
+    let frontier: number[] = [];
+    for (let i = 0; i < pixelCount; i++) {
+        if (!isKnown[i] && hasKnownNeighbour(i)) frontier.push(i);
+    }
+
+    const filled: number[] = [];
+    while (frontier.length > 0) {
+        const next = new Set<number>();
+        for (const p of frontier) {
+            if (isKnown[p]) continue;
+            const px = p % width, py = (p - px) / width;
+            let best = -1, bestCost = Infinity;
+            const consider = (cx: number, cy: number) => {
+                if (cx < 0 || cx >= width || cy < 0 || cy >= height) return;
+                const c = cy * width + cx;
+                if (!isSource[c]) return;
+                const cost = patchCost(px, py, cx, cy);
+                if (cost < bestCost) { bestCost = cost; best = c; }
+            };
+            for (const [dx, dy] of neighbours) {
+                const nx = px + dx, ny = py + dy;
+                if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                const source = sourceOf[ny * width + nx];
+                if (source === -1) continue;
+                const sx = source % width;
+                consider(sx - dx, (source - sx) / width - dy);
+            }
+            for (let i = 0; i < RANDOM_CANDIDATES; i++) {
+                consider(Math.round(px + (random() * 2 - 1) * searchRadius), Math.round(py + (random() * 2 - 1) * searchRadius));
+            }
+            if (best === -1) continue;
+            const pi = p * 4, bi = best * 4;
+            data[pi] = data[bi]; data[pi + 1] = data[bi + 1]; data[pi + 2] = data[bi + 2]; data[pi + 3] = data[bi + 3];
+            isKnown[p] = 1;
+            sourceOf[p] = best;
+            filled.push(p);
+            for (const [dx, dy] of neighbours) {
+                const nx = px + dx, ny = py + dy;
+                if (nx >= 0 && nx < width && ny >= 0 && ny < height && !isKnown[ny * width + nx]) next.add(ny * width + nx);
+            }
+        }
+        // Stops once nothing new was filled; pixels with no source in reach stay as they are.
+        frontier = [...next].filter(i => !isKnown[i]);
+    }
+
+    matchTone(data, width, height, mask, filled);
+};
+
+// Shifts the filled pixels so their average colour matches the pixels right around the region.
+const matchTone = (data: Uint8ClampedArray, width: number, height: number, mask: Uint8Array, filled: number[]) => {
+    if (filled.length === 0) return;
+    const edge = [0, 0, 0], inside = [0, 0, 0];
+    let edgeCount = 0;
+    for (let i = 0; i < width * height; i++) {
+        if (mask[i]) continue;
+        const x = i % width, y = (i - x) / width;
+        const touchesRegion = (x > 0 && mask[i - 1]) || (x < width - 1 && mask[i + 1]) || (y > 0 && mask[i - width]) || (y < height - 1 && mask[i + width]);
+        if (!touchesRegion) continue;
+        for (let c = 0; c < 3; c++) edge[c] += data[i * 4 + c];
+        edgeCount++;
+    }
+    if (edgeCount === 0) return;
+    filled.forEach(p => { for (let c = 0; c < 3; c++) inside[c] += data[p * 4 + c]; });
+    const shift = [0, 1, 2].map(c => edge[c] / edgeCount - inside[c] / filled.length);
+    filled.forEach(p => { for (let c = 0; c < 3; c++) data[p * 4 + c] += shift[c]; });
+};
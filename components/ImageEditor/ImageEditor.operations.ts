@@ -0,0 +1,660 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+    type Point, type SelectionStroke, type ImageAdjustments, type ColorAdjustments, type ToneAdjustments, type EditMask,
+    type EditOperation, type EditOperationPayload, type EditOperationType, type EditRecipe, type EditLook,
+    type StrokePoint, type BrushEngine, type BrushDynamics, type PaintBlendMode,
+} from './ImageEditor.types';
+import { INITIAL_ADJUSTMENTS, INITIAL_COLOR_ADJUSTMENTS, INITIAL_TONE_ADJUSTMENTS } from './ImageEditor.constants';
+import {
+    rgbToHsl, hslToRgb, getColorChannelShift, createFeatheredMask, createSelectionPath, createToneLuts,
+    getPerspectiveTransform, warpPerspective, createRandom,
+} from './ImageEditor.utils';
+import { fillMaskedPixels } from './ImageEditor.inpaint';
+import { drawBrushDab, drawEngineDab, forEachStrokeDab, getPressureDab, getSymmetricStrokes } from './ImageEditor.brushes';
+import { resolveImageUrl } from '../../lib/imageStore';
+
+// The editor keeps an image as its original plus an ordered list of edit steps. Rendering
+// replays the enabled steps on a copy of the original at any scale: the preview renders at
+// screen size, saving at full size. Steps only ever read their input stage, so a rendered
+// stage can be cached and continued from.
+
+/**
+ * An image partway through the steps. Paint (brush strokes and fills) is kept apart from
+ * the image so adjustments leave it alone and the eraser only removes paint; geometry steps
+ * apply to both. Paint on paint layers is kept per layer and composited when flattening.
+ */
+export interface EditStage {
+    image: HTMLCanvasElement;
+    paint: HTMLCanvasElement;
+    // Paint of each paint layer, by the id of its step.
+    layerPaint: Map<string, HTMLCanvasElement>;
+    // The enabled paint layers so far, bottom first.
+    layers: { id: string; opacity: number; blendMode: PaintBlendMode }[];
+    // The stage's resolution relative to the full-size result.
+    scale: number;
+}
+
+const RECIPE_OPERATION_TYPES: EditOperationType[] = [
+    'crop', 'perspective-crop', 'transform', 'adjustments', 'hsl', 'tone', 'stroke', 'retouch', 'clone', 'heal',
+    'fill', 'content-fill', 'erase', 'paint-layer',
+];
+
+export const createOperationId = () => Math.random().toString(36).substring(2, 9);
+
+export const createGrainSeed = () => Math.floor(Math.random() * 0x100000000);
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    return canvas;
+};
+
+const copyCanvas = (source: HTMLCanvasElement): HTMLCanvasElement => {
+    const canvas = createCanvas(source.width, source.height);
+    canvas.getContext('2d')?.drawImage(source, 0, 0);
+    return canvas;
+};
+
+/**
+ * The first stage of a render: the original image at `scale` of its natural size, no paint.
+ */
+export const createEditStage = (source: HTMLImageElement, scale: number): EditStage => {
+    const image = createCanvas(source.naturalWidth * scale, source.naturalHeight * scale);
+    image.getContext('2d')?.drawImage(source, 0, 0, image.width, image.height);
+    return { image, paint: createCanvas(image.width, image.height), layerPaint: new Map(), layers: [], scale };
+};
+
+/**
+ * Stores a selection drawn on a `width` x `height` canvas with a step.
+ */
+export const createEditMask = (strokes: SelectionStroke[], isInverted: boolean, feather: number, width: number, height: number): EditMask => ({
+    strokes: strokes.map(stroke => ({ op: stroke.op, points: stroke.points.map(p => ({ x: p.x / width, y: p.y / height })) })),
+    isInverted,
+    feather: feather / width,
+});
+
+const createMaskCanvas = (mask: EditMask, width: number, height: number): HTMLCanvasElement => {
+    const strokes = mask.strokes.map(stroke => ({ op: stroke.op, points: stroke.points.map(p => ({ x: p.x * width, y: p.y * height })) }));
+    return createFeatheredMask(createSelectionPath(strokes, mask.isInverted, width, height), width, height, mask.feather * width);
+};
+
+/**
+ * The size a perspective crop through `points` (top-left, top-right, bottom-right,
+ * bottom-left) comes out at: its longest opposite edges.
+ */
+const getPerspectiveCropSize = ([tl, tr, br, bl]: Point[]) => ({
+    width: Math.max(Math.hypot(br.x - bl.x, br.y - bl.y), Math.hypot(tr.x - tl.x, tr.y - tl.y)),
+    height: Math.max(Math.hypot(tr.x - br.x, tr.y - br.y), Math.hypot(tl.x - bl.x, tl.y - bl.y)),
+});
+
+/**
+ * The full-size result's dimensions after the enabled steps, worked out without rendering.
+ */
+export const getEditOutputSize = (operations: EditOperation[], width: number, height: number) => {
+    return operations.filter(op => op.enabled).reduce((size, op) => {
+        switch (op.type) {
+            case 'crop':
+                return { width: op.rect.width * size.width, height: op.rect.height * size.height };
+            case 'perspective-crop':
+                return getPerspectiveCropSize(op.points.map(p => ({ x: p.x * size.width, y: p.y * size.height })));
+            case 'transform':
+                return op.rotation === 90 || op.rotation === 270 ? { width: size.height, height: size.width } : size;
+            case 'image':
+                return op.mask ? size : { width: op.width, height: op.height };
+            default:
+                return size;
+        }
+    }, { width, height });
+};
+
+/**
+ * Applies the slider adjustments, then the levels and curves, to the pixels of `ctx` in
+ * place, blended through `mask` (its alpha) when one is given. `seed` picks the grain.
+ */
+export const applyPixelAdjustments = (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    adjustments: ImageAdjustments,
+    colorAdjustments: ColorAdjustments,
+    tone: ToneAdjustments = INITIAL_TONE_ADJUSTMENTS,
+    mask: HTMLCanvasElement | null = null,
+    seed = 0,
+) => {
+    const { luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, isInverted } = adjustments;
+    const sourceImageData = ctx.getImageData(0, 0, width, height);
+    const originalData = new Uint8ClampedArray(sourceImageData.data);
+    const data = sourceImageData.data;
+    const selectionMask = mask?.getContext('2d')?.getImageData(0, 0, width, height).data ?? null;
+
+    const contrastFactor = (100 + contrast) / 100;
+    const clarityFactor = clarity / 200;
+    const dehazeFactor = dehaze / 100;
+    const grainAmount = grain * 2.55;
+    const random = createRandom(seed);
+    const toneLuts = JSON.stringify(tone) === JSON.stringify(INITIAL_TONE_ADJUSTMENTS) ? null : createToneLuts(tone);
+
+    for (let i = 0; i < data.length; i += 4) {
+        const blendFactor = selectionMask ? (selectionMask[i + 3] / 255) : 1;
+
+        if (blendFactor < 0.001) {
+            continue;
+        }
+
+        let r = originalData[i], g = originalData[i + 1], b = originalData[i + 2];
+
+        if (isInverted) { r = 255 - r; g = 255 - g; b = 255 - b; }
+        r = (r - 127.5) * contrastFactor + 127.5; g = (g - 127.5) * contrastFactor + 127.5; b = (b - 127.5) * contrastFactor + 127.5;
+        r += temp / 2.5; g += tint / 2.5; b -= temp / 2.5;
+        let [h, s, l] = rgbToHsl(r, g, b);
+
+        const vibranceAmount = vibrance / 100;
+        if (vibranceAmount !== 0) {
+            const max_rgb = Math.max(r, g, b);
+            const avg_rgb = (r + g + b) / 3;
+            const sat_delta = max_rgb - avg_rgb;
+            // Vibrance should have less effect on saturated colors.
+            // We create a multiplier that is close to 1 for low saturation and close to 0 for high saturation.
+            // sat_delta is a proxy for saturation, ranging roughly from 0 to 170.
+            const vibrance_mult = 1 - (sat_delta / 200); // Normalize roughly to 0-1 range and invert
+            s += (vibranceAmount * 100) * vibrance_mult;
+        }
+
+        h = (h + hue) % 360; l += luminance / 2; s += saturation;
+
+        if (clarity !== 0) l += (l - 50) * clarityFactor;
+        if (dehaze !== 0) { l = l - (50 - l) * dehazeFactor; s = s + s * (1 - s/100) * dehazeFactor * 0.5; }
+
+        // Smooth per-channel HSL adjustments
+        const channelShift = getColorChannelShift(h, colorAdjustments);
+        h += channelShift.h;
+        s += channelShift.s;
+        l += channelShift.l;
+
+        if (h < 0) h += 360;
+        s = Math.max(0, Math.min(100, s)); l = Math.max(0, Math.min(100, l));
+        [r, g, b] = hslToRgb(h, s, l);
+        if (toneLuts) {
+            r = toneLuts[0][Math.max(0, Math.min(255, Math.round(r)))];
+            g = toneLuts[1][Math.max(0, Math.min(255, Math.round(g)))];
+            b = toneLuts[2][Math.max(0, Math.min(255, Math.round(b)))];
+        }
+        if (grain > 0) { const noise = (random() - 0.5) * grainAmount; r += noise; g += noise; b += noise; }
+
+        data[i] = originalData[i] * (1 - blendFactor) + r * blendFactor;
+        data[i+1] = originalData[i+1] * (1 - blendFactor) + g * blendFactor;
+        data[i+2] = originalData[i+2] * (1 - blendFactor) + b * blendFactor;
+    }
+    ctx.putImageData(sourceImageData, 0, 0);
+};
+
+const adjustImage = (stage: EditStage, adjustments: ImageAdjustments, colorAdjustments: ColorAdjustments, tone: ToneAdjustments, mask: EditMask | null, seed = 0): EditStage => {
+    const image = copyCanvas(stage.image);
+    const ctx = image.getContext('2d');
+    if (!ctx) return stage;
+    const maskCanvas = mask ? createMaskCanvas(mask, image.width, image.height) : null;
+    applyPixelAdjustments(ctx, image.width, image.height, adjustments, colorAdjustments, tone, maskCanvas, seed);
+
+    if (adjustments.blur > 0) {
+        // Blur is in full-size pixels, so the preview blurs as much as the saved image.
+        const blurred = createCanvas(image.width, image.height);
+        const blurredCtx = blurred.getContext('2d');
+        if (!blurredCtx) return { ...stage, image };
+        blurredCtx.filter = `blur(${adjustments.blur * stage.scale}px)`;
+        blurredCtx.drawImage(image, 0, 0);
+        blurredCtx.filter = 'none';
+        if (maskCanvas) {
+            blurredCtx.globalCompositeOperation = 'destination-in';
+            blurredCtx.drawImage(maskCanvas, 0, 0);
+        } else {
+            ctx.clearRect(0, 0, image.width, image.height);
+        }
+        ctx.drawImage(blurred, 0, 0);
+    }
+    return { ...stage, image };
+};
+
+// Redraws every canvas of the stage through `draw`, at a new size.
+const reshapeStage = (stage: EditStage, width: number, height: number, draw: (ctx: CanvasRenderingContext2D, source: HTMLCanvasElement) => void): EditStage => {
+    const reshape = (source: HTMLCanvasElement) => {
+        const canvas = createCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (ctx) draw(ctx, source);
+        return canvas;
+    };
+    const layerPaint = new Map([...stage.layerPaint].map(([id, paint]) => [id, reshape(paint)]));
+    return { ...stage, image: reshape(stage.image), paint: reshape(stage.paint), layerPaint };
+};
+
+// The paint strokes and fills for `layer` go on: the base paint, or that layer's own.
+const getPaint = (stage: EditStage, layer: string | undefined): HTMLCanvasElement => {
+    const paint = layer ? stage.layerPaint.get(layer) : stage.paint;
+    return paint ?? createCanvas(stage.paint.width, stage.paint.height);
+};
+
+const setPaint = (stage: EditStage, layer: string | undefined, paint: HTMLCanvasElement): EditStage => (
+    layer ? { ...stage, layerPaint: new Map(stage.layerPaint).set(layer, paint) } : { ...stage, paint }
+);
+
+type BrushStroke = { size: number; hardness: number; points: StrokePoint[]; clip: EditMask | null; engine?: BrushEngine } & BrushDynamics;
+
+// The points of a stroke in pixels of a `width` x `height` canvas, with its symmetric copies.
+const getStrokePaths = (op: BrushStroke, width: number, height: number) => (
+    getSymmetricStrokes(op.points.map(p => ({ ...p, x: p.x * width, y: p.y * height })), op.symmetry, width, height)
+);
+
+// The dabs of a stroke on a `width` x `height` canvas, clipped to the stroke's mask. For
+// everything but the brush only their alpha matters.
+const drawStrokeDabs = (op: BrushStroke, width: number, height: number, color = '#000000'): HTMLCanvasElement => {
+    const dabs = createCanvas(width, height);
+    const dabsCtx = dabs.getContext('2d');
+    if (!dabsCtx) return dabs;
+
+    const size = op.size * width;
+    const engine = op.engine ?? 'round';
+    getStrokePaths(op, width, height).forEach((points, copy) => {
+        forEachStrokeDab(points, size, engine, (x, y, pressure, index) => {
+            const { radius, alpha } = getPressureDab(size, pressure, op.pressure);
+            drawEngineDab(dabsCtx, engine, x, y, radius, op.hardness / 100, color, alpha, index * 31 + copy);
+        });
+    });
+    if (op.clip) {
+        dabsCtx.globalCompositeOperation = 'destination-in';
+        dabsCtx.drawImage(createMaskCanvas(op.clip, width, height), 0, 0);
+    }
+    return dabs;
+};
+
+const drawStroke = (stage: EditStage, op: Extract<EditOperationPayload, { type: 'stroke' }>): EditStage => {
+    const { width, height } = stage.paint;
+    const dabs = drawStrokeDabs(op, width, height, op.tool === 'brush' ? op.color : undefined);
+    const paint = copyCanvas(getPaint(stage, op.layer));
+    const paintCtx = paint.getContext('2d');
+    if (!paintCtx) return stage;
+    paintCtx.globalAlpha = op.opacity / 100;
+    paintCtx.globalCompositeOperation = op.tool === 'brush' ? 'source-over' : 'destination-out';
+    paintCtx.drawImage(dabs, 0, 0);
+    return setPaint(stage, op.layer, paint);
+};
+
+// A copy of `image` with `changed` drawn over it through the alpha of `region`.
+const blendThrough = (image: HTMLCanvasElement, changed: HTMLCanvasElement, region: HTMLCanvasElement, alpha = 1): HTMLCanvasElement => {
+    const part = copyCanvas(changed);
+    const partCtx = part.getContext('2d');
+    const result = copyCanvas(image);
+    const ctx = result.getContext('2d');
+    if (!partCtx || !ctx) return image;
+    partCtx.globalCompositeOperation = 'destination-in';
+    partCtx.drawImage(region, 0, 0);
+    ctx.globalAlpha = alpha;
+    ctx.drawImage(part, 0, 0);
+    return result;
+};
+
+const blurCanvas = (source: HTMLCanvasElement, radius: number): HTMLCanvasElement => {
+    const blurred = createCanvas(source.width, source.height);
+    const ctx = blurred.getContext('2d');
+    if (!ctx) return source;
+    ctx.filter = `blur(${radius}px)`;
+    ctx.drawImage(source, 0, 0);
+    return blurred;
+};
+
+// Unsharp masking: each pixel moves away from its blurred neighbourhood.
+const sharpenCanvas = (source: HTMLCanvasElement, radius: number): HTMLCanvasElement => {
+    const result = copyCanvas(source);
+    const ctx = result.getContext('2d');
+    const blurredData = blurCanvas(source, radius).getContext('2d')?.getImageData(0, 0, source.width, source.height).data;
+    if (!ctx || !blurredData) return source;
+    const imageData = ctx.getImageData(0, 0, source.width, source.height);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) data[i + c] += (data[i + c] - blurredData[i + c]) * 1.5;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return result;
+};
+
+// Drags colour along the stroke: each dab lays down what the brush has picked up so far and
+// picks up some of what is under it.
+const smudgeImage = (image: HTMLCanvasElement, op: Extract<EditOperationPayload, { type: 'retouch' }>): HTMLCanvasElement => {
+    const { width, height } = image;
+    const size = op.size * width;
+    const diameter = Math.max(2, Math.ceil(size));
+    const result = copyCanvas(image);
+    const pickup = createCanvas(diameter, diameter);
+    const stamp = createCanvas(diameter, diameter);
+    const ctx = result.getContext('2d');
+    const pickupCtx = pickup.getContext('2d');
+    const stampCtx = stamp.getContext('2d');
+    if (!ctx || !pickupCtx || !stampCtx) return image;
+    const strength = op.strength / 100;
+
+    getStrokePaths(op, width, height).forEach(points => {
+        let hasPickup = false;
+        forEachStrokeDab(points, size, 'round', (x, y, pressure) => {
+            const left = x - diameter / 2, top = y - diameter / 2;
+            if (hasPickup) {
+                stampCtx.globalCompositeOperation = 'copy';
+                stampCtx.drawImage(pickup, 0, 0);
+                stampCtx.globalCompositeOperation = 'destination-in';
+                drawBrushDab(stampCtx, diameter / 2, diameter / 2, diameter / 2, op.hardness / 100, '#000000');
+                ctx.globalAlpha = strength * getPressureDab(size, pressure, op.pressure).alpha;
+                ctx.drawImage(stamp, left, top);
+                pickupCtx.globalAlpha = 1 - strength;
+            } else {
+                pickupCtx.globalAlpha = 1;
+                pickupCtx.clearRect(0, 0, diameter, diameter);
+                hasPickup = true;
+            }
+            pickupCtx.drawImage(result, left, top, diameter, diameter, 0, 0, diameter, diameter);
+        });
+    });
+    return op.clip ? blendThrough(image, result, createMaskCanvas(op.clip, width, height)) : result;
+};
+
+const retouchStroke = (stage: EditStage, op: Extract<EditOperationPayload, { type: 'retouch' }>): EditStage => {
+    if (op.mode === 'smudge') return { ...stage, image: smudgeImage(stage.image, op) };
+    const { width, height } = stage.image;
+    // The filter reaches about a fifth of the brush.
+    const radius = Math.max(1, op.size * width / 10);
+    const filtered = op.mode === 'blur' ? blurCanvas(stage.image, radius) : sharpenCanvas(stage.image, radius);
+    return { ...stage, image: blendThrough(stage.image, filtered, drawStrokeDabs(op, width, height), op.strength / 100) };
+};
+
+// Paints the image at each point of the stroke with the image `offset` away from it.
+const cloneStroke = (stage: EditStage, op: Extract<EditOperationPayload, { type: 'clone' }>): EditStage => {
+    const { width, height } = stage.image;
+    const stamp = createCanvas(width, height);
+    const stampCtx = stamp.getContext('2d');
+    const image = copyCanvas(stage.image);
+    const ctx = image.getContext('2d');
+    if (!stampCtx || !ctx) return stage;
+    stampCtx.drawImage(stage.image, -op.offset.x * width, -op.offset.y * height);
+    stampCtx.globalCompositeOperation = 'destination-in';
+    stampCtx.drawImage(drawStrokeDabs(op, width, height), 0, 0);
+    ctx.globalAlpha = op.opacity / 100;
+    ctx.drawImage(stamp, 0, 0);
+    return { ...stage, image };
+};
+
+// Masked pixels filled per pass at most; larger regions are filled at a lower resolution.
+const MAX_FILL_PIXELS = 40000;
+
+/**
+ * Fills the part of `image` under `region` (its alpha) from the pixels around it and blends
+ * the fill in through the region's alpha.
+ */
+const fillFromSurroundings = (image: HTMLCanvasElement, region: HTMLCanvasElement): HTMLCanvasElement => {
+    const { width, height } = image;
+    const regionData = region.getContext('2d')?.getImageData(0, 0, width, height).data;
+    if (!regionData) return image;
+    let minX = width, minY = height, maxX = -1, maxY = -1, count = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (regionData[(y * width + x) * 4 + 3] === 0) continue;
+            count++;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    if (count === 0) return image;
+
+    // Sources come from a margin around the region about half its size.
+    const margin = Math.max(16, Math.round(Math.max(maxX - minX, maxY - minY) / 2));
+    const box = {
+        x: Math.max(0, minX - margin), y: Math.max(0, minY - margin),
+        right: Math.min(width, maxX + 1 + margin), bottom: Math.min(height, maxY + 1 + margin),
+    };
+    const boxWidth = box.right - box.x, boxHeight = box.bottom - box.y;
+    const workScale = Math.min(1, Math.sqrt(MAX_FILL_PIXELS / count));
+    const work = createCanvas(boxWidth * workScale, boxHeight * workScale);
+    const workRegion = createCanvas(work.width, work.height);
+    const workCtx = work.getContext('2d');
+    const workRegionCtx = workRegion.getContext('2d');
+    if (!workCtx || !workRegionCtx) return image;
+    workCtx.drawImage(image, box.x, box.y, boxWidth, boxHeight, 0, 0, work.width, work.height);
+    workRegionCtx.drawImage(region, box.x, box.y, boxWidth, boxHeight, 0, 0, work.width, work.height);
+
+    const pixels = workCtx.getImageData(0, 0, work.width, work.height);
+    const regionPixels = workRegionCtx.getImageData(0, 0, work.width, work.height).data;
+    const mask = new Uint8Array(work.width * work.height);
+    for (let i = 0; i < mask.length; i++) mask[i] = regionPixels[i * 4 + 3] > 0 ? 1 : 0;
+    fillMaskedPixels(pixels.data, work.width, work.height, mask, Math.max(8, Math.round(margin * workScale)));
+    workCtx.putImageData(pixels, 0, 0);
+
+    const patch = createCanvas(boxWidth, boxHeight);
+    const patchCtx = patch.getContext('2d');
+    const result = copyCanvas(image);
+    if (!patchCtx) return image;
+    patchCtx.drawImage(work, 0, 0, boxWidth, boxHeight);
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.drawImage(region, box.x, box.y, boxWidth, boxHeight, 0, 0, boxWidth, boxHeight);
+    result.getContext('2d')?.drawImage(patch, box.x, box.y);
+    return result;
+};
+
+const fillPaint = (stage: EditStage, color: string, opacity: number, mask: EditMask, layer: string | undefined): EditStage => {
+    const { width, height } = stage.paint;
+    const fill = createCanvas(width, height);
+    const fillCtx = fill.getContext('2d');
+    const paint = copyCanvas(getPaint(stage, layer));
+    const paintCtx = paint.getContext('2d');
+    if (!fillCtx || !paintCtx) return stage;
+    fillCtx.fillStyle = color;
+    fillCtx.fillRect(0, 0, width, height);
+    fillCtx.globalCompositeOperation = 'destination-in';
+    fillCtx.drawImage(createMaskCanvas(mask, width, height), 0, 0);
+    paintCtx.globalAlpha = opacity / 100;
+    paintCtx.drawImage(fill, 0, 0);
+    return setPaint(stage, layer, paint);
+};
+
+/**
+ * Renders one step on top of `stage` and returns the new stage; `stage` itself is left as it
+ * was. Image steps whose picture isn't in `images` yet are passed over.
+ */
+export const applyEditOperation = (stage: EditStage, op: EditOperation, images: Map<string, HTMLImageElement>): EditStage => {
+    const { width, height } = stage.image;
+    switch (op.type) {
+        case 'crop': {
+            const sx = op.rect.x * width, sy = op.rect.y * height;
+            const sWidth = op.rect.width * width, sHeight = op.rect.height * height;
+            return reshapeStage(stage, sWidth, sHeight, (ctx, source) => ctx.drawImage(source, sx, sy, sWidth, sHeight, 0, 0, ctx.canvas.width, ctx.canvas.height));
+        }
+        case 'perspective-crop': {
+            const srcPoints = op.points.map(p => ({ x: p.x * width, y: p.y * height }));
+            const size = getPerspectiveCropSize(srcPoints);
+            const transform = getPerspectiveTransform(srcPoints, [
+                { x: 0, y: 0 }, { x: size.width, y: 0 }, { x: size.width, y: size.height }, { x: 0, y: size.height },
+            ]);
+            if (!transform) return stage;
+            return reshapeStage(stage, size.width, size.height, (ctx, source) => warpPerspective(source, ctx.canvas, transform));
+        }
+        case 'transform': {
+            const isSwapped = op.rotation === 90 || op.rotation === 270;
+            return reshapeStage(stage, isSwapped ? height : width, isSwapped ? width : height, (ctx, source) => {
+                ctx.translate(ctx.canvas.width / 2, ctx.canvas.height / 2);
+                ctx.rotate(op.rotation * Math.PI / 180);
+                ctx.scale(op.flipHorizontal ? -1 : 1, op.flipVertical ? -1 : 1);
+                ctx.drawImage(source, -width / 2, -height / 2);
+            });
+        }
+        case 'adjustments':
+            return adjustImage(stage, op.adjustments, INITIAL_COLOR_ADJUSTMENTS, INITIAL_TONE_ADJUSTMENTS, op.mask, op.seed);
+        case 'hsl':
+            return adjustImage(stage, INITIAL_ADJUSTMENTS, op.colorAdjustments, INITIAL_TONE_ADJUSTMENTS, op.mask);
+        case 'tone':
+            return adjustImage(stage, INITIAL_ADJUSTMENTS, INITIAL_COLOR_ADJUSTMENTS, op.tone, op.mask);
+        case 'stroke':
+            return drawStroke(stage, op);
+        case 'retouch':
+            return retouchStroke(stage, op);
+        case 'clone':
+            return cloneStroke(stage, op);
+        case 'heal':
+            return { ...stage, image: fillFromSurroundings(stage.image, drawStrokeDabs(op, width, height)) };
+        case 'content-fill':
+            return { ...stage, image: fillFromSurroundings(stage.image, createMaskCanvas(op.mask, width, height)) };
+        case 'fill':
+            return fillPaint(stage, op.color, op.opacity, op.mask, op.layer);
+        case 'paint-layer':
+            return { ...stage, layers: [...stage.layers, { id: op.id, opacity: op.opacity, blendMode: op.blendMode }] };
+        case 'erase': {
+            const maskCanvas = createMaskCanvas(op.mask, width, height);
+            return reshapeStage(stage, width, height, (ctx, source) => {
+                ctx.drawImage(source, 0, 0);
+                ctx.globalCompositeOperation = 'destination-out';
+                ctx.drawImage(maskCanvas, 0, 0);
+            });
+        }
+        case 'image': {
+            const image = images.get(op.url);
+            if (!image) return stage;
+            if (op.mask) {
+                // Only the part inside the mask is taken, fitted to the current image.
+                const part = createCanvas(width, height);
+                const partCtx = part.getContext('2d');
+                const next = copyCanvas(stage.image);
+                if (!partCtx) return stage;
+                partCtx.drawImage(image, 0, 0, width, height);
+                partCtx.globalCompositeOperation = 'destination-in';
+                partCtx.drawImage(createMaskCanvas(op.mask, width, height), 0, 0);
+                next.getContext('2d')?.drawImage(part, 0, 0);
+                return { ...stage, image: next };
+            }
+            const next = createCanvas(op.width * stage.scale, op.height * stage.scale);
+            next.getContext('2d')?.drawImage(image, 0, 0, next.width, next.height);
+            return { ...stage, image: next, paint: createCanvas(next.width, next.height), layerPaint: new Map() };
+        }
+    }
+};
+
+/**
+ * Renders the enabled steps of `operations` on top of `stage`.
+ */
+export const renderEditOperations = (stage: EditStage, operations: EditOperation[], images: Map<string, HTMLImageElement>): EditStage => {
+    return operations.reduce((current, op) => op.enabled ? applyEditOperation(current, op, images) : current, stage);
+};
+
+/**
+ * The stage as a single picture: the paint over the image, then the visible paint layers.
+ */
+export const flattenEditStage = (stage: EditStage): HTMLCanvasElement => {
+    const canvas = copyCanvas(stage.image);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+    ctx.drawImage(stage.paint, 0, 0);
+    stage.layers.forEach(layer => {
+        const paint = stage.layerPaint.get(layer.id);
+        if (!paint) return;
+        ctx.globalAlpha = layer.opacity / 100;
+        ctx.globalCompositeOperation = layer.blendMode;
+        ctx.drawImage(paint, 0, 0);
+    });
+    return canvas;
+};
+
+/**
+ * The stage as separate pictures, bottom first: the image, the base paint if anything was
+ * painted on it, and every paint layer of `operations`, including hidden ones.
+ */
+export const splitEditStage = (stage: EditStage, operations: EditOperation[]) => {
+    const isBasePaint = (op: EditOperation) => op.enabled && (op.type === 'stroke' || op.type === 'fill') && !op.layer;
+    const parts: { name: string; canvas: HTMLCanvasElement; opacity: number; blendMode: PaintBlendMode; isVisible: boolean }[] = [
+        { name: 'image', canvas: stage.image, opacity: 100, blendMode: 'source-over', isVisible: true },
+    ];
+    if (operations.some(isBasePaint)) parts.push({ name: 'paint', canvas: stage.paint, opacity: 100, blendMode: 'source-over', isVisible: true });
+    operations.forEach(op => {
+        const paint = stage.layerPaint.get(op.id);
+        if (op.type !== 'paint-layer' || !paint) return;
+        parts.push({ name: op.name, canvas: paint, opacity: op.opacity, blendMode: op.blendMode, isVisible: op.enabled });
+    });
+    return parts;
+};
+
+/**
+ * Whether an adjustment or transform step leaves the image as it is.
+ */
+export const isNeutralOperation = (op: EditOperationPayload): boolean => {
+    switch (op.type) {
+        case 'adjustments':
+            return JSON.stringify(op.adjustments) === JSON.stringify(INITIAL_ADJUSTMENTS);
+        case 'hsl':
+            return JSON.stringify(op.colorAdjustments) === JSON.stringify(INITIAL_COLOR_ADJUSTMENTS);
+        case 'tone':
+            return JSON.stringify(op.tone) === JSON.stringify(INITIAL_TONE_ADJUSTMENTS);
+        case 'transform':
+            return op.rotation === 0 && !op.flipHorizontal && !op.flipVertical;
+        default:
+            return false;
+    }
+};
+
+/**
+ * A recipe of the steps that can be replayed on another image. Image steps belong to the
+ * picture they were made from and are left out.
+ */
+export const createEditRecipe = (operations: EditOperation[]): EditRecipe => ({
+    version: 1,
+    operations: operations.filter(op => op.type !== 'image'),
+});
+
+/**
+ * Reads the text of a recipe saved by createEditRecipe. Its steps get new ids, so a recipe
+ * can be applied more than once.
+ */
+export const parseEditRecipe = (text: string): EditOperation[] => {
+    let recipe: Partial<EditRecipe> | null;
+    try {
+        recipe = JSON.parse(text);
+    } catch {
+        recipe = null;
+    }
+    if (!recipe || recipe.version !== 1 || !Array.isArray(recipe.operations)) {
+        throw new Error("Tệp công thức chỉnh sửa không hợp lệ.");
+    }
+    // Strokes and fills keep pointing at their paint layer under its new id.
+    const ids = new Map(recipe.operations.map(op => [op?.id, createOperationId()]));
+    return recipe.operations.map(op => {
+        if (!op || !RECIPE_OPERATION_TYPES.includes(op.type)) {
+            throw new Error("Tệp công thức chỉnh sửa có bước không được hỗ trợ.");
+        }
+        const next = { ...op, id: ids.get(op.id) ?? createOperationId(), enabled: op.enabled !== false };
+        return (next.type === 'stroke' || next.type === 'fill') && next.layer ? { ...next, layer: ids.get(next.layer) } : next;
+    });
+};
+
+/**
+ * The steps that give an image a saved look: its adjustments and HSL values, unmasked.
+ */
+export const createLookOperations = (look: EditLook): EditOperation[] => {
+    const payloads: EditOperationPayload[] = [
+        { type: 'adjustments', adjustments: look.adjustments, mask: null, seed: createGrainSeed() },
+        { type: 'hsl', colorAdjustments: look.colorAdjustments, mask: null },
+    ];
+    return payloads.filter(payload => !isNeutralOperation(payload)).map(payload => ({ ...payload, id: createOperationId(), enabled: true }));
+};
+
+/**
+ * Renders a look on the full-size image at `url` (a data URL or a stored image ref) and
+ * resolves with the result as a PNG data URL.
+ */
+export const applyEditLook = async (url: string, look: EditLook): Promise<string> => {
+    const src = await resolveImageUrl(url);
+    const source = await new Promise<HTMLImageElement>((resolve, reject) => {
+        const image = new Image();
+        image.crossOrigin = "anonymous";
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error("Không thể tải ảnh để áp dụng phong cách màu."));
+        image.src = src;
+    });
+    const stage = renderEditOperations(createEditStage(source, 1), createLookOperations(look), new Map());
+    return flattenEditStage(stage).toDataURL('image/png');
+};
@@ -4,7 +4,7 @@
 */
 
 // --- Types & Constants ---
-export type Tool = 'brush' | 'eraser' | 'crop' | 'selection' | 'pen' | 'colorpicker' | 'marquee' | 'ellipse' | 'perspective-crop' | 'hand';
+export type Tool = 'brush' | 'eraser' | 'clone' | 'heal' | 'crop' | 'selection' | 'pen' | 'colorpicker' | 'marquee' | 'ellipse' | 'perspective-crop' | 'hand';
 export type TransformToolId = 'rotate' | 'flipH' | 'flipV';
 export type HistoryToolId = 'undo' | 'redo';
 export type ColorToolId = 'colorSwatch';
@@ -18,15 +18,78 @@ export type Rect = { x: number; y: number; width: number; height: number };
 export type CropResizeHandle = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight' | 'top' | 'right' | 'bottom' | 'left';
 export type CropAction = 'drawing' | 'moving' | 'resizing';
 export type Interaction = 'none' | 'drawingSelection' | 'drawingPen' | 'drawingMarquee' | 'drawingEllipse' | 'resizingPerspective' | 'placingPerspectivePoints';
-export interface EditorStateSnapshot {
-    imageUrl: string;
+export type SelectionStroke = { points: Point[]; op: 'add' | 'subtract' };
+export type PenNode = { anchor: Point; inHandle: Point; outHandle: Point };
+
+// --- Tone ---
+export type ToneChannel = 'rgb' | 'red' | 'green' | 'blue';
+// Input and output points are 0–255; gamma is the midtone exponent (1 leaves midtones as they are).
+export interface ToneLevels { inputBlack: number; inputWhite: number; gamma: number; outputBlack: number; outputWhite: number; }
+// Curve points map input to output (both 0–255), sorted by x, always including both ends.
+export interface ToneAdjustments { curves: Record<ToneChannel, Point[]>; levels: Record<ToneChannel, ToneLevels>; }
+// Counts of pixels per value (256 entries each), for the tone panel.
+export interface ImageHistogram { red: number[]; green: number[]; blue: number[]; luminance: number[]; }
+
+// --- Brushes ---
+// How the brush lays paint down.
+export type BrushEngine = 'round' | 'airbrush' | 'pencil' | 'textured';
+// Brushes that rework the image under them instead of painting on it.
+export type RetouchMode = 'smudge' | 'blur' | 'sharpen';
+export type BrushPresetId = BrushEngine | RetouchMode;
+export interface BrushPreset { id: BrushPresetId; name: string; hardness: number; opacity: number; }
+export type SymmetryMode = 'none' | 'mirror-x' | 'mirror-y' | 'mirror-xy' | 'radial';
+// Strokes repeat mirrored or rotated around the image centre; `segments` is the number of radial copies.
+export interface BrushSymmetry { mode: SymmetryMode; segments: number; }
+// Which dab properties pen pressure scales.
+export interface PressureSettings { size: boolean; opacity: boolean; }
+// Pressure (0–1) is only recorded for pens; points without it are at full pressure.
+export type StrokePoint = Point & { pressure?: number };
+// Options a brush stroke was painted with; older strokes have neither.
+export interface BrushDynamics { pressure?: PressureSettings; symmetry?: BrushSymmetry; }
+// How a paint layer is composited onto the image and the layers below it.
+export type PaintBlendMode = 'source-over' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'soft-light' | 'color';
+
+// --- Edit Stack ---
+// Values of the Basic and Effects sliders.
+export interface ImageAdjustments {
     luminance: number; contrast: number; temp: number; tint: number; saturation: number; vibrance: number; hue: number;
-    grain: number; clarity: number; dehaze: number; rotation: number; flipHorizontal: boolean; flipVertical: boolean;
-    blur: number;
+    grain: number; clarity: number; dehaze: number; blur: number;
     isInverted: boolean;
-    brushHardness: number;
-    brushOpacity: number;
-    colorAdjustments: ColorAdjustments; drawingCanvasDataUrl: string | null;
 }
-export type SelectionStroke = { points: Point[]; op: 'add' | 'subtract' };
-export type PenNode = { anchor: Point; inHandle: Point; outHandle: Point };
\ No newline at end of file
+// A selection kept with an edit step. Points are fractions (0–1) of the image size at that step
+// and feather is a fraction of its width, so the step applies the same at any resolution.
+export interface EditMask { strokes: SelectionStroke[]; isInverted: boolean; feather: number; }
+export type EditOperationPayload =
+    | { type: 'crop'; rect: Rect }
+    | { type: 'perspective-crop'; points: Point[] }
+    | { type: 'transform'; rotation: number; flipHorizontal: boolean; flipVertical: boolean }
+    // `seed` picks the grain pattern, so the step renders the same every time; steps saved
+    // without one use 0.
+    | { type: 'adjustments'; adjustments: ImageAdjustments; mask: EditMask | null; seed?: number }
+    | { type: 'hsl'; colorAdjustments: ColorAdjustments; mask: EditMask | null }
+    | { type: 'tone'; tone: ToneAdjustments; mask: EditMask | null }
+    // Size is a fraction of the image width; hardness and opacity are 0–100. Strokes and fills
+    // go on the base paint unless `layer` is the id of a paint layer step.
+    | ({ type: 'stroke'; tool: 'brush' | 'eraser'; color: string; size: number; hardness: number; opacity: number; points: StrokePoint[]; clip: EditMask | null; engine?: BrushEngine; layer?: string } & BrushDynamics)
+    // Smudges, blurs or sharpens the image along the stroke; strength is 0–100.
+    | ({ type: 'retouch'; mode: RetouchMode; size: number; hardness: number; strength: number; points: StrokePoint[]; clip: EditMask | null } & BrushDynamics)
+    // Clone stamp: each point is painted with the image at the point plus `offset` (a fraction of the image size).
+    | { type: 'clone'; offset: Point; size: number; hardness: number; opacity: number; points: Point[]; clip: EditMask | null }
+    // Spot healing: the stroke is filled from the texture and tone around it.
+    | { type: 'heal'; size: number; hardness: number; points: Point[]; clip: EditMask | null }
+    | { type: 'fill'; color: string; opacity: number; mask: EditMask; layer?: string }
+    // A paint layer, stacked above the base paint and the layers of earlier steps. Turning the
+    // step off hides the layer.
+    | { type: 'paint-layer'; name: string; opacity: number; blendMode: PaintBlendMode }
+    | { type: 'content-fill'; mask: EditMask }
+    | { type: 'erase'; mask: EditMask }
+    // A result that replaces the whole image, e.g. from an AI edit, or with a mask only the part
+    // inside it. Width and height are its natural size.
+    | { type: 'image'; source: 'ai-edit' | 'ai-fill' | 'remove-background'; url: string; width: number; height: number; prompt?: string; mask?: EditMask | null };
+export type EditOperation = EditOperationPayload & { id: string; enabled: boolean };
+export type EditOperationType = EditOperation['type'];
+// The steps the adjustment panels and transform buttons edit in place.
+export type EditableOperationType = 'adjustments' | 'hsl' | 'tone' | 'transform';
+export interface EditRecipe { version: 1; operations: EditOperation[]; }
+// Named adjustment and HSL values saved from the editor to grade other images the same way.
+export interface EditLook { id: string; name: string; adjustments: ImageAdjustments; colorAdjustments: ColorAdjustments; createdAt: number; }
@@ -2,8 +2,11 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { type Point, type Rect, type CropResizeHandle } from './ImageEditor.types';
-import { HANDLE_SIZE } from './ImageEditor.constants';
+import {
+    type Point, type Rect, type CropResizeHandle, type ColorAdjustments, type HSLAdjustment, type SelectionStroke,
+    type ToneLevels, type ToneAdjustments, type ImageHistogram,
+} from './ImageEditor.types';
+import { HANDLE_SIZE, COLOR_CHANNELS } from './ImageEditor.constants';
 
 /**
  * Creates a canvas with a feathered (blurred) selection mask.
@@ -64,6 +67,31 @@ export const createFeatheredMask = (
 };
 
 
+/**
+ * Builds the path of a selection from its strokes. Added strokes are wound one way and
+ * subtracted ones the other, so filling with the 'nonzero' rule cuts the holes.
+ * @param strokes The selection strokes, in the coordinates of the target canvas.
+ * @param isInverted Whether the selection covers everything outside the strokes.
+ * @param width The width of the target canvas.
+ * @param height The height of the target canvas.
+ */
+export const createSelectionPath = (strokes: SelectionStroke[], isInverted: boolean, width: number, height: number): Path2D => {
+    const path = new Path2D();
+    const addPolygonToPath = (points: Point[]) => {
+        if (points.length < 2) return;
+        path.moveTo(points[0].x, points[0].y);
+        for (let i = 1; i < points.length; i++) path.lineTo(points[i].x, points[i].y);
+        if (points.length > 2) path.closePath();
+    };
+    if (isInverted) {
+        path.rect(0, 0, width, height);
+        strokes.forEach(stroke => addPolygonToPath(stroke.op === 'add' ? [...stroke.points].reverse() : stroke.points));
+    } else {
+        strokes.forEach(stroke => addPolygonToPath(stroke.op === 'subtract' ? [...stroke.points].reverse() : stroke.points));
+    }
+    return path;
+};
+
 export function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
     r /= 255; g /= 255; b /= 255;
     const max = Math.max(r, g, b), min = Math.min(r, g, b);
@@ -104,6 +132,152 @@ export function hslToRgb(h: number, s: number, l: number): [number, number, numb
     return [r * 255, g * 255, b * 255];
 }
 
+/**
+ * Sums the per-channel HSL adjustments that apply to a pixel of the given hue.
+ * A channel's influence is 1 at its center hue and fades out 60 degrees on either side.
+ * @param hue The pixel's hue in degrees (0-360).
+ * @param colorAdjustments The HSL adjustment of each color channel.
+ * @returns The hue, saturation and luminance shifts to add to the pixel.
+ */
+export const getColorChannelShift = (hue: number, colorAdjustments: ColorAdjustments): HSLAdjustment => {
+    const HUE_RANGE_WIDTH = 60;
+    const shift = { h: 0, s: 0, l: 0 };
+    for (const channel of COLOR_CHANNELS) {
+        // Shortest distance on the color wheel
+        const dist = Math.min(Math.abs(hue - channel.center), 360 - Math.abs(hue - channel.center));
+        if (dist < HUE_RANGE_WIDTH) {
+            const influence = 1 - (dist / HUE_RANGE_WIDTH);
+            const adj = colorAdjustments[channel.id];
+            shift.h += adj.h * influence;
+            shift.s += adj.s * influence;
+            shift.l += adj.l * influence;
+        }
+    }
+    return shift;
+};
+
+/**
+ * Builds a lookup table from a tone curve, interpolated with a monotone cubic so the curve
+ * passes through every point without overshooting between them.
+ * @param points The curve points (0-255 on both axes), sorted by x.
+ * @returns 256 output values, one per input value.
+ */
+export const createCurveLut = (points: Point[]): Uint8ClampedArray => {
+    const lut = new Uint8ClampedArray(256);
+    const n = points.length;
+    if (n < 2) {
+        for (let i = 0; i < 256; i++) lut[i] = i;
+        return lut;
+    }
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        const dx = points[i + 1].x - points[i].x;
+        slopes.push(dx === 0 ? 0 : (points[i + 1].y - points[i].y) / dx);
+    }
+    // Fritsch-Carlson tangents.
+    const tangents = points.map((_, i) => {
+        if (i === 0) return slopes[0];
+        if (i === n - 1) return slopes[n - 2];
+        return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+    });
+    for (let i = 0; i < n - 1; i++) {
+        if (slopes[i] === 0) {
+            tangents[i] = 0; tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / slopes[i], b = tangents[i + 1] / slopes[i];
+        const magnitude = Math.hypot(a, b);
+        if (magnitude > 3) {
+            tangents[i] = 3 * a / magnitude * slopes[i];
+            tangents[i + 1] = 3 * b / magnitude * slopes[i];
+        }
+    }
+    let segment = 0;
+    for (let x = 0; x < 256; x++) {
+        if (x <= points[0].x) { lut[x] = points[0].y; continue; }
+        if (x >= points[n - 1].x) { lut[x] = points[n - 1].y; continue; }
+        while (x > points[segment + 1].x) segment++;
+        const p0 = points[segment], p1 = points[segment + 1];
+        const h = p1.x - p0.x;
+        const t = (x - p0.x) / h;
+        const t2 = t * t, t3 = t2 * t;
+        lut[x] = (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * h * tangents[segment]
+            + (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * h * tangents[segment + 1];
+    }
+    return lut;
+};
+
+/**
+ * Builds a lookup table from levels: input black and white are stretched to the full range,
+ * gamma bends the midtones, and the result is compressed into the output range.
+ * @param levels The black, white and gamma values of one channel.
+ * @returns 256 output values, one per input value.
+ */
+export const createLevelsLut = ({ inputBlack, inputWhite, gamma, outputBlack, outputWhite }: ToneLevels): Uint8ClampedArray => {
+    const lut = new Uint8ClampedArray(256);
+    const inputRange = Math.max(1, inputWhite - inputBlack);
+    for (let i = 0; i < 256; i++) {
+        const normalized = Math.min(1, Math.max(0, (i - inputBlack) / inputRange));
+        lut[i] = outputBlack + Math.pow(normalized, 1 / gamma) * (outputWhite - outputBlack);
+    }
+    return lut;
+};
+
+/**
+ * Combines the levels and curves of a tone adjustment into one lookup table per colour
+ * channel: the RGB levels, the channel's levels, the RGB curve, then the channel's curve.
+ * @param tone The tone adjustment.
+ * @returns The red, green and blue lookup tables.
+ */
+export const createToneLuts = (tone: ToneAdjustments): [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray] => {
+    const rgbLevels = createLevelsLut(tone.levels.rgb);
+    const rgbCurve = createCurveLut(tone.curves.rgb);
+    return (['red', 'green', 'blue'] as const).map(channel => {
+        const levels = createLevelsLut(tone.levels[channel]);
+        const curve = createCurveLut(tone.curves[channel]);
+        const lut = new Uint8ClampedArray(256);
+        for (let i = 0; i < 256; i++) lut[i] = curve[rgbCurve[levels[rgbLevels[i]]]];
+        return lut;
+    }) as [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+};
+
+/**
+ * Counts the pixels of a canvas per channel value. Large canvases are sampled.
+ * @param canvas The canvas to measure.
+ * @returns The red, green, blue and luminance histograms.
+ */
+export const computeImageHistogram = (canvas: HTMLCanvasElement): ImageHistogram => {
+    const histogram: ImageHistogram = {
+        red: new Array(256).fill(0), green: new Array(256).fill(0), blue: new Array(256).fill(0), luminance: new Array(256).fill(0),
+    };
+    const ctx = canvas.getContext('2d');
+    if (!ctx || canvas.width === 0 || canvas.height === 0) return histogram;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const pixelCount = canvas.width * canvas.height;
+    const stride = Math.max(1, Math.floor(pixelCount / 100000)) * 4;
+    for (let i = 0; i < data.length; i += stride) {
+        if (data[i + 3] === 0) continue;
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        histogram.red[r]++;
+        histogram.green[g]++;
+        histogram.blue[b]++;
+        histogram.luminance[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+    }
+    return histogram;
+};
+
+/**
+ * A small seeded random number generator (0 to 1), for effects that must come out the same
+ * on every render.
+ */
+export const createRandom = (seed: number) => () => {
+    seed |= 0;
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
 export const isPointInRect = (point: Point, rect: Rect) => (
     point.x >= rect.x && point.x <= rect.x + rect.width &&
     point.y >= rect.y && point.y <= rect.y + rect.height
@@ -268,14 +442,16 @@ function solveSystem(a: number[][], b: number[]): number[] | null {
     return x;
 }
 
-export function warpPerspective(srcImage: HTMLImageElement, destCanvas: HTMLCanvasElement, transform: number[]): void {
+export function warpPerspective(srcImage: HTMLImageElement | HTMLCanvasElement, destCanvas: HTMLCanvasElement, transform: number[]): void {
+    const srcWidth = srcImage instanceof HTMLImageElement ? srcImage.naturalWidth : srcImage.width;
+    const srcHeight = srcImage instanceof HTMLImageElement ? srcImage.naturalHeight : srcImage.height;
     const srcCanvas = document.createElement('canvas');
-    srcCanvas.width = srcImage.naturalWidth;
-    srcCanvas.height = srcImage.naturalHeight;
+    srcCanvas.width = srcWidth;
+    srcCanvas.height = srcHeight;
     const srcCtx = srcCanvas.getContext('2d');
     if (!srcCtx) return;
     srcCtx.drawImage(srcImage, 0, 0);
-    const srcData = srcCtx.getImageData(0, 0, srcImage.naturalWidth, srcImage.naturalHeight).data;
+    const srcData = srcCtx.getImageData(0, 0, srcWidth, srcHeight).data;
 
     const destCtx = destCanvas.getContext('2d');
     if (!destCtx) return;
@@ -286,8 +462,6 @@ export function warpPerspective(srcImage: HTMLImageElement, destCanvas: HTMLCanv
     if (!invTransform) return;
     const inv = invTransform; // for brevity
 
-    const srcWidth = srcImage.naturalWidth;
-    const srcHeight = srcImage.naturalHeight;
     const destWidth = destCanvas.width;
 
     for (let y = 0; y < destCanvas.height; y++) {
@@ -4,7 +4,7 @@
 */
 import React, { useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence, MotionValue } from 'framer-motion';
-import { type Point, type Rect, type CropResizeHandle, type Tool } from './ImageEditor.types';
+import { type Point, type Rect, type CropResizeHandle, type Tool, type RetouchMode, type BrushSymmetry } from './ImageEditor.types';
 import { getCursorForHandle, isPointInRect } from './ImageEditor.utils';
 import { cn } from '../../lib/utils';
 import { UndoIcon, RedoIcon, ZoomOutIcon, ZoomInIcon, HandIcon, LoadingSpinnerIcon } from '../icons';
@@ -75,6 +75,10 @@ interface ImageEditorCanvasProps {
     brushHardness: number;
     brushOpacity: number;
     brushColor: string;
+    cloneSource: Point | null;
+    cloneOffset: Point | null;
+    retouchMode: RetouchMode | null;
+    symmetry: BrushSymmetry;
     isLoading: boolean;
     isProcessing: boolean;
     
@@ -115,7 +119,7 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
         handleActionStart, handleCanvasMouseMove, handleActionEnd,
         setIsCursorOverCanvas, setHoveredCropHandle,
         activeTool, handleToolSelect, isDrawing, isCursorOverCanvas, cursorPosition, cropSelection, hoveredCropHandle,
-        brushSize, brushHardness, brushOpacity, brushColor, isLoading, isProcessing,
+        brushSize, brushHardness, brushOpacity, brushColor, cloneSource, cloneOffset, retouchMode, symmetry, isLoading, isProcessing,
         isSelectionActive, selectionPath, interactionState, currentDrawingPointsRef, marqueeRect,
         ellipseRect, penPathPoints, currentPenDrag, perspectiveCropPoints, hoveredPerspectiveHandleIndex,
         panX, panY, scale, zoomDisplay, canvasViewRef, canvasDimensions, isSpacePanning,
@@ -127,7 +131,7 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
     const getCursorStyle = () => {
         if (activeTool === 'hand' || isSpacePanning) return 'grab';
         if (activeTool === 'colorpicker') return 'crosshair';
-        if (activeTool === 'brush' || activeTool === 'eraser') return 'none';
+        if (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'clone' || activeTool === 'heal') return 'none';
         if (activeTool === 'crop') {
             const handleCursor = getCursorForHandle(hoveredCropHandle);
             if (handleCursor) return handleCursor;
@@ -178,7 +182,7 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
     };
 
     const cursorStyle = useMemo(() => {
-        if (!isCursorOverCanvas || isDrawing || (activeTool !== 'brush' && activeTool !== 'eraser') || !cursorPosition) {
+        if (!isCursorOverCanvas || isDrawing || (activeTool !== 'brush' && activeTool !== 'eraser' && activeTool !== 'clone' && activeTool !== 'heal') || !cursorPosition) {
             return { display: 'none' };
         }
         const hardness = brushHardness / 100;
@@ -199,6 +203,10 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
             cursorBorder = `1px solid rgba(255,255,255,0.8)`;
             cursorBoxShadow = `0 0 0 1px rgba(0,0,0,0.8)`;
     
+        } else if (activeTool === 'clone' || activeTool === 'heal') {
+            cursorBackground = `radial-gradient(circle, rgba(255,255,255,0.15) ${hardnessStop}%, rgba(255,255,255,0) 100%)`;
+            cursorBorder = `1px solid rgba(255,255,255,0.8)`;
+            cursorBoxShadow = `0 0 0 1px rgba(0,0,0,0.8)`;
         } else { // eraser
             cursorBackground = `radial-gradient(circle, rgba(255,255,255,${brushOpacity / 100 * 0.3}) ${hardnessStop}%, rgba(255,255,255,0) 100%)`;
             cursorBorder = `1px solid rgba(0,0,0,0.8)`;
@@ -226,9 +234,10 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
                     // --- DRAW BRUSH PREVIEW (un-translated) ---
                     // This is drawn directly onto the large overlay canvas without translation
                     // because the tempDrawingCanvas is also large and has the padding baked in.
-                    if (isDrawing && (activeTool === 'brush' || activeTool === 'eraser') && tempDrawingCanvasRef.current) {
+                    if (isDrawing && (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'clone' || activeTool === 'heal') && tempDrawingCanvasRef.current) {
                         ctx.save();
-                        ctx.globalAlpha = brushOpacity / 100;
+                        // Clone, heal and retouch strokes only show where they go; the result appears when the stroke ends.
+                        ctx.globalAlpha = activeTool === 'clone' || activeTool === 'heal' || (activeTool === 'brush' && retouchMode) ? 0.4 : brushOpacity / 100;
                         ctx.drawImage(tempDrawingCanvasRef.current, 0, 0);
                         ctx.restore();
                     }
@@ -443,6 +452,42 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
                             } catch (e) { console.warn("Could not get pixel data for color picker preview.", e); }
                         }
                     }
+                    // Symmetry guides: the mirror axes, or the spokes strokes are repeated around.
+                    if ((activeTool === 'brush' || activeTool === 'eraser') && symmetry.mode !== 'none') {
+                        const { width, height } = canvasDimensions;
+                        const cx = width / 2, cy = height / 2;
+                        ctx.save();
+                        ctx.beginPath();
+                        if (symmetry.mode === 'mirror-x' || symmetry.mode === 'mirror-xy') { ctx.moveTo(cx, 0); ctx.lineTo(cx, height); }
+                        if (symmetry.mode === 'mirror-y' || symmetry.mode === 'mirror-xy') { ctx.moveTo(0, cy); ctx.lineTo(width, cy); }
+                        if (symmetry.mode === 'radial') {
+                            const segments = Math.max(2, Math.round(symmetry.segments));
+                            const length = Math.hypot(cx, cy);
+                            for (let i = 0; i < segments; i++) {
+                                const angle = -Math.PI / 2 + i * Math.PI * 2 / segments;
+                                ctx.moveTo(cx, cy); ctx.lineTo(cx + Math.cos(angle) * length, cy + Math.sin(angle) * length);
+                            }
+                        }
+                        ctx.setLineDash([6, 6]);
+                        ctx.strokeStyle = 'rgba(251, 191, 36, 0.6)'; ctx.lineWidth = 1; ctx.stroke();
+                        ctx.restore();
+                    }
+                    // The clone source: the picked point, then wherever it follows the brush to.
+                    const clonePoint = activeTool === 'clone'
+                        ? (cloneOffset && cursorPosition ? { x: cursorPosition.x + cloneOffset.x, y: cursorPosition.y + cloneOffset.y } : cloneSource)
+                        : null;
+                    if (clonePoint && (isCursorOverCanvas || !cloneOffset)) {
+                        const arm = 8;
+                        ctx.save();
+                        ctx.beginPath();
+                        ctx.moveTo(clonePoint.x - arm, clonePoint.y); ctx.lineTo(clonePoint.x + arm, clonePoint.y);
+                        ctx.moveTo(clonePoint.x, clonePoint.y - arm); ctx.lineTo(clonePoint.x, clonePoint.y + arm);
+                        ctx.strokeStyle = 'rgba(0,0,0,0.8)'; ctx.lineWidth = 3; ctx.stroke();
+                        ctx.strokeStyle = 'white'; ctx.lineWidth = 1; ctx.stroke();
+                        ctx.beginPath(); ctx.arc(clonePoint.x, clonePoint.y, brushSize / 2, 0, Math.PI * 2);
+                        ctx.setLineDash([4, 4]); ctx.stroke();
+                        ctx.restore();
+                    }
                     ctx.restore(); // Restore from the OVERLAY_PADDING translation
 
                     marchingAntsOffsetRef.current = (marchingAntsOffsetRef.current + 0.5) % 10;
@@ -452,7 +497,7 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
         };
         animId = requestAnimationFrame(animate);
         return () => cancelAnimationFrame(animId);
-    }, [isSelectionActive, selectionPath, interactionState, activeTool, penPathPoints, cursorPosition, currentPenDrag, isCursorOverCanvas, marqueeRect, ellipseRect, isDrawing, brushOpacity, perspectiveCropPoints, hoveredPerspectiveHandleIndex]);
+    }, [isSelectionActive, selectionPath, interactionState, activeTool, penPathPoints, cursorPosition, currentPenDrag, isCursorOverCanvas, marqueeRect, ellipseRect, isDrawing, brushOpacity, brushSize, cloneSource, cloneOffset, retouchMode, symmetry, canvasDimensions, perspectiveCropPoints, hoveredPerspectiveHandleIndex]);
 
     return (
         <div 
@@ -9,9 +9,13 @@ import { CROP_ASPECT_RATIO_OPTIONS } from './ImageEditor.constants';
 import { BasicAdjustments } from './components/BasicAdjustments';
 import { HslAdjustments } from './components/HslAdjustments';
 import { EffectsAdjustments } from './components/EffectsAdjustments';
+import { ToneAdjustments } from './components/ToneAdjustments';
 import { MagicTools } from './components/MagicTools';
 import { BrushEraserSettings } from './components/BrushEraserSettings';
 import { RangeSlider } from './components/RangeSlider';
+import { EditStack } from './components/EditStack';
+import { EditLooks } from './components/EditLooks';
+import { PaintLayers } from './components/PaintLayers';
 import { type ImageEditorState } from './useImageEditorState';
 
 type ImageEditorControlsProps = ImageEditorState;
@@ -94,7 +98,7 @@ export const ImageEditorControls: React.FC<ImageEditorControlsProps> = (props) =
             </AnimatePresence>
             
             <AnimatePresence>
-                {(activeTool === 'brush' || activeTool === 'eraser') && (
+                {(activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'clone' || activeTool === 'heal') && (
                     <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden border border-neutral-700 rounded-lg">
                        <BrushEraserSettings {...restProps} activeTool={activeTool} />
                     </motion.div>
@@ -129,6 +133,20 @@ export const ImageEditorControls: React.FC<ImageEditorControlsProps> = (props) =
                 </AnimatePresence>
             </div>
 
+            <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                <button onClick={() => setOpenSection(s => s === 'tone' ? null : 'tone')} className={accordionHeaderClasses} aria-expanded={openSection === 'tone'}>
+                    <h4 className="base-font font-bold text-neutral-200">Curves &amp; Levels</h4>
+                    <motion.div animate={{ rotate: openSection === 'tone' ? 180 : 0 }}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg></motion.div>
+                </button>
+                <AnimatePresence>
+                    {openSection === 'tone' && (
+                        <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                            <ToneAdjustments {...props} />
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+
             <div className="border border-neutral-700 rounded-lg overflow-hidden">
                 <button onClick={() => setOpenSection(s => s === 'effects' ? null : 'effects')} className={accordionHeaderClasses} aria-expanded={openSection === 'effects'}>
                     <h4 className="base-font font-bold text-neutral-200">Effects</h4>
@@ -142,6 +160,48 @@ export const ImageEditorControls: React.FC<ImageEditorControlsProps> = (props) =
                     )}
                 </AnimatePresence>
             </div>
+
+            <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                <button onClick={() => setOpenSection(s => s === 'layers' ? null : 'layers')} className={accordionHeaderClasses} aria-expanded={openSection === 'layers'}>
+                    <h4 className="base-font font-bold text-neutral-200">Paint Layers</h4>
+                    <motion.div animate={{ rotate: openSection === 'layers' ? 180 : 0 }}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg></motion.div>
+                </button>
+                <AnimatePresence>
+                    {openSection === 'layers' && (
+                        <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                            <PaintLayers {...props} />
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+
+            <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                <button onClick={() => setOpenSection(s => s === 'stack' ? null : 'stack')} className={accordionHeaderClasses} aria-expanded={openSection === 'stack'}>
+                    <h4 className="base-font font-bold text-neutral-200">Edit Steps</h4>
+                    <motion.div animate={{ rotate: openSection === 'stack' ? 180 : 0 }}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg></motion.div>
+                </button>
+                <AnimatePresence>
+                    {openSection === 'stack' && (
+                        <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                            <EditStack {...props} />
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+
+            <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                <button onClick={() => setOpenSection(s => s === 'looks' ? null : 'looks')} className={accordionHeaderClasses} aria-expanded={openSection === 'looks'}>
+                    <h4 className="base-font font-bold text-neutral-200">Looks</h4>
+                    <motion.div animate={{ rotate: openSection === 'looks' ? 180 : 0 }}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg></motion.div>
+                </button>
+                <AnimatePresence>
+                    {openSection === 'looks' && (
+                        <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                            <EditLooks {...props} />
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
         </div>
     );
 };
\ No newline at end of file
@@ -17,6 +17,8 @@ import {
     PenIcon, 
     BrushIcon, 
     EraserIcon, 
+    CloneStampIcon,
+    HealingBrushIcon,
     ColorPickerIcon 
 } from '../icons';
 
@@ -72,6 +74,8 @@ export const ImageEditorToolbar: React.FC<ImageEditorToolbarProps> = (props) =>
                     <BrushIcon width="20" height="20" />
                 </button>
                 <button onMouseEnter={(e) => showTooltip('eraser', e)} onMouseLeave={hideTooltip} onClick={() => handleToolSelect('eraser')} className={cn(toolButtonClasses, activeTool === 'eraser' ? activeToolButtonClasses : inactiveToolButtonClasses)} aria-label="Eraser Tool"><EraserIcon className="h-5 w-5" /></button>
+                <button onMouseEnter={(e) => showTooltip('clone', e)} onMouseLeave={hideTooltip} onClick={() => handleToolSelect('clone')} className={cn(toolButtonClasses, activeTool === 'clone' ? activeToolButtonClasses : inactiveToolButtonClasses)} aria-label="Clone Stamp Tool"><CloneStampIcon className="h-5 w-5" strokeWidth={1.5} /></button>
+                <button onMouseEnter={(e) => showTooltip('heal', e)} onMouseLeave={hideTooltip} onClick={() => handleToolSelect('heal')} className={cn(toolButtonClasses, activeTool === 'heal' ? activeToolButtonClasses : inactiveToolButtonClasses)} aria-label="Spot Healing Brush Tool"><HealingBrushIcon className="h-5 w-5" strokeWidth={1.5} /></button>
                 <button onMouseEnter={(e) => showTooltip('colorpicker', e)} onMouseLeave={hideTooltip} onClick={() => handleToolSelect('colorpicker')} className={cn(toolButtonClasses, activeTool === 'colorpicker' ? activeToolButtonClasses : inactiveToolButtonClasses)} aria-label="Color Picker Tool">
                     <ColorPickerIcon width="20" height="20" />
                 </button>
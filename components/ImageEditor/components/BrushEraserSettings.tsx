@@ -4,31 +4,87 @@
 */
 import React from 'react';
 import { RangeSlider } from './RangeSlider';
+import { type BrushPresetId, type RetouchMode, type PressureSettings, type BrushSymmetry, type SymmetryMode } from '../ImageEditor.types';
+import { BRUSH_PRESETS, SYMMETRY_MODES } from '../ImageEditor.constants';
+import { cn } from '../../../lib/utils';
 
 interface BrushEraserSettingsProps {
-    activeTool: 'brush' | 'eraser';
+    activeTool: 'brush' | 'eraser' | 'clone' | 'heal';
     brushSize: number; setBrushSize: (v: number) => void;
     brushHardness: number; setBrushHardness: (v: number) => void;
     brushOpacity: number; setBrushOpacity: (v: number) => void;
+    brushPreset: BrushPresetId;
+    retouchMode: RetouchMode | null;
+    handleBrushPresetSelect: (id: BrushPresetId) => void;
+    pressureSettings: PressureSettings;
+    setPressureSettings: React.Dispatch<React.SetStateAction<PressureSettings>>;
+    symmetry: BrushSymmetry;
+    setSymmetry: React.Dispatch<React.SetStateAction<BrushSymmetry>>;
     handleClearDrawings: () => void;
     commitState: () => void;
 }
 
+const TOOL_TITLES: Record<BrushEraserSettingsProps['activeTool'], string> = {
+    brush: 'Brush', eraser: 'Eraser', clone: 'Clone Stamp', heal: 'Spot Healing',
+};
+
 export const BrushEraserSettings: React.FC<BrushEraserSettingsProps> = (props) => {
     const { 
         activeTool, brushSize, setBrushSize, brushHardness, setBrushHardness, 
-        brushOpacity, setBrushOpacity, handleClearDrawings, commitState 
+        brushOpacity, setBrushOpacity, brushPreset, retouchMode, handleBrushPresetSelect,
+        pressureSettings, setPressureSettings, symmetry, setSymmetry, handleClearDrawings, commitState 
     } = props;
+    const isPaintTool = activeTool === 'brush' || activeTool === 'eraser';
 
     return (
         <div className="p-3 space-y-3">
             <div className="flex justify-between items-center">
-                <h4 className="base-font font-bold text-neutral-200">{activeTool === 'brush' ? 'Brush' : 'Eraser'} Settings</h4>
-                <button onClick={handleClearDrawings} className="text-xs text-neutral-400 hover:text-yellow-400">Clear Drawings</button>
+                <h4 className="base-font font-bold text-neutral-200">{TOOL_TITLES[activeTool]} Settings</h4>
+                {(activeTool === 'brush' || activeTool === 'eraser') && <button onClick={handleClearDrawings} className="text-xs text-neutral-400 hover:text-yellow-400">Clear Drawings</button>}
             </div>
+            {activeTool === 'brush' && (
+                <div className="grid grid-cols-4 gap-1">
+                    {BRUSH_PRESETS.map(preset => (
+                        <button
+                            key={preset.id}
+                            onClick={() => handleBrushPresetSelect(preset.id)}
+                            className={cn("rounded px-1 py-1 text-xs font-bold transition-colors", brushPreset === preset.id ? 'bg-yellow-400 text-black' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700')}
+                            aria-pressed={brushPreset === preset.id}
+                        >
+                            {preset.name}
+                        </button>
+                    ))}
+                </div>
+            )}
             <RangeSlider id="brush-size" label="Size" value={brushSize} min={1} max={200} step={1} onChange={setBrushSize} onReset={() => setBrushSize(20)} onCommit={commitState} />
             <RangeSlider id="brush-hardness" label="Hardness" value={brushHardness} min={0} max={100} step={1} onChange={setBrushHardness} onReset={() => { setBrushHardness(50); commitState(); }} onCommit={commitState} />
-            <RangeSlider id="brush-opacity" label="Opacity" value={brushOpacity} min={1} max={100} step={1} onChange={setBrushOpacity} onReset={() => { setBrushOpacity(50); commitState(); }} onCommit={commitState} />
+            {activeTool !== 'heal' && <RangeSlider id="brush-opacity" label={retouchMode && activeTool === 'brush' ? 'Strength' : 'Opacity'} value={brushOpacity} min={1} max={100} step={1} onChange={setBrushOpacity} onReset={() => { setBrushOpacity(50); commitState(); }} onCommit={commitState} />}
+            {isPaintTool && (
+                <div className="space-y-3 border-t border-neutral-700/50 pt-3">
+                    <div className="flex items-center gap-3 text-sm text-neutral-200">
+                        <span className="text-neutral-400">Pen pressure:</span>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={pressureSettings.size} onChange={e => setPressureSettings(p => ({ ...p, size: e.target.checked }))} className="h-4 w-4 rounded border-neutral-500 bg-neutral-700 text-yellow-400 focus:ring-yellow-400 focus:ring-offset-neutral-800" />
+                            Size
+                        </label>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={pressureSettings.opacity} onChange={e => setPressureSettings(p => ({ ...p, opacity: e.target.checked }))} className="h-4 w-4 rounded border-neutral-500 bg-neutral-700 text-yellow-400 focus:ring-yellow-400 focus:ring-offset-neutral-800" />
+                            Opacity
+                        </label>
+                    </div>
+                    <div>
+                        <label htmlFor="brush-symmetry" className="block text-left base-font font-bold text-sm text-neutral-200 mb-2">Symmetry</label>
+                        <select id="brush-symmetry" value={symmetry.mode} onChange={e => setSymmetry(s => ({ ...s, mode: e.target.value as SymmetryMode }))} className="form-input !py-1.5 !text-sm">
+                            {SYMMETRY_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.name}</option>)}
+                        </select>
+                    </div>
+                    {symmetry.mode === 'radial' && (
+                        <RangeSlider id="brush-symmetry-segments" label="Segments" value={symmetry.segments} min={2} max={16} step={1} onChange={v => setSymmetry(s => ({ ...s, segments: v }))} onReset={() => setSymmetry(s => ({ ...s, segments: 6 }))} onCommit={() => {}} />
+                    )}
+                </div>
+            )}
+            {activeTool === 'clone' && <p className="text-xs text-neutral-500">Alt-click to pick the source, then paint to copy it.</p>}
+            {activeTool === 'heal' && <p className="text-xs text-neutral-500">Click or paint over a spot to blend it into its surroundings.</p>}
         </div>
     );
 };
\ No newline at end of file
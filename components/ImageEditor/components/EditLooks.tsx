@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { useAppControls } from '../../uiUtils';
+import { type ImageEditorState } from '../useImageEditorState';
+import { DeleteIcon } from '../../icons';
+
+interface EditLooksProps extends Pick<
+    ImageEditorState,
+    'editLooks' |
+    'canSaveLook' |
+    'handleSaveLook' |
+    'handleApplyLook' |
+    'handleDeleteLook'
+> {}
+
+export const EditLooks: React.FC<EditLooksProps> = ({ editLooks, canSaveLook, handleSaveLook, handleApplyLook, handleDeleteLook }) => {
+    const { t } = useAppControls();
+    const [name, setName] = useState('');
+
+    const handleSave = async () => {
+        await handleSaveLook(name);
+        setName('');
+    };
+
+    return (
+        <div className="p-3 space-y-3">
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter' && name.trim() && canSaveLook) handleSave(); }}
+                    placeholder={t('imageEditor_look_namePlaceholder')}
+                    className="form-input !p-1.5 !text-sm flex-grow min-w-0"
+                    aria-label={t('imageEditor_look_namePlaceholder')}
+                />
+                <button onClick={handleSave} disabled={!name.trim() || !canSaveLook} className="btn btn-secondary btn-sm !text-xs !py-1 !px-3 flex-shrink-0">{t('imageEditor_look_save')}</button>
+            </div>
+            <p className="text-xs text-neutral-500">{canSaveLook ? t('imageEditor_look_hint') : t('imageEditor_look_noValues')}</p>
+            {editLooks.length > 0 && (
+                <ul className="space-y-1">
+                    {editLooks.map(look => (
+                        <li key={look.id} className="flex items-center gap-1 rounded-md bg-neutral-800 px-2 py-1 text-sm">
+                            <span className="flex-grow min-w-0 truncate text-neutral-200" title={look.name}>{look.name}</span>
+                            <button onClick={() => handleApplyLook(look)} className="btn btn-secondary btn-sm !text-xs !py-0.5 !px-2 flex-shrink-0">{t('imageEditor_look_apply')}</button>
+                            <button onClick={() => handleDeleteLook(look.id)} className="p-1 rounded text-neutral-400 hover:text-white hover:bg-neutral-600" aria-label={t('imageEditor_look_delete')}>
+                                <DeleteIcon className="h-4 w-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef } from 'react';
+import { cn } from '../../../lib/utils';
+import { useAppControls } from '../../uiUtils';
+import { type ImageEditorState } from '../useImageEditorState';
+import { type EditOperation } from '../ImageEditor.types';
+import { VisibleIcon, HiddenIcon, UpArrowIcon, DownArrowIcon, DeleteIcon } from '../../icons';
+
+interface EditStackProps extends Pick<
+    ImageEditorState,
+    'editOperations' |
+    'activeStepIds' |
+    'handleSelectEditStep' |
+    'handleToggleEditStep' |
+    'handleMoveEditStep' |
+    'handleDeleteEditStep' |
+    'handleSaveRecipe' |
+    'handleLoadRecipe'
+> {}
+
+const getStepLabel = (op: EditOperation, t: (key: string, ...args: any[]) => string) => {
+    switch (op.type) {
+        case 'stroke':
+            return t(op.tool === 'brush' ? 'imageEditor_step_brush' : 'imageEditor_step_eraser');
+        case 'image':
+            if (op.source === 'ai-edit') return t('imageEditor_step_aiEdit', op.prompt ?? '');
+            return op.source === 'ai-fill' ? t('imageEditor_step_aiFill') : t('imageEditor_step_removeBackground');
+        case 'retouch':
+            return t(`imageEditor_step_retouch_${op.mode}`);
+        case 'paint-layer':
+            return t('imageEditor_step_paintLayer', op.name);
+        default:
+            return t(`imageEditor_step_${op.type}`);
+    }
+};
+
+export const EditStack: React.FC<EditStackProps> = ({
+    editOperations, activeStepIds, handleSelectEditStep, handleToggleEditStep, handleMoveEditStep,
+    handleDeleteEditStep, handleSaveRecipe, handleLoadRecipe,
+}) => {
+    const { t } = useAppControls();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const iconButtonClasses = "p-1 rounded text-neutral-400 hover:text-white hover:bg-neutral-600 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent";
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) handleLoadRecipe(file);
+        e.target.value = '';
+    };
+
+    return (
+        <div className="p-3 space-y-3">
+            {editOperations.length === 0 ? (
+                <p className="text-xs text-neutral-500">{t('imageEditor_stack_empty')}</p>
+            ) : (
+                <ol className="space-y-1">
+                    {editOperations.map((op, index) => {
+                        const isEditing = activeStepIds.includes(op.id);
+                        const isEditable = op.type === 'adjustments' || op.type === 'hsl' || op.type === 'tone' || op.type === 'transform';
+                        const isMasked = ('mask' in op && op.mask) || ('clip' in op && op.clip);
+                        return (
+                            <li key={op.id} className={cn("flex items-center gap-1 rounded-md px-1 py-1 text-sm", isEditing ? 'bg-yellow-400/15 ring-1 ring-yellow-400/60' : 'bg-neutral-800')}>
+                                <button onClick={() => handleToggleEditStep(op.id)} className={iconButtonClasses} aria-label={t('imageEditor_stack_toggle')}>
+                                    {op.enabled ? <VisibleIcon className="h-4 w-4" /> : <HiddenIcon className="h-4 w-4" />}
+                                </button>
+                                <button
+                                    onClick={() => handleSelectEditStep(op.id)}
+                                    disabled={!isEditable}
+                                    title={isEditable ? t('imageEditor_stack_editHint') : undefined}
+                                    className={cn("flex-grow min-w-0 text-left truncate", op.enabled ? 'text-neutral-200' : 'text-neutral-500 line-through', isEditable && 'hover:text-yellow-400')}
+                                >
+                                    {index + 1}. {getStepLabel(op, t)}
+                                    {isMasked && <span className="text-xs text-neutral-400"> · {t('imageEditor_stack_masked')}</span>}
+                                </button>
+                                <button onClick={() => handleMoveEditStep(op.id, -1)} disabled={index === 0} className={iconButtonClasses} aria-label={t('imageEditor_stack_moveUp')}>
+                                    <UpArrowIcon className="h-4 w-4" />
+                                </button>
+                                <button onClick={() => handleMoveEditStep(op.id, 1)} disabled={index === editOperations.length - 1} className={iconButtonClasses} aria-label={t('imageEditor_stack_moveDown')}>
+                                    <DownArrowIcon className="h-4 w-4" />
+                                </button>
+                                <button onClick={() => handleDeleteEditStep(op.id)} className={iconButtonClasses} aria-label={t('imageEditor_stack_delete')}>
+                                    <DeleteIcon className="h-4 w-4" />
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+            <div className="flex gap-2 pt-2 border-t border-neutral-700/50">
+                <button onClick={handleSaveRecipe} disabled={editOperations.length === 0} className="btn btn-secondary btn-sm !text-xs !py-1 !px-3 flex-1">{t('imageEditor_recipe_save')}</button>
+                <button onClick={() => fileInputRef.current?.click()} className="btn btn-secondary btn-sm !text-xs !py-1 !px-3 flex-1">{t('imageEditor_recipe_load')}</button>
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" className="hidden" />
+            </div>
+            <p className="text-xs text-neutral-500">{t('imageEditor_recipe_hint')}</p>
+        </div>
+    );
+};
@@ -66,7 +66,7 @@ export const HslAdjustments: React.FC<HslAdjustmentsProps> = (props) => {
                     Apply to Selection
                 </button>
                 <p className="text-xs text-neutral-500 text-center mt-1 px-1">
-                    {!isSelectionActive ? "Make a selection to enable." : "Bake adjustments and reset sliders."}
+                    {!isSelectionActive ? "Make a selection to enable." : "Adds these adjustments as a masked step."}
                 </p>
             </div>
         </div>
@@ -15,6 +15,8 @@ interface MagicToolsProps extends Pick<
     'aiEditPrompt' | 
     'setAiEditPrompt' | 
     'handleAiEdit' | 
+    'handleContentAwareFill' | 
+    'handleAiFill' | 
     'isSelectionActive'
 > {}
 
@@ -30,6 +32,8 @@ export const MagicTools: React.FC<MagicToolsProps> = ({
     aiEditPrompt,
     setAiEditPrompt,
     handleAiEdit,
+    handleContentAwareFill,
+    handleAiFill,
     isSelectionActive
 }) => {
     const { t } = useAppControls();
@@ -75,6 +79,18 @@ export const MagicTools: React.FC<MagicToolsProps> = ({
                     </button>
                 </form>
             </div>
+            <div className="border-t border-neutral-700/50 mt-3 pt-3 space-y-2">
+                <h5 className="base-font font-bold text-neutral-200 text-sm">{t('imageEditor_contentFill_title')}</h5>
+                <div className="flex gap-2">
+                    <button onClick={handleContentAwareFill} className={buttonClasses} disabled={isLoading || !isSelectionActive}>
+                        {t('imageEditor_contentFill_local')}
+                    </button>
+                    <button onClick={handleAiFill} className={buttonClasses} disabled={isLoading || !isSelectionActive}>
+                        {t('imageEditor_contentFill_ai')}
+                    </button>
+                </div>
+                <p className="text-xs text-neutral-500">{isSelectionActive ? t('imageEditor_contentFill_hint') : t('imageEditor_contentFill_noSelection')}</p>
+            </div>
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { cn } from '../../../lib/utils';
+import { useAppControls } from '../../uiUtils';
+import { type ImageEditorState } from '../useImageEditorState';
+import { type PaintBlendMode } from '../ImageEditor.types';
+import { PAINT_BLEND_MODES } from '../ImageEditor.constants';
+import { RangeSlider } from './RangeSlider';
+import { VisibleIcon, HiddenIcon, UpArrowIcon, DownArrowIcon, DeleteIcon } from '../../icons';
+
+interface PaintLayersProps extends Pick<
+    ImageEditorState,
+    'paintLayers' |
+    'activePaintLayerId' |
+    'setActivePaintLayerId' |
+    'handleAddPaintLayer' |
+    'handleUpdatePaintLayer' |
+    'handleMovePaintLayer' |
+    'handleToggleEditStep' |
+    'handleDeleteEditStep' |
+    'handleExportLayersToComposer' |
+    'isProcessing'
+> {}
+
+export const PaintLayers: React.FC<PaintLayersProps> = ({
+    paintLayers, activePaintLayerId, setActivePaintLayerId, handleAddPaintLayer, handleUpdatePaintLayer,
+    handleMovePaintLayer, handleToggleEditStep, handleDeleteEditStep, handleExportLayersToComposer, isProcessing,
+}) => {
+    const { t } = useAppControls();
+    const activeLayer = paintLayers.find(layer => layer.id === activePaintLayerId) ?? null;
+    // The slider moves freely; the layer step only changes when it is released.
+    const [opacity, setOpacity] = useState(activeLayer?.opacity ?? 100);
+    useEffect(() => { setOpacity(activeLayer?.opacity ?? 100); }, [activeLayer?.id, activeLayer?.opacity]);
+
+    const iconButtonClasses = "p-1 rounded text-neutral-400 hover:text-white hover:bg-neutral-600 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent";
+    const rowClasses = (isActive: boolean) => cn("flex items-center gap-1 rounded-md px-1 py-1 text-sm", isActive ? 'bg-yellow-400/15 ring-1 ring-yellow-400/60' : 'bg-neutral-800');
+
+    return (
+        <div className="p-3 space-y-3">
+            <ol className="space-y-1">
+                {/* Top layer first, as they stack on the image. */}
+                {[...paintLayers].reverse().map((layer, i) => {
+                    const index = paintLayers.length - 1 - i;
+                    return (
+                        <li key={layer.id} className={rowClasses(layer.id === activePaintLayerId)}>
+                            <button onClick={() => handleToggleEditStep(layer.id)} className={iconButtonClasses} aria-label={t('imageEditor_layer_toggle')}>
+                                {layer.enabled ? <VisibleIcon className="h-4 w-4" /> : <HiddenIcon className="h-4 w-4" />}
+                            </button>
+                            <button
+                                onClick={() => setActivePaintLayerId(layer.id)}
+                                className={cn("flex-grow min-w-0 text-left truncate hover:text-yellow-400", layer.enabled ? 'text-neutral-200' : 'text-neutral-500 line-through')}
+                            >
+                                {layer.name}
+                                {layer.opacity < 100 && <span className="text-xs text-neutral-400"> · {layer.opacity}%</span>}
+                            </button>
+                            <button onClick={() => handleMovePaintLayer(layer.id, 1)} disabled={index === paintLayers.length - 1} className={iconButtonClasses} aria-label={t('imageEditor_stack_moveUp')}>
+                                <UpArrowIcon className="h-4 w-4" />
+                            </button>
+                            <button onClick={() => handleMovePaintLayer(layer.id, -1)} disabled={index === 0} className={iconButtonClasses} aria-label={t('imageEditor_stack_moveDown')}>
+                                <DownArrowIcon className="h-4 w-4" />
+                            </button>
+                            <button onClick={() => handleDeleteEditStep(layer.id)} className={iconButtonClasses} aria-label={t('imageEditor_layer_delete')}>
+                                <DeleteIcon className="h-4 w-4" />
+                            </button>
+                        </li>
+                    );
+                })}
+                <li className={rowClasses(activePaintLayerId === null)}>
+                    <button onClick={() => setActivePaintLayerId(null)} className="flex-grow min-w-0 text-left truncate px-1 text-neutral-200 hover:text-yellow-400">
+                        {t('imageEditor_layer_base')}
+                    </button>
+                </li>
+            </ol>
+
+            {activeLayer && (
+                <div className="space-y-3 border-t border-neutral-700/50 pt-3">
+                    <RangeSlider
+                        id="paint-layer-opacity" label="Layer Opacity" value={opacity} min={0} max={100} step={1}
+                        onChange={setOpacity}
+                        onReset={() => handleUpdatePaintLayer(activeLayer.id, { opacity: 100 })}
+                        onCommit={() => { if (opacity !== activeLayer.opacity) handleUpdatePaintLayer(activeLayer.id, { opacity }); }}
+                    />
+                    <div>
+                        <label htmlFor="paint-layer-blend" className="block text-left base-font font-bold text-sm text-neutral-200 mb-2">Blend Mode</label>
+                        <select id="paint-layer-blend" value={activeLayer.blendMode} onChange={e => handleUpdatePaintLayer(activeLayer.id, { blendMode: e.target.value as PaintBlendMode })} className="form-input !py-1.5 !text-sm">
+                            {PAINT_BLEND_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.name}</option>)}
+                        </select>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex gap-2 pt-2 border-t border-neutral-700/50">
+                <button onClick={handleAddPaintLayer} className="btn btn-secondary btn-sm !text-xs !py-1 !px-3 flex-1">{t('imageEditor_layer_add')}</button>
+                <button onClick={handleExportLayersToComposer} disabled={isProcessing} className="btn btn-secondary btn-sm !text-xs !py-1 !px-3 flex-1">{t('imageEditor_layer_export')}</button>
+            </div>
+            <p className="text-xs text-neutral-500">{t('imageEditor_layer_hint')}</p>
+        </div>
+    );
+};
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { RangeSlider } from './RangeSlider';
+import { type Point, type ToneAdjustments as ToneValues, type ToneChannel, type ToneLevels, type ImageHistogram } from '../ImageEditor.types';
+import { TONE_CHANNELS, INITIAL_TONE_ADJUSTMENTS } from '../ImageEditor.constants';
+import { createCurveLut } from '../ImageEditor.utils';
+import { cn } from '../../../lib/utils';
+
+interface ToneAdjustmentsProps {
+    toneAdjustments: ToneValues;
+    setToneAdjustments: React.Dispatch<React.SetStateAction<ToneValues>>;
+    activeToneChannel: ToneChannel;
+    setActiveToneChannel: (channel: ToneChannel) => void;
+    histogram: ImageHistogram | null;
+    commitState: () => void;
+    isSelectionActive: boolean;
+    handleApplyAdjustmentsToSelection: () => void;
+}
+
+const CURVE_SIZE = 255;
+// How close (in curve units) a click has to be to an existing point to grab it instead of adding one.
+const POINT_HIT_RADIUS = 8;
+
+// The histogram of a channel as a filled SVG path, scaled by square root so shadows and
+// highlights with few pixels still show.
+const getHistogramPath = (counts: number[]) => {
+    const max = Math.sqrt(Math.max(...counts, 1));
+    const heights = counts.map(count => Math.sqrt(count) / max * CURVE_SIZE);
+    return `M0,${CURVE_SIZE} ` + heights.map((h, x) => `L${x},${CURVE_SIZE - h}`).join(' ') + ` L${CURVE_SIZE},${CURVE_SIZE} Z`;
+};
+
+// Drawn from the same lookup table the pixels go through.
+const getCurvePath = (points: Point[]) => {
+    const lut = createCurveLut(points);
+    return Array.from(lut, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${CURVE_SIZE - y}`).join(' ');
+};
+
+export const ToneAdjustments: React.FC<ToneAdjustmentsProps> = (props) => {
+    const { toneAdjustments, setToneAdjustments, activeToneChannel, setActiveToneChannel, histogram, commitState, isSelectionActive, handleApplyAdjustmentsToSelection } = props;
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+
+    const points = toneAdjustments.curves[activeToneChannel];
+    const levels = toneAdjustments.levels[activeToneChannel];
+    const channelColor = TONE_CHANNELS.find(c => c.id === activeToneChannel)?.color ?? '#e5e5e5';
+    const histogramCounts = histogram ? histogram[activeToneChannel === 'rgb' ? 'luminance' : activeToneChannel] : null;
+
+    const setPoints = (next: Point[]) => setToneAdjustments(p => ({ ...p, curves: { ...p.curves, [activeToneChannel]: next } }));
+    const setLevel = (key: keyof ToneLevels, value: number) => setToneAdjustments(p => {
+        const current = p.levels[activeToneChannel];
+        const next = { ...current, [key]: value };
+        // Black stays below white on both sides.
+        if (key === 'inputBlack') next.inputBlack = Math.min(value, current.inputWhite - 2);
+        if (key === 'inputWhite') next.inputWhite = Math.max(value, current.inputBlack + 2);
+        return { ...p, levels: { ...p.levels, [activeToneChannel]: next } };
+    });
+
+    const getCurvePoint = (e: React.PointerEvent<SVGSVGElement>): Point | null => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect) return null;
+        return {
+            x: Math.round(Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1) * CURVE_SIZE),
+            y: Math.round((1 - Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1)) * CURVE_SIZE),
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        const point = getCurvePoint(e);
+        if (!point) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const hitIndex = points.findIndex(p => Math.hypot(p.x - point.x, p.y - point.y) <= POINT_HIT_RADIUS);
+        if (hitIndex !== -1) {
+            setDraggingIndex(hitIndex);
+            return;
+        }
+        const insertAt = points.findIndex(p => p.x > point.x);
+        if (insertAt <= 0) return;
+        setPoints([...points.slice(0, insertAt), point, ...points.slice(insertAt)]);
+        setDraggingIndex(insertAt);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (draggingIndex === null) return;
+        const point = getCurvePoint(e);
+        if (!point) return;
+        const isEnd = draggingIndex === 0 || draggingIndex === points.length - 1;
+        // End points only move up and down; the others stay between their neighbours.
+        const x = isEnd ? points[draggingIndex].x : Math.min(Math.max(point.x, points[draggingIndex - 1].x + 1), points[draggingIndex + 1].x - 1);
+        setPoints(points.map((p, i) => i === draggingIndex ? { x, y: point.y } : p));
+    };
+
+    const handlePointerUp = () => {
+        if (draggingIndex === null) return;
+        setDraggingIndex(null);
+        commitState();
+    };
+
+    const handleRemovePoint = (index: number) => {
+        if (index === 0 || index === points.length - 1) return;
+        setPoints(points.filter((_, i) => i !== index));
+        commitState();
+    };
+
+    const handleResetChannel = () => {
+        setToneAdjustments(p => ({
+            curves: { ...p.curves, [activeToneChannel]: INITIAL_TONE_ADJUSTMENTS.curves[activeToneChannel] },
+            levels: { ...p.levels, [activeToneChannel]: INITIAL_TONE_ADJUSTMENTS.levels[activeToneChannel] },
+        }));
+        commitState();
+    };
+
+    const resetLevel = (key: keyof ToneLevels) => { setLevel(key, INITIAL_TONE_ADJUSTMENTS.levels[activeToneChannel][key]); commitState(); };
+
+    return (
+        <div className="p-3 space-y-3">
+            <div className="flex items-center gap-1">
+                {TONE_CHANNELS.map(c => (
+                    <button
+                        key={c.id}
+                        onClick={() => setActiveToneChannel(c.id)}
+                        className={cn("flex-1 rounded px-2 py-1 text-xs font-bold transition-colors", activeToneChannel === c.id ? 'bg-neutral-600 text-white' : 'text-neutral-400 hover:bg-neutral-700')}
+                        style={{ color: activeToneChannel === c.id ? c.color : undefined }}
+                        aria-pressed={activeToneChannel === c.id}
+                    >
+                        {c.name}
+                    </button>
+                ))}
+            </div>
+
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${CURVE_SIZE} ${CURVE_SIZE}`}
+                className="w-full aspect-square rounded bg-neutral-900 cursor-crosshair touch-none select-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                aria-label="Tone curve"
+            >
+                {histogramCounts && <path d={getHistogramPath(histogramCounts)} fill={channelColor} fillOpacity={0.2} />}
+                {[64, 128, 192].map(v => (
+                    <g key={v} stroke="#404040" strokeWidth={0.5}>
+                        <line x1={v} y1={0} x2={v} y2={CURVE_SIZE} />
+                        <line x1={0} y1={v} x2={CURVE_SIZE} y2={v} />
+                    </g>
+                ))}
+                <line x1={0} y1={CURVE_SIZE} x2={CURVE_SIZE} y2={0} stroke="#525252" strokeWidth={0.5} strokeDasharray="3 3" />
+                <path d={getCurvePath(points)} fill="none" stroke={channelColor} strokeWidth={1.5} />
+                {points.map((p, i) => (
+                    <circle
+                        key={i}
+                        cx={p.x}
+                        cy={CURVE_SIZE - p.y}
+                        r={4}
+                        fill={draggingIndex === i ? channelColor : '#171717'}
+                        stroke={channelColor}
+                        strokeWidth={1.5}
+                        onDoubleClick={() => handleRemovePoint(i)}
+                    />
+                ))}
+            </svg>
+            <p className="text-xs text-neutral-500">Click to add a point, drag to move it, double-click to remove it.</p>
+
+            <div className="space-y-3 border-t border-neutral-700/50 pt-3">
+                <h5 className="text-xs font-bold uppercase tracking-wider text-neutral-400">Levels</h5>
+                <RangeSlider id={`${activeToneChannel}-in-black`} label="Input Black" value={levels.inputBlack} min={0} max={253} step={1} onChange={v => setLevel('inputBlack', v)} onReset={() => resetLevel('inputBlack')} onCommit={commitState} />
+                <RangeSlider id={`${activeToneChannel}-in-white`} label="Input White" value={levels.inputWhite} min={2} max={255} step={1} onChange={v => setLevel('inputWhite', v)} onReset={() => resetLevel('inputWhite')} onCommit={commitState} />
+                <RangeSlider id={`${activeToneChannel}-gamma`} label="Gamma" value={levels.gamma} min={0.1} max={9.99} step={0.01} decimals={2} onChange={v => setLevel('gamma', v)} onReset={() => resetLevel('gamma')} onCommit={commitState} />
+                <RangeSlider id={`${activeToneChannel}-out-black`} label="Output Black" value={levels.outputBlack} min={0} max={255} step={1} onChange={v => setLevel('outputBlack', v)} onReset={() => resetLevel('outputBlack')} onCommit={commitState} />
+                <RangeSlider id={`${activeToneChannel}-out-white`} label="Output White" value={levels.outputWhite} min={0} max={255} step={1} onChange={v => setLevel('outputWhite', v)} onReset={() => resetLevel('outputWhite')} onCommit={commitState} />
+                <button onClick={handleResetChannel} className="w-full btn btn-secondary btn-sm !text-xs !py-1">Reset Channel</button>
+            </div>
+
+            <div className="border-t border-neutral-700/50 mt-3 pt-3">
+                <button
+                    onClick={handleApplyAdjustmentsToSelection}
+                    disabled={!isSelectionActive}
+                    className="w-full btn btn-primary btn-sm !text-xs !py-1.5 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed disabled:transform-none"
+                    aria-label="Apply adjustments to selection and reset sliders"
+                >
+                    Apply to Selection
+                </button>
+                <p className="text-xs text-neutral-500 text-center mt-1 px-1">
+                    {!isSelectionActive ? "Make a selection to enable." : "Adds these adjustments as a masked step."}
+                </p>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useState, useEffect, useCallback } from 'react';
+import * as db from '../../lib/db';
+import { type EditLook, type ImageAdjustments, type ColorAdjustments } from './ImageEditor.types';
+
+// The editor saves looks and the gallery applies them while both are open, so every
+// instance reloads the list when one of them changes it.
+const listeners = new Set<() => void>();
+const notifyLooksChanged = () => listeners.forEach(listener => listener());
+
+/**
+ * Custom hook for the saved looks, oldest first.
+ * @returns The looks and functions to save a new one and delete one.
+ */
+export const useEditLooks = () => {
+    const [looks, setLooks] = useState<EditLook[]>([]);
+
+    useEffect(() => {
+        let isActive = true;
+        const load = () => {
+            db.getAllEditLooks()
+                .then(saved => { if (isActive) setLooks(saved); })
+                .catch(err => console.error("Failed to load looks:", err));
+        };
+        load();
+        listeners.add(load);
+        return () => {
+            isActive = false;
+            listeners.delete(load);
+        };
+    }, []);
+
+    const saveLook = useCallback(async (name: string, adjustments: ImageAdjustments, colorAdjustments: ColorAdjustments) => {
+        const look: EditLook = {
+            id: Math.random().toString(36).substring(2, 9),
+            name: name.trim(),
+            adjustments,
+            colorAdjustments,
+            createdAt: Date.now(),
+        };
+        await db.saveEditLook(look);
+        notifyLooksChanged();
+        return look;
+    }, []);
+
+    const deleteLook = useCallback(async (id: string) => {
+        await db.deleteEditLook(id);
+        notifyLooksChanged();
+    }, []);
+
+    return { looks, saveLook, deleteLook };
+};
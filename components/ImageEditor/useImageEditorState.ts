@@ -4,19 +4,42 @@
 */
 import React, { useState, useRef, useEffect, useCallback, useMemo, ChangeEvent } from 'react';
 import { useMotionValue, useMotionValueEvent } from 'framer-motion';
-import { handleFileUpload, type ImageToEdit } from '../uiUtils';
+import toast from 'react-hot-toast';
+import { handleFileUpload, useAppControls, useImageEditor, getErrorMessage, showErrorToast, downloadJson, type ImageToEdit } from '../uiUtils';
 import { removeImageBackground, editImageWithPrompt } from '../../services/geminiService';
+import { resolveImageUrl } from '../../lib/imageStore';
 import { 
-    type Tool, type EditorStateSnapshot, type Point, type Rect, type CropResizeHandle, type CropAction,
+    type Tool, type Point, type Rect, type CropResizeHandle, type CropAction,
     type Interaction, type SelectionStroke, type PenNode, type ColorChannel,
-    type ColorAdjustments,
+    type ColorAdjustments, type ImageAdjustments, type EditOperation, type EditOperationPayload,
+    type EditableOperationType, type EditLook, type ToneAdjustments, type ToneChannel, type ImageHistogram,
+    type StrokePoint, type BrushEngine, type BrushPresetId, type BrushSymmetry, type PressureSettings, type PaintBlendMode,
 } from './ImageEditor.types';
-import { INITIAL_COLOR_ADJUSTMENTS, COLOR_CHANNELS, HANDLE_SIZE, OVERLAY_PADDING } from './ImageEditor.constants';
+import {
+    INITIAL_ADJUSTMENTS, INITIAL_COLOR_ADJUSTMENTS, INITIAL_TONE_ADJUSTMENTS, HANDLE_SIZE, OVERLAY_PADDING,
+    BRUSH_PRESETS, RETOUCH_MODES, INITIAL_SYMMETRY,
+} from './ImageEditor.constants';
 import { 
-    rgbToHsl, hslToRgb, isPointInRect, getRatioValue, getHandleAtPoint, 
-    getCursorForHandle, approximateCubicBezier, getPerspectiveTransform, warpPerspective, hexToRgba,
-    createFeatheredMask
+    isPointInRect, getRatioValue, getHandleAtPoint, 
+    approximateCubicBezier, getPerspectiveTransform, createSelectionPath, computeImageHistogram,
 } from './ImageEditor.utils';
+import {
+    createOperationId, createGrainSeed, createEditStage, createEditMask, getEditOutputSize, renderEditOperations, flattenEditStage, splitEditStage,
+    isNeutralOperation, createEditRecipe, parseEditRecipe, createLookOperations, type EditStage,
+} from './ImageEditor.operations';
+import { drawEngineDab, forEachStrokeDab, getPressureDab, getSymmetricPoints } from './ImageEditor.brushes';
+import { useEditLooks } from './useEditLooks';
+
+const NO_OPERATIONS: EditOperation[] = [];
+const EDITABLE_OPERATION_TYPES: EditableOperationType[] = ['adjustments', 'hsl', 'tone', 'transform'];
+// Id of a step the sliders have started but that isn't in the history yet.
+const NEW_STEP_ID_PREFIX = 'new-';
+
+// Pen pressure; mice and touch report a fixed value that means nothing, so they get none.
+const getPenPressure = (e: React.MouseEvent | React.TouchEvent): number | undefined => {
+    const nativeEvent = e.nativeEvent;
+    return nativeEvent instanceof PointerEvent && nativeEvent.pointerType === 'pen' ? nativeEvent.pressure : undefined;
+};
 
 
 export const useImageEditorState = (
@@ -24,13 +47,20 @@ export const useImageEditorState = (
     canvasViewRef: React.RefObject<HTMLDivElement>
 ) => {
     // --- State & Refs ---
+    const { t, openLayerComposer } = useAppControls();
+    const { sendLayersToComposer } = useImageEditor();
+    const { looks, saveLook, deleteLook } = useEditLooks();
     const [internalImageUrl, setInternalImageUrl] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [isProcessing, setIsProcessing] = useState(false);
 
-    // History states
-    const [history, setHistory] = useState<EditorStateSnapshot[]>([]);
+    // History states. Each entry is the whole list of edit steps, rendered from the original image.
+    const [history, setHistory] = useState<EditOperation[][]>([]);
     const [historyIndex, setHistoryIndex] = useState(-1);
+    // The steps the adjustment sliders and transform buttons currently edit, by type.
+    const [editingStepIds, setEditingStepIds] = useState<Partial<Record<EditableOperationType, string>>>({});
+    const [commitRequest, setCommitRequest] = useState(0);
+    const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
 
     // Filter states
     const [luminance, setLuminance] = useState(0);
@@ -41,6 +71,8 @@ export const useImageEditorState = (
     const [vibrance, setVibrance] = useState(0);
     const [hue, setHue] = useState(0);
     const [grain, setGrain] = useState(0);
+    // The grain seed of the next new adjustment step.
+    const [grainSeed, setGrainSeed] = useState(createGrainSeed);
     const [clarity, setClarity] = useState(0);
     const [dehaze, setDehaze] = useState(0);
     const [blur, setBlur] = useState(0);
@@ -49,9 +81,13 @@ export const useImageEditorState = (
     const [flipVertical, setFlipVertical] = useState(false);
     const [isInverted, setIsInverted] = useState(false);
     const [colorAdjustments, setColorAdjustments] = useState<ColorAdjustments>(INITIAL_COLOR_ADJUSTMENTS);
+    const [toneAdjustments, setToneAdjustments] = useState<ToneAdjustments>(INITIAL_TONE_ADJUSTMENTS);
+    const [activeToneChannel, setActiveToneChannel] = useState<ToneChannel>('rgb');
+    // Of the image as the preview shows it, after every step.
+    const [histogram, setHistogram] = useState<ImageHistogram | null>(null);
     
     // UI states
-    const [openSection, setOpenSection] = useState<'adj' | 'hls' | 'effects' | 'magic' | null>('magic');
+    const [openSection, setOpenSection] = useState<'adj' | 'hls' | 'tone' | 'effects' | 'magic' | 'layers' | 'stack' | 'looks' | null>('magic');
     const [isGalleryPickerOpen, setIsGalleryPickerOpen] = useState(false);
     const [isWebcamModalOpen, setIsWebcamModalOpen] = useState(false);
     const [activeColorTab, setActiveColorTab] = useState<ColorChannel>(Object.keys(INITIAL_COLOR_ADJUSTMENTS)[0] as ColorChannel);
@@ -63,10 +99,18 @@ export const useImageEditorState = (
     const [brushHardness, setBrushHardness] = useState(50);
     const [brushOpacity, setBrushOpacity] = useState(50);
     const [brushColor, setBrushColor] = useState('#ffffff');
+    const [brushPreset, setBrushPreset] = useState<BrushPresetId>('round');
+    const [pressureSettings, setPressureSettings] = useState<PressureSettings>({ size: true, opacity: false });
+    const [symmetry, setSymmetry] = useState<BrushSymmetry>(INITIAL_SYMMETRY);
+    // The paint layer step strokes and fills go on; null for the base paint.
+    const [activePaintLayerId, setActivePaintLayerId] = useState<string | null>(null);
     const [isDrawing, setIsDrawing] = useState(false);
     const [cursorPosition, setCursorPosition] = useState<Point | null>(null);
     const [isCursorOverCanvas, setIsCursorOverCanvas] = useState(false);
     const [aiEditPrompt, setAiEditPrompt] = useState('');
+    // Clone stamp: the point picked with Alt, and the offset from the brush to the source once a stroke starts.
+    const [cloneSource, setCloneSource] = useState<Point | null>(null);
+    const [cloneOffset, setCloneOffset] = useState<Point | null>(null);
 
     // Crop-specific states
     const [cropSelection, setCropSelection] = useState<Rect | null>(null);
@@ -99,7 +143,11 @@ export const useImageEditorState = (
 
     // Refs
     const sourceImageRef = useRef<HTMLImageElement | null>(null);
-    const originalImageRef = useRef<HTMLImageElement | null>(null);
+    // Pictures of image steps (AI results), by url.
+    const stepImagesRef = useRef(new Map<string, HTMLImageElement>());
+    // The preview stage before the first step being edited, reused while a slider moves.
+    const stageCacheRef = useRef<{ source: HTMLImageElement; scale: number; operations: EditOperation[]; stage: EditStage } | null>(null);
+    const strokePointsRef = useRef<StrokePoint[]>([]);
     const previewCanvasRef = useRef<HTMLCanvasElement | null>(null);
     const drawingCanvasRef = useRef<HTMLCanvasElement | null>(null);
     const overlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -119,23 +167,71 @@ export const useImageEditorState = (
     const selectionPath = useMemo(() => {
         const canvas = previewCanvasRef.current;
         if (!canvas || (selectionStrokes.length === 0 && !isSelectionInverted)) return null;
-        const finalPath = new Path2D();
-        const addPolygonToPath = (points: Point[], path: Path2D) => {
-            if (points.length < 2) return;
-            path.moveTo(points[0].x, points[0].y);
-            for (let i = 1; i < points.length; i++) path.lineTo(points[i].x, points[i].y);
-            if (points.length > 2) path.closePath();
-        };
-        if (isSelectionInverted) {
-            finalPath.rect(0, 0, canvas.width, canvas.height);
-            selectionStrokes.forEach(stroke => addPolygonToPath(stroke.op === 'add' ? [...stroke.points].reverse() : stroke.points, finalPath));
-        } else {
-            selectionStrokes.forEach(stroke => addPolygonToPath(stroke.op === 'subtract' ? [...stroke.points].reverse() : stroke.points, finalPath));
-        }
-        return finalPath;
+        return createSelectionPath(selectionStrokes, isSelectionInverted, canvas.width, canvas.height);
     }, [selectionStrokes, isSelectionInverted, canvasDimensions]);
 
     const isSelectionActive = useMemo(() => selectionPath !== null, [selectionPath]);
+
+    // The selection as stored with a step.
+    const selectionMask = useMemo(() => {
+        if (!isSelectionActive || canvasDimensions.width === 0) return null;
+        return createEditMask(selectionStrokes, isSelectionInverted, featherAmount, canvasDimensions.width, canvasDimensions.height);
+    }, [isSelectionActive, selectionStrokes, isSelectionInverted, featherAmount, canvasDimensions]);
+
+    const operations = history[historyIndex] ?? NO_OPERATIONS;
+
+    const adjustments = useMemo<ImageAdjustments>(() => ({
+        luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, blur, isInverted,
+    }), [luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, blur, isInverted]);
+
+    /**
+     * The steps with the current slider values: written into the steps being edited, or into
+     * new steps at the end once they change anything. A new adjustment step takes the
+     * current selection as its mask.
+     */
+    const liveOperations = useMemo(() => {
+        const payloads: Record<EditableOperationType, EditOperationPayload> = {
+            adjustments: { type: 'adjustments', adjustments, mask: selectionMask, seed: grainSeed },
+            hsl: { type: 'hsl', colorAdjustments, mask: selectionMask },
+            tone: { type: 'tone', tone: toneAdjustments, mask: selectionMask },
+            transform: { type: 'transform', rotation, flipHorizontal, flipVertical },
+        };
+        const getValues = (op: EditOperationPayload) => JSON.stringify(
+            op.type === 'adjustments' ? op.adjustments : op.type === 'hsl' ? op.colorAdjustments : op.type === 'tone' ? op.tone
+                : op.type === 'transform' ? [op.rotation, op.flipHorizontal, op.flipVertical] : null
+        );
+        let result = operations;
+        EDITABLE_OPERATION_TYPES.forEach(type => {
+            const payload = payloads[type];
+            const index = result.findIndex(op => op.id === editingStepIds[type]);
+            if (index !== -1) {
+                const current = result[index];
+                if (getValues(current) === getValues(payload)) return;
+                const next = {
+                    ...payload, id: current.id, enabled: current.enabled,
+                    ...('mask' in current ? { mask: current.mask } : {}),
+                    ...(current.type === 'adjustments' ? { seed: current.seed } : {}),
+                } as EditOperation;
+                result = result.map((op, i) => i === index ? next : op);
+            } else if (!isNeutralOperation(payload)) {
+                result = [...result, { ...payload, id: NEW_STEP_ID_PREFIX + type, enabled: true }];
+            }
+        });
+        return result;
+    }, [operations, editingStepIds, adjustments, colorAdjustments, toneAdjustments, rotation, flipHorizontal, flipVertical, selectionMask, grainSeed]);
+
+    // The ids of the steps the sliders are changing, new ones included.
+    const activeStepIds = useMemo(() => {
+        const editingIds = Object.values(editingStepIds);
+        return liveOperations.filter(op => op.id.startsWith(NEW_STEP_ID_PREFIX) || editingIds.includes(op.id)).map(op => op.id);
+    }, [liveOperations, editingStepIds]);
+    
+    // The paint layer steps, bottom first, and the one being painted on if it's still there.
+    const paintLayers = useMemo(() => liveOperations.filter((op): op is Extract<EditOperation, { type: 'paint-layer' }> => op.type === 'paint-layer'), [liveOperations]);
+    const activeLayerId = paintLayers.some(layer => layer.id === activePaintLayerId) ? activePaintLayerId : null;
+    // Retouch presets turn the brush into a smudge, blur or sharpen brush.
+    const retouchMode = RETOUCH_MODES.find(mode => mode === brushPreset) ?? null;
+    const brushEngine: BrushEngine = retouchMode ? 'round' : brushPreset as BrushEngine;
     
     // --- Core Functions ---
     const deselect = useCallback(() => {
@@ -146,120 +242,119 @@ export const useImageEditorState = (
         setEllipseRect(null);
     }, []);
 
-    const captureState = useCallback((): EditorStateSnapshot => ({
-        luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, blur,
-        rotation, flipHorizontal, flipVertical, isInverted, colorAdjustments, brushHardness, brushOpacity,
-        drawingCanvasDataUrl: drawingCanvasRef.current?.toDataURL('image/png') ?? null,
-        imageUrl: internalImageUrl!,
-    }), [
-        luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, blur,
-        rotation, flipHorizontal, flipVertical, isInverted, colorAdjustments, brushHardness, brushOpacity, internalImageUrl
-    ]);
-
-    const pushHistory = useCallback((newState: EditorStateSnapshot) => {
+    const pushHistory = useCallback((newOperations: EditOperation[]) => {
         const newHistory = history.slice(0, historyIndex + 1);
-        const lastState = newHistory[newHistory.length - 1];
-        if (lastState && JSON.stringify(lastState) === JSON.stringify(newState)) return;
-        newHistory.push(newState);
+        const lastOperations = newHistory[newHistory.length - 1];
+        if (lastOperations && lastOperations.length === newOperations.length && lastOperations.every((op, i) => op === newOperations[i])) return;
+        newHistory.push(newOperations);
         setHistory(newHistory);
         setHistoryIndex(newHistory.length - 1);
     }, [history, historyIndex]);
 
-    const restoreState = useCallback((snapshot: EditorStateSnapshot) => {
-        setLuminance(snapshot.luminance); setContrast(snapshot.contrast); setTemp(snapshot.temp); setTint(snapshot.tint);
-        setSaturation(snapshot.saturation); setVibrance(snapshot.vibrance); setHue(snapshot.hue); setGrain(snapshot.grain);
-        setClarity(snapshot.clarity); setDehaze(snapshot.dehaze); setBlur(snapshot.blur); setRotation(snapshot.rotation);
-        setFlipHorizontal(snapshot.flipHorizontal); setFlipVertical(snapshot.flipVertical);
-        setIsInverted(snapshot.isInverted);
-        setBrushHardness(snapshot.brushHardness);
-        setBrushOpacity(snapshot.brushOpacity);
-        setColorAdjustments(snapshot.colorAdjustments);
-        
-        if (internalImageUrl !== snapshot.imageUrl) {
-            setInternalImageUrl(snapshot.imageUrl);
+    // Puts a step's values in the sliders, or neutral values when there's no step.
+    const loadStepValues = useCallback((type: EditableOperationType, op: EditOperation | null) => {
+        if (type === 'adjustments') {
+            const values = op?.type === 'adjustments' ? op.adjustments : INITIAL_ADJUSTMENTS;
+            setLuminance(values.luminance); setContrast(values.contrast); setTemp(values.temp); setTint(values.tint);
+            setSaturation(values.saturation); setVibrance(values.vibrance); setHue(values.hue); setGrain(values.grain);
+            setClarity(values.clarity); setDehaze(values.dehaze); setBlur(values.blur); setIsInverted(values.isInverted);
+        } else if (type === 'hsl') {
+            setColorAdjustments(op?.type === 'hsl' ? op.colorAdjustments : INITIAL_COLOR_ADJUSTMENTS);
+        } else if (type === 'tone') {
+            setToneAdjustments(op?.type === 'tone' ? op.tone : INITIAL_TONE_ADJUSTMENTS);
+        } else {
+            setRotation(op?.type === 'transform' ? op.rotation : 0);
+            setFlipHorizontal(op?.type === 'transform' ? op.flipHorizontal : false);
+            setFlipVertical(op?.type === 'transform' ? op.flipVertical : false);
         }
+    }, []);
 
-        const drawingCanvas = drawingCanvasRef.current;
-        if (drawingCanvas) {
-            const ctx = drawingCanvas.getContext('2d');
-            ctx?.clearRect(0, 0, drawingCanvas.width, drawingCanvas.height);
-            if (snapshot.drawingCanvasDataUrl) {
-                const img = new Image();
-                img.onload = () => ctx?.drawImage(img, 0, 0);
-                img.src = snapshot.drawingCanvasDataUrl;
-            }
-        }
-    }, [internalImageUrl, setLuminance, setContrast, setTemp, setTint, setSaturation, setVibrance, setHue, setGrain, setClarity, setDehaze, setBlur, setRotation, setFlipHorizontal, setFlipVertical, setIsInverted, setBrushHardness, setBrushOpacity, setColorAdjustments, setInternalImageUrl]);
+    /**
+     * Adds `newOperations` to the history. New slider steps in it get their ids and stay the
+     * ones being edited.
+     */
+    const pushOperations = useCallback((newOperations: EditOperation[]) => {
+        const newIds: Partial<Record<EditableOperationType, string>> = {};
+        const withIds = newOperations.map(op => {
+            if (!op.id.startsWith(NEW_STEP_ID_PREFIX)) return op;
+            const id = createOperationId();
+            newIds[op.type as EditableOperationType] = id;
+            return { ...op, id };
+        });
+        if (Object.keys(newIds).length > 0) setEditingStepIds(prev => ({ ...prev, ...newIds }));
+        if (newIds.adjustments) setGrainSeed(createGrainSeed());
+        pushHistory(withIds);
+    }, [pushHistory]);
+
+    // Stops editing steps of these types; the next slider change starts a new step.
+    const closeEditingSteps = useCallback((types: EditableOperationType[]) => {
+        setEditingStepIds(prev => {
+            const next = { ...prev };
+            types.forEach(type => delete next[type]);
+            return next;
+        });
+        types.forEach(type => loadStepValues(type, null));
+    }, [loadStepValues]);
 
-    const commitState = useCallback(() => {
-        if (!internalImageUrl) return;
-        const snapshot = captureState();
-        pushHistory(snapshot);
-    }, [captureState, pushHistory, internalImageUrl]);
+    /**
+     * Adds a step at the end. A transform step edited before it is closed, so rotating
+     * afterwards turns the image as it is now.
+     */
+    const appendOperation = useCallback((payload: EditOperationPayload, closing: EditableOperationType[] = ['transform']) => {
+        pushOperations([...liveOperations, { ...payload, id: createOperationId(), enabled: true } as EditOperation]);
+        closeEditingSteps(closing);
+    }, [liveOperations, pushOperations, closeEditingSteps]);
+
+    // Committing waits for the render after the request, so values set in the same handler are included.
+    const commitState = useCallback(() => setCommitRequest(n => n + 1), []);
+
+    useEffect(() => {
+        if (commitRequest > 0 && internalImageUrl) pushOperations(liveOperations);
+    }, [commitRequest]);
+
+    const restoreOperations = useCallback((restored: EditOperation[]) => {
+        EDITABLE_OPERATION_TYPES.forEach(type => {
+            const op = restored.find(o => o.id === editingStepIds[type]) ?? null;
+            loadStepValues(type, op);
+            if (!op) setEditingStepIds(prev => ({ ...prev, [type]: undefined }));
+        });
+    }, [editingStepIds, loadStepValues]);
 
     const resetAll = useCallback((keepImage = false) => {
         // Reset all adjustments and tool states
         setLuminance(0); setContrast(0); setTemp(0); setTint(0); setSaturation(0); setVibrance(0); setHue(0);
         setRotation(0); setFlipHorizontal(false); setFlipVertical(false); setIsInverted(false); setGrain(0); setClarity(0); setDehaze(0); setBlur(0);
         setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS); setActiveColorTab(Object.keys(INITIAL_COLOR_ADJUSTMENTS)[0] as keyof typeof INITIAL_COLOR_ADJUSTMENTS); setOpenSection('magic');
+        setToneAdjustments(INITIAL_TONE_ADJUSTMENTS); setActiveToneChannel('rgb'); setHistogram(null);
         setActiveTool(null); setBrushSize(20); setBrushHardness(50); setBrushOpacity(50); setBrushColor('#ffffff');
+        setBrushPreset('round'); setPressureSettings({ size: true, opacity: false }); setSymmetry(INITIAL_SYMMETRY); setActivePaintLayerId(null);
         setCropSelection(null); setCropAspectRatio('Free'); setCropAction(null);
         setPerspectiveCropPoints([]); setHoveredPerspectiveHandleIndex(null);
         deselect(); setInteractionState('none'); setFeatherAmount(0);
         setAiEditPrompt('');
-        
-        // Clear drawing canvas
-        if (drawingCanvasRef.current) {
-            const ctx = drawingCanvasRef.current.getContext('2d');
-            ctx?.clearRect(0, 0, drawingCanvasRef.current.width, drawingCanvasRef.current.height);
-        }
+        setCloneSource(null); setCloneOffset(null);
+        setEditingStepIds({});
 
         // Logic for handling image and history reset
         if (keepImage) {
             // This case is for the "Reset All" button in the UI.
-            // Restore the original image and reset history to its initial state.
-            if (originalImageRef.current?.src) {
-                const originalUrl = originalImageRef.current.src;
-                setInternalImageUrl(originalUrl);
-
-                const initialSnapshot: EditorStateSnapshot = {
-                    imageUrl: originalUrl,
-                    luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
-                    grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false,
-                    isInverted: false, brushHardness: 50, brushOpacity: 50, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS,
-                    drawingCanvasDataUrl: null,
-                };
-                setHistory([initialSnapshot]);
-                setHistoryIndex(0);
-            }
+            // The original image stays; only its edit steps go.
+            setHistory([[]]);
+            setHistoryIndex(0);
         } else {
             // This case is for when the modal is opened, to clear previous state.
             setInternalImageUrl(null);
             setHistory([]);
             setHistoryIndex(-1);
+            stepImagesRef.current.clear();
+            stageCacheRef.current = null;
         }
     }, [deselect]);
     
     const setupNewImage = useCallback((newUrl: string) => {
         resetAll(false);
         setInternalImageUrl(newUrl);
-
-        const image = new Image();
-        image.crossOrigin = "anonymous";
-        image.src = newUrl;
-        image.onload = () => {
-            originalImageRef.current = image;
-        };
-        
-        const initialSnapshot: EditorStateSnapshot = {
-            imageUrl: newUrl,
-            luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
-            grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false,
-            isInverted: false, brushHardness: 50, brushOpacity: 50,
-            colorAdjustments: INITIAL_COLOR_ADJUSTMENTS,
-            drawingCanvasDataUrl: null,
-        };
-        setHistory([initialSnapshot]);
+        setHistory([[]]);
         setHistoryIndex(0);
     }, [resetAll]);
 
@@ -277,169 +372,50 @@ export const useImageEditorState = (
     }, [setupNewImage]);
     
     // --- Canvas & Drawing Logic ---
-    const applyPixelAdjustments = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number, options: { ignoreSelection?: boolean } = {}) => {
-        const sourceImageData = ctx.getImageData(0, 0, width, height);
-        const originalData = new Uint8ClampedArray(sourceImageData.data);
-        const data = sourceImageData.data;
-    
-        // Create a selection mask if a selection is active
-        let selectionMask: Uint8ClampedArray | null = null;
-        if (!options.ignoreSelection && isSelectionActive && selectionPath) {
-            const maskCanvas = createFeatheredMask(selectionPath, width, height, featherAmount);
-            const maskCtx = maskCanvas.getContext('2d');
-            if (maskCtx) {
-                selectionMask = maskCtx.getImageData(0, 0, width, height).data;
-            }
-        }
-    
-        const contrastFactor = (100 + contrast) / 100;
-        const clarityFactor = clarity / 200;
-        const dehazeFactor = dehaze / 100;
-        const grainAmount = grain * 2.55;
-    
-        for (let i = 0; i < data.length; i += 4) {
-            const blendFactor = selectionMask ? (selectionMask[i + 3] / 255) : 1;
-            
-            if (blendFactor < 0.001 && !options.ignoreSelection) {
-                continue;
-            }
-    
-            let r = originalData[i], g = originalData[i + 1], b = originalData[i + 2];
-            
-            if (isInverted) { r = 255 - r; g = 255 - g; b = 255 - b; }
-            r = (r - 127.5) * contrastFactor + 127.5; g = (g - 127.5) * contrastFactor + 127.5; b = (b - 127.5) * contrastFactor + 127.5;
-            r += temp / 2.5; g += tint / 2.5; b -= temp / 2.5;
-            let [h, s, l] = rgbToHsl(r, g, b);
-            
-            const vibranceAmount = vibrance / 100;
-            if (vibranceAmount !== 0) {
-                 const max_rgb = Math.max(r, g, b); 
-                 const avg_rgb = (r + g + b) / 3;
-                 const sat_delta = max_rgb - avg_rgb;
-                 // Vibrance should have less effect on saturated colors.
-                 // We create a multiplier that is close to 1 for low saturation and close to 0 for high saturation.
-                 // sat_delta is a proxy for saturation, ranging roughly from 0 to 170.
-                 const vibrance_mult = 1 - (sat_delta / 200); // Normalize roughly to 0-1 range and invert
-                 s += (vibranceAmount * 100) * vibrance_mult;
-            }
-
-            h = (h + hue) % 360; l += luminance / 2; s += saturation;
-
-            if (clarity !== 0) l += (l - 50) * clarityFactor;
-            if (dehaze !== 0) { l = l - (50 - l) * dehazeFactor; s = s + s * (1 - s/100) * dehazeFactor * 0.5; }
-
-            // --- NEW: Smooth HSL color adjustments ---
-            let totalHueAdj = 0, totalSatAdj = 0, totalLumAdj = 0;
-            // The influence of a color channel extends 60 degrees on either side of its center.
-            const HUE_RANGE_WIDTH = 60; 
-
-            for (const channel of COLOR_CHANNELS) {
-                const center = channel.center;
-                // Calculate the shortest distance on the color wheel (0-360 degrees)
-                const dist = Math.min(Math.abs(h - center), 360 - Math.abs(h - center));
-                
-                // If the hue is within the influence range...
-                if (dist < HUE_RANGE_WIDTH) {
-                    // Calculate the influence factor (1 at center, 0 at edge)
-                    const influence = 1 - (dist / HUE_RANGE_WIDTH);
-                    const adj = colorAdjustments[channel.id];
-                    
-                    // Add the weighted adjustment to the totals
-                    totalHueAdj += adj.h * influence;
-                    totalSatAdj += adj.s * influence;
-                    totalLumAdj += adj.l * influence;
-                }
-            }
-            h += totalHueAdj;
-            s += totalSatAdj;
-            l += totalLumAdj;
-
-            if (h < 0) h += 360;
-            s = Math.max(0, Math.min(100, s)); l = Math.max(0, Math.min(100, l));
-            [r, g, b] = hslToRgb(h, s, l);
-            if (grain > 0) { const noise = (Math.random() - 0.5) * grainAmount; r += noise; g += noise; b += noise; }
-    
-            data[i] = originalData[i] * (1 - blendFactor) + r * blendFactor;
-            data[i+1] = originalData[i+1] * (1 - blendFactor) + g * blendFactor;
-            data[i+2] = originalData[i+2] * (1 - blendFactor) + b * blendFactor;
-        }
-        ctx.putImageData(sourceImageData, 0, 0);
-    }, [luminance, contrast, temp, tint, saturation, vibrance, hue, colorAdjustments, grain, clarity, dehaze, isInverted, isSelectionActive, selectionPath, featherAmount]);
-
     const drawAdjustedImage = useCallback(() => {
-        if (!previewCanvasRef.current) return;
         const canvas = previewCanvasRef.current;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        const image = isShowingOriginal ? originalImageRef.current : sourceImageRef.current;
+        const drawingCanvas = drawingCanvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        const drawingCtx = drawingCanvas?.getContext('2d');
+        const image = sourceImageRef.current;
+        if (!canvas || !drawingCanvas || !ctx || !drawingCtx || canvas.width === 0) return;
         
         if (!image || !image.complete || image.naturalWidth === 0) {
             return;
         }
 
         ctx.clearRect(0, 0, canvas.width, canvas.height);
+        drawingCtx.clearRect(0, 0, drawingCanvas.width, drawingCanvas.height);
 
-        // If showing original, just draw it and return. No transforms/adjustments.
+        // If showing original, just draw it and return. No steps.
         if (isShowingOriginal) {
             ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
             return;
         }
-    
-        // --- Draw transformed image without any filters ---
-        const isSwapped = rotation === 90 || rotation === 270;
-        const drawWidth = isSwapped ? canvas.height : canvas.width;
-        const drawHeight = isSwapped ? canvas.width : canvas.height;
-        ctx.save();
-        ctx.translate(canvas.width / 2, canvas.height / 2);
-        ctx.rotate(rotation * Math.PI / 180);
-        ctx.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
-        ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
-        ctx.restore();
-    
-        // --- Apply selective HSL/etc adjustments ---
-        applyPixelAdjustments(ctx, canvas.width, canvas.height);
-    
-        // --- Apply selective (or global) blur ---
-        if (blur > 0) {
-            const unblurredCanvas = document.createElement('canvas');
-            unblurredCanvas.width = canvas.width;
-            unblurredCanvas.height = canvas.height;
-            const unblurredCtx = unblurredCanvas.getContext('2d');
-            if (!unblurredCtx) return;
-            unblurredCtx.drawImage(canvas, 0, 0); // Capture the state after adjustments
-    
-            const blurredCanvas = document.createElement('canvas');
-            blurredCanvas.width = canvas.width;
-            blurredCanvas.height = canvas.height;
-            const blurredCtx = blurredCanvas.getContext('2d');
-            if (!blurredCtx) return;
-    
-            blurredCtx.filter = `blur(${blur}px)`;
-            blurredCtx.drawImage(unblurredCanvas, 0, 0);
-    
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
-            
-            if (isSelectionActive && selectionPath) {
-                // If there's a selection, composite blurred and unblurred versions using a feathered mask.
-                const maskCanvas = createFeatheredMask(selectionPath, canvas.width, canvas.height, featherAmount);
-
-                // Start with the unblurred image on the main canvas
-                ctx.drawImage(unblurredCanvas, 0, 0);
-
-                // Now, "cut out" the blurred image using the feathered mask
-                blurredCtx.globalCompositeOperation = 'destination-in';
-                blurredCtx.drawImage(maskCanvas, 0, 0);
-
-                // Finally, draw the masked blurred image on top of the unblurred one.
-                ctx.drawImage(blurredCanvas, 0, 0);
 
-            } else {
-                // No selection, just draw the fully blurred image.
-                ctx.drawImage(blurredCanvas, 0, 0);
-            }
+        // The preview renders at the canvas size: the full-size result scaled down.
+        const outputSize = getEditOutputSize(liveOperations, image.naturalWidth, image.naturalHeight);
+        const scale = canvas.width / outputSize.width;
+
+        // Steps before the first one being edited don't change while a slider moves, so they
+        // are rendered once and the rest continues from there.
+        let prefixLength = liveOperations.findIndex(op => activeStepIds.includes(op.id));
+        if (prefixLength === -1) prefixLength = liveOperations.length;
+        const prefix = liveOperations.slice(0, prefixLength);
+        const cache = stageCacheRef.current;
+        let stage: EditStage;
+        if (cache && cache.source === image && cache.scale === scale && cache.operations.length === prefix.length && cache.operations.every((op, i) => op === prefix[i])) {
+            stage = cache.stage;
+        } else {
+            stage = renderEditOperations(createEditStage(image, scale), prefix, stepImagesRef.current);
+            stageCacheRef.current = { source: image, scale, operations: prefix, stage };
         }
-    }, [rotation, flipHorizontal, flipVertical, applyPixelAdjustments, blur, isSelectionActive, selectionPath, isShowingOriginal, featherAmount]);
+        stage = renderEditOperations(stage, liveOperations.slice(prefixLength), stepImagesRef.current);
+
+        // Paint layers blend with the image, so the preview shows them flattened onto it.
+        ctx.drawImage(flattenEditStage(stage), 0, 0, canvas.width, canvas.height);
+        setHistogram(computeImageHistogram(stage.image));
+    }, [liveOperations, activeStepIds, isShowingOriginal]);
 
     useEffect(() => {
         if(drawAdjustedImageRef) {
@@ -480,33 +456,14 @@ export const useImageEditorState = (
         return { x: canvasX, y: canvasY };
     }, [scale, panX, panY, canvasDimensions.width, canvasDimensions.height, canvasViewRef]);
     
-    const drawBrushPoint = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number) => {
-        const radius = brushSize / 2;
-        if (radius <= 0) return;
-
-        const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
-        
+    const drawBrushPoint = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, pressure: number | undefined, seed: number) => {
         // For eraser, the color doesn't matter for the gradient, only the alpha channel.
-        // For brush, we use the selected color.
-        const color = (activeTool === 'brush') ? brushColor : '#000000';
-        
-        // We need RGBA strings to manipulate alpha for the gradient stops.
-        const colorOpaque = hexToRgba(color, 100);
-        const colorTransparent = hexToRgba(color, 0);
-        
-        // A linear hardness value (0-1) provides predictable control over the feather size.
-        const hardness = brushHardness / 100;
-        
-        gradient.addColorStop(0, colorOpaque);
-        gradient.addColorStop(hardness, colorOpaque);
-        gradient.addColorStop(1, colorTransparent);
-        
-        ctx.fillStyle = gradient;
-        // Use arc to draw a circular brush shape instead of a square.
-        ctx.beginPath();
-        ctx.arc(x, y, radius, 0, Math.PI * 2);
-        ctx.fill();
-    }, [brushSize, brushHardness, brushColor, activeTool]);
+        // For brush, we use the selected color. Clone, heal and retouch strokes are previewed as a light wash.
+        const isWash = activeTool === 'clone' || activeTool === 'heal' || (activeTool === 'brush' && retouchMode);
+        const color = isWash ? '#ffffff' : activeTool === 'brush' ? brushColor : '#000000';
+        const { radius, alpha } = getPressureDab(brushSize, pressure, pressureSettings);
+        drawEngineDab(ctx, activeTool === 'brush' ? brushEngine : 'round', x, y, radius, brushHardness / 100, color, alpha, seed);
+    }, [brushSize, brushHardness, brushColor, activeTool, retouchMode, brushEngine, pressureSettings]);
 
     const handleActionStart = (e: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>) => {
         e.preventDefault();
@@ -551,9 +508,24 @@ export const useImageEditorState = (
             return;
         }
 
-        if (activeTool === 'brush' || activeTool === 'eraser') {
+        if (activeTool === 'clone') {
+            if (nativeEvent.altKey) {
+                setCloneSource(coords);
+                setCloneOffset(null);
+                return;
+            }
+            if (!cloneSource) {
+                toast.error(t('imageEditor_clone_noSource'));
+                return;
+            }
+            // The source follows the brush at the distance set by the first stroke after picking it.
+            if (!cloneOffset) setCloneOffset({ x: cloneSource.x - coords.x, y: cloneSource.y - coords.y });
+        }
+
+        if (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'clone' || activeTool === 'heal') {
             setIsDrawing(true);
             lastPointRef.current = coords;
+            strokePointsRef.current = [{ ...coords, pressure: getPenPressure(e) }];
             if (!tempDrawingCanvasRef.current) tempDrawingCanvasRef.current = document.createElement('canvas');
             const tempCanvas = tempDrawingCanvasRef.current;
             const mainCanvas = overlayCanvasRef.current;
@@ -668,25 +640,21 @@ export const useImageEditorState = (
         setCursorPosition(coords); 
         if (!coords) return;
         
-        if (isDrawing && (activeTool === 'brush' || activeTool === 'eraser')) {
+        if (isDrawing && (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'clone' || activeTool === 'heal')) {
             const tempCtx = tempDrawingCanvasRef.current?.getContext('2d');
-            if (!tempCtx || !lastPointRef.current) return;
-            
-            const dist = Math.hypot(coords.x - lastPointRef.current.x, coords.y - lastPointRef.current.y);
-            const angle = Math.atan2(coords.y - lastPointRef.current.y, coords.x - lastPointRef.current.x);
-
-            const step = Math.max(1, brushSize / 8);
-
-            // Interpolate points for a continuous line
-            for (let i = 0; i < dist; i += step) {
-                const x = lastPointRef.current.x + Math.cos(angle) * i;
-                const y = lastPointRef.current.y + Math.sin(angle) * i;
-                drawBrushPoint(tempCtx, x + OVERLAY_PADDING, y + OVERLAY_PADDING);
-            }
-            // Draw the final point to ensure the line reaches the cursor
-            drawBrushPoint(tempCtx, coords.x + OVERLAY_PADDING, coords.y + OVERLAY_PADDING);
+            const from = strokePointsRef.current[strokePointsRef.current.length - 1];
+            if (!tempCtx || !lastPointRef.current || !from) return;
+            const point: StrokePoint = { ...coords, pressure: getPenPressure(e) };
+
+            // Interpolate points for a continuous line, with the copies symmetry adds
+            const isBrush = activeTool === 'brush' || activeTool === 'eraser';
+            forEachStrokeDab([from, point], brushSize, activeTool === 'brush' ? brushEngine : 'round', (x, y, pressure, index) => {
+                const copies = isBrush ? getSymmetricPoints({ x, y }, symmetry, canvasDimensions.width, canvasDimensions.height) : [{ x, y }];
+                copies.forEach((copy, i) => drawBrushPoint(tempCtx, copy.x + OVERLAY_PADDING, copy.y + OVERLAY_PADDING, pressure, strokePointsRef.current.length * 31 + index + i));
+            });
             
             lastPointRef.current = coords;
+            strokePointsRef.current.push(point);
         } else if (activeTool === 'crop' && interactionStartRef.current) {
             const startInfo = interactionStartRef.current;
             const canvas = drawingCanvasRef.current; if (!canvas) return;
@@ -775,17 +743,38 @@ export const useImageEditorState = (
         setIsShowingOriginal(false);
         if (isDrawing) {
             setIsDrawing(false); lastPointRef.current = null;
-            if ((activeTool === 'brush' || activeTool === 'eraser') && tempDrawingCanvasRef.current) {
-                const mainCtx = drawingCanvasRef.current?.getContext('2d');
-                if (mainCtx) {
-                    mainCtx.save();
-                    if (isSelectionActive) mainCtx.clip(selectionPath!, 'nonzero');
-                    mainCtx.globalAlpha = brushOpacity / 100;
-                    mainCtx.globalCompositeOperation = activeTool === 'brush' ? 'source-over' : 'destination-out';
-                    mainCtx.drawImage(tempDrawingCanvasRef.current, -OVERLAY_PADDING, -OVERLAY_PADDING);
-                    mainCtx.restore();
-                }
-                commitState();
+            const points = strokePointsRef.current;
+            strokePointsRef.current = [];
+            const { width, height } = canvasDimensions;
+            const normalizedPoints = points.map(p => ({ ...p, x: p.x / width, y: p.y / height }));
+            // Strokes are clipped to the selection's hard edge.
+            const clip = isSelectionActive && width > 0 ? createEditMask(selectionStrokes, isSelectionInverted, 0, width, height) : null;
+            // Only what the stroke used is kept with it.
+            const dynamics = {
+                pressure: points.some(p => p.pressure !== undefined) ? pressureSettings : undefined,
+                symmetry: symmetry.mode !== 'none' ? symmetry : undefined,
+            };
+            if (activeTool === 'brush' && retouchMode && points.length > 1 && width > 0) {
+                appendOperation({
+                    type: 'retouch', mode: retouchMode, size: brushSize / width, hardness: brushHardness,
+                    strength: brushOpacity, points: normalizedPoints, clip, ...dynamics,
+                });
+            } else if ((activeTool === 'brush' || activeTool === 'eraser') && points.length > 1 && width > 0) {
+                appendOperation({
+                    type: 'stroke', tool: activeTool, color: brushColor, size: brushSize / width,
+                    hardness: brushHardness, opacity: brushOpacity, points: normalizedPoints, clip,
+                    engine: activeTool === 'brush' ? brushEngine : undefined, layer: activeLayerId ?? undefined, ...dynamics,
+                });
+            }
+            // Clone and heal also take a single click.
+            if (activeTool === 'clone' && cloneOffset && points.length > 0 && width > 0) {
+                appendOperation({
+                    type: 'clone', offset: { x: cloneOffset.x / width, y: cloneOffset.y / height },
+                    size: brushSize / width, hardness: brushHardness, opacity: brushOpacity, points: normalizedPoints, clip,
+                });
+            }
+            if (activeTool === 'heal' && points.length > 0 && width > 0) {
+                appendOperation({ type: 'heal', size: brushSize / width, hardness: brushHardness, points: normalizedPoints, clip });
             }
         }
         if (cropAction) { setCropAction(null); interactionStartRef.current = null; }
@@ -844,59 +833,68 @@ export const useImageEditorState = (
     };
     
     // --- Lifecycle & Side Effects ---
-    const handleUndo = useCallback(() => { if (historyIndex > 0) { const newIndex = historyIndex - 1; setHistoryIndex(newIndex); restoreState(history[newIndex]); } }, [history, historyIndex, restoreState]);
-    const handleRedo = useCallback(() => { if (historyIndex < history.length - 1) { const newIndex = historyIndex + 1; setHistoryIndex(newIndex); restoreState(history[newIndex]); } }, [history, historyIndex, restoreState]);
+    const handleUndo = useCallback(() => { if (historyIndex > 0) { const newIndex = historyIndex - 1; setHistoryIndex(newIndex); restoreOperations(history[newIndex]); } }, [history, historyIndex, restoreOperations]);
+    const handleRedo = useCallback(() => { if (historyIndex < history.length - 1) { const newIndex = historyIndex + 1; setHistoryIndex(newIndex); restoreOperations(history[newIndex]); } }, [history, historyIndex, restoreOperations]);
     
     useEffect(() => {
         if (isOpen) {
             const url = imageToEdit?.url ?? null; resetAll(false); setInternalImageUrl(url);
             if (url) {
-                const image = new Image(); image.crossOrigin = "anonymous"; image.src = url;
-                image.onload = () => {
-                    originalImageRef.current = image;
-                    const initialSnapshot: EditorStateSnapshot = { luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0, grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false, brushHardness: 50, brushOpacity: 50, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null, imageUrl: url };
-                    setHistory([initialSnapshot]);
-                    setHistoryIndex(0);
-                };
+                setHistory([[]]);
+                setHistoryIndex(0);
             }
-        } else {
-            originalImageRef.current = null;
         }
     }, [isOpen, imageToEdit?.url, resetAll]);
+
+    useEffect(() => {
+        sourceImageRef.current = null;
+        setSourceSize(null);
+        if (!internalImageUrl) return;
+        let isCurrent = true;
+        const image = new Image();
+        image.crossOrigin = "anonymous";
+        image.onload = () => {
+            if (!isCurrent) return;
+            sourceImageRef.current = image;
+            setSourceSize({ width: image.naturalWidth, height: image.naturalHeight });
+        };
+        // The image to edit may be an image store reference.
+        resolveImageUrl(internalImageUrl)
+            .then(src => { image.src = src; })
+            .catch(error => console.error("Could not load the image to edit:", error));
+        return () => { isCurrent = false; };
+    }, [internalImageUrl]);
+
+    // The canvases take the shape of the result, which crops and rotations change.
+    const outputSize = useMemo(() => sourceSize && getEditOutputSize(liveOperations, sourceSize.width, sourceSize.height), [liveOperations, sourceSize]);
+    const outputAspectRatio = outputSize ? outputSize.width / outputSize.height : null;
     
     const setupCanvas = useCallback(() => {
-        if (!internalImageUrl || !previewCanvasRef.current || !drawingCanvasRef.current || !overlayCanvasRef.current) return;
+        if (!outputAspectRatio || !previewCanvasRef.current || !drawingCanvasRef.current || !overlayCanvasRef.current) return;
         const canvas = previewCanvasRef.current;
         const drawingCanvas = drawingCanvasRef.current;
         const overlayCanvas = overlayCanvasRef.current;
         const container = canvasViewRef.current;
         if (!container) return;
-        const image = new Image();
-        image.crossOrigin = "anonymous";
-        image.src = internalImageUrl;
-        image.onload = () => {
-            sourceImageRef.current = image;
-            const containerRect = container.getBoundingClientRect();
-            if (containerRect.width <= 0 || containerRect.height <= 0) return;
-            const imageAspectRatio = image.naturalWidth / image.naturalHeight;
-            const containerAspectRatio = containerRect.width / containerRect.height;
-            let canvasWidth, canvasHeight;
-            if (imageAspectRatio > containerAspectRatio) {
-                canvasWidth = containerRect.width;
-                canvasHeight = containerRect.width / imageAspectRatio;
-            } else {
-                canvasHeight = containerRect.height;
-                canvasWidth = containerRect.height * imageAspectRatio;
-            }
-            canvas.width = canvasWidth;
-            canvas.height = canvasHeight;
-            drawingCanvas.width = canvasWidth;
-            drawingCanvas.height = canvasHeight;
-            overlayCanvas.width = canvasWidth + OVERLAY_PADDING * 2;
-            overlayCanvas.height = canvasHeight + OVERLAY_PADDING * 2;
-            setCanvasDimensions({ width: canvasWidth, height: canvasHeight });
-        };
-    }, [internalImageUrl, canvasViewRef]);
+        const containerRect = container.getBoundingClientRect();
+        if (containerRect.width <= 0 || containerRect.height <= 0) return;
+        const containerAspectRatio = containerRect.width / containerRect.height;
+        let canvasWidth, canvasHeight;
+        if (outputAspectRatio > containerAspectRatio) {
+            canvasWidth = containerRect.width;
+            canvasHeight = containerRect.width / outputAspectRatio;
+        } else {
+            canvasHeight = containerRect.height;
+            canvasWidth = containerRect.height * outputAspectRatio;
+        }
+        canvas.width = canvasWidth;
+        canvas.height = canvasHeight;
+        drawingCanvas.width = canvasWidth;
+        drawingCanvas.height = canvasHeight;
+        overlayCanvas.width = canvasWidth + OVERLAY_PADDING * 2;
+        overlayCanvas.height = canvasHeight + OVERLAY_PADDING * 2;
+        setCanvasDimensions({ width: canvas.width, height: canvas.height });
+    }, [outputAspectRatio, canvasViewRef]);
 
     useEffect(() => {
         if (isOpen && internalImageUrl) {
@@ -917,71 +915,37 @@ export const useImageEditorState = (
 
     const getFinalImage = useCallback((): Promise<string | null> => {
         return new Promise((resolve, reject) => {
-            if (!sourceImageRef.current || !drawingCanvasRef.current) {
+            if (!sourceImageRef.current) {
                 resolve(null);
                 return;
             }
             
             setTimeout(() => {
                 try {
-                    const image = sourceImageRef.current!;
-                    const drawingCanvas = drawingCanvasRef.current!;
-
-                    const isSwapped = rotation === 90 || rotation === 270;
-                    const finalCanvas = document.createElement('canvas');
-                    finalCanvas.width = isSwapped ? image.naturalHeight : image.naturalWidth;
-                    finalCanvas.height = isSwapped ? image.naturalWidth : image.naturalHeight;
-                    const finalCtx = finalCanvas.getContext('2d');
-                    if (!finalCtx) throw new Error("Could not get final canvas context");
-
-                    // 1. Draw transformed source image
-                    const drawWidth = isSwapped ? finalCanvas.height : finalCanvas.width;
-                    const drawHeight = isSwapped ? finalCanvas.width : finalCanvas.height;
-                    finalCtx.save();
-                    finalCtx.translate(finalCanvas.width / 2, finalCanvas.height / 2);
-                    finalCtx.rotate(rotation * Math.PI / 180);
-                    finalCtx.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
-                    finalCtx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
-                    finalCtx.restore();
-
-                    // 2. Apply pixel adjustments (filters) to the full-res canvas
-                    // We pass ignoreSelection: true because saving applies to the whole image.
-                    applyPixelAdjustments(finalCtx, finalCanvas.width, finalCanvas.height, { ignoreSelection: true });
-
-                    // 3. Apply blur effect
-                    if (blur > 0) {
-                        const tempCanvas = document.createElement('canvas');
-                        tempCanvas.width = finalCanvas.width;
-                        tempCanvas.height = finalCanvas.height;
-                        const tempCtx = tempCanvas.getContext('2d');
-                        if (!tempCtx) throw new Error("Could not get temp canvas context for blur");
-                        tempCtx.drawImage(finalCanvas, 0, 0);
-                        finalCtx.clearRect(0, 0, finalCanvas.width, finalCanvas.height);
-                        finalCtx.filter = `blur(${blur}px)`;
-                        finalCtx.drawImage(tempCanvas, 0, 0);
-                        finalCtx.filter = 'none';
-                    }
-
-                    // 4. Draw brush strokes, scaled up
-                    const drawScaleX = finalCanvas.width / drawingCanvas.width;
-                    const drawScaleY = finalCanvas.height / drawingCanvas.height;
-                    finalCtx.save();
-                    finalCtx.scale(drawScaleX, drawScaleY);
-                    finalCtx.drawImage(drawingCanvas, 0, 0);
-                    finalCtx.restore();
-
-                    // 5. Resolve with high-quality PNG
-                    resolve(finalCanvas.toDataURL('image/png'));
+                    // Replay every enabled step on the full-size original.
+                    const stage = renderEditOperations(createEditStage(sourceImageRef.current!, 1), liveOperations, stepImagesRef.current);
+                    resolve(flattenEditStage(stage).toDataURL('image/png'));
                 } catch (error) {
                     console.error("Error creating final image:", error);
                     reject(error);
                 }
             }, 50);
         });
-    }, [
-        rotation, flipHorizontal, flipVertical, applyPixelAdjustments, blur,
-        luminance, contrast, temp, tint, saturation, vibrance, hue, colorAdjustments, grain, clarity, dehaze, isInverted
-    ]);
+    }, [liveOperations]);
+
+    // Loads the picture of an image step so the steps can render it.
+    const loadStepImage = useCallback((url: string): Promise<HTMLImageElement> => {
+        return new Promise((resolve, reject) => {
+            const image = new Image();
+            image.crossOrigin = "anonymous";
+            image.onload = () => {
+                stepImagesRef.current.set(url, image);
+                resolve(image);
+            };
+            image.onerror = () => reject(new Error("Không tải được ảnh kết quả."));
+            image.src = url;
+        });
+    }, []);
     
     // --- More Logic (Shortcuts, Actions) ---
     const handleCancelPerspectiveCrop = useCallback(() => {
@@ -992,223 +956,48 @@ export const useImageEditorState = (
     }, []);
 
     const handleApplyPerspectiveCrop = useCallback(() => {
-        if (perspectiveCropPoints.length !== 4 || !sourceImageRef.current || !previewCanvasRef.current) return;
-        commitState();
-    
-        const image = sourceImageRef.current;
-        const previewCanvas = previewCanvasRef.current;
-        const scaleX = image.naturalWidth / previewCanvas.width;
-        const scaleY = image.naturalHeight / previewCanvas.height;
-    
-        const srcPoints = perspectiveCropPoints.map(p => ({ x: p.x * scaleX, y: p.y * scaleY }));
-        
-        const [tl, tr, br, bl] = srcPoints;
-    
-        const widthA = Math.hypot(br.x - bl.x, br.y - bl.y);
-        const widthB = Math.hypot(tr.x - tl.x, tr.y - tl.y);
-        const destWidth = Math.max(widthA, widthB);
-    
-        const heightA = Math.hypot(tr.x - br.x, tr.y - br.y);
-        const heightB = Math.hypot(tl.x - bl.x, tl.y - bl.y);
-        const destHeight = Math.max(heightA, heightB);
-    
-        const destPoints: [Point, Point, Point, Point] = [
-            { x: 0, y: 0 },
-            { x: destWidth, y: 0 },
-            { x: destWidth, y: destHeight },
-            { x: 0, y: destHeight }
-        ];
-    
-        const transform = getPerspectiveTransform(srcPoints, destPoints);
+        if (perspectiveCropPoints.length !== 4 || !previewCanvasRef.current) return;
+        const { width, height } = previewCanvasRef.current;
+
+        const [tl, tr, br, bl] = perspectiveCropPoints;
+        const destWidth = Math.max(Math.hypot(br.x - bl.x, br.y - bl.y), Math.hypot(tr.x - tl.x, tr.y - tl.y));
+        const destHeight = Math.max(Math.hypot(tr.x - br.x, tr.y - br.y), Math.hypot(tl.x - bl.x, tl.y - bl.y));
+        const transform = getPerspectiveTransform(perspectiveCropPoints, [
+            { x: 0, y: 0 }, { x: destWidth, y: 0 }, { x: destWidth, y: destHeight }, { x: 0, y: destHeight },
+        ]);
         if (!transform) {
             alert("Could not apply perspective crop. The points might not form a valid quadrilateral.");
             return;
         }
-    
-        const cropCanvas = document.createElement('canvas');
-        cropCanvas.width = Math.round(destWidth);
-        cropCanvas.height = Math.round(destHeight);
-        
-        warpPerspective(image, cropCanvas, transform);
-    
-        const newDataUrl = cropCanvas.toDataURL('image/png');
-        
-        const postCropState: EditorStateSnapshot = {
-            imageUrl: newDataUrl,
-            luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
-            grain: 0, clarity: 0, dehaze: 0, blur: 0,
-            rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false,
-            brushHardness: brushHardness, brushOpacity: brushOpacity,
-            colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null,
-        };
-    
-        pushHistory(postCropState);
-        restoreState(postCropState);
+
+        appendOperation({ type: 'perspective-crop', points: perspectiveCropPoints.map(p => ({ x: p.x / width, y: p.y / height })) });
         handleCancelPerspectiveCrop();
-    
-    }, [perspectiveCropPoints, commitState, handleCancelPerspectiveCrop, pushHistory, restoreState, brushHardness, brushOpacity]);
+    }, [perspectiveCropPoints, appendOperation, handleCancelPerspectiveCrop]);
 
+    /**
+     * Finishes the current adjustment, colour and transform steps, along with a pending crop.
+     * The sliders go back to neutral and start new steps from here.
+     */
     const handleApplyAllAdjustments = useCallback(() => {
-        if (!internalImageUrl || !sourceImageRef.current || !previewCanvasRef.current || !drawingCanvasRef.current) return;
-        setIsProcessing(true);
-        setTimeout(() => {
-            try {
-                const image = sourceImageRef.current!;
-                const previewCanvas = previewCanvasRef.current!;
-                const drawingCanvas = drawingCanvasRef.current!;
-                let sourceForFinal: HTMLCanvasElement | HTMLImageElement = image;
-                let finalWidth = image.naturalWidth;
-                let finalHeight = image.naturalHeight;
-                if (cropSelection && cropSelection.width > 1 && cropSelection.height > 1) {
-                    const scaleX = image.naturalWidth / previewCanvas.width;
-                    const scaleY = image.naturalHeight / previewCanvas.height;
-                    const sx = cropSelection.x * scaleX; const sy = cropSelection.y * scaleY;
-                    const sWidth = cropSelection.width * scaleX; const sHeight = cropSelection.height * scaleY;
-                    const cropCanvas = document.createElement('canvas');
-                    cropCanvas.width = sWidth; cropCanvas.height = sHeight;
-                    const cropCtx = cropCanvas.getContext('2d');
-                    if (!cropCtx) throw new Error("Could not get crop canvas context");
-                    cropCtx.drawImage(image, sx, sy, sWidth, sHeight, 0, 0, sWidth, sHeight);
-                    sourceForFinal = cropCanvas;
-                    finalWidth = sWidth;
-                    finalHeight = sHeight;
-                }
-                const isSwapped = rotation === 90 || rotation === 270;
-                const finalCanvas = document.createElement('canvas');
-                finalCanvas.width = isSwapped ? finalHeight : finalWidth;
-                finalCanvas.height = isSwapped ? finalWidth : finalHeight;
-                const finalCtx = finalCanvas.getContext('2d');
-                if (!finalCtx) throw new Error("Could not get final canvas context");
-                finalCtx.save();
-                finalCtx.translate(finalCanvas.width / 2, finalCanvas.height / 2);
-                finalCtx.rotate(rotation * Math.PI / 180);
-                finalCtx.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
-                finalCtx.drawImage(sourceForFinal, -finalWidth / 2, -finalHeight / 2, finalWidth, finalHeight);
-                finalCtx.restore();
-                applyPixelAdjustments(finalCtx, finalCanvas.width, finalCanvas.height, { ignoreSelection: true });
-                if (blur > 0) {
-                    const tempCanvas = document.createElement('canvas');
-                    tempCanvas.width = finalCanvas.width;
-                    tempCanvas.height = finalCanvas.height;
-                    const tempCtx = tempCanvas.getContext('2d');
-                    if(!tempCtx) throw new Error("Could not get temp canvas context for blur");
-                    tempCtx.drawImage(finalCanvas, 0, 0);
-                    finalCtx.clearRect(0,0,finalCanvas.width, finalCanvas.height);
-                    finalCtx.filter = `blur(${blur}px)`;
-                    finalCtx.drawImage(tempCanvas, 0, 0);
-                    finalCtx.filter = 'none';
-                }
-                const drawScaleX = finalCanvas.width / drawingCanvas.width;
-                const drawScaleY = finalCanvas.height / drawingCanvas.height;
-                finalCtx.save();
-                finalCtx.scale(drawScaleX, drawScaleY);
-                finalCtx.drawImage(drawingCanvas, 0, 0);
-                finalCtx.restore();
-                const newDataUrl = finalCanvas.toDataURL('image/png');
-                const resetAndApply = () => {
-                    setLuminance(0); setContrast(0); setTemp(0); setTint(0); setSaturation(0); setVibrance(0); setHue(0);
-                    setGrain(0); setClarity(0); setDehaze(0); setBlur(0); setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS);
-                    setRotation(0); setFlipHorizontal(false); setFlipVertical(false); setIsInverted(false);
-                    setCropSelection(null); setActiveTool(null); deselect();
-                    if (drawingCanvasRef.current) {
-                        drawingCanvasRef.current.getContext('2d')?.clearRect(0, 0, drawingCanvasRef.current.width, drawingCanvasRef.current.height);
-                    }
-                    setInternalImageUrl(newDataUrl);
-                    const appliedState: EditorStateSnapshot = {
-                        imageUrl: newDataUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
-                        grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false,
-                        brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null,
-                    };
-                    pushHistory(appliedState);
-                };
-    
-                const newImage = new Image();
-                newImage.onload = () => requestAnimationFrame(resetAndApply);
-                newImage.src = newDataUrl;
-            } catch (error) {
-                console.error("Error applying adjustments:", error);
-                alert("An error occurred while applying adjustments.");
-            } finally {
-                setIsProcessing(false);
-            }
-        }, 50);
-    }, [ internalImageUrl, sourceImageRef, previewCanvasRef, drawingCanvasRef, cropSelection, rotation, flipHorizontal, flipVertical, blur, applyPixelAdjustments, pushHistory, deselect, brushHardness, brushOpacity ]);
+        if (!internalImageUrl) return;
+        const { width, height } = canvasDimensions;
+        if (cropSelection && cropSelection.width > 1 && cropSelection.height > 1 && width > 0) {
+            const rect = { x: cropSelection.x / width, y: cropSelection.y / height, width: cropSelection.width / width, height: cropSelection.height / height };
+            pushOperations([...liveOperations, { type: 'crop', rect, id: createOperationId(), enabled: true }]);
+        } else {
+            pushOperations(liveOperations);
+        }
+        closeEditingSteps(EDITABLE_OPERATION_TYPES);
+        setCropSelection(null); setActiveTool(null); deselect();
+    }, [internalImageUrl, canvasDimensions, cropSelection, liveOperations, pushOperations, closeEditingSteps, deselect]);
 
+    // Limits the adjustment, colour and tone steps being edited to the selection and finishes them.
     const handleApplyAdjustmentsToSelection = useCallback(() => {
-        if (!isSelectionActive || !selectionPath || !previewCanvasRef.current || !drawingCanvasRef.current || !sourceImageRef.current) return;
-        setIsProcessing(true);
-        setTimeout(() => {
-            try {
-                const previewCanvas = previewCanvasRef.current!;
-                const drawingCanvas = drawingCanvasRef.current!;
-                const sourceImage = sourceImageRef.current!;
-                const bakeCanvas = document.createElement('canvas');
-                bakeCanvas.width = previewCanvas.width;
-                bakeCanvas.height = previewCanvas.height;
-                const bakeCtx = bakeCanvas.getContext('2d');
-                if (!bakeCtx) throw new Error("Could not create bake canvas context");
-
-                // 1. Draw the "before" state (current image + drawings).
-                bakeCtx.save();
-                bakeCtx.translate(bakeCanvas.width / 2, bakeCanvas.height / 2);
-                bakeCtx.rotate(rotation * Math.PI / 180);
-                bakeCtx.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
-                const isSwapped = rotation === 90 || rotation === 270;
-                const drawWidth = isSwapped ? bakeCanvas.height : bakeCanvas.width;
-                const drawHeight = isSwapped ? bakeCanvas.width : bakeCanvas.height;
-                bakeCtx.drawImage(sourceImage, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
-                bakeCtx.restore();
-                bakeCtx.drawImage(drawingCanvas, 0, 0);
-
-                // 2. Create the feathered mask.
-                const maskCanvas = createFeatheredMask(selectionPath, bakeCanvas.width, bakeCanvas.height, featherAmount);
-
-                // 3. Create a temporary canvas for the "after" state (the adjusted image).
-                const adjustedLayerCanvas = document.createElement('canvas');
-                adjustedLayerCanvas.width = bakeCanvas.width;
-                adjustedLayerCanvas.height = bakeCanvas.height;
-                const adjustedLayerCtx = adjustedLayerCanvas.getContext('2d');
-                if (!adjustedLayerCtx) throw new Error("Could not create adjusted layer context");
-
-                // 4. Draw the adjusted image (from the live preview) AND drawings onto this temporary layer.
-                adjustedLayerCtx.drawImage(previewCanvas, 0, 0);
-                adjustedLayerCtx.drawImage(drawingCanvas, 0, 0);
-
-                // 5. Use the mask to "cut out" the adjusted parts.
-                adjustedLayerCtx.globalCompositeOperation = 'destination-in';
-                adjustedLayerCtx.drawImage(maskCanvas, 0, 0);
-
-                // 6. Draw the masked adjusted layer on top of the "before" state.
-                bakeCtx.drawImage(adjustedLayerCanvas, 0, 0);
-                
-                const newDataUrl = bakeCanvas.toDataURL('image/png');
-    
-                const resetAndBake = () => {
-                    setLuminance(0); setContrast(0); setTemp(0); setTint(0); setSaturation(0); setVibrance(0); setHue(0);
-                    setGrain(0); setClarity(0); setDehaze(0); setBlur(0); setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS);
-                    setRotation(0); setFlipHorizontal(false); setFlipVertical(false); setIsInverted(false);
-                    if (drawingCanvasRef.current) {
-                        drawingCanvasRef.current.getContext('2d')?.clearRect(0, 0, drawingCanvasRef.current.width, drawingCanvasRef.current.height);
-                    }
-                    setInternalImageUrl(newDataUrl);
-                    const bakedState: EditorStateSnapshot = {
-                        imageUrl: newDataUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
-                        grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false,
-                        brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null,
-                    };
-                    pushHistory(bakedState);
-                };
-    
-                const newImage = new Image();
-                newImage.onload = () => requestAnimationFrame(resetAndBake);
-                newImage.src = newDataUrl;
-            } catch (error) {
-                console.error("Error applying adjustments to selection:", error);
-            } finally {
-                setIsProcessing(false);
-            }
-        }, 50);
-    }, [isSelectionActive, selectionPath, previewCanvasRef, drawingCanvasRef, sourceImageRef, rotation, flipHorizontal, flipVertical, pushHistory, brushHardness, brushOpacity, featherAmount]);
+        if (!selectionMask) return;
+        const isEditing = (op: EditOperation, type: EditableOperationType) => op.type === type && (op.id === editingStepIds[type] || op.id === NEW_STEP_ID_PREFIX + type);
+        pushOperations(liveOperations.map(op => (isEditing(op, 'adjustments') || isEditing(op, 'hsl') || isEditing(op, 'tone')) ? { ...op, mask: selectionMask } : op));
+        closeEditingSteps(['adjustments', 'hsl', 'tone']);
+    }, [selectionMask, editingStepIds, liveOperations, pushOperations, closeEditingSteps]);
     
     const handleToolSelect = useCallback((tool: Tool) => {
         if (activeTool === 'pen' && tool !== 'pen') {
@@ -1223,74 +1012,23 @@ export const useImageEditorState = (
     }, [activeTool]);
     const handleCancelCrop = useCallback(() => { setCropSelection(null); setActiveTool(null); }, []);
     const handleApplyCrop = useCallback(() => {
-        if (!cropSelection || !sourceImageRef.current || !previewCanvasRef.current) return;
-        commitState();
-        const image = sourceImageRef.current; const previewCanvas = previewCanvasRef.current;
+        if (!cropSelection || !previewCanvasRef.current) return;
         if (cropSelection.width < 1 || cropSelection.height < 1) { handleCancelCrop(); return; }
-        const scaleX = image.naturalWidth / previewCanvas.width; const scaleY = image.naturalHeight / previewCanvas.height;
-        const sx = cropSelection.x * scaleX; const sy = cropSelection.y * scaleY;
-        const sWidth = cropSelection.width * scaleX; const sHeight = cropSelection.height * scaleY;
-        const cropCanvas = document.createElement('canvas');
-        cropCanvas.width = sWidth; cropCanvas.height = sHeight;
-        const cropCtx = cropCanvas.getContext('2d'); if (!cropCtx) return;
-        cropCtx.drawImage(image, sx, sy, sWidth, sHeight, 0, 0, sWidth, sHeight);
-        const newDataUrl = cropCanvas.toDataURL('image/png');
-        const postCropState: EditorStateSnapshot = { imageUrl: newDataUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0, grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false, brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null, };
-        pushHistory(postCropState);
-        restoreState(postCropState); setCropSelection(null); setActiveTool(null);
-    }, [cropSelection, commitState, handleCancelCrop, pushHistory, restoreState, brushHardness, brushOpacity]);
+        const { width, height } = previewCanvasRef.current;
+        appendOperation({ type: 'crop', rect: { x: cropSelection.x / width, y: cropSelection.y / height, width: cropSelection.width / width, height: cropSelection.height / height } });
+        setCropSelection(null); setActiveTool(null);
+    }, [cropSelection, handleCancelCrop, appendOperation]);
     
     const deleteImageContentInSelection = useCallback(() => {
-        if (!selectionPath || !previewCanvasRef.current || !drawingCanvasRef.current) return;
-        setIsProcessing(true);
-        setTimeout(() => {
-            try {
-                const previewCanvas = previewCanvasRef.current!;
-                const drawingCanvas = drawingCanvasRef.current!;
-                const combinedCanvas = document.createElement('canvas');
-                combinedCanvas.width = previewCanvas.width;
-                combinedCanvas.height = previewCanvas.height;
-                const ctx = combinedCanvas.getContext('2d');
-                if (!ctx) throw new Error("Could not create combined canvas context");
-                ctx.drawImage(previewCanvas, 0, 0);
-                ctx.drawImage(drawingCanvas, 0, 0);
-
-                const maskCanvas = createFeatheredMask(selectionPath!, combinedCanvas.width, combinedCanvas.height, featherAmount);
-                
-                ctx.globalCompositeOperation = 'destination-out';
-                ctx.drawImage(maskCanvas, 0, 0);
-
-                const newDataUrl = combinedCanvas.toDataURL('image/png');
-                const bakedState: EditorStateSnapshot = { imageUrl: newDataUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0, grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false, brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null, };
-                pushHistory(bakedState); restoreState(bakedState); deselect();
-            } catch (error) { console.error("Error deleting content:", error); alert("An error occurred while deleting the selected content."); } 
-            finally { setIsProcessing(false); }
-        }, 50);
-    }, [selectionPath, featherAmount, pushHistory, restoreState, deselect, previewCanvasRef, drawingCanvasRef, brushHardness, brushOpacity]);
+        if (!selectionMask) return;
+        appendOperation({ type: 'erase', mask: selectionMask });
+        deselect();
+    }, [selectionMask, appendOperation, deselect]);
     
     const fillSelection = useCallback(() => {
-        if (!selectionPath || !drawingCanvasRef.current) return;
-        const ctx = drawingCanvasRef.current.getContext('2d'); if (!ctx) return;
-        
-        const maskCanvas = createFeatheredMask(selectionPath, drawingCanvasRef.current.width, drawingCanvasRef.current.height, featherAmount);
-        
-        const fillCanvas = document.createElement('canvas');
-        fillCanvas.width = drawingCanvasRef.current.width;
-        fillCanvas.height = drawingCanvasRef.current.height;
-        const fillCtx = fillCanvas.getContext('2d');
-        if (fillCtx) {
-            fillCtx.fillStyle = brushColor;
-            fillCtx.fillRect(0, 0, fillCanvas.width, fillCanvas.height);
-            fillCtx.globalCompositeOperation = 'destination-in';
-            fillCtx.drawImage(maskCanvas, 0, 0);
-        }
-        
-        ctx.save();
-        ctx.globalAlpha = brushOpacity / 100;
-        ctx.drawImage(fillCanvas, 0, 0);
-        ctx.restore();
-        commitState();
-    }, [selectionPath, brushColor, brushOpacity, featherAmount, commitState]);
+        if (!selectionMask) return;
+        appendOperation({ type: 'fill', color: brushColor, opacity: brushOpacity, mask: selectionMask, layer: activeLayerId ?? undefined });
+    }, [selectionMask, brushColor, brushOpacity, activeLayerId, appendOperation]);
 
     const invertSelection = useCallback(() => setIsSelectionInverted(prev => !prev), []);
     
@@ -1310,6 +1048,38 @@ export const useImageEditorState = (
         setupNewImage(newUrl);
     }, [setupNewImage]);
 
+    // The current image with the selection tinted red, which tells the AI where it may edit.
+    const getSelectionHintImage = useCallback(async (imageUrl: string): Promise<string> => {
+        const previewCanvas = previewCanvasRef.current;
+        if (!selectionPath || !previewCanvas) throw new Error("Preview canvas not found");
+        const tempCanvas = document.createElement('canvas');
+        const tempCtx = tempCanvas.getContext('2d');
+        const img = new Image();
+
+        await new Promise<void>((resolve, reject) => {
+            img.onload = () => resolve();
+            img.onerror = (err) => reject(new Error("Failed to load image for masking."));
+            img.src = imageUrl;
+        });
+        
+        tempCanvas.width = img.naturalWidth;
+        tempCanvas.height = img.naturalHeight;
+        if (!tempCtx) throw new Error("Could not get temp canvas context");
+
+        tempCtx.drawImage(img, 0, 0);
+
+        const scaleX = img.naturalWidth / previewCanvas.width;
+        const scaleY = img.naturalHeight / previewCanvas.height;
+        
+        tempCtx.save();
+        tempCtx.scale(scaleX, scaleY);
+        tempCtx.fillStyle = 'rgba(255, 0, 0, 0.5)';
+        tempCtx.fill(selectionPath);
+        tempCtx.restore();
+
+        return tempCanvas.toDataURL('image/png');
+    }, [selectionPath, previewCanvasRef]);
+
     const handleAiEdit = useCallback(async () => {
         if (!aiEditPrompt.trim() || !internalImageUrl) return;
         setIsLoading(true);
@@ -1322,34 +1092,7 @@ export const useImageEditorState = (
             if (!currentImageAsUrl) throw new Error("Could not get current image data.");
 
             if (isSelectionActive && selectionPath) {
-                const tempCanvas = document.createElement('canvas');
-                const tempCtx = tempCanvas.getContext('2d');
-                const img = new Image();
-
-                await new Promise<void>((resolve, reject) => {
-                    img.onload = () => resolve();
-                    img.onerror = (err) => reject(new Error("Failed to load image for masking."));
-                    img.src = currentImageAsUrl;
-                });
-                
-                tempCanvas.width = img.naturalWidth;
-                tempCanvas.height = img.naturalHeight;
-                if (!tempCtx) throw new Error("Could not get temp canvas context");
-
-                tempCtx.drawImage(img, 0, 0);
-
-                const previewCanvas = previewCanvasRef.current;
-                if (!previewCanvas) throw new Error("Preview canvas not found");
-                const scaleX = img.naturalWidth / previewCanvas.width;
-                const scaleY = img.naturalHeight / previewCanvas.height;
-                
-                tempCtx.save();
-                tempCtx.scale(scaleX, scaleY);
-                tempCtx.fillStyle = 'rgba(255, 0, 0, 0.5)';
-                tempCtx.fill(selectionPath);
-                tempCtx.restore();
-
-                imageToSendUrl = tempCanvas.toDataURL('image/png');
+                imageToSendUrl = await getSelectionHintImage(currentImageAsUrl);
                 promptToSend = `${aiEditPrompt}. **HƯỚNG DẪN DÀNH CHO AI:** Vùng được tô màu đỏ mờ trên ảnh là khu vực duy nhất bạn được phép chỉnh sửa. Vùng màu đỏ này chỉ là một MẶT NẠ (MASK) để chỉ định khu vực, không phải là một phần của ảnh. **YÊU CẦU QUAN TRỌNG NHẤT:** Kết quả cuối cùng TUYỆT ĐỐI không được chứa bất kỳ vùng màu đỏ mờ nào.`;
 
             } else {
@@ -1357,38 +1100,44 @@ export const useImageEditorState = (
             }
 
             const resultUrl = await editImageWithPrompt(imageToSendUrl, promptToSend);
-            
-            const resetAndApply = () => {
-                setLuminance(0); setContrast(0); setTemp(0); setTint(0); setSaturation(0); setVibrance(0); setHue(0);
-                setGrain(0); setClarity(0); setDehaze(0); setBlur(0); setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS);
-                setRotation(0); setFlipHorizontal(false); setFlipVertical(false); setIsInverted(false);
-                setCropSelection(null); 
-                deselect();
-                if (drawingCanvasRef.current) {
-                    drawingCanvasRef.current.getContext('2d')?.clearRect(0, 0, drawingCanvasRef.current.width, drawingCanvasRef.current.height);
-                }
-                setInternalImageUrl(resultUrl);
-                const appliedState: EditorStateSnapshot = {
-                    imageUrl: resultUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
-                    grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false,
-                    brushHardness: 50, brushOpacity: 50,
-                    colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null,
-                };
-                pushHistory(appliedState);
-                setAiEditPrompt('');
-            };
+            const resultImage = await loadStepImage(resultUrl);
 
-            const newImage = new Image();
-            newImage.crossOrigin = "anonymous";
-            newImage.onload = () => requestAnimationFrame(resetAndApply);
-            newImage.src = resultUrl;
+            // The result replaces the whole image, so every slider starts over after it.
+            appendOperation({ type: 'image', source: 'ai-edit', url: resultUrl, width: resultImage.naturalWidth, height: resultImage.naturalHeight, prompt: aiEditPrompt }, EDITABLE_OPERATION_TYPES);
+            setCropSelection(null);
+            deselect();
+            setAiEditPrompt('');
+        } catch (err) {
+            alert(`Lỗi với Chỉnh sửa AI: ${getErrorMessage(err, t, "Đã xảy ra lỗi không xác định.")}`);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [aiEditPrompt, internalImageUrl, getFinalImage, isSelectionActive, selectionPath, getSelectionHintImage, loadStepImage, appendOperation, deselect]);
 
+    // Fills the selection from the pixels around it.
+    const handleContentAwareFill = useCallback(() => {
+        if (!selectionMask) return;
+        appendOperation({ type: 'content-fill', mask: selectionMask });
+    }, [selectionMask, appendOperation]);
+
+    // Fills the selection with the AI; only the selected part of its result is kept.
+    const handleAiFill = useCallback(async () => {
+        if (!selectionMask || !selectionPath || !internalImageUrl) return;
+        setIsLoading(true);
+        try {
+            const currentImageAsUrl = await getFinalImage();
+            if (!currentImageAsUrl) throw new Error("Could not get current image data.");
+            const imageToSendUrl = await getSelectionHintImage(currentImageAsUrl);
+            const prompt = 'Xóa nội dung trong vùng được tô màu đỏ mờ và lấp đầy vùng đó sao cho liền mạch với phần xung quanh về kết cấu, ánh sáng và màu sắc. Vùng màu đỏ chỉ là MẶT NẠ, không phải là một phần của ảnh. Giữ nguyên mọi thứ bên ngoài vùng đỏ. Kết quả cuối cùng TUYỆT ĐỐI không được chứa bất kỳ vùng màu đỏ mờ nào.';
+            const resultUrl = await editImageWithPrompt(imageToSendUrl, prompt);
+            const resultImage = await loadStepImage(resultUrl);
+            appendOperation({ type: 'image', source: 'ai-fill', url: resultUrl, width: resultImage.naturalWidth, height: resultImage.naturalHeight, mask: selectionMask });
         } catch (err) {
-            alert(`Lỗi với Chỉnh sửa AI: ${err instanceof Error ? err.message : "Đã xảy ra lỗi không xác định."}`);
+            showErrorToast(err, t);
         } finally {
             setIsLoading(false);
         }
-    }, [aiEditPrompt, internalImageUrl, getFinalImage, isSelectionActive, selectionPath, previewCanvasRef, pushHistory, deselect]);
+    }, [selectionMask, selectionPath, internalImageUrl, getFinalImage, getSelectionHintImage, loadStepImage, appendOperation]);
     
     const handleSave = useCallback(async () => {
         if (!imageToEdit) return;
@@ -1406,63 +1155,137 @@ export const useImageEditorState = (
         }
     }, [getFinalImage, imageToEdit]);
 
-    const handleRotateCanvas = useCallback(async () => {
+    const handleRotateCanvas = useCallback(() => {
         if (!internalImageUrl) return;
+        setRotation(r => (r + 90) % 360);
+        commitState();
+    }, [internalImageUrl, commitState]);
+
+    // --- Edit Stack ---
+    const handleSelectEditStep = useCallback((id: string) => {
+        const op = liveOperations.find(o => o.id === id);
+        if (!op || !EDITABLE_OPERATION_TYPES.includes(op.type as EditableOperationType)) return;
+        const type = op.type as EditableOperationType;
+        // Keep what the sliders hold for the step edited so far.
+        pushOperations(liveOperations);
+        if (op.id === editingStepIds[type] || op.id.startsWith(NEW_STEP_ID_PREFIX)) {
+            closeEditingSteps([type]);
+            return;
+        }
+        setEditingStepIds(prev => ({ ...prev, [type]: op.id }));
+        loadStepValues(type, op);
+    }, [liveOperations, editingStepIds, pushOperations, closeEditingSteps, loadStepValues]);
+
+    const handleToggleEditStep = useCallback((id: string) => {
+        pushOperations(liveOperations.map(op => op.id === id ? { ...op, enabled: !op.enabled } : op));
+    }, [liveOperations, pushOperations]);
+
+    const handleMoveEditStep = useCallback((id: string, offset: -1 | 1) => {
+        const index = liveOperations.findIndex(op => op.id === id);
+        const target = index + offset;
+        if (index === -1 || target < 0 || target >= liveOperations.length) return;
+        const next = [...liveOperations];
+        [next[index], next[target]] = [next[target], next[index]];
+        pushOperations(next);
+    }, [liveOperations, pushOperations]);
+
+    const handleDeleteEditStep = useCallback((id: string) => {
+        const op = liveOperations.find(o => o.id === id);
+        if (!op) return;
+        // A paint layer goes with everything painted on it.
+        pushOperations(liveOperations.filter(o => o.id !== id && !((o.type === 'stroke' || o.type === 'fill') && o.layer === id)));
+        const type = op.type as EditableOperationType;
+        if (op.id === editingStepIds[type] || op.id.startsWith(NEW_STEP_ID_PREFIX)) closeEditingSteps([type]);
+    }, [liveOperations, editingStepIds, pushOperations, closeEditingSteps]);
+
+    const handleBrushPresetSelect = useCallback((id: BrushPresetId) => {
+        const preset = BRUSH_PRESETS.find(p => p.id === id);
+        if (!preset) return;
+        setBrushPreset(id);
+        setBrushHardness(preset.hardness);
+        setBrushOpacity(preset.opacity);
+    }, []);
+
+    // A new paint layer goes on top and is painted on from then on.
+    const handleAddPaintLayer = useCallback(() => {
+        const id = createOperationId();
+        pushOperations([...liveOperations, {
+            type: 'paint-layer', name: t('imageEditor_layer_defaultName', paintLayers.length + 1), opacity: 100, blendMode: 'source-over', id, enabled: true,
+        }]);
+        setActivePaintLayerId(id);
+    }, [liveOperations, paintLayers.length, pushOperations, t]);
+
+    const handleUpdatePaintLayer = useCallback((id: string, changes: { name?: string; opacity?: number; blendMode?: PaintBlendMode }) => {
+        pushOperations(liveOperations.map(op => op.id === id && op.type === 'paint-layer' ? { ...op, ...changes } : op));
+    }, [liveOperations, pushOperations]);
+
+    // Swaps a paint layer with the next one up or down; the steps between them stay where they are.
+    const handleMovePaintLayer = useCallback((id: string, offset: -1 | 1) => {
+        const index = paintLayers.findIndex(layer => layer.id === id);
+        const other = paintLayers[index + offset];
+        if (index === -1 || !other) return;
+        pushOperations(liveOperations.map(op => op.id === id ? other : op.id === other.id ? paintLayers[index] : op));
+    }, [liveOperations, paintLayers, pushOperations]);
+
+    // Sends the image and each paint layer, full size, to the LayerComposer as separate layers.
+    const handleExportLayersToComposer = useCallback(async () => {
+        const source = sourceImageRef.current;
+        if (!source) return;
         setIsProcessing(true);
         try {
-            const currentImageAsUrl = await getFinalImage();
-            if (!currentImageAsUrl) throw new Error("Could not get current image data.");
-    
-            const img = new Image();
-            img.crossOrigin = "Anonymous";
-            
-            const newDataUrl = await new Promise<string>((resolve, reject) => {
-                img.onload = () => {
-                    const rotateCanvas = document.createElement('canvas');
-                    rotateCanvas.width = img.height;
-                    rotateCanvas.height = img.width;
-                    const rotateCtx = rotateCanvas.getContext('2d');
-                    if (!rotateCtx) {
-                        reject(new Error("Could not create rotate canvas context"));
-                        return;
-                    }
-    
-                    rotateCtx.translate(rotateCanvas.width / 2, rotateCanvas.height / 2);
-                    rotateCtx.rotate(90 * Math.PI / 180);
-                    rotateCtx.drawImage(img, -img.width / 2, -img.height / 2);
-                    
-                    resolve(rotateCanvas.toDataURL('image/png'));
-                };
-                img.onerror = reject;
-                img.src = currentImageAsUrl;
-            });
-    
-            const postRotateState: EditorStateSnapshot = {
-                imageUrl: newDataUrl,
-                luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
-                grain: 0, clarity: 0, dehaze: 0, blur: 0,
-                rotation: 0, 
-                flipHorizontal: false, flipVertical: false, isInverted: false,
-                brushHardness: brushHardness,
-                brushOpacity: brushOpacity,
-                colorAdjustments: INITIAL_COLOR_ADJUSTMENTS,
-                drawingCanvasDataUrl: null, 
-            };
-            
-            pushHistory(postRotateState);
-            restoreState(postRotateState);
-            
-            if (drawingCanvasRef.current) {
-                drawingCanvasRef.current.getContext('2d')?.clearRect(0, 0, drawingCanvasRef.current.width, drawingCanvasRef.current.height);
-            }
-    
+            const stage = renderEditOperations(createEditStage(source, 1), liveOperations, stepImagesRef.current);
+            const parts = splitEditStage(stage, liveOperations);
+            sendLayersToComposer(parts.map(({ canvas, opacity, blendMode, isVisible }) => ({ url: canvas.toDataURL('image/png'), opacity, blendMode, isVisible })));
+            openLayerComposer();
+            toast.success(t('imageEditor_layer_exported', parts.length));
         } catch (err) {
-            console.error("Error during canvas rotation:", err);
-            alert("An error occurred while rotating the image.");
+            showErrorToast(err, t);
         } finally {
             setIsProcessing(false);
         }
-    }, [internalImageUrl, getFinalImage, pushHistory, restoreState, brushHardness, brushOpacity, drawingCanvasRef]);
+    }, [liveOperations, sendLayersToComposer, openLayerComposer, t]);
+
+    const handleSaveRecipe = useCallback(() => {
+        downloadJson(createEditRecipe(liveOperations), `image-edit-recipe-${Date.now()}.json`);
+    }, [liveOperations]);
+
+    /**
+     * Adds the steps of a saved recipe after the current ones. Crops, strokes and masks are
+     * stored relative to the image size, so a recipe fits images of any size.
+     */
+    const handleLoadRecipe = useCallback(async (file: File) => {
+        try {
+            const steps = parseEditRecipe(await file.text());
+            pushOperations([...liveOperations, ...steps]);
+            closeEditingSteps(EDITABLE_OPERATION_TYPES);
+        } catch (err) {
+            showErrorToast(err, t);
+        }
+    }, [liveOperations, pushOperations, closeEditingSteps, t]);
+
+    // --- Looks ---
+    const canSaveLook = !isNeutralOperation({ type: 'adjustments', adjustments, mask: null })
+        || !isNeutralOperation({ type: 'hsl', colorAdjustments, mask: null });
+
+    // Saves the values the sliders hold now, so a look can be taken from any step being edited.
+    const handleSaveLook = useCallback(async (name: string) => {
+        if (!name.trim() || !canSaveLook) return;
+        try {
+            await saveLook(name, adjustments, colorAdjustments);
+            toast.success(t('imageEditor_look_saved', name.trim()));
+        } catch (err) {
+            showErrorToast(err, t);
+        }
+    }, [canSaveLook, saveLook, adjustments, colorAdjustments, t]);
+
+    const handleApplyLook = useCallback((look: EditLook) => {
+        pushOperations([...liveOperations, ...createLookOperations(look)]);
+        closeEditingSteps(['adjustments', 'hsl']);
+    }, [liveOperations, pushOperations, closeEditingSteps]);
+
+    const handleDeleteLook = useCallback((id: string) => {
+        deleteLook(id).catch(err => showErrorToast(err, t));
+    }, [deleteLook, t]);
 
 
     useEffect(() => {
@@ -1510,6 +1333,7 @@ export const useImageEditorState = (
                 return;
             }
             const isPickerEligible = activeTool === 'brush' || activeTool === 'eraser';
+            const isBrushTool = isPickerEligible || activeTool === 'clone' || activeTool === 'heal';
             if (e.key === 'Alt' && !e.repeat && isPickerEligible) { previousToolRef.current = activeTool; setActiveTool('colorpicker'); e.preventDefault(); }
             if (activeTool === 'crop' && e.code === 'Enter' && cropSelection) { e.preventDefault(); handleApplyCrop(); return; }
             if (activeTool === 'perspective-crop' && e.code === 'Enter' && perspectiveCropPoints.length === 4) { e.preventDefault(); handleApplyPerspectiveCrop(); return; }
@@ -1532,12 +1356,14 @@ export const useImageEditorState = (
                     case 'KeyM': handleToolSelect('marquee'); handled = true; break;
                     case 'KeyC': handleToolSelect('crop'); handled = true; break;
                     case 'KeyE': handleToolSelect('eraser'); handled = true; break;
+                    case 'KeyS': handleToolSelect('clone'); handled = true; break;
+                    case 'KeyJ': handleToolSelect('heal'); handled = true; break;
                     case 'KeyR':
                         handleRotateCanvas();
                         handled = true;
                         break;
-                    case 'BracketLeft': if (activeTool === 'brush' || activeTool === 'eraser') { setBrushSize(s => Math.max(1, s - (s > 30 ? 5 : 1))); handled = true; } break;
-                    case 'BracketRight': if (activeTool === 'brush' || activeTool === 'eraser') { setBrushSize(s => Math.min(200, s + (s >= 30 ? 5 : 1))); handled = true; } break;
+                    case 'BracketLeft': if (isBrushTool) { setBrushSize(s => Math.max(1, s - (s > 30 ? 5 : 1))); handled = true; } break;
+                    case 'BracketRight': if (isBrushTool) { setBrushSize(s => Math.min(200, s + (s >= 30 ? 5 : 1))); handled = true; } break;
                 }
                 if (handled) e.preventDefault();
             }
@@ -1571,7 +1397,9 @@ export const useImageEditorState = (
         internalImageUrl, isLoading, isProcessing, setIsProcessing, openSection, activeTool, brushSize, brushColor, brushHardness, brushOpacity, cropSelection, cropAspectRatio,
         cursorPosition, isCursorOverCanvas, isDrawing, isSelectionActive, isSelectionInverted, penPathPoints, currentPenDrag, marqueeRect,
         ellipseRect, interactionState, hoveredCropHandle, historyIndex, history, isGalleryPickerOpen, isWebcamModalOpen, featherAmount,
-        selectionPath, aiEditPrompt,
+        editOperations: liveOperations, activeStepIds,
+        selectionPath, aiEditPrompt, cloneSource, cloneOffset,
+        brushPreset, retouchMode, pressureSettings, symmetry, paintLayers, activePaintLayerId: activeLayerId,
         perspectiveCropPoints,
         hoveredPerspectiveHandleIndex,
         handleCancelPerspectiveCrop,
@@ -1580,7 +1408,7 @@ export const useImageEditorState = (
         
         // Filters & Adjustments
         luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, blur, rotation, flipHorizontal, flipVertical, isInverted,
-        colorAdjustments, activeColorTab,
+        colorAdjustments, activeColorTab, toneAdjustments, activeToneChannel, histogram,
         // Refs
         previewCanvasRef, drawingCanvasRef, overlayCanvasRef, tempDrawingCanvasRef,
         currentDrawingPointsRef, lastPointRef,
@@ -1589,11 +1417,13 @@ export const useImageEditorState = (
         setIsCursorOverCanvas,
         setHoveredCropHandle,
         setLuminance, setContrast, setTemp, setTint, setSaturation, setVibrance, setHue, setGrain, setClarity, setDehaze, setBlur, setRotation, setFlipHorizontal, setFlipVertical, setIsInverted,
-        setColorAdjustments, setActiveColorTab,
+        setColorAdjustments, setActiveColorTab, setToneAdjustments, setActiveToneChannel,
         setIsGalleryPickerOpen, setIsWebcamModalOpen, setFeatherAmount, setAiEditPrompt,
         handleActionStart, handleCanvasMouseMove, handleActionEnd,
         handleUndo, handleRedo, commitState, resetAll, getFinalImage, handleSave,
-        handleToolSelect, handleCancelCrop, handleApplyCrop, handleAiEdit,
+        handleToolSelect, handleCancelCrop, handleApplyCrop, handleAiEdit, handleContentAwareFill, handleAiFill,
+        handleBrushPresetSelect, setPressureSettings, setSymmetry, setActivePaintLayerId,
+        handleAddPaintLayer, handleUpdatePaintLayer, handleMovePaintLayer, handleExportLayersToComposer,
         handleRotateCanvas,
         handleFile,
         handleFileSelected: (e: ChangeEvent<HTMLInputElement>) => handleFileUpload(e, setupNewImage),
@@ -1606,24 +1436,26 @@ export const useImageEditorState = (
             setIsWebcamModalOpen(false);
         },
         handleCreateBlank,
-        handleClearDrawings: () => {
-            const canvas = drawingCanvasRef.current; if (!canvas) return;
-            const ctx = canvas.getContext('2d');
-            ctx?.clearRect(0, 0, canvas.width, canvas.height);
-            commitState();
-        },
+        // Clears the paint of the layer being painted on.
+        handleClearDrawings: () => pushOperations(liveOperations.filter(op => !((op.type === 'stroke' || op.type === 'fill') && (op.layer ?? null) === activeLayerId))),
         handleRemoveBackground: async () => {
             if (!internalImageUrl) return; setIsLoading(true);
             try {
-                const resultUrl = await removeImageBackground(internalImageUrl);
-                resetAll(true); setInternalImageUrl(resultUrl); commitState();
-            } catch (err) { alert(`Error removing background: ${err instanceof Error ? err.message : "An unknown error occurred."}`); } 
+                const currentImageAsUrl = await getFinalImage();
+                if (!currentImageAsUrl) throw new Error("Could not get current image data.");
+                const resultUrl = await removeImageBackground(currentImageAsUrl);
+                const resultImage = await loadStepImage(resultUrl);
+                appendOperation({ type: 'image', source: 'remove-background', url: resultUrl, width: resultImage.naturalWidth, height: resultImage.naturalHeight }, EDITABLE_OPERATION_TYPES);
+            } catch (err) { alert(`Error removing background: ${getErrorMessage(err, t, "An unknown error occurred.")}`); } 
             finally { setIsLoading(false); }
         },
-        handleInvertColors: () => { const snapshot = captureState(); const newSnapshot = { ...snapshot, isInverted: !snapshot.isInverted }; pushHistory(newSnapshot); restoreState(newSnapshot); },
+        handleInvertColors: () => { setIsInverted(v => !v); commitState(); },
         handleApplyAllAdjustments,
         handleApplyAdjustmentsToSelection,
         invertSelection, deselect, deleteImageContentInSelection, fillSelection,
+        handleSelectEditStep, handleToggleEditStep, handleMoveEditStep, handleDeleteEditStep,
+        handleSaveRecipe, handleLoadRecipe,
+        editLooks: looks, canSaveLook, handleSaveLook, handleApplyLook, handleDeleteLook,
     };
 };
 
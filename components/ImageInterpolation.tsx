@@ -17,12 +17,13 @@ import {
     PromptResultCard,
     useVideoGeneration,
     processAndDownloadAll,
-    embedJsonInPng,
     getInitialStateForApp,
     useAppControls,
+    useBatchGeneration,
+    SINGLE_RESULT_KEY,
+    getErrorMessage,
 } from './uiUtils';
 import toast from 'react-hot-toast';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
 
 interface ImageInterpolationProps {
     mainTitle: string;
@@ -55,9 +56,39 @@ const ImageInterpolation: React.FC<ImageInterpolationProps> = (props) => {
         ...headerProps
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<ImageInterpolationState>('image-interpolation', {
+        generate: (_key, state, { signal }) => editImageWithPrompt(
+            state.referenceImage || state.inputImage!,
+            state.finalPrompt!,
+            state.options.aspectRatio,
+            state.options.removeWatermark,
+            { signal }
+        ),
+        applyResult: (state, _key, result) => 'error' in result
+            ? { ...state, error: result.error }
+            : {
+                ...state,
+                generatedImage: result.urls[0],
+                historicalImages: [...state.historicalImages, ...result.urls.map(url => ({ url, prompt: state.finalPrompt! }))],
+            },
+        generateEdit: (edit, state, { signal }) => editImageWithPrompt(
+            edit.sourceUrl,
+            edit.prompt,
+            state.options.aspectRatio,
+            state.options.removeWatermark,
+            { signal }
+        ),
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', finalPrompt: null, generatedImage: null, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getJobLabel: () => t('jobsTray_generateLabel'),
+        onComplete: (_state, failedKeys) => { if (failedKeys.length === 0) toast.success(`Tạo ảnh thành công.`); },
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
-    const { videoTasks, generateVideo } = useVideoGeneration();
+    const { videoTasks, generateVideo } = useVideoGeneration('image-interpolation');
     const [localGeneratedPrompt, setLocalGeneratedPrompt] = useState(appState.generatedPrompt);
     const [localAdditionalNotes, setLocalAdditionalNotes] = useState(appState.additionalNotes);
     const lightboxImages = [appState.inputImage, appState.outputImage, appState.referenceImage, ...appState.historicalImages.map(h => h.url)].filter((img): img is string => !!img);
@@ -146,7 +177,7 @@ const ImageInterpolation: React.FC<ImageInterpolationProps> = (props) => {
             }
             onStateChange({ ...appStateRef.current, stage: 'configuring', generatedPrompt: result.mainPrompt, promptSuggestions: result.suggestions || '' });
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appStateRef.current, stage: 'idle', generatedPrompt: '', promptSuggestions: '', error: t('imageInterpolation_analysisError', errorMessage) });
         }
     };
@@ -155,12 +186,6 @@ const ImageInterpolation: React.FC<ImageInterpolationProps> = (props) => {
         const referenceImageToUse = appState.referenceImage || appState.inputImage;
         if (!referenceImageToUse || !appState.generatedPrompt) return;
 
-         // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
         const preGenState = { ...appState };
         onStateChange({ ...appState, stage: 'generating', error: null, finalPrompt: null });
 
@@ -177,100 +202,30 @@ const ImageInterpolation: React.FC<ImageInterpolationProps> = (props) => {
                 }
                 finalPromptText = await adaptPromptToContext(referenceImageToUse, intermediatePrompt);
             }
-            
-            const resultUrl = await editImageWithPrompt(
-                referenceImageToUse,
-                finalPromptText,
-                appState.options.aspectRatio,
-                appState.options.removeWatermark
-            );
-            
-            // Deduct Credit
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Tạo ảnh thành công.`);
-
-            const settingsToEmbed = {
-                viewId: 'image-interpolation',
-                state: { ...appState, stage: 'configuring', finalPrompt: null, generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('image-interpolation', preGenState, urlWithMetadata);
-
-            const newHistory = [...appState.historicalImages, { url: urlWithMetadata, prompt: finalPromptText }];
-            
-            onStateChange({ 
-                ...appState, 
-                stage: 'results', 
-                generatedImage: urlWithMetadata, 
-                historicalImages: newHistory,
-                finalPrompt: finalPromptText, 
-            });
-            addImagesToGallery([urlWithMetadata]);
-
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ 
                 ...appState, 
                 stage: 'results', 
                 error: errorMessage,
                 finalPrompt: finalPromptText,
             });
+            return;
         }
+
+        // The adapted prompt goes into the state so a resumed batch generates from it.
+        await startBatch({ ...appState, stage: 'generating', error: null, finalPrompt: finalPromptText }, [SINGLE_RESULT_KEY], preGenState);
     };
 
     const handleRegeneration = async (prompt: string) => {
         if (!appState.generatedImage) return;
-
-         // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
-        const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            const resultUrl = await editImageWithPrompt(
-                appState.generatedImage,
-                prompt,
-                appState.options.aspectRatio,
-                appState.options.removeWatermark
-            );
-            
-            // Deduct Credit
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Chỉnh sửa thành công.`);
-
-            const settingsToEmbed = {
-                viewId: 'image-interpolation',
-                state: { ...appState, stage: 'configuring', finalPrompt: null, generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('image-interpolation', preGenState, urlWithMetadata);
-
-            const newHistory = [...appState.historicalImages, { url: urlWithMetadata, prompt: prompt }];
-            
-            onStateChange({ 
-                ...appState, 
-                stage: 'results', 
-                generatedImage: urlWithMetadata, 
-                historicalImages: newHistory,
-                finalPrompt: prompt,
-            });
-            addImagesToGallery([urlWithMetadata]);
-
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ 
-                ...appState, 
-                stage: 'results', 
-                error: errorMessage,
-                finalPrompt: prompt,
-            });
-        }
+        // The edit prompt becomes the final prompt, so the history records it with the result.
+        await startEdit(
+            { ...appState, stage: 'generating', error: null, finalPrompt: prompt },
+            SINGLE_RESULT_KEY,
+            { sourceUrl: appState.generatedImage, prompt },
+            appState
+        );
     };
 
     const handleDownloadAll = () => {
@@ -8,6 +8,8 @@ import { useAppControls, useImageEditor, combineImages, useLightbox, useDebounce
 import { cn } from '../lib/utils';
 import Lightbox from './Lightbox';
 import { ImageThumbnailActions } from './ImageThumbnailActions';
+import { StoredImage } from './StoredImage';
+import { storeImage } from '../lib/imageStore';
 import { CloudUploadIcon, LoadingSpinnerIcon } from './icons';
 
 interface ImageLayoutModalProps {
@@ -134,9 +136,11 @@ const ImageLayoutModal: React.FC<ImageLayoutModalProps> = ({ isOpen, onClose })
             return;
         }
 
-        openImageEditor(urlToEdit, (newUrl) => {
+        openImageEditor(urlToEdit, async (newUrl) => {
             replaceImageInGallery(indexToEdit, newUrl);
-            setSelectedItems(prev => prev.map(item => item.url === urlToEdit ? { ...item, url: newUrl } : item));
+            // The gallery now holds the edited image by reference; select it the same way.
+            const newRef = await storeImage(newUrl);
+            setSelectedItems(prev => prev.map(item => item.url === urlToEdit ? { ...item, url: newRef } : item));
         });
     };
 
@@ -338,7 +342,7 @@ const ImageLayoutModal: React.FC<ImageLayoutModalProps> = ({ isOpen, onClose })
                                         <ul className="space-y-3 pt-3 border-t border-white/10 max-h-60 overflow-y-auto">
                                             {selectedItems.map((item, index) => (
                                                 <li key={item.url} className="flex items-center gap-3">
-                                                    <img src={item.url} className="w-12 h-12 object-cover rounded-md flex-shrink-0" alt={`Selected thumbnail ${index + 1}`}/>
+                                                    <StoredImage src={item.url} className="w-12 h-12 object-cover rounded-md flex-shrink-0" alt={`Selected thumbnail ${index + 1}`}/>
                                                     <input type="text" placeholder={t('imageLayout_labels_placeholder', index + 1)} value={item.label} onChange={(e) => handleLabelChange(index, e.target.value)} className="form-input" />
                                                 </li>
                                             ))}
@@ -380,7 +384,7 @@ const ImageLayoutModal: React.FC<ImageLayoutModalProps> = ({ isOpen, onClose })
                                                         {isVideo ? (
                                                             <video src={img} autoPlay loop muted playsInline className="w-full h-auto block" />
                                                         ) : (
-                                                            <img src={img} alt={`Gallery image ${index + 1}`} loading="lazy" />
+                                                            <StoredImage src={img} alt={`Gallery image ${index + 1}`} loading="lazy" />
                                                         )}
                                                         <div className={cn(
                                                             "absolute inset-0 transition-all duration-200 pointer-events-none",
@@ -6,6 +6,7 @@ import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '../lib/utils';
 import { ImageThumbnailActions } from './ImageThumbnailActions';
+import { StoredImage } from './StoredImage';
 
 interface ImageThumbnailProps {
     index: number;
@@ -46,7 +47,7 @@ export const ImageThumbnail: React.FC<ImageThumbnailProps> = ({
             {isVideo ? (
                 <video src={imageUrl} autoPlay loop muted playsInline className="w-full h-auto block" />
             ) : (
-                <img src={imageUrl} alt={`Generated image ${index + 1}`} loading="lazy" />
+                <StoredImage src={imageUrl} alt={`Generated image ${index + 1}`} loading="lazy" />
             )}
 
             <AnimatePresence>
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAppControls, useJobQueue, getErrorMessage, type AppConfig } from './uiUtils';
+import { cancelJob, clearFinishedJobs, type GenerationJob, type JobStatus } from '../services/geminiService';
+import { QueueIcon, CloseIcon, LoadingSpinnerIcon } from './icons';
+import { cn } from '../lib/utils';
+
+interface JobsTrayProps {
+    onMouseEnter: (e: React.MouseEvent) => void;
+    onMouseLeave: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+    pending: 'bg-neutral-500/30 text-neutral-300',
+    running: 'bg-yellow-400/20 text-yellow-300',
+    done: 'bg-green-500/20 text-green-300',
+    failed: 'bg-red-500/30 text-red-300',
+    cancelled: 'bg-neutral-700/60 text-neutral-400',
+};
+
+const isActive = (job: GenerationJob) => job.status === 'pending' || job.status === 'running';
+
+const JobRow: React.FC<{ job: GenerationJob; appTitle: string }> = ({ job, appTitle }) => {
+    const { t } = useAppControls();
+    const errorMessage = job.status === 'failed' && job.error !== undefined ? getErrorMessage(job.error, t) : null;
+    return (
+        <li className="rounded-lg border border-white/10 bg-neutral-900/60 p-2">
+            <div className="flex items-center gap-2">
+                {job.status === 'running' && <LoadingSpinnerIcon className="h-4 w-4 animate-spin text-yellow-400 flex-shrink-0" />}
+                <div className="min-w-0 flex-1">
+                    <p className="text-sm text-neutral-200 truncate" title={job.label}>{job.label}</p>
+                    <p className="text-xs text-neutral-500 truncate">{appTitle}</p>
+                </div>
+                <span className={cn("text-xs px-2 py-0.5 rounded flex-shrink-0", STATUS_STYLES[job.status])}>
+                    {t(`jobsTray_status.${job.status}`)}
+                </span>
+                {isActive(job) && (
+                    <button
+                        onClick={() => cancelJob(job.id)}
+                        className="p-1 rounded-full hover:bg-white/10 transition-colors flex-shrink-0"
+                        aria-label={t('jobsTray_cancel')}
+                        title={t('jobsTray_cancel')}
+                    >
+                        <CloseIcon className="h-4 w-4" strokeWidth={2} />
+                    </button>
+                )}
+            </div>
+            {job.status === 'running' && job.attempt > 1 && (
+                <p className="text-xs text-neutral-400 mt-1">{t('jobsTray_attempt', job.attempt, job.maxAttempts)}</p>
+            )}
+            {job.status === 'running' && job.progress !== undefined && (
+                <div className="mt-2 h-1 rounded bg-white/10 overflow-hidden">
+                    <div className="h-full bg-yellow-400 transition-all" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+                </div>
+            )}
+            {errorMessage && (
+                <p className="text-xs text-red-400 mt-1 line-clamp-2" title={errorMessage}>{errorMessage}</p>
+            )}
+        </li>
+    );
+};
+
+/**
+ * Toolbar button and popover listing the generation jobs of every app, with cancel for
+ * pending and running ones.
+ */
+const JobsTray: React.FC<JobsTrayProps> = ({ onMouseEnter, onMouseLeave }) => {
+    const { t, settings } = useAppControls();
+    const jobs = useJobQueue();
+    const [isOpen, setIsOpen] = useState(false);
+    const trayRef = useRef<HTMLDivElement>(null);
+
+    const apps: AppConfig[] = settings?.apps || [];
+    const activeCount = jobs.filter(isActive).length;
+    const hasFinished = jobs.some(job => !isActive(job));
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (trayRef.current && !trayRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const getAppTitle = (appId: string) => {
+        const app = apps.find(a => a.id === appId);
+        return app ? t(app.titleKey) : appId;
+    };
+
+    return (
+        <div ref={trayRef} className="relative">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className={cn("btn-search relative", isOpen && 'bg-white/20')}
+                aria-label={t('jobsTray_title')}
+                aria-expanded={isOpen}
+                onMouseEnter={onMouseEnter}
+                onMouseLeave={onMouseLeave}
+            >
+                <QueueIcon className="h-5 w-5" strokeWidth={2} />
+                {activeCount > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-yellow-400 text-black text-[10px] font-bold flex items-center justify-center">
+                        {activeCount}
+                    </span>
+                )}
+            </button>
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -8, scale: 0.97 }}
+                        animate={{ opacity: 1, y: 0, scale: 1 }}
+                        exit={{ opacity: 0, y: -8, scale: 0.97 }}
+                        transition={{ duration: 0.15 }}
+                        className="absolute right-0 top-full mt-2 w-80 p-3 bg-neutral-900/95 backdrop-blur-sm border border-white/10 rounded-xl shadow-lg"
+                    >
+                        <div className="flex items-center justify-between mb-2">
+                            <h4 className="font-bold text-yellow-400/90">{t('jobsTray_title')}</h4>
+                            <button
+                                onClick={clearFinishedJobs}
+                                className="text-xs text-neutral-400 hover:text-white transition-colors disabled:opacity-40"
+                                disabled={!hasFinished}
+                            >
+                                {t('jobsTray_clearFinished')}
+                            </button>
+                        </div>
+                        {jobs.length === 0 ? (
+                            <p className="text-sm text-neutral-500 py-4 text-center">{t('jobsTray_empty')}</p>
+                        ) : (
+                            <ul className="max-h-[60vh] overflow-y-auto space-y-2 pr-1">
+                                {jobs.map(job => (
+                                    <JobRow key={job.id} job={job} appTitle={getAppTitle(job.appId)} />
+                                ))}
+                            </ul>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
+
+export default JobsTray;
@@ -4,9 +4,8 @@
 */
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAppControls } from '../uiUtils';
-import type { Chat } from '@google/genai';
-import { sendChatMessage } from '../../services/geminiService';
+import { useAppControls, getErrorMessage } from '../uiUtils';
+import { sendChatMessage, type ChatSession } from '../../services/geminiService';
 import { type Layer } from './LayerComposer.types';
 import { LoadingSpinnerIcon, CloseIcon, SendIcon } from '../icons';
 import toast from 'react-hot-toast';
@@ -159,7 +158,7 @@ export const AIChatbot: React.FC<AIChatbotProps> = ({ isOpen, onClose, selectedL
     const [messages, setMessages] = useState<Message[]>([]);
     const [userInput, setUserInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const chatSession = useRef<Chat | null>(null);
+    const chatSession = useRef<ChatSession | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const isVisibleRef = useRef(isOpen);
 
@@ -198,7 +197,7 @@ export const AIChatbot: React.FC<AIChatbotProps> = ({ isOpen, onClose, selectedL
             }
         } catch (error) {
             if (isVisibleRef.current) {
-                const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+                const errorMessage = getErrorMessage(error, t, "An unknown error occurred.");
                 setMessages(prev => [...prev, { role: 'model', text: `Error: ${errorMessage}` }]);
             }
         } finally {
@@ -219,7 +218,7 @@ export const AIChatbot: React.FC<AIChatbotProps> = ({ isOpen, onClose, selectedL
                 // Capture all selected layers concurrently
                 imageUrls = await Promise.all(selectedLayers.map(layer => captureLayer(layer)));
             } catch (err) {
-                 const errorMessage = err instanceof Error ? err.message : "Failed to capture one or more layers.";
+                 const errorMessage = getErrorMessage(err, t, "Failed to capture one or more layers.");
                 setMessages(prev => [...prev, { role: 'model', text: `Error: ${errorMessage}` }]);
                 return;
             }
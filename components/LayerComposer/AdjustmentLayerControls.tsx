@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { useAppControls } from '../uiUtils';
+import { cn } from '../../lib/utils';
+import { type Layer, type LayerAdjustments } from './LayerComposer.types';
+import { DEFAULT_LAYER_ADJUSTMENTS } from './LayerComposer.utils';
+import { RangeSlider } from '../ImageEditor/components/RangeSlider';
+import { type ColorChannel, type HSLAdjustment } from '../ImageEditor/ImageEditor.types';
+import { COLOR_CHANNELS } from '../ImageEditor/ImageEditor.constants';
+
+interface AdjustmentLayerControlsProps {
+    layer: Layer;
+    onUpdate: (id: string, newProps: Partial<Layer>, isFinalChange: boolean) => void;
+    beginInteraction: () => void;
+}
+
+export const AdjustmentLayerControls: React.FC<AdjustmentLayerControlsProps> = ({ layer, onUpdate, beginInteraction }) => {
+    const { t } = useAppControls();
+    const [activeColorTab, setActiveColorTab] = useState<ColorChannel>('reds');
+    const adjustments = layer.adjustments || DEFAULT_LAYER_ADJUSTMENTS;
+
+    // Sliders update live and are written to history when released.
+    const handleChange = (props: Partial<LayerAdjustments>) => {
+        onUpdate(layer.id, { adjustments: { ...adjustments, ...props } }, false);
+    };
+    const handleCommit = () => {
+        onUpdate(layer.id, { adjustments }, true);
+    };
+    const handleReset = (props: Partial<LayerAdjustments>) => {
+        beginInteraction();
+        onUpdate(layer.id, { adjustments: { ...adjustments, ...props } }, true);
+    };
+
+    const channelAdjustments = adjustments.colorAdjustments[activeColorTab];
+    const channelProps = (type: keyof HSLAdjustment, value: number): Partial<LayerAdjustments> => ({
+        colorAdjustments: { ...adjustments.colorAdjustments, [activeColorTab]: { ...channelAdjustments, [type]: value } },
+    });
+
+    return (
+        <div className="p-3 space-y-3" onPointerDownCapture={beginInteraction}>
+            <p className="text-xs text-neutral-400">{t('layerComposer_adjust_description')}</p>
+            <RangeSlider id={`brightness-${layer.id}`} label={t('layerComposer_adjust_brightness')} value={adjustments.brightness} min={-100} max={100} step={1} onChange={v => handleChange({ brightness: v })} onReset={() => handleReset({ brightness: 0 })} onCommit={handleCommit} />
+            <RangeSlider id={`contrast-${layer.id}`} label={t('layerComposer_adjust_contrast')} value={adjustments.contrast} min={-100} max={100} step={1} onChange={v => handleChange({ contrast: v })} onReset={() => handleReset({ contrast: 0 })} onCommit={handleCommit} />
+            <RangeSlider id={`saturation-${layer.id}`} label={t('layerComposer_adjust_saturation')} value={adjustments.saturation} min={-100} max={100} step={1} onChange={v => handleChange({ saturation: v })} onReset={() => handleReset({ saturation: 0 })} onCommit={handleCommit} />
+            <RangeSlider id={`hue-${layer.id}`} label={t('layerComposer_adjust_hue')} value={adjustments.hue} min={-180} max={180} step={1} onChange={v => handleChange({ hue: v })} onReset={() => handleReset({ hue: 0 })} onCommit={handleCommit} />
+
+            <div className="pt-3 border-t border-neutral-700/50 space-y-3">
+                <h5 className="text-sm font-bold text-neutral-200">{t('layerComposer_adjust_hsl')}</h5>
+                <div className="flex justify-center gap-4">
+                    {COLOR_CHANNELS.map(c => (
+                        <button
+                            key={c.id}
+                            onClick={() => setActiveColorTab(c.id)}
+                            className={cn("w-6 h-6 rounded-full transition-transform", activeColorTab === c.id ? 'ring-2 ring-yellow-400 scale-110' : 'hover:scale-110')}
+                            style={{ backgroundColor: c.color }}
+                            aria-label={`Select ${c.name}`}
+                        />
+                    ))}
+                </div>
+                <RangeSlider id={`${activeColorTab}-h-${layer.id}`} label={t('layerComposer_adjust_hue')} value={channelAdjustments.h} min={-180} max={180} step={1} onChange={v => handleChange(channelProps('h', v))} onReset={() => handleReset(channelProps('h', 0))} onCommit={handleCommit} />
+                <RangeSlider id={`${activeColorTab}-s-${layer.id}`} label={t('layerComposer_adjust_saturation')} value={channelAdjustments.s} min={-100} max={100} step={1} onChange={v => handleChange(channelProps('s', v))} onReset={() => handleReset(channelProps('s', 0))} onCommit={handleCommit} />
+                <RangeSlider id={`${activeColorTab}-l-${layer.id}`} label={t('layerComposer_adjust_luminance')} value={channelAdjustments.l} min={-100} max={100} step={1} onChange={v => handleChange(channelProps('l', v))} onReset={() => handleReset(channelProps('l', 0))} onCommit={handleCommit} />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { useAppControls } from '../uiUtils';
+import { cn } from '../../lib/utils';
+import { type Artboard, type ArtboardExportFormat } from './LayerComposer.types';
+import { ARTBOARD_PRESETS, getArtboardPreset } from './LayerComposer.artboards';
+import { DeleteIcon, DownloadIcon, MagicWandIcon } from '../icons';
+
+interface ArtboardControlsProps {
+    artboards: Artboard[];
+    selectedArtboardIds: string[];
+    isBusy: boolean;
+    onAdd: (width: number, height: number) => void;
+    onUpdate: (id: string, props: Partial<Artboard>) => void;
+    onDelete: (id: string) => void;
+    onSelect: (id: string, isAdditive: boolean) => void;
+    onExport: (ids: string[], format: ArtboardExportFormat) => void;
+    onFillEmpty: (id: string) => void;
+}
+
+export const ArtboardControls: React.FC<ArtboardControlsProps> = ({
+    artboards, selectedArtboardIds, isBusy, onAdd, onUpdate, onDelete, onSelect, onExport, onFillEmpty,
+}) => {
+    const { t } = useAppControls();
+    const [presetId, setPresetId] = useState(ARTBOARD_PRESETS[0].id);
+    const [format, setFormat] = useState<ArtboardExportFormat>('zip');
+
+    const handleAdd = () => {
+        const preset = ARTBOARD_PRESETS.find(p => p.id === presetId) || ARTBOARD_PRESETS[0];
+        onAdd(preset.width, preset.height);
+    };
+
+    const handlePresetChange = (artboard: Artboard, id: string) => {
+        const preset = ARTBOARD_PRESETS.find(p => p.id === id);
+        if (preset) onUpdate(artboard.id, { width: preset.width, height: preset.height });
+    };
+
+    return (
+        <div className="p-3 space-y-4 text-sm">
+            <div className="flex gap-2">
+                <select value={presetId} onChange={e => setPresetId(e.target.value)} className="form-input !p-1.5 !text-sm flex-grow" aria-label={t('layerComposer_artboard_preset')}>
+                    {ARTBOARD_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label} ({p.width}×{p.height})</option>)}
+                </select>
+                <button onClick={handleAdd} className="btn btn-secondary btn-sm flex-shrink-0">{t('layerComposer_artboard_add')}</button>
+            </div>
+
+            {artboards.length === 0 ? (
+                <p className="text-xs text-neutral-400">{t('layerComposer_artboard_empty')}</p>
+            ) : (
+                <div className="space-y-2">
+                    {artboards.map(artboard => {
+                        const isSelected = selectedArtboardIds.includes(artboard.id);
+                        return (
+                            <div key={artboard.id} className={cn('bg-neutral-800 rounded-lg border p-2 space-y-2', isSelected ? 'border-yellow-400' : 'border-neutral-700')}>
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={isSelected}
+                                        onChange={() => onSelect(artboard.id, true)}
+                                        className="h-4 w-4 rounded border-neutral-500 bg-neutral-700 text-yellow-400 focus:ring-yellow-400 focus:ring-offset-neutral-800"
+                                        aria-label={artboard.name}
+                                    />
+                                    <input
+                                        type="text"
+                                        value={artboard.name}
+                                        onChange={e => onUpdate(artboard.id, { name: e.target.value })}
+                                        className="form-input !p-1.5 !text-sm flex-grow min-w-0"
+                                        aria-label={t('layerComposer_artboard_name')}
+                                    />
+                                    <button onClick={() => onFillEmpty(artboard.id)} disabled={isBusy} className="p-1.5 rounded-md text-neutral-400 hover:text-white hover:bg-white/10 disabled:opacity-50" title={t('layerComposer_artboard_fillEmpty')}>
+                                        <MagicWandIcon className="h-4 w-4" />
+                                    </button>
+                                    <button onClick={() => onExport([artboard.id], format)} disabled={isBusy} className="p-1.5 rounded-md text-neutral-400 hover:text-white hover:bg-white/10 disabled:opacity-50" title={t('layerComposer_artboard_exportOne')}>
+                                        <DownloadIcon className="h-4 w-4" />
+                                    </button>
+                                    <button onClick={() => onDelete(artboard.id)} className="p-1.5 rounded-md text-neutral-400 hover:text-red-400 hover:bg-white/10" title={t('layerComposer_artboard_delete')}>
+                                        <DeleteIcon className="h-4 w-4" />
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-[1fr_4rem_4rem_auto] gap-2 items-center">
+                                    <select value={getArtboardPreset(artboard)?.id ?? ''} onChange={e => handlePresetChange(artboard, e.target.value)} className="form-input !p-1.5 !text-xs" aria-label={t('layerComposer_artboard_preset')}>
+                                        <option value="" disabled>{t('layerComposer_artboard_custom')}</option>
+                                        {ARTBOARD_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                                    </select>
+                                    <input type="number" min={1} value={artboard.width} onChange={e => onUpdate(artboard.id, { width: Math.max(1, Number(e.target.value)) })} className="form-input !p-1.5 !text-xs" aria-label={t('layerComposer_width')} />
+                                    <input type="number" min={1} value={artboard.height} onChange={e => onUpdate(artboard.id, { height: Math.max(1, Number(e.target.value)) })} className="form-input !p-1.5 !text-xs" aria-label={t('layerComposer_height')} />
+                                    <div className="relative w-6 h-6" title={t('layerComposer_background')}>
+                                        <input type="color" value={artboard.background || '#ffffff'} onChange={e => onUpdate(artboard.id, { background: e.target.value })} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                                        <div className="w-full h-full rounded-full border-2 border-white/20 shadow-inner pointer-events-none" style={{ backgroundColor: artboard.background || 'transparent' }} />
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {artboards.length > 0 && (
+                <div className="pt-4 border-t border-neutral-700/50 space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                        {(['png', 'zip', 'svg', 'pdf'] as ArtboardExportFormat[]).map(f => (
+                            <button key={f} onClick={() => setFormat(f)} className={cn('btn btn-sm', format === f ? 'btn-primary' : 'btn-secondary')}>
+                                {t(`layerComposer_artboard_format_${f}`)}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={() => onExport(selectedArtboardIds, format)} disabled={isBusy || selectedArtboardIds.length === 0} className="btn btn-secondary btn-sm flex-1">
+                            {t('layerComposer_artboard_exportSelected', selectedArtboardIds.length)}
+                        </button>
+                        <button onClick={() => onExport(artboards.map(a => a.id), format)} disabled={isBusy} className="btn btn-secondary btn-sm flex-1">
+                            {t('layerComposer_artboard_exportAll')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
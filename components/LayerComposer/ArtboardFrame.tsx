@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion, useTransform, type MotionValue } from 'framer-motion';
+import { cn } from '../../lib/utils';
+import { type Artboard } from './LayerComposer.types';
+
+interface ArtboardFrameProps {
+    artboard: Artboard;
+    isSelected: boolean;
+    labelZIndex: number;
+    scaleMV: MotionValue<number>;
+    onSelect: (id: string, isAdditive: boolean) => void;
+}
+
+// Draws an artboard's background and outline under the layers, with its name above the
+// top-left corner at a constant on-screen size.
+export const ArtboardFrame: React.FC<ArtboardFrameProps> = ({ artboard, isSelected, labelZIndex, scaleMV, onSelect }) => {
+    const outlineWidth = useTransform(scaleMV, (s: number) => 1 / s);
+    const selectedOutlineWidth = useTransform(scaleMV, (s: number) => 2 / s);
+    const labelScale = useTransform(scaleMV, (s: number) => 1 / s);
+
+    return (
+        <>
+            <motion.div
+                className="absolute pointer-events-none"
+                style={{
+                    left: artboard.x,
+                    top: artboard.y,
+                    width: artboard.width,
+                    height: artboard.height,
+                    backgroundColor: artboard.background || 'transparent',
+                    outlineStyle: 'solid',
+                    outlineColor: isSelected ? '#facc15' : 'rgba(255, 255, 255, 0.3)',
+                    outlineWidth: isSelected ? selectedOutlineWidth : outlineWidth,
+                }}
+            />
+            <div className="absolute" style={{ left: artboard.x, top: artboard.y, zIndex: labelZIndex }}>
+                <motion.div
+                    className={cn("absolute bottom-0 left-0 pb-1 whitespace-nowrap text-sm cursor-pointer select-none", isSelected ? 'text-yellow-400' : 'text-neutral-400 hover:text-white')}
+                    style={{ scale: labelScale, originX: 0, originY: 1 }}
+                    onPointerDown={(e) => { e.stopPropagation(); onSelect(artboard.id, e.shiftKey || e.ctrlKey || e.metaKey); }}
+                >
+                    {artboard.name} <span className="text-xs opacity-70">{artboard.width}×{artboard.height}</span>
+                </motion.div>
+            </div>
+        </>
+    );
+};
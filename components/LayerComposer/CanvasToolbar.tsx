@@ -5,7 +5,7 @@
 import React from 'react';
 import { cn } from '../../lib/utils';
 import { type CanvasTool } from './LayerComposer.types';
-import { UndoIcon, RedoIcon, ZoomOutIcon, ZoomInIcon, HandIcon, RectangleIcon, EllipseIcon } from '../icons';
+import { UndoIcon, RedoIcon, ZoomOutIcon, ZoomInIcon, HandIcon, RectangleIcon, EllipseIcon, PolygonIcon, StarIcon, PenIcon } from '../icons';
 
 interface CanvasToolbarProps {
     zoomDisplay: number;
@@ -45,6 +45,15 @@ export const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
             <button onClick={() => onToolSelect('ellipse')} title="Ellipse Tool" className={cn("p-2 rounded-md transition-colors", activeTool === 'ellipse' && 'bg-neutral-700')}>
                 <EllipseIcon className="h-5 w-5" strokeWidth="1.5" />
             </button>
+            <button onClick={() => onToolSelect('polygon')} title="Polygon Tool" className={cn("p-2 rounded-md transition-colors", activeTool === 'polygon' && 'bg-neutral-700')}>
+                <PolygonIcon className="h-5 w-5" strokeWidth="1.5" />
+            </button>
+            <button onClick={() => onToolSelect('star')} title="Star Tool" className={cn("p-2 rounded-md transition-colors", activeTool === 'star' && 'bg-neutral-700')}>
+                <StarIcon className="h-5 w-5" strokeWidth="1.5" />
+            </button>
+            <button onClick={() => onToolSelect('pen')} title="Pen Tool (P)" className={cn("p-2 rounded-md transition-colors", activeTool === 'pen' && 'bg-neutral-700')}>
+                <PenIcon className="h-5 w-5" />
+            </button>
         </div>
     );
 };
\ No newline at end of file
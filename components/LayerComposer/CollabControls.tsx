@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { useAppControls } from '../uiUtils';
+import { getSessionClaims } from '../../lib/auth';
+import { type CollabPeer, type CollabStatus } from './useLayerComposerCollab';
+
+interface CollabControlsProps {
+    status: CollabStatus;
+    roomId: string | null;
+    peers: CollabPeer[];
+    selfColor: string;
+    onJoin: (roomId: string, name: string) => void;
+    onLeave: () => void;
+}
+
+const createRoomId = () => Math.random().toString(36).substring(2, 9);
+
+export const CollabControls: React.FC<CollabControlsProps> = ({ status, roomId, peers, selfColor, onJoin, onLeave }) => {
+    const { t } = useAppControls();
+    const [name, setName] = useState(() => getSessionClaims()?.sub || '');
+    const [roomInput, setRoomInput] = useState('');
+    const displayName = name.trim() || t('layerComposer_collab_guest');
+    const typedRoomId = roomInput.trim();
+
+    if (status === 'connecting' || status === 'syncing') {
+        return <p className="p-3 text-sm text-neutral-400">{t(`layerComposer_collab_status_${status}`)}</p>;
+    }
+
+    if (status === 'online' && roomId) {
+        return (
+            <div className="p-3 space-y-3 text-sm">
+                <div className="flex items-center gap-2">
+                    <span className="text-neutral-400">{t('layerComposer_collab_room')}</span>
+                    <code className="flex-grow font-mono text-yellow-400 select-all">{roomId}</code>
+                    <button onClick={() => navigator.clipboard?.writeText(roomId)} className="btn btn-secondary btn-sm">{t('layerComposer_collab_copy')}</button>
+                </div>
+                <ul className="space-y-1">
+                    <li className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: selfColor }} />
+                        <span className="text-neutral-200">{t('layerComposer_collab_you', displayName)}</span>
+                    </li>
+                    {peers.map(peer => (
+                        <li key={peer.id} className="flex items-center gap-2">
+                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: peer.color }} />
+                            <span className="text-neutral-300">{peer.name}</span>
+                        </li>
+                    ))}
+                </ul>
+                <p className="text-xs text-neutral-500">{t('layerComposer_collab_undoHint')}</p>
+                <button onClick={onLeave} className="btn btn-secondary btn-sm w-full">{t('layerComposer_collab_leave')}</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-3 space-y-3 text-sm">
+            <p className="text-xs text-neutral-400">{t('layerComposer_collab_desc')}</p>
+            <div>
+                <label htmlFor="collab-name" className="block font-medium text-neutral-300 mb-1">{t('layerComposer_collab_name')}</label>
+                <input id="collab-name" type="text" value={name} onChange={e => setName(e.target.value)} placeholder={t('layerComposer_collab_guest')} className="form-input !p-1.5 !text-sm w-full" />
+            </div>
+            <button onClick={() => onJoin(createRoomId(), displayName)} className="btn btn-primary btn-sm w-full">{t('layerComposer_collab_create')}</button>
+            <div className="flex gap-2">
+                <input type="text" value={roomInput} onChange={e => setRoomInput(e.target.value)} placeholder={t('layerComposer_collab_roomPlaceholder')} className="form-input !p-1.5 !text-sm flex-grow" aria-label={t('layerComposer_collab_room')} />
+                <button onClick={() => onJoin(typedRoomId, displayName)} disabled={!typedRoomId} className="btn btn-secondary btn-sm flex-shrink-0">{t('layerComposer_collab_join')}</button>
+            </div>
+            <p className="text-xs text-neutral-500">{t('layerComposer_collab_joinHint')}</p>
+        </div>
+    );
+};
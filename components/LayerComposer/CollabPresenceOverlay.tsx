@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion, useTransform, type MotionValue } from 'framer-motion';
+import { type Layer } from './LayerComposer.types';
+import { type CollabPeer } from './useLayerComposerCollab';
+
+interface CollabPresenceOverlayProps {
+    peers: CollabPeer[];
+    layers: Layer[];
+    scaleMV: MotionValue<number>;
+    zIndex: number;
+}
+
+/**
+ * The other people in the room: an outline in their colour around each layer they have
+ * selected, and their pointer with their name. Drawn in canvas coordinates at a constant
+ * size on screen.
+ */
+export const CollabPresenceOverlay: React.FC<CollabPresenceOverlayProps> = ({ peers, layers, scaleMV, zIndex }) => {
+    const borderWidth = useTransform(scaleMV, (s: number) => 2 / s);
+    const inverseScale = useTransform(scaleMV, (s: number) => 1 / s);
+
+    return (
+        <>
+            {peers.map(peer => (
+                <React.Fragment key={peer.id}>
+                    {layers.filter(l => peer.selection.includes(l.id)).map(layer => (
+                        <motion.div
+                            key={layer.id}
+                            className="absolute pointer-events-none"
+                            style={{ left: layer.x, top: layer.y, width: layer.width, height: layer.height, rotate: layer.rotation, borderStyle: 'solid', borderColor: peer.color, borderWidth, zIndex }}
+                        />
+                    ))}
+                    {peer.cursor && (
+                        <motion.div
+                            className="absolute pointer-events-none flex items-start gap-1"
+                            style={{ left: peer.cursor.x, top: peer.cursor.y, scale: inverseScale, transformOrigin: 'top left', zIndex: zIndex + 1 }}
+                        >
+                            <svg width="16" height="16" viewBox="0 0 16 16" className="drop-shadow">
+                                <path d="M1 1 L1 13 L4.5 9.5 L7 15 L9 14 L6.5 8.5 L11.5 8.5 Z" fill={peer.color} stroke="#ffffff" strokeWidth="1" />
+                            </svg>
+                            <span className="mt-3 px-1.5 py-0.5 rounded text-xs font-semibold text-white whitespace-nowrap" style={{ backgroundColor: peer.color }}>
+                                {peer.name}
+                            </span>
+                        </motion.div>
+                    )}
+                </React.Fragment>
+            ))}
+        </>
+    );
+};
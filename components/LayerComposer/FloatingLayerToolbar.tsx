@@ -6,9 +6,9 @@ import React from 'react';
 import { motion, useTransform, type MotionValue } from 'framer-motion';
 import { cn } from '../../lib/utils';
 import { type Layer } from './LayerComposer.types';
-import { EditorIcon, BakeIcon, DownloadIcon, DuplicateIcon, DeleteIcon } from '../icons';
+import { EditorIcon, BakeIcon, DownloadIcon, DuplicateIcon, DeleteIcon, UngroupIcon } from '../icons';
 
-export type LayerAction = 'duplicate' | 'delete' | 'export' | 'edit' | 'bake';
+export type LayerAction = 'duplicate' | 'delete' | 'export' | 'export-svg' | 'export-pdf' | 'edit' | 'bake' | 'ungroup';
 
 interface FloatingLayerToolbarProps {
     layer: Layer;
@@ -57,12 +57,26 @@ export const FloatingLayerToolbar: React.FC<FloatingLayerToolbarProps> = ({ laye
                     <div className="w-px h-5 bg-white/20 mx-1 self-center" />
                 </>
             )}
+            {layer.type === 'group' && (
+                 <>
+                    <ToolButton label="Rã nhóm (Ungroup)" onClick={() => onAction('ungroup')}>
+                        <UngroupIcon className="h-5 w-5" />
+                    </ToolButton>
+                    <div className="w-px h-5 bg-white/20 mx-1 self-center" />
+                </>
+            )}
             <ToolButton label="Nung Layer (Bake Layer)" onClick={() => onAction('bake')}>
                 <BakeIcon className="h-5 w-5" strokeWidth="1.5" />
             </ToolButton>
             <ToolButton label="Xuất Layer (PNG)" onClick={() => onAction('export')}>
                 <DownloadIcon className="h-5 w-5" strokeWidth="1.5" />
             </ToolButton>
+            <ToolButton label="Xuất Layer (SVG)" onClick={() => onAction('export-svg')}>
+                <span className="block h-5 text-[11px] font-bold leading-5">SVG</span>
+            </ToolButton>
+            <ToolButton label="Xuất Layer (PDF)" onClick={() => onAction('export-pdf')}>
+                <span className="block h-5 text-[11px] font-bold leading-5">PDF</span>
+            </ToolButton>
             <div className="w-px h-5 bg-white/20 mx-1 self-center" />
             <ToolButton label="Nhân bản Layer" onClick={() => onAction('duplicate')}>
                 <DuplicateIcon className="h-5 w-5" strokeWidth="1.5" />
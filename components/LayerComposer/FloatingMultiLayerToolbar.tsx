@@ -18,6 +18,7 @@ import {
     DistributeHorizontalScaleIcon,
     DistributeVerticalScaleIcon,
     MergeIcon, 
+    GroupIcon,
     DownloadIcon, 
     DuplicateIcon, 
     DeleteIcon 
@@ -111,9 +112,18 @@ export const FloatingMultiLayerToolbar: React.FC<FloatingMultiLayerToolbarProps>
              <ToolButton label="Gộp Layer" onClick={() => onAction('merge')} disabled={selectedLayerCount < 2}>
                 <MergeIcon className="h-5 w-5" strokeWidth="1.5" />
             </ToolButton>
+            <ToolButton label="Nhóm Layer (Group)" onClick={() => onAction('group')}>
+                <GroupIcon className="h-5 w-5" />
+            </ToolButton>
             <ToolButton label="Xuất" onClick={() => onAction('export')}>
                 <DownloadIcon className="h-5 w-5" strokeWidth="1.5" />
             </ToolButton>
+            <ToolButton label="Xuất SVG (mỗi layer một file)" onClick={() => onAction('export-svg')}>
+                <span className="block h-5 text-[11px] font-bold leading-5">SVG</span>
+            </ToolButton>
+            <ToolButton label="Xuất PDF (mỗi layer một trang)" onClick={() => onAction('export-pdf')}>
+                <span className="block h-5 text-[11px] font-bold leading-5">PDF</span>
+            </ToolButton>
 
             <div className="w-px h-5 bg-white/20 mx-1 self-center" />
 
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { useAppControls } from '../uiUtils';
+import { cn } from '../../lib/utils';
+import { type GenerationRecipe, type Layer } from './LayerComposer.types';
+import { type RecipeStatus } from './LayerComposer.recipes';
+
+interface GenerationRecipeControlsProps {
+    layer: Layer & { generation: GenerationRecipe };
+    layers: Layer[];
+    status: RecipeStatus;
+    staleLayerCount: number;
+    isBusy: boolean;
+    onRegenerate: (layerId: string) => void;
+    onMakeVariations: (layerId: string) => void;
+    onUpdateStaleLayers: (layerIds?: string[]) => void;
+}
+
+const STATUS_STYLES: Record<RecipeStatus, string> = {
+    'current': 'text-green-400',
+    'stale': 'text-amber-400',
+    'missing-inputs': 'text-red-400',
+};
+
+export const GenerationRecipeControls: React.FC<GenerationRecipeControlsProps> = ({
+    layer, layers, status, staleLayerCount, isBusy, onRegenerate, onMakeVariations, onUpdateStaleLayers,
+}) => {
+    const { t } = useAppControls();
+    const recipe = layer.generation;
+    const prompt = recipe.userPrompt || recipe.prompt;
+    const canRun = status !== 'missing-inputs';
+
+    return (
+        <div className="p-3 space-y-3 text-sm border-b border-neutral-700/50">
+            <div className="flex items-center justify-between">
+                <h5 className="font-semibold text-neutral-200">{t('layerComposer_recipe_title')}</h5>
+                <span className="text-xs text-neutral-400">{t(`layerComposer_recipe_mode_${recipe.mode}`)} · #{recipe.variation + 1}</span>
+            </div>
+            <p className={cn('text-xs', STATUS_STYLES[status])}>{t(`layerComposer_recipe_status_${status}`)}</p>
+            {prompt && <p className="text-xs text-neutral-300 bg-neutral-900/60 rounded-md p-2 max-h-24 overflow-y-auto whitespace-pre-wrap">{prompt}</p>}
+            {recipe.inputs.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {recipe.inputs.map((input, index) => {
+                        const inputLayer = layers.find(l => l.id === input.layerId);
+                        return (
+                            <span key={input.layerId} className={cn('text-xs px-2 py-0.5 rounded-full bg-neutral-700', !inputLayer && 'line-through text-neutral-500')}>
+                                {inputLayer?.name || inputLayer?.text || t('layerComposer_recipe_input', index + 1)}
+                            </span>
+                        );
+                    })}
+                </div>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => onRegenerate(layer.id)} disabled={isBusy || !canRun} className="btn btn-secondary btn-sm">{t('layerComposer_recipe_regenerate')}</button>
+                <button onClick={() => onMakeVariations(layer.id)} disabled={isBusy || !canRun} className="btn btn-secondary btn-sm">{t('layerComposer_recipe_variations')}</button>
+            </div>
+            {status === 'stale' && (
+                <button onClick={() => onUpdateStaleLayers([layer.id])} disabled={isBusy} className="btn btn-primary btn-sm w-full">{t('layerComposer_recipe_update')}</button>
+            )}
+            {staleLayerCount > 1 && (
+                <button onClick={() => onUpdateStaleLayers()} disabled={isBusy} className="btn btn-secondary btn-sm w-full">{t('layerComposer_recipe_updateAll', staleLayerCount)}</button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { useAppControls } from '../uiUtils';
+import { cn } from '../../lib/utils';
+import { type Layer, type MaskBrush } from './LayerComposer.types';
+import { type OutpaintPadding } from './LayerComposer.inpaint';
+
+interface InpaintControlsProps {
+    layer: Layer;
+    selectedLayerCount: number;
+    isBusy: boolean;
+    isEditingRegion: boolean;
+    brush: MaskBrush;
+    setBrush: React.Dispatch<React.SetStateAction<MaskBrush>>;
+    onEditRegion: (layerId: string | null) => void;
+    onRegionFromSelection: () => void;
+    onInpaint: (prompt: string) => void;
+    onOutpaint: (layerId: string, padding: OutpaintPadding, prompt: string) => void;
+}
+
+// The region is painted as an inverted mask, so hiding marks an area and revealing unmarks it.
+const BRUSH_MODES: { mode: MaskBrush['mode']; labelKey: string }[] = [
+    { mode: 'hide', labelKey: 'layerComposer_inpaint_brush_add' },
+    { mode: 'reveal', labelKey: 'layerComposer_inpaint_brush_erase' },
+];
+
+const SIDES: (keyof OutpaintPadding)[] = ['top', 'right', 'bottom', 'left'];
+
+export const InpaintControls: React.FC<InpaintControlsProps> = ({
+    layer, selectedLayerCount, isBusy, isEditingRegion, brush, setBrush,
+    onEditRegion, onRegionFromSelection, onInpaint, onOutpaint,
+}) => {
+    const { t } = useAppControls();
+    const [prompt, setPrompt] = useState('');
+    const [padding, setPadding] = useState<OutpaintPadding>({ top: 0, right: 0, bottom: 0, left: 0 });
+    const hasPadding = SIDES.some(side => padding[side] > 0);
+
+    const handleQuarterPadding = () => {
+        const x = Math.round(layer.width * 0.25);
+        const y = Math.round(layer.height * 0.25);
+        setPadding({ top: y, right: x, bottom: y, left: x });
+    };
+
+    return (
+        <div className="p-3 space-y-4 text-sm">
+            <textarea
+                value={prompt}
+                onChange={e => setPrompt(e.target.value)}
+                placeholder={t('layerComposer_inpaint_prompt_placeholder')}
+                className="form-input !text-sm w-full h-20 resize-none"
+                rows={3}
+            />
+
+            <div className="space-y-3">
+                <h5 className="font-semibold text-neutral-200">{t('layerComposer_inpaint_title')}</h5>
+                <p className="text-xs text-neutral-400">{t('layerComposer_inpaint_desc')}</p>
+                <button
+                    onClick={() => onEditRegion(isEditingRegion ? null : layer.id)}
+                    className={cn('btn btn-sm w-full', isEditingRegion ? 'btn-primary' : 'btn-secondary')}
+                    disabled={!layer.isVisible}
+                >
+                    {isEditingRegion ? t('layerComposer_inpaint_cancel') : t('layerComposer_inpaint_paint')}
+                </button>
+                {isEditingRegion && (
+                    <>
+                        <div className="flex gap-2">
+                            {BRUSH_MODES.map(({ mode, labelKey }) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setBrush(b => ({ ...b, mode }))}
+                                    className={cn('btn btn-sm flex-1', brush.mode === mode ? 'btn-primary' : 'btn-secondary')}
+                                >
+                                    {t(labelKey)}
+                                </button>
+                            ))}
+                        </div>
+                        <div>
+                            <label htmlFor="inpaint-brush-size" className="block font-medium text-neutral-300 mb-1">{t('layerComposer_mask_brushSize')} ({brush.size}px)</label>
+                            <input
+                                id="inpaint-brush-size"
+                                type="range"
+                                min="2"
+                                max="400"
+                                value={brush.size}
+                                onChange={(e) => setBrush(b => ({ ...b, size: Number(e.target.value) }))}
+                                className="slider-track"
+                            />
+                        </div>
+                        <button onClick={() => onInpaint(prompt)} disabled={isBusy} className="btn btn-primary btn-sm w-full">
+                            {t('layerComposer_inpaint_run')}
+                        </button>
+                    </>
+                )}
+                {selectedLayerCount > 1 && (
+                    <div className="space-y-2">
+                        <button onClick={onRegionFromSelection} disabled={isBusy} className="btn btn-secondary btn-sm w-full">{t('layerComposer_inpaint_fromSelection')}</button>
+                        <p className="text-xs text-neutral-500">{t('layerComposer_inpaint_fromSelection_desc')}</p>
+                    </div>
+                )}
+            </div>
+
+            <div className="pt-4 border-t border-neutral-700/50 space-y-3">
+                <h5 className="font-semibold text-neutral-200">{t('layerComposer_outpaint_title')}</h5>
+                <p className="text-xs text-neutral-400">{t('layerComposer_outpaint_desc')}</p>
+                <div className="grid grid-cols-4 gap-2">
+                    {SIDES.map(side => (
+                        <div key={side}>
+                            <label htmlFor={`outpaint-${side}`} className="block text-xs text-neutral-400 mb-1">{t(`layerComposer_outpaint_${side}`)}</label>
+                            <input
+                                id={`outpaint-${side}`}
+                                type="number"
+                                min={0}
+                                value={padding[side]}
+                                onChange={e => setPadding(p => ({ ...p, [side]: Math.max(0, Number(e.target.value) || 0) }))}
+                                className="form-input !p-1.5 !text-xs w-full"
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={handleQuarterPadding} className="btn btn-secondary btn-sm flex-1">{t('layerComposer_outpaint_preset')}</button>
+                    <button onClick={() => onOutpaint(layer.id, padding, prompt)} disabled={isBusy || !hasPadding} className="btn btn-primary btn-sm flex-1">
+                        {t('layerComposer_outpaint_run')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Artboard, type Layer } from './LayerComposer.types';
+import { captureCanvas } from './LayerComposer.utils';
+
+export interface ArtboardPreset {
+    id: string;
+    label: string;
+    width: number;
+    height: number;
+}
+
+// Common sizes for social posts and banners, in pixels.
+export const ARTBOARD_PRESETS: ArtboardPreset[] = [
+    { id: 'instagram-post', label: 'Instagram Post', width: 1080, height: 1080 },
+    { id: 'instagram-portrait', label: 'Instagram Portrait', width: 1080, height: 1350 },
+    { id: 'story', label: 'Story / Reels', width: 1080, height: 1920 },
+    { id: 'facebook-post', label: 'Facebook Post', width: 1200, height: 630 },
+    { id: 'facebook-cover', label: 'Facebook Cover', width: 1640, height: 624 },
+    { id: 'youtube-thumbnail', label: 'YouTube Thumbnail', width: 1280, height: 720 },
+    { id: 'x-header', label: 'X Header', width: 1500, height: 500 },
+    { id: 'linkedin-banner', label: 'LinkedIn Banner', width: 1584, height: 396 },
+    { id: 'a4', label: 'A4 (300 DPI)', width: 2480, height: 3508 },
+];
+
+// Space left between an artboard and the one placed after it.
+const ARTBOARD_GAP = 100;
+
+export const getArtboardPreset = (artboard: Artboard): ArtboardPreset | undefined =>
+    ARTBOARD_PRESETS.find(p => p.width === artboard.width && p.height === artboard.height);
+
+/**
+ * Creates an artboard of the given size to the right of the existing ones, top-aligned
+ * with the first, so a carousel reads left to right.
+ */
+export const createArtboard = (artboards: Artboard[], name: string, width: number, height: number): Artboard => {
+    const right = artboards.reduce((max, a) => Math.max(max, a.x + a.width), -Infinity);
+    return {
+        id: Math.random().toString(36).substring(2, 9),
+        name,
+        x: artboards.length > 0 ? right + ARTBOARD_GAP : 0,
+        y: artboards.length > 0 ? artboards[0].y : 0,
+        width,
+        height,
+        background: '#ffffff',
+    };
+};
+
+/** Renders the layers inside an artboard's bounds over its background, as a PNG data URL. */
+export const captureArtboard = (artboard: Artboard, layers: Layer[]): Promise<string> =>
+    captureCanvas(layers, { x: artboard.x, y: artboard.y, width: artboard.width, height: artboard.height }, artboard.background);
@@ -0,0 +1,325 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type CanvasSettings, type Layer, type Point } from './LayerComposer.types';
+import { normalizeLayerTree } from './LayerComposer.hierarchy';
+
+// The shared document behind a collaborative canvas, a CRDT. Every layer property and
+// every canvas setting is a last-writer-wins register stamped with a Lamport clock and the
+// peer that wrote it, so peers that have seen the same writes hold the same document
+// whatever order the writes came in. Two people changing different properties of a layer,
+// one moving it while the other turns it, both keep their change. A layer's place in the
+// stack is a register too, holding a fractional key, so a move only rewrites the keys of
+// the layers that moved. Deleted layers stay behind as tombstones.
+
+export interface CollabStamp {
+    clock: number;
+    peer: string;
+}
+
+interface Register {
+    value?: unknown;
+    stamp: CollabStamp;
+}
+
+// A write to one register: a property of a layer, or a canvas setting when there's no layer.
+export interface CollabOp {
+    layerId?: string;
+    key: string;
+    value?: unknown;
+    stamp: CollabStamp;
+}
+
+export interface CollabSnapshot {
+    clock: number;
+    layers: Record<string, Record<string, Register>>;
+    settings: Record<string, Register>;
+}
+
+export interface CollabDocument extends CollabSnapshot {
+    // The peer this copy of the document writes as.
+    peer: string;
+}
+
+// What a peer shows the others besides the document: who they are, where their pointer
+// is on the canvas and which layers they have selected.
+export interface CollabPresence {
+    name: string;
+    color: string;
+    cursor: Point | null;
+    selection: string[];
+}
+
+// Layer images go out as image store references. A peer that lacks one asks the sender
+// for it and gets its data URL back in chunks small enough for the relay.
+export type CollabMessage =
+    | { type: 'ops'; ops: CollabOp[] }
+    | { type: 'state-request' }
+    | { type: 'state'; snapshot: CollabSnapshot }
+    | { type: 'presence'; presence: CollabPresence }
+    | { type: 'image-request'; refs: string[] }
+    | { type: 'image-chunk'; ref: string; index: number; count: number; data: string }
+    | { type: 'image-missing'; ref: string };
+
+// Layer registers that aren't layer properties: the stack position and the tombstone.
+// Layer properties never start with '$'.
+export const ORDER_KEY = '$order';
+export const DELETED_KEY = '$deleted';
+
+const PRESENCE_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#ec4899', '#a855f7', '#14b8a6', '#eab308', '#ef4444'];
+
+const compareStamps = (a: CollabStamp, b: CollabStamp): number => {
+    if (a.clock !== b.clock) return a.clock - b.clock;
+    return a.peer < b.peer ? -1 : a.peer > b.peer ? 1 : 0;
+};
+
+const valuesEqual = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const withValue = (layer: Layer, key: string, value: unknown): Layer => {
+    const next: Record<string, unknown> = { ...layer };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    return next as unknown as Layer;
+};
+
+export const getPresenceColor = (peer: string): string => {
+    let hash = 0;
+    for (let i = 0; i < peer.length; i++) hash = (hash * 31 + peer.charCodeAt(i)) | 0;
+    return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
+
+// --- Order keys ---
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// A key that sorts strictly between `lower` and `upper` (null for no bound). Keys never
+// end in '0', so there is always room for another one below.
+const getKeyBetween = (lower: string | null, upper: string | null): string => {
+    const a = lower ?? '';
+    if (upper !== null) {
+        let n = 0;
+        while (n < upper.length && (a[n] || '0') === upper[n]) n++;
+        if (n > 0) return upper.slice(0, n) + getKeyBetween(a.slice(n), upper.slice(n));
+    }
+    const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+    const digitB = upper !== null ? DIGITS.indexOf(upper[0]) : DIGITS.length;
+    if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+    if (upper !== null && upper.length > 1) return upper.slice(0, 1);
+    return DIGITS[digitA] + getKeyBetween(a.slice(1), null);
+};
+
+// The indices of a longest strictly increasing run of keys, skipping missing ones. Those
+// keys can stay as they are; only the others need new ones.
+const getIncreasingRun = (keys: (string | undefined)[]): Set<number> => {
+    const tails: number[] = [];
+    const previous: number[] = keys.map(() => -1);
+    keys.forEach((key, index) => {
+        if (key === undefined) return;
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (keys[tails[middle]]! < key) low = middle + 1;
+            else high = middle;
+        }
+        if (low > 0) previous[index] = tails[low - 1];
+        tails[low] = index;
+    });
+    const run = new Set<number>();
+    for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index >= 0; index = previous[index]) run.add(index);
+    return run;
+};
+
+// --- Document ---
+
+export const createCollabDocument = (peer: string): CollabDocument => ({ peer, clock: 0, layers: {}, settings: {} });
+
+/**
+ * Merges writes into the document; older writes to a register than the one it holds are
+ * dropped. Returns whether anything changed.
+ */
+export const applyCollabOps = (doc: CollabDocument, ops: CollabOp[]): boolean => {
+    let hasChanged = false;
+    ops.forEach(op => {
+        doc.clock = Math.max(doc.clock, op.stamp.clock);
+        const registers = op.layerId === undefined ? doc.settings : (doc.layers[op.layerId] ??= {});
+        const existing = registers[op.key];
+        if (existing && compareStamps(op.stamp, existing.stamp) <= 0) return;
+        registers[op.key] = { value: op.value, stamp: op.stamp };
+        hasChanged = true;
+    });
+    return hasChanged;
+};
+
+export const getCollabSnapshot = (doc: CollabDocument): CollabSnapshot => ({ clock: doc.clock, layers: doc.layers, settings: doc.settings });
+
+export const mergeCollabSnapshot = (doc: CollabDocument, snapshot: CollabSnapshot): boolean => {
+    const ops: CollabOp[] = Object.entries(snapshot.settings).map(([key, register]) => ({ key, ...register }));
+    Object.entries(snapshot.layers).forEach(([layerId, registers]) => {
+        Object.entries(registers).forEach(([key, register]) => ops.push({ layerId, key, ...register }));
+    });
+    doc.clock = Math.max(doc.clock, snapshot.clock);
+    return applyCollabOps(doc, ops);
+};
+
+// Whether this peer made the last write to a register, which decides what its undo may revert.
+export const isOwnCollabWrite = (doc: CollabDocument, layerId: string, key: string): boolean =>
+    doc.layers[layerId]?.[key]?.stamp.peer === doc.peer;
+
+/**
+ * The layers the document holds, topmost first. Layers equal to theirs in `previous` are
+ * reused, and `previous` itself is returned when nothing differs, so unchanged layers
+ * keep their identity.
+ */
+export const readCollabLayers = (doc: CollabDocument, previous: Layer[]): Layer[] => {
+    const previousById = new Map(previous.map(l => [l.id, l]));
+    const entries = Object.entries(doc.layers).filter(([, registers]) => registers[DELETED_KEY]?.value === false);
+    const orderOf = (registers: Record<string, Register>) => (registers[ORDER_KEY]?.value as string | undefined) ?? '';
+    entries.sort(([idA, a], [idB, b]) => {
+        const keyA = orderOf(a);
+        const keyB = orderOf(b);
+        if (keyA !== keyB) return keyA < keyB ? 1 : -1;
+        return idA < idB ? 1 : -1;
+    });
+    const layers = entries.map(([id, registers]) => {
+        const fields: Record<string, unknown> = { id };
+        Object.entries(registers).forEach(([key, register]) => {
+            if (!key.startsWith('$') && register.value !== undefined) fields[key] = register.value;
+        });
+        const existing = previousById.get(id) as unknown as Record<string, unknown> | undefined;
+        const isUnchanged = existing
+            && Object.keys(existing).length === Object.keys(fields).length
+            && Object.keys(fields).every(key => valuesEqual(existing[key], fields[key]));
+        return (isUnchanged ? existing : fields) as unknown as Layer;
+    });
+    const normalized = normalizeLayerTree(layers);
+    return normalized.length === previous.length && normalized.every((l, i) => l === previous[i]) ? previous : normalized;
+};
+
+export const readCollabSettings = (doc: CollabDocument, previous: CanvasSettings): CanvasSettings => {
+    const next: Record<string, unknown> = { ...previous };
+    let hasChanged = false;
+    Object.entries(doc.settings).forEach(([key, register]) => {
+        if (valuesEqual(next[key], register.value)) return;
+        next[key] = register.value;
+        hasChanged = true;
+    });
+    return hasChanged ? next as unknown as CanvasSettings : previous;
+};
+
+/**
+ * Writes how `layers` differ from the document as this peer, and returns the writes to
+ * send. `previous` is the list the document last matched: layers still the same objects
+ * as there are known to be unchanged and their properties aren't compared.
+ */
+export const commitCollabLayers = (doc: CollabDocument, layers: Layer[], previous: Layer[]): CollabOp[] => {
+    const ops: CollabOp[] = [];
+    const stamp: CollabStamp = { clock: doc.clock + 1, peer: doc.peer };
+    const write = (layerId: string, key: string, value: unknown) => {
+        const op: CollabOp = { layerId, key, value, stamp };
+        applyCollabOps(doc, [op]);
+        ops.push(op);
+    };
+
+    const previousById = new Map(previous.map(l => [l.id, l]));
+    layers.forEach(layer => {
+        const isAlive = doc.layers[layer.id]?.[DELETED_KEY]?.value === false;
+        if (isAlive && previousById.get(layer.id) === layer) return;
+        if (!isAlive) write(layer.id, DELETED_KEY, false);
+        const registers = doc.layers[layer.id];
+        const fields = layer as unknown as Record<string, unknown>;
+        new Set([...Object.keys(fields), ...Object.keys(registers)]).forEach(key => {
+            if (key === 'id' || key.startsWith('$')) return;
+            if (!valuesEqual(fields[key], registers[key]?.value)) write(layer.id, key, fields[key]);
+        });
+    });
+
+    const ids = new Set(layers.map(l => l.id));
+    Object.entries(doc.layers).forEach(([id, registers]) => {
+        if (registers[DELETED_KEY]?.value === false && !ids.has(id)) write(id, DELETED_KEY, true);
+    });
+
+    // Keys ascend from the bottom of the stack. Layers out of order get keys between
+    // their neighbours; the longest run already in order keeps its keys.
+    const bottomUp = layers.map(l => l.id).reverse();
+    const keys = bottomUp.map(id => doc.layers[id][ORDER_KEY]?.value as string | undefined);
+    const run = getIncreasingRun(keys);
+    const nextKeptKey: (string | null)[] = [];
+    for (let index = bottomUp.length - 1, upper: string | null = null; index >= 0; index--) {
+        nextKeptKey[index] = upper;
+        if (run.has(index)) upper = keys[index]!;
+    }
+    let lower: string | null = null;
+    bottomUp.forEach((id, index) => {
+        if (run.has(index)) {
+            lower = keys[index]!;
+            return;
+        }
+        const key = getKeyBetween(lower, nextKeptKey[index]);
+        write(id, ORDER_KEY, key);
+        lower = key;
+    });
+    return ops;
+};
+
+export const commitCollabSettings = (doc: CollabDocument, settings: CanvasSettings): CollabOp[] => {
+    const stamp: CollabStamp = { clock: doc.clock + 1, peer: doc.peer };
+    const fields = settings as unknown as Record<string, unknown>;
+    const ops: CollabOp[] = Object.keys(fields)
+        .filter(key => !valuesEqual(fields[key], doc.settings[key]?.value))
+        .map(key => ({ key, value: fields[key], stamp }));
+    applyCollabOps(doc, ops);
+    return ops;
+};
+
+/**
+ * Carries the changes that turn `from` into `to` over to `layers`: added and deleted
+ * layers, changed properties and moves. `accept` is asked for each register a change
+ * touches, with DELETED_KEY standing for adding or deleting the layer and ORDER_KEY for
+ * moving it. Layers that came back or moved go above the layer below them in `to`.
+ */
+export const replayLayerChanges = (
+    layers: Layer[],
+    from: Layer[],
+    to: Layer[],
+    accept: (layerId: string, key: string) => boolean
+): Layer[] => {
+    const fromById = new Map(from.map(l => [l.id, l]));
+    const toById = new Map(to.map(l => [l.id, l]));
+    const belowIn = (list: Layer[]) => new Map(list.map((l, i) => [l.id, list[i + 1]?.id ?? null]));
+    const belowFrom = belowIn(from);
+    const belowTo = belowIn(to);
+
+    let result = layers
+        .filter(l => !(fromById.has(l.id) && !toById.has(l.id) && accept(l.id, DELETED_KEY)))
+        .map(layer => {
+            const before = fromById.get(layer.id) as unknown as Record<string, unknown> | undefined;
+            const after = toById.get(layer.id) as unknown as Record<string, unknown> | undefined;
+            if (!before || !after || before === after) return layer;
+            let next = layer;
+            new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+                if (key === 'id' || valuesEqual(before[key], after[key]) || !accept(layer.id, key)) return;
+                next = withValue(next, key, after[key]);
+            });
+            return next;
+        });
+
+    to.forEach((layer, index) => {
+        const isInResult = result.some(l => l.id === layer.id);
+        const shouldPlace = fromById.has(layer.id)
+            ? isInResult && belowFrom.get(layer.id) !== belowTo.get(layer.id) && accept(layer.id, ORDER_KEY)
+            : !isInResult && accept(layer.id, DELETED_KEY);
+        if (!shouldPlace) return;
+        const placed = result.find(l => l.id === layer.id) ?? layer;
+        result = result.filter(l => l.id !== layer.id);
+        let anchorIndex = -1;
+        for (let j = index + 1; j < to.length && anchorIndex < 0; j++) anchorIndex = result.findIndex(l => l.id === to[j].id);
+        result.splice(anchorIndex < 0 ? result.length : anchorIndex, 0, placed);
+    });
+    return normalizeLayerTree(result);
+};
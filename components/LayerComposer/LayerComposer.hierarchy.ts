@@ -0,0 +1,320 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type Point, getLayerCorners, getLayerDescendants } from './LayerComposer.types';
+
+// Groups are kept in the same flat, topmost-first list as every other layer: a group is
+// followed directly by its contents, each of which names its group in `parentId`. Code
+// that only cares about stacking order can keep treating the list as flat; the helpers
+// below rebuild the tree when the structure changes.
+
+export type LayerDropPosition = 'above' | 'below' | 'inside';
+
+interface LayerNode {
+    layer: Layer;
+    children: LayerNode[];
+}
+
+const createLayerId = () => Math.random().toString(36).substring(2, 9);
+
+const rotatePoint = (point: Point, degrees: number): Point => {
+    const rad = (degrees * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    return { x: point.x * cos - point.y * sin, y: point.x * sin + point.y * cos };
+};
+
+// --- Tree conversion ---
+
+const buildTree = (layers: Layer[]): LayerNode[] => {
+    const byId = new Map(layers.map(layer => [layer.id, layer]));
+    const nodes = new Map(layers.map(layer => [layer.id, { layer, children: [] } as LayerNode]));
+    // A parent must be a group, and following parents upwards must never lead back to
+    // the layer itself; anything else is placed at the top level.
+    const hasValidParent = (layer: Layer): boolean => {
+        const parent = layer.parentId ? byId.get(layer.parentId) : undefined;
+        if (!parent || parent.type !== 'group') return false;
+        const seen = new Set<string>();
+        for (let current: Layer | undefined = parent; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+            if (current.id === layer.id || seen.has(current.id)) return current.id !== layer.id;
+            seen.add(current.id);
+        }
+        return true;
+    };
+
+    const roots: LayerNode[] = [];
+    layers.forEach(layer => {
+        const node = nodes.get(layer.id)!;
+        if (hasValidParent(layer)) nodes.get(layer.parentId!)!.children.push(node);
+        else roots.push(node);
+    });
+    return roots;
+};
+
+const flattenTree = (nodes: LayerNode[], parentId?: string): Layer[] =>
+    nodes.flatMap(({ layer, children }) => {
+        let placed = layer;
+        if (layer.parentId !== parentId) {
+            placed = { ...layer, parentId };
+            if (!parentId) delete placed.parentId;
+        }
+        return [placed, ...flattenTree(children, layer.id)];
+    });
+
+const findSiblings = (nodes: LayerNode[], id: string): LayerNode[] | null => {
+    for (const node of nodes) {
+        if (node.layer.id === id) return nodes;
+        const found = findSiblings(node.children, id);
+        if (found) return found;
+    }
+    return null;
+};
+
+const detachNode = (nodes: LayerNode[], id: string): LayerNode | null => {
+    const siblings = findSiblings(nodes, id);
+    if (!siblings) return null;
+    const index = siblings.findIndex(node => node.layer.id === id);
+    return siblings.splice(index, 1)[0];
+};
+
+const insertNode = (nodes: LayerNode[], node: LayerNode, targetId: string, position: LayerDropPosition): boolean => {
+    const siblings = findSiblings(nodes, targetId);
+    if (!siblings) return false;
+    const index = siblings.findIndex(n => n.layer.id === targetId);
+    if (position === 'inside') {
+        if (siblings[index].layer.type !== 'group') return false;
+        siblings[index].children.unshift(node);
+    } else {
+        siblings.splice(position === 'above' ? index : index + 1, 0, node);
+    }
+    return true;
+};
+
+// --- Queries ---
+
+/**
+ * The groups a layer sits in, innermost first.
+ */
+export const getLayerAncestors = (layers: Layer[], layer: Layer): Layer[] => {
+    const ancestors: Layer[] = [];
+    const seen = new Set([layer.id]);
+    let parent = layer.parentId ? layers.find(l => l.id === layer.parentId) : undefined;
+    while (parent && !seen.has(parent.id)) {
+        ancestors.push(parent);
+        seen.add(parent.id);
+        parent = parent.parentId ? layers.find(l => l.id === parent!.parentId) : undefined;
+    }
+    return ancestors;
+};
+
+/**
+ * The given layers together with everything inside them, in stored order.
+ */
+export const getLayersWithDescendants = (layers: Layer[], ids: string[]): Layer[] => {
+    const included = new Set(ids);
+    return layers.filter(layer => {
+        if (included.has(layer.id)) return true;
+        if (layer.parentId && included.has(layer.parentId)) {
+            included.add(layer.id);
+            return true;
+        }
+        return false;
+    });
+};
+
+/**
+ * Drops layers whose group is also in the selection, so that nothing is moved twice.
+ */
+export const pruneNestedLayers = (layers: Layer[], selection: Layer[]): Layer[] => {
+    const ids = new Set(selection.map(l => l.id));
+    return selection.filter(layer => !getLayerAncestors(layers, layer).some(ancestor => ids.has(ancestor.id)));
+};
+
+export const isLayerShown = (layers: Layer[], layer: Layer): boolean =>
+    layer.isVisible && getLayerAncestors(layers, layer).every(ancestor => ancestor.isVisible);
+
+export const isLayerLocked = (layers: Layer[], layer: Layer): boolean =>
+    layer.isLocked || getLayerAncestors(layers, layer).some(ancestor => ancestor.isLocked);
+
+/**
+ * The layer a click on the canvas picks: the outermost group around the clicked layer,
+ * unless the layer or one of its groups is already selected.
+ */
+export const getSelectableLayer = (layers: Layer[], layer: Layer, selectedIds: string[]): Layer => {
+    const chain = [layer, ...getLayerAncestors(layers, layer)];
+    return chain.find(l => selectedIds.includes(l.id)) || chain[chain.length - 1];
+};
+
+// --- Structure ---
+
+/**
+ * The box of a group: the tightest box around its contents in the group's own rotation.
+ */
+const getGroupBox = (group: Layer, contents: Layer[]): Pick<Layer, 'x' | 'y' | 'width' | 'height'> | null => {
+    const corners = contents.filter(l => l.type !== 'group').flatMap(getLayerCorners).map(p => rotatePoint(p, -group.rotation));
+    if (corners.length === 0) return null;
+    const minX = Math.min(...corners.map(p => p.x));
+    const minY = Math.min(...corners.map(p => p.y));
+    const width = Math.max(...corners.map(p => p.x)) - minX;
+    const height = Math.max(...corners.map(p => p.y)) - minY;
+    const center = rotatePoint({ x: minX + width / 2, y: minY + height / 2 }, group.rotation);
+    return { x: center.x - width / 2, y: center.y - height / 2, width, height };
+};
+
+/**
+ * Brings a layer list back to its invariants: contents directly after their group,
+ * no dangling `parentId`, no empty groups, and every group box fitted to its contents.
+ * Layers that need no change keep their identity.
+ */
+export const normalizeLayerTree = (layers: Layer[]): Layer[] => {
+    const pruneEmptyGroups = (nodes: LayerNode[]): LayerNode[] => nodes
+        .map(node => ({ ...node, children: pruneEmptyGroups(node.children) }))
+        .filter(node => node.layer.type !== 'group' || node.children.length > 0);
+    const flat = flattenTree(pruneEmptyGroups(buildTree(layers)));
+    return flat.map(layer => {
+        if (layer.type !== 'group') return layer;
+        const box = getGroupBox(layer, getLayerDescendants(flat, layer.id));
+        if (!box || (box.x === layer.x && box.y === layer.y && box.width === layer.width && box.height === layer.height)) return layer;
+        return { ...layer, ...box };
+    });
+};
+
+/**
+ * Carries a change of a group's box over to its contents: they are moved, scaled and
+ * rotated with the group, in the group's own frame.
+ */
+const transformGroupContents = (layers: Layer[], from: Layer, to: Layer): Layer[] => {
+    const scaleX = from.width > 0 ? to.width / from.width : 1;
+    const scaleY = from.height > 0 ? to.height / from.height : 1;
+    const rotationDelta = to.rotation - from.rotation;
+    if (from.x === to.x && from.y === to.y && scaleX === 1 && scaleY === 1 && rotationDelta === 0) return layers;
+
+    const contentIds = new Set(getLayerDescendants(layers, from.id).map(l => l.id));
+    const fromCenter = { x: from.x + from.width / 2, y: from.y + from.height / 2 };
+    const toCenter = { x: to.x + to.width / 2, y: to.y + to.height / 2 };
+    return layers.map(layer => {
+        if (!contentIds.has(layer.id)) return layer;
+        const local = rotatePoint({ x: layer.x + layer.width / 2 - fromCenter.x, y: layer.y + layer.height / 2 - fromCenter.y }, -from.rotation);
+        const offset = rotatePoint({ x: local.x * scaleX, y: local.y * scaleY }, to.rotation);
+        const width = layer.width * scaleX;
+        const height = layer.height * scaleY;
+        return {
+            ...layer,
+            x: toCenter.x + offset.x - width / 2,
+            y: toCenter.y + offset.y - height / 2,
+            width,
+            height,
+            rotation: layer.rotation + rotationDelta,
+        };
+    });
+};
+
+/**
+ * Applies property changes to layers. Moving, resizing or rotating a group does the same
+ * to everything inside it.
+ */
+export const applyLayerUpdates = (layers: Layer[], updates: { id: string; props: Partial<Layer> }[]): Layer[] => {
+    let next = layers;
+    updates.forEach(({ id, props }) => {
+        const current = next.find(l => l.id === id);
+        if (!current) return;
+        const updated = { ...current, ...props };
+        next = next.map(l => l.id === id ? updated : l);
+        if (current.type === 'group') next = transformGroupContents(next, current, updated);
+    });
+    return normalizeLayerTree(next);
+};
+
+/**
+ * Moves the given layers one step up or down the stack, each among its siblings.
+ */
+export const moveLayersWithinParents = (layers: Layer[], ids: string[], direction: 'up' | 'down'): Layer[] => {
+    const selected = new Set(ids);
+    const shift = (nodes: LayerNode[]): LayerNode[] => {
+        const list = nodes.map(node => ({ ...node, children: shift(node.children) }));
+        const indices = list.map((node, index) => selected.has(node.layer.id) ? index : -1).filter(index => index !== -1);
+        if (direction === 'up') {
+            indices.forEach(index => {
+                if (index > 0 && !selected.has(list[index - 1].layer.id)) [list[index - 1], list[index]] = [list[index], list[index - 1]];
+            });
+        } else {
+            [...indices].reverse().forEach(index => {
+                if (index < list.length - 1 && !selected.has(list[index + 1].layer.id)) [list[index + 1], list[index]] = [list[index], list[index + 1]];
+            });
+        }
+        return list;
+    };
+    return flattenTree(shift(buildTree(layers)));
+};
+
+/**
+ * Moves a layer, with its contents, above, below or into another layer. Returns the list
+ * unchanged when the move is not possible, e.g. into the layer's own contents.
+ */
+export const moveLayerInTree = (layers: Layer[], layerId: string, targetId: string, position: LayerDropPosition): Layer[] => {
+    if (layerId === targetId || getLayerDescendants(layers, layerId).some(l => l.id === targetId)) return layers;
+    const roots = buildTree(layers);
+    const node = detachNode(roots, layerId);
+    if (!node || !insertNode(roots, node, targetId, position)) return layers;
+    return normalizeLayerTree(flattenTree(roots));
+};
+
+/**
+ * Puts the given layers into a new group, which takes the place of the topmost of them.
+ */
+export const groupLayers = (layers: Layer[], ids: string[]): { layers: Layer[]; group: Layer } | null => {
+    const members = pruneNestedLayers(layers, layers.filter(l => ids.includes(l.id)));
+    if (members.length === 0) return null;
+    const group: Layer = {
+        id: createLayerId(), type: 'group', x: 0, y: 0, width: 0, height: 0, rotation: 0,
+        opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false, isCollapsed: false,
+    };
+    const roots = buildTree(layers);
+    const groupNode: LayerNode = { layer: group, children: [] };
+    insertNode(roots, groupNode, members[0].id, 'above');
+    members.forEach(member => {
+        const node = detachNode(roots, member.id);
+        if (node) groupNode.children.push(node);
+    });
+    const grouped = normalizeLayerTree(flattenTree(roots));
+    return { layers: grouped, group: grouped.find(l => l.id === group.id)! };
+};
+
+/**
+ * Replaces a group with its contents, in the same place.
+ */
+export const ungroupLayer = (layers: Layer[], groupId: string): { layers: Layer[]; released: Layer[] } => {
+    const roots = buildTree(layers);
+    const siblings = findSiblings(roots, groupId);
+    const index = siblings ? siblings.findIndex(node => node.layer.id === groupId) : -1;
+    if (!siblings || index === -1 || siblings[index].layer.type !== 'group') return { layers, released: [] };
+    const { children } = siblings[index];
+    siblings.splice(index, 1, ...children);
+    const ungrouped = normalizeLayerTree(flattenTree(roots));
+    const releasedIds = new Set(children.map(node => node.layer.id));
+    return { layers: ungrouped, released: ungrouped.filter(l => releasedIds.has(l.id)) };
+};
+
+/**
+ * Copies the given layers, groups with all their contents, each copy placed right above
+ * its original. Returns the new list and the copies of the given layers.
+ */
+export const duplicateLayers = (layers: Layer[], ids: string[], offset: Point = { x: 0, y: 0 }): { layers: Layer[]; duplicates: Layer[] } => {
+    const originals = pruneNestedLayers(layers, layers.filter(l => ids.includes(l.id)));
+    const roots = buildTree(layers);
+    const copy = (node: LayerNode): LayerNode => ({
+        layer: { ...node.layer, id: createLayerId(), x: node.layer.x + offset.x, y: node.layer.y + offset.y },
+        children: node.children.map(copy),
+    });
+    const duplicateIds = new Set<string>();
+    originals.forEach(original => {
+        const source = findSiblings(roots, original.id)?.find(node => node.layer.id === original.id);
+        if (!source) return;
+        const duplicate = copy(source);
+        insertNode(roots, duplicate, original.id, 'above');
+        duplicateIds.add(duplicate.layer.id);
+    });
+    const duplicated = normalizeLayerTree(flattenTree(roots));
+    return { layers: duplicated, duplicates: duplicated.filter(l => duplicateIds.has(l.id)) };
+};
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type Rect } from './LayerComposer.types';
+import { captureCanvas, createCanvas, loadImage } from './LayerComposer.utils';
+
+// AI inpainting and outpainting. The model is shown an image with the area to redraw
+// tinted magenta. Only that area of its answer is kept, with a soft edge, and it goes
+// into a new layer so the original stays as it was.
+
+// Pixels for the model to redraw, and a canvas of the same size that is opaque where
+// they should change.
+export interface RepaintJob {
+    source: HTMLCanvasElement;
+    region: HTMLCanvasElement;
+}
+
+// Space to add on each side of an image layer, in canvas units.
+export interface OutpaintPadding {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+const REGION_TINT = 'rgba(255, 0, 255, 0.5)';
+// Captured pixels less opaque than this count as empty when filling a region.
+const EMPTY_ALPHA = 250;
+
+// How far the kept area reaches past the region and how soft its edge is, in pixels.
+const getEdgeSoftness = (canvas: HTMLCanvasElement) => Math.max(2, Math.round(Math.min(canvas.width, canvas.height) * 0.01));
+
+const isRegionEmpty = (region: HTMLCanvasElement): boolean => {
+    const ctx = region.getContext('2d');
+    if (!ctx) return true;
+    const { data } = ctx.getImageData(0, 0, region.width, region.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return false;
+    }
+    return true;
+};
+
+/**
+ * The image the model is shown: the source over white, since it can't see transparency,
+ * with the region tinted.
+ */
+export const createMarkedImage = (job: RepaintJob): string => {
+    const { width, height } = job.source;
+    const [canvas, ctx] = createCanvas(width, height);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(job.source, 0, 0);
+
+    const [tint, tintCtx] = createCanvas(width, height);
+    tintCtx.fillStyle = REGION_TINT;
+    tintCtx.fillRect(0, 0, width, height);
+    tintCtx.globalCompositeOperation = 'destination-in';
+    tintCtx.drawImage(job.region, 0, 0);
+    ctx.drawImage(tint, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Cuts the region out of the model's answer, scaled to the source's size. The region is
+ * grown a little and feathered, so the new pixels blend into the old ones without a seam.
+ */
+export const extractRepaintedRegion = async (job: RepaintJob, resultUrl: string): Promise<string> => {
+    const result = await loadImage(resultUrl);
+    const { width, height } = job.source;
+    const softness = getEdgeSoftness(job.source);
+
+    // Grow the region by stamping it around a circle, then blur the grown edge.
+    const [grown, grownCtx] = createCanvas(width, height);
+    for (let i = 0; i < 8; i++) {
+        const angle = i * Math.PI / 4;
+        grownCtx.drawImage(job.region, Math.cos(angle) * softness, Math.sin(angle) * softness);
+    }
+    const [keep, keepCtx] = createCanvas(width, height);
+    keepCtx.filter = `blur(${softness}px)`;
+    keepCtx.drawImage(grown, 0, 0);
+    keepCtx.filter = 'none';
+
+    const [canvas, ctx] = createCanvas(width, height);
+    ctx.drawImage(result, 0, 0, width, height);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(keep, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Redrawing part of an image layer: its image at full resolution, with the region
+ * painted in the layer's own box (as a mask-sized image).
+ */
+export const createInpaintJob = async (layer: Layer, regionUrl: string): Promise<RepaintJob> => {
+    if (layer.type !== 'image' || !layer.url) throw new Error('Chỉ có thể vẽ lại một phần của layer ảnh.');
+    const [image, regionImage] = await Promise.all([loadImage(layer.url), loadImage(regionUrl)]);
+    const [source, sourceCtx] = createCanvas(image.naturalWidth, image.naturalHeight);
+    sourceCtx.drawImage(image, 0, 0);
+    const [region, regionCtx] = createCanvas(source.width, source.height);
+    regionCtx.drawImage(regionImage, 0, 0, region.width, region.height);
+    if (isRegionEmpty(region)) throw new Error('Hãy tô vùng cần vẽ lại trên layer trước.');
+    return { source, region };
+};
+
+/**
+ * Extending an image layer by `padding`: the image on a larger canvas with the new
+ * margins to fill, and the box for the layer that holds the result. That box is the
+ * layer's own grown on each side and turned with it.
+ */
+export const createOutpaintJob = async (layer: Layer, padding: OutpaintPadding): Promise<{ job: RepaintJob; box: Rect }> => {
+    if (layer.type !== 'image' || !layer.url) throw new Error('Chỉ có thể mở rộng layer ảnh.');
+    const { top, right, bottom, left } = padding;
+    if (Math.min(top, right, bottom, left) < 0 || top + right + bottom + left <= 0) {
+        throw new Error('Hãy nhập khoảng cần mở rộng cho ít nhất một cạnh.');
+    }
+    const image = await loadImage(layer.url);
+    const scaleX = image.naturalWidth / layer.width;
+    const scaleY = image.naturalHeight / layer.height;
+    const width = layer.width + left + right;
+    const height = layer.height + top + bottom;
+
+    const [source, sourceCtx] = createCanvas(width * scaleX, height * scaleY);
+    sourceCtx.drawImage(image, left * scaleX, top * scaleY);
+    const [region, regionCtx] = createCanvas(source.width, source.height);
+    regionCtx.fillStyle = '#FFFFFF';
+    regionCtx.fillRect(0, 0, region.width, region.height);
+    regionCtx.clearRect(left * scaleX, top * scaleY, image.naturalWidth, image.naturalHeight);
+
+    // The center moves by half the difference between opposite sides, along the layer's axes.
+    const angle = layer.rotation * Math.PI / 180;
+    const dx = (right - left) / 2;
+    const dy = (bottom - top) / 2;
+    const centerX = layer.x + layer.width / 2 + dx * Math.cos(angle) - dy * Math.sin(angle);
+    const centerY = layer.y + layer.height / 2 + dx * Math.sin(angle) + dy * Math.cos(angle);
+    return {
+        job: { source, region },
+        box: { x: centerX - width / 2, y: centerY - height / 2, width, height },
+    };
+};
+
+/**
+ * Filling the parts of a canvas region that no layer covers, such as the space an
+ * artboard gained when it was enlarged.
+ */
+export const createFillEmptyJob = async (layers: Layer[], bounds: Rect): Promise<RepaintJob> => {
+    const capture = await loadImage(await captureCanvas(layers, bounds, null));
+    const [source, sourceCtx] = createCanvas(capture.naturalWidth, capture.naturalHeight);
+    sourceCtx.drawImage(capture, 0, 0);
+
+    const pixels = sourceCtx.getImageData(0, 0, source.width, source.height);
+    const { data } = pixels;
+    for (let i = 0; i < data.length; i += 4) {
+        const isEmpty = data[i + 3] < EMPTY_ALPHA;
+        data[i] = data[i + 1] = data[i + 2] = 255;
+        data[i + 3] = isEmpty ? 255 : 0;
+    }
+    const [region, regionCtx] = createCanvas(source.width, source.height);
+    regionCtx.putImageData(pixels, 0, 0);
+    if (isRegionEmpty(region)) throw new Error('Vùng này đã được các layer phủ kín, không còn chỗ trống để lấp.');
+    return { source, region };
+};
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type BlendMode, type Layer, type LayeredDocument, type Rect, getBoundingBoxForLayers } from './LayerComposer.types';
+import { captureCanvas, escapeXml, loadImage, renderAdjustmentLayer } from './LayerComposer.utils';
+import { normalizeLayerTree } from './LayerComposer.hierarchy';
+
+// OpenRaster (.ora), the layered format shared by Krita, GIMP and MyPaint: a ZIP with a
+// stack.xml listing the layers topmost first, one PNG per layer, and a flattened preview.
+// Spec: https://www.openraster.org/
+
+// Loaded from a CDN in index.html.
+declare const JSZip: any;
+
+const ORA_MIMETYPE = 'image/openraster';
+const THUMBNAIL_SIZE = 256;
+
+const COMPOSITE_OPS: Record<BlendMode, string> = {
+    'source-over': 'svg:src-over',
+    'multiply': 'svg:multiply',
+    'screen': 'svg:screen',
+    'overlay': 'svg:overlay',
+    'darken': 'svg:darken',
+    'lighten': 'svg:lighten',
+    'color-dodge': 'svg:color-dodge',
+    'color-burn': 'svg:color-burn',
+    'hard-light': 'svg:hard-light',
+    'soft-light': 'svg:soft-light',
+    'difference': 'svg:difference',
+    'exclusion': 'svg:exclusion',
+    'hue': 'svg:hue',
+    'saturation': 'svg:saturation',
+    'color': 'svg:color',
+    'luminosity': 'svg:luminosity',
+};
+
+const BLEND_MODES_BY_OP = Object.fromEntries(
+    Object.entries(COMPOSITE_OPS).map(([mode, op]) => [op, mode as BlendMode])
+) as Record<string, BlendMode>;
+
+// --- Import ---
+
+// Opacity, visibility, blend mode and name, shared by <layer> and <stack>. Composite ops
+// we have no blend mode for come in as normal.
+const readLayerAttributes = (element: Element) => {
+    const opacity = Number(element.getAttribute('opacity') ?? 1);
+    return {
+        name: element.getAttribute('name') || undefined,
+        opacity: Math.round(Math.min(1, Math.max(0, Number.isFinite(opacity) ? opacity : 1)) * 100),
+        isVisible: element.getAttribute('visibility') !== 'hidden',
+        blendMode: BLEND_MODES_BY_OP[element.getAttribute('composite-op') || ''] || 'source-over',
+    };
+};
+
+const readStack = async (zip: any, stack: Element, parentId: string | undefined, layers: Layer[]) => {
+    for (const element of Array.from(stack.children)) {
+        const id = Math.random().toString(36).substring(2, 9);
+        if (element.tagName === 'stack') {
+            layers.push({ id, type: 'group', x: 0, y: 0, width: 0, height: 0, rotation: 0, isLocked: false, parentId, ...readLayerAttributes(element) });
+            await readStack(zip, element, id, layers);
+        } else if (element.tagName === 'layer') {
+            const src = element.getAttribute('src');
+            const entry = src ? zip.file(src) : null;
+            if (!entry) continue;
+            const mime = src!.toLowerCase().endsWith('.jpg') || src!.toLowerCase().endsWith('.jpeg') ? 'image/jpeg' : 'image/png';
+            const url = `data:${mime};base64,${await entry.async('base64')}`;
+            const image = await loadImage(url);
+            layers.push({
+                id, type: 'image', url,
+                x: Number(element.getAttribute('x')) || 0, y: Number(element.getAttribute('y')) || 0,
+                width: image.naturalWidth, height: image.naturalHeight,
+                rotation: 0, isLocked: false, parentId, ...readLayerAttributes(element),
+            });
+        }
+    }
+};
+
+/**
+ * Reads an OpenRaster file. Stacks become groups; empty stacks are dropped.
+ */
+export const importOra = async (file: Blob): Promise<LayeredDocument> => {
+    const zip = await JSZip.loadAsync(file).catch(() => {
+        throw new Error('Tệp này không phải là file OpenRaster (.ora) hợp lệ.');
+    });
+    const stackFile = zip.file('stack.xml');
+    if (!stackFile) throw new Error('File OpenRaster thiếu stack.xml.');
+    const xml = new DOMParser().parseFromString(await stackFile.async('string'), 'application/xml');
+    const image = xml.documentElement;
+    const rootStack = Array.from(image.children).find(el => el.tagName === 'stack');
+    if (xml.querySelector('parsererror') || image.tagName !== 'image' || !rootStack) {
+        throw new Error('stack.xml trong file OpenRaster không hợp lệ.');
+    }
+    const layers: Layer[] = [];
+    await readStack(zip, rootStack, undefined, layers);
+    return {
+        width: Number(image.getAttribute('w')) || 0,
+        height: Number(image.getAttribute('h')) || 0,
+        layers: normalizeLayerTree(layers),
+    };
+};
+
+// --- Export ---
+
+const dataUrlToBase64 = (dataUrl: string) => dataUrl.substring(dataUrl.indexOf(',') + 1);
+
+const createThumbnail = async (dataUrl: string): Promise<string> => {
+    const image = await loadImage(dataUrl);
+    const factor = Math.min(1, THUMBNAIL_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * factor));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * factor));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+// The whole pixels of `box` that lie inside `bounds`, or null when they don't overlap.
+const clipToBounds = (box: Rect, bounds: Rect): Rect | null => {
+    const left = Math.max(Math.floor(box.x), bounds.x);
+    const top = Math.max(Math.floor(box.y), bounds.y);
+    const right = Math.min(Math.ceil(box.x + box.width), bounds.x + bounds.width);
+    const bottom = Math.min(Math.ceil(box.y + box.height), bounds.y + bounds.height);
+    return right > left && bottom > top ? { x: left, y: top, width: right - left, height: bottom - top } : null;
+};
+
+/**
+ * Writes layers as an OpenRaster file of a canvas region. Each layer is rendered to
+ * pixels where it sits (rotation, masks and text included) and groups stay stacks, with
+ * opacity, visibility and blend mode kept as attributes. Adjustment layers have no
+ * OpenRaster equivalent and are written as the pixels they produce. A background color
+ * becomes a bottom layer of its own.
+ */
+export const exportOra = async (layers: Layer[], region: Rect, background: string | null): Promise<Blob> => {
+    const x = Math.floor(region.x);
+    const y = Math.floor(region.y);
+    const bounds: Rect = {
+        x, y,
+        width: Math.max(1, Math.ceil(region.x + region.width) - x),
+        height: Math.max(1, Math.ceil(region.y + region.height) - y),
+    };
+    const zip = new JSZip();
+    // The mimetype must be the first file in the archive, uncompressed.
+    zip.file('mimetype', ORA_MIMETYPE, { compression: 'STORE' });
+
+    let fileCount = 0;
+    const writeLayerPixels = (dataUrl: string): string => {
+        const src = `data/layer${fileCount++}.png`;
+        zip.file(src, dataUrlToBase64(dataUrl), { base64: true });
+        return src;
+    };
+    const getAttributes = (layer: Pick<Layer, 'name' | 'opacity' | 'isVisible' | 'blendMode'>, fallbackName: string) =>
+        `name="${escapeXml(layer.name || fallbackName)}" opacity="${layer.opacity / 100}" visibility="${layer.isVisible ? 'visible' : 'hidden'}" composite-op="${COMPOSITE_OPS[layer.blendMode]}"`;
+
+    const writeStack = async (stack: Layer[]): Promise<string[]> => {
+        const elements: string[] = [];
+        for (const layer of stack) {
+            if (layer.type === 'group') {
+                const children = await writeStack(layers.filter(l => l.parentId === layer.id));
+                elements.push(`<stack ${getAttributes(layer, 'Group')} isolation="isolate">${children.join('')}</stack>`);
+                continue;
+            }
+            const layerBox = getBoundingBoxForLayers([layer]);
+            const box = layerBox && clipToBounds(layerBox, bounds);
+            if (!box) continue;
+            // Opacity, visibility and blend mode go into attributes, so the pixels are drawn plain.
+            const pixels = layer.type === 'adjustment'
+                ? (await renderAdjustmentLayer(layers, layer, box)).toDataURL('image/png')
+                : await captureCanvas([{ ...layer, parentId: undefined, opacity: 100, blendMode: 'source-over', isVisible: true }], box, null);
+            const fallbackName = layer.type === 'text' ? (layer.text || 'Text') : layer.type === 'adjustment' ? 'Adjustment' : 'Layer';
+            elements.push(`<layer ${getAttributes(layer, fallbackName)} src="${writeLayerPixels(pixels)}" x="${box.x - bounds.x}" y="${box.y - bounds.y}"/>`);
+        }
+        return elements;
+    };
+
+    const elements = await writeStack(layers.filter(l => !l.parentId));
+    if (background) {
+        const backgroundPixels = await captureCanvas([], bounds, background);
+        elements.push(`<layer ${getAttributes({ name: 'Background', opacity: 100, isVisible: true, blendMode: 'source-over' }, 'Background')} src="${writeLayerPixels(backgroundPixels)}" x="0" y="0"/>`);
+    }
+
+    const stackXml = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<image version="0.0.5" w="${bounds.width}" h="${bounds.height}">`,
+        `<stack>${elements.join('')}</stack>`,
+        '</image>',
+    ].join('\n');
+    zip.file('stack.xml', stackXml);
+
+    const merged = await captureCanvas(layers, bounds, background);
+    zip.file('mergedimage.png', dataUrlToBase64(merged), { base64: true });
+    zip.file('Thumbnails/thumbnail.png', dataUrlToBase64(await createThumbnail(merged)), { base64: true });
+
+    return zip.generateAsync({ type: 'blob', mimeType: ORA_MIMETYPE });
+};
@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type PenNode } from '../ImageEditor/ImageEditor.types';
+import { type GradientStop, type Layer, type Point, type Rect } from './LayerComposer.types';
+
+// Geometry and paint of shape layers, shared by the canvas, the renderer and vector export.
+//
+// A shape's stroke is drawn inside its box: the outline is inset by half the stroke width,
+// so the box covers everything the shape paints and bounds, snapping and captures need no
+// special case. Path nodes are stored relative to that inset box (0-1 on both axes), so
+// resizing the layer scales the path.
+
+export type PathNodePart = 'anchor' | 'inHandle' | 'outHandle';
+
+// How far a star's inner corners sit from its center, relative to the outer ones.
+const STAR_INNER_RADIUS = 0.5;
+
+const DASH_PATTERNS: Record<NonNullable<Layer['strokeDash']>, number[]> = {
+    solid: [],
+    dashed: [3, 2],
+    dotted: [1, 1.5],
+};
+
+export const DEFAULT_GRADIENT_STOPS: GradientStop[] = [
+    { offset: 0, color: '#FFFFFF' },
+    { offset: 1, color: '#000000' },
+];
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+export const hasStroke = (layer: Layer): boolean => !!layer.strokeColor && (layer.strokeWidth || 0) > 0;
+
+/** Open paths are only stroked, like lines drawn with the pen. */
+export const hasFill = (layer: Layer): boolean =>
+    layer.fillType !== 'none' && (layer.shapeType !== 'path' || !!layer.isPathClosed);
+
+/** Half the stroke width, capped so the inset box never turns inside out. */
+export const getStrokeInset = (layer: Pick<Layer, 'width' | 'height' | 'strokeColor' | 'strokeWidth'>): number =>
+    layer.strokeColor && layer.strokeWidth ? Math.min(layer.strokeWidth / 2, layer.width / 2, layer.height / 2) : 0;
+
+/** The stroke's dash pattern in canvas units; empty for a solid line. */
+export const getStrokeDashArray = (layer: Layer): number[] =>
+    DASH_PATTERNS[layer.strokeDash || 'solid'].map(n => n * (layer.strokeWidth || 1));
+
+/** Path shapes, and text set on a path of its own, have anchors to edit on the canvas. */
+export const hasEditablePath = (layer: Layer): boolean =>
+    (layer.type === 'shape' && layer.shapeType === 'path') || (layer.type === 'text' && layer.textPath === 'path');
+
+/** A path layer's nodes in the layer's own box, in canvas units. */
+export const getLayerPathNodes = (layer: Layer): PenNode[] => {
+    const inset = getStrokeInset(layer);
+    const innerWidth = layer.width - inset * 2;
+    const innerHeight = layer.height - inset * 2;
+    const toBox = (p: Point): Point => ({ x: inset + p.x * innerWidth, y: inset + p.y * innerHeight });
+    return (layer.pathNodes || []).map(node => ({ anchor: toBox(node.anchor), inHandle: toBox(node.inHandle), outHandle: toBox(node.outHandle) }));
+};
+
+/** Nodes in the layer's own box (canvas units) as the layer stores them; the reverse of getLayerPathNodes. */
+export const toStoredPathNodes = (layer: Layer, nodes: PenNode[]): PenNode[] => {
+    const inset = getStrokeInset(layer);
+    const innerWidth = Math.max(layer.width - inset * 2, 1);
+    const innerHeight = Math.max(layer.height - inset * 2, 1);
+    const toUnit = (p: Point): Point => ({ x: (p.x - inset) / innerWidth, y: (p.y - inset) / innerHeight });
+    return nodes.map(node => ({ anchor: toUnit(node.anchor), inHandle: toUnit(node.inHandle), outHandle: toUnit(node.outHandle) }));
+};
+
+export const buildPathData = (nodes: PenNode[], isClosed: boolean): string => {
+    if (nodes.length === 0) return '';
+    const point = (p: Point) => `${formatNumber(p.x)} ${formatNumber(p.y)}`;
+    const segments = [`M ${point(nodes[0].anchor)}`];
+    const segmentCount = isClosed ? nodes.length : nodes.length - 1;
+    for (let i = 0; i < segmentCount; i++) {
+        const from = nodes[i];
+        const to = nodes[(i + 1) % nodes.length];
+        segments.push(`C ${point(from.outHandle)} ${point(to.inHandle)} ${point(to.anchor)}`);
+    }
+    if (isClosed) segments.push('Z');
+    return segments.join(' ');
+};
+
+/**
+ * The outline of a shape layer as SVG path data in the layer's own box. Canvas drawing
+ * uses it through Path2D, so the canvas, the DOM preview and exports share one outline.
+ */
+export const getShapePathData = (layer: Layer): string => {
+    const inset = getStrokeInset(layer);
+    const width = layer.width - inset * 2;
+    const height = layer.height - inset * 2;
+    if (layer.shapeType === 'path') {
+        return buildPathData(getLayerPathNodes(layer), !!layer.isPathClosed);
+    }
+    if (layer.shapeType === 'ellipse') {
+        const rx = width / 2;
+        const ry = height / 2;
+        const cy = inset + ry;
+        return `M ${formatNumber(inset)} ${formatNumber(cy)} A ${formatNumber(rx)} ${formatNumber(ry)} 0 1 0 ${formatNumber(inset + width)} ${formatNumber(cy)} A ${formatNumber(rx)} ${formatNumber(ry)} 0 1 0 ${formatNumber(inset)} ${formatNumber(cy)} Z`;
+    }
+    const r = Math.max(0, Math.min(layer.borderRadius || 0, width / 2, height / 2));
+    const [left, top, right, bottom] = [inset, inset, inset + width, inset + height].map(formatNumber);
+    if (r === 0) return `M ${left} ${top} H ${right} V ${bottom} H ${left} Z`;
+    const radius = formatNumber(r);
+    return [
+        `M ${formatNumber(inset + r)} ${top}`,
+        `H ${formatNumber(inset + width - r)} A ${radius} ${radius} 0 0 1 ${right} ${formatNumber(inset + r)}`,
+        `V ${formatNumber(inset + height - r)} A ${radius} ${radius} 0 0 1 ${formatNumber(inset + width - r)} ${bottom}`,
+        `H ${formatNumber(inset + r)} A ${radius} ${radius} 0 0 1 ${left} ${formatNumber(inset + height - r)}`,
+        `V ${formatNumber(inset + r)} A ${radius} ${radius} 0 0 1 ${formatNumber(inset + r)} ${top}`,
+        'Z',
+    ].join(' ');
+};
+
+/**
+ * Where a gradient fill runs, in the layer's own box: a linear gradient crosses the box at
+ * its angle (0° runs left to right, like CSS's 90deg), a radial one spreads from the center
+ * to the corners.
+ */
+export const getGradientGeometry = (layer: Layer):
+    | { type: 'linear'; x1: number; y1: number; x2: number; y2: number }
+    | { type: 'radial'; cx: number; cy: number; r: number } => {
+    const cx = layer.width / 2;
+    const cy = layer.height / 2;
+    if (layer.fillType === 'radial') {
+        return { type: 'radial', cx, cy, r: Math.hypot(cx, cy) };
+    }
+    const angle = ((layer.gradientAngle || 0) * Math.PI) / 180;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    const halfLength = Math.abs(cx * dx) + Math.abs(cy * dy);
+    return { type: 'linear', x1: cx - dx * halfLength, y1: cy - dy * halfLength, x2: cx + dx * halfLength, y2: cy + dy * halfLength };
+};
+
+export const getGradientStops = (layer: Layer): GradientStop[] =>
+    layer.gradientStops && layer.gradientStops.length >= 2 ? layer.gradientStops : DEFAULT_GRADIENT_STOPS;
+
+// --- Path fitting ---
+
+// The parameters in (0, 1) where a cubic bezier's coordinate reaches an extreme.
+const getCubicExtrema = (p0: number, p1: number, p2: number, p3: number): number[] => {
+    const a = -p0 + 3 * p1 - 3 * p2 + p3;
+    const b = 2 * (p0 - 2 * p1 + p2);
+    const c = p1 - p0;
+    const roots: number[] = [];
+    if (Math.abs(a) < 1e-9) {
+        if (Math.abs(b) > 1e-9) roots.push(-c / b);
+    } else {
+        const discriminant = b * b - 4 * a * c;
+        if (discriminant >= 0) {
+            const sqrt = Math.sqrt(discriminant);
+            roots.push((-b + sqrt) / (2 * a), (-b - sqrt) / (2 * a));
+        }
+    }
+    return roots.filter(t => t > 0 && t < 1);
+};
+
+const evaluateCubic = (p0: number, p1: number, p2: number, p3: number, t: number): number => {
+    const mt = 1 - t;
+    return mt * mt * mt * p0 + 3 * mt * mt * t * p1 + 3 * mt * t * t * p2 + t * t * t * p3;
+};
+
+/** The tight box around a bezier path: its anchors and the curves' extremes, not its handles. */
+export const getPathBounds = (nodes: PenNode[], isClosed: boolean): Rect => {
+    const xs = nodes.map(n => n.anchor.x);
+    const ys = nodes.map(n => n.anchor.y);
+    const segmentCount = isClosed ? nodes.length : nodes.length - 1;
+    for (let i = 0; i < segmentCount; i++) {
+        const from = nodes[i];
+        const to = nodes[(i + 1) % nodes.length];
+        const x = [from.anchor.x, from.outHandle.x, to.inHandle.x, to.anchor.x] as const;
+        const y = [from.anchor.y, from.outHandle.y, to.inHandle.y, to.anchor.y] as const;
+        getCubicExtrema(...x).forEach(t => xs.push(evaluateCubic(...x, t)));
+        getCubicExtrema(...y).forEach(t => ys.push(evaluateCubic(...y, t)));
+    }
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
+/**
+ * Fits a layer's box to new path nodes given in its current own box (canvas units).
+ * The path stays where it is on the canvas, rotation included.
+ */
+export const fitPathLayer = (
+    layer: Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'strokeColor' | 'strokeWidth'>,
+    nodes: PenNode[],
+    isClosed: boolean
+): Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'pathNodes'> => {
+    const bounds = getPathBounds(nodes, isClosed);
+    const inset = layer.strokeColor && layer.strokeWidth ? layer.strokeWidth / 2 : 0;
+    const innerWidth = Math.max(bounds.width, 1);
+    const innerHeight = Math.max(bounds.height, 1);
+    const width = innerWidth + inset * 2;
+    const height = innerHeight + inset * 2;
+
+    // The new box's center, moved from the old center through the layer's rotation.
+    const dx = bounds.x - inset + width / 2 - layer.width / 2;
+    const dy = bounds.y - inset + height / 2 - layer.height / 2;
+    const rad = (layer.rotation * Math.PI) / 180;
+    const centerX = layer.x + layer.width / 2 + dx * Math.cos(rad) - dy * Math.sin(rad);
+    const centerY = layer.y + layer.height / 2 + dx * Math.sin(rad) + dy * Math.cos(rad);
+
+    const normalize = (p: Point): Point => ({ x: (p.x - bounds.x) / innerWidth, y: (p.y - bounds.y) / innerHeight });
+    return {
+        x: centerX - width / 2,
+        y: centerY - height / 2,
+        width,
+        height,
+        pathNodes: nodes.map(node => ({ anchor: normalize(node.anchor), inHandle: normalize(node.inHandle), outHandle: normalize(node.outHandle) })),
+    };
+};
+
+/** A point on the canvas in a layer's own, unrotated box. */
+export const toLayerSpace = (layer: Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'rotation'>, point: Point): Point => {
+    const cx = layer.x + layer.width / 2;
+    const cy = layer.y + layer.height / 2;
+    const rad = (-layer.rotation * Math.PI) / 180;
+    const dx = point.x - cx;
+    const dy = point.y - cy;
+    return { x: dx * Math.cos(rad) - dy * Math.sin(rad) + layer.width / 2, y: dx * Math.sin(rad) + dy * Math.cos(rad) + layer.height / 2 };
+};
+
+/**
+ * Moves one part of a node. An anchor takes its handles along; a handle turns the opposite
+ * one with it to keep the curve smooth, unless `isIndependent` (Alt) breaks the pair.
+ */
+export const movePathNode = (nodes: PenNode[], index: number, part: PathNodePart, to: Point, isIndependent: boolean): PenNode[] =>
+    nodes.map((node, i) => {
+        if (i !== index) return node;
+        const { anchor } = node;
+        if (part === 'anchor') {
+            const dx = to.x - anchor.x;
+            const dy = to.y - anchor.y;
+            const shift = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+            return { anchor: to, inHandle: shift(node.inHandle), outHandle: shift(node.outHandle) };
+        }
+        const opposite = part === 'inHandle' ? 'outHandle' : 'inHandle';
+        const mirrored = isIndependent ? node[opposite] : { x: anchor.x * 2 - to.x, y: anchor.y * 2 - to.y };
+        return { ...node, [part]: to, [opposite]: mirrored };
+    });
+
+// --- Polygon and star tools ---
+
+// Corner nodes at points on the unit circle, stretched to fill the 0-1 box.
+const createCornerNodes = (points: Point[]): PenNode[] => {
+    const bounds = getPathBounds(points.map(p => ({ anchor: p, inHandle: p, outHandle: p })), true);
+    return points.map(p => {
+        const anchor = { x: (p.x - bounds.x) / (bounds.width || 1), y: (p.y - bounds.y) / (bounds.height || 1) };
+        return { anchor, inHandle: anchor, outHandle: anchor };
+    });
+};
+
+/** A regular polygon, pointing up, filling the 0-1 box. */
+export const createPolygonNodes = (sides: number): PenNode[] =>
+    createCornerNodes(Array.from({ length: Math.max(3, sides) }, (_, i) => {
+        const angle = -Math.PI / 2 + (i / Math.max(3, sides)) * Math.PI * 2;
+        return { x: Math.cos(angle), y: Math.sin(angle) };
+    }));
+
+/** A star with the given number of points, pointing up, filling the 0-1 box. */
+export const createStarNodes = (points: number): PenNode[] => {
+    const corners = Math.max(3, points) * 2;
+    return createCornerNodes(Array.from({ length: corners }, (_, i) => {
+        const angle = -Math.PI / 2 + (i / corners) * Math.PI * 2;
+        const radius = i % 2 === 0 ? 1 : STAR_INNER_RADIUS;
+        return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+    }));
+};
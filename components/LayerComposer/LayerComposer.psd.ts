@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type BlendMode, type Layer, type LayeredDocument } from './LayerComposer.types';
+import { normalizeLayerTree } from './LayerComposer.hierarchy';
+
+// Photoshop (.psd) import: the raster layers of 8-bit RGB documents, stored raw or
+// RLE-compressed. Folders come in as groups. Text, shape and smart object layers come in
+// as the pixels Photoshop saved for them. Adjustment layers, layer effects and layer masks
+// are not read.
+// Format: https://www.adobe.com/devnet-apps/photoshop/fileformatashtml/
+
+const BLEND_MODES: Record<string, BlendMode> = {
+    'pass': 'source-over',
+    'norm': 'source-over',
+    'mul ': 'multiply',
+    'scrn': 'screen',
+    'over': 'overlay',
+    'dark': 'darken',
+    'lite': 'lighten',
+    'div ': 'color-dodge',
+    'idiv': 'color-burn',
+    'hLit': 'hard-light',
+    'sLit': 'soft-light',
+    'diff': 'difference',
+    'smud': 'exclusion',
+    'hue ': 'hue',
+    'sat ': 'saturation',
+    'colr': 'color',
+    'lum ': 'luminosity',
+};
+
+// Section divider types ('lsct'): an open or closed folder, and the hidden marker that ends it.
+const SECTION_OPEN_FOLDER = 1;
+const SECTION_CLOSED_FOLDER = 2;
+const SECTION_DIVIDER = 3;
+
+interface ChannelInfo {
+    id: number;
+    length: number;
+}
+
+interface LayerRecord {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+    channels: ChannelInfo[];
+    blendKey: string;
+    opacity: number;
+    isHidden: boolean;
+    name: string;
+    sectionType: number;
+    pixels: ImageData | null;
+}
+
+// A big-endian cursor over the file.
+const createReader = (buffer: ArrayBuffer) => {
+    const view = new DataView(buffer);
+    let offset = 0;
+    return {
+        get offset() { return offset; },
+        seek: (to: number) => { offset = to; },
+        skip: (count: number) => { offset += count; },
+        u8: () => view.getUint8(offset++),
+        u16: () => { const v = view.getUint16(offset); offset += 2; return v; },
+        i16: () => { const v = view.getInt16(offset); offset += 2; return v; },
+        u32: () => { const v = view.getUint32(offset); offset += 4; return v; },
+        i32: () => { const v = view.getInt32(offset); offset += 4; return v; },
+        ascii: (count: number) => {
+            let s = '';
+            for (let i = 0; i < count; i++) s += String.fromCharCode(view.getUint8(offset + i));
+            offset += count;
+            return s;
+        },
+        bytes: (count: number) => { const b = new Uint8Array(buffer, offset, count); offset += count; return b; },
+    };
+};
+
+type PsdReader = ReturnType<typeof createReader>;
+
+// PackBits, as used by Photoshop's RLE compression.
+const decodePackBits = (source: Uint8Array, length: number): Uint8Array => {
+    const out = new Uint8Array(length);
+    let i = 0;
+    let o = 0;
+    while (o < length && i < source.length) {
+        const header = source[i++];
+        if (header < 128) {
+            const count = header + 1;
+            out.set(source.subarray(i, i + Math.min(count, length - o)), o);
+            i += count;
+            o += count;
+        } else if (header > 128) {
+            const count = 257 - header;
+            out.fill(source[i++], o, Math.min(o + count, length));
+            o += count;
+        }
+    }
+    return out;
+};
+
+const readLayerRecord = (reader: PsdReader): LayerRecord => {
+    const top = reader.i32();
+    const left = reader.i32();
+    const bottom = reader.i32();
+    const right = reader.i32();
+    const channels: ChannelInfo[] = [];
+    const channelCount = reader.u16();
+    for (let i = 0; i < channelCount; i++) channels.push({ id: reader.i16(), length: reader.u32() });
+    reader.skip(4); // '8BIM'
+    const blendKey = reader.ascii(4);
+    const opacity = reader.u8();
+    reader.skip(1); // clipping
+    const flags = reader.u8();
+    reader.skip(1); // filler
+
+    const extraLength = reader.u32();
+    const extraEnd = reader.offset + extraLength;
+    reader.skip(reader.u32()); // layer mask data
+    reader.skip(reader.u32()); // blending ranges
+    const nameLength = reader.u8();
+    let name = reader.ascii(nameLength);
+    reader.skip((4 - ((nameLength + 1) % 4)) % 4);
+
+    let sectionType = 0;
+    while (reader.offset + 12 <= extraEnd) {
+        reader.skip(4); // '8BIM' or '8B64'
+        const key = reader.ascii(4);
+        const length = reader.u32();
+        const dataStart = reader.offset;
+        if (key === 'luni') {
+            const count = reader.u32();
+            name = '';
+            for (let i = 0; i < count; i++) name += String.fromCharCode(reader.u16());
+            name = name.replace(/\0+$/, '');
+        } else if (key === 'lsct' || key === 'lsdk') {
+            sectionType = reader.u32();
+        }
+        reader.seek(dataStart + length + (length % 2));
+    }
+    reader.seek(extraEnd);
+
+    return {
+        top, left, width: right - left, height: bottom - top, channels, blendKey,
+        opacity: Math.round(opacity / 2.55), isHidden: (flags & 0x02) !== 0,
+        name, sectionType, pixels: null,
+    };
+};
+
+// Reads a record's channels into RGBA pixels. Returns null for layers without pixels or
+// with compression we don't read (ZIP is only common in 16-bit files).
+const readLayerPixels = (reader: PsdReader, record: LayerRecord): ImageData | null => {
+    const { width, height } = record;
+    const pixelCount = width * height;
+    let pixels: ImageData | null = pixelCount > 0 ? new ImageData(width, height) : null;
+    if (pixels) {
+        for (let i = 3; i < pixels.data.length; i += 4) pixels.data[i] = 255;
+    }
+
+    for (const channel of record.channels) {
+        const channelEnd = reader.offset + channel.length;
+        const compression = reader.u16();
+        // 0-2 are red, green and blue, -1 is transparency; masks (-2, -3) are skipped.
+        const component = channel.id === -1 ? 3 : channel.id;
+        if (pixels && component >= 0 && component <= 3) {
+            let values: Uint8Array | null = null;
+            if (compression === 0) {
+                values = reader.bytes(Math.min(pixelCount, channel.length - 2));
+            } else if (compression === 1) {
+                reader.skip(height * 2); // byte counts per row
+                values = decodePackBits(reader.bytes(channelEnd - reader.offset), pixelCount);
+            } else {
+                console.warn(`PSD layer "${record.name}" uses unsupported compression ${compression}; skipped.`);
+                pixels = null;
+            }
+            if (pixels && values) {
+                for (let i = 0; i < values.length; i++) pixels.data[i * 4 + component] = values[i];
+            }
+        }
+        reader.seek(channelEnd);
+    }
+    return pixels;
+};
+
+const pixelsToDataUrl = (pixels: ImageData): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Reads a Photoshop file's layers, topmost first. Layers without pixels and empty
+ * folders are dropped.
+ */
+export const importPsd = async (file: Blob): Promise<LayeredDocument> => {
+    const reader = createReader(await file.arrayBuffer());
+    if (reader.ascii(4) !== '8BPS') throw new Error('Tệp này không phải là file Photoshop (.psd) hợp lệ.');
+    const version = reader.u16();
+    if (version !== 1) throw new Error('Chưa hỗ trợ file Photoshop khổ lớn (.psb).');
+    reader.skip(6); // reserved
+    reader.skip(2); // channel count of the merged image
+    const height = reader.u32();
+    const width = reader.u32();
+    const depth = reader.u16();
+    const colorMode = reader.u16();
+    if (depth !== 8 || colorMode !== 3) {
+        throw new Error('Chỉ hỗ trợ file Photoshop hệ màu RGB, 8 bit mỗi kênh.');
+    }
+    reader.skip(reader.u32()); // color mode data
+    reader.skip(reader.u32()); // image resources
+
+    const layerAndMaskLength = reader.u32();
+    const layerInfoLength = layerAndMaskLength > 0 ? reader.u32() : 0;
+    if (layerInfoLength === 0) throw new Error('File Photoshop này không có layer nào.');
+    // A negative count means the first alpha channel holds the merged image's transparency.
+    const layerCount = Math.abs(reader.i16());
+
+    const records: LayerRecord[] = [];
+    for (let i = 0; i < layerCount; i++) records.push(readLayerRecord(reader));
+    for (const record of records) record.pixels = readLayerPixels(reader, record);
+
+    // Records are stored bottom to top; a folder's record comes after its contents, with
+    // a divider record before them.
+    const layers: Layer[] = [];
+    const parents: string[] = [];
+    for (const record of [...records].reverse()) {
+        if (record.sectionType === SECTION_DIVIDER) {
+            parents.pop();
+            continue;
+        }
+        const common = {
+            id: Math.random().toString(36).substring(2, 9),
+            name: record.name || undefined,
+            rotation: 0,
+            opacity: record.opacity,
+            blendMode: BLEND_MODES[record.blendKey] || 'source-over',
+            isVisible: !record.isHidden,
+            isLocked: false,
+            parentId: parents[parents.length - 1],
+        };
+        if (record.sectionType === SECTION_OPEN_FOLDER || record.sectionType === SECTION_CLOSED_FOLDER) {
+            layers.push({ ...common, type: 'group', x: 0, y: 0, width: 0, height: 0 });
+            parents.push(common.id);
+        } else if (record.pixels) {
+            layers.push({
+                ...common, type: 'image', url: pixelsToDataUrl(record.pixels),
+                x: record.left, y: record.top, width: record.width, height: record.height,
+            });
+        }
+    }
+    return { width, height, layers: normalizeLayerTree(layers) };
+};
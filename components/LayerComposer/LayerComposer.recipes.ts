@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type AIPreset, type GenerationInput, type GenerationRecipe, type Layer } from './LayerComposer.types';
+import { getLayersWithDescendants } from './LayerComposer.hierarchy';
+import { captureLayer } from './LayerComposer.utils';
+import {
+    editImageWithPrompt,
+    generateFreeImage,
+    generateFromMultipleImages,
+    generateFromPreset,
+    refineArchitecturePrompt,
+    refineImageAndPrompt,
+} from '../../services/geminiService';
+
+// AI layers keep the recipe they were generated from. Each recipe lists its input layers
+// with a fingerprint of how they looked, which makes a dependency graph: when an input
+// changes, the layers made from it, and the layers made from those, are out of date.
+
+// 'missing-inputs' means an input layer was deleted, so the recipe can't be run again.
+export type RecipeStatus = 'current' | 'stale' | 'missing-inputs';
+
+// Properties that don't change how a layer is captured for the model. Position and
+// visibility only count inside a group, where they change the group's picture.
+const IGNORED_KEYS: (keyof Layer)[] = ['id', 'name', 'isLocked', 'isCollapsed', 'parentId', 'generation'];
+const ROOT_IGNORED_KEYS: (keyof Layer)[] = ['x', 'y', 'isVisible'];
+
+// Long strings such as image data URLs are summed up by their length and a few slices,
+// which tells images apart without hashing megabytes on every change.
+const summarizeString = (value: string): string => {
+    if (value.length <= 256) return value;
+    const middle = Math.floor(value.length / 2);
+    return `${value.length}:${value.slice(0, 64)}:${value.slice(middle - 32, middle + 32)}:${value.slice(-64)}`;
+};
+
+// djb2
+const hashString = (value: string): string => {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    return (hash >>> 0).toString(36);
+};
+
+/**
+ * A short fingerprint of how a layer looks as an AI input: its own properties and, for a
+ * group, its contents placed relative to it. Moving, renaming or locking it keeps it.
+ */
+export const getLayerFingerprint = (layer: Layer, allLayers: Layer[]): string => {
+    const parts = getLayersWithDescendants(allLayers, [layer.id]).map(l => {
+        const look: Partial<Layer> = { ...l };
+        IGNORED_KEYS.forEach(key => delete look[key]);
+        if (l.id === layer.id) {
+            ROOT_IGNORED_KEYS.forEach(key => delete look[key]);
+        } else {
+            look.x = l.x - layer.x;
+            look.y = l.y - layer.y;
+        }
+        return JSON.stringify(look, (_key, value) => typeof value === 'string' ? summarizeString(value) : value);
+    });
+    return hashString(parts.join('|'));
+};
+
+export const getGenerationInputs = (inputLayers: Layer[], allLayers: Layer[]): GenerationInput[] =>
+    inputLayers.map(l => ({ layerId: l.id, fingerprint: getLayerFingerprint(l, allLayers) }));
+
+/**
+ * The status of every AI layer. A layer is stale when one of its inputs changed, or when
+ * an input is itself a stale AI layer, so a change flows down a chain of layers made from
+ * one another.
+ */
+export const getRecipeStatuses = (layers: Layer[]): Map<string, RecipeStatus> => {
+    const byId = new Map(layers.map(l => [l.id, l]));
+    const statuses = new Map<string, RecipeStatus>();
+    const visiting = new Set<string>();
+
+    const visit = (layer: Layer): RecipeStatus => {
+        const known = statuses.get(layer.id);
+        if (known) return known;
+        // Recipes only point at layers that existed before them, but a hand-edited file could loop.
+        if (!layer.generation || visiting.has(layer.id)) return 'current';
+        visiting.add(layer.id);
+        let status: RecipeStatus = 'current';
+        for (const input of layer.generation.inputs) {
+            const inputLayer = byId.get(input.layerId);
+            if (!inputLayer) {
+                status = 'missing-inputs';
+                break;
+            }
+            if (input.fingerprint !== getLayerFingerprint(inputLayer, layers) || visit(inputLayer) === 'stale') status = 'stale';
+        }
+        visiting.delete(layer.id);
+        statuses.set(layer.id, status);
+        return status;
+    };
+
+    layers.forEach(visit);
+    return statuses;
+};
+
+/**
+ * The stale layers among `layerIds` and the AI layers they are made from, ordered so
+ * every layer comes after its inputs.
+ */
+export const getStaleLayersInOrder = (layers: Layer[], statuses: Map<string, RecipeStatus>, layerIds: string[]): Layer[] => {
+    const byId = new Map(layers.map(l => [l.id, l]));
+    const ordered: Layer[] = [];
+    const seen = new Set<string>();
+    const add = (layer: Layer) => {
+        if (seen.has(layer.id)) return;
+        seen.add(layer.id);
+        layer.generation?.inputs.forEach(input => {
+            const inputLayer = byId.get(input.layerId);
+            if (inputLayer) add(inputLayer);
+        });
+        if (statuses.get(layer.id) === 'stale') ordered.push(layer);
+    };
+    layerIds.forEach(id => {
+        const layer = byId.get(id);
+        if (layer) add(layer);
+    });
+    return ordered;
+};
+
+/**
+ * Turns a prompt as typed into the one sent to the model: through the preset's template,
+ * or for presets that refine, rewritten after a look at the input images.
+ */
+export const resolvePresetPrompt = async (preset: AIPreset, userPrompt: string, language: string, inputUrls: string[]): Promise<string> => {
+    const template = preset.promptTemplate[language as keyof typeof preset.promptTemplate] || preset.promptTemplate['en'];
+    if (preset.refine && inputUrls.length > 0) {
+        return preset.id === 'architecture'
+            ? refineArchitecturePrompt(template, userPrompt, inputUrls)
+            : refineImageAndPrompt(template, userPrompt, inputUrls);
+    }
+    return template.replace('{{userPrompt}}', userPrompt).trim();
+};
+
+/**
+ * Runs a recipe's model call `count` times on captured input images. App presets can
+ * return several images per run.
+ */
+export const generateFromRecipe = async (recipe: GenerationRecipe, inputUrls: string[], count: number): Promise<string[]> => {
+    const runs = Array.from({ length: count });
+    switch (recipe.mode) {
+        case 'edit':
+            return Promise.all(runs.map(() => editImageWithPrompt(inputUrls[0], recipe.prompt, recipe.aspectRatio, recipe.removeWatermark)));
+        case 'combine':
+            return Promise.all(runs.map(() => generateFromMultipleImages(inputUrls, recipe.prompt, recipe.aspectRatio, recipe.removeWatermark)));
+        case 'free':
+            return generateFreeImage(recipe.prompt, count, recipe.aspectRatio || '1:1', undefined, undefined, undefined, undefined, recipe.removeWatermark);
+        case 'preset': {
+            const appPreset = recipe.appPreset;
+            if (!appPreset) throw new Error('Layer AI này thiếu thông tin preset để tạo lại.');
+            const results = await Promise.all(runs.map(() => generateFromPreset(appPreset, inputUrls)));
+            return results.flat();
+        }
+    }
+};
+
+/**
+ * Runs a recipe again on its inputs as they are now, `count` times. The prompt of a
+ * composer preset is worked out again, so a refined prompt follows the new inputs. Returns
+ * the images and the recipe with the new prompt and fingerprints.
+ */
+export const rerunRecipe = async (
+    recipe: GenerationRecipe,
+    layers: Layer[],
+    presets: AIPreset[],
+    language: string,
+    count: number
+): Promise<{ urls: string[]; recipe: GenerationRecipe }> => {
+    const inputLayers = recipe.inputs.map(input => layers.find(l => l.id === input.layerId));
+    if (inputLayers.some(l => !l)) throw new Error('Một số layer đầu vào của layer AI này đã bị xóa nên không thể tạo lại.');
+    const inputs = inputLayers as Layer[];
+    const inputUrls = await Promise.all(inputs.map(l => captureLayer(l, layers)));
+    const preset = recipe.mode !== 'preset' ? presets.find(p => p.id === recipe.presetId) : undefined;
+    const prompt = preset ? await resolvePresetPrompt(preset, recipe.userPrompt, language, inputUrls) : recipe.prompt;
+    const nextRecipe: GenerationRecipe = { ...recipe, prompt, inputs: getGenerationInputs(inputs, layers) };
+    const urls = await generateFromRecipe(nextRecipe, inputUrls, count);
+    if (urls.length === 0) throw new Error('AI không trả về ảnh nào.');
+    return { urls, recipe: nextRecipe };
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { type Artboard, type Layer } from './LayerComposer.types';
+import { CANVAS_SCHEMA_VERSION, migrateCanvasState } from './LayerComposer.schema';
+
+interface SavedCanvas {
+    version?: number;
+    layers: Layer[];
+    history?: Layer[][];
+    historyIndex?: number;
+    isInfiniteCanvas?: boolean;
+    artboards?: Artboard[];
+}
+
+const createLayer = (id: string, overrides: Partial<Layer> = {}): Layer => ({
+    id, type: 'image', x: 0, y: 0, width: 10, height: 10, rotation: 0, opacity: 100,
+    blendMode: 'source-over', isVisible: true, isLocked: false, ...overrides,
+});
+
+const artboard: Artboard = { id: 'board', name: 'Artboard 1', x: 0, y: 0, width: 100, height: 100, background: null };
+
+describe('migrateCanvasState', () => {
+    it('treats a canvas without a version as version 1 and brings it up to date', () => {
+        const migrated = migrateCanvasState<SavedCanvas>({ layers: [createLayer('a')] });
+
+        expect(migrated.version).toBe(CANVAS_SCHEMA_VERSION);
+        expect(migrated.layers).toEqual([createLayer('a')]);
+        expect(migrated.artboards).toEqual([]);
+    });
+
+    it('drops a stray parent from flat version 1 layers, in the history too', () => {
+        const stray = createLayer('a', { parentId: 'missing' });
+
+        const migrated = migrateCanvasState<SavedCanvas>({ version: 1, layers: [stray], history: [[stray], []] });
+
+        expect(migrated.layers[0].parentId).toBeUndefined();
+        expect(migrated.history?.[0][0].parentId).toBeUndefined();
+        expect(migrated.history?.[1]).toEqual([]);
+    });
+
+    it('fits groups to their contents and removes empty ones', () => {
+        const migrated = migrateCanvasState<SavedCanvas>({
+            version: 1,
+            layers: [
+                createLayer('group', { type: 'group' }),
+                createLayer('a', { parentId: 'group', x: 10, y: 10, width: 20, height: 20 }),
+                createLayer('b', { parentId: 'group', x: 40, y: 40 }),
+                createLayer('empty', { type: 'group' }),
+            ],
+        });
+
+        expect(migrated.layers.map(layer => layer.id)).toEqual(['group', 'a', 'b']);
+        expect(migrated.layers[0]).toMatchObject({ x: 10, y: 10, width: 40, height: 40 });
+    });
+
+    it('keeps the layers of a version 2 canvas and gives it artboards', () => {
+        const layers = [createLayer('a', { parentId: 'missing' })];
+
+        const migrated = migrateCanvasState<SavedCanvas>({ version: 2, layers });
+
+        expect(migrated.layers).toBe(layers);
+        expect(migrated.artboards).toEqual([]);
+    });
+
+    it('leaves a current canvas as it is', () => {
+        const state = { version: CANVAS_SCHEMA_VERSION, layers: [createLayer('a')], artboards: [artboard] };
+
+        expect(migrateCanvasState<SavedCanvas>(state)).toEqual(state);
+    });
+
+    it('keeps other fields of the saved canvas', () => {
+        const migrated = migrateCanvasState<SavedCanvas>({ layers: [], historyIndex: 4, isInfiniteCanvas: true });
+
+        expect(migrated).toMatchObject({ historyIndex: 4, isInfiniteCanvas: true });
+    });
+
+    it('refuses a canvas from a newer version of the app', () => {
+        expect(() => migrateCanvasState<SavedCanvas>({ version: CANVAS_SCHEMA_VERSION + 1, layers: [] })).toThrow();
+    });
+});
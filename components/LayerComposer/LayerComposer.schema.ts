@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Artboard, type Layer } from './LayerComposer.types';
+import { normalizeLayerTree } from './LayerComposer.hierarchy';
+
+// The version of the saved canvas format, written into canvas JSON files and into the
+// stored canvas document. Canvases saved before it existed count as version 1.
+export const CANVAS_SCHEMA_VERSION = 3;
+
+interface SavedCanvasState {
+    version?: number;
+    layers: Layer[];
+    history?: Layer[][];
+    artboards?: Artboard[];
+}
+
+// Upgrades a saved canvas one version at a time. The key is the version a step upgrades to.
+const CANVAS_MIGRATIONS: Record<number, <T extends SavedCanvasState>(state: T) => T> = {
+    // Version 2 added layer groups. Older canvases are flat; fitting them to the grouped
+    // layout drops anything that would break it, such as a stray `parentId`.
+    2: state => ({
+        ...state,
+        layers: normalizeLayerTree(state.layers),
+        ...(Array.isArray(state.history) ? { history: state.history.map(normalizeLayerTree) } : {}),
+    }),
+    // Version 3 added artboards. Older canvases start without any.
+    3: state => ({
+        ...state,
+        artboards: Array.isArray(state.artboards) ? state.artboards : [],
+    }),
+};
+
+/**
+ * Brings a saved canvas (a JSON file or the stored document) up to the current version.
+ * Throws for canvases written by a newer version of the app.
+ */
+export const migrateCanvasState = <T extends SavedCanvasState>(state: T): T => {
+    const fromVersion = typeof state.version === 'number' ? state.version : 1;
+    if (fromVersion > CANVAS_SCHEMA_VERSION) {
+        throw new Error('Canvas được tạo bởi phiên bản ứng dụng mới hơn. Vui lòng cập nhật ứng dụng rồi thử lại.');
+    }
+    let migrated = state;
+    for (let version = fromVersion + 1; version <= CANVAS_SCHEMA_VERSION; version++) {
+        const migration = CANVAS_MIGRATIONS[version];
+        if (migration) migrated = migration(migrated);
+    }
+    return { ...migrated, version: CANVAS_SCHEMA_VERSION };
+};
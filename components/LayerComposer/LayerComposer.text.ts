@@ -0,0 +1,485 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type PenNode } from '../ImageEditor/ImageEditor.types';
+import { type Layer, type Point, type Rect, type TextSpan } from './LayerComposer.types';
+import { getLayerPathNodes, toStoredPathNodes } from './LayerComposer.paths';
+
+// Layout of text layers, shared by the canvas, the renderer and vector export.
+//
+// Text is placed glyph by glyph in the layer's own box, so per-range styles, letter
+// spacing, vertical text and text on a path come out the same everywhere: each renderer
+// only draws the placed glyphs. A glyph is one character together with any combining
+// marks that follow it, so decomposed Vietnamese text keeps its diacritics.
+
+const DEFAULT_FONT_FAMILY = 'Be Vietnam Pro';
+const DEFAULT_FONT_SIZE = 50;
+const DEFAULT_LINE_HEIGHT = 1.2;
+// How far below the baseline glyphs reach, relative to the font size.
+const DESCENT_RATIO = 0.3;
+// Straight steps per bezier segment when measuring a path for text to follow.
+const PATH_SAMPLES_PER_SEGMENT = 32;
+
+export type TextSpanStyle = Omit<TextSpan, 'start' | 'end'>;
+
+/** The style one glyph is drawn with: the layer's, with its span's overrides. */
+export interface TextStyle {
+    fontFamily: string;
+    fontSize: number;
+    fontWeight: string;
+    fontStyle: 'normal' | 'italic';
+    color: string;
+}
+
+/**
+ * A glyph in the layer's own box. Its baseline starts at (x, y) and is turned by
+ * `rotation` (radians) around that point.
+ */
+export interface PlacedGlyph {
+    text: string;
+    x: number;
+    y: number;
+    rotation: number;
+    width: number;
+    style: TextStyle;
+    // A span gave the glyph its own color, which wins over the layer's gradient fill.
+    hasOwnColor: boolean;
+}
+
+interface MeasuredGlyph {
+    text: string;
+    style: TextStyle;
+    hasOwnColor: boolean;
+    width: number;
+    ascent: number;
+    isSpace: boolean;
+    isLineBreak: boolean;
+}
+
+export const getFontString = (style: TextStyle): string =>
+    `${style.fontStyle} ${style.fontWeight} ${style.fontSize}px "${style.fontFamily}"`;
+
+export const getTextLayerContent = (layer: Layer): string =>
+    layer.textTransform === 'uppercase' ? (layer.text || '').toUpperCase() : (layer.text || '');
+
+/** The layer's own style, before spans. */
+export const getLayerTextStyle = (layer: Layer): TextStyle => ({
+    fontFamily: layer.fontFamily || DEFAULT_FONT_FAMILY,
+    fontSize: layer.fontSize || DEFAULT_FONT_SIZE,
+    fontWeight: layer.fontWeight || '400',
+    fontStyle: layer.fontStyle || 'normal',
+    color: layer.color || '#000000',
+});
+
+const withSpanStyle = (style: TextStyle, span: TextSpan | undefined): TextStyle => span ? {
+    fontFamily: span.fontFamily ?? style.fontFamily,
+    fontSize: span.fontSize ?? style.fontSize,
+    fontWeight: span.fontWeight ?? style.fontWeight,
+    fontStyle: span.fontStyle ?? style.fontStyle,
+    color: span.color ?? style.color,
+} : style;
+
+const getSpanAt = (layer: Layer, index: number): TextSpan | undefined =>
+    (layer.textSpans || []).find(span => index >= span.start && index < span.end);
+
+/** The style of the character at `index` of the layer's text. */
+export const getTextStyleAt = (layer: Layer, index: number): TextStyle =>
+    withSpanStyle(getLayerTextStyle(layer), getSpanAt(layer, index));
+
+/** The fonts the layer's text uses, as CSS font strings. */
+export const getTextLayerFonts = (layer: Layer): string[] => [...new Set(
+    [getLayerTextStyle(layer), ...(layer.textSpans || []).map(span => withSpanStyle(getLayerTextStyle(layer), span))].map(getFontString)
+)];
+
+export const hasTextStroke = (layer: Layer): boolean => !!layer.textStrokeColor && (layer.textStrokeWidth || 0) > 0;
+
+export const hasTextShadow = (layer: Layer): boolean => !!layer.textShadowColor;
+
+export const hasTextFill = (layer: Layer): boolean => layer.fillType !== 'none';
+
+/** Outlines, shadows, gradients and text on a path, which simple text renderers (such as PDF's) can't draw. */
+export const hasTextEffects = (layer: Layer): boolean =>
+    !!layer.textPath || hasTextStroke(layer) || hasTextShadow(layer) || layer.fillType === 'linear' || layer.fillType === 'radial';
+
+// --- Spans ---
+
+const isSameStyle = (a: TextSpan, b: TextSpan): boolean =>
+    a.fontFamily === b.fontFamily && a.fontSize === b.fontSize && a.fontWeight === b.fontWeight
+    && a.fontStyle === b.fontStyle && a.color === b.color;
+
+// Sorted, with touching spans of the same style joined and empty ones dropped.
+const normalizeSpans = (spans: TextSpan[]): TextSpan[] =>
+    [...spans]
+        .filter(span => span.end > span.start)
+        .sort((a, b) => a.start - b.start)
+        .reduce<TextSpan[]>((result, span) => {
+            const previous = result[result.length - 1];
+            if (previous && previous.end === span.start && isSameStyle(previous, span)) {
+                result[result.length - 1] = { ...previous, end: span.end };
+            } else {
+                result.push(span);
+            }
+            return result;
+        }, []);
+
+/** Removes the styling of the range [start, end), which then takes the layer's style. */
+export const clearTextSpanStyle = (spans: TextSpan[], start: number, end: number): TextSpan[] =>
+    normalizeSpans(spans.flatMap(span => {
+        if (span.end <= start || span.start >= end) return [span];
+        const pieces: TextSpan[] = [];
+        if (span.start < start) pieces.push({ ...span, end: start });
+        if (span.end > end) pieces.push({ ...span, start: end });
+        return pieces;
+    }));
+
+/** Styles the range [start, end), on top of whatever spans already cover it. */
+export const applyTextSpanStyle = (spans: TextSpan[], start: number, end: number, style: TextSpanStyle): TextSpan[] => {
+    if (end <= start) return spans;
+    const inside = spans
+        .filter(span => span.end > start && span.start < end)
+        .map(span => ({ ...span, start: Math.max(span.start, start), end: Math.min(span.end, end) }))
+        .sort((a, b) => a.start - b.start);
+    // The unstyled gaps between existing spans get a span of their own.
+    const gaps: TextSpan[] = [];
+    let cursor = start;
+    for (const span of inside) {
+        if (span.start > cursor) gaps.push({ start: cursor, end: span.start });
+        cursor = Math.max(cursor, span.end);
+    }
+    if (cursor < end) gaps.push({ start: cursor, end });
+    const styled = [...inside, ...gaps].map(span => ({ ...span, ...style }));
+    return normalizeSpans([...clearTextSpanStyle(spans, start, end), ...styled]);
+};
+
+/**
+ * Moves spans along with an edit of the text. Text typed right after a span joins it,
+ * like it takes the style of the character before it in a word processor.
+ */
+export const adjustTextSpans = (spans: TextSpan[], oldText: string, newText: string): TextSpan[] => {
+    if (spans.length === 0 || oldText === newText) return spans;
+    let prefix = 0;
+    while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < oldText.length - prefix && suffix < newText.length - prefix
+        && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) suffix++;
+    const oldEnd = oldText.length - suffix;
+    const newEnd = newText.length - suffix;
+    const delta = newEnd - oldEnd;
+    const isInsertion = oldEnd === prefix;
+
+    const move = (position: number): number => {
+        if (position < prefix) return position;
+        // Inserted where a span starts or ends, text lands before its start and after its end.
+        if (position > oldEnd || isInsertion) return position + delta;
+        return Math.min(position, newEnd);
+    };
+    return normalizeSpans(spans.map(span => ({ ...span, start: move(span.start), end: move(span.end) })));
+};
+
+// --- Measuring ---
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const getMeasureContext = (): CanvasRenderingContext2D => {
+    if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+    if (!measureContext) throw new Error("Could not create canvas context");
+    return measureContext;
+};
+
+// Splits text into glyphs: characters with the combining marks that follow them.
+const splitGlyphs = (text: string): { text: string; index: number }[] => {
+    const glyphs: { text: string; index: number }[] = [];
+    let index = 0;
+    for (const char of Array.from(text)) {
+        if (glyphs.length > 0 && /\p{M}/u.test(char)) glyphs[glyphs.length - 1].text += char;
+        else glyphs.push({ text: char, index });
+        index += char.length;
+    }
+    return glyphs;
+};
+
+const measureGlyphs = (layer: Layer): MeasuredGlyph[] => {
+    const ctx = getMeasureContext();
+    const ascents = new Map<string, number>();
+    const isUppercase = layer.textTransform === 'uppercase';
+    return splitGlyphs(layer.text || '').map(({ text, index }) => {
+        const span = getSpanAt(layer, index);
+        const style = withSpanStyle(getLayerTextStyle(layer), span);
+        const font = getFontString(style);
+        ctx.font = font;
+        if (!ascents.has(font)) {
+            ctx.textBaseline = 'top';
+            ascents.set(font, Math.abs(ctx.measureText('M').alphabeticBaseline) || style.fontSize * 0.8);
+        }
+        const glyphText = isUppercase ? text.toUpperCase() : text;
+        const isLineBreak = text === '\n';
+        return {
+            text: glyphText,
+            style,
+            hasOwnColor: span?.color !== undefined,
+            width: isLineBreak ? 0 : ctx.measureText(glyphText).width,
+            ascent: ascents.get(font)!,
+            isSpace: /^\s+$/.test(text),
+            isLineBreak,
+        };
+    });
+};
+
+// --- Horizontal and vertical layout ---
+
+const splitParagraphs = (glyphs: MeasuredGlyph[]): MeasuredGlyph[][] => {
+    const paragraphs: MeasuredGlyph[][] = [[]];
+    for (const glyph of glyphs) {
+        if (glyph.isLineBreak) paragraphs.push([]);
+        else paragraphs[paragraphs.length - 1].push(glyph);
+    }
+    return paragraphs;
+};
+
+// Wraps a paragraph at spaces so no line is wider than `maxWidth`; a word wider than that
+// gets a line of its own.
+const wrapParagraph = (glyphs: MeasuredGlyph[], maxWidth: number, letterSpacing: number): MeasuredGlyph[][] => {
+    const words: MeasuredGlyph[][] = [];
+    glyphs.forEach((glyph, i) => {
+        if (i === 0 || (!glyph.isSpace && glyphs[i - 1].isSpace)) words.push([]);
+        words[words.length - 1].push(glyph);
+    });
+    const lines: MeasuredGlyph[][] = [];
+    let line: MeasuredGlyph[] = [];
+    let lineWidth = 0;
+    for (const word of words) {
+        const visibleWidth = word.filter(g => !g.isSpace).reduce((sum, g) => sum + g.width + letterSpacing, 0);
+        if (line.length > 0 && lineWidth + visibleWidth > maxWidth) {
+            lines.push(line);
+            line = [];
+            lineWidth = 0;
+        }
+        line.push(...word);
+        lineWidth += word.reduce((sum, g) => sum + g.width + letterSpacing, 0);
+    }
+    lines.push(line);
+    return lines;
+};
+
+const toPlacedGlyph = (glyph: MeasuredGlyph, x: number, y: number, rotation = 0): PlacedGlyph =>
+    ({ text: glyph.text, x, y, rotation, width: glyph.width, style: glyph.style, hasOwnColor: glyph.hasOwnColor });
+
+// The width of a run of glyphs, leaving out trailing spaces and the last glyph's spacing.
+const getRunWidth = (glyphs: MeasuredGlyph[], letterSpacing: number): number => {
+    let end = glyphs.length;
+    while (end > 0 && glyphs[end - 1].isSpace) end--;
+    return end === 0 ? 0 : glyphs.slice(0, end).reduce((sum, g) => sum + g.width + letterSpacing, 0) - letterSpacing;
+};
+
+const layoutHorizontal = (layer: Layer, glyphs: MeasuredGlyph[]): PlacedGlyph[] => {
+    const letterSpacing = layer.letterSpacing || 0;
+    const base = getLayerTextStyle(layer);
+    const placed: PlacedGlyph[] = [];
+    let top = 0;
+    for (const paragraph of splitParagraphs(glyphs)) {
+        for (const line of wrapParagraph(paragraph, layer.width, letterSpacing)) {
+            const fontSize = Math.max(base.fontSize, ...line.map(g => g.style.fontSize));
+            const ascent = Math.max(0, ...line.map(g => g.ascent)) || fontSize * 0.8;
+            const width = getRunWidth(line, letterSpacing);
+            let x = layer.textAlign === 'center' ? (layer.width - width) / 2 : layer.textAlign === 'right' ? layer.width - width : 0;
+            for (const glyph of line) {
+                if (!glyph.isSpace) placed.push(toPlacedGlyph(glyph, x, top + ascent));
+                x += glyph.width + letterSpacing;
+            }
+            top += fontSize * (layer.lineHeight || DEFAULT_LINE_HEIGHT);
+        }
+    }
+    return placed;
+};
+
+// Columns run left to right and wrap at the box's height. The alignment places each
+// column's glyphs at the top, middle or bottom.
+const layoutVertical = (layer: Layer, glyphs: MeasuredGlyph[]): PlacedGlyph[] => {
+    const letterSpacing = layer.letterSpacing || 0;
+    const base = getLayerTextStyle(layer);
+    const columns: MeasuredGlyph[][] = [];
+    for (const paragraph of splitParagraphs(glyphs)) {
+        let column: MeasuredGlyph[] = [];
+        let length = 0;
+        for (const glyph of paragraph) {
+            if (column.length > 0 && length + glyph.style.fontSize > layer.height) {
+                columns.push(column);
+                column = [];
+                length = 0;
+            }
+            column.push(glyph);
+            length += glyph.style.fontSize + letterSpacing;
+        }
+        columns.push(column);
+    }
+
+    const placed: PlacedGlyph[] = [];
+    let left = 0;
+    for (const column of columns) {
+        const columnWidth = Math.max(base.fontSize, ...column.map(g => g.style.fontSize)) * (layer.lineHeight || DEFAULT_LINE_HEIGHT);
+        const length = column.length === 0 ? 0 : column.reduce((sum, g) => sum + g.style.fontSize + letterSpacing, 0) - letterSpacing;
+        let y = layer.textAlign === 'center' ? (layer.height - length) / 2 : layer.textAlign === 'right' ? layer.height - length : 0;
+        for (const glyph of column) {
+            if (!glyph.isSpace) placed.push(toPlacedGlyph(glyph, left + (columnWidth - glyph.width) / 2, y + glyph.ascent));
+            y += glyph.style.fontSize + letterSpacing;
+        }
+        left += columnWidth;
+    }
+    return placed;
+};
+
+// --- Text on a path ---
+
+const getCubicPoint = (from: PenNode, to: PenNode, t: number): Point => {
+    const mt = 1 - t;
+    const a = mt * mt * mt, b = 3 * mt * mt * t, c = 3 * mt * t * t, d = t * t * t;
+    return {
+        x: a * from.anchor.x + b * from.outHandle.x + c * to.inHandle.x + d * to.anchor.x,
+        y: a * from.anchor.y + b * from.outHandle.y + c * to.inHandle.y + d * to.anchor.y,
+    };
+};
+
+/**
+ * The arc text follows, as bezier nodes in the layer's own box. It spans the box's width
+ * with the first line's baseline at the top; `textArc` bends it up (positive) or down,
+ * as far as the box's height allows.
+ */
+const getTextArcNodes = (layer: Layer, ascent: number, fontSize: number): PenNode[] => {
+    const bend = Math.max(-100, Math.min(100, layer.textArc || 0)) / 100;
+    const sag = Math.abs(bend) * Math.max(0, layer.height - ascent - fontSize * DESCENT_RATIO);
+    const [endY, middleY] = bend >= 0 ? [ascent + sag, ascent] : [ascent, ascent + sag];
+    // A cubic's middle sits three quarters of the way to its handles.
+    const handleY = endY + ((middleY - endY) * 4) / 3;
+    const { width } = layer;
+    return [
+        { anchor: { x: 0, y: endY }, inHandle: { x: 0, y: endY }, outHandle: { x: width / 3, y: handleY } },
+        { anchor: { x: width, y: endY }, inHandle: { x: (width * 2) / 3, y: handleY }, outHandle: { x: width, y: endY } },
+    ];
+};
+
+// The path as short straight steps, with the distance along it to each point.
+const samplePath = (nodes: PenNode[]): { points: Point[]; distances: number[] } => {
+    const points: Point[] = [];
+    const distances: number[] = [];
+    const addPoint = (point: Point) => {
+        const previous = points[points.length - 1];
+        if (!previous) {
+            points.push(point);
+            distances.push(0);
+            return;
+        }
+        const step = Math.hypot(point.x - previous.x, point.y - previous.y);
+        if (step < 1e-6) return;
+        points.push(point);
+        distances.push(distances[distances.length - 1] + step);
+    };
+    if (nodes.length > 0) addPoint(nodes[0].anchor);
+    for (let i = 0; i < nodes.length - 1; i++) {
+        for (let step = 1; step <= PATH_SAMPLES_PER_SEGMENT; step++) {
+            addPoint(getCubicPoint(nodes[i], nodes[i + 1], step / PATH_SAMPLES_PER_SEGMENT));
+        }
+    }
+    return { points, distances };
+};
+
+// A point and direction at a distance along the path. Past either end the path carries
+// on straight, so text longer than the path isn't piled up at its ends.
+const getPointAtDistance = (samples: { points: Point[]; distances: number[] }, distance: number): { point: Point; angle: number } => {
+    const { points, distances } = samples;
+    let i = 0;
+    while (i < points.length - 2 && distances[i + 1] < distance) i++;
+    const from = points[i];
+    const to = points[i + 1];
+    const t = (distance - distances[i]) / (distances[i + 1] - distances[i]);
+    return {
+        point: { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t },
+        angle: Math.atan2(to.y - from.y, to.x - from.x),
+    };
+};
+
+// One line of text with its baseline on the path; line breaks become spaces.
+const layoutOnPath = (layer: Layer, glyphs: MeasuredGlyph[]): PlacedGlyph[] => {
+    const letterSpacing = layer.letterSpacing || 0;
+    const base = getLayerTextStyle(layer);
+    const line = glyphs.map(glyph => glyph.isLineBreak ? { ...glyph, isSpace: true } : glyph);
+    const ascent = Math.max(0, ...line.map(g => g.ascent)) || base.fontSize * 0.8;
+    const fontSize = Math.max(base.fontSize, ...line.map(g => g.style.fontSize));
+    const nodes = layer.textPath === 'path' && (layer.pathNodes?.length || 0) >= 2
+        ? getLayerPathNodes(layer)
+        : getTextArcNodes(layer, ascent, fontSize);
+    let samples = samplePath(nodes);
+    if (samples.points.length < 2) {
+        samples = { points: [{ x: 0, y: ascent }, { x: layer.width, y: ascent }], distances: [0, layer.width] };
+    }
+
+    const pathLength = samples.distances[samples.distances.length - 1];
+    const width = getRunWidth(line, letterSpacing);
+    let offset = layer.textAlign === 'center' ? (pathLength - width) / 2 : layer.textAlign === 'right' ? pathLength - width : 0;
+    const placed: PlacedGlyph[] = [];
+    for (const glyph of line) {
+        if (!glyph.isSpace) {
+            // The glyph's middle sits on the path, turned along it.
+            const { point, angle } = getPointAtDistance(samples, offset + glyph.width / 2);
+            const x = point.x - (Math.cos(angle) * glyph.width) / 2;
+            const y = point.y - (Math.sin(angle) * glyph.width) / 2;
+            placed.push(toPlacedGlyph(glyph, x, y, angle));
+        }
+        offset += glyph.width + letterSpacing;
+    }
+    return placed;
+};
+
+/**
+ * Places a text layer's glyphs in its own box. Glyphs may reach outside the box; like
+ * before, text that doesn't fit isn't cut off.
+ */
+export const layoutTextLayer = (layer: Layer): PlacedGlyph[] => {
+    const glyphs = measureGlyphs(layer);
+    if (layer.textPath) return layoutOnPath(layer, glyphs);
+    return layer.isVerticalText ? layoutVertical(layer, glyphs) : layoutHorizontal(layer, glyphs);
+};
+
+/** The box around placed glyphs in the layer's own box, grown by `padding`. Null when there are none. */
+export const getGlyphBounds = (glyphs: PlacedGlyph[], padding: number): Rect | null => {
+    if (glyphs.length === 0) return null;
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const glyph of glyphs) {
+        const cos = Math.cos(glyph.rotation);
+        const sin = Math.sin(glyph.rotation);
+        const size = glyph.style.fontSize;
+        for (const [dx, dy] of [[0, -size], [glyph.width, -size], [glyph.width, size * DESCENT_RATIO], [0, size * DESCENT_RATIO]]) {
+            xs.push(glyph.x + dx * cos - dy * sin);
+            ys.push(glyph.y + dx * sin + dy * cos);
+        }
+    }
+    const x = Math.min(...xs) - padding;
+    const y = Math.min(...ys) - padding;
+    return { x, y, width: Math.max(...xs) + padding - x, height: Math.max(...ys) + padding - y };
+};
+
+/** Path nodes (as the layer stores them) that start a custom text path where the text now runs. */
+export const createTextPathNodes = (layer: Layer): PenNode[] => {
+    const glyphs = measureGlyphs(layer);
+    const fontSize = Math.max(layer.fontSize || DEFAULT_FONT_SIZE, ...glyphs.map(g => g.style.fontSize));
+    const ascent = Math.max(0, ...glyphs.map(g => g.ascent)) || fontSize * 0.8;
+    return toStoredPathNodes(layer, getTextArcNodes(layer, ascent, fontSize));
+};
+
+/**
+ * Waits for the fonts text layers use, so measuring and drawing them uses the real fonts
+ * rather than a fallback. Web fonts are split by script, so the layers' own text is what
+ * gets loaded, Vietnamese characters included. A font that fails to load falls back like
+ * it does on the page.
+ */
+export const loadTextLayerFonts = async (layers: Layer[]): Promise<void> => {
+    if (typeof document === 'undefined' || !document.fonts) return;
+    const textsByFont = new Map<string, string>();
+    for (const layer of layers) {
+        if (layer.type !== 'text' || !layer.text) continue;
+        const text = getTextLayerContent(layer);
+        getTextLayerFonts(layer).forEach(font => textsByFont.set(font, (textsByFont.get(font) || '') + text));
+    }
+    await Promise.all([...textsByFont].map(([font, text]) => document.fonts.load(font, text).catch(() => [])));
+};
@@ -2,6 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { type ColorAdjustments, type PenNode } from '../ImageEditor/ImageEditor.types';
 
 // --- Shared Types ---
 export type Point = { x: number; y: number };
@@ -24,11 +25,27 @@ export interface CanvasSettings {
     };
 }
 
-export type CanvasTool = 'select' | 'hand' | 'rectangle' | 'ellipse';
+// A named page on the infinite canvas with its own size and background. Artboards don't
+// own layers; exporting one captures whatever the layers draw inside its bounds.
+export interface Artboard {
+    id: string;
+    name: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    background: string | null;
+}
+
+export type VectorExportFormat = 'svg' | 'pdf';
+// PNG and SVG download one file per artboard; ZIP and PDF bundle them into one file.
+export type ArtboardExportFormat = 'png' | 'zip' | VectorExportFormat;
+
+export type CanvasTool = 'select' | 'hand' | 'rectangle' | 'ellipse' | 'polygon' | 'star' | 'pen';
 export type Handle = 'tl' | 'tr' | 'bl' | 'br' | 't' | 'b' | 'l' | 'r';
 
 export type Interaction = {
-    type: 'move' | 'resize' | 'rotate' | 'duplicate-move' | 'copy-selection-move' | 'marquee' | 'drawingShape';
+    type: 'move' | 'resize' | 'rotate' | 'duplicate-move' | 'copy-selection-move' | 'marquee' | 'drawingShape' | 'drawingPen' | 'editPathNode';
     handle?: Handle;
     initialLayers?: Layer[];
     initialPointer: Point;
@@ -41,14 +58,81 @@ export type Interaction = {
     lockedAxis?: 'x' | 'y' | null;
     isShift?: boolean;
     isAlt?: boolean;
+    // The node being dragged while editing a path layer
+    pathNode?: { index: number; part: 'anchor' | 'inHandle' | 'outHandle' };
 };
 
 // --- Layer Types ---
 export type BlendMode = 'source-over' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'color-dodge' | 'color-burn' | 'hard-light' | 'soft-light' | 'difference' | 'exclusion' | 'hue' | 'saturation' | 'color' | 'luminosity';
 
+// A raster mask in the layer's own (unrotated) space. Opaque pixels keep the layer,
+// transparent pixels hide it; inversion and feathering are applied when rendering.
+export interface LayerMask {
+    url: string;
+    isEnabled: boolean;
+    isInverted: boolean;
+    feather: number;
+}
+
+export interface MaskBrush {
+    size: number;
+    mode: 'reveal' | 'hide';
+}
+
+export interface GradientStop {
+    offset: number;
+    color: string;
+}
+
+// A style for a range of a text layer's text, as UTF-16 offsets with the end exclusive.
+// Properties a span leaves out come from the layer.
+export interface TextSpan {
+    start: number;
+    end: number;
+    fontFamily?: string;
+    fontSize?: number;
+    fontWeight?: string;
+    fontStyle?: 'normal' | 'italic';
+    color?: string;
+}
+
+// An input of an AI layer, with a fingerprint of how it looked when the layer was generated.
+export interface GenerationInput {
+    layerId: string;
+    fingerprint: string;
+}
+
+// How an AI layer was generated, so it can be generated again. Layers generated together
+// share an id and are told apart by `variation`.
+export interface GenerationRecipe {
+    id: string;
+    // The model call: edit one input, combine several, text only, or an app preset file
+    mode: 'edit' | 'combine' | 'free' | 'preset';
+    // The composer preset and the prompt as typed, before the preset's template or refining
+    presetId?: string;
+    userPrompt: string;
+    // The prompt sent to the model
+    prompt: string;
+    // The app preset file ({ viewId, state }) for 'preset'
+    appPreset?: { viewId: string; state: any };
+    inputs: GenerationInput[];
+    aspectRatio?: string;
+    removeWatermark?: boolean;
+    variation: number;
+}
+
+// The ImageEditor's basic and per-channel HSL adjustments, on the same scales.
+export interface LayerAdjustments {
+    brightness: number;
+    contrast: number;
+    hue: number;
+    saturation: number;
+    colorAdjustments: ColorAdjustments;
+}
+
 export interface Layer {
     id: string;
-    type: 'image' | 'text' | 'shape';
+    type: 'image' | 'text' | 'shape' | 'adjustment' | 'group';
     x: number;
     y: number;
     width: number;
@@ -60,6 +144,8 @@ export interface Layer {
     isLocked: boolean;
     // Image-specific
     url?: string;
+    // How an AI layer's image was generated
+    generation?: GenerationRecipe;
     // Text-specific
     text?: string;
     fontFamily?: string;
@@ -70,10 +156,54 @@ export interface Layer {
     textAlign?: 'left' | 'center' | 'right';
     color?: string;
     lineHeight?: number;
+    textSpans?: TextSpan[];
+    // Extra space after each character, in canvas units
+    letterSpacing?: number;
+    // Characters stacked top to bottom in columns running left to right
+    isVerticalText?: boolean;
+    // Text on an arc bent by textArc (-100 to 100), or on the layer's own pathNodes
+    textPath?: 'arc' | 'path';
+    textArc?: number;
+    // The outline is drawn outside the glyphs
+    textStrokeColor?: string;
+    textStrokeWidth?: number;
+    textShadowColor?: string;
+    textShadowBlur?: number;
+    textShadowOffsetX?: number;
+    textShadowOffsetY?: number;
     // Shape-specific
-    shapeType?: 'rectangle' | 'ellipse';
+    shapeType?: 'rectangle' | 'ellipse' | 'path';
     fillColor?: string;
+    // Shapes and text. Gradients run across the layer's box; solid is the default
+    fillType?: 'solid' | 'linear' | 'radial' | 'none';
+    gradientStops?: GradientStop[];
+    gradientAngle?: number;
     borderRadius?: number;
+    // The stroke is drawn inside the box
+    strokeColor?: string;
+    strokeWidth?: number;
+    strokeDash?: 'solid' | 'dashed' | 'dotted';
+    strokeJoin?: 'miter' | 'round' | 'bevel';
+    // Path-specific (and text on a path): bezier nodes relative to the box inside the stroke (0-1 on both axes)
+    pathNodes?: PenNode[];
+    isPathClosed?: boolean;
+    // Adjustment-specific: applied to everything below the layer, inside its bounds
+    adjustments?: LayerAdjustments;
+    mask?: LayerMask;
+    // Group-specific: the box is derived from the group's contents
+    isCollapsed?: boolean;
+    // The group this layer belongs to, if any
+    parentId?: string;
+    // A name carried over from an imported layered file; the layer list falls back to the type
+    name?: string;
+}
+
+// The layers of an imported layered file (PSD, OpenRaster), topmost first, in canvas
+// coordinates with the document's top-left corner at the origin.
+export interface LayeredDocument {
+    width: number;
+    height: number;
+    layers: Layer[];
 }
 
 
@@ -90,7 +220,7 @@ export type MultiLayerAction =
     | 'align-top' | 'align-middle' | 'align-bottom'
     | 'distribute-horizontal' | 'distribute-vertical'
     | 'distribute-and-scale-horizontal' | 'distribute-and-scale-vertical'
-    | 'merge' | 'delete' | 'duplicate' | 'export';
+    | 'merge' | 'group' | 'delete' | 'duplicate' | 'export' | 'export-svg' | 'export-pdf';
 
 // --- AI & Preset Types ---
 export type AIPreset = {
@@ -102,8 +232,56 @@ export type AIPreset = {
     promptTemplate: { vi: string; en: string };
 };
 
-// --- Utility Function ---
-export const getBoundingBoxForLayers = (layers: Layer[]): Rect | null => {
+// --- Utility Functions ---
+
+/**
+ * The layers inside a group, at any depth, in stored order. Layers are stored flat,
+ * topmost first, and a group's contents follow it directly.
+ */
+export const getLayerDescendants = (layers: Layer[], groupId: string): Layer[] => {
+    const ids = new Set([groupId]);
+    return layers.filter(layer => {
+        if (!layer.parentId || !ids.has(layer.parentId)) return false;
+        ids.add(layer.id);
+        return true;
+    });
+};
+
+/**
+ * The corners of a layer's rotated box, in canvas coordinates.
+ */
+export const getLayerCorners = (layer: Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'rotation'>): Point[] => {
+    const { x, y, width, height, rotation } = layer;
+    const centerX = x + width / 2;
+    const centerY = y + height / 2;
+    const rad = (rotation * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+
+    const points = [
+        { x: x, y: y }, // Top-left
+        { x: x + width, y: y }, // Top-right
+        { x: x + width, y: y + height }, // Bottom-right
+        { x: x, y: y + height }, // Bottom-left
+    ];
+
+    return points.map(point => {
+        // Translate point to origin
+        const translatedX = point.x - centerX;
+        const translatedY = point.y - centerY;
+        // Rotate point
+        const rotatedX = translatedX * cos - translatedY * sin;
+        const rotatedY = translatedX * sin + translatedY * cos;
+        // Translate point back
+        return { x: rotatedX + centerX, y: rotatedY + centerY };
+    });
+};
+
+/**
+ * The axis-aligned box around some layers. A group is measured by its contents, looked
+ * up in `allLayers`, so a rotated group is not measured by its own looser box.
+ */
+export const getBoundingBoxForLayers = (layers: Layer[], allLayers: Layer[] = layers): Rect | null => {
     if (!layers || layers.length === 0) {
         return null;
     }
@@ -113,36 +291,18 @@ export const getBoundingBoxForLayers = (layers: Layer[]): Rect | null => {
     let maxX = -Infinity;
     let maxY = -Infinity;
 
-    layers.forEach(layer => {
-        const { x, y, width, height, rotation } = layer;
-        const centerX = x + width / 2;
-        const centerY = y + height / 2;
-        const rad = (rotation * Math.PI) / 180;
-        const cos = Math.cos(rad);
-        const sin = Math.sin(rad);
-
-        const points = [
-            { x: x, y: y }, // Top-left
-            { x: x + width, y: y }, // Top-right
-            { x: x + width, y: y + height }, // Bottom-right
-            { x: x, y: y + height }, // Bottom-left
-        ];
-
-        points.forEach(point => {
-            // Translate point to origin
-            const translatedX = point.x - centerX;
-            const translatedY = point.y - centerY;
-            // Rotate point
-            const rotatedX = translatedX * cos - translatedY * sin;
-            const rotatedY = translatedX * sin + translatedY * cos;
-            // Translate point back
-            const finalX = rotatedX + centerX;
-            const finalY = rotatedY + centerY;
-
-            minX = Math.min(minX, finalX);
-            minY = Math.min(minY, finalY);
-            maxX = Math.max(maxX, finalX);
-            maxY = Math.max(maxY, finalY);
+    const measuredLayers = layers.flatMap(layer => {
+        if (layer.type !== 'group') return [layer];
+        const contents = getLayerDescendants(allLayers, layer.id).filter(l => l.type !== 'group');
+        return contents.length > 0 ? contents : [layer];
+    });
+
+    measuredLayers.forEach(layer => {
+        getLayerCorners(layer).forEach(point => {
+            minX = Math.min(minX, point.x);
+            minY = Math.min(minY, point.y);
+            maxX = Math.max(maxX, point.x);
+            maxY = Math.max(maxY, point.y);
         });
     });
 
@@ -156,4 +316,4 @@ export const getBoundingBoxForLayers = (layers: Layer[]): Rect | null => {
         width: maxX - minX,
         height: maxY - minY,
     };
-};
\ No newline at end of file
+};
@@ -0,0 +1,492 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type LayerAdjustments, type LayerMask, type Rect, getBoundingBoxForLayers, getLayerDescendants } from './LayerComposer.types';
+import { getLayersWithDescendants } from './LayerComposer.hierarchy';
+import { getGradientGeometry, getGradientStops, getShapePathData, getStrokeDashArray, hasFill, hasStroke } from './LayerComposer.paths';
+import { type PlacedGlyph, getFontString, getGlyphBounds, hasTextFill, hasTextShadow, hasTextStroke, layoutTextLayer, loadTextLayerFonts } from './LayerComposer.text';
+import { INITIAL_COLOR_ADJUSTMENTS } from '../ImageEditor/ImageEditor.constants';
+import { rgbToHsl, hslToRgb, getColorChannelShift } from '../ImageEditor/ImageEditor.utils';
+import { resolveImageUrl } from '../../lib/imageStore';
+
+// Rendering shared by the canvas preview, merge, bake and export, so that masks and
+// adjustment layers come out the same everywhere.
+
+export const DEFAULT_LAYER_ADJUSTMENTS: LayerAdjustments = {
+    brightness: 0,
+    contrast: 0,
+    hue: 0,
+    saturation: 0,
+    colorAdjustments: INITIAL_COLOR_ADJUSTMENTS,
+};
+
+const MAX_MASK_SIZE = 2048;
+const EXPORT_SCALE_FACTOR = 4;
+
+interface LayerAssets {
+    image?: HTMLImageElement;
+    // The effective mask (inverted and feathered) at the mask's own resolution.
+    mask?: HTMLCanvasElement;
+}
+
+type AssetMap = Map<string, LayerAssets>;
+
+const XML_ESCAPES: Record<string, string> = { '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' };
+
+/** Escapes text for XML content and attribute values (SVG and OpenRaster stack.xml). */
+export const escapeXml = (value: string) => value.replace(/[<>&"']/g, c => XML_ESCAPES[c]);
+
+// Layer and mask URLs may be image store references; they load through their object URL.
+export const loadImage = async (url: string): Promise<HTMLImageElement> => {
+    const src = await resolveImageUrl(url);
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'Anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${url.substring(0, 50)}...`));
+        img.src = src;
+    });
+};
+
+export const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create canvas context");
+    return [canvas, ctx];
+};
+
+// --- Adjustments ---
+
+export const isNeutralAdjustments = (adjustments: LayerAdjustments | undefined): boolean => {
+    if (!adjustments) return true;
+    const { brightness, contrast, hue, saturation, colorAdjustments } = adjustments;
+    return brightness === 0 && contrast === 0 && hue === 0 && saturation === 0
+        && Object.values(colorAdjustments).every(adj => adj.h === 0 && adj.s === 0 && adj.l === 0);
+};
+
+/**
+ * Applies adjustments to the pixels of a canvas, with the same math as the ImageEditor.
+ */
+export const applyLayerAdjustments = (ctx: CanvasRenderingContext2D, width: number, height: number, adjustments: LayerAdjustments) => {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    const { brightness, contrast, hue, saturation, colorAdjustments } = adjustments;
+    const contrastFactor = (100 + contrast) / 100;
+
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue;
+        let r = data[i], g = data[i + 1], b = data[i + 2];
+        r = (r - 127.5) * contrastFactor + 127.5; g = (g - 127.5) * contrastFactor + 127.5; b = (b - 127.5) * contrastFactor + 127.5;
+        let [h, s, l] = rgbToHsl(r, g, b);
+        h = (h + hue) % 360; l += brightness / 2; s += saturation;
+        const channelShift = getColorChannelShift(h < 0 ? h + 360 : h, colorAdjustments);
+        h += channelShift.h; s += channelShift.s; l += channelShift.l;
+        h = ((h % 360) + 360) % 360;
+        s = Math.max(0, Math.min(100, s)); l = Math.max(0, Math.min(100, l));
+        [r, g, b] = hslToRgb(h, s, l);
+        data[i] = r; data[i + 1] = g; data[i + 2] = b;
+    }
+    ctx.putImageData(imageData, 0, 0);
+};
+
+// --- Masks ---
+
+/**
+ * The pixel size of a new mask for a layer, capped so large layers stay cheap to paint.
+ */
+export const getMaskSize = (layer: Pick<Layer, 'width' | 'height'>): { width: number; height: number } => {
+    const factor = Math.min(1, MAX_MASK_SIZE / Math.max(layer.width, layer.height, 1));
+    return { width: Math.max(1, Math.round(layer.width * factor)), height: Math.max(1, Math.round(layer.height * factor)) };
+};
+
+/**
+ * A new mask that shows (or hides) the whole layer.
+ */
+export const createLayerMask = (layer: Pick<Layer, 'width' | 'height'>, fill: 'reveal' | 'hide' = 'reveal'): LayerMask => {
+    const { width, height } = getMaskSize(layer);
+    const [canvas, ctx] = createCanvas(width, height);
+    if (fill === 'reveal') {
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, width, height);
+    }
+    return { url: canvas.toDataURL('image/png'), isEnabled: true, isInverted: false, feather: 0 };
+};
+
+/**
+ * Renders a mask with its inversion and feathering applied, at the mask's own resolution.
+ * @param mask The mask to render.
+ * @param layerWidth Width of the layer in canvas units; the feather radius is in those units.
+ */
+export const renderLayerMask = async (mask: LayerMask, layerWidth: number): Promise<HTMLCanvasElement> => {
+    const source = await loadImage(mask.url);
+    const { naturalWidth: width, naturalHeight: height } = source;
+    const [canvas, ctx] = createCanvas(width, height);
+
+    let shape: CanvasImageSource = source;
+    if (mask.isInverted) {
+        const [inverted, invertedCtx] = createCanvas(width, height);
+        invertedCtx.fillStyle = '#FFFFFF';
+        invertedCtx.fillRect(0, 0, width, height);
+        invertedCtx.globalCompositeOperation = 'destination-out';
+        invertedCtx.drawImage(source, 0, 0);
+        shape = inverted;
+    }
+
+    const blur = mask.feather * (width / Math.max(layerWidth, 1));
+    if (blur <= 0) {
+        ctx.drawImage(shape, 0, 0);
+        return canvas;
+    }
+
+    // Blur on a padded copy whose border repeats the mask's edges, so feathering softens
+    // painted edges without fading the layer's own borders.
+    const padding = Math.ceil(blur * 2);
+    const [padded, paddedCtx] = createCanvas(width + padding * 2, height + padding * 2);
+    paddedCtx.drawImage(shape, 0, 0, padded.width, padded.height);
+    paddedCtx.clearRect(padding, padding, width, height);
+    paddedCtx.drawImage(shape, padding, padding);
+    ctx.filter = `blur(${blur}px)`;
+    ctx.drawImage(padded, -padding, -padding);
+    ctx.filter = 'none';
+    return canvas;
+};
+
+// --- Layer drawing ---
+
+// Also waits for the fonts of text layers, so captures use the same fonts as the canvas.
+const loadLayerAssets = async (layers: Layer[]): Promise<AssetMap> => {
+    const fontsLoaded = loadTextLayerFonts(layers);
+    const entries = await Promise.all(layers.map(async (layer): Promise<[string, LayerAssets]> => {
+        const [image, mask] = await Promise.all([
+            layer.type === 'image' && layer.url ? loadImage(layer.url) : undefined,
+            layer.mask?.isEnabled ? renderLayerMask(layer.mask, layer.width) : undefined,
+        ]);
+        return [layer.id, { image, mask }];
+    }));
+    await fontsLoaded;
+    return new Map(entries);
+};
+
+/**
+ * Draws a layer's own content into the box (0, 0, layer.width, layer.height).
+ */
+const drawLayerContent = (ctx: CanvasRenderingContext2D, layer: Layer, image?: HTMLImageElement) => {
+    if (layer.type === 'text' && layer.text) {
+        drawText(ctx, layer);
+    } else if (layer.type === 'image') {
+        if (image) {
+            ctx.drawImage(image, 0, 0, layer.width, layer.height);
+        }
+    } else if (layer.type === 'shape') {
+        drawShape(ctx, layer);
+    }
+};
+
+// `toLocal` maps the layer's own box to the space the gradient is painted in.
+const createGradientFill = (ctx: CanvasRenderingContext2D, layer: Layer, toLocal: (x: number, y: number) => DOMPoint = (x, y) => new DOMPoint(x, y)): CanvasGradient => {
+    const geometry = getGradientGeometry(layer);
+    let gradient: CanvasGradient;
+    if (geometry.type === 'radial') {
+        const center = toLocal(geometry.cx, geometry.cy);
+        gradient = ctx.createRadialGradient(center.x, center.y, 0, center.x, center.y, geometry.r);
+    } else {
+        const from = toLocal(geometry.x1, geometry.y1);
+        const to = toLocal(geometry.x2, geometry.y2);
+        gradient = ctx.createLinearGradient(from.x, from.y, to.x, to.y);
+    }
+    getGradientStops(layer).forEach(stop => gradient.addColorStop(Math.min(1, Math.max(0, stop.offset)), stop.color));
+    return gradient;
+};
+
+const createShapeFill = (ctx: CanvasRenderingContext2D, layer: Layer): string | CanvasGradient =>
+    layer.fillType === 'linear' || layer.fillType === 'radial' ? createGradientFill(ctx, layer) : layer.fillColor || '#FFFFFF';
+
+const drawShape = (ctx: CanvasRenderingContext2D, layer: Layer) => {
+    const path = new Path2D(getShapePathData(layer));
+    if (hasFill(layer)) {
+        ctx.fillStyle = createShapeFill(ctx, layer);
+        ctx.fill(path);
+    }
+    if (hasStroke(layer)) {
+        ctx.strokeStyle = layer.strokeColor!;
+        ctx.lineWidth = layer.strokeWidth!;
+        ctx.lineJoin = layer.strokeJoin || 'miter';
+        ctx.setLineDash(getStrokeDashArray(layer));
+        ctx.stroke(path);
+    }
+};
+
+// Outlines go under every glyph's fill, so a thick outline doesn't cover the letter next to it.
+const drawGlyphs = (ctx: CanvasRenderingContext2D, layer: Layer, glyphs: PlacedGlyph[]) => {
+    const isGradient = layer.fillType === 'linear' || layer.fillType === 'radial';
+    const paint = (isStroke: boolean) => glyphs.forEach(glyph => {
+        ctx.save();
+        ctx.translate(glyph.x, glyph.y);
+        ctx.rotate(glyph.rotation);
+        ctx.font = getFontString(glyph.style);
+        if (isStroke) {
+            ctx.strokeStyle = layer.textStrokeColor!;
+            ctx.lineWidth = layer.textStrokeWidth! * 2;
+            ctx.lineJoin = 'round';
+            ctx.strokeText(glyph.text, 0, 0);
+        } else {
+            // The gradient spans the layer's box, whichever way the glyph is turned.
+            const toGlyph = new DOMMatrix().rotate((-glyph.rotation * 180) / Math.PI).translate(-glyph.x, -glyph.y);
+            ctx.fillStyle = isGradient && !glyph.hasOwnColor
+                ? createGradientFill(ctx, layer, (x, y) => toGlyph.transformPoint(new DOMPoint(x, y)))
+                : glyph.style.color;
+            ctx.fillText(glyph.text, 0, 0);
+        }
+        ctx.restore();
+    });
+    ctx.textBaseline = 'alphabetic';
+    ctx.textAlign = 'left';
+    if (hasTextStroke(layer)) paint(true);
+    if (hasTextFill(layer)) paint(false);
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: Layer) => {
+    const glyphs = layoutTextLayer(layer);
+    const bounds = getGlyphBounds(glyphs, hasTextStroke(layer) ? layer.textStrokeWidth! : 0);
+    if (!bounds) return;
+    if (!hasTextShadow(layer)) {
+        drawGlyphs(ctx, layer, glyphs);
+        return;
+    }
+    // The text is drawn on its own first and the shadow cast from that, so no glyph's
+    // shadow falls on the one before it. Shadow settings are in pixels, not in the
+    // context's units, so they are scaled and turned to match the layer.
+    const transform = ctx.getTransform();
+    const scale = Math.hypot(transform.a, transform.b) || 1;
+    const [textCanvas, textCtx] = createCanvas(bounds.width * scale, bounds.height * scale);
+    textCtx.scale(textCanvas.width / bounds.width, textCanvas.height / bounds.height);
+    textCtx.translate(-bounds.x, -bounds.y);
+    drawGlyphs(textCtx, layer, glyphs);
+
+    const offsetX = layer.textShadowOffsetX || 0;
+    const offsetY = layer.textShadowOffsetY || 0;
+    ctx.save();
+    ctx.shadowColor = layer.textShadowColor!;
+    ctx.shadowBlur = (layer.textShadowBlur || 0) * scale;
+    ctx.shadowOffsetX = transform.a * offsetX + transform.c * offsetY;
+    ctx.shadowOffsetY = transform.b * offsetX + transform.d * offsetY;
+    ctx.drawImage(textCanvas, bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.restore();
+};
+
+/**
+ * Draws a layer's content with its mask applied onto a canvas of its own. Images keep
+ * their natural resolution; text and shapes are drawn at `scale`.
+ */
+const renderMaskedLayer = (layer: Layer, assets: LayerAssets, scale: number): HTMLCanvasElement => {
+    const width = assets.image ? assets.image.naturalWidth : layer.width * scale;
+    const height = assets.image ? assets.image.naturalHeight : layer.height * scale;
+    const [canvas, ctx] = createCanvas(width, height);
+    ctx.scale(canvas.width / layer.width, canvas.height / layer.height);
+    drawLayerContent(ctx, layer, assets.image);
+    if (assets.mask) {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalCompositeOperation = 'destination-in';
+        ctx.drawImage(assets.mask, 0, 0, canvas.width, canvas.height);
+    }
+    return canvas;
+};
+
+// Maps the layer's own box onto the canvas, on top of the context's current transform.
+const getLayerTransform = (base: DOMMatrix, layer: Layer): DOMMatrix =>
+    base
+        .translate(layer.x + layer.width / 2, layer.y + layer.height / 2)
+        .rotate(layer.rotation)
+        .translate(-layer.width / 2, -layer.height / 2);
+
+/**
+ * The pixels an adjustment layer produces: what is already on the canvas inside the
+ * layer's bounds, adjusted, and cut to the layer's shape and mask. Null when the layer
+ * lies outside the canvas.
+ */
+const createAdjustmentPatch = (
+    ctx: CanvasRenderingContext2D,
+    layer: Layer,
+    mask?: HTMLCanvasElement
+): { canvas: HTMLCanvasElement; x: number; y: number } | null => {
+    const transform = getLayerTransform(ctx.getTransform(), layer);
+    const corners = [[0, 0], [layer.width, 0], [layer.width, layer.height], [0, layer.height]]
+        .map(([x, y]) => transform.transformPoint(new DOMPoint(x, y)));
+    const left = Math.max(0, Math.floor(Math.min(...corners.map(p => p.x))));
+    const top = Math.max(0, Math.floor(Math.min(...corners.map(p => p.y))));
+    const right = Math.min(ctx.canvas.width, Math.ceil(Math.max(...corners.map(p => p.x))));
+    const bottom = Math.min(ctx.canvas.height, Math.ceil(Math.max(...corners.map(p => p.y))));
+    if (right <= left || bottom <= top) return null;
+
+    const width = right - left;
+    const height = bottom - top;
+    const [patch, patchCtx] = createCanvas(width, height);
+    patchCtx.drawImage(ctx.canvas, left, top, width, height, 0, 0, width, height);
+    if (layer.adjustments && !isNeutralAdjustments(layer.adjustments)) {
+        applyLayerAdjustments(patchCtx, width, height, layer.adjustments);
+    }
+
+    const [shape, shapeCtx] = createCanvas(width, height);
+    shapeCtx.setTransform(new DOMMatrix().translate(-left, -top).multiply(transform));
+    if (mask) {
+        shapeCtx.drawImage(mask, 0, 0, layer.width, layer.height);
+    } else {
+        shapeCtx.fillStyle = '#FFFFFF';
+        shapeCtx.fillRect(0, 0, layer.width, layer.height);
+    }
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.drawImage(shape, 0, 0);
+    return { canvas: patch, x: left, y: top };
+};
+
+/**
+ * Draws layers (topmost first, as stored) onto a context whose transform maps canvas
+ * coordinates to pixels. Masks cut each layer; adjustment layers re-color what lies below.
+ * Layers whose group is not in the list are drawn as if they were at the top level.
+ */
+const drawLayers = (ctx: CanvasRenderingContext2D, layers: Layer[], assets: AssetMap) => {
+    const ids = new Set(layers.map(l => l.id));
+    drawStack(ctx, layers.filter(l => !l.parentId || !ids.has(l.parentId)), layers, assets);
+};
+
+/**
+ * Draws one level of the layer tree. A group is drawn on its own canvas first and then
+ * composited as a whole, so its opacity and blend mode apply to its contents together and
+ * adjustment layers inside it only affect what is in the group.
+ */
+const drawStack = (ctx: CanvasRenderingContext2D, stack: Layer[], layers: Layer[], assets: AssetMap) => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+        const layer = stack[i];
+        if (!layer.isVisible) continue;
+        const layerAssets = assets.get(layer.id) || {};
+
+        if (layer.type === 'group') {
+            const [groupCanvas, groupCtx] = createCanvas(ctx.canvas.width, ctx.canvas.height);
+            groupCtx.setTransform(ctx.getTransform());
+            drawStack(groupCtx, layers.filter(l => l.parentId === layer.id), layers, assets);
+            ctx.save();
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.globalAlpha = layer.opacity / 100;
+            ctx.globalCompositeOperation = layer.blendMode;
+            ctx.drawImage(groupCanvas, 0, 0);
+            ctx.restore();
+            continue;
+        }
+
+        if (layer.type === 'adjustment') {
+            const patch = createAdjustmentPatch(ctx, layer, layerAssets.mask);
+            if (!patch) continue;
+            ctx.save();
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.globalAlpha = layer.opacity / 100;
+            ctx.globalCompositeOperation = layer.blendMode;
+            ctx.drawImage(patch.canvas, patch.x, patch.y);
+            ctx.restore();
+            continue;
+        }
+
+        ctx.save();
+        ctx.globalAlpha = layer.opacity / 100;
+        ctx.globalCompositeOperation = layer.blendMode;
+        ctx.setTransform(getLayerTransform(ctx.getTransform(), layer));
+        if (layerAssets.mask) {
+            const scale = Math.max(1, layerAssets.mask.width / Math.max(layer.width, 1));
+            ctx.drawImage(renderMaskedLayer(layer, layerAssets, scale), 0, 0, layer.width, layer.height);
+        } else {
+            drawLayerContent(ctx, layer, layerAssets.image);
+        }
+        ctx.restore();
+    }
+};
+
+// --- Capture ---
+
+/**
+ * Renders layers into an image of the given canvas region.
+ */
+export const captureCanvas = async (
+    layersToCapture: Layer[],
+    boundsToCapture: Rect,
+    backgroundColor: string | null
+): Promise<string> => {
+    const [canvas, ctx] = createCanvas(boundsToCapture.width, boundsToCapture.height);
+    if (backgroundColor) {
+        ctx.fillStyle = backgroundColor;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    const assets = await loadLayerAssets(layersToCapture);
+    ctx.translate(-boundsToCapture.x, -boundsToCapture.y);
+    drawLayers(ctx, layersToCapture, assets);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Renders what an adjustment layer contributes over the given region: the layers below
+ * it in `layers` (within its group, if it has one), adjusted and cut to its shape and
+ * mask. Opacity and blend mode are left to whoever composites the result. `scale`
+ * shrinks the output for previews.
+ */
+export const renderAdjustmentLayer = async (layers: Layer[], layer: Layer, bounds: Rect, scale: number = 1): Promise<HTMLCanvasElement> => {
+    const scope = layer.parentId ? getLayerDescendants(layers, layer.parentId) : layers;
+    const index = scope.findIndex(l => l.id === layer.id);
+    const layersBelow = index >= 0 ? scope.slice(index + 1) : [];
+    const [canvas, ctx] = createCanvas(bounds.width * scale, bounds.height * scale);
+    const assets = await loadLayerAssets([...layersBelow, layer]);
+    ctx.scale(scale, scale);
+    ctx.translate(-bounds.x, -bounds.y);
+    drawLayers(ctx, layersBelow, assets);
+
+    const patch = createAdjustmentPatch(ctx, layer, assets.get(layer.id)?.mask);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (patch) ctx.drawImage(patch.canvas, patch.x, patch.y);
+    return canvas;
+};
+
+/**
+ * Renders a single layer at full resolution, mask applied. An adjustment layer renders
+ * its effect on the layers below it in `contextLayers`; a group renders its contents
+ * from `contextLayers`.
+ */
+export const captureLayer = async (layer: Layer, contextLayers: Layer[] = []): Promise<string> => {
+    if (layer.type === 'group') {
+        const bounds = getBoundingBoxForLayers([layer], contextLayers);
+        if (!bounds) throw new Error("Could not calculate layer bounds.");
+        return captureCanvas(getLayersWithDescendants(contextLayers, [layer.id]), bounds, null);
+    }
+    if (layer.type === 'adjustment') {
+        const bounds = getBoundingBoxForLayers([layer]);
+        if (!bounds) throw new Error("Could not calculate layer bounds.");
+        return (await renderAdjustmentLayer(contextLayers, layer, bounds)).toDataURL('image/png');
+    }
+    const assets = (await loadLayerAssets([layer])).get(layer.id) || {};
+    return renderMaskedLayer(layer, assets, EXPORT_SCALE_FACTOR).toDataURL('image/png');
+};
+
+/**
+ * Builds a mask for `target` from the shapes of other layers: the target stays visible
+ * wherever one of them has pixels. Groups among the sources count with their contents,
+ * taken from `allLayers`.
+ */
+export const createMaskFromLayers = async (target: Layer, sources: Layer[], allLayers: Layer[]): Promise<LayerMask> => {
+    // Only coverage matters, so every source is drawn opaque.
+    const shapes = getLayersWithDescendants(allLayers, sources.map(l => l.id))
+        .filter(l => l.type !== 'adjustment' && l.isVisible)
+        .map(l => ({ ...l, opacity: 100, blendMode: 'source-over' as const }));
+    const { width, height } = getMaskSize(target);
+    const [canvas, ctx] = createCanvas(width, height);
+    const assets = await loadLayerAssets(shapes);
+
+    // Canvas coordinates -> the target's own box -> mask pixels.
+    ctx.setTransform(new DOMMatrix().scale(width / target.width, height / target.height).multiply(getLayerTransform(new DOMMatrix(), target).inverse()));
+    drawLayers(ctx, shapes, assets);
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+    return { url: canvas.toDataURL('image/png'), isEnabled: true, isInverted: false, feather: 0 };
+};
@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type Rect, type VectorExportFormat, getBoundingBoxForLayers } from './LayerComposer.types';
+import { captureLayer, escapeXml, loadImage } from './LayerComposer.utils';
+import { getGradientGeometry, getGradientStops, getShapePathData, getStrokeDashArray, getStrokeInset, hasFill, hasStroke } from './LayerComposer.paths';
+import { type PlacedGlyph, hasTextEffects, hasTextFill, hasTextShadow, hasTextStroke, layoutTextLayer, loadTextLayerFonts } from './LayerComposer.text';
+import { resolveImageDataUrl } from '../../lib/imageStore';
+import { downloadBlob } from '../uiUtils';
+
+// Vector export. Layers become SVG elements where SVG has an equivalent: text stays text
+// (one element per glyph, placed as on the canvas), shapes become <rect>/<ellipse>/<path>
+// with their strokes and gradients, images are embedded, groups become <g>, and opacity
+// and blend modes carry over. Masked layers and adjustment layers have no SVG equivalent
+// that other tools read reliably, so they are embedded as rendered images. PDF pages are
+// drawn from the same SVG.
+
+// Loaded from a CDN in index.html, like JSZip.
+declare const jspdf: any;
+declare const svg2pdf: any;
+
+/** One exported page: the layers to draw and the canvas region that becomes the page. */
+export interface VectorPage {
+    name: string;
+    layers: Layer[];
+    bounds: Rect;
+    background: string | null;
+}
+
+interface SvgOptions {
+    // The SVG-to-PDF conversion draws plain glyphs only, so text with effects is embedded
+    // as an image to still look right.
+    rasterizeTextEffects?: boolean;
+}
+
+// The standard PDF fonts only cover Latin-1. PDFs embed the app's default text font,
+// which covers Vietnamese, and text in any font the PDF doesn't have falls back to it.
+const PDF_FONT_FAMILY = 'Be Vietnam Pro';
+const PDF_FONT_BASE_URL = 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/bevietnampro/';
+// By jsPDF font style.
+const PDF_FONT_FILES: Record<string, string> = {
+    normal: 'BeVietnamPro-Regular.ttf',
+    bold: 'BeVietnamPro-Bold.ttf',
+    italic: 'BeVietnamPro-Italic.ttf',
+    bolditalic: 'BeVietnamPro-BoldItalic.ttf',
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+/** Image URLs as data URLs, so the exported file doesn't depend on anything outside it. */
+const toEmbeddedUrl = async (url: string): Promise<string> => {
+    const resolved = await resolveImageDataUrl(url);
+    if (resolved.startsWith('data:')) return resolved;
+    const image = await loadImage(resolved);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Opacity and blend mode. Canvas blend modes share their names with CSS mix-blend-mode,
+// apart from the default.
+const getPaintAttributes = (layer: Layer, extraStyle: string[] = []): string => {
+    const style = [...extraStyle];
+    if (layer.blendMode !== 'source-over') style.push(`mix-blend-mode:${layer.blendMode}`);
+    return [
+        layer.opacity < 100 ? ` opacity="${formatNumber(layer.opacity / 100)}"` : '',
+        style.length > 0 ? ` style="${style.join(';')}"` : '',
+    ].join('');
+};
+
+const getRotationAttribute = (layer: Layer): string => layer.rotation
+    ? ` transform="rotate(${formatNumber(layer.rotation)} ${formatNumber(layer.x + layer.width / 2)} ${formatNumber(layer.y + layer.height / 2)})"`
+    : '';
+
+const renderImageElement = (url: string, box: Rect, attributes: string) =>
+    `<image x="${formatNumber(box.x)}" y="${formatNumber(box.y)}" width="${formatNumber(box.width)}" height="${formatNumber(box.height)}" preserveAspectRatio="none" xlink:href="${url}"${attributes}/>`;
+
+const renderGradientElement = (layer: Layer, id: string): string => {
+    const stops = getGradientStops(layer).map(stop => `<stop offset="${formatNumber(stop.offset)}" stop-color="${escapeXml(stop.color)}"/>`).join('');
+    const geometry = getGradientGeometry(layer);
+    return geometry.type === 'radial'
+        ? `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${formatNumber(geometry.cx)}" cy="${formatNumber(geometry.cy)}" r="${formatNumber(geometry.r)}">${stops}</radialGradient>`
+        : `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${formatNumber(geometry.x1)}" y1="${formatNumber(geometry.y1)}" x2="${formatNumber(geometry.x2)}" y2="${formatNumber(geometry.y2)}">${stops}</linearGradient>`;
+};
+
+// Drawn in the layer's own box, placed with a transform, so gradients line up the same
+// way they do on the canvas.
+const renderShapeElement = (layer: Layer, paintAttributes: string): string => {
+    const gradientId = `gradient-${layer.id}`;
+    const isGradient = hasFill(layer) && (layer.fillType === 'linear' || layer.fillType === 'radial');
+    const fill = !hasFill(layer) ? 'none' : isGradient ? `url(#${gradientId})` : escapeXml(layer.fillColor || '#FFFFFF');
+    const dashArray = getStrokeDashArray(layer);
+    const stroke = hasStroke(layer)
+        ? ` stroke="${escapeXml(layer.strokeColor!)}" stroke-width="${formatNumber(layer.strokeWidth!)}" stroke-linejoin="${layer.strokeJoin || 'miter'}"${dashArray.length > 0 ? ` stroke-dasharray="${dashArray.map(formatNumber).join(' ')}"` : ''}`
+        : '';
+    const paint = ` fill="${fill}"${stroke}`;
+
+    const inset = getStrokeInset(layer);
+    const width = layer.width - inset * 2;
+    const height = layer.height - inset * 2;
+    let shape: string;
+    if (layer.shapeType === 'ellipse') {
+        shape = `<ellipse cx="${formatNumber(layer.width / 2)}" cy="${formatNumber(layer.height / 2)}" rx="${formatNumber(width / 2)}" ry="${formatNumber(height / 2)}"${paint}/>`;
+    } else if (layer.shapeType === 'path') {
+        shape = `<path d="${getShapePathData(layer)}"${paint}/>`;
+    } else {
+        const radius = layer.borderRadius ? ` rx="${formatNumber(layer.borderRadius)}" ry="${formatNumber(layer.borderRadius)}"` : '';
+        shape = `<rect x="${formatNumber(inset)}" y="${formatNumber(inset)}" width="${formatNumber(width)}" height="${formatNumber(height)}"${radius}${paint}/>`;
+    }
+
+    const rotation = layer.rotation ? `rotate(${formatNumber(layer.rotation)} ${formatNumber(layer.x + layer.width / 2)} ${formatNumber(layer.y + layer.height / 2)}) ` : '';
+    const defs = isGradient ? `<defs>${renderGradientElement(layer, gradientId)}</defs>` : '';
+    return `<g transform="${rotation}translate(${formatNumber(layer.x)} ${formatNumber(layer.y)})"${paintAttributes}>${defs}${shape}</g>`;
+};
+
+const renderShadowFilter = (layer: Layer, id: string): string =>
+    `<filter id="${id}" x="-50%" y="-50%" width="200%" height="200%"><feDropShadow dx="${formatNumber(layer.textShadowOffsetX || 0)}" dy="${formatNumber(layer.textShadowOffsetY || 0)}" stdDeviation="${formatNumber((layer.textShadowBlur || 0) / 2)}" flood-color="${escapeXml(layer.textShadowColor!)}"/></filter>`;
+
+const renderGlyphElement = (glyph: PlacedGlyph, paint: string): string => {
+    const { style } = glyph;
+    const rotate = glyph.rotation ? ` rotate="${formatNumber((glyph.rotation * 180) / Math.PI)}"` : '';
+    const fontFamily = escapeXml(`"${style.fontFamily}", "${PDF_FONT_FAMILY}", sans-serif`);
+    return `<text x="${formatNumber(glyph.x)}" y="${formatNumber(glyph.y)}"${rotate} font-family="${fontFamily}" font-size="${formatNumber(style.fontSize)}" font-weight="${style.fontWeight}" font-style="${style.fontStyle}"${paint}>${escapeXml(glyph.text)}</text>`;
+};
+
+// Like shapes, drawn in the layer's own box and placed with a transform. Outlines go
+// under all fills, as on the canvas.
+const renderTextElement = (layer: Layer, paintAttributes: string): string => {
+    const glyphs = layoutTextLayer(layer);
+    const gradientId = `gradient-${layer.id}`;
+    const filterId = `shadow-${layer.id}`;
+    const isGradient = layer.fillType === 'linear' || layer.fillType === 'radial';
+    const strokes = hasTextStroke(layer)
+        ? `<g fill="none" stroke="${escapeXml(layer.textStrokeColor!)}" stroke-width="${formatNumber(layer.textStrokeWidth! * 2)}" stroke-linejoin="round">${glyphs.map(g => renderGlyphElement(g, '')).join('')}</g>`
+        : '';
+    const fills = hasTextFill(layer)
+        ? `<g fill="${isGradient ? `url(#${gradientId})` : escapeXml(layer.color || '#000000')}">${glyphs.map(g => renderGlyphElement(g, g.hasOwnColor || !isGradient ? ` fill="${escapeXml(g.style.color)}"` : '')).join('')}</g>`
+        : '';
+
+    const definitions = [
+        isGradient ? renderGradientElement(layer, gradientId) : '',
+        hasTextShadow(layer) ? renderShadowFilter(layer, filterId) : '',
+    ].join('');
+    const rotation = layer.rotation ? `rotate(${formatNumber(layer.rotation)} ${formatNumber(layer.x + layer.width / 2)} ${formatNumber(layer.y + layer.height / 2)}) ` : '';
+    const filter = hasTextShadow(layer) ? ` filter="url(#${filterId})"` : '';
+    return `<g transform="${rotation}translate(${formatNumber(layer.x)} ${formatNumber(layer.y)})"${paintAttributes}>${definitions ? `<defs>${definitions}</defs>` : ''}<g${filter}>${strokes}${fills}</g></g>`;
+};
+
+/**
+ * Renders one level of the layer tree bottom-up. `contextLayers` are the layers an
+ * adjustment layer adjusts.
+ */
+const renderStack = async (stack: Layer[], layers: Layer[], contextLayers: Layer[], options: SvgOptions): Promise<string[]> => {
+    const elements: string[] = [];
+    for (const layer of [...stack].reverse()) {
+        if (!layer.isVisible) continue;
+
+        if (layer.type === 'group') {
+            const children = await renderStack(layers.filter(l => l.parentId === layer.id), layers, contextLayers, options);
+            // Isolated like on the canvas, so the group's blend mode applies to its contents as a whole.
+            elements.push(`<g${getPaintAttributes(layer, ['isolation:isolate'])}>${children.join('')}</g>`);
+            continue;
+        }
+
+        if (layer.type === 'adjustment') {
+            const bounds = getBoundingBoxForLayers([layer]);
+            if (bounds) elements.push(renderImageElement(await captureLayer(layer, contextLayers), bounds, getPaintAttributes(layer)));
+            continue;
+        }
+
+        const attributes = getRotationAttribute(layer) + getPaintAttributes(layer);
+        const isRasterText = layer.type === 'text' && options.rasterizeTextEffects && hasTextEffects(layer);
+        if (layer.mask?.isEnabled || isRasterText) {
+            elements.push(renderImageElement(await captureLayer(layer), layer, attributes));
+        } else if (layer.type === 'text' && layer.text) {
+            elements.push(renderTextElement(layer, getPaintAttributes(layer)));
+        } else if (layer.type === 'shape') {
+            elements.push(renderShapeElement(layer, getPaintAttributes(layer)));
+        } else if (layer.type === 'image' && layer.url) {
+            elements.push(renderImageElement(await toEmbeddedUrl(layer.url), layer, attributes));
+        }
+    }
+    return elements;
+};
+
+/**
+ * Builds a standalone SVG document of a page. Layers whose group is not in the page are
+ * drawn as if they were at the top level.
+ */
+export const buildSvgDocument = async (page: VectorPage, contextLayers: Layer[], options: SvgOptions = {}): Promise<string> => {
+    const { bounds, layers, background } = page;
+    // Text is laid out with measured glyphs, which needs the real fonts.
+    await loadTextLayerFonts(layers);
+    const ids = new Set(layers.map(l => l.id));
+    const elements = await renderStack(layers.filter(l => !l.parentId || !ids.has(l.parentId)), layers, contextLayers, options);
+    const viewBox = [bounds.x, bounds.y, bounds.width, bounds.height].map(formatNumber).join(' ');
+    const backgroundElement = background
+        ? `<rect x="${formatNumber(bounds.x)}" y="${formatNumber(bounds.y)}" width="${formatNumber(bounds.width)}" height="${formatNumber(bounds.height)}" fill="${escapeXml(background)}"/>`
+        : '';
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${formatNumber(bounds.width)}" height="${formatNumber(bounds.height)}" viewBox="${viewBox}">`,
+        `<title>${escapeXml(page.name)}</title>`,
+        backgroundElement,
+        ...elements,
+        '</svg>',
+    ].join('\n');
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+// The font files as base64, fetched once per session. A failed fetch is retried next export.
+let pdfFontFiles: Promise<{ style: string; file: string; data: string }[]> | null = null;
+
+const loadPdfFontFiles = () => {
+    pdfFontFiles ??= Promise.all(Object.entries(PDF_FONT_FILES).map(async ([style, file]) => {
+        const response = await fetch(PDF_FONT_BASE_URL + file);
+        if (!response.ok) {
+            throw new Error('Không tải được phông chữ cho tệp PDF. Vui lòng kiểm tra kết nối mạng rồi thử lại.');
+        }
+        return { style, file, data: bytesToBase64(new Uint8Array(await response.arrayBuffer())) };
+    }));
+    pdfFontFiles.catch(() => { pdfFontFiles = null; });
+    return pdfFontFiles;
+};
+
+const embedPdfFonts = async (doc: any) => {
+    for (const { style, file, data } of await loadPdfFontFiles()) {
+        doc.addFileToVFS(file, data);
+        doc.addFont(file, PDF_FONT_FAMILY, style);
+    }
+};
+
+/**
+ * Builds a PDF with one page per entry, each sized to its bounds (1px = 1 PDF unit).
+ * Blend modes are dropped; the SVG-to-PDF conversion does not support them.
+ */
+export const buildPdfDocument = async (pages: VectorPage[], contextLayers: Layer[]): Promise<Blob> => {
+    if (typeof jspdf === 'undefined' || typeof svg2pdf === 'undefined') {
+        throw new Error('Không tải được thư viện xuất PDF. Vui lòng kiểm tra kết nối mạng rồi thử lại.');
+    }
+    let doc: any = null;
+    for (const page of pages) {
+        const { width, height } = page.bounds;
+        const orientation = width > height ? 'landscape' : 'portrait';
+        if (!doc) {
+            doc = new jspdf.jsPDF({ unit: 'px', format: [width, height], orientation, hotfixes: ['px_scaling'] });
+            await embedPdfFonts(doc);
+        } else {
+            doc.addPage([width, height], orientation);
+        }
+        const svg = await buildSvgDocument(page, contextLayers, { rasterizeTextEffects: true });
+        const element = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+        await svg2pdf.svg2pdf(element, doc, { x: 0, y: 0, width, height });
+    }
+    if (!doc) throw new Error('Không có trang nào để xuất.');
+    return doc.output('blob');
+};
+
+/**
+ * Downloads pages as one SVG file each, or together as one multi-page PDF named `pdfFilename`.
+ */
+export const downloadVectorPages = async (pages: VectorPage[], contextLayers: Layer[], format: VectorExportFormat, pdfFilename: string) => {
+    if (format === 'pdf') {
+        downloadBlob(await buildPdfDocument(pages, contextLayers), `${pdfFilename}.pdf`);
+        return;
+    }
+    for (const page of pages) {
+        const svg = await buildSvgDocument(page, contextLayers);
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `CaoTrangAI-${page.name.replace(/\s+/g, '-')}.svg`);
+        await new Promise(resolve => setTimeout(resolve, 200));
+    }
+};
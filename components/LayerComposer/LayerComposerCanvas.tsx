@@ -5,13 +5,21 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { motion, MotionValue, useMotionValueEvent, useTransform, AnimatePresence } from 'framer-motion';
 import { cn } from '../../lib/utils';
-import { type Layer, type CanvasSettings, type Interaction, type Handle, type Rect, type MultiLayerAction, getBoundingBoxForLayers, type Guide, type CanvasTool } from './LayerComposer.types';
-import { LayerItem } from './LayerItem';
+import { type Layer, type Artboard, type VectorExportFormat, type CanvasSettings, type Interaction, type Handle, type Rect, type MultiLayerAction, getBoundingBoxForLayers, type Guide, type CanvasTool, type LayerMask, type MaskBrush, type Point } from './LayerComposer.types';
+import { LayerItem, LayerGroupItem } from './LayerItem';
+import { getLayersWithDescendants, getSelectableLayer, isLayerLocked, isLayerShown } from './LayerComposer.hierarchy';
+import { INPAINT_TINT, MaskPaintOverlay } from './MaskPaintOverlay';
+import { renderAdjustmentLayer } from './LayerComposer.utils';
+import { buildPathData, createPolygonNodes, createStarNodes, fitPathLayer, getLayerPathNodes, hasEditablePath, movePathNode, toLayerSpace, toStoredPathNodes, type PathNodePart } from './LayerComposer.paths';
+import { type PenNode } from '../ImageEditor/ImageEditor.types';
 import { SelectionFrame } from './SelectionFrame';
+import { CollabPresenceOverlay } from './CollabPresenceOverlay';
+import { type CollabPeer } from './useLayerComposerCollab';
+import { ArtboardFrame } from './ArtboardFrame';
 import { CanvasToolbar } from './CanvasToolbar';
 import { FloatingLayerToolbar, type LayerAction } from './FloatingLayerToolbar';
 import { FloatingMultiLayerToolbar } from './FloatingMultiLayerToolbar';
-import { useAppControls } from '../uiUtils';
+import { useAppControls, useDebounce } from '../uiUtils';
 
 interface LayerComposerCanvasProps {
     canvasViewRef: React.RefObject<HTMLDivElement>;
@@ -53,6 +61,20 @@ interface LayerComposerCanvasProps {
     captureLayer: (layer: Layer) => Promise<string>;
     addLayer: (layer: Omit<Layer, 'id'>) => void;
     shapeFillColor: string;
+    shapeSides: number;
+    editingMaskForLayerId: string | null;
+    maskBrush: MaskBrush;
+    onCommitMaskStroke: (layerId: string, maskUrl: string) => void;
+    inpaintRegion: { layerId: string; url: string } | null;
+    inpaintBrush: MaskBrush;
+    onCommitInpaintStroke: (layerId: string, url: string) => void;
+    onUngroupLayers: () => void;
+    artboards: Artboard[];
+    selectedArtboardIds: string[];
+    onSelectArtboard: (id: string, isAdditive: boolean) => void;
+    onExportSelectedLayersAs: (format: VectorExportFormat) => Promise<void>;
+    collabPeers: CollabPeer[];
+    onCollabCursorMove: (cursor: Point | null) => void;
 }
 
 const snap = (value: number, gridSize: number) => {
@@ -60,6 +82,12 @@ const snap = (value: number, gridSize: number) => {
 };
 
 const SNAP_THRESHOLD = 12;
+// Stroke width of lines drawn with the pen, which are not filled.
+const PEN_STROKE_WIDTH = 4;
+// How close, in screen pixels, a pen click must be to the first anchor to close the path.
+const PEN_CLOSE_DISTANCE = 8;
+// Longest side of an adjustment layer preview, in pixels.
+const ADJUSTMENT_PREVIEW_SIZE = 1024;
 
 export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
     canvasViewRef, layers, canvasSettings, isInfiniteCanvas, selectedLayerIds, selectedLayers, 
@@ -72,7 +100,9 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
     setSelectedLayerIds, onFilesDrop, onMultiLayerAction,
     onDuplicateForDrag, handleMergeLayers, openImageEditor,
     deleteSelectedLayers, duplicateSelectedLayers, handleExportSelectedLayers, handleBakeSelectedLayer,
-    captureLayer, addLayer, shapeFillColor
+    captureLayer, addLayer, shapeFillColor, shapeSides,
+    editingMaskForLayerId, maskBrush, onCommitMaskStroke, inpaintRegion, inpaintBrush, onCommitInpaintStroke, onUngroupLayers,
+    artboards, selectedArtboardIds, onSelectArtboard, onExportSelectedLayersAs, collabPeers, onCollabCursorMove
 }) => {
     const { t } = useAppControls();
     const previewCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -82,7 +112,35 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
     const [activeGuides, setActiveGuides] = useState<Guide[]>([]);
     const [isCommandKeyPressed, setIsCommandKeyPressed] = useState(false);
 
+    const [adjustmentPreviews, setAdjustmentPreviews] = useState<Record<string, string>>({});
+    // The pen path being drawn, in canvas coordinates, and where the current click is dragging its handle.
+    const [penNodes, setPenNodes] = useState<PenNode[]>([]);
+    const [penDragPoint, setPenDragPoint] = useState<Point | null>(null);
+
     const selectedLayer = selectedLayers.length === 1 ? selectedLayers[0] : null;
+    const maskEditingLayer = layers.find((l): l is Layer & { mask: LayerMask } => l.id === editingMaskForLayerId && !!l.mask && l.isVisible) || null;
+    const inpaintLayer = layers.find(l => l.id === inpaintRegion?.layerId && l.isVisible) || null;
+    const isPaintingOverlay = !!maskEditingLayer || !!inpaintLayer;
+
+    // The pointer is shared with the other people in a collaboration room.
+    useEffect(() => { onCollabCursorMove(cursorPosition); }, [cursorPosition, onCollabCursorMove]);
+
+    // Adjustment layers are previewed as the adjusted pixels they put over the layers below.
+    const debouncedLayers = useDebounce(layers, 300);
+    useEffect(() => {
+        const adjustmentLayers = debouncedLayers.filter(l => l.type === 'adjustment' && isLayerShown(debouncedLayers, l));
+        if (adjustmentLayers.length === 0) { setAdjustmentPreviews({}); return; }
+        let isCancelled = false;
+        Promise.all(adjustmentLayers.map(async (layer): Promise<[string, string]> => {
+            const bounds = getBoundingBoxForLayers([layer])!;
+            const previewScale = Math.min(1, ADJUSTMENT_PREVIEW_SIZE / Math.max(bounds.width, bounds.height, 1));
+            const preview = await renderAdjustmentLayer(debouncedLayers, layer, bounds, previewScale);
+            return [layer.id, preview.toDataURL('image/png')];
+        }))
+            .then(entries => { if (!isCancelled) setAdjustmentPreviews(Object.fromEntries(entries)); })
+            .catch(err => console.error("Could not render adjustment layer preview:", err));
+        return () => { isCancelled = true; };
+    }, [debouncedLayers]);
     
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -155,9 +213,18 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             case 'export':
                 exportSelectedLayer();
                 break;
+            case 'export-svg':
+                onExportSelectedLayersAs('svg');
+                break;
+            case 'export-pdf':
+                onExportSelectedLayersAs('pdf');
+                break;
             case 'bake':
                 handleBakeSelectedLayer();
                 break;
+            case 'ungroup':
+                onUngroupLayers();
+                break;
             case 'edit':
                 if (layer.type === 'image' && layer.url) {
                     openImageEditor(layer.url, (newUrl) => {
@@ -177,6 +244,13 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
         }
     };
 
+    // Layers the selection can snap to: visible ones that do not move along with it. Groups
+    // are left out, their contents already count.
+    const getSnapTargetLayers = () => {
+        const movingIds = new Set(getLayersWithDescendants(layers, selectedLayerIds).map(l => l.id));
+        return layers.filter(l => !movingIds.has(l.id) && l.type !== 'group' && isLayerShown(layers, l));
+    };
+
     const findGuides = (movingBox: Rect, targets: Rect[]): { guides: Guide[], snapOffset: {x: number, y: number} } => {
         const guides: Guide[] = [];
         let snapOffsetX = 0;
@@ -341,8 +415,9 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                 const movingBox: Rect = { x: bbox.x + dx, y: bbox.y + dy, width: bbox.width, height: bbox.height };
                 
                 if (canvasSettings.guides.enabled && !e.altKey) {
-                    const otherLayers = layers.filter(l => !selectedLayerIds.includes(l.id) && l.isVisible);
+                    const otherLayers = getSnapTargetLayers();
                     let targets: Rect[] = otherLayers.map(l => ({ x: l.x, y: l.y, width: l.width, height: l.height }));
+                    targets.push(...artboards);
                     if (!isInfiniteCanvas) {
                         targets.push({ x: 0, y: 0, width: canvasSettings.width, height: 0 }); // Top Edge
                         targets.push({ x: 0, y: canvasSettings.height / 2, width: canvasSettings.width, height: 0 }); // V Center
@@ -416,8 +491,8 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             let newBboxForSnapping: Rect = { x: newX, y: newY, width: newWidth, height: newHeight };
             let finalGuides: Guide[] = [];
             if (canvasSettings.guides.enabled && !e.altKey) {
-                const otherLayers = layers.filter(l => !selectedLayerIds.includes(l.id) && l.isVisible);
-                const targets: Rect[] = otherLayers.map(l => ({ x: l.x, y: l.y, width: l.width, height: l.height }));
+                const otherLayers = getSnapTargetLayers();
+                const targets: Rect[] = [...otherLayers.map(l => ({ x: l.x, y: l.y, width: l.width, height: l.height })), ...artboards];
                 if (!isInfiniteCanvas) { targets.push( { x: 0, y: 0, width: canvasSettings.width, height: 0 }, { x: 0, y: canvasSettings.height / 2, width: canvasSettings.width, height: 0 }, { x: 0, y: canvasSettings.height, width: canvasSettings.width, height: 0 }, { x: 0, y: 0, width: 0, height: canvasSettings.height }, { x: canvasSettings.width / 2, y: 0, width: 0, height: canvasSettings.height }, { x: canvasSettings.width, y: 0, width: 0, height: canvasSettings.height } ); }
                 const { guides, snapOffset } = findGuides(newBboxForSnapping, targets);
                 finalGuides = guides;
@@ -468,8 +543,9 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             };
             setMarqueeRect(newMarqueeRect);
 
+            // The marquee picks whole groups, like a click does.
             const layersInMarqueeIds = layers.filter(layer => {
-                if (layer.isLocked) return false;
+                if (layer.isLocked || layer.parentId) return false;
                 const layerRect = { x: layer.x, y: layer.y, width: layer.width, height: layer.height };
                 return !(
                     layerRect.x > newMarqueeRect.x + newMarqueeRect.width ||
@@ -522,9 +598,62 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                 }
             }
             setMarqueeRect({ x: finalX, y: finalY, width: finalWidth, height: finalHeight });
+        } else if (currentInteraction.type === 'drawingPen') {
+            setPenDragPoint(currentPointer);
+        } else if (currentInteraction.type === 'editPathNode' && currentInteraction.pathNode && currentInteraction.initialLayers) {
+            const layer = currentInteraction.initialLayers[0];
+            const { index, part } = currentInteraction.pathNode;
+            const nodes = getLayerPathNodes(layer);
+            const start = toLayerSpace(layer, currentInteraction.initialPointer);
+            const current = toLayerSpace(layer, currentPointer);
+            // Handles pulled out of an anchor always stay mirrored.
+            const origin = currentInteraction.isAlt ? nodes[index].anchor : nodes[index][part];
+            const target = { x: origin.x + current.x - start.x, y: origin.y + current.y - start.y };
+            const movedNodes = movePathNode(nodes, index, part, target, e.altKey && !currentInteraction.isAlt);
+            // Text keeps its box; glyphs along the path may reach outside it.
+            const props = layer.type === 'text' ? { pathNodes: toStoredPathNodes(layer, movedNodes) } : fitPathLayer(layer, movedNodes, !!layer.isPathClosed);
+            onUpdateLayers([{ id: layer.id, props }], false);
+        }
+    };
+
+    const finishPenPath = (isClosed: boolean) => {
+        if (penNodes.length >= 2) {
+            const stroke = isClosed ? {} : { strokeColor: shapeFillColor, strokeWidth: PEN_STROKE_WIDTH, strokeJoin: 'round' as const };
+            addLayer({
+                type: 'shape',
+                shapeType: 'path',
+                ...fitPathLayer({ x: 0, y: 0, width: 0, height: 0, rotation: 0, ...stroke }, penNodes, isClosed),
+                isPathClosed: isClosed,
+                fillColor: shapeFillColor,
+                ...stroke,
+                rotation: 0,
+                opacity: 100,
+                blendMode: 'source-over',
+                isVisible: true,
+                isLocked: false,
+            });
+            setActiveCanvasTool('select');
         }
+        setPenNodes([]);
+        setPenDragPoint(null);
     };
 
+    // Switching tools drops an unfinished pen path.
+    useEffect(() => {
+        if (activeCanvasTool !== 'pen') { setPenNodes([]); setPenDragPoint(null); }
+    }, [activeCanvasTool]);
+
+    // Enter finishes an open pen path, Escape drops it.
+    useEffect(() => {
+        if (activeCanvasTool !== 'pen' || penNodes.length === 0) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Enter') { e.preventDefault(); finishPenPath(false); }
+            else if (e.key === 'Escape') { e.preventDefault(); setPenNodes([]); setPenDragPoint(null); }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
     const handlePointerUp = (e: React.PointerEvent) => {
         if (panStartRef.current) panStartRef.current = null;
         setActiveGuides([]); // Clear guides on mouse up
@@ -537,7 +666,24 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             } else if (interaction.type === 'drawingShape') {
                 if (marqueeRect && marqueeRect.width > 5 && marqueeRect.height > 5) {
                     const tool = interaction.tool;
-                    if (tool === 'rectangle' || tool === 'ellipse') {
+                    if (tool === 'polygon' || tool === 'star') {
+                        addLayer({
+                            type: 'shape',
+                            shapeType: 'path',
+                            pathNodes: tool === 'star' ? createStarNodes(shapeSides) : createPolygonNodes(shapeSides),
+                            isPathClosed: true,
+                            fillColor: shapeFillColor,
+                            x: marqueeRect.x,
+                            y: marqueeRect.y,
+                            width: marqueeRect.width,
+                            height: marqueeRect.height,
+                            rotation: 0,
+                            opacity: 100,
+                            blendMode: 'source-over',
+                            isVisible: true,
+                            isLocked: false,
+                        });
+                    } else if (tool === 'rectangle' || tool === 'ellipse') {
                         addLayer({
                             type: 'shape',
                             shapeType: tool,
@@ -560,7 +706,16 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                 }
                 setMarqueeRect(null);
                 setActiveCanvasTool('select');
-            } else if (interaction.type === 'move' || interaction.type === 'resize' || interaction.type === 'rotate') {
+            } else if (interaction.type === 'drawingPen') {
+                // A click adds a corner; a drag pulls out mirrored handles, like the ImageEditor's pen.
+                const start = interaction.initialPointer;
+                const end = penDragPoint || start;
+                const node: PenNode = Math.hypot(end.x - start.x, end.y - start.y) < 5 / scale.get()
+                    ? { anchor: start, inHandle: start, outHandle: start }
+                    : { anchor: start, inHandle: { x: start.x * 2 - end.x, y: start.y * 2 - end.y }, outHandle: end };
+                setPenNodes(prev => [...prev, node]);
+                setPenDragPoint(null);
+            } else if (interaction.type === 'move' || interaction.type === 'resize' || interaction.type === 'rotate' || interaction.type === 'editPathNode') {
                 const updatedLayers = selectedLayerIds.map(id => ({ id, props: layers.find(layer => layer.id === id) || {} }));
                 onUpdateLayers(updatedLayers, true);
             }
@@ -572,11 +727,14 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
         if (activeCanvasTool !== 'select' || isSpacePanning) return;
         e.stopPropagation();
         
-        const layer = layers.find(l => l.id === layerId);
-        if (!layer || layer.isLocked) {
+        const clickedLayer = layers.find(l => l.id === layerId);
+        // A click picks the outermost group; Ctrl/Cmd-click picks the layer itself.
+        const layer = clickedLayer && !(e.metaKey || e.ctrlKey) ? getSelectableLayer(layers, clickedLayer, selectedLayerIds) : clickedLayer;
+        if (!layer || isLayerLocked(layers, layer)) {
             if (!e.shiftKey) setSelectedLayerIds([]);
             return;
         }
+        layerId = layer.id;
         
         const pointer = getPointerInCanvas(e);
         if (!pointer) return;
@@ -595,7 +753,7 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
 
         if(currentSelectedLayers.length > 0) {
             beginInteraction();
-            const bbox = getBoundingBoxForLayers(currentSelectedLayers);
+            const bbox = getBoundingBoxForLayers(currentSelectedLayers, layers);
             if (e.altKey) {
                 setInteraction({ type: 'duplicate-move', initialLayers: currentSelectedLayers.map(l => ({...l})), initialBoundingBox: bbox, initialPointer: pointer, hasActionStarted: false });
             } else {
@@ -613,6 +771,15 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
         }
     };
 
+    // Alt-dragging an anchor pulls handles out of it, turning a corner into a curve.
+    const handlePathNodePointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number, part: PathNodePart) => {
+        const pointer = getPointerInCanvas(e);
+        if (!selectedLayer || selectedLayer.isLocked || !pointer) return;
+        const isPullingHandles = part === 'anchor' && e.altKey;
+        beginInteraction();
+        setInteraction({ type: 'editPathNode', initialLayers: [{ ...selectedLayer }], initialPointer: pointer, pathNode: { index, part: isPullingHandles ? 'outHandle' : part }, isAlt: isPullingHandles });
+    };
+
     const handleRotatePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
         e.stopPropagation();
         const pointer = getPointerInCanvas(e);
@@ -625,6 +792,32 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
         }
     };
     
+    // Groups are nested elements so that their opacity and blend mode apply to their
+    // contents as a whole. Stacking order still follows each layer's place in the list.
+    const renderLayerStack = (stack: Layer[]): React.ReactNode => stack.map(layer => {
+        const zIndex = layers.length - 1 - layers.indexOf(layer);
+        if (layer.type === 'group') {
+            return (
+                <LayerGroupItem key={layer.id} layer={layer} zIndex={zIndex}>
+                    {renderLayerStack(layers.filter(l => l.parentId === layer.id))}
+                </LayerGroupItem>
+            );
+        }
+        return (
+            <LayerItem
+                key={layer.id}
+                layer={layer}
+                isInteracting={!!interaction}
+                captureLayer={captureLayer}
+                adjustmentPreviewUrl={adjustmentPreviews[layer.id]}
+                activeCanvasTool={activeCanvasTool}
+                isSpacePanning={isSpacePanning}
+                onLayerPointerDown={handleLayerPointerDown}
+                zIndex={zIndex}
+            />
+        );
+    });
+
     const handleCanvasPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
         if (activeCanvasTool === 'hand' || isSpacePanning) {
             const pointer = getPointerInView(e);
@@ -642,7 +835,16 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                 initialSelectedIds: selectedLayerIds,
                 hasActionStarted: false,
             });
-        } else if (activeCanvasTool === 'rectangle' || activeCanvasTool === 'ellipse') {
+        } else if (activeCanvasTool === 'pen') {
+            const coords = getPointerInCanvas(e);
+            if (!coords) return;
+            const first = penNodes[0];
+            if (penNodes.length > 2 && Math.hypot(coords.x - first.anchor.x, coords.y - first.anchor.y) < PEN_CLOSE_DISTANCE / scale.get()) {
+                finishPenPath(true);
+                return;
+            }
+            setInteraction({ type: 'drawingPen', initialPointer: coords });
+        } else if (activeCanvasTool === 'rectangle' || activeCanvasTool === 'ellipse' || activeCanvasTool === 'polygon' || activeCanvasTool === 'star') {
             const coords = getPointerInCanvas(e);
             if (!coords) return;
             
@@ -744,7 +946,13 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             ctx.lineWidth = 1 / s;
             ctx.setLineDash([4 / s, 4 / s]);
 
-            if (interaction?.tool === 'ellipse' && interaction.type === 'drawingShape') {
+            if ((interaction?.tool === 'polygon' || interaction?.tool === 'star') && interaction.type === 'drawingShape') {
+                const nodes = interaction.tool === 'star' ? createStarNodes(shapeSides) : createPolygonNodes(shapeSides);
+                const toRect = (p: Point) => ({ x: marqueeRect.x + p.x * marqueeRect.width, y: marqueeRect.y + p.y * marqueeRect.height });
+                const path = new Path2D(buildPathData(nodes.map(n => ({ anchor: toRect(n.anchor), inHandle: toRect(n.inHandle), outHandle: toRect(n.outHandle) })), true));
+                ctx.stroke(path);
+                ctx.fill(path);
+            } else if (interaction?.tool === 'ellipse' && interaction.type === 'drawingShape') {
                 ctx.beginPath();
                 ctx.ellipse(
                     marqueeRect.x + marqueeRect.width / 2,
@@ -762,8 +970,42 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             ctx.restore();
         }
 
+        if (activeCanvasTool === 'pen' && penNodes.length > 0) {
+            ctx.save();
+            ctx.strokeStyle = 'rgba(251, 191, 36, 0.9)';
+            ctx.lineWidth = 1.5 / s;
+            const last = penNodes[penNodes.length - 1];
+            const target = interaction?.type === 'drawingPen' ? interaction.initialPointer : cursorPosition;
+            const nodes = target ? [...penNodes, { anchor: target, inHandle: target, outHandle: target }] : penNodes;
+            ctx.stroke(new Path2D(buildPathData(nodes, false)));
+            ctx.fillStyle = '#171717';
+            penNodes.forEach(node => {
+                ctx.fillRect(node.anchor.x - 4 / s, node.anchor.y - 4 / s, 8 / s, 8 / s);
+                ctx.strokeRect(node.anchor.x - 4 / s, node.anchor.y - 4 / s, 8 / s, 8 / s);
+            });
+            if (last.outHandle.x !== last.anchor.x || last.outHandle.y !== last.anchor.y) {
+                ctx.beginPath();
+                ctx.moveTo(last.inHandle.x, last.inHandle.y);
+                ctx.lineTo(last.outHandle.x, last.outHandle.y);
+                ctx.stroke();
+            }
+            ctx.restore();
+        }
+
+        if (interaction?.type === 'drawingPen' && penDragPoint) {
+            const start = interaction.initialPointer;
+            ctx.save();
+            ctx.strokeStyle = 'rgba(251, 191, 36, 0.9)';
+            ctx.lineWidth = 1 / s;
+            ctx.beginPath();
+            ctx.moveTo(start.x * 2 - penDragPoint.x, start.y * 2 - penDragPoint.y);
+            ctx.lineTo(penDragPoint.x, penDragPoint.y);
+            ctx.stroke();
+            ctx.restore();
+        }
+
         ctx.restore();
-    }, [marqueeRect, canvasSettings, interaction, canvasViewRef, panX, panY, scale]);
+    }, [marqueeRect, canvasSettings, interaction, canvasViewRef, panX, panY, scale, shapeSides, activeCanvasTool, penNodes, penDragPoint, cursorPosition]);
 
     useEffect(() => {
         let animId: number;
@@ -804,7 +1046,7 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             onPointerUp={handlePointerUp}
             onPointerLeave={(e) => { handlePointerUp(e); setCursorPosition(null); }}
             onWheel={handleWheel}
-            style={{ cursor: interaction?.type === 'rotate' ? 'alias' : (activeCanvasTool === 'hand' || isSpacePanning) ? 'grab' : 'default' }}
+            style={{ cursor: interaction?.type === 'rotate' ? 'alias' : (activeCanvasTool === 'hand' || isSpacePanning) ? 'grab' : activeCanvasTool === 'pen' ? 'crosshair' : 'default' }}
             onDragOver={handleDragOver}
             onDragLeave={handleDragLeave}
             onDrop={handleDrop}
@@ -849,22 +1091,21 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                         style={gridStyle}
                     />
                 )}
-                {layers.map((layer, index) => {
-                    return (
-                        <LayerItem
-                            key={layer.id}
-                            layer={layer}
-                            isInteracting={!!interaction}
-                            captureLayer={captureLayer}
-                            activeCanvasTool={activeCanvasTool}
-                            isSpacePanning={isSpacePanning}
-                            onLayerPointerDown={handleLayerPointerDown}
-                            zIndex={layers.length - 1 - index}
-                        />
-                    );
-                })}
+                {artboards.map(artboard => (
+                    <ArtboardFrame key={artboard.id} artboard={artboard} isSelected={selectedArtboardIds.includes(artboard.id)} labelZIndex={layers.length} scaleMV={scale} onSelect={onSelectArtboard} />
+                ))}
+                {renderLayerStack(layers.filter(l => !l.parentId))}
                 
-                {(selectionBoundingBox && (selectedLayers.length > 0) && !(selectedLayers.length === 1 && selectedLayers[0].isLocked)) && (
+                {maskEditingLayer && (
+                    <MaskPaintOverlay layer={maskEditingLayer} mask={maskEditingLayer.mask} brush={maskBrush} zIndex={layers.length} onCommit={onCommitMaskStroke} />
+                )}
+                {inpaintLayer && inpaintRegion && (
+                    <MaskPaintOverlay layer={inpaintLayer} mask={{ url: inpaintRegion.url, isInverted: true }} tint={INPAINT_TINT} brush={inpaintBrush} zIndex={layers.length} onCommit={onCommitInpaintStroke} />
+                )}
+
+                <CollabPresenceOverlay peers={collabPeers} layers={layers} scaleMV={scale} zIndex={layers.length} />
+
+                {(!isPaintingOverlay && selectionBoundingBox && (selectedLayers.length > 0) && !(selectedLayers.length === 1 && selectedLayers[0].isLocked)) && (
                     <SelectionFrame 
                         boundingBox={selectionBoundingBox} 
                         rotation={(selectedLayer ? selectedLayer.rotation : 0)}
@@ -873,10 +1114,12 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                         onHandlePointerDown={handleHandlePointerDown} 
                         onRotatePointerDown={handleRotatePointerDown}
                         isInteracting={!!interaction}
+                        pathLayer={selectedLayer && hasEditablePath(selectedLayer) && !isLayerLocked(layers, selectedLayer) ? selectedLayer : null}
+                        onPathNodePointerDown={handlePathNodePointerDown}
                     />
                 )}
                 
-                {selectedLayers.length === 1 && selectedLayer && !selectedLayer.isLocked && <FloatingLayerToolbar layer={selectedLayer} onAction={onToolbarAction} scaleMV={scale} />}
+                {!isPaintingOverlay && selectedLayers.length === 1 && selectedLayer && !selectedLayer.isLocked && <FloatingLayerToolbar layer={selectedLayer} onAction={onToolbarAction} scaleMV={scale} />}
                 {selectedLayers.length > 1 && selectionBoundingBox && <FloatingMultiLayerToolbar 
                     boundingBox={selectionBoundingBox}
                     scaleMV={scale}
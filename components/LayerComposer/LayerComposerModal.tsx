@@ -89,7 +89,7 @@ export const LayerComposerModal: React.FC<LayerComposerModalProps> = ({ isOpen,
                                 type="file"
                                 ref={state.fileInputRef}
                                 className="hidden"
-                                accept="image/*,.json"
+                                accept="image/*,.json,.ora,.psd"
                                 multiple
                                 onChange={state.handleFileSelected}
                             />
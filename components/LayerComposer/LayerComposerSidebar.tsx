@@ -5,13 +5,24 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAppControls, Switch, type GenerationHistoryEntry } from '../uiUtils';
-import { type Layer, type CanvasSettings, type CanvasTool, type AIPreset } from './LayerComposer.types';
+import { type OutpaintPadding } from './LayerComposer.inpaint';
+import { type RecipeStatus } from './LayerComposer.recipes';
+import { type Layer, type Artboard, type ArtboardExportFormat, type CanvasSettings, type CanvasTool, type AIPreset, type MaskBrush } from './LayerComposer.types';
 import { LayerList } from './LayerList';
 import { TextLayerControls } from './TextLayerControls';
 import { LayerPropertiesControls } from './LayerPropertiesControls';
+import { LayerMaskControls } from './LayerMaskControls';
+import { InpaintControls } from './InpaintControls';
+import { GenerationRecipeControls } from './GenerationRecipeControls';
+import { ArtboardControls } from './ArtboardControls';
+import { AdjustmentLayerControls } from './AdjustmentLayerControls';
+import { CollabControls } from './CollabControls';
+import { type CollabPeer, type CollabStatus } from './useLayerComposerCollab';
 import { cn } from '../../lib/utils';
-import { AccordionArrowIcon, AddTextIcon, AddIcon, InfoIcon, ChatIcon, NewFileIcon } from '../icons';
+import { isCollabAvailable } from '../../lib/collab';
+import { AccordionArrowIcon, AddTextIcon, AddIcon, InfoIcon, ChatIcon, NewFileIcon, AdjustmentLayerIcon, DownloadIcon } from '../icons';
 import { PresetControls } from './PresetControls';
+import { StoredImage } from '../StoredImage';
 
 interface LayerComposerSidebarProps {
     layers: Layer[];
@@ -40,6 +51,7 @@ interface LayerComposerSidebarProps {
     onAddImage: () => void;
     onAddText: () => void;
     onSave: () => void;
+    onExportOra: () => void;
     onClose: () => void;
     onHide: () => void;
     onNew: () => void;
@@ -56,12 +68,48 @@ interface LayerComposerSidebarProps {
     activeCanvasTool: CanvasTool;
     shapeFillColor: string;
     setShapeFillColor: (color: string) => void;
+    shapeSides: number;
+    setShapeSides: (sides: number) => void;
     generationHistory: GenerationHistoryEntry[];
     onOpenChatbot: () => void;
     aiNumberOfImages: number;
     setAiNumberOfImages: (num: number) => void;
     aiAspectRatio: string;
     setAiAspectRatio: (ratio: string) => void;
+    onAddAdjustmentLayer: () => void;
+    editingMaskForLayerId: string | null;
+    maskBrush: MaskBrush;
+    setMaskBrush: React.Dispatch<React.SetStateAction<MaskBrush>>;
+    onAddMask: (layerId: string) => void;
+    onRemoveMask: (layerId: string) => void;
+    onEditMask: (layerId: string | null) => void;
+    onCreateMaskFromSelection: () => void;
+    inpaintRegion: { layerId: string; url: string } | null;
+    onEditInpaintRegion: (layerId: string | null) => void;
+    inpaintBrush: MaskBrush;
+    setInpaintBrush: React.Dispatch<React.SetStateAction<MaskBrush>>;
+    onInpaintRegionFromSelection: () => void;
+    onInpaintLayer: (prompt: string) => void;
+    onOutpaintLayer: (layerId: string, padding: OutpaintPadding, prompt: string) => void;
+    recipeStatuses: Map<string, RecipeStatus>;
+    staleLayerCount: number;
+    onRegenerateLayer: (layerId: string) => void;
+    onMakeVariations: (layerId: string) => void;
+    onUpdateStaleLayers: (layerIds?: string[]) => void;
+    artboards: Artboard[];
+    selectedArtboardIds: string[];
+    onAddArtboard: (width: number, height: number) => void;
+    onUpdateArtboard: (id: string, props: Partial<Artboard>) => void;
+    onDeleteArtboard: (id: string) => void;
+    onSelectArtboard: (id: string, isAdditive: boolean) => void;
+    onExportArtboards: (ids: string[], format: ArtboardExportFormat) => void;
+    onFillArtboard: (id: string) => void;
+    collabStatus: CollabStatus;
+    collabRoomId: string | null;
+    collabPeers: CollabPeer[];
+    collabSelfColor: string;
+    onJoinCollabRoom: (roomId: string, name: string) => void;
+    onLeaveCollabRoom: () => void;
 }
 
 const AccordionHeader: React.FC<{ title: string; isOpen: boolean; onClick: () => void; children?: React.ReactNode; rightContent?: React.ReactNode; }> = ({ title, isOpen, onClick, rightContent }) => {
@@ -81,20 +129,25 @@ const AccordionHeader: React.FC<{ title: string; isOpen: boolean; onClick: () =>
 export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props) => {
     const {
         layers, canvasSettings, isInfiniteCanvas, setIsInfiniteCanvas, selectedLayerId, selectedLayerIds, selectedLayers, runningJobCount, error, aiPrompt, setAiPrompt, onGenerateAILayer,
-        onCancelGeneration, onLayersReorder, onLayerUpdate, onLayerDelete, onLayerSelect, onCanvasSettingsChange, onAddImage, onAddText, onSave, onClose, onHide, onNew,
+        onCancelGeneration, onLayersReorder, onLayerUpdate, onLayerDelete, onLayerSelect, onCanvasSettingsChange, onAddImage, onAddText, onSave, onExportOra, onClose, onHide, onNew,
         beginInteraction,
         presets,
         isSimpleImageMode, setIsSimpleImageMode, aiPreset, setAiPreset,
         hasAiLog, isLogVisible, setIsLogVisible,
         loadedPreset, setLoadedPreset, onPresetFileLoad, onGenerateFromPreset, selectedLayersForPreset,
         onResizeSelectedLayers,
-        activeCanvasTool, shapeFillColor, setShapeFillColor, generationHistory,
+        activeCanvasTool, shapeFillColor, setShapeFillColor, shapeSides, setShapeSides, generationHistory,
         onOpenChatbot,
-        aiNumberOfImages, setAiNumberOfImages, aiAspectRatio, setAiAspectRatio
+        aiNumberOfImages, setAiNumberOfImages, aiAspectRatio, setAiAspectRatio,
+        onAddAdjustmentLayer, editingMaskForLayerId, maskBrush, setMaskBrush, onAddMask, onRemoveMask, onEditMask, onCreateMaskFromSelection,
+        inpaintRegion, onEditInpaintRegion, inpaintBrush, setInpaintBrush, onInpaintRegionFromSelection, onInpaintLayer, onOutpaintLayer,
+        recipeStatuses, staleLayerCount, onRegenerateLayer, onMakeVariations, onUpdateStaleLayers,
+        artboards, selectedArtboardIds, onAddArtboard, onUpdateArtboard, onDeleteArtboard, onSelectArtboard, onExportArtboards, onFillArtboard,
+        collabStatus, collabRoomId, collabPeers, collabSelfColor, onJoinCollabRoom, onLeaveCollabRoom
     } = props;
     const { t, language } = useAppControls();
-    const [openSection, setOpenSection] = useState<'ai' | 'preset' | 'canvas' | 'layers' | null>('ai');
-    const [activeTab, setActiveTab] = useState<'properties' | 'text'>('properties');
+    const [openSection, setOpenSection] = useState<'ai' | 'preset' | 'canvas' | 'artboards' | 'collab' | 'layers' | null>('ai');
+    const [activeTab, setActiveTab] = useState<'properties' | 'text' | 'adjustments' | 'mask' | 'inpaint'>('properties');
     const selectedLayer = selectedLayers[0];
     const isGenerating = runningJobCount > 0;
     const hasImageInput = selectedLayers.length > 0;
@@ -102,11 +155,11 @@ export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props)
 
     useEffect(() => {
         if (selectedLayer) {
-            setActiveTab(selectedLayer.type === 'text' ? 'text' : 'properties');
+            setActiveTab(selectedLayer.type === 'text' ? 'text' : selectedLayer.type === 'adjustment' ? 'adjustments' : 'properties');
         }
     }, [selectedLayer?.id, selectedLayer?.type]);
 
-    const toggleSection = (section: 'ai' | 'preset' |'canvas' | 'layers') => { setOpenSection(prev => prev === section ? null : section); };
+    const toggleSection = (section: 'ai' | 'preset' |'canvas' | 'artboards' | 'collab' | 'layers') => { setOpenSection(prev => prev === section ? null : section); };
 
     return (
         <aside className="w-1/3 max-w-sm flex flex-col bg-neutral-900/50 p-6 border-r border-white/10">
@@ -119,7 +172,7 @@ export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props)
             
             <div className="flex-grow overflow-y-auto space-y-2 pr-2 -mr-4">
                 <AnimatePresence>
-                    {(activeCanvasTool === 'rectangle' || activeCanvasTool === 'ellipse') && (
+                    {(activeCanvasTool === 'rectangle' || activeCanvasTool === 'ellipse' || activeCanvasTool === 'polygon' || activeCanvasTool === 'star' || activeCanvasTool === 'pen') && (
                         <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden border border-neutral-700 rounded-lg">
                             <div className="p-3 bg-neutral-800/50 space-y-2">
                                 <h4 className="font-semibold text-neutral-200">Shape Tool Options</h4>
@@ -130,6 +183,13 @@ export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props)
                                         <div className="w-full h-full rounded-full pointer-events-none" style={{ backgroundColor: shapeFillColor }}></div>
                                     </div>
                                 </div>
+                                {(activeCanvasTool === 'polygon' || activeCanvasTool === 'star') && (
+                                    <div className="flex items-center justify-between">
+                                        <label htmlFor="shape-sides" className="text-sm font-medium text-neutral-300">{t(activeCanvasTool === 'star' ? 'layerComposer_shape_starPoints' : 'layerComposer_shape_polygonSides')}</label>
+                                        <input id="shape-sides" type="number" min={3} max={24} value={shapeSides} onChange={(e) => setShapeSides(Math.max(3, Math.min(24, Number(e.target.value) || 3)))} className="form-input !p-1.5 !text-sm w-20" />
+                                    </div>
+                                )}
+                                {activeCanvasTool === 'pen' && <p className="text-xs text-neutral-400">{t('layerComposer_shape_penHint')}</p>}
                             </div>
                         </motion.div>
                     )}
@@ -148,7 +208,7 @@ export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props)
                                             {selectedLayers.map((layer, index) => (
                                                 <div key={layer.id} className="text-sm bg-neutral-900/50 p-2 rounded-md flex items-center gap-3">
                                                     {layer.type === 'image' && layer.url ? (
-                                                        <img src={layer.url} alt={`Input ${index + 1}`} className="w-10 h-10 object-cover rounded-sm flex-shrink-0 bg-neutral-700" />
+                                                        <StoredImage src={layer.url} alt={`Input ${index + 1}`} className="w-10 h-10 object-cover rounded-sm flex-shrink-0 bg-neutral-700" />
                                                     ) : (
                                                         <div className="w-10 h-10 flex-shrink-0 bg-neutral-700 rounded-sm flex items-center justify-center text-neutral-300 font-bold" style={{ fontFamily: 'Asimovian', fontSize: '1.5rem', color: layer.color || '#FFFFFF' }}>
                                                             {layer.type === 'text' ? 'T' : 'S'}
@@ -341,10 +401,53 @@ export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props)
                      </div> </motion.div> )} </AnimatePresence>
                 </div>
                 <div className="border border-neutral-700 rounded-lg overflow-hidden">
-                     <AccordionHeader title={t('layerComposer_layers')} isOpen={openSection === 'layers'} onClick={() => toggleSection('layers')} rightContent={ <> <button onClick={(e) => { e.stopPropagation(); onAddText(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_addText')} title={t('layerComposer_addText')} > <AddTextIcon className="h-4 w-4" /> </button> <button onClick={(e) => { e.stopPropagation(); onAddImage(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_addImage')} title={t('layerComposer_addImage')} > <AddIcon className="h-4 w-4" strokeWidth={2.5} /> </button> </> } />
-                     <AnimatePresence> {openSection === 'layers' && ( <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden bg-neutral-800/50"> <div className="p-3"> <LayerList layers={layers} selectedLayerId={selectedLayerId} onLayersReorder={onLayersReorder} onLayerUpdate={onLayerUpdate} onLayerDelete={onLayerDelete} onLayerSelect={onLayerSelect} beginInteraction={beginInteraction} /> </div> </motion.div> )} </AnimatePresence>
+                    <AccordionHeader title={t('layerComposer_artboards')} isOpen={openSection === 'artboards'} onClick={() => toggleSection('artboards')} />
+                    <AnimatePresence>
+                        {openSection === 'artboards' && (
+                            <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden bg-neutral-800/50">
+                                <ArtboardControls
+                                    artboards={artboards}
+                                    selectedArtboardIds={selectedArtboardIds}
+                                    isBusy={isGenerating}
+                                    onAdd={onAddArtboard}
+                                    onUpdate={onUpdateArtboard}
+                                    onDelete={onDeleteArtboard}
+                                    onSelect={onSelectArtboard}
+                                    onExport={onExportArtboards}
+                                    onFillEmpty={onFillArtboard}
+                                />
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </div>
+                {/* Without a relay in this build there is no one to collaborate with. */}
+                {isCollabAvailable() && <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                    <AccordionHeader
+                        title={t('layerComposer_collab_title')}
+                        isOpen={openSection === 'collab'}
+                        onClick={() => toggleSection('collab')}
+                        rightContent={collabStatus === 'online' ? <span className="text-xs text-green-400">{t('layerComposer_collab_peopleCount', collabPeers.length + 1)}</span> : undefined}
+                    />
+                    <AnimatePresence>
+                        {openSection === 'collab' && (
+                            <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden bg-neutral-800/50">
+                                <CollabControls
+                                    status={collabStatus}
+                                    roomId={collabRoomId}
+                                    peers={collabPeers}
+                                    selfColor={collabSelfColor}
+                                    onJoin={onJoinCollabRoom}
+                                    onLeave={onLeaveCollabRoom}
+                                />
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </div>}
+                <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                     <AccordionHeader title={t('layerComposer_layers')} isOpen={openSection === 'layers'} onClick={() => toggleSection('layers')} rightContent={ <> <button onClick={(e) => { e.stopPropagation(); onAddText(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_addText')} title={t('layerComposer_addText')} > <AddTextIcon className="h-4 w-4" /> </button> <button onClick={(e) => { e.stopPropagation(); onAddAdjustmentLayer(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_addAdjustmentLayer')} title={t('layerComposer_addAdjustmentLayer')} > <AdjustmentLayerIcon className="h-4 w-4" /> </button> <button onClick={(e) => { e.stopPropagation(); onAddImage(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_addImage')} title={t('layerComposer_addImage')} > <AddIcon className="h-4 w-4" strokeWidth={2.5} /> </button> </> } />
+                     <AnimatePresence> {openSection === 'layers' && ( <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden bg-neutral-800/50"> <div className="p-3"> <LayerList layers={layers} recipeStatuses={recipeStatuses} selectedLayerId={selectedLayerId} onLayersReorder={onLayersReorder} onLayerUpdate={onLayerUpdate} onLayerDelete={onLayerDelete} onLayerSelect={onLayerSelect} beginInteraction={beginInteraction} /> </div> </motion.div> )} </AnimatePresence>
                 </div>
-                 {selectedLayers.length > 0 && ( <div className="mt-2 border border-neutral-700 rounded-lg"> <div className="flex border-b border-neutral-700 bg-neutral-800 rounded-t-lg"> <button onClick={() => setActiveTab('properties')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'properties' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_properties')} </button> {selectedLayer?.type === 'text' && ( <button onClick={() => setActiveTab('text')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'text' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_text')} </button> )} </div> <div className="bg-neutral-800/50"> <AnimatePresence mode="wait"> <motion.div key={activeTab} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} transition={{ duration: 0.2 }} > {activeTab === 'properties' && ( <LayerPropertiesControls selectedLayers={selectedLayers} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} onResize={onResizeSelectedLayers} /> )} {activeTab === 'text' && selectedLayer?.type === 'text' && ( <TextLayerControls layer={selectedLayer} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} /> )} </motion.div> </AnimatePresence> </div> </div> )}
+                 {selectedLayers.length > 0 && ( <div className="mt-2 border border-neutral-700 rounded-lg"> <div className="flex border-b border-neutral-700 bg-neutral-800 rounded-t-lg"> <button onClick={() => setActiveTab('properties')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'properties' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_properties')} </button> {selectedLayer?.type === 'text' && ( <button onClick={() => setActiveTab('text')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'text' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_text')} </button> )} {selectedLayer?.type === 'adjustment' && ( <button onClick={() => setActiveTab('adjustments')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'adjustments' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_adjustments')} </button> )} {selectedLayer?.type !== 'group' && ( <button onClick={() => setActiveTab('mask')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'mask' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_mask')} </button> )} {selectedLayer?.type === 'image' && ( <button onClick={() => setActiveTab('inpaint')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'inpaint' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_inpaint')} </button> )} </div> <div className="bg-neutral-800/50"> <AnimatePresence mode="wait"> <motion.div key={activeTab} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} transition={{ duration: 0.2 }} > {activeTab === 'properties' && ( <LayerPropertiesControls selectedLayers={selectedLayers} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} onResize={onResizeSelectedLayers} /> )} {activeTab === 'text' && selectedLayer?.type === 'text' && ( <TextLayerControls layer={selectedLayer} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} /> )} {activeTab === 'adjustments' && selectedLayer?.type === 'adjustment' && ( <AdjustmentLayerControls layer={selectedLayer} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} /> )} {activeTab === 'mask' && selectedLayer && selectedLayer.type !== 'group' && ( <LayerMaskControls layer={selectedLayer} selectedLayerCount={selectedLayers.length} isEditingMask={editingMaskForLayerId === selectedLayer.id} maskBrush={maskBrush} setMaskBrush={setMaskBrush} onAddMask={onAddMask} onRemoveMask={onRemoveMask} onEditMask={onEditMask} onCreateMaskFromSelection={onCreateMaskFromSelection} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} /> )} {activeTab === 'inpaint' && selectedLayer?.type === 'image' && selectedLayer.generation && ( <GenerationRecipeControls layer={{ ...selectedLayer, generation: selectedLayer.generation }} layers={layers} status={recipeStatuses.get(selectedLayer.id) ?? 'current'} staleLayerCount={staleLayerCount} isBusy={isGenerating} onRegenerate={onRegenerateLayer} onMakeVariations={onMakeVariations} onUpdateStaleLayers={onUpdateStaleLayers} /> )} {activeTab === 'inpaint' && selectedLayer?.type === 'image' && ( <InpaintControls layer={selectedLayer} selectedLayerCount={selectedLayers.length} isBusy={isGenerating} isEditingRegion={inpaintRegion?.layerId === selectedLayer.id} brush={inpaintBrush} setBrush={setInpaintBrush} onEditRegion={onEditInpaintRegion} onRegionFromSelection={onInpaintRegionFromSelection} onInpaint={onInpaintLayer} onOutpaint={onOutpaintLayer} /> )} </motion.div> </AnimatePresence> </div> </div> )}
             </div>
             
             <div className="flex-shrink-0 pt-6 border-t border-white/10">
@@ -353,6 +456,9 @@ export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props)
                     <button onClick={onNew} className="btn btn-secondary btn-sm p-2.5" title="New Canvas">
                         <NewFileIcon className="h-5 w-5" />
                     </button>
+                    <button onClick={onExportOra} className="btn btn-secondary btn-sm p-2.5" disabled={layers.length === 0 || isGenerating} title={t('layerComposer_exportOraTooltip')}>
+                        <DownloadIcon className="h-5 w-5" />
+                    </button>
                     <button onClick={onClose} className="btn btn-secondary btn-sm flex-grow"> {t('common_cancel')} </button>
                     <button onClick={onSave} className="btn btn-primary btn-sm flex-grow" disabled={(layers.length === 0 && !isInfiniteCanvas) || isGenerating} title={isInfiniteCanvas ? t('layerComposer_exportJsonTooltip') : t('layerComposer_saveTooltip')} > {isGenerating ? t('layerComposer_saving') : (isInfiniteCanvas ? t('layerComposer_exportJson') : t('layerComposer_save'))} </button>
                 </div>
@@ -2,10 +2,15 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '../../lib/utils';
-import { type Layer, type CanvasTool } from './LayerComposer.types';
+import { type Layer, type CanvasTool, getBoundingBoxForLayers } from './LayerComposer.types';
+import { renderLayerMask } from './LayerComposer.utils';
+import { StoredImage } from '../StoredImage';
+import { resolveImageUrl } from '../../lib/imageStore';
+import { getGradientGeometry, getGradientStops, getShapePathData, getStrokeDashArray, hasFill, hasStroke } from './LayerComposer.paths';
+import { type PlacedGlyph, getTextLayerContent, getTextLayerFonts, hasTextFill, hasTextShadow, hasTextStroke, layoutTextLayer, loadTextLayerFonts } from './LayerComposer.text';
 
 interface LayerItemProps {
     layer: Layer;
@@ -15,16 +20,49 @@ interface LayerItemProps {
     isSpacePanning: boolean;
     isInteracting: boolean;
     captureLayer: (layer: Layer) => Promise<string>;
+    // What an adjustment layer puts over the layers below, covering its bounding box.
+    adjustmentPreviewUrl?: string | null;
 }
 
+/**
+ * The URL of a layer's mask as CSS should use it, with inversion and feathering applied.
+ */
+const useMaskUrl = (layer: Layer): string | null => {
+    const [maskUrl, setMaskUrl] = useState<string | null>(null);
+    const layerWidthRef = useRef(layer.width);
+    layerWidthRef.current = layer.width;
+    // Adjustment layers get their mask baked into the preview.
+    const mask = layer.type !== 'adjustment' && layer.mask?.isEnabled ? layer.mask : null;
+
+    useEffect(() => {
+        if (!mask) { setMaskUrl(null); return; }
+        let isCancelled = false;
+        const rendered = !mask.isInverted && !mask.feather
+            ? resolveImageUrl(mask.url)
+            : renderLayerMask(mask, layerWidthRef.current).then(canvas => canvas.toDataURL('image/png'));
+        rendered
+            .then(url => { if (!isCancelled) setMaskUrl(url); })
+            .catch(err => console.error("Could not render layer mask:", err));
+        return () => { isCancelled = true; };
+    }, [mask?.url, mask?.isInverted, mask?.feather]);
+
+    return maskUrl;
+};
+
 export const LayerItem: React.FC<LayerItemProps> = React.memo(({
     layer, zIndex,
     activeCanvasTool, isSpacePanning,
     onLayerPointerDown,
-    isInteracting,
+    isInteracting, adjustmentPreviewUrl,
 }) => {
     
     const isHandToolActive = activeCanvasTool === 'hand' || isSpacePanning;
+    const maskUrl = useMaskUrl(layer);
+    const maskStyle = maskUrl ? {
+        WebkitMaskImage: `url(${maskUrl})`, maskImage: `url(${maskUrl})`,
+        WebkitMaskSize: '100% 100%', maskSize: '100% 100%',
+        WebkitMaskRepeat: 'no-repeat', maskRepeat: 'no-repeat',
+    } : {};
 
     if (!layer.isVisible) {
         return null;
@@ -35,6 +73,9 @@ export const LayerItem: React.FC<LayerItemProps> = React.memo(({
             onPointerDown={(e) => onLayerPointerDown(e, layer.id)}
             className={cn(
                 "absolute",
+                // Adjustment layers usually cover the canvas; they are picked from the layer list.
+                // Shapes are picked by their outline, not their box.
+                (layer.type === 'adjustment' || layer.type === 'shape') && 'pointer-events-none',
                 layer.isLocked ? 'cursor-default' : (isHandToolActive ? 'cursor-grab' : 'cursor-move')
             )}
             style={{
@@ -43,46 +84,172 @@ export const LayerItem: React.FC<LayerItemProps> = React.memo(({
                 width: layer.width,
                 height: layer.height,
                 rotate: layer.rotation,
-                mixBlendMode: (layer.blendMode === 'source-over' ? 'normal' : layer.blendMode) as any,
+                mixBlendMode: (layer.blendMode === 'source-over' ? 'normal' : layer.blendMode) as React.CSSProperties['mixBlendMode'],
                 opacity: layer.opacity / 100,
                 zIndex: zIndex,
+                ...maskStyle,
             }}
             transition={isInteracting ? { duration: 0 } : { type: 'spring', stiffness: 500, damping: 50 }}
         >
              {layer.type === 'image' && layer.url ? (
-                <img
+                <StoredImage
                     src={layer.url}
                     className="w-full h-full pointer-events-none"
                     alt=""
                     loading="lazy"
                 />
             ) : layer.type === 'text' ? (
-                <div 
-                    className="w-full h-full pointer-events-none p-1 box-border"
-                    style={{
-                        fontFamily: layer.fontFamily,
-                        fontSize: `${layer.fontSize}px`,
-                        fontWeight: layer.fontWeight,
-                        fontStyle: layer.fontStyle,
-                        color: layer.color,
-                        textAlign: layer.textAlign,
-                        lineHeight: layer.lineHeight,
-                        textTransform: layer.textTransform,
-                        whiteSpace: 'pre-wrap',
-                        wordBreak: 'break-word',
-                    }}
-                >
-                    {layer.text}
-                </div>
+                <TextContent layer={layer} />
+            ) : layer.type === 'adjustment' ? (
+                adjustmentPreviewUrl ? <AdjustmentPreview layer={layer} url={adjustmentPreviewUrl} /> : null
             ) : layer.type === 'shape' ? (
-                <div
-                    className="w-full h-full pointer-events-none"
-                    style={{
-                        backgroundColor: layer.fillColor || '#FFFFFF',
-                        borderRadius: layer.shapeType === 'ellipse' ? '50%' : `${layer.borderRadius || 0}px`,
-                    }}
-                />
+                <ShapeContent layer={layer} />
             ) : null}
         </motion.div>
     );
-});
\ No newline at end of file
+});
+
+// Thin and unfilled outlines are hard to hit, so clicks within this many canvas units of
+// a shape's outline count as hits.
+const SHAPE_HIT_WIDTH = 8;
+
+const GradientDefinition: React.FC<{ layer: Layer; id: string }> = ({ layer, id }) => {
+    const gradient = getGradientGeometry(layer);
+    const stops = getGradientStops(layer).map((stop, i) => <stop key={i} offset={stop.offset} stopColor={stop.color} />);
+    return gradient.type === 'radial'
+        ? <radialGradient id={id} gradientUnits="userSpaceOnUse" cx={gradient.cx} cy={gradient.cy} r={gradient.r}>{stops}</radialGradient>
+        : <linearGradient id={id} gradientUnits="userSpaceOnUse" x1={gradient.x1} y1={gradient.y1} x2={gradient.x2} y2={gradient.y2}>{stops}</linearGradient>;
+};
+
+const ShapeContent: React.FC<{ layer: Layer }> = ({ layer }) => {
+    const pathData = getShapePathData(layer);
+    const gradientId = `shape-gradient-${layer.id}`;
+    const isGradient = layer.fillType === 'linear' || layer.fillType === 'radial';
+    const fill = !hasFill(layer) ? 'none' : isGradient ? `url(#${gradientId})` : (layer.fillColor || '#FFFFFF');
+
+    return (
+        <svg className="absolute inset-0 overflow-visible" width={layer.width} height={layer.height}>
+            {isGradient && <defs><GradientDefinition layer={layer} id={gradientId} /></defs>}
+            <path
+                d={pathData}
+                fill={fill}
+                stroke={hasStroke(layer) ? layer.strokeColor : 'none'}
+                strokeWidth={layer.strokeWidth}
+                strokeLinejoin={layer.strokeJoin || 'miter'}
+                strokeDasharray={getStrokeDashArray(layer).join(' ') || undefined}
+                style={{ pointerEvents: 'visiblePainted' }}
+            />
+            <path d={pathData} fill="none" stroke="transparent" strokeWidth={Math.max(layer.strokeWidth || 0, SHAPE_HIT_WIDTH)} style={{ pointerEvents: 'stroke' }} />
+        </svg>
+    );
+};
+
+/**
+ * Counts up each time the fonts a text layer uses finish loading, since glyphs measured
+ * with a fallback font need laying out again.
+ */
+const useTextFontsVersion = (layer: Layer): number => {
+    const [version, setVersion] = useState(0);
+    const layerRef = useRef(layer);
+    layerRef.current = layer;
+    const fontsKey = [getTextLayerContent(layer), ...getTextLayerFonts(layer)].join('|');
+
+    useEffect(() => {
+        let isCancelled = false;
+        loadTextLayerFonts([layerRef.current]).then(() => { if (!isCancelled) setVersion(v => v + 1); });
+        return () => { isCancelled = true; };
+    }, [fontsKey]);
+
+    return version;
+};
+
+const GlyphText: React.FC<{ glyph: PlacedGlyph; fill?: string }> = ({ glyph, fill }) => (
+    <text
+        x={glyph.x}
+        y={glyph.y}
+        rotate={glyph.rotation ? (glyph.rotation * 180) / Math.PI : undefined}
+        fontFamily={`"${glyph.style.fontFamily}", sans-serif`}
+        fontSize={glyph.style.fontSize}
+        fontWeight={glyph.style.fontWeight}
+        fontStyle={glyph.style.fontStyle}
+        fill={fill}
+    >
+        {glyph.text}
+    </text>
+);
+
+// The same placed glyphs the canvas draws, so the preview matches exports.
+const TextContent: React.FC<{ layer: Layer }> = ({ layer }) => {
+    const fontsVersion = useTextFontsVersion(layer);
+    const glyphs = useMemo(() => layoutTextLayer(layer), [layer, fontsVersion]);
+    const gradientId = `text-gradient-${layer.id}`;
+    const filterId = `text-shadow-${layer.id}`;
+    const isGradient = layer.fillType === 'linear' || layer.fillType === 'radial';
+
+    return (
+        <svg className="absolute inset-0 overflow-visible pointer-events-none select-none" width={layer.width} height={layer.height}>
+            <defs>
+                {isGradient && <GradientDefinition layer={layer} id={gradientId} />}
+                {hasTextShadow(layer) && (
+                    <filter id={filterId} x="-50%" y="-50%" width="200%" height="200%">
+                        <feDropShadow dx={layer.textShadowOffsetX || 0} dy={layer.textShadowOffsetY || 0} stdDeviation={(layer.textShadowBlur || 0) / 2} floodColor={layer.textShadowColor} />
+                    </filter>
+                )}
+            </defs>
+            <g filter={hasTextShadow(layer) ? `url(#${filterId})` : undefined}>
+                {hasTextStroke(layer) && (
+                    <g fill="none" stroke={layer.textStrokeColor} strokeWidth={layer.textStrokeWidth! * 2} strokeLinejoin="round">
+                        {glyphs.map((glyph, i) => <GlyphText key={i} glyph={glyph} />)}
+                    </g>
+                )}
+                {hasTextFill(layer) && glyphs.map((glyph, i) => (
+                    <GlyphText key={i} glyph={glyph} fill={isGradient && !glyph.hasOwnColor ? `url(#${gradientId})` : glyph.style.color} />
+                ))}
+            </g>
+        </svg>
+    );
+};
+
+// The preview covers the layer's unrotated bounding box, so it is turned back against the
+// layer's rotation around the shared center.
+const AdjustmentPreview: React.FC<{ layer: Layer; url: string }> = ({ layer, url }) => {
+    const bounds = getBoundingBoxForLayers([layer]);
+    if (!bounds) return null;
+    return (
+        <img
+            src={url}
+            className="absolute max-w-none pointer-events-none"
+            alt=""
+            style={{
+                left: (layer.width - bounds.width) / 2,
+                top: (layer.height - bounds.height) / 2,
+                width: bounds.width,
+                height: bounds.height,
+                transform: `rotate(${-layer.rotation}deg)`,
+            }}
+        />
+    );
+};
+
+/**
+ * Holds a group's contents on the canvas. It takes no room of its own; its children keep
+ * canvas coordinates and are composited together with the group's opacity and blend mode.
+ */
+export const LayerGroupItem: React.FC<{ layer: Layer; zIndex: number; children: React.ReactNode }> = ({ layer, zIndex, children }) => {
+    if (!layer.isVisible) {
+        return null;
+    }
+    return (
+        <div
+            className="absolute left-0 top-0 w-0 h-0"
+            style={{
+                zIndex,
+                opacity: layer.opacity / 100,
+                mixBlendMode: (layer.blendMode === 'source-over' ? 'normal' : layer.blendMode) as React.CSSProperties['mixBlendMode'],
+                isolation: 'isolate',
+            }}
+        >
+            {children}
+        </div>
+    );
+};
@@ -2,14 +2,16 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { Reorder } from 'framer-motion';
+import React, { useState } from 'react';
 import { useAppControls } from '../uiUtils';
 import { type Layer } from './LayerComposer.types';
+import { getLayerAncestors, moveLayerInTree, type LayerDropPosition } from './LayerComposer.hierarchy';
 import { LayerListItem } from './LayerListItem';
+import { type RecipeStatus } from './LayerComposer.recipes';
 
 interface LayerListProps {
     layers: Layer[];
+    recipeStatuses: Map<string, RecipeStatus>;
     selectedLayerId: string | null;
     onLayersReorder: (reorderedLayers: Layer[]) => void;
     onLayerUpdate: (id: string, newProps: Partial<Layer>, isFinalChange: boolean) => void;
@@ -19,27 +21,67 @@ interface LayerListProps {
 }
 
 export const LayerList: React.FC<LayerListProps> = ({
-    layers, selectedLayerId, onLayersReorder, onLayerUpdate, onLayerDelete, onLayerSelect, beginInteraction
+    layers, recipeStatuses, selectedLayerId, onLayersReorder, onLayerUpdate, onLayerDelete, onLayerSelect, beginInteraction
 }) => {
     const { t } = useAppControls();
+    const [draggedLayerId, setDraggedLayerId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<{ id: string; position: LayerDropPosition } | null>(null);
 
     if (layers.length === 0) {
         return ( <p className="text-sm text-neutral-500 text-center py-4"> {t('layerComposer_empty')} </p> );
     }
-    
+
+    // One row per layer in stored order, leaving out the contents of collapsed groups.
+    const rows = layers.flatMap(layer => {
+        const ancestors = getLayerAncestors(layers, layer);
+        return ancestors.some(ancestor => ancestor.isCollapsed) ? [] : [{ layer, depth: ancestors.length }];
+    });
+
+    const handleDragOver = (e: React.DragEvent<HTMLDivElement>, target: Layer) => {
+        if (!draggedLayerId || draggedLayerId === target.id) return;
+        e.preventDefault();
+        const rect = e.currentTarget.getBoundingClientRect();
+        const ratio = (e.clientY - rect.top) / rect.height;
+        // The middle of a group row drops into the group; elsewhere the layer lands above or below.
+        const position: LayerDropPosition = target.type === 'group' && ratio > 0.25 && ratio < 0.75 ? 'inside' : ratio < 0.5 ? 'above' : 'below';
+        if (dropTarget?.id !== target.id || dropTarget.position !== position) setDropTarget({ id: target.id, position });
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        if (draggedLayerId && dropTarget) {
+            const reorderedLayers = moveLayerInTree(layers, draggedLayerId, dropTarget.id, dropTarget.position);
+            if (reorderedLayers !== layers) onLayersReorder(reorderedLayers);
+        }
+        handleDragEnd();
+    };
+
+    const handleDragEnd = () => {
+        setDraggedLayerId(null);
+        setDropTarget(null);
+    };
+
     return (
-        <Reorder.Group axis="y" values={layers} onReorder={onLayersReorder} className="space-y-2">
-            {layers.map(layer => (
+        <div className="space-y-2">
+            {rows.map(({ layer, depth }) => (
                 <LayerListItem
                     key={layer.id}
                     layer={layer}
+                    recipeStatus={recipeStatuses.get(layer.id)}
+                    depth={depth}
                     onUpdate={onLayerUpdate}
                     onLayerDelete={onLayerDelete}
                     onSelect={onLayerSelect}
                     isSelected={selectedLayerId === layer.id}
                     beginInteraction={beginInteraction}
+                    isDragging={draggedLayerId === layer.id}
+                    dropPosition={dropTarget?.id === layer.id ? dropTarget.position : null}
+                    onDragStart={() => setDraggedLayerId(layer.id)}
+                    onDragOver={(e) => handleDragOver(e, layer)}
+                    onDrop={handleDrop}
+                    onDragEnd={handleDragEnd}
                 />
             ))}
-        </Reorder.Group>
+        </div>
     );
-};
\ No newline at end of file
+};
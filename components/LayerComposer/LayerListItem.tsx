@@ -3,52 +3,86 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { Reorder, useDragControls } from 'framer-motion';
 import { cn } from '../../lib/utils';
 import { type Layer } from './LayerComposer.types';
-import { DragHandleIcon, LockIcon, UnlockIcon, VisibleIcon, HiddenIcon } from '../icons';
+import { type LayerDropPosition } from './LayerComposer.hierarchy';
+import { type RecipeStatus } from './LayerComposer.recipes';
+import { getShapePathData, hasFill, hasStroke } from './LayerComposer.paths';
+import { DragHandleIcon, LockIcon, UnlockIcon, VisibleIcon, HiddenIcon, AdjustmentLayerIcon, GroupIcon, AccordionArrowIcon } from '../icons';
+import { StoredImage } from '../StoredImage';
 
 interface LayerListItemProps {
     layer: Layer;
+    // Set for AI layers that remember how they were generated
+    recipeStatus?: RecipeStatus;
     onUpdate: (id: string, newProps: Partial<Layer>, isFinalChange: boolean) => void;
     onLayerDelete: (id: string) => void;
     onSelect: (id: string) => void;
     isSelected: boolean;
     beginInteraction: () => void;
+    // How deep the layer sits in groups; rows are indented by it.
+    depth: number;
+    isDragging: boolean;
+    dropPosition: LayerDropPosition | null;
+    onDragStart: () => void;
+    onDragOver: (e: React.DragEvent<HTMLDivElement>) => void;
+    onDrop: (e: React.DragEvent<HTMLDivElement>) => void;
+    onDragEnd: () => void;
 }
 
 export const LayerListItem: React.FC<LayerListItemProps> = ({
-    layer, onUpdate, onLayerDelete, onSelect, isSelected, beginInteraction
+    layer, recipeStatus, onUpdate, onLayerDelete, onSelect, isSelected, beginInteraction,
+    depth, isDragging, dropPosition, onDragStart, onDragOver, onDrop, onDragEnd
 }) => {
-    const dragControls = useDragControls();
 
     const getLayerName = () => {
+        if (layer.name) return layer.name;
         switch(layer.type) {
             case 'image': return 'Image Layer';
             case 'text': return layer.text || 'Text Layer';
-            case 'shape': return `${layer.shapeType === 'rectangle' ? 'Rectangle' : 'Ellipse'} Shape`;
+            case 'shape': return layer.shapeType === 'path' ? 'Path' : `${layer.shapeType === 'rectangle' ? 'Rectangle' : 'Ellipse'} Shape`;
+            case 'adjustment': return 'Adjustment Layer';
+            case 'group': return 'Group';
             default: return 'Layer';
         }
     }
 
     return (
-        <Reorder.Item
-            value={layer}
-            dragListener={layer.isLocked ? false : true}
-            dragControls={dragControls}
-            initial={{ opacity: 0, y: -20 }}
-            animate={{ opacity: 1, y: 0, transition: { duration: 0.2 } }}
-            exit={{ opacity: 0, x: -20, transition: { duration: 0.2 } }}
-            className={cn( "bg-neutral-800 rounded-lg border", isSelected ? 'border-yellow-400 ring-2 ring-yellow-400/30' : 'border-neutral-700 hover:border-neutral-600' )}
+        <div
+            draggable={!layer.isLocked}
+            onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; onDragStart(); }}
+            onDragOver={onDragOver}
+            onDrop={onDrop}
+            onDragEnd={onDragEnd}
+            style={{ marginLeft: depth * 16 }}
+            className={cn(
+                "bg-neutral-800 rounded-lg border transition-opacity",
+                isSelected ? 'border-yellow-400 ring-2 ring-yellow-400/30' : 'border-neutral-700 hover:border-neutral-600',
+                isDragging && 'opacity-40',
+                dropPosition === 'above' && 'border-t-2 border-t-yellow-400',
+                dropPosition === 'below' && 'border-b-2 border-b-yellow-400',
+                dropPosition === 'inside' && 'ring-2 ring-yellow-400',
+            )}
         >
             <div className="p-2 cursor-pointer" onClick={() => onSelect(layer.id)} >
                 <div className="flex items-center gap-3">
-                    <div className={cn("text-neutral-500", !layer.isLocked && "cursor-grab hover:text-white")} onPointerDown={(e) => { if (!layer.isLocked) { e.stopPropagation(); dragControls.start(e); } }} >
+                    <div className={cn("text-neutral-500", !layer.isLocked && "cursor-grab hover:text-white")} >
                         <DragHandleIcon className="h-5 w-5" />
                     </div>
+                    {layer.type === 'group' && (
+                        <button onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { isCollapsed: !layer.isCollapsed }, false); }} className="text-neutral-400 hover:text-white -mx-2" title={layer.isCollapsed ? 'Mở nhóm' : 'Thu gọn nhóm'}>
+                            <AccordionArrowIcon className={cn("h-5 w-5 transition-transform", layer.isCollapsed && '-rotate-90')} />
+                        </button>
+                    )}
                     <div className="w-10 h-10 flex-shrink-0">
-                        {layer.type === 'image' && layer.url ? ( <img src={layer.url} className="w-full h-full object-cover rounded-md" alt="Layer thumbnail"/>
+                        {layer.type === 'image' && layer.url ? ( <StoredImage src={layer.url} className="w-full h-full object-cover rounded-md" alt="Layer thumbnail"/>
                         ) : layer.type === 'text' ? ( <div className="w-full h-full flex items-center justify-center bg-neutral-700 rounded-md p-1 overflow-hidden" style={{ fontFamily: 'Asimovian', color: layer.color }} > <span className="text-2xl font-bold">T</span> </div>
+                        ) : layer.type === 'adjustment' ? ( <div className="w-full h-full flex items-center justify-center bg-neutral-700 rounded-md text-neutral-200"> <AdjustmentLayerIcon className="h-6 w-6" /> </div>
+                        ) : layer.type === 'group' ? ( <div className="w-full h-full flex items-center justify-center bg-neutral-700 rounded-md text-neutral-200"> <GroupIcon className="h-6 w-6" /> </div>
+                        ) : layer.type === 'shape' && layer.shapeType === 'path' ? (
+                            <svg className="w-full h-full p-1 bg-neutral-700 rounded-md" viewBox={`0 0 ${layer.width} ${layer.height}`}>
+                                <path d={getShapePathData(layer)} fill={hasFill(layer) ? layer.fillColor || '#FFFFFF' : 'none'} stroke={hasStroke(layer) ? layer.strokeColor : 'none'} strokeWidth={layer.strokeWidth} />
+                            </svg>
                         ) : layer.type === 'shape' ? (
                             <div 
                                 className="w-full h-full rounded-md"
@@ -59,7 +93,8 @@ export const LayerListItem: React.FC<LayerListItemProps> = ({
                             />
                         ) : null}
                     </div>
-                    <div className="flex-grow min-w-0"> <p className="text-sm font-bold text-white truncate">{getLayerName()}</p> <p className="text-xs text-neutral-400 capitalize"> {(layer.blendMode === 'source-over' ? 'Normal' : layer.blendMode)} </p> </div>
+                    {layer.mask && ( <StoredImage src={layer.mask.url} className={cn("w-10 h-10 flex-shrink-0 object-contain rounded-md bg-black border", layer.mask.isEnabled ? 'border-neutral-600' : 'border-red-500/70 opacity-50')} alt="Layer mask" /> )}
+                    <div className="flex-grow min-w-0"> <p className="text-sm font-bold text-white truncate">{getLayerName()}</p> <p className="text-xs text-neutral-400 capitalize"> {(layer.blendMode === 'source-over' ? 'Normal' : layer.blendMode)} {recipeStatus && ( <span className={cn("ml-1 px-1 rounded normal-case", recipeStatus === 'current' ? 'bg-neutral-700 text-neutral-300' : recipeStatus === 'stale' ? 'bg-amber-500/20 text-amber-400' : 'bg-red-500/20 text-red-400')} title={recipeStatus === 'current' ? 'Layer tạo bằng AI' : recipeStatus === 'stale' ? 'Đầu vào đã thay đổi, cần tạo lại' : 'Layer đầu vào đã bị xóa'}>AI</span> )} </p> </div>
                     <div className="flex items-center gap-2">
                         <button onClick={(e) => { e.stopPropagation(); beginInteraction(); onUpdate(layer.id, { isLocked: !layer.isLocked }, true)}} className={cn("hover:text-white p-1 rounded-full", layer.isLocked ? 'text-yellow-400' : 'text-neutral-500')} title={layer.isLocked ? 'Mở khoá Layer' : 'Khoá Layer'}>
                            {layer.isLocked ? ( <LockIcon className="h-5 w-5" /> ) : ( <UnlockIcon className="h-5 w-5" /> )}
@@ -70,6 +105,6 @@ export const LayerListItem: React.FC<LayerListItemProps> = ({
                     </div>
                 </div>
             </div>
-        </Reorder.Item>
+        </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { useAppControls, Switch } from '../uiUtils';
+import { cn } from '../../lib/utils';
+import { type Layer, type LayerMask, type MaskBrush } from './LayerComposer.types';
+
+interface LayerMaskControlsProps {
+    layer: Layer;
+    selectedLayerCount: number;
+    isEditingMask: boolean;
+    maskBrush: MaskBrush;
+    setMaskBrush: React.Dispatch<React.SetStateAction<MaskBrush>>;
+    onAddMask: (layerId: string) => void;
+    onRemoveMask: (layerId: string) => void;
+    onEditMask: (layerId: string | null) => void;
+    onCreateMaskFromSelection: () => void;
+    onUpdate: (id: string, newProps: Partial<Layer>, isFinalChange: boolean) => void;
+    beginInteraction: () => void;
+}
+
+export const LayerMaskControls: React.FC<LayerMaskControlsProps> = ({
+    layer, selectedLayerCount, isEditingMask, maskBrush, setMaskBrush,
+    onAddMask, onRemoveMask, onEditMask, onCreateMaskFromSelection, onUpdate, beginInteraction,
+}) => {
+    const { t } = useAppControls();
+    const { mask } = layer;
+
+    const updateMask = (props: Partial<LayerMask>, isFinal: boolean) => {
+        if (!mask) return;
+        onUpdate(layer.id, { mask: { ...mask, ...props } }, isFinal);
+    };
+
+    return (
+        <div className="p-3 space-y-4 text-sm">
+            {!mask ? (
+                <div className="space-y-2">
+                    <p className="text-xs text-neutral-400">{t('layerComposer_mask_none')}</p>
+                    <button onClick={() => onAddMask(layer.id)} className="btn btn-secondary btn-sm w-full">{t('layerComposer_mask_add')}</button>
+                </div>
+            ) : (
+                <>
+                    <div className="flex items-center justify-between">
+                        <label htmlFor={`mask-enabled-${layer.id}`} className="font-medium text-neutral-300">{t('layerComposer_mask_enabled')}</label>
+                        <Switch id={`mask-enabled-${layer.id}`} checked={mask.isEnabled} onChange={v => { beginInteraction(); updateMask({ isEnabled: v }, true); }} />
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <label htmlFor={`mask-invert-${layer.id}`} className="font-medium text-neutral-300">{t('layerComposer_mask_invert')}</label>
+                        <Switch id={`mask-invert-${layer.id}`} checked={mask.isInverted} onChange={v => { beginInteraction(); updateMask({ isInverted: v }, true); }} />
+                    </div>
+                    <div>
+                        <label htmlFor={`mask-feather-${layer.id}`} className="block font-medium text-neutral-300 mb-1">{t('layerComposer_mask_feather')} ({mask.feather}px)</label>
+                        <input
+                            id={`mask-feather-${layer.id}`}
+                            type="range"
+                            min="0"
+                            max="100"
+                            value={mask.feather}
+                            onMouseDown={e => { e.stopPropagation(); beginInteraction(); }}
+                            onInput={(e) => updateMask({ feather: Number((e.target as HTMLInputElement).value) }, false)}
+                            onChange={(e) => updateMask({ feather: Number((e.target as HTMLInputElement).value) }, true)}
+                            className="slider-track"
+                        />
+                    </div>
+
+                    <div className="pt-4 border-t border-neutral-700/50 space-y-3">
+                        <button
+                            onClick={() => onEditMask(isEditingMask ? null : layer.id)}
+                            className={cn('btn btn-sm w-full', isEditingMask ? 'btn-primary' : 'btn-secondary')}
+                            disabled={!layer.isVisible}
+                        >
+                            {isEditingMask ? t('layerComposer_mask_done') : t('layerComposer_mask_paint')}
+                        </button>
+                        {isEditingMask && (
+                            <>
+                                <p className="text-xs text-neutral-400">{t('layerComposer_mask_paintHint')}</p>
+                                <div className="flex gap-2">
+                                    {(['reveal', 'hide'] as MaskBrush['mode'][]).map(mode => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => setMaskBrush(b => ({ ...b, mode }))}
+                                            className={cn('btn btn-sm flex-1', maskBrush.mode === mode ? 'btn-primary' : 'btn-secondary')}
+                                        >
+                                            {t(`layerComposer_mask_${mode}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div>
+                                    <label htmlFor="mask-brush-size" className="block font-medium text-neutral-300 mb-1">{t('layerComposer_mask_brushSize')} ({maskBrush.size}px)</label>
+                                    <input
+                                        id="mask-brush-size"
+                                        type="range"
+                                        min="2"
+                                        max="400"
+                                        value={maskBrush.size}
+                                        onChange={(e) => setMaskBrush(b => ({ ...b, size: Number(e.target.value) }))}
+                                        className="slider-track"
+                                    />
+                                </div>
+                            </>
+                        )}
+                        <button onClick={() => onRemoveMask(layer.id)} className="btn btn-secondary btn-sm w-full">{t('layerComposer_mask_remove')}</button>
+                    </div>
+                </>
+            )}
+
+            {selectedLayerCount > 1 && (
+                <div className="pt-4 border-t border-neutral-700/50 space-y-2">
+                    <button onClick={onCreateMaskFromSelection} className="btn btn-secondary btn-sm w-full">{t('layerComposer_mask_fromSelection')}</button>
+                    <p className="text-xs text-neutral-500">{t('layerComposer_mask_fromSelection_desc')}</p>
+                </div>
+            )}
+        </div>
+    );
+};
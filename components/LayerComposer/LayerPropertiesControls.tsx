@@ -5,9 +5,24 @@
 import React, { useState, useEffect } from 'react';
 import { useAppControls } from '../uiUtils';
 import { type Layer, type BlendMode } from './LayerComposer.types';
+import { fitPathLayer, getGradientStops, getLayerPathNodes } from './LayerComposer.paths';
 
 const BLEND_MODES: BlendMode[] = ['source-over', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn', 'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'];
 
+const FILL_TYPES: NonNullable<Layer['fillType']>[] = ['solid', 'linear', 'radial', 'none'];
+const STROKE_DASHES: NonNullable<Layer['strokeDash']>[] = ['solid', 'dashed', 'dotted'];
+const STROKE_JOINS: NonNullable<Layer['strokeJoin']>[] = ['miter', 'round', 'bevel'];
+
+export const ColorInput: React.FC<{ id: string; label: string; value: string; onOpen: () => void; onChange: (color: string) => void }> = ({ id, label, value, onOpen, onChange }) => (
+    <div className="flex items-center justify-between">
+        <label htmlFor={id} className="text-sm font-medium text-neutral-300">{label}</label>
+        <div className="relative h-6 w-6 rounded-full border-2 border-white/20 shadow-inner">
+            <input id={id} type="color" value={value} onMouseDown={onOpen} onChange={(e) => onChange(e.target.value)} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+            <div className="w-full h-full rounded-full pointer-events-none" style={{ backgroundColor: value }}></div>
+        </div>
+    </div>
+);
+
 interface LayerPropertiesControlsProps {
     selectedLayers: Layer[];
     onUpdate: (id: string, newProps: Partial<Layer>, isFinalChange: boolean) => void;
@@ -159,20 +174,95 @@ export const LayerPropertiesControls: React.FC<LayerPropertiesControlsProps> = (
 
             {isSingleShape && (
                 <div className="pt-4 border-t border-neutral-700/50 space-y-4">
-                    <div className="flex items-center justify-between">
-                        <label htmlFor={`fill-color-${layer.id}`} className="text-sm font-medium text-neutral-300">Fill Color</label>
-                        <div className="relative h-6 w-6 rounded-full border-2 border-white/20 shadow-inner">
-                            <input
-                                id={`fill-color-${layer.id}`}
-                                type="color"
-                                value={layer.fillColor || '#FFFFFF'}
-                                onMouseDown={beginInteraction}
-                                onChange={(e) => onUpdate(layer.id, { fillColor: e.target.value }, true)}
-                                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                            />
-                            <div className="w-full h-full rounded-full pointer-events-none" style={{ backgroundColor: layer.fillColor }}></div>
+                    <div>
+                        <label htmlFor={`fill-type-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_shape_fill')}</label>
+                        <select
+                            id={`fill-type-${layer.id}`}
+                            value={layer.fillType || 'solid'}
+                            onMouseDown={beginInteraction}
+                            onChange={(e) => onUpdate(layer.id, { fillType: e.target.value as Layer['fillType'] }, true)}
+                            className="form-input !p-2 !text-sm w-full"
+                        >
+                            {FILL_TYPES.map(type => <option key={type} value={type}>{t(`layerComposer_shape_fill_${type}`)}</option>)}
+                        </select>
+                    </div>
+                    {(layer.fillType || 'solid') === 'solid' && (
+                        <ColorInput id={`fill-color-${layer.id}`} label="Fill Color" value={layer.fillColor || '#FFFFFF'} onOpen={beginInteraction} onChange={color => onUpdate(layer.id, { fillColor: color }, true)} />
+                    )}
+                    {(layer.fillType === 'linear' || layer.fillType === 'radial') && (
+                        <>
+                            {/* The gradient's first and last stops */}
+                            {[0, getGradientStops(layer).length - 1].map((index, i) => (
+                                <ColorInput
+                                    key={index}
+                                    id={`gradient-stop-${index}-${layer.id}`}
+                                    label={t(i === 0 ? 'layerComposer_shape_gradientStart' : 'layerComposer_shape_gradientEnd')}
+                                    value={getGradientStops(layer)[index].color}
+                                    onOpen={beginInteraction}
+                                    onChange={color => onUpdate(layer.id, { gradientStops: getGradientStops(layer).map((stop, j) => j === index ? { ...stop, color } : stop) }, true)}
+                                />
+                            ))}
+                            {layer.fillType === 'linear' && (
+                                <div>
+                                    <label htmlFor={`gradient-angle-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_shape_gradientAngle')} ({layer.gradientAngle || 0}°)</label>
+                                    <input
+                                        id={`gradient-angle-${layer.id}`}
+                                        type="range"
+                                        min="0"
+                                        max="359"
+                                        value={layer.gradientAngle || 0}
+                                        onMouseDown={beginInteraction}
+                                        onInput={(e) => onUpdate(layer.id, { gradientAngle: Number((e.target as HTMLInputElement).value) }, false)}
+                                        onChange={(e) => onUpdate(layer.id, { gradientAngle: Number((e.target as HTMLInputElement).value) }, true)}
+                                        className="slider-track"
+                                    />
+                                </div>
+                            )}
+                        </>
+                    )}
+                    <ColorInput id={`stroke-color-${layer.id}`} label={t('layerComposer_shape_stroke')} value={layer.strokeColor || '#000000'} onOpen={beginInteraction} onChange={color => onUpdate(layer.id, { strokeColor: color, strokeWidth: layer.strokeWidth || 4 }, true)} />
+                    <div>
+                        <label htmlFor={`stroke-width-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_shape_strokeWidth')} ({layer.strokeColor ? layer.strokeWidth || 0 : 0}px)</label>
+                        <input
+                            id={`stroke-width-${layer.id}`}
+                            type="range"
+                            min="0"
+                            max="50"
+                            value={layer.strokeColor ? layer.strokeWidth || 0 : 0}
+                            onMouseDown={beginInteraction}
+                            onInput={(e) => onUpdate(layer.id, { strokeColor: layer.strokeColor || '#000000', strokeWidth: Number((e.target as HTMLInputElement).value) }, false)}
+                            onChange={(e) => onUpdate(layer.id, { strokeColor: layer.strokeColor || '#000000', strokeWidth: Number((e.target as HTMLInputElement).value) }, true)}
+                            className="slider-track"
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3 text-sm">
+                        <div>
+                            <label htmlFor={`stroke-dash-${layer.id}`}>{t('layerComposer_shape_strokeDash')}</label>
+                            <select id={`stroke-dash-${layer.id}`} value={layer.strokeDash || 'solid'} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { strokeDash: e.target.value as Layer['strokeDash'] }, true)} className="form-input !p-1.5 !text-sm w-full">
+                                {STROKE_DASHES.map(dash => <option key={dash} value={dash}>{t(`layerComposer_shape_strokeDash_${dash}`)}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor={`stroke-join-${layer.id}`}>{t('layerComposer_shape_strokeJoin')}</label>
+                            <select id={`stroke-join-${layer.id}`} value={layer.strokeJoin || 'miter'} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { strokeJoin: e.target.value as Layer['strokeJoin'] }, true)} className="form-input !p-1.5 !text-sm w-full">
+                                {STROKE_JOINS.map(join => <option key={join} value={join}>{t(`layerComposer_shape_strokeJoin_${join}`)}</option>)}
+                            </select>
                         </div>
                     </div>
+                    {layer.shapeType === 'path' && (
+                        <>
+                            <label className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={!!layer.isPathClosed}
+                                    onChange={(e) => { beginInteraction(); onUpdate(layer.id, { ...fitPathLayer(layer, getLayerPathNodes(layer), e.target.checked), isPathClosed: e.target.checked }, true); }}
+                                    className="h-4 w-4 rounded border-neutral-500 bg-neutral-700 text-yellow-400 focus:ring-yellow-400 focus:ring-offset-neutral-800"
+                                />
+                                {t('layerComposer_shape_closePath')}
+                            </label>
+                            <p className="text-xs text-neutral-400">{t('layerComposer_shape_editAnchorsHint')}</p>
+                        </>
+                    )}
                     {layer.shapeType === 'rectangle' && (
                         <div>
                             <label htmlFor={`border-radius-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">Border Radius</label>
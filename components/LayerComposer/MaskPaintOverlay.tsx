@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { type Layer, type LayerMask, type MaskBrush, type Point } from './LayerComposer.types';
+import { loadImage } from './LayerComposer.utils';
+
+interface MaskPaintOverlayProps {
+    layer: Layer;
+    mask: Pick<LayerMask, 'url' | 'isInverted'>;
+    brush: MaskBrush;
+    zIndex: number;
+    onCommit: (layerId: string, maskUrl: string) => void;
+    tint?: string;
+}
+
+const HIDDEN_TINT = 'rgba(239, 68, 68, 0.45)';
+// An inpainting region is painted as an inverted mask, so the area marked for the AI is tinted.
+export const INPAINT_TINT = 'rgba(217, 70, 239, 0.45)';
+
+/**
+ * Sits over the layer whose mask is being edited. Strokes are painted straight into the
+ * mask; hidden areas are tinted red. The mask is saved once per stroke.
+ */
+export const MaskPaintOverlay: React.FC<MaskPaintOverlayProps> = ({ layer, mask, brush, zIndex, onCommit, tint = HIDDEN_TINT }) => {
+    const displayCanvasRef = useRef<HTMLCanvasElement>(null);
+    const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const lastPointRef = useRef<Point | null>(null);
+
+    const redraw = () => {
+        const display = displayCanvasRef.current;
+        const maskCanvas = maskCanvasRef.current;
+        const ctx = display?.getContext('2d');
+        if (!display || !maskCanvas || !ctx) return;
+        display.width = maskCanvas.width;
+        display.height = maskCanvas.height;
+        ctx.fillStyle = tint;
+        ctx.fillRect(0, 0, display.width, display.height);
+        ctx.globalCompositeOperation = mask.isInverted ? 'destination-in' : 'destination-out';
+        ctx.drawImage(maskCanvas, 0, 0);
+        ctx.globalCompositeOperation = 'source-over';
+    };
+
+    useEffect(() => {
+        if (lastPointRef.current) return;
+        let isCancelled = false;
+        loadImage(mask.url).then(img => {
+            if (isCancelled) return;
+            const canvas = maskCanvasRef.current || document.createElement('canvas');
+            canvas.width = img.naturalWidth;
+            canvas.height = img.naturalHeight;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return;
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(img, 0, 0);
+            maskCanvasRef.current = canvas;
+            redraw();
+        }).catch(err => console.error("Could not load layer mask:", err));
+        return () => { isCancelled = true; };
+    }, [mask.url, mask.isInverted]);
+
+    // offsetX/Y are in the layer's own unrotated, unscaled box.
+    const toMaskPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point | null => {
+        const canvas = maskCanvasRef.current;
+        if (!canvas) return null;
+        return {
+            x: e.nativeEvent.offsetX * canvas.width / layer.width,
+            y: e.nativeEvent.offsetY * canvas.height / layer.height,
+        };
+    };
+
+    const paintTo = (point: Point) => {
+        const canvas = maskCanvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        const from = lastPointRef.current || point;
+        // Revealing adds to a normal mask but removes from an inverted one.
+        const adds = (brush.mode === 'reveal') !== mask.isInverted;
+        ctx.save();
+        ctx.globalCompositeOperation = adds ? 'source-over' : 'destination-out';
+        ctx.strokeStyle = '#FFFFFF';
+        ctx.lineWidth = brush.size * canvas.width / layer.width;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x + 0.01, point.y);
+        ctx.stroke();
+        ctx.restore();
+        lastPointRef.current = point;
+        redraw();
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = toMaskPoint(e);
+        if (point) paintTo(point);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!lastPointRef.current) return;
+        e.stopPropagation();
+        const point = toMaskPoint(e);
+        if (point) paintTo(point);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!lastPointRef.current) return;
+        e.stopPropagation();
+        lastPointRef.current = null;
+        if (maskCanvasRef.current) onCommit(layer.id, maskCanvasRef.current.toDataURL('image/png'));
+    };
+
+    return (
+        <div
+            className="absolute"
+            style={{
+                left: layer.x,
+                top: layer.y,
+                width: layer.width,
+                height: layer.height,
+                transform: `rotate(${layer.rotation}deg)`,
+                zIndex,
+            }}
+        >
+            <canvas
+                ref={displayCanvasRef}
+                className="w-full h-full cursor-crosshair touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            />
+        </div>
+    );
+};
@@ -4,8 +4,10 @@
 */
 import React, { useState, useRef } from 'react';
 import { cn } from '../../lib/utils';
-import { useAppControls, Switch, type GenerationHistoryEntry, getInitialStateForApp } from '../uiUtils';
+import { useAppControls, Switch, type GenerationHistoryEntry, getInitialStateForApp, showErrorToast } from '../uiUtils';
 import { type Layer } from './LayerComposer.types';
+import { StoredImage } from '../StoredImage';
+import { hydrateImages } from '../../lib/imageStore';
 
 interface PresetControlsProps {
     loadedPreset: any | null;
@@ -83,13 +85,17 @@ export const PresetControls: React.FC<PresetControlsProps> = ({
                         {generationHistory.map(entry => (
                             <li
                                 key={entry.id}
-                                onClick={() => {
-                                    setLoadedPreset(entry.settings);
-                                    setShowHistoryPicker(false);
+                                onClick={async () => {
+                                    try {
+                                        setLoadedPreset(await hydrateImages(entry.settings));
+                                        setShowHistoryPicker(false);
+                                    } catch (error) {
+                                        showErrorToast(error, t);
+                                    }
                                 }}
                                 className="flex items-start gap-3 p-2 bg-neutral-900/50 rounded-lg cursor-pointer hover:bg-neutral-700/80 transition-colors"
                             >
-                                <img src={entry.thumbnailUrl} alt={`History thumbnail for ${entry.appName}`} className="w-12 h-12 object-cover rounded-md flex-shrink-0 bg-neutral-700" />
+                                <StoredImage src={entry.thumbnailUrl} alt={`History thumbnail for ${entry.appName}`} className="w-12 h-12 object-cover rounded-md flex-shrink-0 bg-neutral-700" />
                                 <div className="flex-grow min-w-0">
                                     <p className="font-bold text-sm text-yellow-400 truncate">{entry.appName}</p>
                                     <p className="text-xs text-neutral-400">{new Date(entry.timestamp).toLocaleString()}</p>
@@ -231,7 +237,7 @@ export const PresetControls: React.FC<PresetControlsProps> = ({
                         return (
                             <div key={index} className="text-sm bg-neutral-900/50 p-2 rounded-md flex items-center gap-3">
                                 {imageUrl ? (
-                                    <img src={imageUrl} alt={label} className="w-10 h-10 object-cover rounded-sm flex-shrink-0 bg-neutral-700" />
+                                    <StoredImage src={imageUrl} alt={label} className="w-10 h-10 object-cover rounded-sm flex-shrink-0 bg-neutral-700" />
                                 ) : (
                                     <div className="w-10 h-10 flex-shrink-0 bg-neutral-700 rounded-sm flex items-center justify-center text-neutral-500">
                                         <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
@@ -275,7 +281,7 @@ export const PresetControls: React.FC<PresetControlsProps> = ({
                             return (
                                 <div key={index} className="text-sm bg-neutral-900/50 p-2 rounded-md flex items-center gap-3">
                                     {imageUrl ? (
-                                        <img src={imageUrl} alt={label} className="w-10 h-10 object-cover rounded-sm flex-shrink-0 bg-neutral-700" />
+                                        <StoredImage src={imageUrl} alt={label} className="w-10 h-10 object-cover rounded-sm flex-shrink-0 bg-neutral-700" />
                                     ) : (
                                         <div className="w-10 h-10 flex-shrink-0 bg-neutral-700 rounded-sm flex items-center justify-center text-neutral-500">
                                             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
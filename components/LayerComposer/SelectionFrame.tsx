@@ -4,7 +4,8 @@
 */
 import React from 'react';
 import { motion, useTransform, type MotionValue } from 'framer-motion';
-import { type Rect, type Handle } from './LayerComposer.types';
+import { type Layer, type Rect, type Handle } from './LayerComposer.types';
+import { getLayerPathNodes, type PathNodePart } from './LayerComposer.paths';
 
 interface SelectionFrameProps {
     boundingBox: Rect;
@@ -14,9 +15,12 @@ interface SelectionFrameProps {
     onRotatePointerDown: (e: React.PointerEvent<HTMLDivElement>) => void;
     scaleMV: MotionValue<number>;
     isInteracting: boolean;
+    // A selected path layer whose anchors and handles can be dragged
+    pathLayer?: Layer | null;
+    onPathNodePointerDown?: (e: React.PointerEvent<HTMLDivElement>, index: number, part: PathNodePart) => void;
 }
 
-export const SelectionFrame: React.FC<SelectionFrameProps> = ({ boundingBox, rotation, isMultiSelect, onHandlePointerDown, onRotatePointerDown, scaleMV, isInteracting }) => {
+export const SelectionFrame: React.FC<SelectionFrameProps> = ({ boundingBox, rotation, isMultiSelect, onHandlePointerDown, onRotatePointerDown, scaleMV, isInteracting, pathLayer, onPathNodePointerDown }) => {
     const HANDLES: Handle[] = ['tl', 'tr', 'bl', 'br', 't', 'b', 'l', 'r'];
     const ROTATION_CORNERS: ('tl' | 'tr' | 'bl' | 'br')[] = ['tl', 'tr', 'bl', 'br'];
 
@@ -63,15 +67,69 @@ export const SelectionFrame: React.FC<SelectionFrameProps> = ({ boundingBox, rot
         return style;
     };
 
+    return (
+        <>
+            <motion.div
+                className="absolute pointer-events-none"
+                style={{ x: boundingBox.x, y: boundingBox.y, width: boundingBox.width, height: boundingBox.height, rotate: rotation, zIndex: 1000 }}
+                transition={isInteracting ? { duration: 0 } : { type: 'spring', stiffness: 500, damping: 50 }}
+            >
+                <motion.div className="absolute inset-0 border-dashed border-yellow-400" style={{ borderWidth }} />
+                 {!isMultiSelect && ROTATION_CORNERS.map(corner => ( <motion.div key={`${corner}-rotate`} style={getRotationHandleStyle(corner)} onPointerDown={(e) => onRotatePointerDown(e)} /> ))}
+                {HANDLES.map(handle => ( <motion.div key={handle} style={getHandleMotionStyle(handle)} onPointerDown={(e) => onHandlePointerDown(e, handle)} /> ))}
+            </motion.div>
+            {pathLayer && onPathNodePointerDown && <PathNodeHandles layer={pathLayer} scaleMV={scaleMV} onPointerDown={onPathNodePointerDown} />}
+        </>
+    );
+};
+
+// A path's anchors (squares) and bezier handles (circles) over the layer's own box, above
+// the selection frame. Handles that sit on their anchor are left out.
+const PathNodeHandles: React.FC<{
+    layer: Layer;
+    scaleMV: MotionValue<number>;
+    onPointerDown: (e: React.PointerEvent<HTMLDivElement>, index: number, part: PathNodePart) => void;
+}> = ({ layer, scaleMV, onPointerDown }) => {
+    const pointSize = useTransform(scaleMV, (s: number) => 10 / s);
+    const pointOffset = useTransform(scaleMV, (s: number) => -5 / s);
+    const pointBorderWidth = useTransform(scaleMV, (s: number) => 1.5 / s);
+    const lineWidth = useTransform(scaleMV, (s: number) => 1 / s);
+    const nodes = getLayerPathNodes(layer);
+
+    const renderPoint = (index: number, part: PathNodePart) => {
+        const point = nodes[index][part];
+        return (
+            <motion.div
+                key={`${index}-${part}`}
+                className="absolute pointer-events-auto cursor-crosshair"
+                style={{
+                    left: point.x, top: point.y, x: pointOffset, y: pointOffset,
+                    width: pointSize, height: pointSize,
+                    borderStyle: 'solid', borderColor: '#FBBF24', borderWidth: pointBorderWidth,
+                    backgroundColor: part === 'anchor' ? '#171717' : '#FBBF24',
+                    borderRadius: part === 'anchor' ? '2px' : '50%',
+                }}
+                onPointerDown={(e) => { e.stopPropagation(); onPointerDown(e, index, part); }}
+            />
+        );
+    };
+    const isOnAnchor = (index: number, part: PathNodePart) =>
+        Math.hypot(nodes[index][part].x - nodes[index].anchor.x, nodes[index][part].y - nodes[index].anchor.y) < 0.5;
+
     return (
         <motion.div
             className="absolute pointer-events-none"
-            style={{ x: boundingBox.x, y: boundingBox.y, width: boundingBox.width, height: boundingBox.height, rotate: rotation, zIndex: 1000 }}
-            transition={isInteracting ? { duration: 0 } : { type: 'spring', stiffness: 500, damping: 50 }}
+            style={{ x: layer.x, y: layer.y, width: layer.width, height: layer.height, rotate: layer.rotation, zIndex: 1001 }}
         >
-            <motion.div className="absolute inset-0 border-dashed border-yellow-400" style={{ borderWidth }} />
-             {!isMultiSelect && ROTATION_CORNERS.map(corner => ( <motion.div key={`${corner}-rotate`} style={getRotationHandleStyle(corner)} onPointerDown={(e) => onRotatePointerDown(e)} /> ))}
-            {HANDLES.map(handle => ( <motion.div key={handle} style={getHandleMotionStyle(handle)} onPointerDown={(e) => onHandlePointerDown(e, handle)} /> ))}
+            <svg className="absolute inset-0 overflow-visible" width={layer.width} height={layer.height}>
+                {nodes.flatMap((node, i) => (['inHandle', 'outHandle'] as const).filter(part => !isOnAnchor(i, part)).map(part => (
+                    <motion.line key={`${i}-${part}`} x1={node.anchor.x} y1={node.anchor.y} x2={node[part].x} y2={node[part].y} stroke="#FBBF24" style={{ strokeWidth: lineWidth }} />
+                )))}
+            </svg>
+            {nodes.flatMap((_, i) => [
+                ...(['inHandle', 'outHandle'] as const).filter(part => !isOnAnchor(i, part)).map(part => renderPoint(i, part)),
+                renderPoint(i, 'anchor'),
+            ])}
         </motion.div>
     );
 };
\ No newline at end of file
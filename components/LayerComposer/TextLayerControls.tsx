@@ -2,11 +2,14 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { type Layer } from './LayerComposer.types';
 import { useAppControls } from '../uiUtils';
 import { cn } from '../../lib/utils';
 import { BoldIcon, ItalicIcon, UppercaseIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon } from '../icons';
+import { type TextSpanStyle, adjustTextSpans, applyTextSpanStyle, clearTextSpanStyle, createTextPathNodes, getLayerTextStyle, getTextStyleAt } from './LayerComposer.text';
+import { getGradientStops } from './LayerComposer.paths';
+import { ColorInput } from './LayerPropertiesControls';
 
 interface TextLayerControlsProps {
     layer: Layer;
@@ -16,40 +19,109 @@ interface TextLayerControlsProps {
 
 const FONT_FAMILIES = [ 'Be Vietnam Pro', 'Asimovian', 'Playwrite AU SA', 'Arial', 'Verdana', 'Times New Roman', 'Courier New', 'Georgia', 'Comic Sans MS' ];
 const FONT_WEIGHTS: { label: string, value: string }[] = [ { label: 'Thin', value: '100' }, { label: 'Extra Light', value: '200' }, { label: 'Light', value: '300' }, { label: 'Normal', value: '400' }, { label: 'Medium', value: '500' }, { label: 'Semi Bold', value: '600' }, { label: 'Bold', value: '700' }, { label: 'Extra Bold', value: '800' }, { label: 'Black', value: '900' }, ];
+const FILL_TYPES: NonNullable<Layer['fillType']>[] = ['solid', 'linear', 'radial', 'none'];
+const TEXT_PATHS = ['none', 'arc', 'path'] as const;
+const DEFAULT_SHADOW: Partial<Layer> = { textShadowColor: '#000000', textShadowBlur: 8, textShadowOffsetX: 4, textShadowOffsetY: 4 };
+
+const CHECKBOX_CLASS = "h-4 w-4 rounded border-neutral-500 bg-neutral-700 text-yellow-400 focus:ring-yellow-400 focus:ring-offset-neutral-800";
 
 export const TextLayerControls: React.FC<TextLayerControlsProps> = ({ layer, onUpdate, beginInteraction }) => {
     const { t } = useAppControls();
+    // The part of the text picked in the text box. Font, weight, style and color apply to it
+    // as a span when there is one, and to the whole layer otherwise.
+    const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+    useEffect(() => setSelection(null), [layer.id]);
+
+    const text = layer.text || '';
+    const activeSelection = selection && selection.end <= text.length ? selection : null;
+    const style = activeSelection ? getTextStyleAt(layer, activeSelection.start) : getLayerTextStyle(layer);
+    const isGradient = layer.fillType === 'linear' || layer.fillType === 'radial';
+
+    const updateStyle = (props: TextSpanStyle) => {
+        if (activeSelection) {
+            onUpdate(layer.id, { textSpans: applyTextSpanStyle(layer.textSpans || [], activeSelection.start, activeSelection.end, props) }, true);
+        } else {
+            onUpdate(layer.id, props, true);
+        }
+    };
+
+    const handleTextPathChange = (value: typeof TEXT_PATHS[number]) => {
+        beginInteraction();
+        if (value === 'none') onUpdate(layer.id, { textPath: undefined }, true);
+        else if (value === 'arc') onUpdate(layer.id, { textPath: 'arc' }, true);
+        // A custom path starts out where the text runs now.
+        else onUpdate(layer.id, { textPath: 'path', pathNodes: (layer.pathNodes?.length || 0) >= 2 ? layer.pathNodes : createTextPathNodes(layer) }, true);
+    };
+
+    const renderSlider = (id: string, label: string, value: number, min: number, max: number, toProps: (value: number) => Partial<Layer>) => (
+        <div>
+            <label htmlFor={`${id}-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{label} ({value})</label>
+            <input
+                id={`${id}-${layer.id}`}
+                type="range"
+                min={min}
+                max={max}
+                value={value}
+                onMouseDown={beginInteraction}
+                onInput={(e) => onUpdate(layer.id, toProps(Number((e.target as HTMLInputElement).value)), false)}
+                onChange={(e) => onUpdate(layer.id, toProps(Number((e.target as HTMLInputElement).value)), true)}
+                className="slider-track"
+            />
+        </div>
+    );
 
     return (
         <div className="p-3 space-y-4">
             <div>
                 <label htmlFor={`text-content-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_textControls_content')}</label>
-                <textarea id={`text-content-${layer.id}`} value={layer.text || ''} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { text: e.target.value }, true)} className="form-input !p-2 !text-sm" rows={3} />
+                <textarea
+                    id={`text-content-${layer.id}`}
+                    value={text}
+                    onMouseDown={beginInteraction}
+                    onChange={(e) => onUpdate(layer.id, { text: e.target.value, textSpans: adjustTextSpans(layer.textSpans || [], text, e.target.value) }, true)}
+                    onSelect={(e) => {
+                        const { selectionStart, selectionEnd } = e.currentTarget;
+                        setSelection(selectionEnd > selectionStart ? { start: selectionStart, end: selectionEnd } : null);
+                    }}
+                    className="form-input !p-2 !text-sm"
+                    rows={3}
+                />
+                <div className="flex items-center justify-between gap-2 mt-1 text-xs text-neutral-400">
+                    <span>{activeSelection ? t('layerComposer_textControls_selection', activeSelection.end - activeSelection.start) : t('layerComposer_textControls_selectionHint')}</span>
+                    {activeSelection && (
+                        <button
+                            onClick={() => { beginInteraction(); onUpdate(layer.id, { textSpans: clearTextSpanStyle(layer.textSpans || [], activeSelection.start, activeSelection.end) }, true); }}
+                            className="flex-shrink-0 text-yellow-400 hover:underline"
+                        >
+                            {t('layerComposer_textControls_clearStyle')}
+                        </button>
+                    )}
+                </div>
             </div>
             <div>
                 <label htmlFor={`font-family-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_textControls_fontFamily')}</label>
-                <select id={`font-family-${layer.id}`} value={layer.fontFamily} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { fontFamily: e.target.value }, true)} className="form-input !p-2 !text-sm" >
+                <select id={`font-family-${layer.id}`} value={style.fontFamily} onMouseDown={beginInteraction} onChange={(e) => updateStyle({ fontFamily: e.target.value })} className="form-input !p-2 !text-sm" >
                     {FONT_FAMILIES.map(font => <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>)}
                 </select>
             </div>
             <div className="grid grid-cols-2 gap-3">
                 <div>
                     <label htmlFor={`font-size-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_textControls_fontSize')}</label>
-                    <input id={`font-size-${layer.id}`} type="number" min="1" value={layer.fontSize} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { fontSize: Number(e.target.value) }, true)} className="form-input !p-2 !text-sm" />
+                    <input id={`font-size-${layer.id}`} type="number" min="1" value={style.fontSize} onMouseDown={beginInteraction} onChange={(e) => updateStyle({ fontSize: Number(e.target.value) })} className="form-input !p-2 !text-sm" />
                 </div>
                  <div>
                     <label htmlFor={`font-weight-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_textControls_fontWeight')}</label>
-                    <select id={`font-weight-${layer.id}`} value={layer.fontWeight} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { fontWeight: e.target.value }, true)} className="form-input !p-2 !text-sm" >
+                    <select id={`font-weight-${layer.id}`} value={style.fontWeight} onMouseDown={beginInteraction} onChange={(e) => updateStyle({ fontWeight: e.target.value })} className="form-input !p-2 !text-sm" >
                         {FONT_WEIGHTS.map(weight => <option key={weight.value} value={weight.value}>{weight.label}</option>)}
                     </select>
                 </div>
             </div>
             <div className="flex items-center justify-between gap-4 pt-2">
                 <div className="flex items-center gap-1 bg-neutral-700/50 p-1 rounded-md">
-                    <button onClick={() => { beginInteraction(); onUpdate(layer.id, { fontWeight: layer.fontWeight === '700' ? '400' : '700' }, true); }} className={cn("p-1.5 rounded", layer.fontWeight === '700' ? 'bg-yellow-400 text-black' : 'hover:bg-neutral-600')} title={t('layerComposer_textControls_bold')}>
+                    <button onClick={() => { beginInteraction(); updateStyle({ fontWeight: style.fontWeight === '700' ? '400' : '700' }); }} className={cn("p-1.5 rounded", style.fontWeight === '700' ? 'bg-yellow-400 text-black' : 'hover:bg-neutral-600')} title={t('layerComposer_textControls_bold')}>
                         <BoldIcon className="h-4 w-4" />
                     </button>
-                    <button onClick={() => { beginInteraction(); onUpdate(layer.id, { fontStyle: layer.fontStyle === 'italic' ? 'normal' : 'italic' }, true); }} className={cn("p-1.5 rounded", layer.fontStyle === 'italic' ? 'bg-yellow-400 text-black' : 'hover:bg-neutral-600')} title={t('layerComposer_textControls_italic')}>
+                    <button onClick={() => { beginInteraction(); updateStyle({ fontStyle: style.fontStyle === 'italic' ? 'normal' : 'italic' }); }} className={cn("p-1.5 rounded", style.fontStyle === 'italic' ? 'bg-yellow-400 text-black' : 'hover:bg-neutral-600')} title={t('layerComposer_textControls_italic')}>
                         <ItalicIcon className="h-4 w-4" />
                     </button>
                     <button onClick={() => { beginInteraction(); onUpdate(layer.id, { textTransform: layer.textTransform === 'uppercase' ? 'none' : 'uppercase' }, true); }} className={cn("p-1.5 rounded", layer.textTransform === 'uppercase' ? 'bg-yellow-400 text-black' : 'hover:bg-neutral-600')} title={t('layerComposer_textControls_uppercase')}>
@@ -64,11 +136,73 @@ export const TextLayerControls: React.FC<TextLayerControlsProps> = ({ layer, onU
                 <div className="flex items-center gap-2">
                     <label htmlFor={`color-${layer.id}`} className="text-sm font-medium text-neutral-300 sr-only">{t('layerComposer_textControls_color')}</label>
                     <div className="relative h-6 w-6 rounded-full border-2 border-white/20 shadow-inner">
-                        <input id={`color-${layer.id}`} type="color" value={layer.color} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { color: e.target.value }, true)} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
-                        <div className="w-full h-full rounded-full pointer-events-none" style={{ backgroundColor: layer.color }}></div>
+                        <input id={`color-${layer.id}`} type="color" value={style.color} onMouseDown={beginInteraction} onChange={(e) => updateStyle({ color: e.target.value })} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                        <div className="w-full h-full rounded-full pointer-events-none" style={{ backgroundColor: style.color }}></div>
                     </div>
                 </div>
             </div>
+
+            <div className="pt-4 border-t border-neutral-700/50 space-y-3">
+                {renderSlider('letter-spacing', t('layerComposer_textControls_letterSpacing'), layer.letterSpacing || 0, -20, 100, value => ({ letterSpacing: value }))}
+                <label className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                    <input type="checkbox" checked={!!layer.isVerticalText} disabled={!!layer.textPath} onChange={(e) => { beginInteraction(); onUpdate(layer.id, { isVerticalText: e.target.checked }, true); }} className={CHECKBOX_CLASS} />
+                    {t('layerComposer_textControls_vertical')}
+                </label>
+                <div>
+                    <label htmlFor={`text-path-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_textControls_path')}</label>
+                    <select id={`text-path-${layer.id}`} value={layer.textPath || 'none'} onChange={(e) => handleTextPathChange(e.target.value as typeof TEXT_PATHS[number])} className="form-input !p-2 !text-sm w-full">
+                        {TEXT_PATHS.map(path => <option key={path} value={path}>{t(`layerComposer_textControls_path_${path}`)}</option>)}
+                    </select>
+                </div>
+                {layer.textPath === 'arc' && renderSlider('text-arc', t('layerComposer_textControls_arcBend'), layer.textArc || 0, -100, 100, value => ({ textArc: value }))}
+                {layer.textPath === 'path' && <p className="text-xs text-neutral-400">{t('layerComposer_shape_editAnchorsHint')}</p>}
+            </div>
+
+            <div className="pt-4 border-t border-neutral-700/50 space-y-3">
+                <div>
+                    <label htmlFor={`text-fill-type-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_shape_fill')}</label>
+                    <select id={`text-fill-type-${layer.id}`} value={layer.fillType || 'solid'} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { fillType: e.target.value as Layer['fillType'] }, true)} className="form-input !p-2 !text-sm w-full">
+                        {FILL_TYPES.map(type => <option key={type} value={type}>{t(`layerComposer_shape_fill_${type}`)}</option>)}
+                    </select>
+                </div>
+                {isGradient && (
+                    <>
+                        {[0, getGradientStops(layer).length - 1].map((index, i) => (
+                            <ColorInput
+                                key={index}
+                                id={`text-gradient-stop-${index}-${layer.id}`}
+                                label={t(i === 0 ? 'layerComposer_shape_gradientStart' : 'layerComposer_shape_gradientEnd')}
+                                value={getGradientStops(layer)[index].color}
+                                onOpen={beginInteraction}
+                                onChange={color => onUpdate(layer.id, { gradientStops: getGradientStops(layer).map((stop, j) => j === index ? { ...stop, color } : stop) }, true)}
+                            />
+                        ))}
+                        {layer.fillType === 'linear' && renderSlider('text-gradient-angle', t('layerComposer_shape_gradientAngle'), layer.gradientAngle || 0, 0, 359, value => ({ gradientAngle: value }))}
+                    </>
+                )}
+                <ColorInput id={`text-stroke-color-${layer.id}`} label={t('layerComposer_textControls_stroke')} value={layer.textStrokeColor || '#000000'} onOpen={beginInteraction} onChange={color => onUpdate(layer.id, { textStrokeColor: color, textStrokeWidth: layer.textStrokeWidth || 2 }, true)} />
+                {renderSlider('text-stroke-width', t('layerComposer_textControls_strokeWidth'), layer.textStrokeColor ? layer.textStrokeWidth || 0 : 0, 0, 20, value => ({ textStrokeColor: layer.textStrokeColor || '#000000', textStrokeWidth: value }))}
+            </div>
+
+            <div className="pt-4 border-t border-neutral-700/50 space-y-3">
+                <label className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={!!layer.textShadowColor}
+                        onChange={(e) => { beginInteraction(); onUpdate(layer.id, e.target.checked ? DEFAULT_SHADOW : { textShadowColor: undefined }, true); }}
+                        className={CHECKBOX_CLASS}
+                    />
+                    {t('layerComposer_textControls_shadow')}
+                </label>
+                {layer.textShadowColor && (
+                    <>
+                        <ColorInput id={`text-shadow-color-${layer.id}`} label={t('layerComposer_textControls_shadowColor')} value={layer.textShadowColor} onOpen={beginInteraction} onChange={color => onUpdate(layer.id, { textShadowColor: color }, true)} />
+                        {renderSlider('text-shadow-blur', t('layerComposer_textControls_shadowBlur'), layer.textShadowBlur || 0, 0, 50, value => ({ textShadowBlur: value }))}
+                        {renderSlider('text-shadow-x', t('layerComposer_textControls_shadowOffsetX'), layer.textShadowOffsetX || 0, -50, 50, value => ({ textShadowOffsetX: value }))}
+                        {renderSlider('text-shadow-y', t('layerComposer_textControls_shadowOffsetY'), layer.textShadowOffsetY || 0, -50, 50, value => ({ textShadowOffsetY: value }))}
+                    </>
+                )}
+            </div>
         </div>
     );
 };
\ No newline at end of file
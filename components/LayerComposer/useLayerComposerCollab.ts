@@ -0,0 +1,376 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { type CanvasSettings, type Layer, type Point } from './LayerComposer.types';
+import {
+    applyCollabOps,
+    commitCollabLayers,
+    commitCollabSettings,
+    createCollabDocument,
+    getCollabSnapshot,
+    getPresenceColor,
+    isOwnCollabWrite,
+    mergeCollabSnapshot,
+    readCollabLayers,
+    readCollabSettings,
+    replayLayerChanges,
+    type CollabDocument,
+    type CollabMessage,
+    type CollabPresence,
+} from './LayerComposer.collab';
+import { connectWebSocketTransport, type CollabTransport, type CollabTransportEvent } from '../../lib/collab';
+import { collectImageRefs, dehydrateImages, hasImage, isImageRef, resolveImageDataUrl, storeImage } from '../../lib/imageStore';
+
+// Keeps the composer's layers and canvas settings in a shared document while in a room.
+// Local changes are diffed into the document after each render and sent; remote writes
+// are merged into the document and read back, on top of any local change not sent yet.
+// Layer images are sent as image store references. Remote writes are merged once the
+// images they show have been fetched from their sender into the local image store.
+
+export type CollabStatus = 'offline' | 'connecting' | 'syncing' | 'online';
+
+export interface CollabPeer extends CollabPresence {
+    id: string;
+}
+
+// An image asked of another peer, put together from its chunks as they come in.
+interface ImageRequest {
+    from: string;
+    chunks: string[];
+    received: number;
+    finished: Promise<void>;
+    finish: () => void;
+}
+
+interface CollabSession {
+    transport: CollabTransport;
+    doc: CollabDocument;
+    // Whether the document holds the room's canvas yet. Until then nothing local is sent.
+    isSynced: boolean;
+    // The peers in the room, to ask another for the canvas if the first one leaves.
+    members: Set<string>;
+    // The layers and settings the document last matched.
+    layers: Layer[];
+    settings: CanvasSettings;
+    // Messages go out one after another, each once its images are in the store.
+    outgoing: Promise<void>;
+    // Images asked for and not received yet, by reference.
+    imageRequests: Map<string, ImageRequest>;
+    unsubscribe: () => void;
+}
+
+// Cursor moves are sent at most this often.
+const CURSOR_INTERVAL_MS = 50;
+// Images are sent as data URL chunks of this many characters, well under the relay's
+// message limit.
+const IMAGE_CHUNK_CHARS = 512 * 1024;
+const MAX_IMAGE_CHUNKS = 128;
+// A requested image that hasn't arrived by then is given up on; its layer shows empty.
+const IMAGE_REQUEST_TIMEOUT_MS = 60_000;
+
+interface UseLayerComposerCollabOptions {
+    layers: Layer[];
+    setLayers: React.Dispatch<React.SetStateAction<Layer[]>>;
+    canvasSettings: CanvasSettings;
+    setCanvasSettings: React.Dispatch<React.SetStateAction<CanvasSettings>>;
+    selectedLayerIds: string[];
+    // Called when joining a room replaced the local canvas with the room's.
+    onCanvasReplaced: (layers: Layer[]) => void;
+    onDisconnected: () => void;
+}
+
+export const useLayerComposerCollab = ({
+    layers, setLayers, canvasSettings, setCanvasSettings, selectedLayerIds, onCanvasReplaced, onDisconnected,
+}: UseLayerComposerCollabOptions) => {
+    const [status, setStatus] = useState<CollabStatus>('offline');
+    const [roomId, setRoomId] = useState<string | null>(null);
+    const [peers, setPeers] = useState<CollabPeer[]>([]);
+    const sessionRef = useRef<CollabSession | null>(null);
+    const presenceRef = useRef<CollabPresence>({ name: '', color: '', cursor: null, selection: [] });
+    const cursorTimerRef = useRef<number | null>(null);
+    const latestRef = useRef({ layers, canvasSettings, selectedLayerIds, onCanvasReplaced, onDisconnected });
+
+    useEffect(() => {
+        latestRef.current = { layers, canvasSettings, selectedLayerIds, onCanvasReplaced, onDisconnected };
+    }, [layers, canvasSettings, selectedLayerIds, onCanvasReplaced, onDisconnected]);
+
+    // Image data URLs in the message are stored and sent as their references.
+    const send = (session: CollabSession, message: CollabMessage, to?: string) => {
+        session.outgoing = session.outgoing
+            .then(async () => session.transport.send(await dehydrateImages(message), to))
+            .catch(error => console.warn("Could not send a collaboration message:", error));
+    };
+
+    const sendImage = (session: CollabSession, ref: string, to: string) => {
+        session.outgoing = session.outgoing.then(async () => {
+            const dataUrl = await resolveImageDataUrl(ref).catch(() => null);
+            if (!dataUrl) {
+                session.transport.send({ type: 'image-missing', ref } satisfies CollabMessage, to);
+                return;
+            }
+            const count = Math.ceil(dataUrl.length / IMAGE_CHUNK_CHARS);
+            for (let index = 0; index < count; index++) {
+                const data = dataUrl.slice(index * IMAGE_CHUNK_CHARS, (index + 1) * IMAGE_CHUNK_CHARS);
+                session.transport.send({ type: 'image-chunk', ref, index, count, data } satisfies CollabMessage, to);
+            }
+        }).catch(error => console.warn("Could not send an image to a collaborator:", error));
+    };
+
+    const endImageRequest = (session: CollabSession, ref: string) => {
+        const request = session.imageRequests.get(ref);
+        if (!request) return;
+        session.imageRequests.delete(ref);
+        request.finish();
+    };
+
+    const requestImage = (session: CollabSession, ref: string, from: string): Promise<void> => {
+        const existing = session.imageRequests.get(ref);
+        if (existing) return existing.finished;
+        let resolve = () => {};
+        const finished = new Promise<void>(r => { resolve = r; });
+        const timer = window.setTimeout(() => endImageRequest(session, ref), IMAGE_REQUEST_TIMEOUT_MS);
+        session.imageRequests.set(ref, {
+            from, chunks: [], received: 0, finished,
+            finish: () => { window.clearTimeout(timer); resolve(); },
+        });
+        return finished;
+    };
+
+    // Resolves once every image `value` refers to is in the store, or has been given up on.
+    const fetchImages = async (session: CollabSession, value: unknown, from: string) => {
+        const refs = collectImageRefs(value);
+        const isPresent = await Promise.all(refs.map(hasImage));
+        const missing = refs.filter((_, i) => !isPresent[i]);
+        const toRequest = missing.filter(ref => !session.imageRequests.has(ref));
+        const arrivals = missing.map(ref => requestImage(session, ref, from));
+        if (toRequest.length > 0) send(session, { type: 'image-request', refs: toRequest }, from);
+        await Promise.all(arrivals);
+    };
+
+    const receiveImageChunk = (session: CollabSession, { ref, index, count, data }: Extract<CollabMessage, { type: 'image-chunk' }>) => {
+        const request = session.imageRequests.get(ref);
+        if (!request || typeof data !== 'string' || !Number.isInteger(index) || !Number.isInteger(count)
+            || count > MAX_IMAGE_CHUNKS || index < 0 || index >= count || request.chunks[index] !== undefined) return;
+        request.chunks[index] = data;
+        request.received++;
+        if (request.received < count) return;
+        const dataUrl = request.chunks.join('');
+        // Only image data goes in the store. It names images by the hash of their bytes, so
+        // data sent under the wrong reference doesn't take that reference's place.
+        const stored = dataUrl.startsWith('data:image/') ? storeImage(dataUrl) : Promise.reject(new Error('Not an image data URL.'));
+        stored
+            .then(storedRef => { if (storedRef !== ref) console.warn(`A collaborator sent other data for image ${ref}.`); })
+            .catch(error => console.warn("Could not store an image from a collaborator:", error))
+            .finally(() => endImageRequest(session, ref));
+    };
+
+    const sendPresence = useCallback((to?: string) => {
+        const session = sessionRef.current;
+        if (session) send(session, { type: 'presence', presence: presenceRef.current }, to);
+    }, []);
+
+    const endSession = useCallback(() => {
+        const session = sessionRef.current;
+        if (!session) return;
+        sessionRef.current = null;
+        session.unsubscribe();
+        [...session.imageRequests.keys()].forEach(ref => endImageRequest(session, ref));
+        session.transport.close();
+        if (cursorTimerRef.current) window.clearTimeout(cursorTimerRef.current);
+        cursorTimerRef.current = null;
+        setPeers([]);
+        setRoomId(null);
+        setStatus('offline');
+    }, []);
+
+    // The first peer in a room starts it from their own canvas.
+    const startFromLocal = (session: CollabSession) => {
+        const { layers: localLayers, canvasSettings: localSettings } = latestRef.current;
+        const ops = [...commitCollabLayers(session.doc, localLayers, []), ...commitCollabSettings(session.doc, localSettings)];
+        session.layers = localLayers;
+        session.settings = localSettings;
+        session.isSynced = true;
+        if (ops.length > 0) send(session, { type: 'ops', ops });
+        setStatus('online');
+    };
+
+    // Reads remote writes back from the document. Local changes made since it last matched
+    // are replayed on top; they are committed after the next render.
+    const refreshFromDocument = (session: CollabSession) => {
+        const baseLayers = session.layers;
+        const viewLayers = readCollabLayers(session.doc, baseLayers);
+        if (viewLayers !== baseLayers) {
+            session.layers = viewLayers;
+            setLayers(prev => prev === baseLayers ? viewLayers : replayLayerChanges(viewLayers, baseLayers, prev, () => true));
+        }
+        const baseSettings = session.settings;
+        const viewSettings = readCollabSettings(session.doc, baseSettings);
+        if (viewSettings !== baseSettings) {
+            session.settings = viewSettings;
+            setCanvasSettings(prev => {
+                if (prev === baseSettings) return viewSettings;
+                const next = { ...viewSettings };
+                (Object.keys(prev) as (keyof CanvasSettings)[]).forEach(key => {
+                    if (prev[key] !== baseSettings[key]) (next as Record<string, unknown>)[key] = prev[key];
+                });
+                return next;
+            });
+        }
+    };
+
+    const requestCanvas = (session: CollabSession) => {
+        const [peer] = session.members;
+        if (peer) send(session, { type: 'state-request' }, peer);
+        else startFromLocal(session);
+    };
+
+    const handleEvent = (session: CollabSession, event: CollabTransportEvent) => {
+        if (sessionRef.current !== session) return;
+        switch (event.type) {
+            case 'peer-joined':
+                session.members.add(event.peerId);
+                sendPresence(event.peerId);
+                return;
+            case 'peer-left':
+                session.members.delete(event.peerId);
+                session.imageRequests.forEach((request, ref) => { if (request.from === event.peerId) endImageRequest(session, ref); });
+                setPeers(prev => prev.filter(p => p.id !== event.peerId));
+                if (!session.isSynced) requestCanvas(session);
+                return;
+            case 'closed':
+                endSession();
+                latestRef.current.onDisconnected();
+                return;
+        }
+
+        const message = event.data as CollabMessage;
+        switch (message?.type) {
+            case 'ops':
+            case 'state':
+                // Merging is order-free, so holding a message back until its images are here is safe.
+                fetchImages(session, message, event.from).then(() => {
+                    if (sessionRef.current === session) applyRemoteWrites(session, message);
+                });
+                break;
+            case 'state-request':
+                if (session.isSynced) send(session, { type: 'state', snapshot: getCollabSnapshot(session.doc) }, event.from);
+                break;
+            case 'image-request':
+                if (Array.isArray(message.refs)) message.refs.filter(isImageRef).forEach(ref => sendImage(session, ref, event.from));
+                break;
+            case 'image-chunk':
+                receiveImageChunk(session, message);
+                break;
+            case 'image-missing':
+                endImageRequest(session, message.ref);
+                break;
+            case 'presence':
+                setPeers(prev => {
+                    const peer: CollabPeer = { ...message.presence, id: event.from };
+                    return prev.some(p => p.id === event.from) ? prev.map(p => p.id === event.from ? peer : p) : [...prev, peer];
+                });
+                break;
+        }
+    };
+
+    const applyRemoteWrites = (session: CollabSession, message: Extract<CollabMessage, { type: 'ops' | 'state' }>) => {
+        switch (message.type) {
+            case 'ops':
+                // Writes that come before the room's canvas still count: merging is order-free.
+                applyCollabOps(session.doc, message.ops);
+                if (session.isSynced) refreshFromDocument(session);
+                break;
+            case 'state': {
+                mergeCollabSnapshot(session.doc, message.snapshot);
+                if (session.isSynced) {
+                    refreshFromDocument(session);
+                    break;
+                }
+                const roomLayers = readCollabLayers(session.doc, []);
+                const roomSettings = readCollabSettings(session.doc, latestRef.current.canvasSettings);
+                session.layers = roomLayers;
+                session.settings = roomSettings;
+                session.isSynced = true;
+                setLayers(roomLayers);
+                setCanvasSettings(roomSettings);
+                latestRef.current.onCanvasReplaced(roomLayers);
+                setStatus('online');
+                break;
+            }
+        }
+    };
+
+    /**
+     * Joins a room through the relay. In an empty room the current canvas becomes the
+     * shared one; otherwise it is replaced by the room's.
+     */
+    const joinRoom = useCallback(async (room: string, name: string) => {
+        if (sessionRef.current) return;
+        setStatus('connecting');
+        const transport = await connectWebSocketTransport(room).catch(error => {
+            setStatus('offline');
+            throw error;
+        });
+        const session: CollabSession = {
+            transport,
+            doc: createCollabDocument(transport.peerId),
+            isSynced: false,
+            members: new Set(transport.peers),
+            layers: [],
+            settings: latestRef.current.canvasSettings,
+            outgoing: Promise.resolve(),
+            imageRequests: new Map(),
+            unsubscribe: () => {},
+        };
+        sessionRef.current = session;
+        presenceRef.current = { name, color: getPresenceColor(transport.peerId), cursor: null, selection: latestRef.current.selectedLayerIds };
+        session.unsubscribe = transport.subscribe(event => handleEvent(session, event));
+        setRoomId(room);
+        setStatus('syncing');
+        requestCanvas(session);
+        sendPresence();
+    }, [sendPresence]);
+
+    useEffect(() => endSession, [endSession]);
+
+    useEffect(() => {
+        const session = sessionRef.current;
+        if (!session?.isSynced) return;
+        const ops = [...commitCollabLayers(session.doc, layers, session.layers), ...commitCollabSettings(session.doc, canvasSettings)];
+        session.layers = layers;
+        session.settings = canvasSettings;
+        if (ops.length > 0) send(session, { type: 'ops', ops });
+    }, [layers, canvasSettings]);
+
+    useEffect(() => {
+        presenceRef.current = { ...presenceRef.current, selection: selectedLayerIds };
+        sendPresence();
+    }, [selectedLayerIds, sendPresence]);
+
+    const updateCursor = useCallback((cursor: Point | null) => {
+        presenceRef.current = { ...presenceRef.current, cursor };
+        if (cursorTimerRef.current || !sessionRef.current) return;
+        cursorTimerRef.current = window.setTimeout(() => {
+            cursorTimerRef.current = null;
+            sendPresence();
+        }, CURSOR_INTERVAL_MS);
+    }, [sendPresence]);
+
+    /**
+     * What undoing (or redoing) the step from `from` to `to` makes of `current` in a room:
+     * only the writes this user made and nobody has overwritten since are taken back.
+     * Null outside a room, where the history step applies as it is.
+     */
+    const getSharedHistoryStep = useCallback((current: Layer[], from: Layer[], to: Layer[]): Layer[] | null => {
+        const session = sessionRef.current;
+        if (!session?.isSynced) return null;
+        return replayLayerChanges(current, from, to, (layerId, key) => isOwnCollabWrite(session.doc, layerId, key));
+    }, []);
+
+    return {
+        collabStatus: status, collabRoomId: roomId, collabPeers: peers, collabSelfColor: presenceRef.current.color,
+        onJoinCollabRoom: joinRoom, onLeaveCollabRoom: endSession, onCollabCursorMove: updateCursor, getSharedHistoryStep,
+    };
+};
@@ -4,197 +4,29 @@
 */
 import React, { useState, useRef, useEffect, useCallback, useMemo, ChangeEvent } from 'react';
 import { useMotionValue, useMotionValueEvent } from 'framer-motion';
-import { useAppControls, downloadImage, downloadJson, useImageEditor, extractJsonFromPng } from "../uiUtils";
+import { useAppControls, downloadImage, downloadBlob, downloadJson, downloadAllImagesAsZip, useImageEditor, extractJsonFromPng, getErrorMessage, type ImageForZip } from "../uiUtils";
 import { 
-    generateFromPreset, 
-    editImageWithPrompt, 
-    generateFromMultipleImages, 
-    refineArchitecturePrompt, 
-    generateFreeImage,
-    refineImageAndPrompt
+    inpaintImage,
+    ModelError
 } from '../../services/geminiService';
-import { type Layer, type CanvasSettings, type Interaction, type Rect, type MultiLayerAction, getBoundingBoxForLayers, type CanvasTool, type AIPreset } from './LayerComposer.types';
+import { type Layer, type Artboard, type ArtboardExportFormat, type VectorExportFormat, type CanvasSettings, type Interaction, type Rect, type MultiLayerAction, getBoundingBoxForLayers, type CanvasTool, type AIPreset, type MaskBrush, type GenerationRecipe } from './LayerComposer.types';
+import { captureCanvas, captureLayer, createLayerMask, createMaskFromLayers, loadImage, DEFAULT_LAYER_ADJUSTMENTS } from './LayerComposer.utils';
+import { applyLayerUpdates, duplicateLayers, getLayersWithDescendants, groupLayers, moveLayersWithinParents, normalizeLayerTree, pruneNestedLayers, ungroupLayer } from './LayerComposer.hierarchy';
+import { CANVAS_SCHEMA_VERSION, migrateCanvasState } from './LayerComposer.schema';
+import { captureArtboard, createArtboard } from './LayerComposer.artboards';
+import { downloadVectorPages, type VectorPage } from './LayerComposer.vector';
+import { exportOra, importOra } from './LayerComposer.ora';
+import { createFillEmptyJob, createInpaintJob, createMarkedImage, createOutpaintJob, extractRepaintedRegion, type OutpaintPadding, type RepaintJob } from './LayerComposer.inpaint';
+import { importPsd } from './LayerComposer.psd';
+import { generateFromRecipe, getGenerationInputs, getRecipeStatuses, getStaleLayersInOrder, rerunRecipe, resolvePresetPrompt } from './LayerComposer.recipes';
+import { useLayerComposerCollab } from './useLayerComposerCollab';
 import { type GenerationHistoryEntry } from '../uiTypes';
 import { type AILogMessage } from './AIProcessLogger';
 import { useDebounce } from '../uiHooks';
-import * as db from '../../lib/db';
+import { CANVAS_DOCUMENT, clearDocumentWithImages, hydrateImages, loadDocumentWithImages, saveDocumentWithImages } from '../../lib/imageStore';
 
 // --- Utility Functions ---
 
-const wrapText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
-    const words = text.split(' ');
-    let line = '';
-    for (let n = 0; n < words.length; n++) {
-        const testLine = line + words[n] + ' ';
-        const metrics = ctx.measureText(testLine);
-        const testWidth = metrics.width;
-        if (testWidth > maxWidth && n > 0) {
-            ctx.fillText(line, x, y);
-            line = words[n] + ' ';
-            y += lineHeight;
-        } else {
-            line = testLine;
-        }
-    }
-    ctx.fillText(line, x, y);
-};
-
-const captureCanvas = async (
-    layersToCapture: Layer[],
-    boundsToCapture: Rect,
-    backgroundColor: string | null
-): Promise<string> => {
-    const canvas = document.createElement('canvas');
-    canvas.width = boundsToCapture.width;
-    canvas.height = boundsToCapture.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error("Could not create canvas context for capture");
-
-    if (backgroundColor) {
-        ctx.fillStyle = backgroundColor;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-    } else {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-    }
-
-    const imagesToLoad = layersToCapture.filter(l => l.type === 'image' && l.url);
-    const imageElements = await Promise.all(imagesToLoad.map(l => {
-        return new Promise<HTMLImageElement>((resolve, reject) => {
-            const img = new Image();
-            img.crossOrigin = 'Anonymous';
-            img.onload = () => resolve(img);
-            img.onerror = reject;
-            img.src = l.url!;
-        });
-    }));
-    const imageMap = new Map(imagesToLoad.map((l, i) => [l.id, imageElements[i]]));
-
-    for (let i = layersToCapture.length - 1; i >= 0; i--) {
-        const layer = layersToCapture[i];
-        if (!layer.isVisible) continue;
-        const drawX = layer.x - boundsToCapture.x;
-        const drawY = layer.y - boundsToCapture.y;
-
-        ctx.save();
-        ctx.globalAlpha = layer.opacity / 100;
-        ctx.globalCompositeOperation = layer.blendMode;
-        ctx.translate(drawX + layer.width / 2, drawY + layer.height / 2);
-        ctx.rotate(layer.rotation * Math.PI / 180);
-        ctx.translate(-layer.width / 2, -layer.height / 2);
-
-        if (layer.type === 'text' && layer.text) {
-            ctx.font = `${layer.fontStyle || 'normal'} ${layer.fontWeight || '400'} ${layer.fontSize || 50}px "${layer.fontFamily || 'Be Vietnam Pro'}"`;
-            ctx.fillStyle = layer.color || '#000000';
-            ctx.textBaseline = 'top';
-            let startX = 0;
-            if (layer.textAlign === 'center') { ctx.textAlign = 'center'; startX = layer.width / 2; }
-            else if (layer.textAlign === 'right') { ctx.textAlign = 'right'; startX = layer.width; }
-            else { ctx.textAlign = 'left'; }
-            const lineHeight = (layer.fontSize || 50) * (layer.lineHeight || 1.2);
-            const textToRender = layer.textTransform === 'uppercase' ? (layer.text || '').toUpperCase() : (layer.text || '');
-            wrapText(ctx, textToRender, startX, 0, layer.width, lineHeight);
-        } else if (layer.type === 'image') {
-            const loadedImage = imageMap.get(layer.id);
-            if (loadedImage) {
-                ctx.drawImage(loadedImage, 0, 0, layer.width, layer.height);
-            }
-        } else if (layer.type === 'shape') {
-            ctx.fillStyle = layer.fillColor || '#FFFFFF';
-            if (layer.shapeType === 'ellipse') {
-                ctx.beginPath();
-                ctx.ellipse(layer.width / 2, layer.height / 2, layer.width / 2, layer.height / 2, 0, 0, 2 * Math.PI);
-                ctx.fill();
-            } else { // rectangle
-                ctx.beginPath();
-                const r = layer.borderRadius || 0;
-                ctx.moveTo(r, 0);
-                ctx.lineTo(layer.width - r, 0);
-                ctx.arcTo(layer.width, 0, layer.width, r, r);
-                ctx.lineTo(layer.width, layer.height - r);
-                ctx.arcTo(layer.width, layer.height, layer.width - r, layer.height, r);
-                ctx.lineTo(r, layer.height);
-                ctx.arcTo(0, layer.height, 0, layer.height - r, r);
-                ctx.lineTo(0, r);
-                ctx.arcTo(0, 0, r, 0, r);
-                ctx.closePath();
-                ctx.fill();
-            }
-        }
-        ctx.restore();
-    }
-    return canvas.toDataURL('image/png');
-};
-
-const captureLayer = async (layer: Layer): Promise<string> => {
-    const canvas = document.createElement('canvas');
-    let captureWidth = layer.width;
-    let captureHeight = layer.height;
-    const EXPORT_SCALE_FACTOR = 4;
-
-    const loadImage = (url: string): Promise<HTMLImageElement> => {
-        return new Promise((resolve, reject) => {
-            const img = new Image();
-            img.crossOrigin = 'Anonymous';
-            img.onload = () => resolve(img);
-            img.onerror = (err) => reject(new Error(`Failed to load image: ${url.substring(0, 50)}...`));
-            img.src = url;
-        });
-    };
-
-    const img = (layer.type === 'image' && layer.url) ? await loadImage(layer.url) : null;
-    if (img) {
-        captureWidth = img.naturalWidth;
-        captureHeight = img.naturalHeight;
-    } else if (layer.type === 'text' || layer.type === 'shape') {
-        captureWidth = layer.width * EXPORT_SCALE_FACTOR;
-        captureHeight = layer.height * EXPORT_SCALE_FACTOR;
-    }
-
-    canvas.width = captureWidth;
-    canvas.height = captureHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error("Could not get context for layer capture");
-
-    if (layer.type === 'image' && img) {
-        ctx.drawImage(img, 0, 0, captureWidth, captureHeight);
-    } else if (layer.type === 'text' && layer.text) {
-        ctx.scale(EXPORT_SCALE_FACTOR, EXPORT_SCALE_FACTOR);
-        ctx.font = `${layer.fontStyle || 'normal'} ${layer.fontWeight || '400'} ${layer.fontSize || 50}px "${layer.fontFamily || 'Be Vietnam Pro'}"`;
-        ctx.fillStyle = layer.color || '#000000';
-        ctx.textBaseline = 'top';
-        let startX = 0;
-        if (layer.textAlign === 'center') { ctx.textAlign = 'center'; startX = layer.width / 2; }
-        else if (layer.textAlign === 'right') { ctx.textAlign = 'right'; startX = layer.width; }
-        else { ctx.textAlign = 'left'; }
-        const lineHeight = (layer.fontSize || 50) * (layer.lineHeight || 1.2);
-        const textToRender = layer.textTransform === 'uppercase' ? (layer.text || '').toUpperCase() : (layer.text || '');
-        wrapText(ctx, textToRender, startX, 0, layer.width, lineHeight);
-    } else if (layer.type === 'shape') {
-        ctx.scale(EXPORT_SCALE_FACTOR, EXPORT_SCALE_FACTOR);
-        ctx.fillStyle = layer.fillColor || '#FFFFFF';
-        if (layer.shapeType === 'ellipse') {
-            ctx.beginPath();
-            ctx.ellipse(layer.width / 2, layer.height / 2, layer.width / 2, layer.height / 2, 0, 0, 2 * Math.PI);
-            ctx.fill();
-        } else { // rectangle
-             const r = layer.borderRadius || 0;
-            ctx.beginPath();
-            ctx.moveTo(r, 0);
-            ctx.lineTo(layer.width - r, 0);
-            ctx.arcTo(layer.width, 0, layer.width, r, r);
-            ctx.lineTo(layer.width, layer.height - r);
-            ctx.arcTo(layer.width, layer.height, layer.width - r, layer.height, r);
-            ctx.lineTo(r, layer.height);
-            ctx.arcTo(0, layer.height, 0, layer.height - r, r);
-            ctx.lineTo(0, r);
-            ctx.arcTo(0, 0, r, 0, r);
-            ctx.closePath();
-            ctx.fill();
-        }
-    }
-    return canvas.toDataURL('image/png');
-};
-
 const parseMultiPrompt = (prompt: string): string[] => {
     const match = prompt.match(/^(.*?)\{(.*?)\}(.*)$/s);
     if (match) {
@@ -211,7 +43,7 @@ const parseMultiPrompt = (prompt: string): string[] => {
 
 export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boolean; onClose: () => void; onHide: () => void; }) => {
     const { imageGallery, addImagesToGallery, t, settings, language, generationHistory } = useAppControls();
-    const { openImageEditor } = useImageEditor();
+    const { openImageEditor, pendingComposerLayers, clearPendingComposerLayers } = useImageEditor();
 
     const [canvasSettings, setCanvasSettings] = useState<CanvasSettings>({ 
         width: 1024, 
@@ -222,10 +54,14 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     });
     const [isInfiniteCanvas, setIsInfiniteCanvas] = useState(true);
     const [canvasInitialized, setCanvasInitialized] = useState(false);
+    // Whether the saved canvas has been looked for, so layers sent in aren't replaced by it.
+    const [hasLoadedStoredState, setHasLoadedStoredState] = useState(false);
     const [layers, setLayers] = useState<Layer[]>([]);
     const [history, setHistory] = useState<Layer[][]>([[]]);
     const [historyIndex, setHistoryIndex] = useState(0);
     const interactionStartHistoryState = useRef<Layer[] | null>(null);
+    const [artboards, setArtboards] = useState<Artboard[]>([]);
+    const [selectedArtboardIds, setSelectedArtboardIds] = useState<string[]>([]);
 
     const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([]);
     const [isGalleryOpen, setIsGalleryOpen] = useState(false);
@@ -245,10 +81,16 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     const [isLogVisible, setIsLogVisible] = useState(false);
     const [isChatbotOpen, setIsChatbotOpen] = useState(false);
     const [editingMaskForLayerId, setEditingMaskForLayerId] = useState<string | null>(null);
+    const [maskBrush, setMaskBrush] = useState<MaskBrush>({ size: 40, mode: 'hide' });
+    // The area of an image layer marked for AI inpainting, painted like an inverted mask.
+    const [inpaintRegion, setInpaintRegion] = useState<{ layerId: string; url: string } | null>(null);
+    const [inpaintBrush, setInpaintBrush] = useState<MaskBrush>({ size: 40, mode: 'hide' });
     const [rectBorderRadius, setRectBorderRadius] = useState(0);
     const [loadedPreset, setLoadedPreset] = useState<any | null>(null);
     const [activeCanvasTool, setActiveCanvasTool] = useState<CanvasTool>('select');
     const [shapeFillColor, setShapeFillColor] = useState<string>('#FFFFFF');
+    // Sides of the polygon tool and points of the star tool
+    const [shapeSides, setShapeSides] = useState(5);
     const [aiNumberOfImages, setAiNumberOfImages] = useState(1);
     const [aiAspectRatio, setAiAspectRatio] = useState('Giữ nguyên');
     const [removeWatermark, setRemoveWatermark] = useState(false);
@@ -262,23 +104,48 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         appStateRef.current.canvasSettings = canvasSettings;
     }, [layers, history, historyIndex, canvasInitialized, canvasSettings]);
 
+    // Joining a room with people in it brings their canvas, which starts a fresh history.
+    const handleCollabCanvasReplaced = useCallback((roomLayers: Layer[]) => {
+        setHistory([roomLayers]);
+        setHistoryIndex(0);
+        setSelectedLayerIds([]);
+        interactionStartHistoryState.current = null;
+        setCanvasInitialized(true);
+    }, []);
+    const handleCollabDisconnected = useCallback(() => setError(t('layerComposer_collab_disconnected')), [t]);
+    const collab = useLayerComposerCollab({
+        layers, setLayers, canvasSettings, setCanvasSettings, selectedLayerIds,
+        onCanvasReplaced: handleCollabCanvasReplaced, onDisconnected: handleCollabDisconnected,
+    });
+    const { getSharedHistoryStep, onLeaveCollabRoom } = collab;
+    const handleJoinCollabRoom = useCallback(async (roomId: string, name: string) => {
+        setError(null);
+        try { await collab.onJoinCollabRoom(roomId, name); }
+        catch (err) { setError(getErrorMessage(err, t, "Could not join the room.")); }
+    }, [collab.onJoinCollabRoom, t]);
+
     useEffect(() => {
         if (isOpen && !canvasInitialized) {
             const loadInitialState = async () => {
                 try {
-                    const savedState = await db.loadCanvasState();
-                    if (savedState && Array.isArray(savedState.layers) && savedState.layers.length > 0 && typeof savedState.canvasSettings === 'object') {
+                    const storedState = await loadDocumentWithImages(CANVAS_DOCUMENT);
+                    const hasContent = storedState && Array.isArray(storedState.layers) && (storedState.layers.length > 0 || storedState.artboards?.length > 0);
+                    if (hasContent && typeof storedState.canvasSettings === 'object') {
+                        const savedState = migrateCanvasState(storedState);
                         setLayers(savedState.layers);
                         const validHistory = savedState.history && Array.isArray(savedState.history) && savedState.history.length > 0 ? savedState.history : [savedState.layers];
                         setHistory(validHistory);
                         const validHistoryIndex = typeof savedState.historyIndex === 'number' ? savedState.historyIndex : validHistory.length - 1;
                         setHistoryIndex(validHistoryIndex);
                         setCanvasSettings(savedState.canvasSettings);
+                        setArtboards(savedState.artboards ?? []);
                         setIsInfiniteCanvas(savedState.isInfiniteCanvas ?? true);
                         setCanvasInitialized(true);
                     }
                 } catch (err) {
                     console.error("Failed to load canvas state:", err);
+                } finally {
+                    setHasLoadedStoredState(true);
                 }
             };
             loadInitialState();
@@ -298,8 +165,16 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         });
     }, []);
 
+    // Model errors are logged with their type (quota, safety block, ...) next to the message.
+    const logError = useCallback((err: unknown, fallback: string) => {
+        const errorMessage = getErrorMessage(err, t, fallback);
+        setError(errorMessage);
+        addLog(err instanceof ModelError
+            ? t('layerComposer_ai_log_modelError', t(`errors_kind.${err.kind}`), errorMessage)
+            : t('layerComposer_ai_log_error', errorMessage), 'error');
+    }, [t, addLog]);
+
     const onRectBorderRadiusChange = (radius: number) => { setRectBorderRadius(radius); };
-    const onReleaseMask = (layerId: string) => { setEditingMaskForLayerId(null); };
     
     const panX = useMotionValue(0);
     const panY = useMotionValue(0);
@@ -314,7 +189,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     const [isStartScreenDraggingOver, setIsStartScreenDraggingOver] = useState(false);
 
     const selectedLayers = useMemo(() => { return selectedLayerIds.map(id => layers.find(l => l.id === id)).filter((l): l is Layer => !!l); }, [layers, selectedLayerIds]);
-    const selectionBoundingBox = useMemo(() => { return getBoundingBoxForLayers(selectedLayers); }, [selectedLayers]);
+    const selectionBoundingBox = useMemo(() => { return getBoundingBoxForLayers(selectedLayers, layers); }, [selectedLayers, layers]);
     const selectedLayer = selectedLayers.length === 1 ? selectedLayers[0] : null;
 
     const prevIsLoadingRef = useRef(false);
@@ -351,7 +226,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
 
     const updateLayerProperties = (id: string, newProps: Partial<Layer>, isFinalChange: boolean) => {
         setLayers(prevLayers => {
-            const newLayers = prevLayers.map(l => id === l.id ? { ...l, ...newProps } : l);
+            const newLayers = applyLayerUpdates(prevLayers, [{ id, props: newProps }]);
              if (isFinalChange) {
                 const newHistory = history.slice(0, historyIndex + 1);
                 if (interactionStartHistoryState.current && JSON.stringify(interactionStartHistoryState.current) !== JSON.stringify(newLayers)) {
@@ -367,12 +242,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
 
     const updateMultipleLayers = (updates: { id: string; props: Partial<Layer> }[], isFinalChange: boolean) => {
         setLayers(prevLayers => {
-            const layerMap = new Map(prevLayers.map(l => [l.id, l]));
-            updates.forEach(({ id, props }) => {
-                const currentLayer = layerMap.get(id);
-                if (currentLayer) { layerMap.set(id, { ...currentLayer, ...props }); }
-            });
-            const newLayers = prevLayers.map(l => layerMap.get(l.id) || l);
+            const newLayers = applyLayerUpdates(prevLayers, updates);
             if (isFinalChange) {
                 const newHistory = history.slice(0, historyIndex + 1);
                 if (interactionStartHistoryState.current && JSON.stringify(interactionStartHistoryState.current) !== JSON.stringify(newLayers)) {
@@ -412,14 +282,19 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     const canUndo = historyIndex > 0;
     const canRedo = historyIndex < history.length - 1;
 
-    const handleUndo = useCallback(() => { if (historyIndex > 0) { const newIndex = historyIndex - 1; setHistoryIndex(newIndex); setLayers(history[newIndex]); } }, [history, historyIndex]);
-    const handleRedo = useCallback(() => { if (historyIndex < history.length - 1) { const newIndex = historyIndex + 1; setHistoryIndex(newIndex); setLayers(history[newIndex]); } }, [history, historyIndex]);
+    // In a collaboration room a step only takes back this user's own changes (see getSharedHistoryStep).
+    const handleUndo = useCallback(() => { if (historyIndex > 0) { const newIndex = historyIndex - 1; setHistoryIndex(newIndex); setLayers(getSharedHistoryStep(layers, history[historyIndex], history[newIndex]) ?? history[newIndex]); } }, [history, historyIndex, layers, getSharedHistoryStep]);
+    const handleRedo = useCallback(() => { if (historyIndex < history.length - 1) { const newIndex = historyIndex + 1; setHistoryIndex(newIndex); setLayers(getSharedHistoryStep(layers, history[historyIndex], history[newIndex]) ?? history[newIndex]); } }, [history, historyIndex, layers, getSharedHistoryStep]);
 
     const handleCreateNew = useCallback(() => { setCanvasSettings({ width: 2048, height: 2048, background: '#ffffff', grid: { visible: false, snap: false, size: 50, color: '#cccccc' }, guides: { enabled: true, color: '#ff4d4d' } }); setCanvasInitialized(true); }, []);
     
     const handleResetState = useCallback(() => {
+        // Leave first, so clearing the canvas isn't sent to the room as deleting everything.
+        onLeaveCollabRoom();
         setLayers([]);
         setSelectedLayerIds([]);
+        setArtboards([]);
+        setSelectedArtboardIds([]);
         setCanvasSettings({ width: 1024, height: 1024, background: '#ffffff', grid: { visible: false, snap: false, size: 50, color: '#cccccc' }, guides: { enabled: true, color: '#ff4d4d' } });
         setError(null);
         setInteraction(null);
@@ -430,23 +305,25 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         setAiProcessLog([]);
         setIsLogVisible(false);
         setLoadedPreset(null);
-    }, []);
+    }, [onLeaveCollabRoom]);
 
     const handleCloseAndReset = useCallback(() => { handleResetState(); onClose(); }, [onClose, handleResetState]);
 
-    const handleRequestClose = useCallback(() => { if (layers.length > 0) { setIsConfirmingClose(true); } else { handleCloseAndReset(); } }, [layers, handleCloseAndReset]);
+    const handleRequestClose = useCallback(() => { if (layers.length > 0 || artboards.length > 0) { setIsConfirmingClose(true); } else { handleCloseAndReset(); } }, [layers, artboards, handleCloseAndReset]);
     
-    const handleConfirmNew = useCallback(async () => { await db.clearCanvasState(); handleResetState(); handleCreateNew(); }, [handleResetState, handleCreateNew]);
+    const handleConfirmNew = useCallback(async () => { await clearDocumentWithImages(CANVAS_DOCUMENT); handleResetState(); handleCreateNew(); }, [handleResetState, handleCreateNew]);
     
-    const handleNew = useCallback(() => { if (layers.length > 0) { setIsConfirmingNew(true); } else { handleCreateNew(); } }, [layers.length, handleCreateNew]);
+    const handleNew = useCallback(() => { if (layers.length > 0 || artboards.length > 0) { setIsConfirmingNew(true); } else { handleCreateNew(); } }, [layers.length, artboards.length, handleCreateNew]);
     
     const loadCanvasStateFromJson = useCallback((jsonData: any) => {
         if (!jsonData || typeof jsonData.canvasSettings !== 'object' || !Array.isArray(jsonData.layers)) { setError(t('layerComposer_invalidJsonError')); return; }
-        const { canvasSettings: loadedSettings, layers: loadedLayers } = jsonData;
+        let migratedData;
+        try { migratedData = migrateCanvasState(jsonData); } catch (err) { setError(getErrorMessage(err, t, t('layerComposer_invalidJsonError'))); return; }
+        const { canvasSettings: loadedSettings, layers: loadedLayers } = migratedData;
         const defaultGridSettings = { visible: false, snap: false, size: 50, color: '#cccccc' };
         const defaultGuideSettings = { enabled: true, color: '#ff4d4d' };
         setCanvasSettings({ ...loadedSettings, grid: { ...defaultGridSettings, ...(loadedSettings.grid || {}) }, guides: { ...defaultGuideSettings, ...(loadedSettings.guides || {}) } }); 
-        setLayers(loadedLayers); setHistory([loadedLayers]); setHistoryIndex(0); setCanvasInitialized(true); setIsInfiniteCanvas(loadedSettings.isInfinite ?? false);
+        setLayers(loadedLayers); setHistory([loadedLayers]); setHistoryIndex(0); setArtboards(migratedData.artboards ?? []); setSelectedArtboardIds([]); setCanvasInitialized(true); setIsInfiniteCanvas(loadedSettings.isInfinite ?? false);
         panX.set(0); panY.set(0); scale.set(1);
     }, [t, panX, panY, scale]);
 
@@ -457,7 +334,8 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         reader.readAsText(file);
     };
 
-    const addImagesAsLayers = (loadedImages: HTMLImageElement[], position?: { x: number; y: number }) => {
+    // `layerProps` adds properties to the layer of the image at the same index.
+    const addImagesAsLayers = (loadedImages: HTMLImageElement[], position?: { x: number; y: number }, layerProps?: Partial<Layer>[]) => {
         if (loadedImages.length === 0) return;
         const { layers: currentLayers, history: currentHistory, historyIndex: currentHistoryIndex, canvasInitialized: currentCanvasInitialized, canvasSettings: currentCanvasSettings, panX: currentPanX, panY: currentPanY, scale: currentScale } = appStateRef.current;
         let nextLayers = [...currentLayers];
@@ -488,6 +366,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
             const newLayer: Layer = {
                 id: Math.random().toString(36).substring(2, 9), type: 'image', url: img.src, x: newX, y: newY, width: initialWidth, height: initialHeight,
                 rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false, fontWeight: 'normal', fontStyle: 'normal', textTransform: 'none',
+                ...layerProps?.[loadedImages.indexOf(img)],
             };
             nextLayers = [newLayer, ...nextLayers]; newSelectedIds.push(newLayer.id);
         });
@@ -516,18 +395,102 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1); interactionStartHistoryState.current = null;
     }, [layers, canvasInitialized, history, historyIndex, beginInteraction]);
 
+    const handleAddAdjustmentLayer = useCallback(() => {
+        const canvasBounds = { x: 0, y: 0, width: canvasSettings.width, height: canvasSettings.height };
+        const bounds = isInfiniteCanvas ? (getBoundingBoxForLayers(layers) || canvasBounds) : canvasBounds;
+        addLayer({
+            type: 'adjustment', adjustments: DEFAULT_LAYER_ADJUSTMENTS, x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height,
+            rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false,
+        });
+    }, [layers, canvasSettings.width, canvasSettings.height, isInfiniteCanvas, addLayer]);
+
+    // --- Masks ---
+
+    const handleAddMask = (layerId: string) => {
+        const layer = layers.find(l => l.id === layerId); if (!layer || layer.mask || layer.type === 'group') return;
+        beginInteraction(); updateLayerProperties(layerId, { mask: createLayerMask(layer) }, true); setEditingMaskForLayerId(layerId);
+    };
+
+    const handleRemoveMask = (layerId: string) => {
+        beginInteraction(); updateLayerProperties(layerId, { mask: undefined }, true);
+        if (editingMaskForLayerId === layerId) setEditingMaskForLayerId(null);
+    };
+
+    const handleCommitMaskStroke = (layerId: string, maskUrl: string) => {
+        const layer = layers.find(l => l.id === layerId); if (!layer?.mask) return;
+        beginInteraction(); updateLayerProperties(layerId, { mask: { ...layer.mask, url: maskUrl } }, true);
+    };
+
+    // The first selected layer gets a mask covering the shapes of the other selected layers.
+    const handleCreateMaskFromSelection = async () => {
+        if (selectedLayers.length < 2) return; const [target, ...sources] = selectedLayers;
+        setRunningJobCount(prev => prev + 1); setError(null);
+        try {
+            const mask = await createMaskFromLayers(target, sources, layers);
+            beginInteraction(); updateLayerProperties(target.id, { mask }, true);
+            setSelectedLayerIds([target.id]); setEditingMaskForLayerId(target.id);
+        } catch (err) { const errorMessage = getErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
+        finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
+    };
+
+    useEffect(() => {
+        if (!editingMaskForLayerId) return;
+        const layer = layers.find(l => l.id === editingMaskForLayerId);
+        if (!layer?.mask || !selectedLayerIds.includes(editingMaskForLayerId)) setEditingMaskForLayerId(null);
+    }, [editingMaskForLayerId, layers, selectedLayerIds]);
+
+    // Adds the layers of a PSD or ORA file on top. On an empty canvas the canvas takes the
+    // document's size; otherwise the document is centered in the view.
+    const handleLayeredFile = async (file: File) => {
+        setRunningJobCount(prev => prev + 1); setError(null);
+        try {
+            const layeredDocument = file.name.toLowerCase().endsWith('.psd') ? await importPsd(file) : await importOra(file);
+            if (layeredDocument.layers.length === 0) throw new Error('File không có layer nào có thể nhập.');
+            const { layers: currentLayers, history: currentHistory, historyIndex: currentHistoryIndex, canvasInitialized: currentCanvasInitialized, canvasSettings: currentCanvasSettings, panX: currentPanX, panY: currentPanY, scale: currentScale } = appStateRef.current;
+            let offsetX = 0; let offsetY = 0;
+            if (currentLayers.length === 0 && !currentCanvasInitialized) {
+                setCanvasSettings({ ...currentCanvasSettings, width: layeredDocument.width, height: layeredDocument.height });
+                setCanvasInitialized(true); setIsInfiniteCanvas(false);
+            } else if (canvasViewRef.current) {
+                const viewWidth = canvasViewRef.current.clientWidth; const viewHeight = canvasViewRef.current.clientHeight;
+                offsetX = Math.round((-currentPanX / currentScale) + (viewWidth / 2 / currentScale) - layeredDocument.width / 2);
+                offsetY = Math.round((-currentPanY / currentScale) + (viewHeight / 2 / currentScale) - layeredDocument.height / 2);
+            }
+            const importedLayers = layeredDocument.layers.map(l => ({ ...l, x: l.x + offsetX, y: l.y + offsetY }));
+            const nextLayers = [...importedLayers, ...currentLayers];
+            setLayers(nextLayers); setSelectedLayerIds(importedLayers.filter(l => !l.parentId).map(l => l.id));
+            const newHistory = currentHistory.slice(0, currentHistoryIndex + 1);
+            newHistory.push(nextLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
+        } catch (err) { console.error("Error importing layered file:", err); setError(t('layerComposer_error', getErrorMessage(err, t, "Unknown error."))); }
+        finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
+    };
+
     const handleFilesDrop = (files: FileList | null) => {
         if (!files || files.length === 0) return;
         const jsonFile = Array.from(files).find(f => f.name.toLowerCase().endsWith('.json'));
         if (jsonFile) { handleJsonFile(jsonFile); return; }
+        // Checked before images: browsers report PSD files as an image type.
+        const layeredFile = Array.from(files).find(f => /\.(psd|ora)$/i.test(f.name));
+        if (layeredFile) { handleLayeredFile(layeredFile); return; }
         const imageFiles = Array.from(files).filter(f => f.type.startsWith('image/')); if (imageFiles.length === 0) return;
         const fileReadPromises = imageFiles.map(file => new Promise<string>((resolve, reject) => { const reader = new FileReader(); reader.onloadend = () => { if (typeof reader.result === 'string') resolve(reader.result); else reject(new Error('Failed to read file')); }; reader.onerror = reject; reader.readAsDataURL(file); }));
         Promise.all(fileReadPromises).then(dataUrls => {
             const imageLoadPromises = dataUrls.map(url => new Promise<HTMLImageElement>((resolve, reject) => { const img = new Image(); img.crossOrigin = "Anonymous"; img.onload = () => resolve(img); img.onerror = reject; img.src = url; }));
-            Promise.all(imageLoadPromises).then(loadedImages => addImagesAsLayers(loadedImages)).catch(err => { console.error("Error loading images:", err); setError(t('layerComposer_error', err instanceof Error ? err.message : "Image loading failed.")); });
-        }).catch(err => { console.error("Error reading files:", err); setError(t('layerComposer_error', err instanceof Error ? err.message : "File reading failed.")); });
+            Promise.all(imageLoadPromises).then(loadedImages => addImagesAsLayers(loadedImages)).catch(err => { console.error("Error loading images:", err); setError(t('layerComposer_error', getErrorMessage(err, t, "Image loading failed."))); });
+        }).catch(err => { console.error("Error reading files:", err); setError(t('layerComposer_error', getErrorMessage(err, t, "File reading failed."))); });
     };
 
+    // Layers sent from the image editor are added once the canvas is ready, stacked as they were there.
+    useEffect(() => {
+        if (!isOpen || pendingComposerLayers.length === 0 || (!canvasInitialized && !hasLoadedStoredState)) return;
+        const imports = [...pendingComposerLayers].reverse();
+        clearPendingComposerLayers();
+        const imageLoadPromises = imports.map(layer => new Promise<HTMLImageElement>((resolve, reject) => { const img = new Image(); img.crossOrigin = "Anonymous"; img.onload = () => resolve(img); img.onerror = reject; img.src = layer.url; }));
+        Promise.all(imageLoadPromises)
+            .then(loadedImages => addImagesAsLayers(loadedImages, undefined, imports.map(({ opacity, blendMode, isVisible }) => ({ opacity, blendMode, isVisible }))))
+            .catch(err => { console.error("Error loading images:", err); setError(t('layerComposer_error', getErrorMessage(err, t, "Image loading failed."))); });
+    }, [isOpen, pendingComposerLayers, canvasInitialized, hasLoadedStoredState, clearPendingComposerLayers, t]);
+
     const handleUploadClick = () => fileInputRef.current?.click();
     const handleFileSelected = (e: ChangeEvent<HTMLInputElement>) => { handleFilesDrop(e.target.files); };
     const handleStartScreenDragOver = (e: React.DragEvent<HTMLDivElement>) => { e.preventDefault(); e.stopPropagation(); setIsStartScreenDraggingOver(true); };
@@ -536,94 +499,164 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
 
     const deleteSelectedLayers = useCallback(() => {
         if (selectedLayerIds.length === 0) return; beginInteraction();
-        const newLayers = layers.filter(l => !selectedLayerIds.includes(l.id)); setLayers(newLayers);
+        const removedIds = new Set(getLayersWithDescendants(layers, selectedLayerIds).map(l => l.id));
+        const newLayers = normalizeLayerTree(layers.filter(l => !removedIds.has(l.id))); setLayers(newLayers);
         const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
         interactionStartHistoryState.current = null; setSelectedLayerIds([]);
     }, [selectedLayerIds, layers, history, historyIndex, beginInteraction]);
     
     const duplicateSelectedLayers = () => {
         if (selectedLayers.length === 0) return []; beginInteraction();
-        let newLayers = [...layers]; const newSelectedIds: string[] = [];
-        const topMostSelectedIndex = layers.findIndex(l => l.id === selectedLayers[0].id);
-        const layersToDuplicate = [...selectedLayers].reverse(); 
-        for(const layerToDup of layersToDuplicate) {
-             const newLayer: Layer = { ...layerToDup, id: Math.random().toString(36).substring(2, 9), x: layerToDup.x + 20, y: layerToDup.y + 20 };
-            newLayers.splice(topMostSelectedIndex, 0, newLayer); newSelectedIds.push(newLayer.id);
-        }
+        const { layers: newLayers, duplicates } = duplicateLayers(layers, selectedLayerIds, { x: 20, y: 20 });
         setLayers(newLayers); const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers);
         setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
-        interactionStartHistoryState.current = null; setSelectedLayerIds(newSelectedIds);
-        return newLayers.filter(l => newSelectedIds.includes(l.id));
+        interactionStartHistoryState.current = null; setSelectedLayerIds(duplicates.map(l => l.id));
+        return duplicates;
     };
 
     const handleDuplicateForDrag = (): Layer[] => {
         if (selectedLayers.length === 0) return []; beginInteraction();
-        let newLayersState = [...layers]; const newDuplicatedLayers: Layer[] = []; const newSelectedIds: string[] = [];
-        const topMostLayerInSelection = selectedLayers[0]; const topMostSelectedIndex = layers.findIndex(l => l.id === topMostLayerInSelection.id);
-        // FIX: Replaced spread operator with Object.assign to resolve a "Spread types may only be created from object types" error that occurred due to a subtle type inference issue.
-        [...selectedLayers].reverse().forEach(layerToDup => {
-            const newLayer: Layer = Object.assign({}, layerToDup, { id: Math.random().toString(36).substring(2, 9), x: layerToDup.x, y: layerToDup.y });
-            newLayersState.splice(topMostSelectedIndex, 0, newLayer); newDuplicatedLayers.unshift(newLayer); newSelectedIds.push(newLayer.id);
-        });
-        setLayers(newLayersState); setSelectedLayerIds(newSelectedIds);
-        return newDuplicatedLayers;
+        const { layers: newLayersState, duplicates } = duplicateLayers(layers, selectedLayerIds);
+        setLayers(newLayersState); setSelectedLayerIds(duplicates.map(l => l.id));
+        return duplicates;
     };
     
     const handleExportSelectedLayers = useCallback(async () => {
         if (selectedLayers.length < 1) return; setRunningJobCount(prev => prev + 1); setError(null);
         try {
             for (const layer of selectedLayers) {
-                const exportedUrl = await captureLayer(layer); addImagesToGallery([exportedUrl]);
+                const exportedUrl = await captureLayer(layer, layers); addImagesToGallery([exportedUrl]);
                 await new Promise(resolve => setTimeout(resolve, 200)); downloadImage(exportedUrl, `CaoTrangAI-canvas-export-${layer.id || 'layer'}`);
             }
-        } catch (err) { const errorMessage = err instanceof Error ? err.message : "Unknown error."; setError(t('layerComposer_error', errorMessage)); }
+        } catch (err) { const errorMessage = getErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
+        finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
+    }, [selectedLayers, layers, addImagesToGallery, t]);
+
+    // --- Artboards ---
+
+    const handleAddArtboard = useCallback((width: number, height: number) => {
+        // Artboards are laid out side by side, which needs the infinite canvas.
+        if (!canvasInitialized) { setCanvasInitialized(true); } setIsInfiniteCanvas(true);
+        const artboard = createArtboard(artboards, t('layerComposer_artboard_defaultName', artboards.length + 1), width, height);
+        setArtboards(prev => [...prev, artboard]); setSelectedArtboardIds([artboard.id]);
+    }, [artboards, canvasInitialized, t]);
+
+    const handleUpdateArtboard = useCallback((id: string, props: Partial<Artboard>) => {
+        setArtboards(prev => prev.map(a => a.id === id ? { ...a, ...props } : a));
+    }, []);
+
+    const handleDeleteArtboard = useCallback((id: string) => {
+        setArtboards(prev => prev.filter(a => a.id !== id)); setSelectedArtboardIds(ids => ids.filter(i => i !== id));
+    }, []);
+
+    const handleSelectArtboard = useCallback((id: string, isAdditive: boolean) => {
+        setSelectedArtboardIds(ids => !isAdditive ? [id] : ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+    }, []);
+
+    // Downloads each artboard as its own PNG or SVG, or all of them in one ZIP (numbered in
+    // canvas order) or one PDF with a page per artboard.
+    const handleExportArtboards = useCallback(async (ids: string[], format: ArtboardExportFormat) => {
+        const artboardsToExport = artboards.filter(a => ids.includes(a.id)); if (artboardsToExport.length === 0) return;
+        setRunningJobCount(prev => prev + 1); setError(null);
+        try {
+            if (format === 'svg' || format === 'pdf') {
+                const pages: VectorPage[] = artboardsToExport.map(a => ({ name: a.name, layers, bounds: a, background: a.background }));
+                await downloadVectorPages(pages, layers, format, 'CaoTrangAI-artboards');
+                return;
+            }
+            const images: ImageForZip[] = [];
+            for (const [index, artboard] of artboardsToExport.entries()) {
+                const url = await captureArtboard(artboard, layers);
+                images.push({ url, filename: `${index + 1}-${artboard.name}`, extension: 'png' });
+            }
+            addImagesToGallery(images.map(image => image.url));
+            if (format === 'zip') { await downloadAllImagesAsZip(images, 'CaoTrangAI-artboards.zip'); }
+            else {
+                for (const image of images) { downloadImage(image.url, `CaoTrangAI-${image.filename}`); await new Promise(resolve => setTimeout(resolve, 200)); }
+            }
+        } catch (err) { const errorMessage = getErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
+        finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
+    }, [artboards, layers, addImagesToGallery, t]);
+
+    // Each selected layer becomes its own SVG file or PDF page, like the PNG export.
+    const handleExportSelectedLayersAs = useCallback(async (format: VectorExportFormat) => {
+        if (selectedLayers.length < 1) return; setRunningJobCount(prev => prev + 1); setError(null);
+        try {
+            const pages = pruneNestedLayers(layers, selectedLayers).flatMap((layer): VectorPage[] => {
+                const bounds = getBoundingBoxForLayers([layer], layers);
+                return bounds ? [{ name: `layer-${layer.id}`, layers: getLayersWithDescendants(layers, [layer.id]), bounds, background: null }] : [];
+            });
+            await downloadVectorPages(pages, layers, format, 'CaoTrangAI-canvas-export');
+        } catch (err) { const errorMessage = getErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
         finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
-    }, [selectedLayers, addImagesToGallery, t]);
+    }, [selectedLayers, layers, t]);
 
     const debouncedLayers = useDebounce(layers, 500);
     const debouncedSettings = useDebounce(canvasSettings, 500);
     const debouncedInfinite = useDebounce(isInfiniteCanvas, 500);
+    const debouncedArtboards = useDebounce(artboards, 500);
 
     useEffect(() => {
         if (canvasInitialized) {
             const stateToSave = {
+                version: CANVAS_SCHEMA_VERSION,
                 layers: debouncedLayers,
                 history,
                 historyIndex,
                 canvasSettings: debouncedSettings,
                 isInfiniteCanvas: debouncedInfinite,
+                artboards: debouncedArtboards,
             };
-            db.saveCanvasState(stateToSave);
+            saveDocumentWithImages(CANVAS_DOCUMENT, stateToSave)
+                .catch(error => console.warn("Could not save the canvas:", error));
         }
-    }, [debouncedLayers, debouncedSettings, debouncedInfinite, history, historyIndex, canvasInitialized]);
+    }, [debouncedLayers, debouncedSettings, debouncedInfinite, debouncedArtboards, history, historyIndex, canvasInitialized]);
 
     const handleSave = async () => {
         setRunningJobCount(prev => prev + 1); setError(null);
         try {
-            const canvasState = { canvasSettings: { ...canvasSettings, isInfinite: isInfiniteCanvas }, layers };
-            await db.saveCanvasState(canvasState); // Persist state before exporting
-            downloadJson(canvasState, `CaoTrangAI-canvas-state-${Date.now()}.json`);
+            // Persist state before exporting. The saved document keeps the undo history so its images stay retained.
+            await saveDocumentWithImages(CANVAS_DOCUMENT, { version: CANVAS_SCHEMA_VERSION, layers, history, historyIndex, canvasSettings, isInfiniteCanvas, artboards });
+            const canvasState = { version: CANVAS_SCHEMA_VERSION, canvasSettings: { ...canvasSettings, isInfinite: isInfiniteCanvas }, layers, artboards };
+            downloadJson(await hydrateImages(canvasState), `CaoTrangAI-canvas-state-${Date.now()}.json`);
             if (!isInfiniteCanvas) {
                 const dataUrl = await captureCanvas( layers, { x: 0, y: 0, width: canvasSettings.width, height: canvasSettings.height }, canvasSettings.background );
                 addImagesToGallery([dataUrl]);
             }
-        } catch (err) { const errorMessage = err instanceof Error ? err.message : "Unknown error."; setError(t('layerComposer_error', errorMessage)); }
+        } catch (err) { const errorMessage = getErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
         finally {
             setRunningJobCount(prev => Math.max(0, prev - 1));
         }
     };
     
+    // The canvas as an OpenRaster file: the fixed canvas with its background, or on an
+    // infinite canvas the area the layers cover.
+    const handleExportOra = async () => {
+        const bounds = isInfiniteCanvas
+            ? getBoundingBoxForLayers(layers.filter(l => !l.parentId), layers)
+            : { x: 0, y: 0, width: canvasSettings.width, height: canvasSettings.height };
+        if (!bounds) return;
+        setRunningJobCount(prev => prev + 1); setError(null);
+        try {
+            const blob = await exportOra(layers, bounds, isInfiniteCanvas ? null : canvasSettings.background);
+            downloadBlob(blob, `CaoTrangAI-canvas-${Date.now()}.ora`);
+        } catch (err) { const errorMessage = getErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
+        finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
+    };
+
     const handleMergeLayers = useCallback(async () => {
         if (selectedLayers.length < 2) return; beginInteraction(); setRunningJobCount(prev => prev + 1); setError(null);
         try {
-            const bbox = getBoundingBoxForLayers(selectedLayers); if (!bbox) throw new Error("Could not calculate bounding box.");
-            const mergedImageUrl = await captureCanvas(selectedLayers, bbox, null);
-            const newLayer: Layer = { id: Math.random().toString(36).substring(2, 9), type: 'image', url: mergedImageUrl, x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height, rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false, fontWeight: 'normal', fontStyle: 'normal', textTransform: 'none', textAlign: undefined, color: undefined, lineHeight: undefined, };
-            const topMostLayerIndex = layers.findIndex(l => l.id === selectedLayerIds[0]); const newLayers = layers.filter(l => !selectedLayerIds.includes(l.id));
-            newLayers.splice(topMostLayerIndex, 0, newLayer); setLayers(newLayers); setSelectedLayerIds([newLayer.id]);
-            const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
+            const bbox = getBoundingBoxForLayers(selectedLayers, layers); if (!bbox) throw new Error("Could not calculate bounding box.");
+            // Groups are merged with their contents; the result takes the place of the topmost merged layer.
+            const mergedLayers = getLayersWithDescendants(layers, selectedLayerIds); const topMostLayer = mergedLayers[0];
+            const mergedImageUrl = await captureCanvas(mergedLayers, bbox, null);
+            const newLayer: Layer = { id: Math.random().toString(36).substring(2, 9), type: 'image', url: mergedImageUrl, x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height, rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false, fontWeight: 'normal', fontStyle: 'normal', textTransform: 'none', textAlign: undefined, color: undefined, lineHeight: undefined, parentId: topMostLayer.parentId, };
+            const newLayers = layers.flatMap(l => l.id === topMostLayer.id ? [newLayer] : mergedLayers.includes(l) ? [] : [l]);
+            const normalizedLayers = normalizeLayerTree(newLayers); setLayers(normalizedLayers); setSelectedLayerIds([newLayer.id]);
+            const newHistory = history.slice(0, historyIndex + 1); newHistory.push(normalizedLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
             interactionStartHistoryState.current = null;
-        } catch (err) { const msg = err instanceof Error ? err.message : "Unknown error."; setError(t('layerComposer_error', msg)); interactionStartHistoryState.current = null; }
+        } catch (err) { const msg = getErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', msg)); interactionStartHistoryState.current = null; }
         finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
     }, [selectedLayers, layers, selectedLayerIds, beginInteraction, history, historyIndex, t]);
     
@@ -657,9 +690,15 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                 addLog(`Detected ${finalPrompts.length} prompt variations. Generating all...`, 'info');
             }
             
-            let allResults: string[] = [];
+            // Each image keeps the recipe it came from, so it can be generated again later.
+            const allResults: { url: string; recipe: GenerationRecipe }[] = [];
             const hasLayerContext = selectedLayers.length > 0;
             const referenceBounds = hasLayerContext ? getBoundingBoxForLayers(selectedLayers) : null;
+            const newRecipe = (mode: GenerationRecipe['mode'], userPrompt: string, prompt: string, inputLayers: Layer[]): GenerationRecipe => ({
+                id: Math.random().toString(36).substring(2, 9), mode, presetId: aiPreset, userPrompt, prompt,
+                inputs: getGenerationInputs(inputLayers, layers), aspectRatio: aiAspectRatio, removeWatermark, variation: 0,
+            });
+            const addResults = (recipe: GenerationRecipe, urls: string[]) => { urls.forEach((url, variation) => allResults.push({ url, recipe: { ...recipe, variation } })); };
             
             for (const userPromptChunk of finalPrompts) {
                 if (signal.aborted) throw new Error("Cancelled");
@@ -668,68 +707,50 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                 if (currentPreset.requiresImageContext && !hasLayerContext) {
                     throw new Error(`Preset "${currentPreset.name[language as keyof typeof currentPreset.name]}" requires at least one image layer to be selected.`);
                 }
-                const template = currentPreset.promptTemplate[language as keyof typeof currentPreset.promptTemplate] || currentPreset.promptTemplate['en'];
                 
-                let finalPrompt = '';
-    
-                if (currentPreset.refine && hasLayerContext) {
+                const willRefine = currentPreset.refine && hasLayerContext;
+                if (willRefine) {
                     addLog(t('layerComposer_ai_log_refining'), 'spinner');
-                    const tempImageUrls = await Promise.all(selectedLayers.map(l => captureLayer(l)));
-                    if (currentPreset.id === 'architecture') {
-                        finalPrompt = await refineArchitecturePrompt(template, userPromptChunk, tempImageUrls);
-                    } else {
-                        finalPrompt = await refineImageAndPrompt(template, userPromptChunk, tempImageUrls);
-                    }
-                    if (signal.aborted) throw new Error("Cancelled");
                 } else {
                     addLog(t('layerComposer_ai_log_noRefine'), 'info');
-                    finalPrompt = template.replace('{{userPrompt}}', userPromptChunk).trim();
                 }
+                const refineImageUrls = willRefine ? await Promise.all(selectedLayers.map(l => captureLayer(l, layers))) : [];
+                const finalPrompt = await resolvePresetPrompt(currentPreset, userPromptChunk, language, refineImageUrls);
     
                 if (signal.aborted) throw new Error("Cancelled");
                 addLog(t('layerComposer_ai_log_finalPrompt'), 'info');
                 addLog(finalPrompt, 'prompt');
                 
-                let results: string[] = [];
                 if (hasLayerContext) {
                     const isBatchMode = !isSimpleImageMode && selectedLayers.length > 1;
                     if (isBatchMode) {
                         addLog(t('layerComposer_ai_log_capturingLayers', selectedLayers.length), 'info');
                         const generationPromises = selectedLayers.map(async (layer) => {
-                            const layerUrl = await captureLayer(layer);
-                            if (signal.aborted) return [];
-                            
-                            const imagePromises = Array.from({ length: aiNumberOfImages }).map(() =>
-                                editImageWithPrompt(layerUrl, finalPrompt, aiAspectRatio, removeWatermark)
-                            );
-                            
-                            const imageUrls = await Promise.all(imagePromises);
-                            return imageUrls;
+                            const layerUrl = await captureLayer(layer, layers);
+                            const recipe = newRecipe('edit', userPromptChunk, finalPrompt, [layer]);
+                            if (signal.aborted) return { recipe, urls: [] };
+                            return { recipe, urls: await generateFromRecipe(recipe, [layerUrl], aiNumberOfImages) };
                         });
                         
-                        const resultsArrays = await Promise.all(generationPromises);
+                        const resultsByLayer = await Promise.all(generationPromises);
                         if (signal.aborted) throw new Error("Cancelled");
-                        results = resultsArrays.flat();
+                        resultsByLayer.forEach(({ recipe, urls }) => addResults(recipe, urls));
                     } else { 
                         addLog(t('layerComposer_ai_log_capturingLayers', selectedLayers.length), 'info');
-                        const imageUrlsToCombine = await Promise.all(selectedLayers.map(l => captureLayer(l)));
+                        const imageUrlsToCombine = await Promise.all(selectedLayers.map(l => captureLayer(l, layers)));
                         if (signal.aborted) throw new Error("Cancelled");
                         
-                        const generationPromises = Array.from({ length: aiNumberOfImages }).map(() =>
-                            generateFromMultipleImages(imageUrlsToCombine, finalPrompt, aiAspectRatio, removeWatermark)
-                        );
-                        
-                        const generatedUrls = await Promise.all(generationPromises);
+                        const recipe = newRecipe('combine', userPromptChunk, finalPrompt, selectedLayers);
+                        const generatedUrls = await generateFromRecipe(recipe, imageUrlsToCombine, aiNumberOfImages);
                         if (signal.aborted) throw new Error("Cancelled");
-                        results = generatedUrls;
+                        addResults(recipe, generatedUrls);
                     }
                 } else { 
                     if (signal.aborted) throw new Error("Cancelled");
                     const finalNumImages = finalPrompts.length > 1 ? 1 : aiNumberOfImages;
-                    const resultUrls = await generateFreeImage(finalPrompt, finalNumImages, aiAspectRatio, undefined, undefined, undefined, undefined, removeWatermark);
-                    results.push(...resultUrls);
+                    const recipe = newRecipe('free', userPromptChunk, finalPrompt, []);
+                    addResults(recipe, await generateFromRecipe(recipe, [], finalNumImages));
                 }
-                allResults.push(...results);
             }
             
             if (allResults.length === 0) {
@@ -738,7 +759,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
             addLog(t('layerComposer_ai_log_generatedCount', allResults.length), 'info');
             addLog(t('layerComposer_ai_log_loadingResults'), 'info');
     
-            const imageLoadPromises = allResults.map(url => new Promise<HTMLImageElement>((resolve, reject) => {
+            const imageLoadPromises = allResults.map(({ url }) => new Promise<HTMLImageElement>((resolve, reject) => {
                 const img = new Image();
                 img.crossOrigin = "Anonymous";
                 img.onload = () => resolve(img);
@@ -750,16 +771,14 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
             
             addLog(t('layerComposer_ai_log_addingLayers', loadedImages.length), 'info');
             const position = referenceBounds ? { x: referenceBounds.x + referenceBounds.width + 20, y: referenceBounds.y } : undefined;
-            addImagesAsLayers(loadedImages, position);
+            addImagesAsLayers(loadedImages, position, allResults.map(({ recipe }) => ({ generation: recipe })));
             addLog(t('layerComposer_ai_log_success'), 'success');
     
         } catch (err) {
             if (signal.aborted || (err instanceof Error && err.message === 'Cancelled')) {
                 console.log("Generation process was cancelled.");
             } else {
-                const errorMessage = err instanceof Error ? err.message : "Unknown error.";
-                setError(errorMessage);
-                addLog(t('layerComposer_ai_log_error', errorMessage), 'error');
+                logError(err, "Unknown error.");
             }
         } finally {
             setAiProcessLog(prev => prev.filter(l => l.type !== 'spinner'));
@@ -768,70 +787,247 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                 generationController.current = null;
             }
         }
-    }, [aiPrompt, aiPreset, isSimpleImageMode, selectedLayers, aiNumberOfImages, aiAspectRatio, removeWatermark, presets, language, t, addLog, aiProcessLog.length, addImagesAsLayers, captureLayer]);
+    }, [aiPrompt, aiPreset, isSimpleImageMode, selectedLayers, aiNumberOfImages, aiAspectRatio, removeWatermark, presets, language, t, addLog, logError, aiProcessLog.length, addImagesAsLayers, layers]);
     
     const handleCancelGeneration = useCallback(() => { if (generationController.current) { generationController.current.abort(); addLog(`${t('layerComposer_ai_cancel')}...`, 'error'); } }, [t, addLog]);
 
+    // --- AI inpainting ---
+
+    // Marking a region takes over from mask painting, and the other way round.
+    const handleEditInpaintRegion = (layerId: string | null) => {
+        const layer = layerId ? layers.find(l => l.id === layerId) : undefined;
+        if (!layer || layer.type !== 'image') { setInpaintRegion(null); return; }
+        setEditingMaskForLayerId(null);
+        setInpaintRegion(prev => prev?.layerId === layer.id ? prev : { layerId: layer.id, url: createLayerMask(layer, 'hide').url });
+    };
+
+    const handleCommitInpaintStroke = (layerId: string, url: string) => { setInpaintRegion({ layerId, url }); };
+
+    // The first selected layer gets a region covering the shapes of the other selected layers.
+    const handleInpaintRegionFromSelection = async () => {
+        if (selectedLayers.length < 2) return; const [target, ...sources] = selectedLayers;
+        if (target.type !== 'image') return;
+        setRunningJobCount(prev => prev + 1); setError(null);
+        try {
+            const region = await createMaskFromLayers(target, sources, layers);
+            setEditingMaskForLayerId(null); setSelectedLayerIds([target.id]); setInpaintRegion({ layerId: target.id, url: region.url });
+        } catch (err) { const errorMessage = getErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
+        finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
+    };
+
+    useEffect(() => { if (editingMaskForLayerId) setInpaintRegion(null); }, [editingMaskForLayerId]);
+
+    useEffect(() => {
+        if (!inpaintRegion) return;
+        const layer = layers.find(l => l.id === inpaintRegion.layerId);
+        if (layer?.type !== 'image' || !selectedLayerIds.includes(inpaintRegion.layerId)) setInpaintRegion(null);
+    }, [inpaintRegion, layers, selectedLayerIds]);
+
+    // Runs an AI job with the usual log and cancel button. Resolves to its result, or to
+    // null when it was cancelled or failed.
+    const runLoggedAiJob = async <T,>(work: (signal: AbortSignal) => Promise<T>): Promise<T | null> => {
+        const controller = new AbortController(); generationController.current = controller; const { signal } = controller;
+        setIsLogVisible(true); setRunningJobCount(prev => prev + 1); setError(null);
+        if (aiProcessLog.length > 0) { addLog('---', 'info'); }
+        addLog(`${t('layerComposer_ai_log_start')} (${new Date().toLocaleTimeString()})`, 'info');
+        try {
+            const result = await work(signal);
+            if (signal.aborted) return null;
+            addLog(t('layerComposer_ai_log_success'), 'success');
+            return result;
+        } catch (err) {
+            if (!signal.aborted) logError(err, "Unknown error.");
+            return null;
+        } finally {
+            setAiProcessLog(prev => prev.filter(l => l.type !== 'spinner'));
+            setRunningJobCount(prev => Math.max(0, prev - 1));
+            if (generationController.current === controller) generationController.current = null;
+        }
+    };
+
+    // Sends a repaint job to the model. Resolves to the prepared job and the redrawn
+    // pixels, or null when it was cancelled or failed.
+    const runRepaintJob = <T extends { job: RepaintJob }>(prepare: () => Promise<T>, prompt: string) => runLoggedAiJob(async signal => {
+        const prepared = await prepare();
+        addLog(t('layerComposer_ai_log_generating'), 'spinner');
+        const resultUrl = await inpaintImage(createMarkedImage(prepared.job), prompt, removeWatermark, { signal });
+        return { ...prepared, url: await extractRepaintedRegion(prepared.job, resultUrl) };
+    });
+
+    // Puts a new layer right above or below another one, in its group, as one history
+    // step; without an anchor it goes to the bottom. Reads the latest state, since it
+    // runs after an AI job.
+    const insertLayerBeside = (newLayer: Layer, anchorId: string | null, placement: 'above' | 'below') => {
+        const { layers: currentLayers, history: currentHistory, historyIndex: currentHistoryIndex } = appStateRef.current;
+        const anchorIndex = currentLayers.findIndex(l => l.id === anchorId);
+        const insertAt = anchorIndex < 0 ? currentLayers.length : placement === 'above' ? anchorIndex : anchorIndex + 1;
+        const nextLayers = normalizeLayerTree([...currentLayers.slice(0, insertAt), newLayer, ...currentLayers.slice(insertAt)]);
+        setLayers(nextLayers); setSelectedLayerIds([newLayer.id]);
+        const newHistory = currentHistory.slice(0, currentHistoryIndex + 1); newHistory.push(nextLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
+        interactionStartHistoryState.current = null;
+    };
+
+    // The redrawn region becomes a copy of the layer placed over it; the original is kept.
+    const handleInpaintLayer = async (prompt: string) => {
+        if (!inpaintRegion) return;
+        const layer = layers.find(l => l.id === inpaintRegion.layerId); if (!layer) return;
+        const regionUrl = inpaintRegion.url;
+        const result = await runRepaintJob(async () => ({ job: await createInpaintJob(layer, regionUrl) }), prompt);
+        if (!result) return;
+        insertLayerBeside({ ...layer, id: Math.random().toString(36).substring(2, 9), url: result.url, name: t('layerComposer_inpaint_layerName'), generation: undefined, isLocked: false }, layer.id, 'above');
+        setInpaintRegion(null);
+    };
+
+    // The new margins go into a larger layer under the original, which still covers the middle.
+    const handleOutpaintLayer = async (layerId: string, padding: OutpaintPadding, prompt: string) => {
+        const layer = layers.find(l => l.id === layerId); if (!layer) return;
+        const result = await runRepaintJob(() => createOutpaintJob(layer, padding), prompt);
+        if (!result) return;
+        insertLayerBeside({ ...layer, ...result.box, id: Math.random().toString(36).substring(2, 9), url: result.url, name: t('layerComposer_outpaint_layerName'), mask: undefined, generation: undefined, isLocked: false }, layer.id, 'below');
+    };
+
+    // Whatever part of an artboard no layer covers, such as after enlarging it, is filled
+    // by a new layer at the bottom of the stack.
+    const handleFillArtboard = async (artboardId: string) => {
+        const artboard = artboards.find(a => a.id === artboardId); if (!artboard) return;
+        const bounds: Rect = { x: artboard.x, y: artboard.y, width: artboard.width, height: artboard.height };
+        const result = await runRepaintJob(async () => ({ job: await createFillEmptyJob(layers, bounds) }), '');
+        if (!result) return;
+        insertLayerBeside({
+            id: Math.random().toString(36).substring(2, 9), type: 'image', url: result.url, name: t('layerComposer_outpaint_layerName'), ...bounds,
+            rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false,
+        }, null, 'below');
+    };
+
+    // --- AI recipes ---
+
+    const recipeStatuses = useMemo(() => getRecipeStatuses(layers), [layers]);
+    const staleLayerCount = useMemo(() => Array.from(recipeStatuses.values()).filter(status => status === 'stale').length, [recipeStatuses]);
+
+    // Generates AI layers again in place, in the given order, so each one sees the new
+    // pixels of the ones before it. A new image keeps the layer's width and center. All
+    // of them are one history step.
+    const regenerateLayers = async (layersToRegenerate: Layer[]) => {
+        if (layersToRegenerate.length === 0) return;
+        const updates = await runLoggedAiJob(async signal => {
+            let workingLayers = layers;
+            const updates: { id: string; props: Partial<Layer> }[] = [];
+            for (const { id } of layersToRegenerate) {
+                const layer = workingLayers.find(l => l.id === id);
+                if (signal.aborted || !layer?.generation) continue;
+                addLog(t('layerComposer_recipe_log_regenerating', layer.name || layer.generation.userPrompt || layer.id), 'spinner');
+                const result = await rerunRecipe(layer.generation, workingLayers, presets, language, 1);
+                const image = await loadImage(result.urls[0]);
+                const height = layer.width * image.naturalHeight / image.naturalWidth;
+                const props: Partial<Layer> = { url: result.urls[0], generation: result.recipe, height, y: layer.y + (layer.height - height) / 2 };
+                setAiProcessLog(prev => prev.filter(l => l.type !== 'spinner'));
+                updates.push({ id, props });
+                workingLayers = applyLayerUpdates(workingLayers, [{ id, props }]);
+            }
+            return updates;
+        });
+        if (!updates || updates.length === 0) return;
+        const { layers: currentLayers, history: currentHistory, historyIndex: currentHistoryIndex } = appStateRef.current;
+        const nextLayers = applyLayerUpdates(currentLayers, updates); setLayers(nextLayers);
+        const newHistory = currentHistory.slice(0, currentHistoryIndex + 1); newHistory.push(nextLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
+        interactionStartHistoryState.current = null;
+    };
+
+    const handleRegenerateLayer = (layerId: string) => {
+        const layer = layers.find(l => l.id === layerId); if (!layer?.generation) return;
+        regenerateLayers([layer]);
+    };
+
+    // Brings the given AI layers (all of them without ids) up to date with their inputs,
+    // along with any stale AI layers they are made from.
+    const handleUpdateStaleLayers = (layerIds?: string[]) => {
+        regenerateLayers(getStaleLayersInOrder(layers, recipeStatuses, layerIds ?? layers.map(l => l.id)));
+    };
+
+    // New layers from the same recipe next to the layer, numbered after its existing variations.
+    const handleMakeVariations = async (layerId: string) => {
+        const layer = layers.find(l => l.id === layerId); const recipe = layer?.generation; if (!layer || !recipe) return;
+        const result = await runLoggedAiJob(async () => {
+            addLog(t('layerComposer_ai_log_generating'), 'spinner');
+            const { urls, recipe: nextRecipe } = await rerunRecipe(recipe, layers, presets, language, aiNumberOfImages);
+            addLog(t('layerComposer_ai_log_generatedCount', urls.length), 'info');
+            return { images: await Promise.all(urls.map(loadImage)), recipe: nextRecipe };
+        });
+        if (!result) return;
+        const lastVariation = Math.max(recipe.variation, ...appStateRef.current.layers.filter(l => l.generation?.id === recipe.id).map(l => l.generation?.variation ?? 0));
+        addImagesAsLayers(result.images, { x: layer.x + layer.width + 20, y: layer.y }, result.images.map((_, i) => ({ generation: { ...result.recipe, variation: lastVariation + 1 + i } })));
+    };
+
     const handleMoveLayers = useCallback((direction: 'up' | 'down') => {
         if (selectedLayerIds.length === 0) return; beginInteraction();
-        const newLayers = [...layers]; const selectedIndices = selectedLayerIds.map(id => newLayers.findIndex(l => l.id === id)).filter(index => index !== -1).sort((a, b) => a - b);
-        if (direction === 'up') {
-            for (let i = 0; i < selectedIndices.length; i++) {
-                const currentIndex = selectedIndices[i];
-                if (currentIndex > 0 && !selectedIndices.includes(currentIndex - 1)) {
-                    const [item] = newLayers.splice(currentIndex, 1); newLayers.splice(currentIndex - 1, 0, item);
-                    for (let j = i + 1; j < selectedIndices.length; j++) { selectedIndices[j]--; }
-                }
-            }
-        } else {
-            for (let i = selectedIndices.length - 1; i >= 0; i--) {
-                const currentIndex = selectedIndices[i];
-                if (currentIndex < newLayers.length - 1 && !selectedIndices.includes(currentIndex + 1)) {
-                    const [item] = newLayers.splice(currentIndex, 1); newLayers.splice(currentIndex + 1, 0, item);
-                    for (let j = 0; j < i; j++) { selectedIndices[j]++; }
-                }
-            }
-        }
-        reorderLayers(newLayers);
+        reorderLayers(moveLayersWithinParents(layers, selectedLayerIds, direction));
     }, [layers, selectedLayerIds, reorderLayers, beginInteraction]);
     
     const handleSelectLayer = useCallback((id: string) => { setSelectedLayerIds([id]); }, []);
 
+    // --- Groups ---
+
+    const handleGroupSelectedLayers = useCallback(() => {
+        const result = groupLayers(layers, selectedLayerIds); if (!result) return;
+        beginInteraction(); setLayers(result.layers); setSelectedLayerIds([result.group.id]);
+        const newHistory = history.slice(0, historyIndex + 1); newHistory.push(result.layers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
+        interactionStartHistoryState.current = null;
+    }, [layers, selectedLayerIds, history, historyIndex, beginInteraction]);
+
+    const handleUngroupSelectedLayers = useCallback(() => {
+        const groups = selectedLayers.filter(l => l.type === 'group'); if (groups.length === 0) return; beginInteraction();
+        let newLayers = layers; const releasedIds: string[] = [];
+        groups.forEach(group => { const result = ungroupLayer(newLayers, group.id); newLayers = result.layers; releasedIds.push(...result.released.map(l => l.id)); });
+        setLayers(newLayers); setSelectedLayerIds([...selectedLayerIds.filter(id => !groups.some(g => g.id === id)), ...releasedIds]);
+        const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
+        interactionStartHistoryState.current = null;
+    }, [layers, selectedLayers, selectedLayerIds, history, historyIndex, beginInteraction]);
+
     const handleMultiLayerAction = useCallback((action: MultiLayerAction) => {
-        switch (action) { case 'delete': deleteSelectedLayers(); return; case 'duplicate': duplicateSelectedLayers(); return; case 'export': handleExportSelectedLayers(); return; }
+        switch (action) { case 'delete': deleteSelectedLayers(); return; case 'duplicate': duplicateSelectedLayers(); return; case 'export': handleExportSelectedLayers(); return; case 'export-svg': handleExportSelectedLayersAs('svg'); return; case 'export-pdf': handleExportSelectedLayersAs('pdf'); return; case 'group': handleGroupSelectedLayers(); return; }
+        // A layer whose group is also selected moves with the group.
+        const arrangedLayers = pruneNestedLayers(layers, selectedLayers);
         if (selectedLayers.length < 2) return; beginInteraction();
         if (action === 'merge') { handleMergeLayers(); return; }
-        const bbox = getBoundingBoxForLayers(selectedLayers); if (!bbox) { interactionStartHistoryState.current = null; return; }
+        const bbox = getBoundingBoxForLayers(arrangedLayers, layers); if (!bbox || arrangedLayers.length < 2) { interactionStartHistoryState.current = null; return; }
         const updates: { id: string; props: Partial<Layer> }[] = []; const GAP = 10;
+        // Aligning and distributing go by what each layer covers on the canvas, so rotated layers and groups line up by their visible edges.
+        const boxes = new Map(arrangedLayers.map(l => [l.id, getBoundingBoxForLayers([l], layers) || l]));
+        const box = (l: Layer) => boxes.get(l.id)!;
         switch (action) {
-            case 'align-left': selectedLayers.forEach(l => updates.push({ id: l.id, props: { x: bbox.x }})); break;
-            case 'align-center': selectedLayers.forEach(l => updates.push({ id: l.id, props: { x: bbox.x + (bbox.width / 2) - (l.width / 2) }})); break;
-            case 'align-right': selectedLayers.forEach(l => updates.push({ id: l.id, props: { x: bbox.x + bbox.width - l.width }})); break;
-            case 'align-top': selectedLayers.forEach(l => updates.push({ id: l.id, props: { y: bbox.y }})); break;
-            case 'align-middle': selectedLayers.forEach(l => updates.push({ id: l.id, props: { y: bbox.y + (bbox.height / 2) - (l.height / 2) }})); break;
-            case 'align-bottom': selectedLayers.forEach(l => updates.push({ id: l.id, props: { y: bbox.y + bbox.height - l.height }})); break;
-            case 'distribute-horizontal': { const sorted = [...selectedLayers].sort((a,b) => a.x - b.x); if (sorted.length < 2) break; const totalW = sorted.reduce((s, l) => s + l.width, 0); const gap = (bbox.width - totalW) / (sorted.length - 1); let currentX = bbox.x; sorted.forEach(l => { updates.push({ id: l.id, props: { x: currentX } }); currentX += l.width + gap; }); break; }
-            case 'distribute-vertical': { const sorted = [...selectedLayers].sort((a,b) => a.y - b.y); if (sorted.length < 2) break; const totalH = sorted.reduce((s, l) => s + l.height, 0); const gap = (bbox.height - totalH) / (sorted.length - 1); let currentY = bbox.y; sorted.forEach(l => { updates.push({ id: l.id, props: { y: currentY } }); currentY += l.height + gap; }); break; }
-            case 'distribute-and-scale-horizontal': { const sorted = [...selectedLayers].sort((a, b) => a.x - b.x); if (sorted.length === 0) break; const totalHeight = sorted.reduce((sum, l) => sum + l.height, 0); const avgHeight = totalHeight / sorted.length; if (avgHeight <= 0) break; let currentX = bbox.x; sorted.forEach(layer => { const aspectRatio = (layer.height > 0) ? layer.width / layer.height : 1; const newWidth = avgHeight * aspectRatio; updates.push({ id: layer.id, props: { width: newWidth, height: avgHeight, x: currentX, y: bbox.y } }); currentX += newWidth + GAP; }); break; }
-            case 'distribute-and-scale-vertical': { const sorted = [...selectedLayers].sort((a, b) => a.y - b.y); if (sorted.length === 0) break; const totalWidth = sorted.reduce((sum, l) => sum + l.width, 0); const avgWidth = totalWidth / sorted.length; if (avgWidth <= 0) break; let currentY = bbox.y; sorted.forEach(layer => { const aspectRatio = (layer.width > 0) ? layer.height / layer.width : 1; const newHeight = avgWidth * aspectRatio; updates.push({ id: layer.id, props: { width: avgWidth, height: newHeight, x: bbox.x, y: currentY } }); currentY += newHeight + GAP; }); break; }
+            case 'align-left': arrangedLayers.forEach(l => updates.push({ id: l.id, props: { x: l.x + bbox.x - box(l).x }})); break;
+            case 'align-center': arrangedLayers.forEach(l => updates.push({ id: l.id, props: { x: l.x + bbox.x + (bbox.width / 2) - (box(l).x + box(l).width / 2) }})); break;
+            case 'align-right': arrangedLayers.forEach(l => updates.push({ id: l.id, props: { x: l.x + bbox.x + bbox.width - (box(l).x + box(l).width) }})); break;
+            case 'align-top': arrangedLayers.forEach(l => updates.push({ id: l.id, props: { y: l.y + bbox.y - box(l).y }})); break;
+            case 'align-middle': arrangedLayers.forEach(l => updates.push({ id: l.id, props: { y: l.y + bbox.y + (bbox.height / 2) - (box(l).y + box(l).height / 2) }})); break;
+            case 'align-bottom': arrangedLayers.forEach(l => updates.push({ id: l.id, props: { y: l.y + bbox.y + bbox.height - (box(l).y + box(l).height) }})); break;
+            case 'distribute-horizontal': { const sorted = [...arrangedLayers].sort((a,b) => box(a).x - box(b).x); if (sorted.length < 2) break; const totalW = sorted.reduce((s, l) => s + box(l).width, 0); const gap = (bbox.width - totalW) / (sorted.length - 1); let currentX = bbox.x; sorted.forEach(l => { updates.push({ id: l.id, props: { x: l.x + currentX - box(l).x } }); currentX += box(l).width + gap; }); break; }
+            case 'distribute-vertical': { const sorted = [...arrangedLayers].sort((a,b) => box(a).y - box(b).y); if (sorted.length < 2) break; const totalH = sorted.reduce((s, l) => s + box(l).height, 0); const gap = (bbox.height - totalH) / (sorted.length - 1); let currentY = bbox.y; sorted.forEach(l => { updates.push({ id: l.id, props: { y: l.y + currentY - box(l).y } }); currentY += box(l).height + gap; }); break; }
+            case 'distribute-and-scale-horizontal': { const sorted = [...arrangedLayers].sort((a, b) => a.x - b.x); if (sorted.length === 0) break; const totalHeight = sorted.reduce((sum, l) => sum + l.height, 0); const avgHeight = totalHeight / sorted.length; if (avgHeight <= 0) break; let currentX = bbox.x; sorted.forEach(layer => { const aspectRatio = (layer.height > 0) ? layer.width / layer.height : 1; const newWidth = avgHeight * aspectRatio; updates.push({ id: layer.id, props: { width: newWidth, height: avgHeight, x: currentX, y: bbox.y } }); currentX += newWidth + GAP; }); break; }
+            case 'distribute-and-scale-vertical': { const sorted = [...arrangedLayers].sort((a, b) => a.y - b.y); if (sorted.length === 0) break; const totalWidth = sorted.reduce((sum, l) => sum + l.width, 0); const avgWidth = totalWidth / sorted.length; if (avgWidth <= 0) break; let currentY = bbox.y; sorted.forEach(layer => { const aspectRatio = (layer.width > 0) ? layer.height / layer.width : 1; const newHeight = avgWidth * aspectRatio; updates.push({ id: layer.id, props: { width: avgWidth, height: newHeight, x: bbox.x, y: currentY } }); currentY += newHeight + GAP; }); break; }
         }
         if (updates.length > 0) { updateMultipleLayers(updates, true); } else { interactionStartHistoryState.current = null; }
-    }, [selectedLayers, layers, beginInteraction, updateMultipleLayers, deleteSelectedLayers, duplicateSelectedLayers, handleExportSelectedLayers, handleMergeLayers]);
+    }, [selectedLayers, layers, beginInteraction, updateMultipleLayers, deleteSelectedLayers, duplicateSelectedLayers, handleExportSelectedLayers, handleExportSelectedLayersAs, handleMergeLayers, handleGroupSelectedLayers]);
     
     const handleBakeSelectedLayer = useCallback(async () => {
         if (selectedLayers.length !== 1) return; const layerToBake = selectedLayers[0];
         beginInteraction(); setRunningJobCount(prev => prev + 1); setError(null);
         try {
-            const bbox = getBoundingBoxForLayers([layerToBake]); if (!bbox) throw new Error("Could not calculate layer bounds.");
-            const bakedImageUrl = await captureCanvas([layerToBake], bbox, null);
-            const newLayer: Layer = { id: Math.random().toString(36).substring(2, 9), type: 'image', url: bakedImageUrl, x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height, rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: layerToBake.isVisible, isLocked: false, fontWeight: 'normal', fontStyle: 'normal', textTransform: 'none', textAlign: undefined, color: undefined, lineHeight: undefined, };
+            const bbox = getBoundingBoxForLayers([layerToBake], layers); if (!bbox) throw new Error("Could not calculate layer bounds.");
+            // An adjustment layer bakes into the adjusted pixels it puts over the layers below,
+            // keeping its opacity and blend mode so the result looks the same. A group bakes
+            // with its contents into a single image.
+            const isAdjustment = layerToBake.type === 'adjustment';
+            const bakedImageUrl = isAdjustment || layerToBake.type === 'group' ? await captureLayer(layerToBake, layers) : await captureCanvas([layerToBake], bbox, null);
+            const newLayer: Layer = { id: Math.random().toString(36).substring(2, 9), type: 'image', url: bakedImageUrl, x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height, rotation: 0, opacity: isAdjustment ? layerToBake.opacity : 100, blendMode: isAdjustment ? layerToBake.blendMode : 'source-over', isVisible: layerToBake.isVisible, isLocked: false, fontWeight: 'normal', fontStyle: 'normal', textTransform: 'none', textAlign: undefined, color: undefined, lineHeight: undefined, parentId: layerToBake.parentId, };
             const oldLayers = layers; const oldHistoryIndex = historyIndex;
-            const newLayers = oldLayers.map(l => l.id === layerToBake.id ? newLayer : l);
+            const bakedIds = new Set(getLayersWithDescendants(oldLayers, [layerToBake.id]).map(l => l.id));
+            const newLayers = oldLayers.flatMap(l => l.id === layerToBake.id ? [newLayer] : bakedIds.has(l.id) ? [] : [l]);
             setLayers(newLayers); setSelectedLayerIds([newLayer.id]);
             const newHistory = history.slice(0, oldHistoryIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
             interactionStartHistoryState.current = null;
             if (editingMaskForLayerId === layerToBake.id) { setEditingMaskForLayerId(null); setRectBorderRadius(0); }
-        } catch (err) { const errorMessage = err instanceof Error ? err.message : "Unknown error."; setError(t('layerComposer_error', errorMessage)); }
+        } catch (err) { const errorMessage = getErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
         finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
     }, [selectedLayers, layers, history, historyIndex, beginInteraction, editingMaskForLayerId, setLayers, setHistory, setHistoryIndex, setSelectedLayerIds, setError, t]);
 
@@ -844,27 +1040,31 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
             const layersToCaptureCount = selectedLayers.length > 0 ? selectedLayers.length : 0;
             if (layersToCaptureCount > 0) { addLog(t('layerComposer_ai_log_capturingLayers', layersToCaptureCount), 'info'); }
             else { addLog(t('layerComposer_ai_log_noLayersSelected'), 'info'); }
-            const isBatchMode = !isSimpleImageMode && selectedLayers.length > 1; let resultUrls: string[] = [];
+            const isBatchMode = !isSimpleImageMode && selectedLayers.length > 1; let results: { url: string; recipe: GenerationRecipe }[] = [];
+            // The preset file goes into each layer's recipe, so the layer can be generated again.
+            const runPreset = async (inputLayers: Layer[]) => {
+                const recipe: GenerationRecipe = { id: Math.random().toString(36).substring(2, 9), mode: 'preset', userPrompt: '', prompt: '', appPreset: loadedPreset, inputs: getGenerationInputs(inputLayers, layers), variation: 0 };
+                const urls = await generateFromRecipe(recipe, await Promise.all(inputLayers.map(l => captureLayer(l, layers))), 1);
+                return urls.map((url, variation) => ({ url, recipe: { ...recipe, variation } }));
+            };
             addLog(t('layerComposer_ai_log_generating'), 'spinner');
             if (isBatchMode) {
                 addLog(`Starting batch generation for ${selectedLayers.length} layers.`, 'info');
-                const generationPromises = selectedLayers.map(async (layer) => { const layerUrl = await captureLayer(layer); return generateFromPreset(loadedPreset, [layerUrl]); });
-                const resultsFromAllLayers = await Promise.all(generationPromises); resultUrls = resultsFromAllLayers.flat();
-            } else { const selectedLayerUrls = await Promise.all(selectedLayers.map(l => captureLayer(l))); resultUrls = await generateFromPreset(loadedPreset, selectedLayerUrls); }
+                const resultsFromAllLayers = await Promise.all(selectedLayers.map(layer => runPreset([layer]))); results = resultsFromAllLayers.flat();
+            } else { results = await runPreset(selectedLayers); }
             setAiProcessLog(prev => prev.filter(l => l.type !== 'spinner'));
-            if (resultUrls.length === 0) { throw new Error(t('layerComposer_ai_log_noImagesGenerated')); }
-            addLog(t('layerComposer_ai_log_generatedCount', resultUrls.length), 'info'); addLog(t('layerComposer_ai_log_loadingResults'), 'info');
-            const imageLoadPromises = resultUrls.map(url => new Promise<HTMLImageElement>((resolve, reject) => { const img = new Image(); img.crossOrigin = "Anonymous"; img.onload = () => resolve(img); img.onerror = reject; img.src = url; }));
+            if (results.length === 0) { throw new Error(t('layerComposer_ai_log_noImagesGenerated')); }
+            addLog(t('layerComposer_ai_log_generatedCount', results.length), 'info'); addLog(t('layerComposer_ai_log_loadingResults'), 'info');
+            const imageLoadPromises = results.map(({ url }) => new Promise<HTMLImageElement>((resolve, reject) => { const img = new Image(); img.crossOrigin = "Anonymous"; img.onload = () => resolve(img); img.onerror = reject; img.src = url; }));
             const loadedImages = await Promise.all(imageLoadPromises);
             addLog(t('layerComposer_ai_log_addingLayers', loadedImages.length), 'info');
             const referenceBounds = getBoundingBoxForLayers(selectedLayers.length > 0 ? selectedLayers : layers.slice(-1));
-            const position = referenceBounds ? { x: referenceBounds.x + referenceBounds.width + 20, y: referenceBounds.y } : undefined; addImagesAsLayers(loadedImages, position);
+            const position = referenceBounds ? { x: referenceBounds.x + referenceBounds.width + 20, y: referenceBounds.y } : undefined; addImagesAsLayers(loadedImages, position, results.map(({ recipe }) => ({ generation: recipe })));
             addLog(t('layerComposer_ai_log_success'), 'success');
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Unknown error during preset generation.";
-            setError(errorMessage); setAiProcessLog(prev => prev.filter(l => l.type !== 'spinner')); addLog(t('layerComposer_ai_log_error', errorMessage), 'error');
+            setAiProcessLog(prev => prev.filter(l => l.type !== 'spinner')); logError(err, "Unknown error during preset generation.");
         } finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
-    }, [loadedPreset, selectedLayers, layers, t, isSimpleImageMode, addLog, aiProcessLog.length]);
+    }, [loadedPreset, selectedLayers, layers, t, isSimpleImageMode, addLog, logError, aiProcessLog.length]);
 
 
     useEffect(() => {
@@ -879,11 +1079,15 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
             const isDelete = (e.code === 'Delete' || e.code === 'Backspace'); const isDuplicate = (e.metaKey || e.ctrlKey) && e.code === 'KeyJ';
             const isMoveDown = (e.metaKey || e.ctrlKey) && e.code === 'BracketLeft'; const isMoveUp = (e.metaKey || e.ctrlKey) && e.code === 'BracketRight';
             const isDeselectAll = (e.metaKey || e.ctrlKey) && e.code === 'KeyD'; const isExport = (e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'e';
+            const isGroup = (e.metaKey || e.ctrlKey) && e.code === 'KeyG' && !e.shiftKey; const isUngroup = (e.metaKey || e.ctrlKey) && e.code === 'KeyG' && e.shiftKey;
             const isToggleChatbot = e.code === 'Backquote';
+            if (e.code === 'Escape' && editingMaskForLayerId) { e.preventDefault(); setEditingMaskForLayerId(null); return; }
+            if (e.code === 'Escape' && inpaintRegion) { e.preventDefault(); setInpaintRegion(null); return; }
             if (isToggleChatbot) { e.preventDefault(); setIsChatbotOpen(v => !v); return; }
             if (selectedLayerIds.length > 0) {
                 if (isDelete) { e.preventDefault(); deleteSelectedLayers(); return; } if (isDuplicate) { e.preventDefault(); duplicateSelectedLayers(); return; }
                 if (isMoveDown) { e.preventDefault(); handleMoveLayers('down'); return; } if (isMoveUp) { e.preventDefault(); handleMoveLayers('up'); return; }
+                if (isGroup) { e.preventDefault(); handleGroupSelectedLayers(); return; } if (isUngroup) { e.preventDefault(); handleUngroupSelectedLayers(); return; }
                 if (isExport) { e.preventDefault(); handleExportSelectedLayers(); return; }
             }
             if (isDeselectAll) { e.preventDefault(); setSelectedLayerIds([]); return; }
@@ -895,6 +1099,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                     case 'KeyH': setActiveCanvasTool('hand'); handled = true; break;
                     case 'KeyR': setActiveCanvasTool('rectangle'); handled = true; break;
                     case 'KeyE': setActiveCanvasTool('ellipse'); handled = true; break;
+                    case 'KeyP': setActiveCanvasTool('pen'); handled = true; break;
                 }
                 if (handled) e.preventDefault();
             }
@@ -902,7 +1107,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         const handleKeyUp = (e: KeyboardEvent) => { if (!isOpen) return; if (e.code === 'Space') { setIsSpacePanning(false); } };
         window.addEventListener('keydown', handleKeyDown); window.addEventListener('keyup', handleKeyUp);
         return () => { window.removeEventListener('keydown', handleKeyDown); window.removeEventListener('keyup', handleKeyUp); };
-    }, [ isOpen, handleUndo, handleRedo, deleteSelectedLayers, duplicateSelectedLayers, handleMoveLayers, setSelectedLayerIds, selectedLayerIds, activeCanvasTool, selectedLayer, handleExportSelectedLayers ]);
+    }, [ isOpen, handleUndo, handleRedo, deleteSelectedLayers, duplicateSelectedLayers, handleMoveLayers, setSelectedLayerIds, selectedLayerIds, activeCanvasTool, selectedLayer, handleExportSelectedLayers, editingMaskForLayerId, inpaintRegion, handleGroupSelectedLayers, handleUngroupSelectedLayers ]);
 
     useEffect(() => {
         const handleTabKey = (e: KeyboardEvent) => {
@@ -927,21 +1132,21 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                 if (appConfig && (appConfig as any).supportsCanvasPreset) { setLoadedPreset(settingsData); }
                 else { throw new Error(`The app "${settingsData.viewId}" does not support presets.`); }
             } else { throw new Error("Invalid preset file format."); }
-        } catch (e) { console.error("Failed to load preset file", e); setError(e instanceof Error ? e.message : "Could not read preset file."); }
+        } catch (e) { console.error("Failed to load preset file", e); setError(getErrorMessage(e, t, "Could not read preset file.")); }
     };
     
     const deleteLayer = useCallback((layerId: string) => {
         if (!layerId) return; beginInteraction();
-        const newLayers = layers.filter(l => l.id !== layerId); setLayers(newLayers);
+        const removedIds = new Set(getLayersWithDescendants(layers, [layerId]).map(l => l.id));
+        const newLayers = normalizeLayerTree(layers.filter(l => !removedIds.has(l.id))); setLayers(newLayers);
         const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
         interactionStartHistoryState.current = null; setSelectedLayerIds(ids => ids.filter(id => id !== layerId));
     }, [layers, history, historyIndex, beginInteraction]);
     
     const duplicateLayer = useCallback((layerId: string): Layer => {
-        beginInteraction(); let newLayers = [...layers]; const layerToDup = layers.find(l => l.id === layerId);
+        beginInteraction(); const layerToDup = layers.find(l => l.id === layerId);
         if (!layerToDup) { console.error("Layer to duplicate not found:", layerId); return { id: '', type: 'image', x:0, y:0, width:0, height:0, rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false }; }
-        const newLayer: Layer = { ...layerToDup, id: Math.random().toString(36).substring(2, 9), x: layerToDup.x + 20, y: layerToDup.y + 20 };
-        const originalIndex = layers.findIndex(l => l.id === layerId); newLayers.splice(originalIndex >= 0 ? originalIndex : 0, 0, newLayer);
+        const { layers: newLayers, duplicates: [newLayer] } = duplicateLayers(layers, [layerId], { x: 20, y: 20 });
         setLayers(newLayers); setSelectedLayerIds([newLayer.id]);
         const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
         interactionStartHistoryState.current = null;
@@ -951,13 +1156,13 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     return {
         isOpen, t, imageGallery, generationHistory, canvasSettings, isInfiniteCanvas, canvasInitialized, layers, history, historyIndex, selectedLayerIds,
         selectedLayers, selectionBoundingBox, isGalleryOpen, isWebcamOpen, runningJobCount, error, isConfirmingClose, isConfirmingNew, aiPrompt, isSimpleImageMode,
-        aiPreset, presets, aiProcessLog, isLogVisible, isChatbotOpen, loadedPreset, activeCanvasTool, shapeFillColor, hasAiLog: aiProcessLog.length > 0,
+        aiPreset, presets, aiProcessLog, isLogVisible, isChatbotOpen, loadedPreset, activeCanvasTool, shapeFillColor, shapeSides, hasAiLog: aiProcessLog.length > 0,
         selectedLayersForPreset: selectedLayers, selectedLayerId: selectedLayer?.id || null, panX, panY, scale, zoomDisplay, canvasViewRef, fileInputRef,
         panStartRef, isSpacePanning, interaction, setCanvasSettings, setIsInfiniteCanvas, setCanvasInitialized, setLayers, setHistory, setHistoryIndex,
         setSelectedLayerIds, setIsGalleryOpen, setIsWebcamOpen, setRunningJobCount, setError, setInteraction, setIsConfirmingClose, setIsConfirmingNew,
         setAiPrompt, setIsSimpleImageMode, setAiPreset, setPresets, setAiProcessLog, setIsLogVisible, setIsChatbotOpen, setLoadedPreset,
-        setActiveCanvasTool, setShapeFillColor, handleUndo, canUndo, handleRedo, canRedo, beginInteraction, handleCloseAndReset, handleAddImage,
-        handleCloseChatbot, handleConfirmNew, onHide, onClose: handleRequestClose, onSave: handleSave, onNew: handleNew, onAddText: handleAddTextLayer,
+        setActiveCanvasTool, setShapeFillColor, setShapeSides, handleUndo, canUndo, handleRedo, canRedo, beginInteraction, handleCloseAndReset, handleAddImage,
+        handleCloseChatbot, handleConfirmNew, onHide, onClose: handleRequestClose, onSave: handleSave, onExportOra: handleExportOra, onNew: handleNew, onAddText: handleAddTextLayer,
         onAddImage: () => setIsGalleryOpen(true), onCanvasSettingsChange: setCanvasSettings, onLayerDelete: deleteSelectedLayers,
         onLayerSelect: handleSelectLayer, onLayerUpdate: updateLayerProperties, onLayersReorder: reorderLayers, onGenerateAILayer: handleGenerateAILayer,
         onCancelGeneration: handleCancelGeneration, onPresetFileLoad: handlePresetFile, onGenerateFromPreset: handleGenerateFromPreset,
@@ -966,6 +1171,15 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         onDuplicateForDrag: handleDuplicateForDrag, handleMergeLayers, openImageEditor, deleteSelectedLayers, duplicateSelectedLayers,
         handleExportSelectedLayers, handleBakeSelectedLayer, captureLayer, addLayer, deleteLayer, duplicateLayer, handleCreateNew, handleUploadClick,
         handleFileSelected, handleStartScreenDragOver, handleStartScreenDragLeave, handleStartScreenDrop, isStartScreenDraggingOver,
-        aiNumberOfImages, setAiNumberOfImages, aiAspectRatio, setAiAspectRatio, removeWatermark, setRemoveWatermark
+        aiNumberOfImages, setAiNumberOfImages, aiAspectRatio, setAiAspectRatio, removeWatermark, setRemoveWatermark,
+        onAddAdjustmentLayer: handleAddAdjustmentLayer, editingMaskForLayerId, onEditMask: setEditingMaskForLayerId, maskBrush, setMaskBrush,
+        onAddMask: handleAddMask, onRemoveMask: handleRemoveMask, onCommitMaskStroke: handleCommitMaskStroke, onCreateMaskFromSelection: handleCreateMaskFromSelection,
+        inpaintRegion, onEditInpaintRegion: handleEditInpaintRegion, inpaintBrush, setInpaintBrush, onCommitInpaintStroke: handleCommitInpaintStroke,
+        onInpaintRegionFromSelection: handleInpaintRegionFromSelection, onInpaintLayer: handleInpaintLayer, onOutpaintLayer: handleOutpaintLayer,
+        recipeStatuses, staleLayerCount, onRegenerateLayer: handleRegenerateLayer, onMakeVariations: handleMakeVariations, onUpdateStaleLayers: handleUpdateStaleLayers,
+        onGroupLayers: handleGroupSelectedLayers, onUngroupLayers: handleUngroupSelectedLayers,
+        artboards, selectedArtboardIds, onAddArtboard: handleAddArtboard, onUpdateArtboard: handleUpdateArtboard, onDeleteArtboard: handleDeleteArtboard,
+        onSelectArtboard: handleSelectArtboard, onExportArtboards: handleExportArtboards, onFillArtboard: handleFillArtboard, onExportSelectedLayersAs: handleExportSelectedLayersAs,
+        ...collab, onJoinCollabRoom: handleJoinCollabRoom
     };
 }
\ No newline at end of file
@@ -5,6 +5,7 @@
 import React, { useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { downloadImage } from './uiUtils';
+import { StoredImage } from './StoredImage';
 import { DownloadIcon } from './icons';
 
 interface LightboxProps {
@@ -69,7 +70,7 @@ const Lightbox: React.FC<LightboxProps> = ({ images, selectedIndex, onClose, onN
                                         className="gallery-lightbox-img"
                                     />
                                 ) : (
-                                    <img
+                                    <StoredImage
                                         src={images[selectedIndex]}
                                         alt={`Generated image ${selectedIndex + 1}`}
                                         className="gallery-lightbox-img"
@@ -4,7 +4,7 @@
 */
 import React, { useState, ChangeEvent, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { restoreOldPhoto, editImageWithPrompt } from '../services/geminiService';
+import { restoreOldPhoto } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -19,11 +19,12 @@ import {
     useLightbox,
     processAndDownloadAll,
     useAppControls,
-    embedJsonInPng,
+    useBatchGeneration,
+    applySingleResult,
+    SINGLE_RESULT_KEY,
     getInitialStateForApp,
 } from './uiUtils';
 import toast from 'react-hot-toast';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
 
 interface PhotoRestorationProps {
     mainTitle: string;
@@ -48,7 +49,18 @@ const PhotoRestoration: React.FC<PhotoRestorationProps> = (props) => {
         ...headerProps 
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<PhotoRestorationState>('photo-restoration', {
+        generate: (_key, state, { signal }) => restoreOldPhoto(state.uploadedImage, state.options, { signal }),
+        applyResult: applySingleResult,
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getJobLabel: () => t('jobsTray_generateLabel'),
+        onComplete: (_state, failedKeys) => { if (failedKeys.length === 0) toast.success(`Phục chế thành công.`); },
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
     
     // State for searchable nationality dropdown
@@ -117,79 +129,13 @@ const PhotoRestoration: React.FC<PhotoRestorationProps> = (props) => {
     const executeInitialGeneration = async () => {
         if (!appState.uploadedImage) return;
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-        
         const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            const resultUrl = await restoreOldPhoto(appState.uploadedImage, appState.options);
-            
-             // Deduct Credit
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Phục chế thành công.`);
-
-            const settingsToEmbed = {
-                viewId: 'photo-restoration',
-                state: { ...appState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('photo-restoration', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImage: urlWithMetadata,
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startBatch({ ...appState, stage: 'generating', error: null }, [SINGLE_RESULT_KEY], preGenState);
     };
     
     const handleRegeneration = async (prompt: string) => {
         if (!appState.generatedImage) return;
-
-         // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
-        const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            const resultUrl = await editImageWithPrompt(appState.generatedImage, prompt);
-            
-             // Deduct Credit
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Chỉnh sửa thành công.`);
-
-            const settingsToEmbed = {
-                viewId: 'photo-restoration',
-                state: { ...appState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('photo-restoration', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImage: urlWithMetadata,
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startEdit({ ...appState, stage: 'generating', error: null }, SINGLE_RESULT_KEY, { sourceUrl: appState.generatedImage, prompt }, appState);
     };
     
     const handleUploadedImageChange = (newUrl: string | null) => {
@@ -6,6 +6,7 @@ import React, { memo, type DragEvent, type MouseEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '../lib/utils';
 import { useAppControls } from './uiUtils';
+import { StoredImage } from './StoredImage';
 import { 
     LoadingSpinnerIcon, 
     ErrorIcon, 
@@ -129,9 +130,9 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ mediaUrl, caption, status,
                                 className="w-full h-auto md:w-auto md:h-full block"
                             />
                         ) : (
-                            <img
+                            <StoredImage
                                 key={mediaUrl}
-                                src={mediaUrl}
+                                src={mediaUrl!}
                                 alt={caption}
                                 loading="lazy"
                                 className="w-full h-auto md:w-auto md:h-full block"
@@ -5,7 +5,7 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generateSpring2026Image, editImageWithPrompt } from '../services/geminiService';
+import { generateSpring2026Image } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -20,9 +20,10 @@ import {
     useVideoGeneration,
     processAndDownloadAll,
     useAppControls,
-    embedJsonInPng,
+    useBatchGeneration,
+    applySingleResult,
+    SINGLE_RESULT_KEY,
 } from './uiUtils';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
 
 interface Spring2026CreatorProps {
     mainTitle: string;
@@ -45,9 +46,21 @@ const Spring2026Creator: React.FC<Spring2026CreatorProps> = (props) => {
         logGeneration,
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<Spring2026CreatorState>('spring2026Creator', {
+        generate: (_key, state, { signal }) => generateSpring2026Image(state.uploadedImage, state.options, { signal }),
+        applyResult: applySingleResult,
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getJobLabel: () => t('jobsTray_generateLabel'),
+        errorFallback: t('spring2026.error_generic'),
+        onComplete: (_state, failedKeys) => { if (failedKeys.length === 0) toast.success(t('spring2026.status_ready')); },
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
-    const { videoTasks, generateVideo } = useVideoGeneration();
+    const { videoTasks, generateVideo } = useVideoGeneration('spring2026Creator');
     const [localNotes, setLocalNotes] = useState(appState.options.notes);
 
     useEffect(() => {
@@ -91,84 +104,13 @@ const Spring2026Creator: React.FC<Spring2026CreatorProps> = (props) => {
     const executeInitialGeneration = async () => {
         if (!appState.uploadedImage) return;
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { 
-            toast.error(t('spring2026.error_no_credits')); 
-            return; 
-        }
-        // --------------------
-
         const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            const resultUrl = await generateSpring2026Image(appState.uploadedImage, appState.options);
-            
-            // Deduct Credit
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(t('spring2026.status_ready'));
-
-            const settingsToEmbed = {
-                viewId: 'spring2026Creator',
-                state: { ...appState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            
-            logGeneration('spring2026Creator', preGenState, urlWithMetadata);
-            
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImage: urlWithMetadata,
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('spring2026.error_generic');
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startBatch({ ...appState, stage: 'generating', error: null }, [SINGLE_RESULT_KEY], preGenState);
     };
 
     const handleRegeneration = async (prompt: string) => {
         if (!appState.generatedImage) return;
-
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { 
-            toast.error(t('spring2026.error_no_credits')); 
-            return; 
-        }
-
-        const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            const resultUrl = await editImageWithPrompt(appState.generatedImage, prompt);
-            
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(t('spring2026.status_ready'));
-
-            const settingsToEmbed = {
-                viewId: 'spring2026Creator',
-                state: { ...appState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('spring2026Creator', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImage: urlWithMetadata,
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('spring2026.error_generic');
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startEdit({ ...appState, stage: 'generating', error: null }, SINGLE_RESULT_KEY, { sourceUrl: appState.generatedImage, prompt }, appState);
     };
 
     const handleBackToOptions = () => {
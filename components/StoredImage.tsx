@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { useImageUrl } from './uiHooks';
+
+interface StoredImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+    src: string;
+}
+
+/**
+ * An <img> that also accepts image store references (`img:<hash>`), loading them lazily.
+ */
+export const StoredImage: React.FC<StoredImageProps> = ({ src, alt, ...props }) => {
+    const url = useImageUrl(src);
+    return <img src={url} alt={alt} {...props} />;
+};
@@ -5,20 +5,21 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import ReactDOM from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAppControls, useImageEditor, type ImageForZip, downloadAllImagesAsZip, downloadJson, useDebounce } from './uiUtils';
+import { useAppControls, useImageEditor, type ImageForZip, downloadAllImagesAsZip, downloadJson, useDebounce, getErrorMessage, showErrorToast } from './uiUtils';
 import { GalleryPicker } from './uiComponents';
 import { useLightbox } from './uiHooks';
 import { downloadImage } from './uiFileUtilities';
-import type { SceneState } from './uiTypes';
+import type { FrameState, PendingGeneration, SceneState } from './uiTypes';
 import { CloseIcon, CloudUploadIcon, UndoIcon, RedoIcon } from './icons';
-import { createScriptSummaryFromIdea, createScriptSummaryFromText, createScriptSummaryFromAudio, developScenesFromSummary, type ScriptSummary, generateVideoPromptFromScenes, refineSceneDescription, refineSceneTransition, startVideoGeneration, pollVideoOperation } from '../services/geminiService';
+import { createScriptSummaryFromIdea, createScriptSummaryFromText, createScriptSummaryFromAudio, developScenesFromSummary, type ScriptSummary, generateVideoPromptFromScenes, refineSceneDescription, refineSceneTransition, startVideoGeneration, pollVideoOperation, downloadGeneratedVideo } from '../services/geminiService';
 import { generateFreeImage } from '../services/gemini/freeGenerationService';
 import toast from 'react-hot-toast';
 import StoryboardingInput from './storyboarding/StoryboardingInput';
 import StoryboardingSummary from './storyboarding/StoryboardingSummary';
 import StoryboardingScenes from './storyboarding/StoryboardingScenes';
 import Lightbox from './Lightbox';
-import * as db from '../lib/db';
+import { clearDocumentWithImages, hydrateImages, isImageRef, loadDocumentWithImages, resolveImageDataUrl, saveDocumentWithImages, storeImage, STORYBOARD_DOCUMENT } from '../lib/imageStore';
+import { claimInterruptedGenerations, clearPendingGeneration, createPendingGeneration, persistPendingGeneration } from '../lib/pendingGenerations';
 
 
 interface StoryboardingModalProps {
@@ -29,8 +30,9 @@ interface StoryboardingModalProps {
 
 type InputMethod = 'prompt' | 'text' | 'audio';
 
-const parseDataUrlForComponent = (imageDataUrl: string): { mimeType: string; data: string } => {
-    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
+// Frames and reference images may be image store references; models get their data.
+const parseDataUrlForComponent = async (imageUrl: string): Promise<{ mimeType: string; data: string }> => {
+    const match = (await resolveImageDataUrl(imageUrl)).match(/^data:(image\/\w+);base64,(.*)$/);
     if (!match) {
         throw new Error("Invalid image data URL format.");
     }
@@ -38,6 +40,45 @@ const parseDataUrlForComponent = (imageDataUrl: string): { mimeType: string; dat
     return { mimeType, data };
 }
 
+// A frame's image source is either an image or the name of where to take one from.
+const isFrameImage = (source: string) => source.startsWith('data:image') || isImageRef(source);
+
+const STORYBOARD_APP_ID = 'storyboarding';
+// Interrupted generations are only looked for on the first load after a page reload.
+let hasCheckedInterruptedGenerations = false;
+
+type FrameGenerationInputs = {
+    sceneIndex: number;
+    frameType: 'start' | 'end';
+    prompt: string;
+    aspectRatio: string;
+    images: (string | undefined)[];
+};
+
+/**
+ * Applies generations interrupted by a reload to the saved scenes: frames and videos that
+ * can be resumed stay pending, anything else left pending goes back to idle.
+ */
+const resumeInterruptedScenes = (scenes: SceneState[], frameRecords: PendingGeneration[], videoRecords: PendingGeneration[]): SceneState[] => {
+    const hasFrameRecord = (index: number, frameType: 'start' | 'end') =>
+        frameRecords.some(record => record.inputs?.sceneIndex === index && record.inputs?.frameType === frameType);
+    return scenes.map((scene, index) => {
+        const videoRecord = videoRecords.find(record => record.key === String(index) && record.operation);
+        const resumed = {
+            ...scene,
+            startFrame: scene.startFrame.status === 'pending' && !hasFrameRecord(index, 'start') ? { ...scene.startFrame, status: 'idle' as const } : scene.startFrame,
+            endFrame: scene.endFrame.status === 'pending' && !hasFrameRecord(index, 'end') ? { ...scene.endFrame, status: 'idle' as const } : scene.endFrame,
+        };
+        if (videoRecord) {
+            return { ...resumed, videoStatus: 'pending' as const, videoOperation: videoRecord.operation, videoError: undefined };
+        }
+        if (scene.videoStatus === 'pending' && !scene.videoOperation) {
+            return { ...resumed, videoStatus: 'idle' as const };
+        }
+        return resumed;
+    });
+};
+
 const dataURLtoFile = (dataUrl: string, filename: string, fileType: string): File => {
     const arr = dataUrl.split(',');
     const bstr = atob(arr[1]);
@@ -100,6 +141,8 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
     useEffect(() => {
         scenesRef.current = scenes;
     }, [scenes]);
+    // Pending-generation record ids of running videos, by scene index.
+    const videoRecordIdsRef = useRef<Record<number, string>>({});
 
 
     const aspectRatioOptions: string[] = t('storyboarding_aspectRatioOptions');
@@ -188,14 +231,14 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
 
     const handleNew = () => {
         resetState();
-        db.clearStoryboardState();
+        clearDocumentWithImages(STORYBOARD_DOCUMENT);
         toast.success("Storyboard mới đã được tạo.");
     };
 
     useEffect(() => {
         if (isOpen) {
             const loadState = async () => {
-                const savedState = await db.loadStoryboardState();
+                const savedState = await loadDocumentWithImages(STORYBOARD_DOCUMENT);
                 if (savedState) {
                     setActiveInput(savedState.activeInput || 'prompt');
                     setIdea(savedState.idea || '');
@@ -209,10 +252,21 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                     setReferenceImages(savedState.referenceImages || []);
                     setScriptSummary(savedState.scriptSummary || null);
                     
-                    const initialScenes = savedState.scenes || [];
+                    let initialScenes: SceneState[] = savedState.scenes || [];
+                    let frameRecords: PendingGeneration[] = [];
+                    if (!hasCheckedInterruptedGenerations) {
+                        hasCheckedInterruptedGenerations = true;
+                        const videoRecords = await claimInterruptedGenerations(STORYBOARD_APP_ID, 'video');
+                        frameRecords = await claimInterruptedGenerations(STORYBOARD_APP_ID, 'frame');
+                        videoRecords.forEach(record => {
+                            videoRecordIdsRef.current[Number(record.key)] = record.id;
+                        });
+                        initialScenes = resumeInterruptedScenes(initialScenes, frameRecords, videoRecords);
+                    }
                     setScenes(initialScenes);
                     setHistory([initialScenes]);
                     setHistoryIndex(0);
+                    frameRecords.forEach(record => runFrameGeneration(record));
 
                     setStyle(savedState.style || '');
                     setNumberOfScenes(savedState.numberOfScenes ?? 0);
@@ -257,7 +311,8 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
 
     useEffect(() => {
         if (isOpen && isLoaded) {
-            db.saveStoryboardState(debouncedState);
+            saveDocumentWithImages(STORYBOARD_DOCUMENT, debouncedState)
+                .catch(error => console.warn("Could not save the storyboard:", error));
         }
     }, [debouncedState, isOpen, isLoaded]);
 
@@ -284,7 +339,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
 
         try {
             let result: ScriptSummary;
-            const referenceImagesData = referenceImages.map(url => parseDataUrlForComponent(url));
+            const referenceImagesData = await Promise.all(referenceImages.map(url => parseDataUrlForComponent(url)));
             const options = { style, numberOfScenes, aspectRatio, notes, keepClothing, keepBackground };
 
             switch (activeInput) {
@@ -310,7 +365,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
             }
             setScriptSummary(result);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('storyboarding_error_scenario');
+            const errorMessage = getErrorMessage(err, t, t('storyboarding_error_scenario'));
             setError(errorMessage);
         } finally {
             setIsLoading(false);
@@ -336,7 +391,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                 updateScenesAndHistory(finalScenario.scenes.map(mapServiceSceneToState));
             }
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('storyboarding_error_develop');
+            const errorMessage = getErrorMessage(err, t, t('storyboarding_error_develop'));
             setError(errorMessage);
         } finally {
             setIsLoading(false);
@@ -377,7 +432,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
             
             setScriptSummary(summaryForDevelopment);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('storyboarding_error_develop');
+            const errorMessage = getErrorMessage(err, t, t('storyboarding_error_develop'));
             setError(errorMessage);
         } finally {
             setIsLoading(false);
@@ -389,19 +444,45 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
         handleGenerateScriptSummary();
     };
     
+    const setFrameResult = (sceneIndex: number, frameType: 'start' | 'end', changes: Partial<FrameState>) => {
+        setScenes(prev => prev.map((s, i) => {
+            if (i === sceneIndex) {
+                if (frameType === 'start') return { ...s, startFrame: { ...s.startFrame, ...changes } };
+                return { ...s, endFrame: { ...s.endFrame, ...changes } };
+            }
+            return s;
+        }));
+    };
+
+    /**
+     * Generates one frame from stored inputs. The record stays in IndexedDB until the
+     * generation settles, so a reload can run it again.
+     */
+    const runFrameGeneration = async (record: PendingGeneration) => {
+        const { sceneIndex, frameType, prompt, aspectRatio: frameAspectRatio, images } = record.inputs as FrameGenerationInputs;
+        persistPendingGeneration(record);
+        try {
+            const results = await generateFreeImage(prompt, 1, frameAspectRatio, images[0], images[1], images[2], images[3], true);
+            if (results.length === 0) {
+                throw new Error(t('storyboarding_error_noImage'));
+            }
+            setFrameResult(sceneIndex, frameType, { status: 'done', imageUrl: results[0] });
+            addImagesToGallery(results);
+        } catch (err) {
+            const errorMessage = getErrorMessage(err, t, t('storyboarding_error_imageGen'));
+            setFrameResult(sceneIndex, frameType, { status: 'error', error: errorMessage });
+        } finally {
+            clearPendingGeneration(record.id);
+        }
+    };
+    
     const handleGenerateImage = async (sceneIndex: number, frameType: 'start' | 'end') => {
         const sceneToGenerate = scenesRef.current[sceneIndex];
         const frameToGenerate = frameType === 'start' ? sceneToGenerate.startFrame : sceneToGenerate.endFrame;
 
         if (!sceneToGenerate || !frameToGenerate) return;
 
-        setScenes(prev => prev.map((s, i) => {
-            if (i === sceneIndex) {
-                if (frameType === 'start') return { ...s, startFrame: { ...s.startFrame, status: 'pending', error: undefined } };
-                return { ...s, endFrame: { ...s.endFrame, status: 'pending', error: undefined } };
-            }
-            return s;
-        }));
+        setFrameResult(sceneIndex, frameType, { status: 'pending', error: undefined });
         
         try {
             let sourceImages: (string | undefined)[] = [];
@@ -409,7 +490,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
 
             if (source === 'reference') {
                 sourceImages = referenceImages;
-            } else if (source.startsWith('data:image')) {
+            } else if (isFrameImage(source)) {
                 sourceImages = [source];
             } else {
                 const [sourceSceneIndexStr, sourceFrameType] = source.split('-');
@@ -444,40 +525,23 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                 finalPrompt += '\n\n**Yêu cầu quan trọng (Important requirement):** Giữ nguyên bối cảnh/phông nền từ ảnh nguồn (Keep the background/scenery from the source image).';
             }
 
-            const results = await generateFreeImage(
-                finalPrompt, 
-                1, 
-                aspectRatio, 
-                sourceImages[0],
-                sourceImages[1],
-                sourceImages[2],
-                sourceImages[3],
-                true
-            );
-            if (results.length > 0) {
-                setScenes(prev => prev.map((s, i) => {
-                    if (i === sceneIndex) {
-                        if (frameType === 'start') return { ...s, startFrame: { ...s.startFrame, status: 'done', imageUrl: results[0] } };
-                        return { ...s, endFrame: { ...s.endFrame, status: 'done', imageUrl: results[0] } };
-                    }
-                    return s;
-                }));
-                addImagesToGallery(results);
-            } else {
-                throw new Error(t('storyboarding_error_noImage'));
-            }
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('storyboarding_error_imageGen');
-            setScenes(prev => prev.map((s, i) => {
-                if (i === sceneIndex) {
-                    if (frameType === 'start') return { ...s, startFrame: { ...s.startFrame, status: 'error', error: errorMessage } };
-                    return { ...s, endFrame: { ...s.endFrame, status: 'error', error: errorMessage } };
-                }
-                return s;
+            await runFrameGeneration(createPendingGeneration(STORYBOARD_APP_ID, 'frame', {
+                key: `${sceneIndex}-${frameType}`,
+                inputs: { sceneIndex, frameType, prompt: finalPrompt, aspectRatio, images: sourceImages.slice(0, 4) } satisfies FrameGenerationInputs,
             }));
+        } catch (err) {
+            const errorMessage = getErrorMessage(err, t, t('storyboarding_error_imageGen'));
+            setFrameResult(sceneIndex, frameType, { status: 'error', error: errorMessage });
         }
     };
-    
+
+    const clearVideoRecord = (sceneIndex: number) => {
+        const id = videoRecordIdsRef.current[sceneIndex];
+        if (!id) return;
+        clearPendingGeneration(id);
+        delete videoRecordIdsRef.current[sceneIndex];
+    };
+
     const handleGenerateVideo = useCallback(async (sceneIndex: number) => {
         const sceneToGenerate = scenesRef.current[sceneIndex];
         if (!sceneToGenerate) return;
@@ -490,7 +554,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
 
         if (startImgUrl || endImgUrl) {
             videoPrompt = sceneToGenerate.animationDescription;
-            inputImage = parseDataUrlForComponent(startImgUrl || endImgUrl!);
+            inputImage = await parseDataUrlForComponent(startImgUrl || endImgUrl!);
         } else {
             videoPrompt = `Start frame: ${sceneToGenerate.startFrame.description}. Animation: ${sceneToGenerate.animationDescription}. End frame: ${sceneToGenerate.endFrame.description}`;
         }
@@ -504,9 +568,12 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
         
         try {
             const operation = await startVideoGeneration(videoPrompt, inputImage);
+            const record = createPendingGeneration(STORYBOARD_APP_ID, 'video', { key: String(sceneIndex), operation, inputs: { prompt: videoPrompt } });
+            videoRecordIdsRef.current[sceneIndex] = record.id;
+            persistPendingGeneration(record);
             setScenes(prev => prev.map((s, i) => i === sceneIndex ? { ...s, videoOperation: operation } : s));
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getErrorMessage(err, t, "An unknown error occurred.");
             setScenes(prev => prev.map((s, i) => i === sceneIndex ? { ...s, videoStatus: 'error', videoError: errorMessage } : s));
         }
     }, [t]);
@@ -534,23 +601,23 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                     if (updatedOp.done) {
                         if (updatedOp.response?.generatedVideos?.[0]?.video?.uri) {
                             const downloadLink = updatedOp.response.generatedVideos[0].video.uri;
-                            const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-                            if (!response.ok) throw new Error(`Failed to fetch video: ${response.statusText}`);
-                            const blob = await response.blob();
+                            const blob = await downloadGeneratedVideo(downloadLink);
                             const blobUrl = URL.createObjectURL(blob);
                             
                             newScenes[sceneIndex] = { ...newScenes[sceneIndex], videoStatus: 'done', videoUrl: blobUrl, videoOperation: undefined };
+                            clearVideoRecord(sceneIndex);
                             addImagesToGallery([blobUrl]);
                         } else {
-                            throw new Error(updatedOp.error?.message || "Video generation finished but no URI was found.");
+                            throw new Error((updatedOp.error?.message as string | undefined) || "Video generation finished but no URI was found.");
                         }
                     } else {
                         newScenes[sceneIndex] = { ...newScenes[sceneIndex], videoOperation: updatedOp };
                     }
                     tasksUpdated = true;
                 } catch (err) {
-                    const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                    const errorMessage = getErrorMessage(err, t, "An unknown error occurred.");
                     newScenes[sceneIndex] = { ...newScenes[sceneIndex], videoStatus: 'error', videoError: errorMessage, videoOperation: undefined };
+                    clearVideoRecord(sceneIndex);
                     tasksUpdated = true;
                 }
             }));
@@ -668,8 +735,8 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
         setScenes(prev => prev.map((s, i) => {
             if (i === sceneIndex) {
                  return frameType === 'start'
-                    ? { ...s, startFrame: { ...s.startFrame, imageSource: newSource, imageUrl: newSource.startsWith('data:image') ? newSource : s.startFrame.imageUrl } }
-                    : { ...s, endFrame: { ...s.endFrame, imageSource: newSource, imageUrl: newSource.startsWith('data:image') ? newSource : s.endFrame.imageUrl } };
+                    ? { ...s, startFrame: { ...s.startFrame, imageSource: newSource, imageUrl: isFrameImage(newSource) ? newSource : s.startFrame.imageUrl } }
+                    : { ...s, endFrame: { ...s.endFrame, imageSource: newSource, imageUrl: isFrameImage(newSource) ? newSource : s.endFrame.imageUrl } };
             }
             return s;
         }));
@@ -725,10 +792,13 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
         const frame = frameType === 'start' ? scene.startFrame : scene.endFrame;
         
         if (frame && frame.imageUrl) {
-            const globalIndex = imageGallery.indexOf(frame.imageUrl);
-            if (globalIndex !== -1) {
-                openLightbox(globalIndex);
-            }
+            // The gallery holds store references, so look the frame up by its reference.
+            (isImageRef(frame.imageUrl) ? Promise.resolve(frame.imageUrl) : storeImage(frame.imageUrl)).then(ref => {
+                const globalIndex = imageGallery.indexOf(ref);
+                if (globalIndex !== -1) {
+                    openLightbox(globalIndex);
+                }
+            });
         }
     };
 
@@ -800,9 +870,8 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
             handleEditSceneDescription(index, frameType, newDescription);
             toast.success(`Đã tạo lại prompt cho Cảnh ${originalScene.scene}.`);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Không thể tạo lại prompt.";
-            setError(errorMessage);
-            toast.error(errorMessage);
+            setError(getErrorMessage(err, t, "Không thể tạo lại prompt."));
+            showErrorToast(err, t, "Không thể tạo lại prompt.");
         } finally {
             setIsLoading(false);
         }
@@ -821,9 +890,8 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
             handleEditSceneAnimation(index, newTransition);
             toast.success(`Đã tạo lại chuyển động cho Cảnh ${originalScene.scene}.`);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Không thể tạo lại chuyển động.";
-            setError(errorMessage);
-            toast.error(errorMessage);
+            setError(getErrorMessage(err, t, "Không thể tạo lại chuyển động."));
+            showErrorToast(err, t, "Không thể tạo lại chuyển động.");
         } finally {
             setIsLoading(false);
         }
@@ -854,7 +922,12 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
             scenes,
         };
     
-        downloadJson(exportState, `storyboard-session-${Date.now()}.json`);
+        try {
+            // The session file embeds the image data rather than this browser's store references.
+            downloadJson(await hydrateImages(exportState), `storyboard-session-${Date.now()}.json`);
+        } catch (error) {
+            showErrorToast(error, t);
+        }
     };
 
     const processImportFile = (file: File) => {
@@ -903,7 +976,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                 toast.success(t('storyboarding_import_success'));
 
             } catch (err) {
-                toast.error(err instanceof Error ? err.message : t('storyboarding_import_error'));
+                showErrorToast(err, t, t('storyboarding_import_error'));
                 console.error("Failed to import storyboard:", err);
             }
         };
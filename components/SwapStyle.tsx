@@ -5,7 +5,7 @@
 import React, { ChangeEvent, useCallback, useRef, useEffect, useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { swapImageStyle, mixImageStyle, editImageWithPrompt } from '../services/geminiService';
+import { swapImageStyle, mixImageStyle } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -22,12 +22,13 @@ import {
     useVideoGeneration,
     processAndDownloadAll,
     useAppControls,
-    embedJsonInPng,
+    useBatchGeneration,
+    applySingleResult,
+    SINGLE_RESULT_KEY,
     getInitialStateForApp,
     SearchableSelect,
     Switch,
 } from './uiUtils';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
 
 interface SwapStyleProps {
     mainTitle: string;
@@ -54,7 +55,20 @@ const SwapStyle: React.FC<SwapStyleProps> = (props) => {
         ...headerProps
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<SwapStyleState>('swap-style', {
+        generate: (_key, state, { signal }) => state.styleImage && !state.options.convertToReal
+            ? mixImageStyle(state.contentImage!, state.styleImage, state.options, { signal }).then(({ resultUrl }) => resultUrl)
+            : swapImageStyle(state.contentImage, state.options, { signal }),
+        applyResult: applySingleResult,
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getJobLabel: () => t('jobsTray_generateLabel'),
+        onComplete: (_state, failedKeys) => { if (failedKeys.length === 0) toast.success(`Tạo ảnh thành công.`); },
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
     const { videoTasks, generateVideo } = useVideoGeneration();
     const [localNotes, setLocalNotes] = useState(appState.options.notes);
@@ -110,88 +124,13 @@ const SwapStyle: React.FC<SwapStyleProps> = (props) => {
     const executeInitialGeneration = async () => {
         if (!appState.contentImage) return;
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
         const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            let resultUrl: string;
-
-            if (appState.options.convertToReal) {
-                resultUrl = await swapImageStyle(appState.contentImage, appState.options);
-            } else if (appState.styleImage) {
-                const { resultUrl: mixedUrl } = await mixImageStyle(appState.contentImage, appState.styleImage, appState.options);
-                resultUrl = mixedUrl;
-            } else {
-                resultUrl = await swapImageStyle(appState.contentImage, appState.options);
-            }
-            
-            // Deduct Credit
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Tạo ảnh thành công.`);
-
-            const settingsToEmbed = {
-                viewId: 'swap-style',
-                state: { ...appState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('swap-style', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImage: urlWithMetadata,
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startBatch({ ...appState, stage: 'generating', error: null }, [SINGLE_RESULT_KEY], preGenState);
     };
     
     const handleRegeneration = async (prompt: string) => {
         if (!appState.generatedImage) return;
-        
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { toast.error("Hết lượt tạo ảnh."); return; }
-        // --------------------
-
-        const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            const resultUrl = await editImageWithPrompt(appState.generatedImage, prompt);
-            
-             // Deduct Credit
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(`Chỉnh sửa thành công.`);
-
-            const settingsToEmbed = {
-                viewId: 'swap-style',
-                state: { ...appState, stage: 'configuring', generatedImage: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('swap-style', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImage: urlWithMetadata,
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startEdit({ ...appState, stage: 'generating', error: null }, SINGLE_RESULT_KEY, { sourceUrl: appState.generatedImage, prompt }, appState);
     };
 
     const handleContentImageChange = (newUrl: string | null) => {
@@ -5,7 +5,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generateTetQr2026Image, editImageWithPrompt } from '../services/geminiService';
+import { generateTetQr2026Image } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -20,10 +20,12 @@ import {
     useVideoGeneration,
     processAndDownloadAll,
     useAppControls,
-    embedJsonInPng,
+    useBatchGeneration,
+    applySingleResult,
+    SINGLE_RESULT_KEY,
     downloadImage,
+    getErrorMessage,
 } from './uiUtils';
-import { getCurrentUsername, getUserCredits, decreaseUserCredits } from '../lib/credits';
 
 // Common Vietnamese Banks for VietQR (BIN codes)
 const VIET_QR_BANKS = [
@@ -70,7 +72,24 @@ const TetQr2026Creator: React.FC<TetQr2026CreatorProps> = (props) => {
         logGeneration,
     } = props;
     
-    const { t, settings, refreshCredits } = useAppControls();
+    const { t } = useAppControls();
+    const { startBatch, startEdit } = useBatchGeneration<TetQr2026CreatorState>('tet-qr-2026', {
+        // The styled QR code is made before the batch starts, so a resumed batch reuses it.
+        generate: (_key, state, { signal }) => generateTetQr2026Image(state.uploadedImage, { ...state.options, qrImageBase64: state.qrCodeUrl! }, { signal }),
+        applyResult: applySingleResult,
+        finish: state => ({ ...state, stage: 'results' }),
+        getEmbeddedState: preGenState => ({ ...preGenState, stage: 'configuring', generatedImage: null, qrCodeUrl: null, historicalImages: [], error: null }),
+        onStateChange,
+        addImagesToGallery,
+        logGeneration,
+        getJobLabel: () => t('jobsTray_generateLabel'),
+        errorFallback: "Error generating content.",
+        onComplete: (state, failedKeys) => {
+            if (failedKeys.length > 0) return;
+            addImagesToGallery([state.qrCodeUrl!]);
+            toast.success(t('tetQr2026_status_ready'));
+        },
+    });
     const { lightboxIndex, openLightbox, closeLightbox, navigateLightbox } = useLightbox();
     const { videoTasks, generateVideo } = useVideoGeneration();
     const [localNotes, setLocalNotes] = useState(appState.options.notes);
@@ -202,92 +221,26 @@ const TetQr2026Creator: React.FC<TetQr2026CreatorProps> = (props) => {
             return;
         }
 
-        // --- Credit Check ---
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { 
-            toast.error("Hết lượt tạo ảnh."); 
-            return; 
-        }
-        // --------------------
-
         const preGenState = { ...appState };
         onStateChange({ ...appState, stage: 'generating', error: null });
 
+        let styledQrUrl: string;
         try {
             // 1. Generate the REAL styled QR Code image first
-            const styledQrUrl = await generateRealStyledQrCode();
-            
-            // 2. Generate AI Image, passing the QR code as an input for the model to hold
-            // We pass styledQrUrl to the service
-            const resultUrl = await generateTetQr2026Image(
-                appState.uploadedImage, 
-                { ...appState.options, qrImageBase64: styledQrUrl }
-            );
-            
-            // Deduct Credit
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(t('tetQr2026_status_ready'));
-
-            const settingsToEmbed = {
-                viewId: 'tet-qr-2026',
-                state: { ...appState, stage: 'configuring', generatedImage: null, qrCodeUrl: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            
-            logGeneration('tet-qr-2026', preGenState, urlWithMetadata);
-
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImage: urlWithMetadata,
-                qrCodeUrl: styledQrUrl, // Save the generated QR to display separately
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata, styledQrUrl]);
+            styledQrUrl = await generateRealStyledQrCode();
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Error generating content.";
+            const errorMessage = getErrorMessage(err, t, "Error generating content.");
             onStateChange({ ...appState, stage: 'results', error: errorMessage });
+            return;
         }
+
+        // 2. Generate AI Image, passing the QR code as an input for the model to hold
+        await startBatch({ ...appState, stage: 'generating', error: null, qrCodeUrl: styledQrUrl }, [SINGLE_RESULT_KEY], preGenState);
     };
 
     const handleRegeneration = async (prompt: string) => {
         if (!appState.generatedImage) return;
-        const username = getCurrentUsername();
-        if (!username) { toast.error("Vui lòng đăng nhập."); return; }
-        if (getUserCredits(username) <= 0) { 
-             toast.error("Hết lượt tạo ảnh."); 
-            return; 
-        }
-
-        const preGenState = { ...appState };
-        onStateChange({ ...appState, stage: 'generating', error: null });
-
-        try {
-            const resultUrl = await editImageWithPrompt(appState.generatedImage, prompt);
-            
-            decreaseUserCredits(username);
-            refreshCredits();
-            toast.success(t('tetQr2026_status_ready'));
-
-            const settingsToEmbed = {
-                viewId: 'tet-qr-2026',
-                state: { ...appState, stage: 'configuring', generatedImage: null, qrCodeUrl: null, historicalImages: [], error: null },
-            };
-            const urlWithMetadata = await embedJsonInPng(resultUrl, settingsToEmbed, settings.enableImageMetadata);
-            logGeneration('tet-qr-2026', preGenState, urlWithMetadata);
-            onStateChange({
-                ...appState,
-                stage: 'results',
-                generatedImage: urlWithMetadata,
-                historicalImages: [...appState.historicalImages, urlWithMetadata],
-            });
-            addImagesToGallery([urlWithMetadata]);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Error regenerating.";
-            onStateChange({ ...appState, stage: 'results', error: errorMessage });
-        }
+        await startEdit({ ...appState, stage: 'generating', error: null }, SINGLE_RESULT_KEY, { sourceUrl: appState.generatedImage, prompt }, appState);
     };
 
     const handleBackToOptions = () => {
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef, type ChangeEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { useAppControls, useAuth, downloadBlob, getErrorMessage, Switch } from './uiUtils';
+import { CloseIcon, LoadingSpinnerIcon } from './icons';
+import { cn } from '../lib/utils';
+import {
+    exportWorkspace,
+    importWorkspace,
+    readWorkspaceManifest,
+    type WorkspaceConflictStrategy,
+    type WorkspaceImportMode,
+    type WorkspaceManifest,
+} from '../lib/workspaceArchive';
+
+interface WorkspaceModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const CONFLICT_STRATEGIES: WorkspaceConflictStrategy[] = ['keepExisting', 'useImported', 'keepBoth'];
+
+const WorkspaceModal: React.FC<WorkspaceModalProps> = ({ isOpen, onClose }) => {
+    const { t, reloadStoredData, syncStatus, changeSyncEnabled, syncNow } = useAppControls();
+    const { currentUser } = useAuth();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [isExporting, setIsExporting] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [archiveFile, setArchiveFile] = useState<File | null>(null);
+    const [manifest, setManifest] = useState<WorkspaceManifest | null>(null);
+    const [mode, setMode] = useState<WorkspaceImportMode>('merge');
+    const [conflictStrategy, setConflictStrategy] = useState<WorkspaceConflictStrategy>('keepExisting');
+
+    useEffect(() => {
+        if (!isOpen) {
+            setArchiveFile(null);
+            setManifest(null);
+            setMode('merge');
+            setConflictStrategy('keepExisting');
+        }
+    }, [isOpen]);
+
+    const handleSyncToggle = async (enabled: boolean) => {
+        try {
+            await changeSyncEnabled(enabled);
+        } catch (error) {
+            toast.error(getErrorMessage(error, t));
+        }
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const archive = await exportWorkspace();
+            downloadBlob(archive, `CaoTrangAI-workspace-${new Date().toISOString().slice(0, 10)}.zip`);
+            toast.success(t('workspace_exportSuccess'));
+        } catch (error) {
+            console.error("Workspace export failed:", error);
+            toast.error(getErrorMessage(error, t, t('workspace_exportError')));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setManifest(await readWorkspaceManifest(file));
+            setArchiveFile(file);
+        } catch (error) {
+            setManifest(null);
+            setArchiveFile(null);
+            toast.error(getErrorMessage(error, t, t('workspace_invalidArchive')));
+        }
+    };
+
+    const handleImport = async () => {
+        if (!archiveFile) return;
+        if (mode === 'replace' && !window.confirm(t('workspace_replaceConfirm'))) return;
+
+        setIsImporting(true);
+        try {
+            const summary = await importWorkspace(archiveFile, { mode, conflictStrategy });
+            await reloadStoredData();
+            toast.success(t('workspace_importSuccess', summary.galleryAdded, summary.historyAdded + summary.historyReplaced, summary.historySkipped), { duration: 6000 });
+            onClose();
+        } catch (error) {
+            console.error("Workspace import failed:", error);
+            toast.error(getErrorMessage(error, t, t('workspace_importError')));
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="modal-overlay"
+                    aria-modal="true"
+                    role="dialog"
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+                        animate={{ scale: 1, opacity: 1, y: 0 }}
+                        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="modal-content md:!max-w-xl relative"
+                    >
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="base-font font-bold text-2xl text-yellow-400">{t('workspace_title')}</h3>
+                            <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors" aria-label={t('workspace_close')}>
+                                <CloseIcon className="h-6 w-6" strokeWidth={2} />
+                            </button>
+                        </div>
+
+                        <div className="space-y-6">
+                            <section className="space-y-2">
+                                <div className="flex items-center justify-between gap-4">
+                                    <label htmlFor="workspace-sync" className="font-bold text-neutral-200">{t('workspace_syncTitle')}</label>
+                                    <Switch id="workspace-sync" checked={syncStatus.enabled} onChange={handleSyncToggle} disabled={!currentUser} />
+                                </div>
+                                <p className="text-sm text-neutral-400">{currentUser ? t('workspace_syncDescription') : t('workspace_syncLoginRequired')}</p>
+                                {syncStatus.enabled && (
+                                    <div className="flex items-center justify-between gap-4 text-sm bg-neutral-900/50 p-3 rounded-md">
+                                        <div className="min-w-0 text-neutral-400">
+                                            <p>
+                                                {syncStatus.lastSyncedAt
+                                                    ? t('workspace_syncLast', new Date(syncStatus.lastSyncedAt).toLocaleString())
+                                                    : t('workspace_syncNever')}
+                                            </p>
+                                            {syncStatus.pendingChanges > 0 && <p>{t('workspace_syncPending', syncStatus.pendingChanges)}</p>}
+                                            {syncStatus.error && <p className="text-red-400 truncate" title={syncStatus.error}>{t('workspace_syncError', syncStatus.error)}</p>}
+                                        </div>
+                                        <button onClick={syncNow} className="btn btn-secondary btn-sm flex items-center gap-2 flex-shrink-0" disabled={syncStatus.isSyncing}>
+                                            {syncStatus.isSyncing && <LoadingSpinnerIcon className="h-4 w-4 animate-spin" />}
+                                            {syncStatus.isSyncing ? t('workspace_syncing') : t('workspace_syncNow')}
+                                        </button>
+                                    </div>
+                                )}
+                            </section>
+
+                            <section className="space-y-2 pt-4 border-t border-white/10">
+                                <h4 className="font-bold text-neutral-200">{t('workspace_exportTitle')}</h4>
+                                <p className="text-sm text-neutral-400">{t('workspace_exportDescription')}</p>
+                                <button onClick={handleExport} className="btn btn-primary btn-sm flex items-center gap-2" disabled={isExporting || isImporting}>
+                                    {isExporting && <LoadingSpinnerIcon className="h-4 w-4 animate-spin" />}
+                                    {isExporting ? t('workspace_exporting') : t('workspace_export')}
+                                </button>
+                            </section>
+
+                            <section className="space-y-3 pt-4 border-t border-white/10">
+                                <h4 className="font-bold text-neutral-200">{t('workspace_importTitle')}</h4>
+                                <p className="text-sm text-neutral-400">{t('workspace_importDescription')}</p>
+                                <input ref={fileInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleFileChange} />
+                                <button onClick={() => fileInputRef.current?.click()} className="btn btn-secondary btn-sm" disabled={isImporting}>
+                                    {t('workspace_chooseFile')}
+                                </button>
+
+                                {manifest && archiveFile && (
+                                    <div className="space-y-3">
+                                        <div className="text-sm bg-neutral-900/50 p-3 rounded-md text-neutral-300">
+                                            <p className="font-semibold truncate">{archiveFile.name}</p>
+                                            <p className="text-neutral-400">{t('workspace_archiveCreated', new Date(manifest.createdAt).toLocaleString())}</p>
+                                            <p className="text-neutral-400">
+                                                {t('workspace_archiveCounts', manifest.counts.gallery, manifest.counts.history, manifest.counts.images)}
+                                            </p>
+                                        </div>
+
+                                        <div className="flex gap-2">
+                                            {(['merge', 'replace'] as WorkspaceImportMode[]).map(option => (
+                                                <button
+                                                    key={option}
+                                                    onClick={() => setMode(option)}
+                                                    className={cn('btn btn-sm flex-1', mode === option ? 'btn-primary' : 'btn-secondary')}
+                                                >
+                                                    {t(`workspace_mode_${option}`)}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <p className="text-xs text-neutral-500">{t(`workspace_mode_${mode}_description`)}</p>
+
+                                        {mode === 'merge' && (
+                                            <div>
+                                                <label htmlFor="workspace-conflicts" className="block text-sm font-medium text-neutral-300 mb-1">{t('workspace_conflicts')}</label>
+                                                <select
+                                                    id="workspace-conflicts"
+                                                    value={conflictStrategy}
+                                                    onChange={(e) => setConflictStrategy(e.target.value as WorkspaceConflictStrategy)}
+                                                    className="form-input text-sm"
+                                                >
+                                                    {CONFLICT_STRATEGIES.map(strategy => (
+                                                        <option key={strategy} value={strategy}>{t(`workspace_conflict_${strategy}`)}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        )}
+
+                                        <button onClick={handleImport} className="btn btn-primary btn-sm w-full flex items-center justify-center gap-2" disabled={isImporting || isExporting}>
+                                            {isImporting && <LoadingSpinnerIcon className="h-4 w-4 animate-spin" />}
+                                            {isImporting ? t('workspace_importing') : t('workspace_import')}
+                                        </button>
+                                    </div>
+                                )}
+                            </section>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default WorkspaceModal;
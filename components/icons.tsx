@@ -157,6 +157,12 @@ export const LogoutIcon: React.FC<IconProps> = (props) => (
     </svg>
 );
 
+export const ShieldIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+    </svg>
+);
+
 export const LayoutIcon: React.FC<IconProps> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
        <path strokeLinecap="round" strokeLinejoin="round" d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
@@ -178,6 +184,12 @@ export const AppCoverIcon: React.FC<IconProps> = (props) => (
     </svg>
 );
 
+export const WorkspaceIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M20.25 7.5l-.625 10.632a2.25 2.25 0 01-2.247 2.118H6.622a2.25 2.25 0 01-2.247-2.118L3.75 7.5M10 11.25h4M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125z" />
+    </svg>
+);
+
 export const ClapperboardIcon: React.FC<IconProps> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M21 7.5V18a2.25 2.25 0 01-2.25 2.25H5.25A2.25 2.25 0 013 18V7.5m18 0l-1.88-1.88a2.25 2.25 0 00-3.18 0L12 9.35l-3.94-3.94a2.25 2.25 0 00-3.18 0L3 7.5m18 0v-2.25A2.25 2.25 0 0018.75 3H5.25A2.25 2.25 0 003 5.25v2.25" />
@@ -244,6 +256,12 @@ export const HistoryIcon: React.FC<IconProps> = (props) => (
     </svg>
 );
 
+export const QueueIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 6.75h12M8.25 12h12m-12 5.25h12M3.75 6.75h.007v.008H3.75V6.75zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zM3.75 12h.007v.008H3.75V12zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm-.375 5.25h.007v.008H3.75v-.008zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
+    </svg>
+);
+
 export const ReloadIcon: React.FC<IconProps> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0011.664 0l3.181-3.183m-11.664 0l3.181-3.183a8.25 8.25 0 00-11.664 0l3.181 3.183" />
@@ -332,6 +350,18 @@ export const EraserIcon: React.FC<IconProps> = (props) => (
     </svg>
 );
 
+export const CloneStampIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M9.5 3.75h5a1 1 0 011 1v1.5a2.5 2.5 0 01-1.25 2.165l-.5.29v3.545h3.5a2 2 0 012 2v1.5H4.75v-1.5a2 2 0 012-2h3.5V8.705l-.5-.29A2.5 2.5 0 018.5 6.25v-1.5a1 1 0 011-1zM5.75 17.75v2.5h12.5v-2.5" />
+    </svg>
+);
+
+export const HealingBrushIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M4.22 13.78l9.56-9.56a3.5 3.5 0 014.95 0l1.05 1.05a3.5 3.5 0 010 4.95l-9.56 9.56a3.5 3.5 0 01-4.95 0l-1.05-1.05a3.5 3.5 0 010-4.95zM8.5 9.5l6 6M10.75 12h.01M12 10.75h.01M12 13.25h.01M13.25 12h.01" />
+    </svg>
+);
+
 export const ColorPickerIcon: React.FC<IconProps> = (props) => (
     <svg fill="currentColor" version="1.1" xmlns="http://www.w3.org/2000/svg" xmlnsXlink="http://www.w3.org/1999/xlink" viewBox="796 796 200 200" enable-background="new 796 796 200 200" xmlSpace="preserve" {...props}>
         <path d="M996,834.79c0-10.362-4.036-20.104-11.363-27.431c-7.327-7.328-17.069-11.364-27.433-11.364s-20.105,4.036-27.433,11.363 l-24.531,24.532c-2.965,2.965-7.772,2.965-10.737,0c-4.769-4.77-12.5-4.769-17.271,0c-4.77,4.77-4.769,12.502,0,17.271l5.368,5.368 l-57.19,57.19c-7.336,7.33-11.721,19.991-10.913,31.504c0.231,3.294-0.975,6.522-3.307,8.854l-9.253,9.251 c-7.917,7.922-7.917,20.808,0.001,28.728c3.836,3.835,8.938,5.947,14.363,5.947s10.526-2.112,14.365-5.948l9.251-9.253 c2.308-2.307,5.563-3.547,8.855-3.306c0.892,0.063,1.808,0.094,2.721,0.094c0.001,0,0.001,0,0.001,0 c10.798,0,22.095-4.321,28.775-11.008l57.192-57.191l5.369,5.369c2.386,2.384,5.511,3.577,8.637,3.577s6.25-1.193,8.636-3.577 c4.769-4.769,4.769-12.502,0-17.271c-1.424-1.424-2.225-3.355-2.225-5.369s0.8-3.945,2.225-5.369l24.53-24.53 C991.964,854.895,996,845.152,996,834.79z M871.634,957.951c-4.736,4.739-14,7.935-22.006,7.363 c-6.877-0.475-13.498,2.008-18.346,6.855l-9.249,9.249c-1.531,1.53-3.567,2.373-5.731,2.373s-4.199-0.843-5.728-2.37 c-3.157-3.158-3.157-8.298,0-11.456l9.252-9.251c4.835-4.835,7.333-11.521,6.854-18.347c-0.631-8.988,3.227-17.876,7.365-22.012 l57.191-57.191l37.592,37.593L871.634,957.951z" />
@@ -421,6 +451,27 @@ export const AddTextIcon: React.FC<IconProps> = (props) => (
     </svg>
 );
 
+export const AdjustmentLayerIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2} {...props}>
+        <circle cx="12" cy="12" r="9" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v18" />
+        <path d="M12 3a9 9 0 010 18z" fill="currentColor" stroke="none" />
+    </svg>
+);
+
+export const GroupIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5} {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+    </svg>
+);
+
+export const UngroupIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5} {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M9 13h6" />
+    </svg>
+);
+
 export const AddIcon: React.FC<IconProps> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v12m6-6H6" />
@@ -558,6 +609,18 @@ export const EllipseIcon: React.FC<IconProps> = (props) => (
     </svg>
 );
 
+export const PolygonIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 2.5l8.5 5v9L12 21.5l-8.5-5v-9z" />
+    </svg>
+);
+
+export const StarIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 2.5l2.8 6.1 6.7.7-5 4.5 1.4 6.6L12 17.1l-5.9 3.3 1.4-6.6-5-4.5 6.7-.7z" />
+    </svg>
+);
+
 export const ChatIcon: React.FC<IconProps> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
       <path strokeLinecap="round" strokeLinejoin="round" d="M8.625 9.75a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H8.25m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H12m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0h-.375m-13.5 3.01c0 1.6 1.123 2.994 2.707 3.227 1.087.16 2.185.283 3.293.369V21l4.184-4.183a1.14 1.14 0 01.778-.332 48.294 48.294 0 005.83-.498c1.585-.233 2.708-1.626 2.708-3.228V6.741c0-1.602-1.123-2.995-2.707-3.228A48.394 48.394 0 0012 3c-2.392 0-4.744.175-7.043.513C3.373 3.746 2.25 5.14 2.25 6.741v6.018z" />
@@ -10,6 +10,8 @@ import SceneImageToolbar from './SceneImageToolbar';
 import { PencilIcon, LoadingSpinnerIcon, ErrorIcon, StoryboardPlaceholderIcon, DuplicateIcon, RegenerateIcon, CloudUploadIcon } from '../icons';
 import toast from 'react-hot-toast';
 import { cn } from '../../lib/utils';
+import { isImageRef } from '../../lib/imageStore';
+import { StoredImage } from '../StoredImage';
 
 interface ScenePanelProps {
     scene: SceneState;
@@ -75,7 +77,7 @@ const ScenePanel: React.FC<ScenePanelProps> = (props) => {
         if (frame.imageSource === 'reference') {
             return referenceImages.length > 0 ? referenceImages[0] : null;
         }
-        if (frame.imageSource.startsWith('data:image')) {
+        if (frame.imageSource.startsWith('data:image') || isImageRef(frame.imageSource)) {
             return frame.imageSource;
         }
         const [sourceSceneIndexStr, sourceFrameType] = frame.imageSource.split('-');
@@ -159,7 +161,7 @@ const ScenePanel: React.FC<ScenePanelProps> = (props) => {
                 )}
                 {frame.imageUrl ? (
                     <>
-                        <img src={frame.imageUrl} className="absolute inset-0 w-full h-full object-contain" alt={title} />
+                        <StoredImage src={frame.imageUrl} className="absolute inset-0 w-full h-full object-contain" alt={title} />
                         <SceneImageToolbar 
                             onEdit={() => onEditImage(index, frameType)}
                             onDownload={() => onDownloadImage(index, frameType)}
@@ -211,7 +213,7 @@ const ScenePanel: React.FC<ScenePanelProps> = (props) => {
                         <label className="text-xs font-bold text-neutral-400">{t('storyboarding_syncImage')}</label>
                         <div className="flex items-center gap-2 mt-1">
                             <select
-                                value={frame.imageSource.startsWith('data:image') ? 'custom' : frame.imageSource}
+                                value={frame.imageSource.startsWith('data:image') || isImageRef(frame.imageSource) ? 'custom' : frame.imageSource}
                                 onChange={handleSourceChange}
                                 className="form-input !text-xs !py-1 flex-grow"
                             >
@@ -225,7 +227,7 @@ const ScenePanel: React.FC<ScenePanelProps> = (props) => {
                                 <option value="custom">{t('storyboarding_sync_custom')}</option>
                             </select>
                             {sourceThumbnailUrl && (
-                                <img src={sourceThumbnailUrl} className="w-8 h-8 object-cover rounded-sm flex-shrink-0 bg-neutral-700" alt="Source preview" />
+                                <StoredImage src={sourceThumbnailUrl} className="w-8 h-8 object-cover rounded-sm flex-shrink-0 bg-neutral-700" alt="Source preview" />
                             )}
                         </div>
                     </div>
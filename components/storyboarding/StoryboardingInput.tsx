@@ -7,6 +7,7 @@ import { useAppControls } from '../uiUtils';
 import { cn } from '../../lib/utils';
 import { PencilIcon, DocumentTextIcon, SpeakerWaveIcon, CloudUploadIcon, CloseIcon } from '../icons';
 import StoryboardingOptions from './StoryboardingOptions';
+import { StoredImage } from '../StoredImage';
 
 type InputMethod = 'prompt' | 'text' | 'audio';
 
@@ -140,7 +141,7 @@ const StoryboardingInput: React.FC<StoryboardingInputProps> = (props) => {
                 >
                     {referenceImages.map((url, index) => (
                         <div key={index} className="relative group w-full aspect-square">
-                            <img src={url} className="w-full h-full object-cover rounded" alt={`Reference ${index + 1}`} />
+                            <StoredImage src={url} className="w-full h-full object-cover rounded" alt={`Reference ${index + 1}`} />
                             <button
                                 onClick={(e) => {
                                     e.stopPropagation();
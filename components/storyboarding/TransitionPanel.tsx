@@ -4,7 +4,7 @@
 */
 import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { useAppControls, PromptRegenerationModal } from '../uiUtils';
+import { useAppControls, PromptRegenerationModal, getErrorMessage } from '../uiUtils';
 import { PencilIcon, DuplicateIcon, LoadingSpinnerIcon, RegenerateIcon, AnimationLineIcon, ErrorIcon } from '../icons';
 import toast from 'react-hot-toast';
 import type { SceneState } from '../uiTypes';
@@ -77,7 +77,7 @@ const TransitionPanel: React.FC<TransitionPanelProps> = ({ scene, index, onEditA
         try {
             await onGenerateVideoPrompt(promptMode);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Error";
+            const errorMessage = getErrorMessage(err, t, "Error");
             toast.error(`Failed to generate video prompt: ${errorMessage}`);
         } finally {
             setIsGenerating(false);
@@ -14,6 +14,7 @@ import { ImageThumbnail } from './ImageThumbnail';
 import { GalleryToolbar } from './GalleryToolbar';
 import { ImageThumbnailActions } from './ImageThumbnailActions';
 import { combineImages, downloadJson } from './uiFileUtilities';
+import { resolveImageDataUrl } from '../lib/imageStore';
 import Lightbox from './Lightbox';
 import { AvatarCreatorState, BabyPhotoCreatorState, ViewState } from './uiTypes';
 export * from './SearchableSelect';
@@ -585,7 +586,13 @@ export const GalleryPicker: React.FC<GalleryPickerProps> = ({ isOpen, onClose, o
                 prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]
             );
         } else {
-            onSelect(images[index]);
+            // Pickers hand images to generation inputs, which need the data itself.
+            resolveImageDataUrl(images[index])
+                .then(onSelect)
+                .catch(error => {
+                    console.error("Failed to load the selected gallery image:", error);
+                    toast.error('Không thể tải ảnh đã chọn.');
+                });
         }
     };
     
@@ -3,33 +3,36 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useCallback, useContext, createContext } from 'react';
+import React, { useState, useEffect, useCallback, useContext, createContext, useRef, useMemo } from 'react';
 import toast from 'react-hot-toast';
 import {
-    type ImageToEdit, type ViewState, type AnyAppState, type Theme,
+    type ImageToEdit, type ComposerLayerImport, type ViewState, type AnyAppState, type Theme,
     type AppConfig, THEMES, getInitialStateForApp, type Settings,
     type GenerationHistoryEntry
 } from './uiTypes';
 import * as db from '../lib/db';
-import { getCurrentUsername, getUserCredits, getMaxCredits, getUserRole } from '../lib/credits';
+import { collectImageRefs, dehydrateImages, migrateToImageStore, releaseImages, retainImages, storeImage, sweepUnreferencedImages } from '../lib/imageStore';
+import { getCurrentUsername, fetchCreditBalance, getUserRole } from '../lib/credits';
+import { fetchAuthConfig, loginWithPassword, logoutSession, restoreSession, type UserRole } from '../lib/auth';
+import { setMaxConcurrency } from '../services/gemini/jobQueue';
+import { getInterruptedGenerations } from '../lib/pendingGenerations';
+import {
+    createHttpSyncAdapter, getSyncSettings, onSyncChangeQueued, queueSyncChange,
+    runSyncRound, setSyncEnabled, type SyncSettings
+} from '../lib/sync';
 
 // --- Auth Context ---
-interface Account {
-    username: string;
-    password?: string;
-    role?: "normal" | "vip";
-    credits?: number;
-}
-
 interface LoginSettings {
     enabled: boolean;
-    accounts: Account[];
 }
 
 interface AuthContextType {
     loginSettings: LoginSettings | null;
     isLoggedIn: boolean;
     currentUser: string | null;
+    // Role claimed by the session token; the server enforces it on every request.
+    currentRole: UserRole | null;
+    isAdmin: boolean;
     isLoading: boolean;
     login: (username: string, password?: string) => Promise<boolean>;
     logout: () => void;
@@ -41,54 +44,37 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const [loginSettings, setLoginSettings] = useState<LoginSettings | null>(null);
     const [isLoggedIn, setIsLoggedIn] = useState(false);
     const [currentUser, setCurrentUser] = useState<string | null>(null);
+    const [currentRole, setCurrentRole] = useState<UserRole | null>(null);
     const [isLoading, setIsLoading] = useState(true);
 
     useEffect(() => {
         const initializeAuth = async () => {
-            const defaultSettingsOnError: LoginSettings = {
-                enabled: true,
-                accounts: [
-                    { username: "user", password: "123", role: "normal", credits: 5 },
-                    { username: "admin", password: "123", role: "vip", credits: 20 }
-                ]
-            };
-            
-            const handleEnabledLogin = (settings: LoginSettings) => {
-                const storedUser = sessionStorage.getItem('currentUser');
-                if (storedUser && settings.accounts.some(acc => acc.username === storedUser)) {
-                    setCurrentUser(storedUser);
-                    setIsLoggedIn(true);
-                }
-            };
+            // Credentials are checked by the server; only the enabled flag is public.
+            let settings: LoginSettings = { enabled: true };
+            try {
+                settings = await fetchAuthConfig();
+            } catch (error) {
+                // On any error (network, missing API), default to login enabled.
+                console.error("Error loading login settings. Defaulting to login enabled.", error);
+            }
+            setLoginSettings(settings);
 
             try {
-                const response = await fetch('/setting-login.json');
-                if (response.ok) {
-                    const settings: LoginSettings = await response.json();
-                    setLoginSettings(settings);
-                    
-                    if (settings.enabled === false) {
-                        // Login is disabled. Bypass the login screen. No user is set.
+                if (settings.enabled === false) {
+                    // Login is disabled. Bypass the login screen. No user is set.
+                    setIsLoggedIn(true);
+                    setCurrentUser(null);
+                    await logoutSession();
+                } else {
+                    const claims = await restoreSession();
+                    if (claims) {
+                        setCurrentUser(claims.sub);
+                        setCurrentRole(claims.role);
                         setIsLoggedIn(true);
-                        setCurrentUser(null);
-                        sessionStorage.removeItem('currentUser');
-                        localStorage.removeItem('caotrang_username'); 
-                        localStorage.removeItem('caotrang_role');
-                    } else {
-                        // Treat enabled:true or missing enabled property as login required.
-                        handleEnabledLogin(settings);
                     }
-                } else {
-                    // File not found. Default to login enabled.
-                    console.warn("setting-login.json not found. Defaulting to login enabled.");
-                    setLoginSettings(defaultSettingsOnError);
-                    handleEnabledLogin(defaultSettingsOnError);
                 }
             } catch (error) {
-                // On any other error (parsing, network), default to login enabled.
-                console.error("Error processing setting-login.json. Defaulting to login enabled.", error);
-                setLoginSettings(defaultSettingsOnError);
-                handleEnabledLogin(defaultSettingsOnError);
+                console.error("Could not restore the previous session.", error);
             } finally {
                 setIsLoading(false);
             }
@@ -100,48 +86,29 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const login = useCallback(async (username: string, password?: string): Promise<boolean> => {
         if (!loginSettings) return false;
 
-        const account = loginSettings.accounts.find(acc => acc.username === username);
-        if (account && account.password === password) {
-            setCurrentUser(username);
+        try {
+            const claims = await loginWithPassword(username, password || '');
+            if (!claims) return false;
+            // Credit balances are kept by the server-side ledger and survive re-login.
+            setCurrentUser(claims.sub);
+            setCurrentRole(claims.role);
             setIsLoggedIn(true);
-            sessionStorage.setItem('currentUser', username);
-            
-            // --- Save User Info, Role and Base Credits Logic ---
-            if (typeof window !== "undefined") {
-                localStorage.setItem('caotrang_username', username);
-                
-                const role = account.role === 'vip' ? 'vip' : 'normal';
-                localStorage.setItem('caotrang_role', role);
-
-                // Logic xác định số credit ban đầu:
-                // 1. Nếu trong JSON có 'credits', dùng số đó.
-                // 2. Nếu không, fallback theo role: vip -> 20, normal -> 5.
-                const fallbackCredits = role === 'vip' ? 20 : 5;
-                const baseCredits = typeof account.credits === 'number' ? account.credits : fallbackCredits;
-                
-                localStorage.setItem(`caotrang_base_credits_${username}`, String(baseCredits));
-                
-                // Quan trọng: Xoá credits hiện tại để lần này được khởi tạo lại từ baseCredits
-                localStorage.removeItem(`caotrang_credits_${username}`);
-            }
-            // ---------------------------------------------
-
             return true;
+        } catch (error) {
+            console.error("Login request failed:", error);
+            return false;
         }
-        return false;
     }, [loginSettings]);
 
     const logout = useCallback(() => {
         setCurrentUser(null);
+        setCurrentRole(null);
         setIsLoggedIn(false);
-        sessionStorage.removeItem('currentUser');
-        localStorage.removeItem('caotrang_username');
-        localStorage.removeItem('caotrang_role');
-        // Note: We keep credit history in localStorage so users don't lose consumed credits upon logout/login
-        // unless they log in again which resets it via the logic above.
+        logoutSession();
     }, []);
 
-    const value = { loginSettings, isLoggedIn, currentUser, isLoading, login, logout };
+    const isAdmin = isLoggedIn && currentRole === 'admin';
+    const value = { loginSettings, isLoggedIn, currentUser, currentRole, isAdmin, isLoading, login, logout };
 
     return (
         <AuthContext.Provider value={value}>
@@ -164,12 +131,17 @@ interface ImageEditorContextType {
     openImageEditor: (url: string, onSave: (newUrl: string) => void) => void;
     openEmptyImageEditor: (onSave: (newUrl: string) => void) => void;
     closeImageEditor: () => void;
+    // Layers sent from the editor, bottom first, until the LayerComposer adds them.
+    pendingComposerLayers: ComposerLayerImport[];
+    sendLayersToComposer: (layers: ComposerLayerImport[]) => void;
+    clearPendingComposerLayers: () => void;
 }
 
 const ImageEditorContext = createContext<ImageEditorContextType | undefined>(undefined);
 
 export const ImageEditorProvider: React.FC<{children: React.ReactNode}> = ({ children }) => {
     const [imageToEdit, setImageToEdit] = useState<ImageToEdit | null>(null);
+    const [pendingComposerLayers, setPendingComposerLayers] = useState<ComposerLayerImport[]>([]);
 
     const openImageEditor = useCallback((url: string, onSave: (newUrl: string) => void) => {
         if (window.innerWidth < 768) {
@@ -180,6 +152,7 @@ export const ImageEditorProvider: React.FC<{children: React.ReactNode}> = ({ chi
             console.error("openImageEditor called with no URL.");
             return;
         }
+        // Gallery items are store references; the editor loads them when it draws the image.
         setImageToEdit({ url, onSave });
     }, []);
 
@@ -195,7 +168,15 @@ export const ImageEditorProvider: React.FC<{children: React.ReactNode}> = ({ chi
         setImageToEdit(null);
     }, []);
 
-    const value = { imageToEdit, openImageEditor, openEmptyImageEditor, closeImageEditor };
+    const sendLayersToComposer = useCallback((layers: ComposerLayerImport[]) => {
+        setPendingComposerLayers(prev => [...prev, ...layers]);
+    }, []);
+
+    const clearPendingComposerLayers = useCallback(() => {
+        setPendingComposerLayers([]);
+    }, []);
+
+    const value = { imageToEdit, openImageEditor, openEmptyImageEditor, closeImageEditor, pendingComposerLayers, sendLayersToComposer, clearPendingComposerLayers };
 
     return (
         <ImageEditorContext.Provider value={value}>
@@ -214,6 +195,14 @@ export const useImageEditor = (): ImageEditorContextType => {
 
 
 // --- App Control Context ---
+export interface SyncStatus extends SyncSettings {
+    isSyncing: boolean;
+    error: string | null;
+}
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+const SYNC_DEBOUNCE_MS = 2000;
+
 // @ts-ignore - This will be fixed by the uiTypes.ts change
 interface AppControlContextType {
     currentView: ViewState;
@@ -230,6 +219,8 @@ interface AppControlContextType {
     isImageLayoutModalOpen: boolean;
     isBeforeAfterModalOpen: boolean;
     isAppCoverCreatorModalOpen: boolean;
+    isAdminConsoleOpen: boolean;
+    isWorkspaceModalOpen: boolean;
     isStoryboardingModalMounted: boolean;
     isStoryboardingModalVisible: boolean;
     isLayerComposerMounted: boolean;
@@ -241,8 +232,13 @@ interface AppControlContextType {
     maxCredits: number;
     userRole: string;
     refreshCredits: () => void;
+    syncStatus: SyncStatus;
+    changeSyncEnabled: (enabled: boolean) => Promise<void>;
+    syncNow: () => Promise<void>;
     
     addGenerationToHistory: (entryData: Omit<GenerationHistoryEntry, 'id' | 'timestamp'>) => void;
+    removeGenerationFromHistory: (id: string) => void;
+    reloadStoredData: () => Promise<void>;
     addImagesToGallery: (newImages: string[]) => void;
     removeImageFromGallery: (imageIndex: number) => void;
     replaceImageInGallery: (imageIndex: number, newImageUrl: string) => void;
@@ -270,6 +266,10 @@ interface AppControlContextType {
     closeBeforeAfterModal: () => void;
     openAppCoverCreatorModal: () => void;
     closeAppCoverCreatorModal: () => void;
+    openAdminConsole: () => void;
+    closeAdminConsole: () => void;
+    openWorkspaceModal: () => void;
+    closeWorkspaceModal: () => void;
     openStoryboardingModal: () => void;
     closeStoryboardingModal: () => void;
     hideStoryboardingModal: () => void;
@@ -302,6 +302,8 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     const [isImageLayoutModalOpen, setIsImageLayoutModalOpen] = useState(false);
     const [isBeforeAfterModalOpen, setIsBeforeAfterModalOpen] = useState(false);
     const [isAppCoverCreatorModalOpen, setIsAppCoverCreatorModalOpen] = useState(false);
+    const [isAdminConsoleOpen, setIsAdminConsoleOpen] = useState(false);
+    const [isWorkspaceModalOpen, setIsWorkspaceModalOpen] = useState(false);
     const [isStoryboardingModalMounted, setIsStoryboardingModalMounted] = useState(false);
     const [isStoryboardingModalVisible, setIsStoryboardingModalVisible] = useState(false);
     const [isLayerComposerMounted, setIsLayerComposerMounted] = useState(false);
@@ -319,12 +321,18 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     const [maxCredits, setMaxCredits] = useState<number>(5);
     const [userRole, setUserRole] = useState<string>('normal');
 
+    const { currentUser, isLoggedIn, isLoading: isAuthLoading } = useAuth();
+
     const refreshCredits = useCallback(() => {
         const username = getCurrentUsername();
         if (username) {
-            setCredits(getUserCredits(username));
-            setMaxCredits(getMaxCredits(username));
             setUserRole(getUserRole(username));
+            fetchCreditBalance(username)
+                .then(({ balance, allowance }) => {
+                    setCredits(balance);
+                    setMaxCredits(allowance);
+                })
+                .catch(error => console.warn("Could not refresh credits:", error));
         } else {
             setCredits(5); 
             setMaxCredits(5);
@@ -332,13 +340,10 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         }
     }, []);
 
-    // Load credits on mount/update
+    // Load credits whenever the signed-in user changes
     useEffect(() => {
         refreshCredits();
-        // Also listen for login event by checking username periodically or relying on re-renders
-        const interval = setInterval(refreshCredits, 2000);
-        return () => clearInterval(interval);
-    }, [refreshCredits]);
+    }, [refreshCredits, currentUser]);
 
     const currentView = viewHistory[historyIndex];
 
@@ -392,21 +397,94 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         fetchTranslations();
     }, [language]);
     
-    // Effect to initialize DB, migrate, and load data on app start
+    // Re-reads the gallery and history, e.g. after a workspace archive was imported.
+    const reloadStoredData = useCallback(async () => {
+        const [gallery, history] = await Promise.all([
+            db.getAllGalleryImages(),
+            db.getAllHistoryEntries()
+        ]);
+        setImageGallery(gallery);
+        setGenerationHistory(history);
+    }, []);
+
+    // Each account reads its own database. Signing out drops everything the previous account
+    // had open, so the next one starts from a clean slate.
     useEffect(() => {
+        if (isAuthLoading) return;
+        setIsDbLoaded(false);
+        if (!isLoggedIn) {
+            setImageGallery([]);
+            setGenerationHistory([]);
+            setViewHistory([{ viewId: 'home', state: { stage: 'home' } }]);
+            setHistoryIndex(0);
+            setIsLayerComposerMounted(false);
+            setIsLayerComposerVisible(false);
+            setIsStoryboardingModalMounted(false);
+            setIsStoryboardingModalVisible(false);
+            return;
+        }
+        let isCancelled = false;
         async function loadData() {
+            db.selectAccountDatabase(currentUser);
             await db.migrateFromLocalStorageToIdb();
-            const [gallery, history] = await Promise.all([
-                db.getAllGalleryImages(),
-                db.getAllHistoryEntries()
-            ]);
-            setImageGallery(gallery);
-            setGenerationHistory(history);
+            await migrateToImageStore();
+            if (isCancelled) return;
+            await reloadStoredData();
             setIsDbLoaded(true);
+            sweepUnreferencedImages().catch(error => console.error("Sweeping unreferenced images failed:", error));
         }
         loadData();
+        return () => { isCancelled = true; };
+    }, [isAuthLoading, isLoggedIn, currentUser, reloadStoredData]);
+
+    // --- Sync ---
+    const syncAdapter = useMemo(() => createHttpSyncAdapter(), []);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => ({ ...getSyncSettings(), isSyncing: false, error: null }));
+
+    const syncNow = useCallback(async () => {
+        if (!getSyncSettings().enabled) return;
+        setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+        try {
+            const { pulled } = await runSyncRound(syncAdapter);
+            if (pulled > 0) await reloadStoredData();
+            setSyncStatus({ ...getSyncSettings(), isSyncing: false, error: null });
+        } catch (error) {
+            console.warn("Sync round failed:", error);
+            setSyncStatus({ ...getSyncSettings(), isSyncing: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    }, [syncAdapter, reloadStoredData]);
+
+    const changeSyncEnabled = useCallback(async (enabled: boolean) => {
+        await setSyncEnabled(enabled);
+        setSyncStatus({ ...getSyncSettings(), isSyncing: false, error: null });
     }, []);
 
+    // Each account has its own sync settings.
+    useEffect(() => {
+        setSyncStatus({ ...getSyncSettings(), isSyncing: false, error: null });
+    }, [currentUser]);
+
+    // While sync is on: a round now, on an interval, when the window regains focus, and
+    // shortly after each local change.
+    useEffect(() => {
+        if (!currentUser || !isDbLoaded || !syncStatus.enabled) return;
+        syncNow();
+        const interval = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+        let debounceTimer: number | undefined;
+        const unsubscribe = onSyncChangeQueued(() => {
+            setSyncStatus(prev => ({ ...prev, pendingChanges: getSyncSettings().pendingChanges }));
+            window.clearTimeout(debounceTimer);
+            debounceTimer = window.setTimeout(syncNow, SYNC_DEBOUNCE_MS);
+        });
+        window.addEventListener('focus', syncNow);
+        return () => {
+            window.clearInterval(interval);
+            window.clearTimeout(debounceTimer);
+            unsubscribe();
+            window.removeEventListener('focus', syncNow);
+        };
+    }, [currentUser, isDbLoaded, syncStatus.enabled, syncNow]);
+
     const t = useCallback((key: string, ...args: any[]): any => {
         const keys = key.split('.');
         let translation = keys.reduce((obj, keyPart) => {
@@ -433,12 +511,15 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     }, [translations]);
     
     const addGenerationToHistory = useCallback(async (entryData: Omit<GenerationHistoryEntry, 'id' | 'timestamp'>) => {
-        const newEntry: GenerationHistoryEntry = {
+        // The entry keeps image references; they are resolved again when it is reloaded.
+        const newEntry: GenerationHistoryEntry = await dehydrateImages({
             ...entryData,
             id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
             timestamp: Date.now(),
-        };
+        });
         await db.addHistoryEntry(newEntry);
+        await retainImages(collectImageRefs(newEntry));
+        queueSyncChange('history', newEntry.id, { updatedAt: newEntry.timestamp });
         setGenerationHistory(prev => {
             const updatedHistory = [newEntry, ...prev];
             // Pruning can be done here if desired, but IndexedDB is large
@@ -447,17 +528,30 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     }, []);
 
 
+    const removeGenerationFromHistory = useCallback(async (id: string) => {
+        const entry = generationHistory.find(item => item.id === id);
+        if (!entry) return;
+        await db.deleteHistoryEntry(id);
+        setGenerationHistory(prev => prev.filter(item => item.id !== id));
+        await releaseImages(collectImageRefs(entry));
+        queueSyncChange('history', id, { deleted: true });
+    }, [generationHistory]);
+
     const handleLanguageChange = useCallback((lang: 'vi' | 'en') => {
         setLanguage(lang);
         localStorage.setItem('app-language', lang);
     }, []);
     
+    // The gallery holds image store references; videos keep their blob URLs.
     const addImagesToGallery = useCallback(async (newImages: string[]) => {
-        const uniqueNewImages = newImages.filter(img => img && !imageGallery.includes(img));
+        const refs = await dehydrateImages(newImages.filter(Boolean));
+        const uniqueNewImages = refs.filter((img, index) => !imageGallery.includes(img) && refs.indexOf(img) === index);
         if (uniqueNewImages.length === 0) {
             return;
         }
         await db.addMultipleGalleryImages(uniqueNewImages);
+        await retainImages(uniqueNewImages);
+        uniqueNewImages.forEach(ref => queueSyncChange('gallery', ref));
         setImageGallery(prev => [...uniqueNewImages, ...prev]);
     }, [imageGallery]);
 
@@ -466,18 +560,25 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         if (urlToDelete) {
             await db.deleteGalleryImage(urlToDelete);
             setImageGallery(prev => prev.filter((_, index) => index !== indexToRemove));
+            await releaseImages([urlToDelete]);
+            queueSyncChange('gallery', urlToDelete, { deleted: true });
         }
     }, [imageGallery]);
 
     const replaceImageInGallery = useCallback(async (indexToReplace: number, newImageUrl: string) => {
         const oldUrl = imageGallery[indexToReplace];
         if (oldUrl) {
-            await db.replaceGalleryImage(oldUrl, newImageUrl);
+            const newRef = newImageUrl.startsWith('data:image/') ? await storeImage(newImageUrl) : newImageUrl;
+            await db.replaceGalleryImage(oldUrl, newRef);
+            await retainImages([newRef]);
             setImageGallery(prev => {
                 const newImages = [...prev];
-                newImages[indexToReplace] = newImageUrl;
+                newImages[indexToReplace] = newRef;
                 return newImages;
             });
+            await releaseImages([oldUrl]);
+            queueSyncChange('gallery', oldUrl, { deleted: true });
+            queueSyncChange('gallery', newRef);
         }
     }, [imageGallery]);
 
@@ -491,6 +592,9 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
                 }
                 const data = await response.json();
                 setSettings(data);
+                if (data.maxConcurrentJobs !== undefined) {
+                    setMaxConcurrency(data.maxConcurrentJobs);
+                }
             } catch (error) {
                 console.error("Failed to fetch or parse setting.json:", error);
             }
@@ -511,7 +615,8 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         setTheme(newTheme);
     };
 
-    const restoreStateFromGallery = useCallback((stateToRestore: any, gallery: string[]): AnyAppState => {
+    const restoreStateFromGallery = useCallback(async (stateToRestore: any, gallery: string[]): Promise<AnyAppState> => {
+        // Cheap to copy: images in history entries and gallery items are short references.
         const restoredState = JSON.parse(JSON.stringify(stateToRestore));
     
         const restoreRefs = (obj: any) => {
@@ -535,6 +640,8 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         };
     
         restoreRefs(restoredState);
+        // Image store references stay in the state; they are loaded where the image is drawn
+        // or sent to a model.
         return restoredState;
     }, []);
 
@@ -566,7 +673,7 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         setHistoryIndex(newHistory.length - 1);
     }, [viewHistory, historyIndex]);
 
-    const importSettingsAndNavigate = useCallback((settings: any) => {
+    const importSettingsAndNavigate = useCallback(async (settings: any) => {
         if (!settings || typeof settings.viewId !== 'string' || typeof settings.state !== 'object') {
             alert('Invalid settings file.');
             return;
@@ -580,7 +687,7 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
             return;
         }
     
-        const restoredState = restoreStateFromGallery(importedState, imageGallery);
+        const restoredState = await restoreStateFromGallery(importedState, imageGallery);
         const mergedState = { ...initialState, ...restoredState };
     
         const newHistory = viewHistory.slice(0, historyIndex + 1);
@@ -649,6 +756,13 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         setIsExtraToolsOpen(false);
     }, []);
     const closeAppCoverCreatorModal = useCallback(() => setIsAppCoverCreatorModalOpen(false), []);
+    const openAdminConsole = useCallback(() => setIsAdminConsoleOpen(true), []);
+    const closeAdminConsole = useCallback(() => setIsAdminConsoleOpen(false), []);
+    const openWorkspaceModal = useCallback(() => {
+        setIsWorkspaceModalOpen(true);
+        setIsExtraToolsOpen(false);
+    }, []);
+    const closeWorkspaceModal = useCallback(() => setIsWorkspaceModalOpen(false), []);
 
     const openStoryboardingModal = useCallback(() => {
         setIsStoryboardingModalMounted(true);
@@ -673,6 +787,29 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         }
     }, [isStoryboardingModalVisible, hideStoryboardingModal, openStoryboardingModal]);
 
+    // Reopen whatever a page reload interrupted: the view of the newest generation batch and
+    // the storyboard. The app or modal claims its records when it mounts and resumes them.
+    const hasRestoredInterruptedRef = useRef(false);
+    useEffect(() => {
+        // Once per account, after its database is open.
+        if (!isDbLoaded) {
+            hasRestoredInterruptedRef.current = false;
+            return;
+        }
+        if (hasRestoredInterruptedRef.current) return;
+        hasRestoredInterruptedRef.current = true;
+        getInterruptedGenerations().then(records => {
+            const batch = [...records].reverse().find(record => record.kind === 'batch');
+            if (batch) {
+                setViewHistory(prev => [...prev, { viewId: batch.appId, state: batch.state } as ViewState]);
+                setHistoryIndex(prev => prev + 1);
+            }
+            if (records.some(record => record.appId === 'storyboarding')) {
+                openStoryboardingModal();
+            }
+        });
+    }, [isDbLoaded, openStoryboardingModal]);
+
     const openLayerComposer = useCallback(() => {
         setIsLayerComposerMounted(true);
         setIsLayerComposerVisible(true);
@@ -709,6 +846,8 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         isImageLayoutModalOpen,
         isBeforeAfterModalOpen,
         isAppCoverCreatorModalOpen,
+        isAdminConsoleOpen,
+        isWorkspaceModalOpen,
         isStoryboardingModalMounted,
         isStoryboardingModalVisible,
         isLayerComposerMounted,
@@ -719,7 +858,12 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         maxCredits, 
         userRole, 
         refreshCredits, 
+        syncStatus,
+        changeSyncEnabled,
+        syncNow,
         addGenerationToHistory,
+        removeGenerationFromHistory,
+        reloadStoredData,
         addImagesToGallery,
         removeImageFromGallery,
         replaceImageInGallery,
@@ -747,6 +891,10 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         closeBeforeAfterModal,
         openAppCoverCreatorModal,
         closeAppCoverCreatorModal,
+        openAdminConsole,
+        closeAdminConsole,
+        openWorkspaceModal,
+        closeWorkspaceModal,
         openStoryboardingModal,
         closeStoryboardingModal,
         hideStoryboardingModal,
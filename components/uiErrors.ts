@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import toast from 'react-hot-toast';
+import { ModelError } from '../services/gemini/errors';
+import { isCancelledError } from '../services/gemini/jobQueue';
+
+type Translate = (key: string, ...args: any[]) => any;
+
+/**
+ * The text to show the user for an error. Model errors are localized by their type;
+ * other errors already carry a readable message.
+ * @param error The caught error.
+ * @param t The translation function from useAppControls.
+ * @param fallback Shown when the thrown value is not an Error.
+ */
+export const getErrorMessage = (error: unknown, t: Translate, fallback?: string): string => {
+    if (isCancelledError(error)) {
+        return t('errors_cancelled');
+    }
+    if (error instanceof ModelError) {
+        return error.kind === 'unknown' ? t(error.messageKey, error.message) : t(error.messageKey);
+    }
+    if (error instanceof Error) {
+        return error.message;
+    }
+    return fallback ?? String(error);
+};
+
+/**
+ * Shows an error toast. Cancellations are the user's own doing and stay silent; quota and
+ * key problems will not go away on retry, so they stay on screen longer.
+ */
+export const showErrorToast = (error: unknown, t: Translate, fallback?: string) => {
+    if (isCancelledError(error)) return;
+    const isPersistent = error instanceof ModelError && (error.kind === 'quota' || error.kind === 'auth');
+    toast.error(getErrorMessage(error, t, fallback), isPersistent ? { duration: 8000 } : undefined);
+};
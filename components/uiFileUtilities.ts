@@ -4,6 +4,7 @@
 */
 import toast from 'react-hot-toast';
 import { type ImageForZip, type VideoTask } from './uiTypes';
+import { isImageRef, resolveImageDataUrl, resolveImageUrl } from '../lib/imageStore';
 // FIX: Add missing React import.
 import React, { type ChangeEvent } from 'react';
 
@@ -33,11 +34,20 @@ export const handleFileUpload = (
 
 /**
  * Triggers a browser download for a given URL, automatically determining the file extension.
- * @param url The URL of the file to download (can be a data URL or blob URL).
+ * @param url The URL of the file to download (can be a data URL, blob URL or image store reference).
  * @param filenameWithoutExtension The desired name for the downloaded file, without the extension.
  */
 export const downloadImage = (url: string, filenameWithoutExtension: string) => {
     if (!url) return;
+    if (isImageRef(url)) {
+        resolveImageDataUrl(url)
+            .then(dataUrl => downloadImage(dataUrl, filenameWithoutExtension))
+            .catch(error => {
+                console.error("Failed to load stored image for download:", error);
+                toast.error('Không thể tải ảnh này về.');
+            });
+        return;
+    }
     toast('Bắt đầu tải về...');
 
     // Determine extension from URL
@@ -87,6 +97,22 @@ export const downloadJson = (data: object, filenameWithExtension: string) => {
     }
 };
 
+/**
+ * Triggers a browser download for a Blob, such as a generated archive.
+ * @param blob The data to download.
+ * @param filenameWithExtension The desired filename, including the extension.
+ */
+export const downloadBlob = (blob: Blob, filenameWithExtension: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filenameWithExtension;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
 
 /**
  * Converts a data URL string to a Blob object.
@@ -94,9 +120,9 @@ export const downloadJson = (data: object, filenameWithExtension: string) => {
  * @returns A Blob object.
  */
 export const dataURLtoBlob = async (dataurl: string): Promise<Blob> => {
-    // Handle blob URLs directly
-    if (dataurl.startsWith('blob:')) {
-        const response = await fetch(dataurl);
+    // Handle blob URLs and image store references directly
+    if (dataurl.startsWith('blob:') || isImageRef(dataurl)) {
+        const response = await fetch(await resolveImageUrl(dataurl));
         return await response.blob();
     }
     
@@ -379,13 +405,16 @@ interface CombineOptions {
     };
 }
 
-const loadImg = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = 'Anonymous';
-    img.onload = () => resolve(img);
-    img.onerror = () => reject(new Error(`Failed to load image: ${url.substring(0, 50)}...`));
-    img.src = url;
-});
+const loadImg = async (url: string): Promise<HTMLImageElement> => {
+    const src = await resolveImageUrl(url);
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'Anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${url.substring(0, 50)}...`));
+        img.src = src;
+    });
+};
 
 const wrapText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
     const words = text.split(' ');
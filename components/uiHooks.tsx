@@ -2,11 +2,21 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
+import toast from 'react-hot-toast';
 import { useAppControls } from './uiContexts';
+import { getCurrentUsername, reserveCredits as reserveLedgerCredits, refundCredits as refundLedgerCredits, type CreditReservation } from '../lib/credits';
+import { claimInterruptedGenerations, clearPendingGeneration, createPendingGeneration, persistPendingGeneration } from '../lib/pendingGenerations';
+import { getResolvedImageUrl, resolveImageUrl } from '../lib/imageStore';
 // FIX: Changed startVideoGenerationFromImage to startVideoGeneration and imported parseDataUrl.
-import { startVideoGeneration, pollVideoOperation, parseDataUrl } from '../services/geminiService';
-import { type VideoTask } from './uiTypes';
+import { startVideoGeneration, pollVideoOperation, downloadGeneratedVideo, parseDataUrl, editImageWithPrompt } from '../services/geminiService';
+import {
+    enqueueJob, getJobs, subscribeToJobs, JOB_PRIORITY,
+    type GenerationJob, type JobContext, type JobOptions
+} from '../services/gemini/jobQueue';
+import { type GeneratedImage, type PendingGeneration, type VideoTask } from './uiTypes';
+import { embedJsonInPng } from './uiFileUtilities';
+import { getErrorMessage } from './uiErrors';
 
 /**
  * Custom hook to track media query status.
@@ -27,6 +37,300 @@ export const useMediaQuery = (query: string) => {
     return matches;
 };
 
+/**
+ * Custom hook exposing every queued, running and finished generation job.
+ * @returns The current job list, newest active jobs first followed by finished ones.
+ */
+export const useJobQueue = (): GenerationJob[] => {
+    return useSyncExternalStore(subscribeToJobs, getJobs);
+};
+
+/**
+ * Custom hook to run an app's generations through the shared job queue.
+ * @param appId The app id the jobs are listed under in the jobs tray.
+ * @returns `runJob`, which queues a task and resolves with its result. The task must pass
+ * `signal` on to the service call so cancelling from the tray aborts the request.
+ */
+export const useGenerationJobs = (appId: string) => {
+    const runJob = useCallback(<T,>(
+        label: string,
+        task: (context: JobContext) => Promise<T>,
+        options: Omit<JobOptions, 'appId' | 'label'> = {}
+    ): Promise<T> => {
+        return enqueueJob({ ...options, appId, label }, task);
+    }, [appId]);
+
+    return { runJob };
+};
+
+/**
+ * Custom hook to reserve credits before a generation and refund them when it fails.
+ * @param appId The app id whose cost table entry applies (e.g. 'avatar-creator').
+ * @returns `reserveCredits`, which resolves to null (after telling the user why) when nothing
+ * could be reserved, and `refundCredits`, which returns credits for failed results and tells
+ * the user when the server refuses.
+ */
+export const useCredits = (appId: string) => {
+    const { refreshCredits } = useAppControls();
+
+    const reserveCredits = useCallback(async (quantity = 1): Promise<CreditReservation | null> => {
+        const username = getCurrentUsername();
+        if (!username) {
+            toast.error("Vui lòng đăng nhập.");
+            return null;
+        }
+        try {
+            const reservation = await reserveLedgerCredits(username, appId, quantity);
+            refreshCredits();
+            return reservation;
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : String(err));
+            return null;
+        }
+    }, [appId, refreshCredits]);
+
+    const refundCredits = useCallback((reservation: CreditReservation, quantity?: number, reason?: string) => {
+        refundLedgerCredits(reservation, quantity, reason)
+            .catch(err => {
+                console.error(`Failed to refund credits for ${reservation.appId}:`, err);
+                toast.error(`Không thể hoàn credit: ${err instanceof Error ? err.message : String(err)}`);
+            })
+            .finally(refreshCredits);
+    }, [refreshCredits]);
+
+    return { reserveCredits, refundCredits };
+};
+
+// An edit of a finished result: `prompt` applied to the image at `sourceUrl`.
+export interface BatchEdit {
+    sourceUrl: string;
+    prompt: string;
+}
+
+export interface BatchGenerationOptions<S> {
+    // Runs the model for one key of the batch. Only the inputs of `state` may be used:
+    // after a reload it already holds the results of the keys that had finished.
+    generate: (key: string, state: S, context: JobContext) => Promise<string | string[]>;
+    // Folds the settled result of one key into the app state.
+    applyResult: (state: S, key: string, result: { urls: string[] } | { error: string }) => S;
+    // The app state once every key has settled.
+    finish: (state: S) => S;
+    // The app state embedded in result images, made from the state before generating.
+    getEmbeddedState: (preGenState: S) => object;
+    onStateChange: (state: S) => void;
+    addImagesToGallery: (images: string[]) => void;
+    logGeneration: (appId: string, preGenState: any, thumbnailUrl: string) => void;
+    // Runs the model for an edit; a plain prompt edit of the source image by default.
+    generateEdit?: (edit: BatchEdit, state: S, context: JobContext) => Promise<string>;
+    // Folds the settled result of an edit into the app state; `applyResult` by default.
+    applyEditResult?: (state: S, key: string, result: { urls: string[] } | { error: string }) => S;
+    // Label of a key's job in the jobs tray; the key itself by default.
+    getJobLabel?: (key: string) => string;
+    // Label of an edit's job in the jobs tray; a generic edit label by default.
+    getEditJobLabel?: (key: string) => string;
+    // Error shown for a failed key whose error has no message of its own.
+    errorFallback?: string;
+    // Called when a generation batch has settled, including one resumed after a reload.
+    // Edits confirm their own success.
+    onComplete?: (state: S, failedKeys: string[], reservation: CreditReservation) => void;
+}
+
+/**
+ * `applyResult` for apps whose results are keyed by idea, e.g. the avatar creator.
+ */
+export const applyIdeaResult = <S extends { generatedImages: Record<string, GeneratedImage>; historicalImages: { idea: string; url: string }[] }>(
+    state: S,
+    idea: string,
+    result: { urls: string[] } | { error: string }
+): S => 'error' in result
+    ? { ...state, generatedImages: { ...state.generatedImages, [idea]: { status: 'error' as const, error: result.error } } }
+    : {
+        ...state,
+        generatedImages: { ...state.generatedImages, [idea]: { status: 'done' as const, url: result.urls[0] } },
+        historicalImages: [...state.historicalImages, ...result.urls.map(url => ({ idea, url }))],
+    };
+
+/**
+ * `applyEditResult` for apps whose results are keyed by idea. The edited image is kept
+ * in the history as `<idea>-edit`.
+ */
+export const applyIdeaEditResult = <S extends { generatedImages: Record<string, GeneratedImage>; historicalImages: { idea: string; url: string }[] }>(
+    state: S,
+    idea: string,
+    result: { urls: string[] } | { error: string }
+): S => {
+    const applied = applyIdeaResult(state, idea, result);
+    return 'error' in result
+        ? applied
+        : { ...applied, historicalImages: [...state.historicalImages, ...result.urls.map(url => ({ idea: `${idea}-edit`, url }))] };
+};
+
+// The one key of a batch in apps with a single result image.
+export const SINGLE_RESULT_KEY = 'result';
+
+/**
+ * `applyResult` for apps with a single result image, e.g. photo restoration.
+ */
+export const applySingleResult = <S extends { generatedImage: string | null; historicalImages: string[]; error: string | null }>(
+    state: S,
+    _key: string,
+    result: { urls: string[] } | { error: string }
+): S => 'error' in result
+    ? { ...state, error: result.error }
+    : { ...state, generatedImage: result.urls[0] ?? null, historicalImages: [...state.historicalImages, ...result.urls] };
+
+/**
+ * Custom hook to run an app's generations as batches that survive a reload. A batch stays
+ * in IndexedDB until every key has settled; on mount the hook resumes the newest batch a
+ * reload interrupted and refunds the keys older ones still had pending, since only one
+ * can be shown.
+ * @param appId The app id the batches, jobs and credits belong to.
+ * @returns `startBatch`, which runs the keys of a new batch and resolves with the final state,
+ * and `startEdit`, which does the same for a prompt edit of one finished result.
+ */
+export const useBatchGeneration = <S,>(appId: string, options: BatchGenerationOptions<S>) => {
+    const { t, settings } = useAppControls();
+    const { reserveCredits, refundCredits } = useCredits(appId);
+    const { runJob } = useGenerationJobs(appId);
+    // Batches outlive the render that started them, so they always read the latest options.
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    const contextRef = useRef({ t, settings, refundCredits, runJob });
+    contextRef.current = { t, settings, refundCredits, runJob };
+
+    const runBatch = useCallback(async (batch: PendingGeneration): Promise<S> => {
+        const reservation: CreditReservation = batch.reservation!;
+        const { preGenState, quantityPerKey = 1, edit } = batch.inputs as { preGenState: S; quantityPerKey?: number; edit?: BatchEdit };
+        const inputState: S = batch.state;
+        let currentState: S = batch.state;
+        let pendingKeys = [...(batch.pendingKeys || [])];
+        let hasLogged = !!batch.inputs.hasLogged;
+        const failedKeys: string[] = [];
+        const settingsToEmbed = { viewId: appId, state: optionsRef.current.getEmbeddedState(preGenState) };
+        persistPendingGeneration(batch);
+
+        const processKey = async (key: string) => {
+            const { t, settings, refundCredits, runJob } = contextRef.current;
+            const { generate, generateEdit, getJobLabel, getEditJobLabel, errorFallback = "An unknown error occurred." } = optionsRef.current;
+            const applyResult = (edit && optionsRef.current.applyEditResult) || optionsRef.current.applyResult;
+            try {
+                const result = edit
+                    ? await runJob(
+                        getEditJobLabel ? getEditJobLabel(key) : t('jobsTray_editImageLabel'),
+                        context => generateEdit
+                            ? generateEdit(edit, inputState, context)
+                            : editImageWithPrompt(edit.sourceUrl, edit.prompt, undefined, undefined, { signal: context.signal }),
+                        { priority: JOB_PRIORITY.high }
+                    )
+                    : await runJob(getJobLabel ? getJobLabel(key) : key, context => generate(key, inputState, context));
+                const urls = await Promise.all(
+                    (Array.isArray(result) ? result : [result]).map(url => embedJsonInPng(url, settingsToEmbed, settings.enableImageMetadata))
+                );
+                if (!hasLogged && urls.length > 0) {
+                    optionsRef.current.logGeneration(appId, preGenState, urls[0]);
+                    hasLogged = true;
+                }
+                currentState = applyResult(currentState, key, { urls });
+                optionsRef.current.onStateChange(currentState);
+                optionsRef.current.addImagesToGallery(urls);
+            } catch (err) {
+                const errorMessage = getErrorMessage(err, t, errorFallback);
+                refundCredits(reservation, quantityPerKey, errorMessage);
+                failedKeys.push(key);
+                currentState = applyResult(currentState, key, { error: errorMessage });
+                optionsRef.current.onStateChange(currentState);
+                console.error(`Failed to generate image for ${key}:`, err);
+            } finally {
+                pendingKeys = pendingKeys.filter(pending => pending !== key);
+                persistPendingGeneration({ ...batch, state: currentState, pendingKeys, inputs: { ...batch.inputs, hasLogged } });
+            }
+        };
+
+        // The shared job queue limits how many of these run at once.
+        await Promise.all(pendingKeys.map(processKey));
+        clearPendingGeneration(batch.id);
+
+        currentState = optionsRef.current.finish(currentState);
+        optionsRef.current.onStateChange(currentState);
+        if (!edit) {
+            optionsRef.current.onComplete?.(currentState, failedKeys, reservation);
+        } else if (failedKeys.length === 0) {
+            toast.success("Chỉnh sửa thành công.");
+        }
+        return currentState;
+    }, [appId]);
+
+    useEffect(() => {
+        claimInterruptedGenerations(appId, 'batch').then(batches => {
+            const latest = batches.pop();
+            batches.forEach(batch => {
+                if (batch.reservation && batch.pendingKeys?.length) {
+                    const quantityPerKey = batch.inputs?.quantityPerKey ?? 1;
+                    contextRef.current.refundCredits(batch.reservation, batch.pendingKeys.length * quantityPerKey, 'Interrupted generation');
+                }
+                clearPendingGeneration(batch.id);
+            });
+            if (latest) {
+                optionsRef.current.onStateChange(latest.state);
+                runBatch(latest);
+            }
+        });
+    }, [appId, runBatch]);
+
+    const launchBatch = useCallback(async (
+        generatingState: S,
+        keys: string[],
+        preGenState: S,
+        quantityPerKey: number,
+        edit?: BatchEdit
+    ): Promise<S | null> => {
+        const reservation = await reserveCredits(keys.length * quantityPerKey);
+        if (!reservation) {
+            optionsRef.current.onStateChange(preGenState);
+            return null;
+        }
+        optionsRef.current.onStateChange(generatingState);
+        return runBatch(createPendingGeneration(appId, 'batch', {
+            state: generatingState,
+            pendingKeys: keys,
+            inputs: { preGenState, quantityPerKey, edit },
+            reservation,
+        }));
+    }, [appId, reserveCredits, runBatch]);
+
+    /**
+     * Reserves the credits of a new batch and runs it.
+     * @param generatingState The app state to show while generating, with every key pending.
+     * @param keys The keys to generate, e.g. ideas; each settles on its own.
+     * @param preGenState The app state before generating, logged to the history. It is shown
+     * again when the credits cannot be reserved.
+     * @param quantityPerKey How many results one key pays for, refunded when it fails.
+     * @returns The final state, or null when the credits could not be reserved.
+     */
+    const startBatch = useCallback((
+        generatingState: S,
+        keys: string[],
+        preGenState: S,
+        quantityPerKey = 1
+    ): Promise<S | null> => launchBatch(generatingState, keys, preGenState, quantityPerKey), [launchBatch]);
+
+    /**
+     * Reserves the credit of an edit of one finished result and runs it as a batch of one
+     * key, so it is resumed after a reload like any other generation.
+     * @param key The result being edited, e.g. its idea.
+     * @param edit The image to edit and the prompt to apply.
+     * @returns The final state, or null when the credit could not be reserved.
+     */
+    const startEdit = useCallback((
+        generatingState: S,
+        key: string,
+        edit: BatchEdit,
+        preGenState: S
+    ): Promise<S | null> => launchBatch(generatingState, [key], preGenState, 1, edit), [launchBatch]);
+
+    return { startBatch, startEdit };
+};
+
 /**
  * Custom hook to manage the state and actions for the Lightbox component.
  * @returns An object with the lightbox's current index and functions to control it.
@@ -54,6 +358,30 @@ export const useLightbox = () => {
     };
 };
 
+/**
+ * Resolves an image store reference to an object URL for display. Other URLs are
+ * returned as they are. Undefined while a reference is still loading.
+ * @param src An `img:<hash>` reference, data URL or blob URL.
+ */
+export const useImageUrl = (src: string | null | undefined): string | undefined => {
+    const [resolved, setResolved] = useState(() => src ? getResolvedImageUrl(src) : undefined);
+
+    useEffect(() => {
+        if (!src) {
+            setResolved(undefined);
+            return;
+        }
+        let isCancelled = false;
+        setResolved(getResolvedImageUrl(src));
+        resolveImageUrl(src)
+            .then(url => { if (!isCancelled) setResolved(url); })
+            .catch(error => console.warn("Could not resolve image:", error));
+        return () => { isCancelled = true; };
+    }, [src]);
+
+    return resolved;
+};
+
 // --- NEW: Debounce Hook ---
 /**
  * Custom hook to debounce a value.
@@ -77,23 +405,59 @@ export function useDebounce<T>(value: T, delay: number): T {
 
 // --- NEW: Video Generation Hook ---
 
-export const useVideoGeneration = () => {
+/**
+ * Custom hook to generate videos from result images and poll them until they finish.
+ * @param appId When given, started operations are kept in IndexedDB and re-polled after a reload.
+ */
+export const useVideoGeneration = (appId?: string) => {
     const { addImagesToGallery } = useAppControls();
     const [videoTasks, setVideoTasks] = useState<Record<string, VideoTask>>({});
+    // Pending-generation record ids by source image url.
+    const recordIdsRef = useRef<Record<string, string>>({});
+
+    const clearRecord = useCallback((sourceUrl: string) => {
+        const id = recordIdsRef.current[sourceUrl];
+        if (!id) return;
+        clearPendingGeneration(id);
+        delete recordIdsRef.current[sourceUrl];
+    }, []);
+
+    useEffect(() => {
+        if (!appId) return;
+        claimInterruptedGenerations(appId, 'video').then(records => {
+            const resumedTasks: Record<string, VideoTask> = {};
+            records.forEach(record => {
+                if (!record.key || !record.operation) {
+                    clearPendingGeneration(record.id);
+                    return;
+                }
+                recordIdsRef.current[record.key] = record.id;
+                resumedTasks[record.key] = { status: 'pending', operation: record.operation };
+            });
+            if (Object.keys(resumedTasks).length > 0) {
+                setVideoTasks(prev => ({ ...resumedTasks, ...prev }));
+            }
+        });
+    }, [appId]);
 
     const generateVideo = useCallback(async (sourceUrl: string, prompt: string) => {
         const finalPrompt = prompt.trim() || "Animate this image, bringing it to life with subtle, cinematic motion.";
         setVideoTasks(prev => ({ ...prev, [sourceUrl]: { status: 'pending' } }));
         try {
             // FIX: Parse the sourceUrl and call startVideoGeneration with the correct arguments.
-            const image = parseDataUrl(sourceUrl);
+            const image = await parseDataUrl(sourceUrl);
             const op = await startVideoGeneration(finalPrompt, image);
+            if (appId) {
+                const record = createPendingGeneration(appId, 'video', { key: sourceUrl, operation: op, inputs: { prompt: finalPrompt } });
+                recordIdsRef.current[sourceUrl] = record.id;
+                persistPendingGeneration(record);
+            }
             setVideoTasks(prev => ({ ...prev, [sourceUrl]: { status: 'pending', operation: op } }));
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
             setVideoTasks(prev => ({ ...prev, [sourceUrl]: { status: 'error', error: errorMessage } }));
         }
-    }, [addImagesToGallery]);
+    }, [appId]);
 
     useEffect(() => {
         const tasksToPoll = Object.entries(videoTasks).filter(([, task]) => (task as VideoTask).status === 'pending' && (task as VideoTask).operation);
@@ -117,14 +481,13 @@ export const useVideoGeneration = () => {
                     if (updatedOp.done) {
                         if (updatedOp.response?.generatedVideos?.[0]?.video?.uri) {
                             const downloadLink = updatedOp.response.generatedVideos[0].video.uri;
-                            const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-                            if (!response.ok) throw new Error(`Failed to fetch video: ${response.statusText}`);
-                            const blob = await response.blob();
+                            const blob = await downloadGeneratedVideo(downloadLink);
                             const blobUrl = URL.createObjectURL(blob);
                             newTasks[sourceUrl] = { status: 'done', resultUrl: blobUrl };
+                            clearRecord(sourceUrl);
                             addImagesToGallery([blobUrl]);
                         } else {
-                            throw new Error(updatedOp.error?.message || "Video generation finished but no URI was found.");
+                            throw new Error((updatedOp.error?.message as string | undefined) || "Video generation finished but no URI was found.");
                         }
                     } else {
                         // FIX: Replaced spread operator with Object.assign for type safety, as `typedTask` could potentially not be an object, causing a runtime error.
@@ -134,6 +497,7 @@ export const useVideoGeneration = () => {
                 } catch (err) {
                     const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
                     newTasks[sourceUrl] = { status: 'error', error: errorMessage };
+                    clearRecord(sourceUrl);
                     tasksUpdated = true;
                 }
             }));
@@ -154,7 +518,7 @@ export const useVideoGeneration = () => {
             isCancelled = true;
             clearTimeout(timeoutId);
         };
-    }, [videoTasks, addImagesToGallery]);
+    }, [videoTasks, addImagesToGallery, clearRecord]);
 
     return { videoTasks, generateVideo };
 };
\ No newline at end of file
@@ -1,5 +1,7 @@
 
 import React from 'react';
+import type { CreditReservation } from '../lib/credits';
+import type { PaintBlendMode } from './ImageEditor/ImageEditor.types';
 
 // --- Common Types ---
 export type ImageStatus = 'idle' | 'pending' | 'done' | 'error';
@@ -29,6 +31,8 @@ export interface Settings {
     apps: AppConfig[];
     enableWebcam?: boolean;
     enableImageMetadata?: boolean;
+    // How many generations may run at once across all apps (see services/gemini/jobQueue.ts).
+    maxConcurrentJobs?: number;
     [key: string]: any;
 }
 
@@ -55,11 +59,42 @@ export interface VideoTask {
     error?: string;
 }
 
+/**
+ * A generation that was started but has not finished yet, kept in IndexedDB so it can be
+ * resumed after a page reload.
+ */
+export interface PendingGeneration {
+    id: string;
+    appId: string;
+    kind: 'batch' | 'frame' | 'video';
+    // The page load that owns the generation; records from an earlier load were interrupted.
+    sessionId: string;
+    createdAt: number;
+    // For batches: the app state to restore, and the ideas in it that are still pending.
+    state?: any;
+    pendingKeys?: string[];
+    // Identifies the frame, scene or source image the result belongs to.
+    key?: string;
+    // The prompt, input images and options needed to run the request again.
+    inputs?: any;
+    // The long-running operation handle of a video generation, once it has started.
+    operation?: any;
+    reservation?: CreditReservation;
+}
+
 export interface ImageToEdit {
     url: string | null;
     onSave: (newUrl: string) => void;
 }
 
+// An image the ImageEditor hands to the LayerComposer to add as its own layer.
+export interface ComposerLayerImport {
+    url: string;
+    opacity: number;
+    blendMode: PaintBlendMode;
+    isVisible: boolean;
+}
+
 // Restore themes to match index.css classes
 export type Theme = 'sdvn' | 'vietnam' | 'skyline' | 'hidden-jaguar' | 'wide-matrix' | 'rainbow' | 'soundcloud' | 'amin';
 export const THEMES: Theme[] = ['sdvn', 'vietnam', 'skyline', 'hidden-jaguar', 'wide-matrix', 'rainbow', 'soundcloud', 'amin'];
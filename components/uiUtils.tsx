@@ -11,6 +11,7 @@
 
 export * from './uiTypes';
 export * from './uiFileUtilities';
+export * from './uiErrors';
 export * from './uiHooks';
 export * from './uiContexts';
 export * from './uiComponents';
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { requestApi, type UserRole } from './auth';
+
+// Account management for the admin console. Every call requires an admin session.
+
+const ACCOUNTS_API = '/api/admin/accounts';
+
+export interface Account {
+  username: string;
+  role?: UserRole;
+  credits?: number;
+  disabled?: boolean;
+}
+
+export interface AppUsage {
+  credits: number;
+  generations: number;
+}
+
+export interface AccountSummary extends Account {
+  role: UserRole;
+  disabled: boolean;
+  balance: number;
+  allowance: number;
+  // Net usage keyed by app id (see settings.apps).
+  usage: Record<string, AppUsage>;
+}
+
+export interface NewAccount extends Account {
+  password: string;
+}
+
+export async function fetchAccounts(): Promise<AccountSummary[]> {
+  const { accounts } = await requestApi<{ accounts: AccountSummary[] }>(ACCOUNTS_API);
+  return accounts;
+}
+
+export async function createAccount(account: NewAccount): Promise<AccountSummary> {
+  const { account: created } = await requestApi<{ account: AccountSummary }>(
+    ACCOUNTS_API,
+    { method: 'POST', body: JSON.stringify(account) }
+  );
+  return created;
+}
+
+export async function updateAccount(
+  username: string,
+  update: { role?: UserRole; disabled?: boolean; password?: string }
+): Promise<AccountSummary> {
+  const { account } = await requestApi<{ account: AccountSummary }>(
+    `${ACCOUNTS_API}/${encodeURIComponent(username)}`,
+    { method: 'PATCH', body: JSON.stringify(update) }
+  );
+  return account;
+}
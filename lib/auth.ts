@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Session handling for the browser. Passwords are checked by the server (see server/auth.ts),
+// which returns a signed token; its claims tell the app who is signed in and with which role.
+
+const AUTH_API = '/api/auth';
+const TOKEN_STORAGE_KEY = 'caotrang_session_token';
+
+export type UserRole = "normal" | "vip" | "admin";
+
+export interface SessionClaims {
+  sid: string;
+  sub: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+function decodeClaims(token: string): SessionClaims | null {
+  try {
+    const payload = token.split('.')[0].replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = Uint8Array.from(atob(payload), c => c.charCodeAt(0));
+    return JSON.parse(new TextDecoder().decode(bytes)) as SessionClaims;
+  } catch {
+    return null;
+  }
+}
+
+export function getSessionToken(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+function clearSessionToken() {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(TOKEN_STORAGE_KEY);
+}
+
+/**
+ * The claims of the stored token, or null when there is none or it has expired.
+ * These are not verified here; the server re-checks the token on every request.
+ */
+export function getSessionClaims(): SessionClaims | null {
+  const token = getSessionToken();
+  if (!token) return null;
+  const claims = decodeClaims(token);
+  if (!claims || claims.exp <= Date.now()) {
+    clearSessionToken();
+    return null;
+  }
+  return claims;
+}
+
+export function getAuthHeaders(): Record<string, string> {
+  const token = getSessionToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Sends an authenticated JSON request to the API and returns the parsed body.
+ * Throws with the server's message on an error status.
+ */
+export async function requestApi<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...init?.headers },
+    });
+  } catch (error) {
+    console.error(`API unreachable (${url}):`, error);
+    throw new Error("Không thể kết nối tới máy chủ. Vui lòng thử lại sau.");
+  }
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `API error (${response.status}).`);
+  }
+  return body as T;
+}
+
+export async function fetchAuthConfig(): Promise<{ enabled: boolean }> {
+  const response = await fetch(`${AUTH_API}/config`);
+  if (!response.ok) {
+    throw new Error(`Auth config unavailable (${response.status}).`);
+  }
+  const { enabled } = await response.json();
+  return { enabled: enabled !== false };
+}
+
+/**
+ * Signs in and stores the session token. Returns null for wrong credentials.
+ */
+export async function loginWithPassword(username: string, password: string): Promise<SessionClaims | null> {
+  const response = await fetch(`${AUTH_API}/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`Login failed (${response.status}).`);
+  }
+  const { token, claims } = await response.json();
+  localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  return claims as SessionClaims;
+}
+
+/**
+ * Confirms the stored token with the server, dropping it if it was revoked or expired.
+ */
+export async function restoreSession(): Promise<SessionClaims | null> {
+  if (!getSessionClaims()) return null;
+  const response = await fetch(`${AUTH_API}/session`, { headers: getAuthHeaders() });
+  if (response.status === 401) {
+    clearSessionToken();
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Session check failed (${response.status}).`);
+  }
+  const { claims } = await response.json();
+  return claims as SessionClaims;
+}
+
+/**
+ * Revokes the session on the server and forgets the token. The local token is
+ * dropped even when the server cannot be reached.
+ */
+export async function logoutSession(): Promise<void> {
+  const headers = getAuthHeaders();
+  clearSessionToken();
+  if (!headers.Authorization) return;
+  try {
+    await fetch(`${AUTH_API}/logout`, { method: 'POST', headers });
+  } catch (error) {
+    console.warn("Could not revoke session on the server:", error);
+  }
+}
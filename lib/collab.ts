@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getSessionToken } from './auth';
+
+// How collaborators on a shared canvas reach each other. A transport carries JSON messages
+// between the peers of a room and says when peers come and go; what the messages mean is up
+// to the caller. connectWebSocketTransport talks to the reference relay in server/collab.ts.
+// Its URL is set at build time with COLLAB_URL; without one there is no relay to talk to.
+
+export type CollabTransportEvent =
+    | { type: 'message'; from: string; data: unknown }
+    | { type: 'peer-joined'; peerId: string }
+    | { type: 'peer-left'; peerId: string }
+    // The connection dropped or was closed by the relay.
+    | { type: 'closed' };
+
+export interface CollabTransport {
+    // This peer's id in the room, given by the relay.
+    peerId: string;
+    // The peers that were in the room when this one joined.
+    peers: string[];
+    // Sends to every other peer in the room, or only to `to`.
+    send(data: unknown, to?: string): void;
+    // Returns the unsubscribe function.
+    subscribe(listener: (event: CollabTransportEvent) => void): () => void;
+    close(): void;
+}
+
+const COLLAB_URL = process.env.COLLAB_URL || '';
+
+// The relay's close code for a missing or invalid session.
+const CLOSE_UNAUTHORIZED = 4401;
+
+/**
+ * Whether this build knows a relay to collaborate through.
+ */
+export const isCollabAvailable = (): boolean => !!COLLAB_URL;
+
+/**
+ * Joins `roomId` through the WebSocket relay. The session token is sent in the first
+ * message, not in the URL. Resolves once the relay has welcomed this peer, or rejects when
+ * the connection can't be made.
+ */
+export function connectWebSocketTransport(roomId: string): Promise<CollabTransport> {
+    if (!COLLAB_URL) {
+        return Promise.reject(new Error("Chưa cấu hình máy chủ cộng tác."));
+    }
+    const url = new URL(COLLAB_URL, window.location.href);
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+        url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    }
+    url.searchParams.set('room', roomId);
+
+    return new Promise((resolve, reject) => {
+        const socket = new WebSocket(url);
+        const listeners = new Set<(event: CollabTransportEvent) => void>();
+        const emit = (event: CollabTransportEvent) => listeners.forEach(listener => listener(event));
+        let isWelcomed = false;
+
+        socket.onopen = () => socket.send(JSON.stringify({ type: 'auth', token: getSessionToken() }));
+        socket.onmessage = (event) => {
+            let message: any;
+            try {
+                message = JSON.parse(event.data);
+            } catch {
+                return;
+            }
+            if (message.type === 'welcome' && !isWelcomed) {
+                isWelcomed = true;
+                resolve({
+                    peerId: message.peerId,
+                    peers: message.peers,
+                    send: (data, to) => {
+                        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ to, data }));
+                    },
+                    subscribe: (listener) => {
+                        listeners.add(listener);
+                        return () => listeners.delete(listener);
+                    },
+                    close: () => socket.close(1000),
+                });
+            } else if (message.type === 'message' || message.type === 'peer-joined' || message.type === 'peer-left') {
+                emit(message);
+            }
+        };
+        socket.onclose = (event) => {
+            if (isWelcomed) emit({ type: 'closed' });
+            else if (event.code === CLOSE_UNAUTHORIZED) reject(new Error("Phiên đăng nhập không hợp lệ. Vui lòng đăng nhập lại để cộng tác."));
+            else reject(new Error("Không kết nối được tới máy chủ cộng tác."));
+        };
+    });
+}
@@ -3,69 +3,79 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-const DEFAULT_NORMAL_CREDITS = 5;
-const DEFAULT_VIP_CREDITS = 20;
+import { getSessionClaims, requestApi, type UserRole } from './auth';
 
-export function getCurrentUsername(): string | null {
-  if (typeof window === "undefined") return null;
-  return localStorage.getItem("caotrang_username");
+// Credit balances live in the server-side ledger (see server/creditLedger.ts).
+// The browser only reserves credits before a generation and refunds them when it fails.
+
+const CREDITS_API = '/api/credits';
+
+export interface CreditBalance {
+  balance: number;
+  allowance: number;
 }
 
-export function getUserRole(username: string): "normal" | "vip" {
-  if (typeof window === "undefined") return "normal";
-  const role = localStorage.getItem("caotrang_role");
-  return (role === "vip") ? "vip" : "normal";
+export interface CreditReservation {
+  username: string;
+  appId: string;
+  // One spend per result; each is refunded on its own.
+  transactionIds: string[];
+  amount: number;
+  quantity: number;
+  // Balance left after the reservation was made.
+  balance: number;
 }
 
-export function getMaxCredits(username: string): number {
-  if (typeof window === "undefined") return DEFAULT_NORMAL_CREDITS;
-  
-  // 1. Ưu tiên lấy từ cấu hình cụ thể đã lưu khi login
-  const baseKey = `caotrang_base_credits_${username}`;
-  const baseStored = localStorage.getItem(baseKey);
-  
-  if (baseStored) {
-    const parsed = parseInt(baseStored, 10);
-    if (!Number.isNaN(parsed)) return parsed;
-  }
+export function getCurrentUsername(): string | null {
+  return getSessionClaims()?.sub ?? null;
+}
 
-  // 2. Fallback theo role nếu không có cấu hình cụ thể
-  const role = getUserRole(username);
-  return role === "vip" ? DEFAULT_VIP_CREDITS : DEFAULT_NORMAL_CREDITS;
+export function getUserRole(username: string): UserRole {
+  const claims = getSessionClaims();
+  return claims?.sub === username ? claims.role : "normal";
 }
 
-export function getUserCredits(username: string): number {
-  if (typeof window === "undefined") return DEFAULT_NORMAL_CREDITS;
-  
-  const key = `caotrang_credits_${username}`;
-  const stored = localStorage.getItem(key);
-  
-  // Nếu đã có credit hiện tại (đã bị trừ hoặc chưa), trả về giá trị đó
-  if (stored) {
-    const value = parseInt(stored, 10);
-    if (!Number.isNaN(value)) {
-        return value;
-    }
-  }
+const requestCredits = <T>(path: string, init?: RequestInit): Promise<T> => requestApi<T>(`${CREDITS_API}${path}`, init);
 
-  // Nếu chưa có (lần đầu hoặc bị xoá), khởi tạo bằng Max Credits của user đó
-  const initial = getMaxCredits(username);
-  localStorage.setItem(key, String(initial));
-  return initial;
+export async function fetchCreditBalance(username: string): Promise<CreditBalance> {
+  const { balance, allowance } = await requestCredits<CreditBalance>(`/${encodeURIComponent(username)}`);
+  return { balance, allowance };
 }
 
-export function decreaseUserCredits(username: string): number {
-  const current = getUserCredits(username);
-  const next = Math.max(current - 1, 0);
-  if (typeof window !== "undefined") {
-    localStorage.setItem(`caotrang_credits_${username}`, String(next));
-  }
-  return next;
+/**
+ * Spends the credits for `quantity` results of an app up front.
+ * Throws with a user-facing message when the balance is too low.
+ */
+export async function reserveCredits(username: string, appId: string, quantity = 1): Promise<CreditReservation> {
+  const { transactions, balance } = await requestCredits<{ transactions: { id: string; amount: number }[]; balance: CreditBalance }>(
+    `/${encodeURIComponent(username)}/spend`,
+    { method: 'POST', body: JSON.stringify({ appId, quantity }) }
+  );
+  const amount = transactions.reduce((sum, tx) => sum + tx.amount, 0);
+  return { username, appId, transactionIds: transactions.map(tx => tx.id), amount, quantity, balance: balance.balance };
 }
 
-export function resetUserCredits(username: string, value?: number) {
-  if (typeof window !== "undefined") {
-    const resetValue = value !== undefined ? value : getMaxCredits(username);
-    localStorage.setItem(`caotrang_credits_${username}`, String(resetValue));
-  }
+/**
+ * Gives back the credits of `quantity` failed results from a reservation, or of every
+ * result not yet refunded when no quantity is given. The server refunds each result
+ * once, only shortly after the reservation and only up to a daily limit; otherwise
+ * this throws with its message.
+ */
+export async function refundCredits(reservation: CreditReservation, quantity?: number, reason?: string): Promise<CreditBalance> {
+  const { balance } = await requestCredits<{ balance: CreditBalance }>(
+    `/${encodeURIComponent(reservation.username)}/refund`,
+    { method: 'POST', body: JSON.stringify({ transactionIds: reservation.transactionIds, quantity, reason }) }
+  );
+  return balance;
+}
+
+/**
+ * Admin only: grants credits to a user for a positive amount, claws them back for a negative one.
+ */
+export async function adjustCredits(username: string, amount: number, note?: string): Promise<CreditBalance> {
+  const { balance } = await requestApi<{ balance: CreditBalance }>(
+    `/api/admin/accounts/${encodeURIComponent(username)}/credits`,
+    { method: 'POST', body: JSON.stringify({ amount, note }) }
+  );
+  return balance;
 }
@@ -2,24 +2,57 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { type GenerationHistoryEntry } from '../components/uiTypes';
+import { type GenerationHistoryEntry, type PendingGeneration } from '../components/uiTypes';
+import { type EditLook } from '../components/ImageEditor/ImageEditor.types';
 
 const DB_NAME = 'aPixDatabase';
-const DB_VERSION = 3;
+export const DB_VERSION = 6;
 const GALLERY_STORE = 'imageGallery';
 const HISTORY_STORE = 'generationHistory';
 const CANVAS_STORE = 'canvasState';
 const STORYBOARD_STORE = 'storyboardState';
+const PENDING_STORE = 'pendingGenerations';
+const IMAGE_STORE = 'imageBlobs';
+const LOOK_STORE = 'editLooks';
 
+// Remembers which account kept the database from before accounts had their own.
+const DB_OWNER_STORAGE_KEY = 'aPixDatabaseOwner';
+
+let dbName = DB_NAME;
 let dbPromise: Promise<IDBDatabase> | null = null;
 
+// Every signed-in account has a database of its own, so accounts sharing a browser never see or
+// sync each other's gallery, history, documents and images. The first account to sign in keeps
+// the original database, along with whatever was made in it before; without login it is used as is.
+const getDatabaseName = (username: string | null): string => {
+    if (!username) return DB_NAME;
+    const owner = localStorage.getItem(DB_OWNER_STORAGE_KEY);
+    if (!owner) {
+        localStorage.setItem(DB_OWNER_STORAGE_KEY, username);
+        return DB_NAME;
+    }
+    return owner === username ? DB_NAME : `${DB_NAME}:${username}`;
+};
+
+// Points every later call at the given account's database. Call it before reading any data
+// after the signed-in account changes.
+export const selectAccountDatabase = (username: string | null): void => {
+    const name = getDatabaseName(username);
+    if (name === dbName) return;
+    const previous = dbPromise;
+    dbName = name;
+    dbPromise = null;
+    // Transactions already running on the old connection still finish.
+    previous?.then(db => db.close(), () => {});
+};
+
 const initDB = (): Promise<IDBDatabase> => {
     if (dbPromise) {
         return dbPromise;
     }
 
     dbPromise = new Promise((resolve, reject) => {
-        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        const request = indexedDB.open(dbName, DB_VERSION);
 
         request.onerror = () => {
             console.error('IndexedDB error:', request.error);
@@ -44,6 +77,15 @@ const initDB = (): Promise<IDBDatabase> => {
             if (!db.objectStoreNames.contains(STORYBOARD_STORE)) {
                 db.createObjectStore(STORYBOARD_STORE);
             }
+            if (!db.objectStoreNames.contains(PENDING_STORE)) {
+                db.createObjectStore(PENDING_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+                db.createObjectStore(IMAGE_STORE, { keyPath: 'hash' });
+            }
+            if (!db.objectStoreNames.contains(LOOK_STORE)) {
+                db.createObjectStore(LOOK_STORE, { keyPath: 'id' });
+            }
         };
     });
     return dbPromise;
@@ -182,6 +224,14 @@ export const replaceGalleryImage = async (oldImageUrl: string, newImageUrl: stri
     });
 };
 
+export const clearGallery = async (): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(GALLERY_STORE, 'readwrite');
+    const store = tx.objectStore(GALLERY_STORE);
+    store.clear();
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
 // --- HISTORY OPERATIONS ---
 
 export const addHistoryEntry = async (entry: GenerationHistoryEntry): Promise<void> => {
@@ -192,6 +242,41 @@ export const addHistoryEntry = async (entry: GenerationHistoryEntry): Promise<vo
     return new Promise(resolve => tx.oncomplete = () => resolve());
 };
 
+export const putHistoryEntry = async (entry: GenerationHistoryEntry): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    store.put(entry);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+export const getHistoryEntry = async (id: string): Promise<GenerationHistoryEntry | null> => {
+    const db = await initDB();
+    const tx = db.transaction(HISTORY_STORE, 'readonly');
+    const store = tx.objectStore(HISTORY_STORE);
+    const request = store.get(id);
+    return new Promise((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        tx.oncomplete = () => resolve(request.result || null);
+    });
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    store.delete(id);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+export const clearHistory = async (): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    store.clear();
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
 export const getAllHistoryEntries = async (): Promise<GenerationHistoryEntry[]> => {
     const db = await initDB();
     const tx = db.transaction(HISTORY_STORE, 'readonly');
@@ -263,4 +348,160 @@ export const clearStoryboardState = async (): Promise<void> => {
     const store = tx.objectStore(STORYBOARD_STORE);
     store.clear();
     return new Promise(resolve => tx.oncomplete = () => resolve());
-};
\ No newline at end of file
+};
+
+// --- PENDING GENERATION OPERATIONS ---
+export const savePendingGeneration = async (record: PendingGeneration): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(PENDING_STORE, 'readwrite');
+    const store = tx.objectStore(PENDING_STORE);
+    store.put(record);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+export const getAllPendingGenerations = async (): Promise<PendingGeneration[]> => {
+    const db = await initDB();
+    const tx = db.transaction(PENDING_STORE, 'readonly');
+    const store = tx.objectStore(PENDING_STORE);
+    const allItems = store.getAll();
+    return new Promise((resolve) => {
+        tx.oncomplete = () => {
+            const sorted = (allItems.result as PendingGeneration[]).sort((a, b) => a.createdAt - b.createdAt);
+            resolve(sorted);
+        };
+    });
+};
+
+export const deletePendingGeneration = async (id: string): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(PENDING_STORE, 'readwrite');
+    const store = tx.objectStore(PENDING_STORE);
+    store.delete(id);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+// --- EDIT LOOK OPERATIONS ---
+export const saveEditLook = async (look: EditLook): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(LOOK_STORE, 'readwrite');
+    const store = tx.objectStore(LOOK_STORE);
+    store.put(look);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+export const getAllEditLooks = async (): Promise<EditLook[]> => {
+    const db = await initDB();
+    const tx = db.transaction(LOOK_STORE, 'readonly');
+    const store = tx.objectStore(LOOK_STORE);
+    const allItems = store.getAll();
+    return new Promise((resolve) => {
+        tx.oncomplete = () => {
+            const sorted = (allItems.result as EditLook[]).sort((a, b) => a.createdAt - b.createdAt);
+            resolve(sorted);
+        };
+    });
+};
+
+export const deleteEditLook = async (id: string): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(LOOK_STORE, 'readwrite');
+    const store = tx.objectStore(LOOK_STORE);
+    store.delete(id);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+// --- IMAGE BLOB OPERATIONS ---
+export interface StoredImageRecord {
+    hash: string;
+    blob: Blob;
+    // How many gallery items, history entries and saved documents hold this image.
+    refCount: number;
+    // When the blob was first stored; missing on records stored before it was kept.
+    storedAt?: number;
+}
+
+export const getImageRecord = async (hash: string): Promise<StoredImageRecord | null> => {
+    const db = await initDB();
+    const tx = db.transaction(IMAGE_STORE, 'readonly');
+    const store = tx.objectStore(IMAGE_STORE);
+    const request = store.get(hash);
+    return new Promise((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        tx.oncomplete = () => resolve(request.result || null);
+    });
+};
+
+/**
+ * Stores the blob under its hash unless it is already there. A new record starts
+ * unreferenced; owners add references with adjustImageRefCounts.
+ */
+export const addImageIfAbsent = async (hash: string, blob: Blob): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(IMAGE_STORE, 'readwrite');
+    const store = tx.objectStore(IMAGE_STORE);
+    const request = store.getKey(hash);
+    request.onsuccess = () => {
+        if (request.result === undefined) {
+            store.add({ hash, blob, refCount: 0, storedAt: Date.now() } as StoredImageRecord);
+        }
+    };
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+/**
+ * Applies reference count changes in one transaction and deletes the images no longer
+ * referenced by anything. Resolves with the hashes that were deleted.
+ */
+export const adjustImageRefCounts = async (deltas: Record<string, number>): Promise<string[]> => {
+    const db = await initDB();
+    const tx = db.transaction(IMAGE_STORE, 'readwrite');
+    const store = tx.objectStore(IMAGE_STORE);
+    const deleted: string[] = [];
+    for (const [hash, delta] of Object.entries(deltas)) {
+        if (delta === 0) continue;
+        const request = store.get(hash);
+        request.onsuccess = () => {
+            const record = request.result as StoredImageRecord | undefined;
+            if (!record) return;
+            const refCount = record.refCount + delta;
+            if (refCount <= 0) {
+                store.delete(hash);
+                deleted.push(hash);
+            } else {
+                store.put({ ...record, refCount });
+            }
+        };
+    }
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve(deleted);
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+/**
+ * Deletes the images stored before `storedBefore` that nothing references. Resolves with
+ * the hashes that were deleted.
+ */
+export const deleteUnreferencedImages = async (storedBefore: number): Promise<string[]> => {
+    const db = await initDB();
+    const tx = db.transaction(IMAGE_STORE, 'readwrite');
+    const request = tx.objectStore(IMAGE_STORE).openCursor();
+    const deleted: string[] = [];
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const record = cursor.value as StoredImageRecord;
+        if (record.refCount <= 0 && (record.storedAt ?? 0) < storedBefore) {
+            cursor.delete();
+            deleted.push(record.hash);
+        }
+        cursor.continue();
+    };
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve(deleted);
+        tx.onerror = () => reject(tx.error);
+    });
+};
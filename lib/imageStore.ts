@@ -0,0 +1,325 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as db from './db';
+
+// Content-addressed image store. Images are kept once in IndexedDB as blobs keyed by the
+// SHA-256 of their bytes, and the gallery, history and saved documents hold short
+// `img:<hash>` references instead of base64 data URLs. References resolve lazily: to an
+// object URL for display, or back to a data URL where a model call or export needs one.
+// Every owner (gallery item, history entry, saved canvas or storyboard) retains the
+// references it holds and releases them when it is deleted; an image is collected when
+// nothing references it any more. App state borrows the references of the gallery and
+// history it was restored from and loads the image only where it is drawn or sent to a
+// model. Images stored but never retained, e.g. when the tab closed in between, are swept
+// at startup.
+
+export const IMAGE_REF_PREFIX = 'img:';
+
+export type ImageRef = `${typeof IMAGE_REF_PREFIX}${string}`;
+
+export const isImageRef = (value: unknown): value is ImageRef =>
+    typeof value === 'string' && value.startsWith(IMAGE_REF_PREFIX);
+
+const isImageDataUrl = (value: unknown): value is string =>
+    typeof value === 'string' && value.startsWith('data:image/');
+
+const hashOfRef = (ref: string) => ref.slice(IMAGE_REF_PREFIX.length);
+
+// Object URLs created this session, by hash. Revoked when the image is collected.
+const objectUrls = new Map<string, string>();
+
+// Data URLs already hashed this session, so saving the same document again does not
+// re-hash every image. Bounded; the oldest entries are dropped first.
+const MAX_KNOWN_DATA_URLS = 200;
+const knownDataUrls = new Map<string, string>();
+const storesInFlight = new Map<string, Promise<string>>();
+
+const rememberDataUrl = (dataUrl: string, ref: string) => {
+    knownDataUrls.delete(dataUrl);
+    knownDataUrls.set(dataUrl, ref);
+    if (knownDataUrls.size > MAX_KNOWN_DATA_URLS) {
+        knownDataUrls.delete(knownDataUrls.keys().next().value as string);
+    }
+};
+
+// Reference counting and collection run one at a time so that a release cannot delete
+// an image another owner is about to retain.
+let pendingCountUpdate: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = pendingCountUpdate.then(task);
+    pendingCountUpdate = result.catch(() => undefined);
+    return result;
+};
+
+async function sha256Hex(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => typeof reader.result === 'string' ? resolve(reader.result) : reject(new Error('Failed to read image blob.'));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+/**
+ * The stored bytes of a reference.
+ */
+export async function getImageBlob(ref: string): Promise<Blob> {
+    const record = await db.getImageRecord(hashOfRef(ref));
+    if (!record) {
+        throw new Error(`Ảnh ${hashOfRef(ref).slice(0, 12)} không còn trong kho ảnh của trình duyệt.`);
+    }
+    return record.blob;
+}
+
+/**
+ * Whether the store has the image of a reference.
+ */
+export const hasImage = async (ref: string): Promise<boolean> =>
+    !!(await db.getImageRecord(hashOfRef(ref)));
+
+/**
+ * Puts an image blob into the store and returns its reference. Like storeImage, the
+ * image is not retained.
+ */
+export async function storeImageBlob(blob: Blob): Promise<string> {
+    const hash = await sha256Hex(blob);
+    await db.addImageIfAbsent(hash, blob);
+    return `${IMAGE_REF_PREFIX}${hash}`;
+}
+
+/**
+ * Puts an image data URL into the store and returns its reference. The image is not
+ * retained; the caller must retain the reference once something holds it.
+ */
+export async function storeImage(dataUrl: string): Promise<string> {
+    const known = knownDataUrls.get(dataUrl);
+    if (known) return known;
+    // Documents repeat the same image across their undo history; hash it only once.
+    const inFlight = storesInFlight.get(dataUrl);
+    if (inFlight) return inFlight;
+
+    const store = (async () => {
+        const ref = await storeImageBlob(await (await fetch(dataUrl)).blob());
+        rememberDataUrl(dataUrl, ref);
+        return ref;
+    })();
+    storesInFlight.set(dataUrl, store);
+    try {
+        return await store;
+    } finally {
+        storesInFlight.delete(dataUrl);
+    }
+}
+
+/**
+ * A URL an <img> or canvas can load. References resolve to an object URL; anything
+ * else is returned unchanged.
+ */
+export async function resolveImageUrl(src: string): Promise<string> {
+    if (!isImageRef(src)) return src;
+    const hash = hashOfRef(src);
+    const cached = objectUrls.get(hash);
+    if (cached) return cached;
+    const objectUrl = URL.createObjectURL(await getImageBlob(src));
+    objectUrls.set(hash, objectUrl);
+    return objectUrl;
+}
+
+/**
+ * The object URL of a reference if it was already resolved this session.
+ */
+export const getResolvedImageUrl = (src: string): string | undefined =>
+    isImageRef(src) ? objectUrls.get(hashOfRef(src)) : src;
+
+/**
+ * The data URL of a reference, for model calls, downloads and exports. Anything that
+ * is not a reference is returned unchanged.
+ */
+export async function resolveImageDataUrl(src: string): Promise<string> {
+    if (!isImageRef(src)) return src;
+    const dataUrl = await blobToDataUrl(await getImageBlob(src));
+    rememberDataUrl(dataUrl, src);
+    return dataUrl;
+}
+
+// Drops what this session cached for images that were deleted from the store.
+const forgetImages = (hashes: string[]) => {
+    hashes.forEach(hash => {
+        const objectUrl = objectUrls.get(hash);
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+        objectUrls.delete(hash);
+        for (const [dataUrl, ref] of knownDataUrls) {
+            if (hashOfRef(ref) === hash) knownDataUrls.delete(dataUrl);
+        }
+    });
+};
+
+const adjustRefCounts = (refs: string[], delta: number) => runExclusive(async () => {
+    const deltas: Record<string, number> = {};
+    refs.filter(isImageRef).forEach(ref => {
+        const hash = hashOfRef(ref);
+        deltas[hash] = (deltas[hash] || 0) + delta;
+    });
+    if (Object.keys(deltas).length === 0) return;
+    forgetImages(await db.adjustImageRefCounts(deltas));
+});
+
+export const retainImages = (refs: string[]): Promise<void> => adjustRefCounts(refs, 1);
+
+/**
+ * Drops one reference to each image and deletes the images nothing references any more.
+ */
+export const releaseImages = (refs: string[]): Promise<void> => adjustRefCounts(refs, -1);
+
+// An image is stored before its owner retains it. Unretained images younger than this may
+// still be on their way to an owner, possibly in another tab, and are left alone.
+const UNRETAINED_IMAGE_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Deletes the images that were stored but never retained, or whose owners were lost
+ * before they could retain them.
+ */
+export const sweepUnreferencedImages = (): Promise<void> => runExclusive(async () => {
+    forgetImages(await db.deleteUnreferencedImages(Date.now() - UNRETAINED_IMAGE_GRACE_MS));
+});
+
+// --- Deep Conversion ---
+
+const mapStrings = async (value: any, convert: (text: string) => Promise<string>): Promise<any> => {
+    if (typeof value === 'string') return convert(value);
+    if (Array.isArray(value)) return Promise.all(value.map(item => mapStrings(item, convert)));
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        const entries = await Promise.all(
+            Object.entries(value).map(async ([key, item]) => [key, await mapStrings(item, convert)] as const)
+        );
+        return Object.fromEntries(entries);
+    }
+    return value;
+};
+
+/**
+ * A copy of a plain value (app state, canvas or storyboard document) with every image
+ * data URL moved to the store and replaced by its reference.
+ */
+export const dehydrateImages = <T>(value: T): Promise<T> =>
+    mapStrings(value, text => isImageDataUrl(text) ? storeImage(text) : Promise.resolve(text));
+
+/**
+ * A copy of a plain value with every reference replaced by its data URL again, for
+ * exports. Rejects if an image is missing from the store rather than leaving a hole.
+ */
+export const hydrateImages = <T>(value: T): Promise<T> =>
+    mapStrings(value, text => isImageRef(text) ? resolveImageDataUrl(text) : Promise.resolve(text));
+
+/**
+ * The distinct references held anywhere in a plain value.
+ */
+export function collectImageRefs(value: unknown): string[] {
+    const refs = new Set<string>();
+    const visit = (item: unknown) => {
+        if (isImageRef(item)) {
+            refs.add(item);
+        } else if (Array.isArray(item)) {
+            item.forEach(visit);
+        } else if (item && typeof item === 'object') {
+            Object.values(item).forEach(visit);
+        }
+    };
+    visit(value);
+    return [...refs];
+}
+
+// --- Single-Slot Documents ---
+
+interface DocumentSlot {
+    load: () => Promise<any | null>;
+    save: (state: any) => Promise<void>;
+    clear: () => Promise<void>;
+}
+
+export const CANVAS_DOCUMENT: DocumentSlot = {
+    load: db.loadCanvasState,
+    save: db.saveCanvasState,
+    clear: db.clearCanvasState,
+};
+
+export const STORYBOARD_DOCUMENT: DocumentSlot = {
+    load: db.loadStoryboardState,
+    save: db.saveStoryboardState,
+    clear: db.clearStoryboardState,
+};
+
+// Document writes run one at a time so two saves never release the same old version.
+let pendingDocumentWrite: Promise<unknown> = Promise.resolve();
+
+const runDocumentWrite = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = pendingDocumentWrite.then(task);
+    pendingDocumentWrite = result.catch(() => undefined);
+    return result;
+};
+
+/**
+ * Saves a document with its images in the store. The new version retains its images
+ * before the replaced version releases its own, so shared images are never collected.
+ */
+export const saveDocumentWithImages = (slot: DocumentSlot, state: any): Promise<void> => runDocumentWrite(async () => {
+    const dehydrated = await dehydrateImages(state);
+    const previous = await slot.load();
+    await slot.save(dehydrated);
+    await retainImages(collectImageRefs(dehydrated));
+    await releaseImages(collectImageRefs(previous));
+});
+
+/**
+ * Loads a document as saved, its images still references. Like app state, the loaded
+ * document borrows the references its saved version retains; they resolve where an
+ * image is drawn, sent to a model or exported.
+ */
+export async function loadDocumentWithImages(slot: DocumentSlot): Promise<any | null> {
+    return (await slot.load()) ?? null;
+}
+
+export const clearDocumentWithImages = (slot: DocumentSlot): Promise<void> => runDocumentWrite(async () => {
+    const previous = await slot.load();
+    await slot.clear();
+    await releaseImages(collectImageRefs(previous));
+});
+
+// --- Migration ---
+
+/**
+ * Moves the data URLs of galleries and history saved before the image store existed into
+ * it, retaining each image once per owner. Runs once per browser.
+ */
+export async function migrateToImageStore(): Promise<void> {
+    const migrationFlag = 'migratedToImageStore_v1';
+    if (localStorage.getItem(migrationFlag)) {
+        return;
+    }
+    try {
+        for (const url of await db.getAllGalleryImages()) {
+            if (!isImageDataUrl(url)) continue;
+            const ref = await storeImage(url);
+            await db.replaceGalleryImage(url, ref);
+            await retainImages([ref]);
+        }
+        for (const entry of await db.getAllHistoryEntries()) {
+            const dehydrated = await dehydrateImages(entry);
+            await db.putHistoryEntry(dehydrated);
+            await retainImages(collectImageRefs(dehydrated));
+        }
+        for (const slot of [CANVAS_DOCUMENT, STORYBOARD_DOCUMENT]) {
+            const saved = await slot.load();
+            if (saved) await saveDocumentWithImages(slot, saved);
+        }
+        localStorage.setItem(migrationFlag, 'true');
+    } catch (error) {
+        console.error("Image store migration failed:", error);
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as db from './db';
+import { type PendingGeneration } from '../components/uiTypes';
+
+// Generations are written to IndexedDB while they run and removed when they settle.
+// Every page load keeps a heartbeat in localStorage while it is open. A record whose
+// page load has stopped beating was interrupted (by a reload or a closed tab) and can
+// be claimed once by the app that owns it to resume or re-poll it; records of other
+// open tabs are left alone.
+
+const SESSION_ID = crypto.randomUUID();
+// Guards against claiming twice when an effect runs twice (React strict mode).
+const claimedIds = new Set<string>();
+
+const HEARTBEAT_STORAGE_KEY = 'pendingGenerations.heartbeats';
+const HEARTBEAT_INTERVAL_MS = 10_000;
+// Browsers run timers of background tabs as rarely as once a minute, so a session only
+// counts as gone well after that. A reload or closed tab removes its heartbeat at once.
+const HEARTBEAT_STALE_MS = 90_000;
+const CLAIM_LOCK_NAME = 'pendingGenerations.claim';
+
+const readHeartbeats = (): Record<string, number> => {
+    try {
+        return JSON.parse(localStorage.getItem(HEARTBEAT_STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const updateHeartbeats = (update: (heartbeats: Record<string, number>, now: number) => void) => {
+    try {
+        const heartbeats = readHeartbeats();
+        const now = Date.now();
+        update(heartbeats, now);
+        for (const [sessionId, beat] of Object.entries(heartbeats)) {
+            if (now - beat > HEARTBEAT_STALE_MS) delete heartbeats[sessionId];
+        }
+        localStorage.setItem(HEARTBEAT_STORAGE_KEY, JSON.stringify(heartbeats));
+    } catch (error) {
+        console.warn("Could not update the pending generation heartbeat:", error);
+    }
+};
+
+const beat = () => updateHeartbeats((heartbeats, now) => { heartbeats[SESSION_ID] = now; });
+
+if (typeof window !== 'undefined') {
+    beat();
+    setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    window.addEventListener('pagehide', () => updateHeartbeats(heartbeats => { delete heartbeats[SESSION_ID]; }));
+    // A page restored from the back/forward cache is live again.
+    window.addEventListener('pageshow', event => { if (event.persisted) beat(); });
+}
+
+const isSessionLive = (sessionId: string, heartbeats: Record<string, number>) =>
+    sessionId === SESSION_ID || Date.now() - (heartbeats[sessionId] ?? 0) <= HEARTBEAT_STALE_MS;
+
+/**
+ * Runs `task` while holding a lock shared by all tabs, where the browser supports it,
+ * so two tabs never claim the same record.
+ */
+const withClaimLock = <T>(task: () => Promise<T>): Promise<T> =>
+    typeof navigator !== 'undefined' && navigator.locks
+        ? navigator.locks.request(CLAIM_LOCK_NAME, task)
+        : task();
+
+type PendingGenerationFields = Omit<PendingGeneration, 'id' | 'appId' | 'kind' | 'sessionId' | 'createdAt'>;
+
+export const createPendingGeneration = (
+    appId: string,
+    kind: PendingGeneration['kind'],
+    fields: PendingGenerationFields = {}
+): PendingGeneration => ({
+    id: crypto.randomUUID(),
+    appId,
+    kind,
+    sessionId: SESSION_ID,
+    createdAt: Date.now(),
+    ...fields,
+});
+
+/**
+ * Writes the record, logging instead of throwing: losing it only means the generation
+ * cannot be resumed after a reload.
+ */
+export const persistPendingGeneration = (record: PendingGeneration): void => {
+    db.savePendingGeneration(record).catch(error => console.warn("Could not persist pending generation:", error));
+};
+
+export const clearPendingGeneration = (id: string): void => {
+    db.deletePendingGeneration(id).catch(error => console.warn("Could not clear pending generation:", error));
+};
+
+/**
+ * Records of page loads that are no longer open, oldest first, optionally for one app only.
+ */
+export const getInterruptedGenerations = async (appId?: string): Promise<PendingGeneration[]> => {
+    try {
+        const records = await db.getAllPendingGenerations();
+        const heartbeats = readHeartbeats();
+        return records.filter(record =>
+            !isSessionLive(record.sessionId, heartbeats) && !claimedIds.has(record.id) && (!appId || record.appId === appId)
+        );
+    } catch (error) {
+        console.warn("Could not read pending generations:", error);
+        return [];
+    }
+};
+
+/**
+ * Takes over an app's interrupted generations of one kind so this page load resumes them.
+ * Each record is handed out once; the caller must clear it when the generation settles.
+ */
+export const claimInterruptedGenerations = async (
+    appId: string,
+    kind: PendingGeneration['kind']
+): Promise<PendingGeneration[]> => withClaimLock(async () => {
+    const records = (await getInterruptedGenerations(appId))
+        .filter(record => record.kind === kind && !claimedIds.has(record.id));
+    const claimed = records.map(record => {
+        claimedIds.add(record.id);
+        return { ...record, sessionId: SESSION_ID };
+    });
+    // Written before the lock is released, so the next tab to claim sees them as taken.
+    await Promise.all(claimed.map(record => db.savePendingGeneration(record)
+        .catch(error => console.warn("Could not persist pending generation:", error))));
+    return claimed;
+});
@@ -0,0 +1,342 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as db from './db';
+import { getSessionClaims, requestApi } from './auth';
+import { type GenerationHistoryEntry } from '../components/uiTypes';
+import {
+    IMAGE_REF_PREFIX,
+    collectImageRefs,
+    getImageBlob,
+    isImageRef,
+    releaseImages,
+    retainImages,
+    storeImageBlob,
+} from './imageStore';
+
+// Optional sync of the gallery and generation history between a user's devices. Local
+// writes (addImagesToGallery, addGenerationToHistory and their removals) queue a change in
+// an outbox; a sync round pushes the outbox, then pulls what other devices changed since
+// the last round and writes it to IndexedDB. Conflicts are settled per record id: the later
+// `updatedAt` wins and, at equal times, a deletion wins. Images travel separately, keyed by
+// their content hash, so each one is uploaded once. The remote is reached through a
+// SyncAdapter; createHttpSyncAdapter talks to the reference server in server/sync.ts.
+
+export type SyncRecordKind = 'gallery' | 'history';
+
+export interface SyncRecord {
+    kind: SyncRecordKind;
+    // The image hash for gallery items, the entry id for history entries.
+    id: string;
+    updatedAt: number;
+    deleted?: boolean;
+    // The gallery reference or history entry; absent on deletions.
+    data?: unknown;
+}
+
+/**
+ * The remote side of sync. Cursors are opaque to the engine.
+ */
+export interface SyncAdapter {
+    pullChanges(cursor: string | null): Promise<{ records: SyncRecord[]; cursor: string }>;
+    // Resolves with the pushed records that lost to newer remote ones, as the remote has them.
+    pushChanges(records: SyncRecord[]): Promise<{ rejected: SyncRecord[] }>;
+    findMissingImages(hashes: string[]): Promise<string[]>;
+    uploadImage(hash: string, blob: Blob): Promise<void>;
+    downloadImage(hash: string): Promise<Blob>;
+}
+
+export interface SyncRoundResult {
+    pushed: number;
+    pulled: number;
+}
+
+interface OutboxEntry {
+    kind: SyncRecordKind;
+    id: string;
+    updatedAt: number;
+    deleted?: boolean;
+}
+
+interface SyncState {
+    enabled: boolean;
+    cursor: string | null;
+    outbox: Record<string, OutboxEntry>;
+    lastSyncedAt: number | null;
+}
+
+const recordKey = (record: Pick<SyncRecord, 'kind' | 'id'>) => `${record.kind}:${record.id}`;
+const hashOfRef = (ref: string) => ref.slice(IMAGE_REF_PREFIX.length);
+
+/**
+ * Whether `incoming` should replace `existing` under last-writer-wins. Mirrors the server.
+ */
+const isNewerRecord = (incoming: Pick<SyncRecord, 'updatedAt' | 'deleted'>, existing: Pick<SyncRecord, 'updatedAt' | 'deleted'> | undefined): boolean => {
+    if (!existing) return true;
+    if (incoming.updatedAt !== existing.updatedAt) return incoming.updatedAt > existing.updatedAt;
+    return !!incoming.deleted && !existing.deleted;
+};
+
+// --- Per-user state ---
+// Kept in localStorage per account, so switching accounts never mixes their outboxes.
+
+const stateKey = (username: string) => `caotrang_sync_${username}`;
+
+const loadState = (username: string): SyncState => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(stateKey(username)) || 'null');
+        if (saved) return saved;
+    } catch {
+        // Fall through to a fresh state.
+    }
+    return { enabled: false, cursor: null, outbox: {}, lastSyncedAt: null };
+};
+
+const saveState = (username: string, state: SyncState) => {
+    localStorage.setItem(stateKey(username), JSON.stringify(state));
+};
+
+const getSyncUser = (): string | null => getSessionClaims()?.sub ?? null;
+
+export interface SyncSettings {
+    enabled: boolean;
+    lastSyncedAt: number | null;
+    pendingChanges: number;
+}
+
+export const getSyncSettings = (): SyncSettings => {
+    const username = getSyncUser();
+    const state = username ? loadState(username) : null;
+    return {
+        enabled: !!state?.enabled,
+        lastSyncedAt: state?.lastSyncedAt ?? null,
+        pendingChanges: state ? Object.keys(state.outbox).length : 0,
+    };
+};
+
+/**
+ * Turns sync on or off for the signed-in user. Turning it on queues everything already
+ * in the gallery and history. Gallery items are queued with time 0, so a deletion made on
+ * another device before this one joined still wins.
+ */
+export async function setSyncEnabled(enabled: boolean): Promise<void> {
+    const username = getSyncUser();
+    if (!username) {
+        throw new Error("Vui lòng đăng nhập để bật đồng bộ.");
+    }
+    const state = loadState(username);
+    if (enabled && !state.enabled) {
+        const [gallery, history] = await Promise.all([db.getAllGalleryImages(), db.getAllHistoryEntries()]);
+        gallery.filter(isImageRef).forEach(ref => {
+            const entry: OutboxEntry = { kind: 'gallery', id: hashOfRef(ref), updatedAt: 0 };
+            state.outbox[recordKey(entry)] ??= entry;
+        });
+        history.forEach(item => {
+            const entry: OutboxEntry = { kind: 'history', id: item.id, updatedAt: item.timestamp };
+            state.outbox[recordKey(entry)] ??= entry;
+        });
+    }
+    state.enabled = enabled;
+    saveState(username, state);
+}
+
+// --- Local Write Path ---
+
+const changeListeners = new Set<() => void>();
+
+/**
+ * Calls `listener` whenever a local change is queued. Returns the unsubscribe function.
+ */
+export const onSyncChangeQueued = (listener: () => void): (() => void) => {
+    changeListeners.add(listener);
+    return () => changeListeners.delete(listener);
+};
+
+/**
+ * Queues a local gallery or history change for the next sync round. Does nothing while
+ * sync is off. Gallery items are identified by their image reference; videos do not sync.
+ */
+export function queueSyncChange(kind: SyncRecordKind, idOrRef: string, options: { deleted?: boolean; updatedAt?: number } = {}) {
+    const username = getSyncUser();
+    if (!username) return;
+    const state = loadState(username);
+    if (!state.enabled) return;
+    if (kind === 'gallery' && !isImageRef(idOrRef)) return;
+
+    const entry: OutboxEntry = {
+        kind,
+        id: kind === 'gallery' ? hashOfRef(idOrRef) : idOrRef,
+        updatedAt: options.updatedAt ?? Date.now(),
+        ...(options.deleted ? { deleted: true } : {}),
+    };
+    state.outbox[recordKey(entry)] = entry;
+    saveState(username, state);
+    changeListeners.forEach(listener => listener());
+}
+
+// --- Applying Remote Changes ---
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+async function downloadMissingImages(adapter: SyncAdapter, refs: string[]): Promise<void> {
+    for (const ref of refs) {
+        if (await db.getImageRecord(hashOfRef(ref))) continue;
+        await storeImageBlob(await adapter.downloadImage(hashOfRef(ref)));
+    }
+}
+
+/**
+ * Writes one remote record to IndexedDB, keeping the image reference counts right.
+ * Resolves with whether anything changed.
+ */
+async function applyRemoteRecord(record: SyncRecord): Promise<boolean> {
+    if (record.kind === 'gallery') {
+        const ref = `${IMAGE_REF_PREFIX}${record.id}`;
+        const isInGallery = (await db.getAllGalleryImages()).includes(ref);
+        if (record.deleted && isInGallery) {
+            await db.deleteGalleryImage(ref);
+            await releaseImages([ref]);
+            return true;
+        }
+        if (!record.deleted && !isInGallery) {
+            await db.addGalleryImage(ref);
+            await retainImages([ref]);
+            return true;
+        }
+        return false;
+    }
+
+    const existing = await db.getHistoryEntry(record.id);
+    if (record.deleted) {
+        if (!existing) return false;
+        await db.deleteHistoryEntry(record.id);
+        await releaseImages(collectImageRefs(existing));
+        return true;
+    }
+    const entry = record.data as GenerationHistoryEntry;
+    if (existing && isSameValue(existing, entry)) return false;
+    await db.putHistoryEntry(entry);
+    await retainImages(collectImageRefs(entry));
+    if (existing) await releaseImages(collectImageRefs(existing));
+    return true;
+}
+
+// --- Sync Round ---
+
+async function buildRecord(entry: OutboxEntry): Promise<SyncRecord | null> {
+    const { kind, id, updatedAt, deleted } = entry;
+    if (deleted) return { kind, id, updatedAt, deleted: true };
+    if (kind === 'gallery') {
+        return { kind, id, updatedAt, data: `${IMAGE_REF_PREFIX}${id}` };
+    }
+    const historyEntry = await db.getHistoryEntry(id);
+    // Deleted locally after it was queued; the deletion is queued too.
+    return historyEntry ? { kind, id, updatedAt, data: historyEntry } : null;
+}
+
+async function uploadMissingImages(adapter: SyncAdapter, records: SyncRecord[]): Promise<void> {
+    const hashes = collectImageRefs(records.map(record => record.data)).map(hashOfRef);
+    if (hashes.length === 0) return;
+    for (const hash of await adapter.findMissingImages(hashes)) {
+        await adapter.uploadImage(hash, await getImageBlob(`${IMAGE_REF_PREFIX}${hash}`));
+    }
+}
+
+let runningRound: Promise<SyncRoundResult> | null = null;
+
+/**
+ * Runs one sync round for the signed-in user: push the outbox, then pull and apply remote
+ * changes. Concurrent calls share the round in progress.
+ */
+export function runSyncRound(adapter: SyncAdapter): Promise<SyncRoundResult> {
+    if (runningRound) return runningRound;
+    runningRound = (async () => {
+        const username = getSyncUser();
+        if (!username || !loadState(username).enabled) return { pushed: 0, pulled: 0 };
+
+        // Push.
+        const queued = Object.values(loadState(username).outbox);
+        const records = (await Promise.all(queued.map(buildRecord))).filter((record): record is SyncRecord => !!record);
+        await uploadMissingImages(adapter, records);
+        const { rejected } = records.length > 0 ? await adapter.pushChanges(records) : { rejected: [] };
+
+        // Forget what was sent, unless it changed again meanwhile.
+        const afterPush = loadState(username);
+        queued.forEach(entry => {
+            const key = recordKey(entry);
+            if (afterPush.outbox[key]?.updatedAt === entry.updatedAt) delete afterPush.outbox[key];
+        });
+        saveState(username, afterPush);
+
+        // Pull. Rejected pushes are settled with the remote record that beat them.
+        const { records: remoteRecords, cursor } = await adapter.pullChanges(afterPush.cursor);
+        let pulled = 0;
+        for (const record of [...rejected, ...remoteRecords]) {
+            const pending = loadState(username).outbox[recordKey(record)];
+            if (pending && !isNewerRecord(record, pending)) continue;
+            if (!record.deleted) await downloadMissingImages(adapter, collectImageRefs(record.data));
+            if (await applyRemoteRecord(record)) pulled++;
+        }
+
+        const finalState = loadState(username);
+        finalState.cursor = cursor;
+        finalState.lastSyncedAt = Date.now();
+        saveState(username, finalState);
+        return { pushed: records.length, pulled };
+    })();
+    return runningRound.finally(() => {
+        runningRound = null;
+    });
+}
+
+// --- HTTP Adapter ---
+
+const SYNC_API = '/api/sync';
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => typeof reader.result === 'string'
+        ? resolve(reader.result.slice(reader.result.indexOf(',') + 1))
+        : reject(new Error('Failed to read image blob.'));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+/**
+ * Adapter for the sync API of server/sync.ts, authenticated with the session token.
+ */
+export function createHttpSyncAdapter(baseUrl = SYNC_API): SyncAdapter {
+    return {
+        async pullChanges(cursor) {
+            const { records, cursor: next } = await requestApi<{ records: SyncRecord[]; cursor: number }>(
+                `${baseUrl}/changes?since=${encodeURIComponent(cursor ?? '0')}`
+            );
+            return { records, cursor: String(next) };
+        },
+        async pushChanges(records) {
+            const { rejected } = await requestApi<{ rejected: SyncRecord[] }>(`${baseUrl}/changes`, {
+                method: 'POST',
+                body: JSON.stringify({ records }),
+            });
+            return { rejected };
+        },
+        async findMissingImages(hashes) {
+            const { missing } = await requestApi<{ missing: string[] }>(`${baseUrl}/images`, {
+                method: 'POST',
+                body: JSON.stringify({ hashes }),
+            });
+            return missing;
+        },
+        async uploadImage(hash, blob) {
+            await requestApi(`${baseUrl}/images/${hash}`, {
+                method: 'PUT',
+                body: JSON.stringify({ type: blob.type, data: await blobToBase64(blob) }),
+            });
+        },
+        async downloadImage(hash) {
+            const { type, data } = await requestApi<{ type: string; data: string }>(`${baseUrl}/images/${hash}`);
+            return (await fetch(`data:${type};base64,${data}`)).blob();
+        },
+    };
+}
@@ -0,0 +1,318 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as db from './db';
+import { type GenerationHistoryEntry } from '../components/uiTypes';
+import {
+    CANVAS_DOCUMENT,
+    STORYBOARD_DOCUMENT,
+    IMAGE_REF_PREFIX,
+    collectImageRefs,
+    dehydrateImages,
+    getImageBlob,
+    isImageRef,
+    releaseImages,
+    retainImages,
+    saveDocumentWithImages,
+    clearDocumentWithImages,
+    storeImageBlob,
+} from './imageStore';
+
+// A workspace archive is a zip holding everything a user made in this browser: the
+// gallery, generation history, the saved canvas and storyboard, and every image they
+// reference. Layout:
+//   manifest.json          format, versions, counts and the type of each image
+//   records/<store>.json   the records of one store, images as `img:<hash>` references
+//   images/<hash>          the image bytes
+// Session-only data (video blob URLs, pending generations) is left out.
+
+declare const JSZip: any;
+
+export const WORKSPACE_ARCHIVE_FORMAT = 'caotrangai-workspace';
+export const WORKSPACE_ARCHIVE_VERSION = 1;
+
+export interface WorkspaceManifest {
+    format: typeof WORKSPACE_ARCHIVE_FORMAT;
+    archiveVersion: number;
+    // DB_VERSION of the app that wrote the records.
+    dbVersion: number;
+    createdAt: number;
+    counts: {
+        gallery: number;
+        history: number;
+        images: number;
+        canvas: boolean;
+        storyboard: boolean;
+    };
+    // MIME type of each stored image, by hash.
+    images: Record<string, string>;
+}
+
+interface WorkspaceRecords {
+    gallery: string[];
+    history: GenerationHistoryEntry[];
+    canvas: any | null;
+    storyboard: any | null;
+}
+
+export type WorkspaceImportMode = 'merge' | 'replace';
+
+/**
+ * What to do when a merged record already exists with different content. A canvas or
+ * storyboard slot holds one document, so 'keepBoth' keeps the existing one there.
+ */
+export type WorkspaceConflictStrategy = 'keepExisting' | 'useImported' | 'keepBoth';
+
+export interface WorkspaceImportOptions {
+    mode: WorkspaceImportMode;
+    conflictStrategy: WorkspaceConflictStrategy;
+}
+
+export interface WorkspaceImportSummary {
+    galleryAdded: number;
+    historyAdded: number;
+    historyReplaced: number;
+    historySkipped: number;
+    canvasImported: boolean;
+    storyboardImported: boolean;
+}
+
+const RECORD_FILES = {
+    gallery: 'records/gallery.json',
+    history: 'records/history.json',
+    canvas: 'records/canvas.json',
+    storyboard: 'records/storyboard.json',
+} as const;
+
+const hashOfRef = (ref: string) => ref.slice(IMAGE_REF_PREFIX.length);
+
+// --- Export ---
+
+/**
+ * Packs the whole workspace into one archive.
+ */
+export async function exportWorkspace(): Promise<Blob> {
+    const [gallery, history, canvas, storyboard] = await Promise.all([
+        db.getAllGalleryImages(),
+        db.getAllHistoryEntries(),
+        db.loadCanvasState(),
+        db.loadStoryboardState(),
+    ]);
+    const records: WorkspaceRecords = {
+        // Video blob URLs die with the page that created them.
+        gallery: gallery.filter(url => !url.startsWith('blob:')),
+        history,
+        canvas,
+        storyboard,
+    };
+
+    const zip = new JSZip();
+    const images: Record<string, string> = {};
+    for (const ref of collectImageRefs(records)) {
+        try {
+            const blob = await getImageBlob(ref);
+            const hash = hashOfRef(ref);
+            images[hash] = blob.type;
+            zip.file(`images/${hash}`, blob);
+        } catch (error) {
+            console.warn("Skipping image missing from the image store:", error);
+        }
+    }
+
+    (Object.keys(RECORD_FILES) as (keyof WorkspaceRecords)[]).forEach(key => {
+        zip.file(RECORD_FILES[key], JSON.stringify(records[key]));
+    });
+
+    const manifest: WorkspaceManifest = {
+        format: WORKSPACE_ARCHIVE_FORMAT,
+        archiveVersion: WORKSPACE_ARCHIVE_VERSION,
+        dbVersion: db.DB_VERSION,
+        createdAt: Date.now(),
+        counts: {
+            gallery: records.gallery.length,
+            history: records.history.length,
+            images: Object.keys(images).length,
+            canvas: !!records.canvas,
+            storyboard: !!records.storyboard,
+        },
+        images,
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob' });
+}
+
+// --- Import ---
+
+// Upgrades records written by an older app, one DB_VERSION step at a time. The key is
+// the version a step upgrades to.
+const RECORD_MIGRATIONS: Record<number, (records: WorkspaceRecords) => Promise<WorkspaceRecords>> = {
+    // Version 5 moved image data URLs out of the records into the image store.
+    5: records => dehydrateImages(records),
+};
+
+async function migrateRecords(records: WorkspaceRecords, fromVersion: number): Promise<WorkspaceRecords> {
+    let migrated = records;
+    for (let version = fromVersion + 1; version <= db.DB_VERSION; version++) {
+        const migration = RECORD_MIGRATIONS[version];
+        if (migration) migrated = await migration(migrated);
+    }
+    return migrated;
+}
+
+const remapRefs = (value: any, refMap: Map<string, string>): any => {
+    if (isImageRef(value)) return refMap.get(value) ?? value;
+    if (Array.isArray(value)) return value.map(item => remapRefs(item, refMap));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, remapRefs(item, refMap)]));
+    }
+    return value;
+};
+
+async function readManifest(zip: any): Promise<WorkspaceManifest> {
+    const manifestFile = zip.file('manifest.json');
+    const manifest = manifestFile ? JSON.parse(await manifestFile.async('string')) : null;
+    if (!manifest || manifest.format !== WORKSPACE_ARCHIVE_FORMAT) {
+        throw new Error('Tệp này không phải là bản sao lưu không gian làm việc hợp lệ.');
+    }
+    if (manifest.archiveVersion > WORKSPACE_ARCHIVE_VERSION || manifest.dbVersion > db.DB_VERSION) {
+        throw new Error('Bản sao lưu được tạo bởi phiên bản ứng dụng mới hơn. Vui lòng cập nhật ứng dụng rồi thử lại.');
+    }
+    return manifest;
+}
+
+async function readRecord<T>(zip: any, path: string, fallback: T): Promise<T> {
+    const file = zip.file(path);
+    return file ? JSON.parse(await file.async('string')) ?? fallback : fallback;
+}
+
+/**
+ * Puts the archive's images into the store. Identical images already in the store are
+ * shared; an image whose bytes do not match its name is stored under its real hash.
+ * Resolves with the stored reference of each archived one.
+ */
+async function importImages(zip: any, manifest: WorkspaceManifest): Promise<Map<string, string>> {
+    const refMap = new Map<string, string>();
+    for (const [hash, type] of Object.entries(manifest.images || {})) {
+        const file = zip.file(`images/${hash}`);
+        if (!file) continue;
+        const bytes: Blob = await file.async('blob');
+        refMap.set(`${IMAGE_REF_PREFIX}${hash}`, await storeImageBlob(new Blob([bytes], { type })));
+    }
+    return refMap;
+}
+
+async function importGallery(gallery: string[], mode: WorkspaceImportMode): Promise<number> {
+    if (mode === 'replace') {
+        const previous = await db.getAllGalleryImages();
+        await db.clearGallery();
+        await releaseImages(previous);
+    }
+    const existing = await db.getAllGalleryImages();
+    const added = gallery.filter((url, index) => url && !existing.includes(url) && gallery.indexOf(url) === index);
+    if (added.length > 0) {
+        await db.addMultipleGalleryImages(added);
+        await retainImages(added);
+    }
+    return added.length;
+}
+
+async function importHistory(
+    history: GenerationHistoryEntry[],
+    { mode, conflictStrategy }: WorkspaceImportOptions,
+    summary: WorkspaceImportSummary
+): Promise<void> {
+    if (mode === 'replace') {
+        const previous = await db.getAllHistoryEntries();
+        await db.clearHistory();
+        await releaseImages(previous.flatMap(entry => collectImageRefs(entry)));
+    }
+    const existingById = new Map((await db.getAllHistoryEntries()).map(entry => [entry.id, entry]));
+
+    for (const entry of history) {
+        const existing = existingById.get(entry.id);
+        if (!existing) {
+            await db.putHistoryEntry(entry);
+            await retainImages(collectImageRefs(entry));
+            summary.historyAdded++;
+        } else if (JSON.stringify(existing) === JSON.stringify(entry) || conflictStrategy === 'keepExisting') {
+            summary.historySkipped++;
+        } else if (conflictStrategy === 'useImported') {
+            await db.putHistoryEntry(entry);
+            await retainImages(collectImageRefs(entry));
+            await releaseImages(collectImageRefs(existing));
+            summary.historyReplaced++;
+        } else {
+            const copy = { ...entry, id: `${entry.id}-${Math.random().toString(36).substring(2, 9)}` };
+            await db.putHistoryEntry(copy);
+            await retainImages(collectImageRefs(copy));
+            summary.historyAdded++;
+        }
+    }
+}
+
+async function importDocument(
+    slot: typeof CANVAS_DOCUMENT,
+    document: any | null,
+    { mode, conflictStrategy }: WorkspaceImportOptions
+): Promise<boolean> {
+    if (!document) {
+        if (mode === 'replace') await clearDocumentWithImages(slot);
+        return false;
+    }
+    if (mode === 'merge' && conflictStrategy !== 'useImported' && await slot.load()) {
+        return false;
+    }
+    await saveDocumentWithImages(slot, document);
+    return true;
+}
+
+/**
+ * Reads the manifest of an archive without importing it.
+ */
+export async function readWorkspaceManifest(file: Blob): Promise<WorkspaceManifest> {
+    return readManifest(await JSZip.loadAsync(file));
+}
+
+/**
+ * Restores an archive made by exportWorkspace, by this or an older version of the app.
+ * In 'replace' mode the current workspace is emptied first; in 'merge' mode new records
+ * are added and conflicting ones follow the conflict strategy.
+ */
+export async function importWorkspace(file: Blob, options: WorkspaceImportOptions): Promise<WorkspaceImportSummary> {
+    const zip = await JSZip.loadAsync(file).catch(() => {
+        throw new Error('Tệp này không phải là bản sao lưu không gian làm việc hợp lệ.');
+    });
+    const manifest = await readManifest(zip);
+
+    const refMap = await importImages(zip, manifest);
+    const records = await migrateRecords(remapRefs({
+        gallery: await readRecord<string[]>(zip, RECORD_FILES.gallery, []),
+        history: await readRecord<GenerationHistoryEntry[]>(zip, RECORD_FILES.history, []),
+        canvas: await readRecord<any>(zip, RECORD_FILES.canvas, null),
+        storyboard: await readRecord<any>(zip, RECORD_FILES.storyboard, null),
+    }, refMap), manifest.dbVersion);
+
+    // Hold every incoming image while the records are written, then let go: images no
+    // record ended up keeping (skipped conflicts, duplicates) are collected again.
+    const incomingRefs = [...new Set([...refMap.values(), ...collectImageRefs(records)])];
+    await retainImages(incomingRefs);
+    try {
+        const summary: WorkspaceImportSummary = {
+            galleryAdded: 0,
+            historyAdded: 0,
+            historyReplaced: 0,
+            historySkipped: 0,
+            canvasImported: false,
+            storyboardImported: false,
+        };
+        summary.galleryAdded = await importGallery(records.gallery, options.mode);
+        await importHistory(records.history, options, summary);
+        summary.canvasImported = await importDocument(CANVAS_DOCUMENT, records.canvas, options);
+        summary.storyboardImported = await importDocument(STORYBOARD_DOCUMENT, records.storyboard, options);
+        return summary;
+    } finally {
+        await releaseImages(incomingRefs);
+    }
+}
@@ -0,0 +1,12 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { handleApiRequest } from '../../server/api';
+import { createBlobStore } from '../../server/storage';
+
+const store = createBlobStore('caotrang-studio');
+
+export default (request: Request) => handleApiRequest(request, { store });
+
+export const config = { path: '/api/*' };
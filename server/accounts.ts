@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { JsonStore } from './storage';
+
+export const DEFAULT_NORMAL_CREDITS = 5;
+export const DEFAULT_VIP_CREDITS = 20;
+
+export type AccountRole = "normal" | "vip" | "admin";
+
+export const ACCOUNT_ROLES: AccountRole[] = ["normal", "vip", "admin"];
+
+export interface AccountConfig {
+    username: string;
+    // scrypt hash produced by `npm run hash-password` or the admin console; plaintext
+    // passwords are never stored. Only read from the environment and the data store.
+    passwordHash?: string;
+    role?: AccountRole;
+    credits?: number;
+    disabled?: boolean;
+}
+
+export interface LoginConfig {
+    enabled: boolean;
+    accounts: AccountConfig[];
+}
+
+// Kept outside public/ so it is never served to the browser.
+const LOGIN_CONFIG_FILE = path.resolve(process.cwd(), 'server/setting-login.json');
+
+/**
+ * The first admin, provisioned from ADMIN_USERNAME and ADMIN_PASSWORD_HASH so no
+ * admin with a known password ships in the config file. Once signed in, the admin
+ * can create the other accounts in the console; a stored record of the same name
+ * still takes precedence.
+ */
+function getEnvAdminAccount(): AccountConfig | undefined {
+    const username = process.env.ADMIN_USERNAME?.trim();
+    const passwordHash = process.env.ADMIN_PASSWORD_HASH?.trim();
+    if (!username || !passwordHash) return undefined;
+    return { username, passwordHash, role: 'admin' };
+}
+
+/**
+ * Reads the login configuration. A missing or unreadable file keeps login
+ * enabled with no accounts, so nobody can sign in rather than everybody.
+ * The file is committed, so password hashes in it are ignored: its accounts
+ * cannot sign in until an admin sets their password in the console.
+ */
+export async function loadLoginConfig(): Promise<LoginConfig> {
+    let config: LoginConfig;
+    try {
+        const settings = JSON.parse(await fs.readFile(LOGIN_CONFIG_FILE, 'utf8'));
+        config = {
+            enabled: settings?.enabled !== false,
+            accounts: Array.isArray(settings?.accounts)
+                ? settings.accounts.map(({ passwordHash: _ignored, ...account }: AccountConfig) => account)
+                : [],
+        };
+    } catch (error) {
+        console.error("Could not read login configuration:", error);
+        config = { enabled: true, accounts: [] };
+    }
+    const envAdmin = getEnvAdminAccount();
+    if (envAdmin) {
+        config.accounts = [...config.accounts.filter(acc => acc.username !== envAdmin.username), envAdmin];
+    }
+    return config;
+}
+
+const accountKey = (username: string) => `accounts/${username}`;
+
+/**
+ * All accounts: those from the config file, overlaid with the records created or
+ * edited in the admin console. A stored record replaces the file entry of the same name.
+ */
+export async function loadAccountConfig(store: JsonStore): Promise<AccountConfig[]> {
+    const [fileAccounts, storedKeys] = await Promise.all([
+        loadLoginConfig().then(config => config.accounts),
+        store.list('accounts/'),
+    ]);
+    const stored = await Promise.all(storedKeys.map(key => store.get<AccountConfig>(key)));
+    const byName = new Map(fileAccounts.map(acc => [acc.username, acc]));
+    for (const account of stored) {
+        if (account) byName.set(account.username, account);
+    }
+    return [...byName.values()];
+}
+
+export async function findAccount(store: JsonStore, username: string): Promise<AccountConfig | undefined> {
+    const stored = await store.get<AccountConfig>(accountKey(username));
+    if (stored) return stored;
+    return (await loadLoginConfig()).accounts.find(acc => acc.username === username);
+}
+
+export async function saveAccount(store: JsonStore, account: AccountConfig): Promise<void> {
+    await store.set(accountKey(account.username), account);
+}
+
+export const getAccountRole = (account: AccountConfig): AccountRole =>
+    ACCOUNT_ROLES.includes(account.role as AccountRole) ? account.role as AccountRole : 'normal';
+
+/**
+ * The number of credits an account starts with: the configured value,
+ * otherwise a default based on its role.
+ */
+export function getAccountAllowance(account: AccountConfig | undefined): number {
+    if (typeof account?.credits === 'number') return account.credits;
+    return account?.role === 'vip' || account?.role === 'admin' ? DEFAULT_VIP_CREDITS : DEFAULT_NORMAL_CREDITS;
+}
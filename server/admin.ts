@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { JsonStore } from './storage';
+import {
+    ACCOUNT_ROLES, findAccount, getAccountAllowance, getAccountRole,
+    loadAccountConfig, saveAccount, type AccountConfig, type AccountRole
+} from './accounts';
+import {
+    clawbackCredits, ensureInitialGrant, getCreditBalance, getTransactions, grantCredits,
+    summarizeUsageByApp, type AppUsage, type CreditBalance, type CreditTransaction
+} from './creditLedger';
+import { hashPassword } from './passwords';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 6;
+
+export type AdminError = Error & { status: number };
+
+const adminError = (status: number, message: string): AdminError =>
+    Object.assign(new Error(message), { status });
+
+/**
+ * What the admin console shows for one account. Never includes the password hash.
+ */
+export interface AccountSummary {
+    username: string;
+    role: AccountRole;
+    disabled: boolean;
+    balance: number;
+    allowance: number;
+    usage: Record<string, AppUsage>;
+}
+
+export interface AccountUpdate {
+    role?: AccountRole;
+    disabled?: boolean;
+    password?: string;
+}
+
+function assertRole(role: unknown): asserts role is AccountRole {
+    if (!ACCOUNT_ROLES.includes(role as AccountRole)) {
+        throw adminError(400, "Vai trò không hợp lệ.");
+    }
+}
+
+function assertPassword(password: unknown): asserts password is string {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        throw adminError(400, `Mật khẩu phải có ít nhất ${MIN_PASSWORD_LENGTH} ký tự.`);
+    }
+}
+
+async function summarizeAccount(store: JsonStore, account: AccountConfig): Promise<AccountSummary> {
+    await ensureInitialGrant(store, account.username, getAccountAllowance(account));
+    const [{ balance, allowance }, transactions] = await Promise.all([
+        getCreditBalance(store, account.username),
+        getTransactions(store, account.username),
+    ]);
+    return {
+        username: account.username,
+        role: getAccountRole(account),
+        disabled: !!account.disabled,
+        balance,
+        allowance,
+        usage: summarizeUsageByApp(transactions),
+    };
+}
+
+export async function listAccountSummaries(store: JsonStore): Promise<AccountSummary[]> {
+    const accounts = await loadAccountConfig(store);
+    const summaries = await Promise.all(accounts.map(account => summarizeAccount(store, account)));
+    return summaries.sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export async function createAccount(
+    store: JsonStore,
+    input: { username?: unknown; password?: unknown; role?: unknown; credits?: unknown }
+): Promise<AccountSummary> {
+    const { username, password, role = 'normal', credits } = input;
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+        throw adminError(400, "Tên đăng nhập chỉ gồm 3-32 chữ, số, dấu chấm, gạch ngang hoặc gạch dưới.");
+    }
+    assertPassword(password);
+    assertRole(role);
+    if (credits !== undefined && (!Number.isInteger(credits) || (credits as number) < 0)) {
+        throw adminError(400, "Số credit ban đầu phải là số nguyên không âm.");
+    }
+    if (await findAccount(store, username)) {
+        throw adminError(409, "Tên đăng nhập đã tồn tại.");
+    }
+    const account: AccountConfig = {
+        username,
+        passwordHash: await hashPassword(password),
+        role,
+        ...(credits !== undefined ? { credits: credits as number } : {}),
+    };
+    await saveAccount(store, account);
+    return summarizeAccount(store, account);
+}
+
+/**
+ * Changes an account's role, enabled state or password. Admins cannot disable or
+ * demote themselves, so the console can never lock out its last admin by accident.
+ */
+export async function updateAccount(
+    store: JsonStore,
+    actingUsername: string,
+    username: string,
+    update: AccountUpdate
+): Promise<AccountSummary> {
+    const account = await findAccount(store, username);
+    if (!account) {
+        throw adminError(404, "Tài khoản không tồn tại.");
+    }
+    const next: AccountConfig = { ...account };
+    if (update.role !== undefined) {
+        assertRole(update.role);
+        if (username === actingUsername && update.role !== 'admin') {
+            throw adminError(400, "Bạn không thể tự bỏ quyền quản trị của mình.");
+        }
+        next.role = update.role;
+    }
+    if (update.disabled !== undefined) {
+        if (username === actingUsername && update.disabled) {
+            throw adminError(400, "Bạn không thể tự khóa tài khoản của mình.");
+        }
+        next.disabled = !!update.disabled;
+    }
+    if (update.password !== undefined) {
+        assertPassword(update.password);
+        next.passwordHash = await hashPassword(update.password);
+    }
+    await saveAccount(store, next);
+    return summarizeAccount(store, next);
+}
+
+/**
+ * Grants credits for a positive amount and claws them back for a negative one.
+ */
+export async function adjustAccountCredits(
+    store: JsonStore,
+    username: string,
+    amount: number,
+    note?: string
+): Promise<{ transaction: CreditTransaction; balance: CreditBalance }> {
+    const account = await findAccount(store, username);
+    if (!account) {
+        throw adminError(404, "Tài khoản không tồn tại.");
+    }
+    if (!Number.isInteger(amount) || amount === 0) {
+        throw adminError(400, "Số credit điều chỉnh phải là số nguyên khác 0.");
+    }
+    await ensureInitialGrant(store, username, getAccountAllowance(account));
+    return amount > 0
+        ? grantCredits(store, username, amount, { note: note || 'Admin grant' })
+        : clawbackCredits(store, username, -amount, note || 'Admin clawback');
+}
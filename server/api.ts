@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { JsonStore } from './storage';
+import { loadLoginConfig, findAccount, getAccountAllowance } from './accounts';
+import { createSession, verifySession, revokeSession, getBearerToken, type SessionClaims } from './auth';
+import { APP_CREDIT_COSTS, DEFAULT_CREDIT_COST, isKnownAppId } from './creditCosts';
+import { listAccountSummaries, createAccount, updateAccount, adjustAccountCredits } from './admin';
+import { getChanges, pushChanges, findMissingImages, putImage, getImage } from './sync';
+import {
+    ensureInitialGrant, getCreditBalance, getTransactions,
+    spendCredits, refundCredits, type LedgerError
+} from './creditLedger';
+
+export interface ApiContext {
+    store: JsonStore;
+}
+
+export const json = (body: unknown, status = 200): Response =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+
+const readBody = async (request: Request): Promise<Record<string, any>> => {
+    try {
+        return await request.json();
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Resolves the session behind the request's bearer token, or null when it is missing or invalid.
+ */
+async function authenticate(request: Request, context: ApiContext): Promise<SessionClaims | null> {
+    const token = getBearerToken(request);
+    return token ? verifySession(context.store, token) : null;
+}
+
+const unauthorized = () => json({ error: "Phiên đăng nhập đã hết hạn. Vui lòng đăng nhập lại." }, 401);
+
+async function handleAuthRequest(request: Request, context: ApiContext, segments: string[]): Promise<Response> {
+    const [action] = segments;
+    if (action === 'config' && request.method === 'GET') {
+        const { enabled } = await loadLoginConfig();
+        return json({ enabled });
+    }
+    if (action === 'login' && request.method === 'POST') {
+        const { username, password } = await readBody(request);
+        if (typeof username !== 'string' || typeof password !== 'string') {
+            return json({ error: "Thiếu tên đăng nhập hoặc mật khẩu." }, 400);
+        }
+        const session = await createSession(context.store, username, password);
+        if (!session) {
+            return json({ error: "Tên đăng nhập hoặc mật khẩu không đúng." }, 401);
+        }
+        return json(session);
+    }
+    if (action === 'session' && request.method === 'GET') {
+        const claims = await authenticate(request, context);
+        return claims ? json({ claims }) : unauthorized();
+    }
+    if (action === 'logout' && request.method === 'POST') {
+        const claims = await authenticate(request, context);
+        if (claims) await revokeSession(context.store, claims);
+        return json({ ok: true });
+    }
+    return json({ error: "Not found" }, 404);
+}
+
+/**
+ * Makes sure the user is a configured account and has received their starting credits.
+ */
+async function resolveLedgerUser(context: ApiContext, username: string): Promise<Response | null> {
+    const account = await findAccount(context.store, username);
+    if (!account) {
+        return json({ error: "Tài khoản không tồn tại." }, 404);
+    }
+    await ensureInitialGrant(context.store, username, getAccountAllowance(account));
+    return null;
+}
+
+async function handleAdminRequest(request: Request, context: ApiContext, segments: string[]): Promise<Response> {
+    const claims = await authenticate(request, context);
+    if (!claims) return unauthorized();
+    if (claims.role !== 'admin') {
+        return json({ error: "Chỉ quản trị viên mới được thực hiện thao tác này." }, 403);
+    }
+
+    const [resource, rawUsername, action] = segments;
+    if (resource !== 'accounts') {
+        return json({ error: "Not found" }, 404);
+    }
+    if (!rawUsername) {
+        if (request.method === 'GET') {
+            return json({ accounts: await listAccountSummaries(context.store) });
+        }
+        if (request.method === 'POST') {
+            return json({ account: await createAccount(context.store, await readBody(request)) }, 201);
+        }
+        return json({ error: "Not found" }, 404);
+    }
+
+    const username = decodeURIComponent(rawUsername);
+    if (!action && request.method === 'PATCH') {
+        const { role, disabled, password } = await readBody(request);
+        return json({ account: await updateAccount(context.store, claims.sub, username, { role, disabled, password }) });
+    }
+    if (action === 'credits' && request.method === 'POST') {
+        const { amount, note } = await readBody(request);
+        return json(await adjustAccountCredits(context.store, username, Number(amount), typeof note === 'string' ? note : undefined));
+    }
+    if (action === 'transactions' && request.method === 'GET') {
+        return json({ transactions: await getTransactions(context.store, username) });
+    }
+    return json({ error: "Not found" }, 404);
+}
+
+async function handleCreditsRequest(request: Request, context: ApiContext, segments: string[]): Promise<Response> {
+    if (segments.length === 1 && segments[0] === 'costs' && request.method === 'GET') {
+        return json({ defaultCost: DEFAULT_CREDIT_COST, costs: APP_CREDIT_COSTS });
+    }
+
+    const [rawUsername, action] = segments;
+    if (!rawUsername) {
+        return json({ error: "Not found" }, 404);
+    }
+    const username = decodeURIComponent(rawUsername);
+    const claims = await authenticate(request, context);
+    if (!claims) return unauthorized();
+    if (claims.sub !== username) {
+        return json({ error: "Bạn không có quyền truy cập credit của tài khoản này." }, 403);
+    }
+    const missingUser = await resolveLedgerUser(context, username);
+    if (missingUser) return missingUser;
+
+    if (!action && request.method === 'GET') {
+        return json(await getCreditBalance(context.store, username));
+    }
+    if (action === 'transactions' && request.method === 'GET') {
+        return json({ transactions: await getTransactions(context.store, username) });
+    }
+    if (action === 'spend' && request.method === 'POST') {
+        const { appId, quantity } = await readBody(request);
+        if (typeof appId !== 'string' || !appId) {
+            return json({ error: "Thiếu mã ứng dụng (appId)." }, 400);
+        }
+        if (!isKnownAppId(appId)) {
+            return json({ error: "Ứng dụng không hợp lệ." }, 400);
+        }
+        return json(await spendCredits(context.store, username, appId, Number(quantity ?? 1)));
+    }
+    if (action === 'refund' && request.method === 'POST') {
+        const { transactionIds, quantity, reason } = await readBody(request);
+        if (!Array.isArray(transactionIds) || transactionIds.length === 0 || !transactionIds.every(id => typeof id === 'string' && id)) {
+            return json({ error: "Thiếu mã giao dịch (transactionIds)." }, 400);
+        }
+        return json(await refundCredits(context.store, username, transactionIds, quantity === undefined ? undefined : Number(quantity), typeof reason === 'string' && reason ? reason.slice(0, 200) : undefined));
+    }
+    return json({ error: "Not found" }, 404);
+}
+
+async function handleSyncRequest(request: Request, context: ApiContext, segments: string[]): Promise<Response> {
+    const claims = await authenticate(request, context);
+    if (!claims) return unauthorized();
+    const username = claims.sub;
+
+    const [resource, hash] = segments;
+    if (resource === 'changes' && request.method === 'GET') {
+        const since = Number(new URL(request.url).searchParams.get('since') || 0);
+        return json(await getChanges(context.store, username, Number.isFinite(since) ? since : 0));
+    }
+    if (resource === 'changes' && request.method === 'POST') {
+        const { records } = await readBody(request);
+        return json(await pushChanges(context.store, username, records));
+    }
+    if (resource === 'images' && !hash && request.method === 'POST') {
+        const { hashes } = await readBody(request);
+        return json({ missing: await findMissingImages(context.store, username, hashes) });
+    }
+    if (resource === 'images' && hash && request.method === 'PUT') {
+        await putImage(context.store, username, hash, await readBody(request));
+        return json({ ok: true });
+    }
+    if (resource === 'images' && hash && request.method === 'GET') {
+        return json(await getImage(context.store, username, hash));
+    }
+    return json({ error: "Not found" }, 404);
+}
+
+/**
+ * Routes a request under /api/. Shared by the Netlify function and the Vite dev server.
+ */
+export async function handleApiRequest(request: Request, context: ApiContext): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    const segments = pathname.replace(/^\/api\/?/, '').split('/').filter(Boolean);
+
+    try {
+        switch (segments[0]) {
+            case 'auth':
+                return await handleAuthRequest(request, context, segments.slice(1));
+            case 'admin':
+                return await handleAdminRequest(request, context, segments.slice(1));
+            case 'credits':
+                return await handleCreditsRequest(request, context, segments.slice(1));
+            case 'sync':
+                return await handleSyncRequest(request, context, segments.slice(1));
+            default:
+                return json({ error: "Not found" }, 404);
+        }
+    } catch (error) {
+        const status = (error as LedgerError)?.status;
+        if (typeof status === 'number') {
+            return json({ error: (error as Error).message }, status);
+        }
+        console.error("Unhandled API error:", error);
+        return json({ error: "Lỗi máy chủ. Vui lòng thử lại sau." }, 500);
+    }
+}
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import type { JsonStore } from './storage';
+import { findAccount, getAccountRole, type AccountRole } from './accounts';
+import { verifyAgainstDummy, verifyPassword } from './passwords';
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// --- Types ---
+
+/**
+ * The claims carried by a session token. The browser reads them to know who is
+ * signed in; the server trusts them only after checking the signature and the session record.
+ */
+export interface SessionClaims {
+    sid: string;
+    sub: string;
+    role: AccountRole;
+    iat: number;
+    exp: number;
+}
+
+interface SessionRecord {
+    username: string;
+    role: AccountRole;
+    createdAt: number;
+    expiresAt: number;
+    revokedAt?: number;
+}
+
+const sessionKey = (sid: string) => `sessions/${sid}`;
+const SECRET_KEY = 'auth/secret';
+
+// --- Signing ---
+
+let signingSecret: Promise<string> | null = null;
+
+/**
+ * Uses AUTH_SECRET when set. Otherwise a random secret is generated once and kept
+ * in the store, so tokens stay valid across restarts and function instances.
+ */
+function getSigningSecret(store: JsonStore): Promise<string> {
+    signingSecret ??= (async () => {
+        if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+        const existing = await store.get<string>(SECRET_KEY);
+        if (existing) return existing;
+        const generated = randomBytes(32).toString('base64url');
+        await store.set(SECRET_KEY, generated);
+        return generated;
+    })().catch(error => {
+        signingSecret = null;
+        throw error;
+    });
+    return signingSecret;
+}
+
+const sign = (payload: string, secret: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+async function encodeToken(store: JsonStore, claims: SessionClaims): Promise<string> {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${payload}.${sign(payload, await getSigningSecret(store))}`;
+}
+
+async function decodeToken(store: JsonStore, token: string): Promise<SessionClaims | null> {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+    const expected = Buffer.from(sign(payload, await getSigningSecret(store)));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+    try {
+        return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SessionClaims;
+    } catch {
+        return null;
+    }
+}
+
+// --- Sessions ---
+
+/**
+ * Checks the credentials and opens a session. Returns null when they are wrong.
+ */
+export async function createSession(
+    store: JsonStore,
+    username: string,
+    password: string
+): Promise<{ token: string; claims: SessionClaims } | null> {
+    const account = await findAccount(store, username);
+    const valid = account?.passwordHash
+        ? await verifyPassword(password, account.passwordHash)
+        : await verifyAgainstDummy(password);
+    if (!account || !valid || account.disabled) return null;
+
+    const now = Date.now();
+    const claims: SessionClaims = {
+        sid: randomUUID(),
+        sub: account.username,
+        role: getAccountRole(account),
+        iat: now,
+        exp: now + SESSION_TTL_MS,
+    };
+    await store.set(sessionKey(claims.sid), {
+        username: claims.sub,
+        role: claims.role,
+        createdAt: now,
+        expiresAt: claims.exp,
+    } satisfies SessionRecord);
+    return { token: await encodeToken(store, claims), claims };
+}
+
+/**
+ * Resolves a token to its claims if it is authentic, unexpired, not revoked, and
+ * the account still exists, is enabled and has the role the token claims.
+ */
+export async function verifySession(store: JsonStore, token: string): Promise<SessionClaims | null> {
+    const claims = await decodeToken(store, token);
+    if (!claims || claims.exp <= Date.now()) return null;
+    const record = await store.get<SessionRecord>(sessionKey(claims.sid));
+    if (!record || record.revokedAt || record.username !== claims.sub) return null;
+    const account = await findAccount(store, claims.sub);
+    if (!account || account.disabled || getAccountRole(account) !== claims.role) return null;
+    return claims;
+}
+
+export async function revokeSession(store: JsonStore, claims: SessionClaims): Promise<void> {
+    const record = await store.get<SessionRecord>(sessionKey(claims.sid));
+    if (!record || record.revokedAt) return;
+    await store.set(sessionKey(claims.sid), { ...record, revokedAt: Date.now() });
+}
+
+/**
+ * Extracts the bearer token from a request, if any.
+ */
+export function getBearerToken(request: Request): string | null {
+    const header = request.headers.get('Authorization') || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+}
@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createHash, randomUUID } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import type { JsonStore } from './storage';
+import { loadLoginConfig } from './accounts';
+import { verifySession } from './auth';
+
+// Reference relay for collaborative canvases. Browsers connect with a WebSocket to
+// /api/collab?room=<id>, authenticate in their first message, and from then on every JSON
+// message a peer sends is passed on to the others in the room, with the sender's peer id
+// added. The relay keeps no document: peers merge what they receive themselves, and a peer
+// joining a room asks one already there for the state. The WebSocket protocol is handled
+// here directly, so the relay needs nothing beyond Node. It runs inside the Vite dev and
+// preview servers, or on its own with server/collabServer.ts.
+
+export const COLLAB_PATH = '/api/collab';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Layer images travel as image store references and are sent in chunks on request, so no
+// message needs to be large.
+const MAX_MESSAGE_BYTES = 2 * 1024 * 1024;
+// A connection that hasn't authenticated by then is closed.
+const AUTH_TIMEOUT_MS = 10_000;
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xA;
+
+// Close codes. 4401 is ours: the session in the first message was missing or invalid.
+const CLOSE_NORMAL = 1000;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_INVALID_DATA = 1007;
+const CLOSE_POLICY_VIOLATION = 1008;
+const CLOSE_TOO_LARGE = 1009;
+const CLOSE_UNAUTHORIZED = 4401;
+
+interface Peer {
+    id: string;
+    socket: Duplex;
+}
+
+interface FrameHeader {
+    fin: boolean;
+    opcode: number;
+    mask: Buffer | null;
+    headerLength: number;
+    payloadLength: number;
+}
+
+// --- Framing ---
+
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+    const length = payload.length;
+    const header = Buffer.alloc(length < 126 ? 2 : length < 65536 ? 4 : 10);
+    header[0] = 0x80 | opcode;
+    if (length < 126) {
+        header[1] = length;
+    } else if (length < 65536) {
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+// Null until enough bytes have arrived to read the whole header.
+const readFrameHeader = (data: Buffer): FrameHeader | null => {
+    if (data.length < 2) return null;
+    let payloadLength = data[1] & 0x7f;
+    let offset = 2;
+    if (payloadLength === 126) {
+        if (data.length < 4) return null;
+        payloadLength = data.readUInt16BE(2);
+        offset = 4;
+    } else if (payloadLength === 127) {
+        if (data.length < 10) return null;
+        const length = data.readBigUInt64BE(2);
+        payloadLength = length > BigInt(MAX_MESSAGE_BYTES) ? Infinity : Number(length);
+        offset = 10;
+    }
+    const isMasked = (data[1] & 0x80) !== 0;
+    if (isMasked && data.length < offset + 4) return null;
+    return {
+        fin: (data[0] & 0x80) !== 0,
+        opcode: data[0] & 0x0f,
+        mask: isMasked ? data.subarray(offset, offset + 4) : null,
+        headerLength: offset + (isMasked ? 4 : 0),
+        payloadLength,
+    };
+};
+
+/**
+ * Reads frames from a socket's data, joining fragmented messages. Incoming chunks are
+ * kept as they are until a whole frame is in, so a large message is copied only once.
+ */
+const createFrameReader = (
+    onMessage: (text: string) => void,
+    onControl: (opcode: number, payload: Buffer) => void,
+    onError: (reason: string) => void
+) => {
+    let chunks: Buffer[] = [];
+    let buffered = 0;
+    let fragments: Buffer[] = [];
+    let fragmentBytes = 0;
+
+    return (chunk: Buffer) => {
+        chunks.push(chunk);
+        buffered += chunk.length;
+        while (buffered > 0) {
+            // The header is at most 14 bytes; join small leading chunks to read it.
+            if (chunks[0].length < 14 && chunks.length > 1) chunks = [Buffer.concat(chunks, buffered)];
+            const header = readFrameHeader(chunks[0]);
+            if (!header) return;
+            if (!header.mask) return onError('unmasked frame');
+            if (header.payloadLength + fragmentBytes > MAX_MESSAGE_BYTES) return onError('message too large');
+            const frameLength = header.headerLength + header.payloadLength;
+            if (buffered < frameLength) return;
+
+            const data = chunks.length === 1 ? chunks[0] : Buffer.concat(chunks, buffered);
+            const payload = Buffer.from(data.subarray(header.headerLength, frameLength));
+            for (let i = 0; i < payload.length; i++) payload[i] ^= header.mask[i % 4];
+            chunks = frameLength < data.length ? [data.subarray(frameLength)] : [];
+            buffered -= frameLength;
+
+            if (header.opcode >= OPCODE_CLOSE) {
+                onControl(header.opcode, payload);
+                continue;
+            }
+            if (header.opcode !== OPCODE_TEXT && header.opcode !== OPCODE_CONTINUATION) return onError('unsupported frame');
+            fragments.push(payload);
+            fragmentBytes += payload.length;
+            if (header.fin) {
+                const text = Buffer.concat(fragments, fragmentBytes).toString('utf8');
+                fragments = [];
+                fragmentBytes = 0;
+                onMessage(text);
+            }
+        }
+    };
+};
+
+// --- Relay ---
+
+const rejectUpgrade = (socket: Duplex, status: string) => {
+    socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+};
+
+/**
+ * Whether a connection may join its room. Browsers can't set headers on a WebSocket, so
+ * the session token comes in the first message, `{ type: 'auth', token }`, rather than in
+ * the URL where it would end up in access logs.
+ */
+async function isAuthorized(store: JsonStore, token: unknown): Promise<boolean> {
+    const { enabled } = await loadLoginConfig();
+    if (!enabled) return true;
+    return typeof token === 'string' && !!token && !!(await verifySession(store, token));
+}
+
+/**
+ * Handles WebSocket upgrades to COLLAB_PATH on an HTTP server. Other upgrades, such as
+ * Vite's hot reload, are left alone.
+ */
+export function attachCollabRelay(
+    server: { on(event: 'upgrade', listener: (req: IncomingMessage, socket: Duplex, head: Buffer) => void): unknown },
+    store: JsonStore
+) {
+    const rooms = new Map<string, Map<string, Peer>>();
+
+    const send = (peer: Peer, message: unknown) => {
+        if (!peer.socket.writable) return;
+        peer.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message), 'utf8')));
+    };
+
+    const join = (roomId: string, socket: Duplex): Peer => {
+        const room = rooms.get(roomId) ?? new Map<string, Peer>();
+        rooms.set(roomId, room);
+        const peer: Peer = { id: randomUUID(), socket };
+        send(peer, { type: 'welcome', peerId: peer.id, peers: [...room.keys()] });
+        room.forEach(other => send(other, { type: 'peer-joined', peerId: peer.id }));
+        room.set(peer.id, peer);
+        return peer;
+    };
+
+    // Reads the connection's messages: the first one authenticates it and joins the room,
+    // the rest are relayed.
+    const accept = (roomId: string, socket: Duplex) => {
+        let peer: Peer | null = null;
+        let isAuthenticating = false;
+        let hasLeft = false;
+
+        const leave = () => {
+            if (hasLeft) return;
+            hasLeft = true;
+            clearTimeout(authTimer);
+            const room = rooms.get(roomId);
+            if (peer && room) {
+                room.delete(peer.id);
+                if (room.size === 0) rooms.delete(roomId);
+                room.forEach(other => send(other, { type: 'peer-left', peerId: peer!.id }));
+            }
+            socket.destroy();
+        };
+        const close = (code: number) => {
+            const payload = Buffer.alloc(2);
+            payload.writeUInt16BE(code);
+            if (socket.writable) socket.write(encodeFrame(OPCODE_CLOSE, payload));
+            leave();
+        };
+        const authTimer = setTimeout(() => { if (!peer) close(CLOSE_POLICY_VIOLATION); }, AUTH_TIMEOUT_MS);
+
+        const relay = (from: Peer, message: { to?: unknown; data?: unknown }) => {
+            const room = rooms.get(roomId);
+            if (!room) return;
+            const relayed = { type: 'message', from: from.id, data: message.data };
+            if (typeof message.to === 'string') {
+                const target = room.get(message.to);
+                if (target) send(target, relayed);
+            } else {
+                room.forEach(other => { if (other !== from) send(other, relayed); });
+            }
+        };
+
+        const handleMessage = (text: string) => {
+            let message: { type?: unknown; token?: unknown; to?: unknown; data?: unknown };
+            try {
+                message = JSON.parse(text);
+            } catch {
+                return close(CLOSE_INVALID_DATA);
+            }
+            if (peer) return relay(peer, message);
+            // Nothing else may be sent before the relay has answered the first message.
+            if (isAuthenticating || message?.type !== 'auth') return close(CLOSE_POLICY_VIOLATION);
+            isAuthenticating = true;
+            isAuthorized(store, message.token).then(isAllowed => {
+                if (hasLeft) return;
+                if (!isAllowed) return close(CLOSE_UNAUTHORIZED);
+                clearTimeout(authTimer);
+                peer = join(roomId, socket);
+            }).catch(error => {
+                console.error('Collab relay failed to authorize a connection:', error);
+                close(CLOSE_UNAUTHORIZED);
+            });
+        };
+        const handleControl = (opcode: number, payload: Buffer) => {
+            if (opcode === OPCODE_CLOSE) close(CLOSE_NORMAL);
+            else if (opcode === OPCODE_PING && socket.writable) socket.write(encodeFrame(OPCODE_PONG, payload));
+        };
+        const read = createFrameReader(handleMessage, handleControl, reason => {
+            console.warn(`Collab relay closed a connection: ${reason}`);
+            close(reason === 'message too large' ? CLOSE_TOO_LARGE : CLOSE_PROTOCOL_ERROR);
+        });
+
+        socket.on('data', read);
+        socket.on('close', leave);
+        socket.on('error', leave);
+    };
+
+    server.on('upgrade', (req, socket, head) => {
+        const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+        if (url.pathname !== COLLAB_PATH) return;
+        const key = req.headers['sec-websocket-key'];
+        const roomId = url.searchParams.get('room') || '';
+        if (typeof key !== 'string' || req.headers.upgrade?.toLowerCase() !== 'websocket' || !ROOM_ID_PATTERN.test(roomId)) {
+            return rejectUpgrade(socket, '400 Bad Request');
+        }
+        const accepted = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+        socket.pause();
+        socket.write([
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${accepted}`,
+            '',
+            '',
+        ].join('\r\n'));
+        accept(roomId, socket);
+        if (head.length > 0) socket.unshift(head);
+        socket.resume();
+    });
+}
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Runs the collaboration relay on its own, for deployments whose API can't hold WebSockets,
+// such as Netlify Functions. Build the site with COLLAB_URL pointing here, e.g.
+// wss://collab.example.com/api/collab.
+// Usage: npm run collab-server
+//
+// When login is on, sessions are checked against the API's data store: NETLIFY_SITE_ID and
+// NETLIFY_BLOBS_TOKEN for the deployed site's store, or COLLAB_DATA_DIR for a local `.data/`
+// directory. If the API signs sessions with AUTH_SECRET, the relay needs it too.
+import { createServer } from 'http';
+import path from 'path';
+import { attachCollabRelay, COLLAB_PATH } from './collab';
+import { createBlobStore, createFileStore, type JsonStore } from './storage';
+
+const createStore = (): JsonStore => {
+    const siteID = process.env.NETLIFY_SITE_ID?.trim();
+    const token = process.env.NETLIFY_BLOBS_TOKEN?.trim();
+    // The store netlify/functions/api.ts uses.
+    if (siteID && token) return createBlobStore('caotrang-studio', { siteID, token });
+    return createFileStore(path.resolve(process.env.COLLAB_DATA_DIR || '.data'));
+};
+
+const port = Number(process.env.PORT) || 8787;
+
+// Plain HTTP requests only get told where the relay is.
+const server = createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain; charset=utf-8', Upgrade: 'websocket' });
+    res.end(`Collaboration relay. Connect with a WebSocket to ${COLLAB_PATH}?room=<id>.\n`);
+});
+attachCollabRelay(server, createStore());
+server.listen(port, () => console.log(`Collaboration relay listening on port ${port}`));
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { APP_CREDIT_COSTS, DEFAULT_CREDIT_COST, getCreditCost, isKnownAppId } from './creditCosts';
+
+describe('isKnownAppId', () => {
+    it('accepts the apps that have a cost', () => {
+        for (const appId of Object.keys(APP_CREDIT_COSTS)) {
+            expect(isKnownAppId(appId)).toBe(true);
+        }
+    });
+
+    it('rejects unknown apps, prototype keys and non-strings', () => {
+        expect(isKnownAppId('unknown-app')).toBe(false);
+        expect(isKnownAppId('constructor')).toBe(false);
+        expect(isKnownAppId('__proto__')).toBe(false);
+        expect(isKnownAppId(undefined)).toBe(false);
+        expect(isKnownAppId(42)).toBe(false);
+    });
+});
+
+describe('getCreditCost', () => {
+    it('uses the listed cost of a known app', () => {
+        expect(getCreditCost('free-generation')).toBe(APP_CREDIT_COSTS['free-generation']);
+    });
+
+    it('falls back to the default cost', () => {
+        expect(getCreditCost('unknown-app')).toBe(DEFAULT_CREDIT_COST);
+        expect(getCreditCost('toString')).toBe(DEFAULT_CREDIT_COST);
+    });
+});
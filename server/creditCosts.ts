@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const DEFAULT_CREDIT_COST = 1;
+
+/**
+ * Credits charged per generated result, keyed by app id (see `apps` in setting.json).
+ * Only apps listed here can spend credits.
+ */
+export const APP_CREDIT_COSTS: Record<string, number> = {
+    'tet-qr-2026': 1,
+    'spring2026Creator': 1,
+    'free-generation': 1,
+    'image-interpolation': 1,
+    'architecture-ideator': 1,
+    'dress-the-model': 1,
+    'photo-restoration': 1,
+    'swap-style': 1,
+    'baby-photo-creator': 1,
+    'avatar-creator': 1,
+    'beauty-creator': 1,
+    'entrepreneur-creator': 1,
+    'toy-model-creator': 1,
+    'mid-autumn-creator': 1,
+};
+
+// Own keys only, so names such as "constructor" never resolve to Object.prototype members.
+export const isKnownAppId = (appId: unknown): appId is string =>
+    typeof appId === 'string' && Object.hasOwn(APP_CREDIT_COSTS, appId);
+
+export function getCreditCost(appId: string): number {
+    return isKnownAppId(appId) ? APP_CREDIT_COSTS[appId] : DEFAULT_CREDIT_COST;
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { JsonStore } from './storage';
+import {
+    MAX_REFUNDS_PER_DAY, REFUND_WINDOW_MS, clawbackCredits, ensureInitialGrant, getCreditBalance, getTransactions,
+    grantCredits, refundCredits, spendCredits, summarizeUsageByApp,
+} from './creditLedger';
+
+// Keeps copies, like the file and blob stores, so the ledger can't change what it already wrote.
+const createMemoryStore = (): JsonStore => {
+    const values = new Map<string, unknown>();
+    const read = <T>(key: string): T | null => values.has(key) ? structuredClone(values.get(key)) as T : null;
+    return {
+        async get<T>(key: string) {
+            return read<T>(key);
+        },
+        async set(key: string, value: unknown) {
+            values.set(key, structuredClone(value));
+        },
+        async list(prefix: string) {
+            return [...values.keys()].filter(key => key.startsWith(prefix));
+        },
+        async update<T>(key: string, apply: (current: T | null) => T | undefined) {
+            const next = apply(read<T>(key));
+            if (next !== undefined) values.set(key, structuredClone(next));
+            return read<T>(key);
+        },
+    };
+};
+
+const USER = 'alice';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('creditLedger', () => {
+    let store: JsonStore;
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        store = createMemoryStore();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('grants the starting allowance only once', async () => {
+        await ensureInitialGrant(store, USER, 10);
+        await ensureInitialGrant(store, USER, 10);
+
+        expect(await getCreditBalance(store, USER)).toEqual({ username: USER, balance: 10, allowance: 10 });
+        expect(await getTransactions(store, USER)).toHaveLength(1);
+    });
+
+    it('records one spend per result', async () => {
+        await grantCredits(store, USER, 5);
+
+        const { transactions, balance } = await spendCredits(store, USER, 'free-generation', 3);
+
+        expect(transactions.map(tx => [tx.type, tx.amount, tx.quantity])).toEqual([
+            ['spend', 1, 1], ['spend', 1, 1], ['spend', 1, 1],
+        ]);
+        expect(balance.balance).toBe(2);
+        expect(balance.allowance).toBe(5);
+    });
+
+    it('rejects a spend the balance does not cover and writes nothing', async () => {
+        await grantCredits(store, USER, 2);
+
+        await expect(spendCredits(store, USER, 'free-generation', 3)).rejects.toMatchObject({ status: 402 });
+        expect(await getTransactions(store, USER)).toHaveLength(1);
+    });
+
+    it('rejects invalid amounts and quantities', async () => {
+        await expect(grantCredits(store, USER, 1.5)).rejects.toMatchObject({ status: 400 });
+        await expect(grantCredits(store, USER, 0)).rejects.toMatchObject({ status: 400 });
+        await expect(spendCredits(store, USER, 'free-generation', 0)).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('spends credits that expire before permanent ones and expires what is left', async () => {
+        const now = Date.now();
+        await grantCredits(store, USER, 5);
+        await grantCredits(store, USER, 3, { expiresAt: now + HOUR_MS });
+
+        await spendCredits(store, USER, 'free-generation', 2);
+        vi.setSystemTime(now + 2 * HOUR_MS);
+
+        expect(await getCreditBalance(store, USER)).toEqual({ username: USER, balance: 5, allowance: 7 });
+        const expired = (await getTransactions(store, USER)).filter(tx => tx.type === 'expire');
+        expect(expired.map(tx => tx.amount)).toEqual([1]);
+    });
+
+    it('refunds each spend once', async () => {
+        await grantCredits(store, USER, 3);
+        const { transactions } = await spendCredits(store, USER, 'free-generation', 3);
+        const spendIds = transactions.map(tx => tx.id);
+
+        const refund = await refundCredits(store, USER, spendIds, 2, 'Model error');
+
+        expect(refund.transactions).toHaveLength(2);
+        expect(refund.transactions.every(tx => tx.note === 'Model error')).toBe(true);
+        expect(refund.balance.balance).toBe(2);
+        await expect(refundCredits(store, USER, spendIds, 2)).rejects.toMatchObject({ status: 400 });
+
+        const rest = await refundCredits(store, USER, spendIds);
+        expect(rest.transactions).toHaveLength(1);
+        expect(rest.balance.balance).toBe(3);
+    });
+
+    it('refuses refunds for unknown spends and after the refund window', async () => {
+        await grantCredits(store, USER, 1);
+        const { transactions } = await spendCredits(store, USER, 'free-generation', 1);
+
+        await expect(refundCredits(store, USER, ['missing'])).rejects.toMatchObject({ status: 404 });
+
+        vi.setSystemTime(Date.now() + REFUND_WINDOW_MS + 1);
+        await expect(refundCredits(store, USER, [transactions[0].id], 1)).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('caps the results refunded per day', async () => {
+        await grantCredits(store, USER, MAX_REFUNDS_PER_DAY + 1);
+        const { transactions } = await spendCredits(store, USER, 'free-generation', MAX_REFUNDS_PER_DAY + 1);
+        const spendIds = transactions.map(tx => tx.id);
+
+        await refundCredits(store, USER, spendIds, MAX_REFUNDS_PER_DAY);
+
+        await expect(refundCredits(store, USER, spendIds, 1)).rejects.toMatchObject({ status: 429 });
+    });
+
+    it('never claws back more than the balance', async () => {
+        await grantCredits(store, USER, 4);
+
+        await expect(clawbackCredits(store, USER, 5)).rejects.toMatchObject({ status: 400 });
+        const { balance } = await clawbackCredits(store, USER, 3, 'Granted by mistake');
+        expect(balance).toEqual({ username: USER, balance: 1, allowance: 1 });
+    });
+
+    it('reports a corrupt ledger instead of a NaN balance', async () => {
+        await store.set(`ledger/${USER}`, [{ id: 'x', username: USER, type: 'grant', amount: 'ten', createdAt: Date.now() }]);
+
+        await expect(getCreditBalance(store, USER)).rejects.toMatchObject({ status: 500 });
+    });
+
+    it('sums usage per app net of refunds', async () => {
+        await grantCredits(store, USER, 10);
+        const { transactions } = await spendCredits(store, USER, 'free-generation', 3);
+        await spendCredits(store, USER, 'avatar-creator', 2);
+        await refundCredits(store, USER, [transactions[0].id]);
+
+        expect(summarizeUsageByApp(await getTransactions(store, USER))).toEqual({
+            'free-generation': { credits: 2, generations: 2 },
+            'avatar-creator': { credits: 2, generations: 2 },
+        });
+    });
+});
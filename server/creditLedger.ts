@@ -0,0 +1,333 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { JsonStore } from './storage';
+import { getCreditCost } from './creditCosts';
+
+// --- Types ---
+
+export type CreditTransactionType = 'grant' | 'spend' | 'refund' | 'expire' | 'clawback';
+
+/**
+ * One immutable ledger entry. Amounts are always positive; the type decides the sign.
+ */
+export interface CreditTransaction {
+    id: string;
+    username: string;
+    type: CreditTransactionType;
+    amount: number;
+    createdAt: number;
+    appId?: string;
+    quantity?: number;
+    // For refunds: the spend being refunded. For expirations: the grant or refund that lapsed.
+    relatedId?: string;
+    expiresAt?: number;
+    note?: string;
+}
+
+export interface CreditBalance {
+    username: string;
+    balance: number;
+    allowance: number;
+}
+
+/**
+ * Net usage of one app: credits spent minus refunds, and the number of results they paid for.
+ */
+export interface AppUsage {
+    credits: number;
+    generations: number;
+}
+
+export type LedgerError = Error & { status: number };
+
+export const ledgerError = (status: number, message: string): LedgerError =>
+    Object.assign(new Error(message), { status });
+
+const ledgerKey = (username: string) => `ledger/${username}`;
+
+// How long after a spend its credits can still be refunded. Long enough for a video to
+// finish rendering or for an interrupted batch to be resumed after a reload.
+export const REFUND_WINDOW_MS = 30 * 60 * 1000;
+
+// Refunds take the client's word that a result failed, so each user can only get back
+// this many results per day.
+export const MAX_REFUNDS_PER_DAY = 30;
+const REFUND_LIMIT_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+// --- Replay ---
+
+interface CreditBucket {
+    id: string;
+    remaining: number;
+    expiresAt?: number;
+}
+
+const isExpiredAt = (bucket: CreditBucket, time: number) => bucket.expiresAt !== undefined && bucket.expiresAt <= time;
+
+/**
+ * Replays the ledger into credit buckets. Spends draw from the bucket that expires
+ * soonest, so credits with a deadline are used before permanent ones.
+ */
+function replayLedger(transactions: CreditTransaction[]): CreditBucket[] {
+    const buckets: CreditBucket[] = [];
+    for (const tx of transactions) {
+        switch (tx.type) {
+            case 'grant':
+                buckets.push({ id: tx.id, remaining: tx.amount, expiresAt: tx.expiresAt });
+                break;
+            case 'refund':
+                buckets.push({ id: tx.id, remaining: tx.amount });
+                break;
+            case 'expire': {
+                const bucket = buckets.find(b => b.id === tx.relatedId);
+                if (bucket) bucket.remaining = 0;
+                break;
+            }
+            case 'spend':
+            case 'clawback': {
+                let toConsume = tx.amount;
+                const available = buckets
+                    .filter(b => b.remaining > 0 && !isExpiredAt(b, tx.createdAt))
+                    .sort((a, b) => (a.expiresAt ?? Infinity) - (b.expiresAt ?? Infinity));
+                for (const bucket of available) {
+                    if (toConsume <= 0) break;
+                    const taken = Math.min(bucket.remaining, toConsume);
+                    bucket.remaining -= taken;
+                    toConsume -= taken;
+                }
+                break;
+            }
+        }
+    }
+    return buckets;
+}
+
+const isValidAmount = (amount: unknown): amount is number =>
+    typeof amount === 'number' && Number.isFinite(amount) && amount >= 0;
+
+function summarize(username: string, transactions: CreditTransaction[], now: number): CreditBalance {
+    const buckets = replayLedger(transactions);
+    const balance = buckets
+        .filter(b => !isExpiredAt(b, now))
+        .reduce((sum, b) => sum + b.remaining, 0);
+    // A corrupt entry would otherwise make the balance NaN, which no `balance < required` check rejects.
+    if (!Number.isFinite(balance)) {
+        throw ledgerError(500, "Số dư credit không hợp lệ. Vui lòng liên hệ quản trị viên.");
+    }
+    const allowance = transactions.reduce((sum, tx) => {
+        if (tx.type === 'grant') return sum + tx.amount;
+        if (tx.type === 'expire' || tx.type === 'clawback') return sum - tx.amount;
+        return sum;
+    }, 0);
+    return { username, balance, allowance: Math.max(allowance, 0) };
+}
+
+/**
+ * Sums each app's spends net of refunds. A refund gives back whole results, so the
+ * refunded share of a spend is converted back into a count at the spend's unit cost.
+ */
+export function summarizeUsageByApp(transactions: CreditTransaction[]): Record<string, AppUsage> {
+    const usage: Record<string, AppUsage> = {};
+    const spends = new Map(transactions.filter(tx => tx.type === 'spend').map(tx => [tx.id, tx]));
+    for (const tx of transactions) {
+        const spend = tx.type === 'spend' ? tx : tx.type === 'refund' ? spends.get(tx.relatedId || '') : undefined;
+        if (!spend?.appId) continue;
+        const entry = usage[spend.appId] ??= { credits: 0, generations: 0 };
+        const unitCost = spend.amount / (spend.quantity || 1);
+        const sign = tx.type === 'spend' ? 1 : -1;
+        entry.credits += sign * tx.amount;
+        entry.generations += sign * (unitCost > 0 ? tx.amount / unitCost : 0);
+    }
+    return usage;
+}
+
+// --- Store Access ---
+
+type NewTransaction = Omit<CreditTransaction, 'id' | 'username' | 'createdAt'>;
+
+export async function getTransactions(store: JsonStore, username: string): Promise<CreditTransaction[]> {
+    return (await store.get<CreditTransaction[]>(ledgerKey(username))) || [];
+}
+
+/**
+ * An 'expire' entry for every grant or refund whose deadline has passed
+ * while it still had credits left.
+ */
+function getLapsedEntries(transactions: CreditTransaction[], now: number): NewTransaction[] {
+    return replayLedger(transactions)
+        .filter(b => b.remaining > 0 && isExpiredAt(b, now))
+        .map(bucket => ({
+            type: 'expire' as const,
+            amount: bucket.remaining,
+            relatedId: bucket.id,
+            note: 'Credits expired',
+        }));
+}
+
+/**
+ * Settles lapsed credits, then appends the entries `plan` returns for the settled ledger,
+ * all in one conditional write. When another server instance wrote the ledger in between,
+ * it is read again and `plan` reruns, so checks such as the balance always hold for the
+ * ledger the entries are added to. `plan` throws to reject the operation.
+ */
+async function updateLedger(
+    store: JsonStore,
+    username: string,
+    plan: (transactions: CreditTransaction[], now: number) => NewTransaction[]
+): Promise<{ created: CreditTransaction[]; balance: CreditBalance }> {
+    let created: CreditTransaction[] = [];
+    let now = Date.now();
+    const stamp = (entries: NewTransaction[]): CreditTransaction[] => {
+        if (!entries.every(entry => isValidAmount(entry.amount))) {
+            throw ledgerError(500, "Số credit của giao dịch không hợp lệ.");
+        }
+        return entries.map(entry => ({ ...entry, id: crypto.randomUUID(), username, createdAt: now }));
+    };
+    const ledger = await store.update<CreditTransaction[]>(ledgerKey(username), current => {
+        now = Date.now();
+        const existing = current || [];
+        const settled = [...existing, ...stamp(getLapsedEntries(existing, now))];
+        created = stamp(plan(settled, now));
+        const next = [...settled, ...created];
+        return next.length === existing.length ? undefined : next;
+    });
+    return { created, balance: summarize(username, ledger || [], now) };
+}
+
+// --- Public Operations ---
+
+export async function getCreditBalance(store: JsonStore, username: string): Promise<CreditBalance> {
+    const { balance } = await updateLedger(store, username, () => []);
+    return balance;
+}
+
+/**
+ * Gives a first-time user their starting allowance. Does nothing once the user has a ledger.
+ */
+export async function ensureInitialGrant(store: JsonStore, username: string, allowance: number): Promise<void> {
+    await updateLedger(store, username, transactions =>
+        transactions.length > 0 || allowance <= 0 ? [] : [{ type: 'grant', amount: allowance, note: 'Initial allowance' }]
+    );
+}
+
+export async function grantCredits(
+    store: JsonStore,
+    username: string,
+    amount: number,
+    options: { note?: string; expiresAt?: number } = {}
+): Promise<{ transaction: CreditTransaction; balance: CreditBalance }> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+        throw ledgerError(400, "Số credit cấp phải là số nguyên dương.");
+    }
+    const { created: [transaction], balance } = await updateLedger(store, username, () => [{ type: 'grant', amount, ...options }]);
+    return { transaction, balance };
+}
+
+/**
+ * Takes credits back from a user, e.g. ones granted by mistake. It cannot take more
+ * than the current balance, so the balance never goes negative.
+ */
+export async function clawbackCredits(
+    store: JsonStore,
+    username: string,
+    amount: number,
+    note?: string
+): Promise<{ transaction: CreditTransaction; balance: CreditBalance }> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+        throw ledgerError(400, "Số credit thu hồi phải là số nguyên dương.");
+    }
+    const { created: [transaction], balance } = await updateLedger(store, username, (transactions, now) => {
+        const { balance } = summarize(username, transactions, now);
+        if (amount > balance) {
+            throw ledgerError(400, `Chỉ có thể thu hồi tối đa ${balance} credit.`);
+        }
+        return [{ type: 'clawback', amount, note }];
+    });
+    return { transaction, balance };
+}
+
+/**
+ * Reserves credits for a generation before it starts. Each result gets its own spend,
+ * so each can be refunded once on its own; the caller refunds the spends of results
+ * that fail.
+ */
+export async function spendCredits(
+    store: JsonStore,
+    username: string,
+    appId: string,
+    quantity: number
+): Promise<{ transactions: CreditTransaction[]; balance: CreditBalance }> {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw ledgerError(400, "Số lượng ảnh cần tạo không hợp lệ.");
+    }
+    const unitCost = getCreditCost(appId);
+    const { created, balance } = await updateLedger(store, username, (transactions, now) => {
+        const { balance } = summarize(username, transactions, now);
+        const required = unitCost * quantity;
+        if (balance < required) {
+            throw ledgerError(402, `Bạn cần ${required} credit nhưng chỉ còn ${balance}.`);
+        }
+        return Array.from({ length: quantity }, () => ({
+            type: 'spend' as const, amount: unitCost, appId, quantity: 1,
+        }));
+    });
+    return { transactions: created, balance };
+}
+
+/**
+ * Refunds the spends of `quantity` failed results, picked from `spendIds` (the spends of
+ * one reservation), or all of them when no quantity is given. Each spend is refunded once,
+ * in full, and only within REFUND_WINDOW_MS of being made.
+ *
+ * The server cannot see whether a generation really failed, since the model is called from
+ * the browser. Refunds are therefore capped at MAX_REFUNDS_PER_DAY results per user, and
+ * each one stays in the ledger with the reason the client gave.
+ */
+export async function refundCredits(
+    store: JsonStore,
+    username: string,
+    spendIds: string[],
+    quantity?: number,
+    note = 'Refund'
+): Promise<{ transactions: CreditTransaction[]; balance: CreditBalance }> {
+    const { created, balance } = await updateLedger(store, username, (transactions, now) => {
+        const spends = transactions.filter(tx => tx.type === 'spend' && spendIds.includes(tx.id));
+        if (spends.length === 0) {
+            throw ledgerError(404, "Không tìm thấy giao dịch cần hoàn credit.");
+        }
+        const refunds = transactions.filter(tx => tx.type === 'refund');
+        const refundedIds = new Set(refunds.map(tx => tx.relatedId));
+        const refundable = spends.filter(spend => !refundedIds.has(spend.id) && now - spend.createdAt <= REFUND_WINDOW_MS);
+        const refundableQuantity = refundable.reduce((sum, spend) => sum + (spend.quantity || 1), 0);
+        const requested = quantity === undefined ? refundableQuantity : quantity;
+        if (!Number.isInteger(requested) || requested < 0 || requested > refundableQuantity) {
+            throw ledgerError(400, `Chỉ có thể hoàn credit cho tối đa ${refundableQuantity} kết quả của giao dịch này.`);
+        }
+        const spendQuantities = new Map(transactions.filter(tx => tx.type === 'spend').map(tx => [tx.id, tx.quantity || 1]));
+        const refundedToday = refunds
+            .filter(tx => now - tx.createdAt < REFUND_LIMIT_PERIOD_MS)
+            .reduce((sum, tx) => sum + (spendQuantities.get(tx.relatedId || '') || 1), 0);
+        if (refundedToday + requested > MAX_REFUNDS_PER_DAY) {
+            throw ledgerError(429, `Mỗi ngày chỉ được hoàn credit cho tối đa ${MAX_REFUNDS_PER_DAY} kết quả.`);
+        }
+        // Spends made before each result had its own cover several results and are refunded whole.
+        const toRefund: CreditTransaction[] = [];
+        let remaining = requested;
+        for (const spend of refundable) {
+            const spendQuantity = spend.quantity || 1;
+            if (spendQuantity > remaining) continue;
+            toRefund.push(spend);
+            remaining -= spendQuantity;
+        }
+        return toRefund.map(spend => ({
+            type: 'refund' as const,
+            amount: spend.amount,
+            appId: spend.appId,
+            relatedId: spend.id,
+            note,
+        }));
+    });
+    return { transactions: created, balance };
+}
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import { handleApiRequest } from './api';
+import { attachCollabRelay } from './collab';
+import { createFileStore } from './storage';
+
+const readRequestBody = (req: IncomingMessage): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+
+async function toWebRequest(req: IncomingMessage): Promise<Request> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const headers = new Headers();
+    for (const [key, value] of Object.entries(req.headers)) {
+        if (Array.isArray(value)) value.forEach(v => headers.append(key, v));
+        else if (value !== undefined) headers.set(key, value);
+    }
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+    return new Request(url, {
+        method: req.method,
+        headers,
+        body: hasBody ? await readRequestBody(req) : undefined,
+    });
+}
+
+async function sendWebResponse(res: ServerResponse, response: Response) {
+    res.statusCode = response.status;
+    response.headers.forEach((value, key) => res.setHeader(key, value));
+    res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * Serves the /api routes from the Vite dev and preview servers, persisting data as
+ * JSON files under `.data/` so the app works locally without Netlify. The collaboration
+ * relay is attached to the same HTTP servers, since it needs WebSocket upgrades.
+ */
+export function apiDevServer(dataDir = path.resolve('.data')): Plugin {
+    const store = createFileStore(dataDir);
+    const middleware = async (req: IncomingMessage, res: ServerResponse, next: (err?: unknown) => void) => {
+        if (!req.url?.startsWith('/api/')) return next();
+        try {
+            const response = await handleApiRequest(await toWebRequest(req), { store });
+            await sendWebResponse(res, response);
+        } catch (error) {
+            next(error);
+        }
+    };
+    return {
+        name: 'caotrang-api-dev-server',
+        configureServer(server) {
+            server.middlewares.use(middleware);
+            if (server.httpServer) attachCollabRelay(server.httpServer, store);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(middleware);
+            attachCollabRelay(server.httpServer, store);
+        },
+    };
+}
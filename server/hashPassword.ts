@@ -0,0 +1,14 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Prints a password hash for ADMIN_PASSWORD_HASH.
+// Usage: npm run hash-password -- <password>
+import { hashPassword } from './passwords';
+
+const password = process.argv[2];
+if (!password) {
+    console.error("Usage: npm run hash-password -- <password>");
+    process.exit(1);
+}
+console.log(await hashPassword(password));
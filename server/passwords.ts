@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+// Stored format: scrypt$<N>$<r>$<p>$<salt, base64>$<hash, base64>
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+
+const deriveKey = (password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        scrypt(password.normalize('NFKC'), salt, KEY_LENGTH, options, (error, key) => error ? reject(error) : resolve(key));
+    });
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+    const { N, r, p } = SCRYPT_PARAMS;
+    return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Checks a password against a stored hash in constant time.
+ * A malformed hash never matches.
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [scheme, N, r, p, salt, hash] = storedHash.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'base64');
+    try {
+        const key = await deriveKey(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+        return key.length === expected.length && timingSafeEqual(key, expected);
+    } catch {
+        return false;
+    }
+}
+
+// Compared against when the username is unknown, so a failed login takes the same time either way.
+let dummyHash: Promise<string> | null = null;
+
+export async function verifyAgainstDummy(password: string): Promise<false> {
+    dummyHash ??= hashPassword(randomBytes(SALT_LENGTH).toString('hex'));
+    await verifyPassword(password, await dummyHash);
+    return false;
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getStore } from '@netlify/blobs';
+
+/**
+ * A minimal JSON key-value store used by the server-side services.
+ * Keys may contain '/' to group records (e.g. `ledger/<username>`).
+ */
+export interface JsonStore {
+    get<T>(key: string): Promise<T | null>;
+    set(key: string, value: unknown): Promise<void>;
+    list(prefix: string): Promise<string[]>;
+    /**
+     * Read-modify-write of one key that never loses a concurrent write. `apply` gets the
+     * current value and returns the new one, or undefined to keep it. It runs again when
+     * another writer got in first, so it must not have side effects beyond its result.
+     * Resolves to the value that was written or kept.
+     */
+    update<T>(key: string, apply: (current: T | null) => T | undefined): Promise<T | null>;
+}
+
+// How often a conditional write is retried before giving up on a heavily contended key.
+const MAX_UPDATE_ATTEMPTS = 8;
+
+const encodeKey = (key: string) => key.split('/').map(encodeURIComponent).join(path.sep);
+const decodeKey = (relativePath: string) => relativePath.split(path.sep).map(decodeURIComponent).join('/');
+
+/**
+ * File-backed store for local development. Each key is one JSON file under `rootDir`.
+ */
+export function createFileStore(rootDir: string): JsonStore {
+    const fileFor = (key: string) => path.join(rootDir, `${encodeKey(key)}.json`);
+    // The dev server is a single process, so chaining updates per key is enough here.
+    const keyLocks = new Map<string, Promise<unknown>>();
+
+    const walk = async (dir: string): Promise<string[]> => {
+        let entries: import('fs').Dirent[];
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+        const files = await Promise.all(entries.map(entry => {
+            const fullPath = path.join(dir, entry.name);
+            return entry.isDirectory() ? walk(fullPath) : Promise.resolve([fullPath]);
+        }));
+        return files.flat();
+    };
+
+    const store: JsonStore = {
+        async get<T>(key: string) {
+            try {
+                return JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as T;
+            } catch (error: any) {
+                if (error?.code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+        async set(key, value) {
+            const file = fileFor(key);
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            // Write to a temp file first so a crash never leaves a half-written record behind.
+            const tempFile = `${file}.${process.pid}.tmp`;
+            await fs.writeFile(tempFile, JSON.stringify(value, null, 2), 'utf8');
+            await fs.rename(tempFile, file);
+        },
+        async list(prefix) {
+            const files = await walk(rootDir);
+            return files
+                .filter(file => file.endsWith('.json'))
+                .map(file => decodeKey(path.relative(rootDir, file).slice(0, -'.json'.length)))
+                .filter(key => key.startsWith(prefix));
+        },
+        update<T>(key: string, apply: (current: T | null) => T | undefined) {
+            const previous = keyLocks.get(key) || Promise.resolve();
+            const next = previous.catch(() => undefined).then(async () => {
+                const current = await store.get<T>(key);
+                const updated = apply(current);
+                if (updated === undefined) return current;
+                await store.set(key, updated);
+                return updated;
+            });
+            keyLocks.set(key, next);
+            next.finally(() => {
+                if (keyLocks.get(key) === next) keyLocks.delete(key);
+            }).catch(() => undefined);
+            return next;
+        },
+    };
+    return store;
+}
+
+/**
+ * Netlify Blobs-backed store for the deployed site. Several function instances may
+ * write the same key, so `update` writes only if the entry's ETag is unchanged.
+ * Outside Netlify, e.g. in the standalone collaboration relay, pass the site's ID and an
+ * access token.
+ */
+export function createBlobStore(name: string, site?: { siteID: string; token: string }): JsonStore {
+    const store = getStore({ name, consistency: 'strong', ...site });
+    return {
+        async get<T>(key: string) {
+            return (await store.get(key, { type: 'json' })) as T | null;
+        },
+        async set(key, value) {
+            await store.setJSON(key, value);
+        },
+        async list(prefix) {
+            const { blobs } = await store.list({ prefix });
+            return blobs.map(blob => blob.key);
+        },
+        async update<T>(key: string, apply: (current: T | null) => T | undefined) {
+            for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+                const entry = await store.getWithMetadata(key, { type: 'json' });
+                const current = (entry?.data ?? null) as T | null;
+                const updated = apply(current);
+                if (updated === undefined) return current;
+                const { modified } = entry?.etag
+                    ? await store.setJSON(key, updated, { onlyIfMatch: entry.etag })
+                    : await store.setJSON(key, updated, { onlyIfNew: true });
+                if (modified) return updated;
+            }
+            throw Object.assign(new Error("Dữ liệu đang được cập nhật đồng thời. Vui lòng thử lại."), { status: 409 });
+        },
+    };
+}
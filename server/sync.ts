@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createHash } from 'crypto';
+import type { JsonStore } from './storage';
+
+// Reference sync server. Each user has one change log of gallery and history records and
+// a set of images keyed by the SHA-256 of their bytes. Every accepted record gets the next
+// revision number, so a client pulls what changed since the last revision it saw.
+// Conflicts are settled per record id: the later `updatedAt` wins, and at equal times a
+// deletion wins, so every device ends up with the same record.
+
+// --- Types ---
+
+export type SyncRecordKind = 'gallery' | 'history';
+
+export interface SyncRecord {
+    kind: SyncRecordKind;
+    id: string;
+    updatedAt: number;
+    deleted?: boolean;
+    // The gallery reference or history entry; absent on deletions.
+    data?: unknown;
+}
+
+interface StoredSyncRecord extends SyncRecord {
+    revision: number;
+}
+
+interface SyncLog {
+    revision: number;
+    records: Record<string, StoredSyncRecord>;
+}
+
+interface StoredSyncImage {
+    type: string;
+    // Base64 of the image bytes.
+    data: string;
+}
+
+export type SyncError = Error & { status: number };
+
+const syncError = (status: number, message: string): SyncError =>
+    Object.assign(new Error(message), { status });
+
+const SYNC_KINDS: SyncRecordKind[] = ['gallery', 'history'];
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+const logKey = (username: string) => `sync/${username}/log`;
+const imageKey = (username: string, hash: string) => `sync/${username}/images/${hash}`;
+const recordKey = (record: Pick<SyncRecord, 'kind' | 'id'>) => `${record.kind}:${record.id}`;
+
+// --- Per-user write serialization ---
+
+const userLocks = new Map<string, Promise<unknown>>();
+
+function withUserLock<T>(username: string, task: () => Promise<T>): Promise<T> {
+    const previous = userLocks.get(username) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    userLocks.set(username, next);
+    next.finally(() => {
+        if (userLocks.get(username) === next) userLocks.delete(username);
+    }).catch(() => undefined);
+    return next;
+}
+
+// --- Records ---
+
+const loadLog = async (store: JsonStore, username: string): Promise<SyncLog> =>
+    (await store.get<SyncLog>(logKey(username))) || { revision: 0, records: {} };
+
+/**
+ * Whether `incoming` should replace `existing` under last-writer-wins.
+ */
+export const isNewerRecord = (incoming: SyncRecord, existing: SyncRecord | undefined): boolean => {
+    if (!existing) return true;
+    if (incoming.updatedAt !== existing.updatedAt) return incoming.updatedAt > existing.updatedAt;
+    return !!incoming.deleted && !existing.deleted;
+};
+
+function validateRecord(record: any): SyncRecord {
+    if (!record || !SYNC_KINDS.includes(record.kind) || typeof record.id !== 'string' || !record.id
+        || typeof record.updatedAt !== 'number' || !Number.isFinite(record.updatedAt)) {
+        throw syncError(400, "Dữ liệu đồng bộ không hợp lệ.");
+    }
+    return record.deleted
+        ? { kind: record.kind, id: record.id, updatedAt: record.updatedAt, deleted: true }
+        : { kind: record.kind, id: record.id, updatedAt: record.updatedAt, data: record.data };
+}
+
+const stripRevision = ({ revision, ...record }: StoredSyncRecord): SyncRecord => record;
+
+/**
+ * Records changed after revision `since`, oldest first, and the revision to pull from next time.
+ */
+export async function getChanges(store: JsonStore, username: string, since: number): Promise<{ records: SyncRecord[]; cursor: number }> {
+    const log = await loadLog(store, username);
+    const records = Object.values(log.records)
+        .filter(record => record.revision > since)
+        .sort((a, b) => a.revision - b.revision)
+        .map(stripRevision);
+    return { records, cursor: log.revision };
+}
+
+/**
+ * Applies a device's changes. Records that lose to what the server already has are
+ * returned as `rejected`, each replaced by the winning server record.
+ */
+export function pushChanges(store: JsonStore, username: string, rawRecords: unknown): Promise<{ accepted: number; rejected: SyncRecord[]; cursor: number }> {
+    if (!Array.isArray(rawRecords)) {
+        throw syncError(400, "Dữ liệu đồng bộ không hợp lệ.");
+    }
+    const records = rawRecords.map(validateRecord);
+
+    return withUserLock(username, async () => {
+        const log = await loadLog(store, username);
+        const rejected: SyncRecord[] = [];
+        let accepted = 0;
+        for (const record of records) {
+            const key = recordKey(record);
+            const existing = log.records[key];
+            if (isNewerRecord(record, existing)) {
+                log.revision += 1;
+                log.records[key] = { ...record, revision: log.revision };
+                accepted++;
+            } else if (existing && (existing.updatedAt !== record.updatedAt || !!existing.deleted !== !!record.deleted)) {
+                rejected.push(stripRevision(existing));
+            }
+        }
+        if (accepted > 0) {
+            await store.set(logKey(username), log);
+        }
+        return { accepted, rejected, cursor: log.revision };
+    });
+}
+
+// --- Images ---
+
+const validateHash = (hash: string) => {
+    if (!HASH_PATTERN.test(hash)) {
+        throw syncError(400, "Mã ảnh không hợp lệ.");
+    }
+};
+
+/**
+ * The hashes among `hashes` the server does not have yet.
+ */
+export async function findMissingImages(store: JsonStore, username: string, hashes: unknown): Promise<string[]> {
+    if (!Array.isArray(hashes)) {
+        throw syncError(400, "Danh sách ảnh không hợp lệ.");
+    }
+    const missing: string[] = [];
+    for (const hash of hashes) {
+        validateHash(hash);
+        if (!(await store.get(imageKey(username, hash)))) missing.push(hash);
+    }
+    return missing;
+}
+
+/**
+ * Stores an image after checking that its bytes match the hash it is filed under.
+ */
+export async function putImage(store: JsonStore, username: string, hash: string, body: { type?: unknown; data?: unknown }): Promise<void> {
+    validateHash(hash);
+    if (typeof body.data !== 'string' || typeof body.type !== 'string') {
+        throw syncError(400, "Dữ liệu ảnh không hợp lệ.");
+    }
+    const actualHash = createHash('sha256').update(Buffer.from(body.data, 'base64')).digest('hex');
+    if (actualHash !== hash) {
+        throw syncError(400, "Nội dung ảnh không khớp với mã ảnh.");
+    }
+    await store.set(imageKey(username, hash), { type: body.type, data: body.data } as StoredSyncImage);
+}
+
+export async function getImage(store: JsonStore, username: string, hash: string): Promise<StoredSyncImage> {
+    validateHash(hash);
+    const image = await store.get<StoredSyncImage>(imageKey(username, hash));
+    if (!image) {
+        throw syncError(404, "Không tìm thấy ảnh.");
+    }
+    return image;
+}
@@ -2,12 +2,13 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import ai from './client';
+import { getTextProvider } from './modelProvider';
 import { 
     processApiError,
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 interface ArchitectureOptions {
@@ -20,7 +21,7 @@ interface ArchitectureOptions {
 }
 
 async function analyzeArchitecturalStyle(styleImageDataUrl: string): Promise<string> {
-    const { mimeType, data } = parseDataUrl(styleImageDataUrl);
+    const { mimeType, data } = await parseDataUrl(styleImageDataUrl);
     const imagePart = { inlineData: { mimeType, data } };
 
     const prompt = `Phân tích hình ảnh này và mô tả ngắn gọn các yếu tố kiến trúc và không khí chính của nó trong một đoạn văn. Tập trung vào bốn khía cạnh sau:
@@ -32,8 +33,7 @@ async function analyzeArchitecturalStyle(styleImageDataUrl: string): Promise<str
 Không mô tả hình dạng của tòa nhà, chỉ mô tả phong cách và bối cảnh của nó.`;
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, {text: prompt}] },
         });
 
@@ -53,14 +53,16 @@ Không mô tả hình dạng của tòa nhà, chỉ mô tả phong cách và b
  * @param imageDataUrl A data URL string of the source sketch image.
  * @param options The user-selected architectural options.
  * @param styleReferenceImageDataUrl Optional data URL for a style reference image.
+ * @param requestOptions Optional abort signal from the generation queue.
  * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
  */
 export async function generateArchitecturalImage(
     imageDataUrl: string, 
     options: ArchitectureOptions,
-    styleReferenceImageDataUrl?: string | null
+    styleReferenceImageDataUrl?: string | null,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
 
     const sketchImagePart = {
         inlineData: { mimeType, data: base64Data },
@@ -132,7 +134,7 @@ export async function generateArchitecturalImage(
 
     try {
         console.log("Attempting to generate architectural image with dynamic prompt...");
-        const response = await callGeminiWithRetry(requestParts);
+        const response = await callGeminiWithRetry(requestParts, {}, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
@@ -148,10 +150,10 @@ export async function generateArchitecturalImage(
  * @returns A promise that resolves to the refined prompt string.
  */
 export async function refineArchitecturePrompt(basePrompt: string, userPrompt: string, imageDataUrls: string[]): Promise<string> {
-    const imageParts = imageDataUrls.map(url => {
-        const { mimeType, data } = parseDataUrl(url);
+    const imageParts = await Promise.all(imageDataUrls.map(async url => {
+        const { mimeType, data } = await parseDataUrl(url);
         return { inlineData: { mimeType, data } };
-    });
+    }));
 
     const metaPrompt = `
         Bạn là một chuyên gia ra lệnh cho AI chỉnh sửa ảnh kiến trúc. Nhiệm vụ của bạn là kết hợp các yêu cầu để tạo ra một câu lệnh **ngắn gọn, trực tiếp, và rõ ràng** để biến đổi (các) ảnh phác thảo/3D thành ảnh kiến trúc chân thực.
@@ -175,8 +177,7 @@ export async function refineArchitecturePrompt(basePrompt: string, userPrompt: s
 
     try {
         console.log("Attempting to refine architecture prompt...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts },
         });
 
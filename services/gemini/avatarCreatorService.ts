@@ -3,13 +3,15 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client';
+import { getTextProvider } from './modelProvider';
 import { 
     processApiError, 
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
+import { NoImageReturnedError } from './errors';
 
 /**
  * Creates the primary prompt for the patriotic theme.
@@ -45,14 +47,13 @@ function getFallbackPrompt(idea: string, customPrompt?: string, removeWatermark?
 }
 
 async function analyzePatrioticConceptImage(styleImageDataUrl: string): Promise<string> {
-    const { mimeType, data } = parseDataUrl(styleImageDataUrl);
+    const { mimeType, data } = await parseDataUrl(styleImageDataUrl);
     const imagePart = { inlineData: { mimeType, data } };
 
     const prompt = `Phân tích hình ảnh này và mô tả concept yêu nước của nó. Tập trung vào không khí, ánh sáng, bối cảnh, trang phục và các yếu tố biểu tượng. Mô tả phải phù hợp để hướng dẫn AI tái tạo một chủ đề yêu nước tương tự.`;
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, {text: prompt}] },
         });
 
@@ -77,6 +78,7 @@ async function analyzePatrioticConceptImage(styleImageDataUrl: string): Promise<
  * @param removeWatermark Optional boolean to request watermark removal.
  * @param aspectRatio Optional target aspect ratio.
  * @param styleReferenceImageDataUrl Optional data URL for a style reference image, which overrides the 'idea'.
+ * @param requestOptions Optional abort signal from the generation queue.
  * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
  */
 export async function generatePatrioticImage(
@@ -85,9 +87,10 @@ export async function generatePatrioticImage(
     customPrompt?: string, 
     removeWatermark?: boolean, 
     aspectRatio?: string,
-    styleReferenceImageDataUrl?: string | null
+    styleReferenceImageDataUrl?: string | null,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
 
     const imagePart = {
         inlineData: { mimeType, data: base64Data },
@@ -109,19 +112,12 @@ export async function generatePatrioticImage(
         console.log("Attempting generation with original prompt...");
         const prompt = getPrimaryPrompt(finalIdea, customPrompt, removeWatermark, aspectRatio);
         const textPart = { text: prompt };
-        const response = await callGeminiWithRetry([imagePart, textPart], config);
+        const response = await callGeminiWithRetry([imagePart, textPart], config, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
-        const errorMessage = processedError.message;
-        
-        if (errorMessage.includes("API key not valid") || errorMessage.includes("Ứng dụng tạm thời")) {
-            throw processedError;
-        }
-
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
-
-        if (isNoImageError) {
+        // A text-only answer is usually a soft refusal; a gentler prompt often gets through.
+        if (processedError instanceof NoImageReturnedError) {
             console.warn(`Original prompt was likely blocked for idea: ${finalIdea}. Trying a fallback prompt.`);
             
             // --- Second attempt with the fallback prompt ---
@@ -129,21 +125,16 @@ export async function generatePatrioticImage(
                 const fallbackPrompt = getFallbackPrompt(finalIdea, customPrompt, removeWatermark, aspectRatio);
                 console.log(`Attempting generation with fallback prompt for ${finalIdea}...`);
                 const fallbackTextPart = { text: fallbackPrompt };
-                const fallbackResponse = await callGeminiWithRetry([imagePart, fallbackTextPart], config);
+                const fallbackResponse = await callGeminiWithRetry([imagePart, fallbackTextPart], config, requestOptions);
                 return processGeminiResponse(fallbackResponse);
             } catch (fallbackError) {
                 console.error("Fallback prompt also failed.", fallbackError);
-                const processedFallbackError = processApiError(fallbackError);
-                if (processedFallbackError.message.includes("API key not valid")) {
-                   throw processedFallbackError;
-                }
-                const finalErrorMessage = processedFallbackError.message;
-                throw new Error(`The AI model failed with both original and fallback prompts. Last error: ${finalErrorMessage}`);
+                throw processApiError(fallbackError);
             }
         } else {
             // This is for other errors, like a final internal server error after retries.
             console.error("Error during image generation:", processedError);
-            throw new Error(`The AI model failed to generate an image. Details: ${errorMessage}`);
+            throw processedError;
         }
     }
 }
@@ -158,7 +149,7 @@ export async function analyzeAvatarForConcepts(
     imageDataUrl: string,
     categories: { category: string; ideas: string[] }[]
 ): Promise<string[]> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     const categoryNames = categories.map(c => c.category).filter(c => c !== 'Tự động' && c !== 'Automatic');
@@ -173,8 +164,7 @@ export async function analyzeAvatarForConcepts(
 
     try {
         console.log("Analyzing avatar for concept suggestions...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, { text: prompt }] },
             config: {
                 responseMimeType: "application/json",
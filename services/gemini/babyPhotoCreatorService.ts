@@ -2,13 +2,15 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import ai from './client';
+import { getTextProvider } from './modelProvider';
 import {
     processApiError,
     parseDataUrl,
     callGeminiWithRetry,
-    processGeminiResponse
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
+import { NoImageReturnedError } from './errors';
 
 /**
  * Estimates the age group of a child in an image.
@@ -16,14 +18,13 @@ import {
  * @returns A promise that resolves to an age group keyword.
  */
 export async function estimateAgeGroup(imageDataUrl: string): Promise<'newborn' | 'toddler' | 'preschool' | 'child'> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
     
     const prompt = "Analyze the image of the child and estimate their age group. Respond with only ONE of the following keywords: 'newborn' (0-1 year), 'toddler' (1-3 years), 'preschool' (3-5 years), 'child' (5-10 years).";
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, { text: prompt }] },
         });
 
@@ -60,14 +61,13 @@ function getFallbackPrompt(idea: string, customPrompt?: string, removeWatermark?
 }
 
 async function analyzeBabyConceptImage(styleImageDataUrl: string): Promise<string> {
-    const { mimeType, data } = parseDataUrl(styleImageDataUrl);
+    const { mimeType, data } = await parseDataUrl(styleImageDataUrl);
     const imagePart = { inlineData: { mimeType, data } };
 
     const prompt = `Phân tích bức ảnh em bé này và mô tả concept sáng tạo của nó. Tập trung vào chủ đề, đạo cụ, ánh sáng, và bảng màu. Mô tả phải phù hợp để hướng dẫn AI tái tạo một concept tương tự cho một em bé khác.`;
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, {text: prompt}] },
         });
         const text = response.text;
@@ -89,6 +89,7 @@ async function analyzeBabyConceptImage(styleImageDataUrl: string): Promise<strin
  * @param removeWatermark Optional boolean to request watermark removal.
  * @param aspectRatio Optional target aspect ratio.
  * @param styleReferenceImageDataUrl Optional data URL for a style reference image, which overrides the 'idea'.
+ * @param requestOptions Optional abort signal from the generation queue.
  * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
  */
 export async function generateBabyPhoto(
@@ -97,9 +98,10 @@ export async function generateBabyPhoto(
     customPrompt?: string, 
     removeWatermark?: boolean, 
     aspectRatio?: string,
-    styleReferenceImageDataUrl?: string | null
+    styleReferenceImageDataUrl?: string | null,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     let finalIdea = idea;
@@ -117,28 +119,21 @@ export async function generateBabyPhoto(
         console.log("Attempting baby photo generation with primary prompt...");
         const prompt = getPrimaryPrompt(finalIdea, customPrompt, removeWatermark, aspectRatio);
         const textPart = { text: prompt };
-        const response = await callGeminiWithRetry([imagePart, textPart], config);
+        const response = await callGeminiWithRetry([imagePart, textPart], config, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
-        const errorMessage = processedError.message;
-        
-        if (errorMessage.includes("API key not valid") || errorMessage.includes("Ứng dụng tạm thời")) {
-            throw processedError;
-        }
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
-
-        if (isNoImageError) {
+        // A text-only answer is usually a soft refusal; a gentler prompt often gets through.
+        if (processedError instanceof NoImageReturnedError) {
             console.warn(`Primary prompt was likely blocked for idea: ${finalIdea}. Trying a fallback prompt.`);
             try {
                 const fallbackPrompt = getFallbackPrompt(finalIdea, customPrompt, removeWatermark, aspectRatio);
                 const fallbackTextPart = { text: fallbackPrompt };
-                const fallbackResponse = await callGeminiWithRetry([imagePart, fallbackTextPart], config);
+                const fallbackResponse = await callGeminiWithRetry([imagePart, fallbackTextPart], config, requestOptions);
                 return processGeminiResponse(fallbackResponse);
             } catch (fallbackError) {
                 console.error("Fallback prompt also failed.", fallbackError);
-                const processedFallbackError = processApiError(fallbackError);
-                throw new Error(`The AI model failed with both primary and fallback prompts. Last error: ${processedFallbackError.message}`);
+                throw processApiError(fallbackError);
             }
         } else {
             console.error("Error during baby photo generation:", processedError);
@@ -2,43 +2,42 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { Modality } from "@google/genai";
 import type { GenerateContentResponse } from "@google/genai";
-import ai from './client'; // Import the shared client instance
+import { getImageProvider, getTextProvider } from './modelProvider';
+import { abortableDelay, isCancelledError, throwIfCancelled } from './jobQueue';
+import { classifyModelError, classifyModelResponse, InvalidInputError, ModelError } from './errors';
+import { resolveImageDataUrl } from '../../lib/imageStore';
+
+/**
+ * Per-request options threaded from a queued job down to the model call.
+ */
+export interface GenerationRequestOptions {
+    signal?: AbortSignal;
+}
 
 // --- Centralized Error Processor ---
+/**
+ * Turns any error from a model call into a typed ModelError (see ./errors.ts).
+ * Cancellations pass through unchanged so callers can still tell them apart.
+ */
 export function processApiError(error: unknown): Error {
-    const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-
-    if (errorMessage.includes('ReadableStream uploading is not supported')) {
-        return new Error("Ứng dụng tạm thời chưa tương thích ứng dụng di động, mong mọi người thông cảm");
-    }
-    if (errorMessage.toLowerCase().includes('api key not valid')) {
-        return new Error("API Key không hợp lệ. Vui lòng liên hệ quản trị viên để được hỗ trợ.");
+    if (isCancelledError(error)) {
+        return error as Error;
     }
-    if (errorMessage.includes('429') || errorMessage.toLowerCase().includes('quota') || errorMessage.toLowerCase().includes('rate limit') || errorMessage.toLowerCase().includes('resource_exhausted')) {
-        return new Error("Ứng dụng tạm thời đạt giới hạn sử dụng trong ngày, hãy quay trở lại vào ngày tiếp theo.");
-    }
-    if (errorMessage.toLowerCase().includes('safety') || errorMessage.toLowerCase().includes('blocked')) {
-        return new Error("Yêu cầu của bạn đã bị chặn vì lý do an toàn. Vui lòng thử với một hình ảnh hoặc prompt khác.");
-    }
-    
-    // Return original Error object or a new one for other cases
-    if (error instanceof Error) {
-        return new Error("Đã xảy ra lỗi không mong muốn từ AI. Vui lòng thử lại sau. Chi tiết: " + error.message);
-    }
-    return new Error("Đã có lỗi không mong muốn từ AI: " + errorMessage);
+    return classifyModelError(error);
 }
 
 /**
- * Parses a data URL string to extract its mime type and base64 data.
- * @param imageDataUrl The data URL to parse.
+ * Parses a data URL string to extract its mime type and base64 data. App state holds
+ * image store references (`img:<hash>`) too; those are loaded from the store here, when
+ * the image is sent to the model.
+ * @param imageDataUrl The data URL or image store reference to parse.
  * @returns An object containing the mime type and data.
  */
-export function parseDataUrl(imageDataUrl: string): { mimeType: string; data: string } {
-    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
+export async function parseDataUrl(imageDataUrl: string): Promise<{ mimeType: string; data: string }> {
+    const match = (await resolveImageDataUrl(imageDataUrl)).match(/^data:(image\/\w+);base64,(.*)$/);
     if (!match) {
-        throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
+        throw new InvalidInputError("Invalid image data URL format. Expected 'data:image/...;base64,...'");
     }
     const [, mimeType, data] = match;
     return { mimeType, data };
@@ -59,31 +58,27 @@ export function processGeminiResponse(response: GenerateContentResponse): string
 
     const textResponse = response.text;
     console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+    throw classifyModelResponse(response, textResponse || '');
 }
 
 /**
- * A wrapper for the Gemini API call that includes a retry mechanism for internal server errors
- * and for responses that don't contain an image.
+ * A wrapper for the image model call that includes a retry mechanism for internal server errors
+ * and for responses that don't contain an image. The request goes through the active ImageModelProvider.
  * @param parts An array of parts for the request payload (e.g., image parts, text parts).
  * @param config Optional configuration object for the generateContent call.
+ * @param options Optional abort signal; aborting stops the call and any pending retry.
  * @returns The GenerateContentResponse from the API.
  */
-export async function callGeminiWithRetry(parts: object[], config: any = {}): Promise<GenerateContentResponse> {
+export async function callGeminiWithRetry(parts: object[], config: any = {}, options: GenerationRequestOptions = {}): Promise<GenerateContentResponse> {
+    const { signal } = options;
     const maxRetries = 3;
     const initialDelay = 1000;
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                    ...config,
-                },
-            });
+            throwIfCancelled(signal);
+            const response = await getImageProvider().generateImage({ parts, config, signal });
 
             // Validate that the response contains an image.
             const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
@@ -91,25 +86,24 @@ export async function callGeminiWithRetry(parts: object[], config: any = {}): Pr
                 return response; // Success! The response is valid.
             }
 
-            // If no image is found, treat it as a failure and prepare for retry.
-            const textResponse = response.text || "No text response received.";
-            lastError = new Error(`The AI model responded with text instead of an image: "${textResponse}"`);
+            // If no image is found, treat it as a failure and prepare for retry. A safety
+            // block is thrown at once: the catch below does not retry it.
+            const textResponse = response.text || '';
+            const responseError = classifyModelResponse(response, textResponse);
+            if (!responseError.retryable) throw responseError;
+            lastError = responseError;
             console.warn(`Attempt ${attempt}/${maxRetries}: No image returned. Retrying... Response text: ${textResponse}`);
 
         } catch (error) {
             const processedError = processApiError(error);
-            lastError = processedError;
-            const errorMessage = processedError.message;
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, errorMessage);
-
-            // Don't retry on critical errors like invalid API key or quota issues.
-            if (errorMessage.includes('API Key không hợp lệ') || errorMessage.includes('429') || errorMessage.toLowerCase().includes('quota') || errorMessage.toLowerCase().includes('rate limit') || errorMessage.toLowerCase().includes('resource_exhausted')) {
+            if (signal?.aborted || isCancelledError(processedError)) {
                 throw processedError;
             }
+            lastError = processedError;
+            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, processedError.message);
 
-            // If it's not a retriable server error and we're out of retries, fail.
-            const isInternalError = errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL');
-            if (!isInternalError && attempt >= maxRetries) {
+            // Quota, key, safety, input and unclassified errors will fail the same way again.
+            if (!(processedError instanceof ModelError && processedError.retryable) || attempt >= maxRetries) {
                 throw processedError;
             }
         }
@@ -118,7 +112,7 @@ export async function callGeminiWithRetry(parts: object[], config: any = {}): Pr
         if (attempt < maxRetries) {
             const delay = initialDelay * Math.pow(2, attempt - 1);
             console.log(`Waiting ${delay}ms before next attempt...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
+            await abortableDelay(delay, signal);
         }
     }
     
@@ -139,8 +133,7 @@ Prompt của người dùng: "${userPrompt}"
 **Đầu ra:** Chỉ xuất ra văn bản prompt đã được tinh chỉnh, không có bất kỳ cụm từ giới thiệu nào.`;
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: metaPrompt,
         });
 
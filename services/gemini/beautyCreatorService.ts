@@ -3,12 +3,13 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client';
+import { getTextProvider } from './modelProvider';
 import {
     processApiError,
     parseDataUrl,
     callGeminiWithRetry,
-    processGeminiResponse
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 interface BeautyOptions {
@@ -18,7 +19,7 @@ interface BeautyOptions {
 }
 
 async function analyzeBeautyConceptImage(styleImageDataUrl: string): Promise<string> {
-    const { mimeType, data } = parseDataUrl(styleImageDataUrl);
+    const { mimeType, data } = await parseDataUrl(styleImageDataUrl);
     const imagePart = { inlineData: { mimeType, data } };
 
     const prompt = `Phân tích hình ảnh này và mô tả chi tiết concept beauty của nó. Tập trung vào các yếu tố sau:
@@ -31,8 +32,7 @@ async function analyzeBeautyConceptImage(styleImageDataUrl: string): Promise<str
 Chỉ trả lời bằng một đoạn văn mô tả liền mạch, súc tích.`;
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, {text: prompt}] },
         });
 
@@ -51,7 +51,7 @@ export async function analyzeForBeautyConcepts(
     imageDataUrl: string,
     categories: { category: string; key: string; ideas: string[] }[]
 ): Promise<string[]> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     const categoryNames = categories.map(c => c.category);
@@ -65,8 +65,7 @@ export async function analyzeForBeautyConcepts(
     `;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, { text: prompt }] },
             config: {
                 responseMimeType: "application/json",
@@ -107,9 +106,10 @@ export async function generateBeautyImage(
     imageDataUrl: string,
     idea: string,
     options: BeautyOptions,
-    styleReferenceImageDataUrl?: string | null
+    styleReferenceImageDataUrl?: string | null,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const portraitImagePart = { inlineData: { mimeType, data: base64Data } };
 
     const requestParts: object[] = [portraitImagePart];
@@ -163,7 +163,7 @@ export async function generateBeautyImage(
     }
 
     try {
-        const response = await callGeminiWithRetry(requestParts, config);
+        const response = await callGeminiWithRetry(requestParts, config, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
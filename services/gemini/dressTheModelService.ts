@@ -6,7 +6,8 @@ import {
     processApiError, 
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 interface DressModelOptions {
@@ -23,15 +24,17 @@ interface DressModelOptions {
  * @param modelImageDataUrl Data URL for the model's image.
  * @param clothingImageDataUrl Data URL for the clothing's image.
  * @param options User-selected options for background, pose, and notes.
+ * @param requestOptions Optional abort signal from the generation queue.
  * @returns A promise that resolves to the generated image's data URL.
  */
 export async function generateDressedModelImage(
     modelImageDataUrl: string, 
     clothingImageDataUrl: string, 
-    options: DressModelOptions
+    options: DressModelOptions,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
-    const { mimeType: modelMime, data: modelData } = parseDataUrl(modelImageDataUrl);
-    const { mimeType: clothingMime, data: clothingData } = parseDataUrl(clothingImageDataUrl);
+    const { mimeType: modelMime, data: modelData } = await parseDataUrl(modelImageDataUrl);
+    const { mimeType: clothingMime, data: clothingData } = await parseDataUrl(clothingImageDataUrl);
 
     const modelImagePart = { inlineData: { mimeType: modelMime, data: modelData } };
     const clothingImagePart = { inlineData: { mimeType: clothingMime, data: clothingData } };
@@ -99,7 +102,7 @@ export async function generateDressedModelImage(
 
     try {
         console.log("Attempting to generate dressed model image with dynamic prompt...");
-        const response = await callGeminiWithRetry([clothingImagePart, modelImagePart, textPart], config);
+        const response = await callGeminiWithRetry([clothingImagePart, modelImagePart, textPart], config, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
@@ -3,13 +3,15 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client';
+import { getTextProvider } from './modelProvider';
 import {
     processApiError,
     parseDataUrl,
     callGeminiWithRetry,
-    processGeminiResponse
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
+import { NoImageReturnedError } from './errors';
 
 function getPrimaryPrompt(idea: string, customPrompt?: string, removeWatermark?: boolean, aspectRatio?: string): string {
     const modificationText = customPrompt ? ` Yêu cầu chỉnh sửa bổ sung: "${customPrompt}".` : '';
@@ -28,14 +30,13 @@ function getFallbackPrompt(idea: string, customPrompt?: string, removeWatermark?
 }
 
 async function analyzeEntrepreneurConceptImage(styleImageDataUrl: string): Promise<string> {
-    const { mimeType, data } = parseDataUrl(styleImageDataUrl);
+    const { mimeType, data } = await parseDataUrl(styleImageDataUrl);
     const imagePart = { inlineData: { mimeType, data } };
 
     const prompt = `Phân tích bức ảnh chân dung này và mô tả concept chuyên nghiệp/doanh nhân của nó. Tập trung vào bối cảnh, ánh sáng, trang phục, tư thế và thần thái chung (ví dụ: tự tin, sáng tạo, quyền lực).`;
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, {text: prompt}] },
         });
         const text = response.text;
@@ -55,9 +56,10 @@ export async function generateEntrepreneurImage(
     customPrompt?: string, 
     removeWatermark?: boolean, 
     aspectRatio?: string,
-    styleReferenceImageDataUrl?: string | null
+    styleReferenceImageDataUrl?: string | null,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     let finalIdea = idea;
@@ -75,29 +77,21 @@ export async function generateEntrepreneurImage(
         console.log("Attempting entrepreneur image generation with primary prompt...");
         const prompt = getPrimaryPrompt(finalIdea, customPrompt, removeWatermark, aspectRatio);
         const textPart = { text: prompt };
-        const response = await callGeminiWithRetry([imagePart, textPart], config);
+        const response = await callGeminiWithRetry([imagePart, textPart], config, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
-        const errorMessage = processedError.message;
-        
-        if (errorMessage.includes("API key not valid") || errorMessage.includes("Ứng dụng tạm thời")) {
-            throw processedError;
-        }
-
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
-
-        if (isNoImageError) {
+        // A text-only answer is usually a soft refusal; a gentler prompt often gets through.
+        if (processedError instanceof NoImageReturnedError) {
             console.warn(`Primary prompt was likely blocked for idea: ${finalIdea}. Trying a fallback prompt.`);
             try {
                 const fallbackPrompt = getFallbackPrompt(finalIdea, customPrompt, removeWatermark, aspectRatio);
                 const fallbackTextPart = { text: fallbackPrompt };
-                const fallbackResponse = await callGeminiWithRetry([imagePart, fallbackTextPart], config);
+                const fallbackResponse = await callGeminiWithRetry([imagePart, fallbackTextPart], config, requestOptions);
                 return processGeminiResponse(fallbackResponse);
             } catch (fallbackError) {
                 console.error("Fallback prompt also failed.", fallbackError);
-                const processedFallbackError = processApiError(fallbackError);
-                throw new Error(`The AI model failed with both primary and fallback prompts. Last error: ${processedFallbackError.message}`);
+                throw processApiError(fallbackError);
             }
         } else {
             console.error("Error during entrepreneur image generation:", processedError);
@@ -111,7 +105,7 @@ export async function analyzeForEntrepreneurConcepts(
     imageDataUrl: string,
     categories: { category: string; ideas: string[] }[]
 ): Promise<string[]> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     const categoryNames = categories.map(c => c.category);
@@ -126,8 +120,7 @@ export async function analyzeForEntrepreneurConcepts(
 
     try {
         console.log("Analyzing image for entrepreneur concept suggestions...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, { text: prompt }] },
             config: {
                 responseMimeType: "application/json",
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { ApiError } from '@google/genai';
+import {
+    AuthError, InvalidInputError, ModelError, NoImageReturnedError, QuotaError, RateLimitError, SafetyBlockedError,
+    TransientServerError, classifyModelError, classifyModelResponse,
+} from './errors';
+
+// An SDK error as the API sends it: the status, then the error body as JSON.
+const apiError = (status: number, body: object) =>
+    new ApiError({ message: `got status: ${status}. ${JSON.stringify({ error: { code: status, ...body } })}`, status });
+
+describe('classifyModelError', () => {
+    it('keeps errors that are already classified', () => {
+        const error = new QuotaError('quota');
+        expect(classifyModelError(error)).toBe(error);
+    });
+
+    it('maps authentication failures, including an invalid key reported as a 400', () => {
+        expect(classifyModelError(apiError(401, { status: 'UNAUTHENTICATED' }))).toBeInstanceOf(AuthError);
+        expect(classifyModelError(apiError(403, { status: 'PERMISSION_DENIED' }))).toBeInstanceOf(AuthError);
+        expect(classifyModelError(apiError(400, {
+            status: 'INVALID_ARGUMENT',
+            details: [{ reason: 'API_KEY_INVALID' }],
+        }))).toBeInstanceOf(AuthError);
+    });
+
+    it('tells a daily quota from a rate limit', () => {
+        const daily = classifyModelError(apiError(429, {
+            status: 'RESOURCE_EXHAUSTED',
+            message: 'Quota exceeded for metric generate_requests_per_model, quotaId: GenerateRequestsPerDayPerProjectPerModel',
+        }));
+        const perMinute = classifyModelError(apiError(429, {
+            status: 'RESOURCE_EXHAUSTED',
+            message: 'Quota exceeded, quotaId: GenerateRequestsPerMinutePerProjectPerModel',
+        }));
+
+        expect(daily).toBeInstanceOf(QuotaError);
+        expect(daily.retryable).toBe(false);
+        expect(perMinute).toBeInstanceOf(RateLimitError);
+        expect(perMinute.retryable).toBe(true);
+    });
+
+    it('retries server errors and network failures', () => {
+        for (const status of [500, 502, 503, 504]) {
+            expect(classifyModelError(apiError(status, { status: 'UNAVAILABLE' }))).toBeInstanceOf(TransientServerError);
+        }
+        expect(classifyModelError(new TypeError('Failed to fetch'))).toBeInstanceOf(TransientServerError);
+        expect(classifyModelError(new TypeError('Load failed')).retryable).toBe(true);
+    });
+
+    it('maps bad requests to invalid input', () => {
+        const error = classifyModelError(apiError(400, { status: 'INVALID_ARGUMENT', message: 'Bad image' }));
+        expect(error).toBeInstanceOf(InvalidInputError);
+        expect(error.retryable).toBe(false);
+    });
+
+    it('names unsupported platforms with their own message', () => {
+        const error = classifyModelError(new Error('ReadableStream uploading is not supported'));
+        expect(error).toBeInstanceOf(InvalidInputError);
+        expect(error.messageKey).toBe('errors_unsupportedPlatform');
+    });
+
+    it('falls back to whole status names in the message', () => {
+        expect(classifyModelError(new Error('[UNAUTHENTICATED] key expired'))).toBeInstanceOf(AuthError);
+        expect(classifyModelError(new Error('RESOURCE_EXHAUSTED'))).toBeInstanceOf(RateLimitError);
+        expect(classifyModelError(new Error('backend UNAVAILABLE'))).toBeInstanceOf(TransientServerError);
+        expect(classifyModelError(new Error('INVALID_ARGUMENT: prompt'))).toBeInstanceOf(InvalidInputError);
+    });
+
+    it('never retries what it cannot classify', () => {
+        const cause = new Error('Something INTERNALLY odd happened');
+        const error = classifyModelError(cause);
+
+        expect(error.constructor).toBe(ModelError);
+        expect(error.kind).toBe('unknown');
+        expect(error.retryable).toBe(false);
+        expect(error.cause).toBe(cause);
+    });
+
+    it('classifies values that are not errors', () => {
+        expect(classifyModelError({ status: 503 })).toBeInstanceOf(TransientServerError);
+        expect(classifyModelError('offline').kind).toBe('unknown');
+    });
+});
+
+describe('classifyModelResponse', () => {
+    it('reports a blocked prompt or a safety finish reason', () => {
+        expect(classifyModelResponse({ promptFeedback: { blockReason: 'SAFETY' } }, '')).toBeInstanceOf(SafetyBlockedError);
+        expect(classifyModelResponse({ candidates: [{ finishReason: 'IMAGE_SAFETY' }] }, '')).toBeInstanceOf(SafetyBlockedError);
+    });
+
+    it('reports a text-only answer otherwise', () => {
+        const error = classifyModelResponse({ candidates: [{ finishReason: 'STOP' }] }, 'Here is a description');
+        expect(error).toBeInstanceOf(NoImageReturnedError);
+        expect((error as NoImageReturnedError).responseText).toBe('Here is a description');
+    });
+});
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Typed errors for model calls. Services throw these instead of preformatted messages so
+// that retries, toasts and logs can decide by type; the text shown to the user is looked
+// up from `messageKey` at the UI edge (see getErrorMessage in components/uiErrors.ts).
+
+export type ModelErrorKind =
+    | 'quota'
+    | 'rateLimit'
+    | 'auth'
+    | 'safetyBlocked'
+    | 'noImageReturned'
+    | 'transientServer'
+    | 'invalidInput'
+    | 'unknown';
+
+interface ModelErrorOptions {
+    cause?: unknown;
+    // Locale key to show instead of the default one for the kind.
+    messageKey?: string;
+}
+
+/**
+ * Base class of every model error. `cause` holds the raw error or response it was built
+ * from, and `retryable` tells whether repeating the same request may succeed. Only the
+ * kinds that clear up by themselves opt in; an unclassified error is never retried.
+ */
+export class ModelError extends Error {
+    readonly kind: ModelErrorKind = 'unknown';
+    readonly retryable: boolean = false;
+    readonly messageKey: string;
+    readonly cause: unknown;
+
+    constructor(message: string, options: ModelErrorOptions = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.cause = options.cause;
+        this.messageKey = options.messageKey ?? 'errors_unknown';
+    }
+}
+
+export class QuotaError extends ModelError {
+    override readonly kind = 'quota';
+    override readonly retryable = false;
+
+    constructor(message: string, options: ModelErrorOptions = {}) {
+        super(message, { messageKey: 'errors_quota', ...options });
+    }
+}
+
+/**
+ * Too many requests in a short time. Unlike an exhausted daily quota it clears by
+ * itself, so the request is retried after a back-off.
+ */
+export class RateLimitError extends ModelError {
+    override readonly kind = 'rateLimit';
+    override readonly retryable = true;
+
+    constructor(message: string, options: ModelErrorOptions = {}) {
+        super(message, { messageKey: 'errors_rateLimit', ...options });
+    }
+}
+
+export class AuthError extends ModelError {
+    override readonly kind = 'auth';
+    override readonly retryable = false;
+
+    constructor(message: string, options: ModelErrorOptions = {}) {
+        super(message, { messageKey: 'errors_auth', ...options });
+    }
+}
+
+export class SafetyBlockedError extends ModelError {
+    override readonly kind = 'safetyBlocked';
+    override readonly retryable = false;
+
+    constructor(message: string, options: ModelErrorOptions = {}) {
+        super(message, { messageKey: 'errors_safetyBlocked', ...options });
+    }
+}
+
+/**
+ * The model answered, but with text only. Often a soft refusal, so services retry it
+ * and may fall back to a safer prompt.
+ */
+export class NoImageReturnedError extends ModelError {
+    override readonly kind = 'noImageReturned';
+    override readonly retryable = true;
+    readonly responseText: string;
+
+    constructor(responseText: string, options: ModelErrorOptions = {}) {
+        super(`The AI model responded with text instead of an image: "${responseText || 'No text response received.'}"`, { messageKey: 'errors_noImageReturned', ...options });
+        this.responseText = responseText;
+    }
+}
+
+export class TransientServerError extends ModelError {
+    override readonly kind = 'transientServer';
+    override readonly retryable = true;
+
+    constructor(message: string, options: ModelErrorOptions = {}) {
+        super(message, { messageKey: 'errors_transientServer', ...options });
+    }
+}
+
+export class InvalidInputError extends ModelError {
+    override readonly kind = 'invalidInput';
+    override readonly retryable = false;
+
+    constructor(message: string, options: ModelErrorOptions = {}) {
+        super(message, { messageKey: 'errors_invalidInput', ...options });
+    }
+}
+
+// --- Classification ---
+
+const TRANSIENT_STATUSES = [500, 502, 503, 504];
+
+// gRPC status names the API reports in the body of an error, and what they mean here.
+const AUTH_CODES = ['UNAUTHENTICATED', 'PERMISSION_DENIED'];
+const TRANSIENT_CODES = ['INTERNAL', 'UNAVAILABLE', 'DEADLINE_EXCEEDED'];
+
+// Finish reasons that mean the model refused the request on content grounds.
+const SAFETY_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// A 429 names the quota it hit; only a daily one will not clear within a retry.
+const DAILY_QUOTA = /PerDay/;
+
+// Messages browsers give a fetch that never reached the server.
+const NETWORK_FAILURE_MESSAGE = /^(Failed to fetch|NetworkError when attempting to fetch resource\.|Load failed)$/;
+
+interface ApiErrorBody {
+    code?: number;
+    status?: string;
+    details?: { reason?: string }[];
+}
+
+function getStatus(error: unknown): number | undefined {
+    const status = (error as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * The `error` object the API sends back, which the SDK appends to the message of its
+ * ApiError as JSON.
+ */
+function parseErrorBody(message: string): ApiErrorBody {
+    const start = message.indexOf('{');
+    if (start === -1) return {};
+    try {
+        const body = JSON.parse(message.slice(start))?.error;
+        return body && typeof body === 'object' ? body : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Why a response was refused on content grounds, from its prompt feedback or finish
+ * reason; undefined when it was not.
+ */
+export function getSafetyBlockReason(response: unknown): string | undefined {
+    const { promptFeedback, candidates } = (response ?? {}) as {
+        promptFeedback?: { blockReason?: string };
+        candidates?: { finishReason?: string }[];
+    };
+    if (promptFeedback?.blockReason) return promptFeedback.blockReason;
+    const finishReason = candidates?.[0]?.finishReason;
+    return finishReason && SAFETY_FINISH_REASONS.includes(finishReason) ? finishReason : undefined;
+}
+
+/**
+ * The error for a response that holds no image: a safety block when the API says the
+ * request was refused, otherwise a text-only answer.
+ */
+export function classifyModelResponse(response: unknown, responseText: string): ModelError {
+    const blockReason = getSafetyBlockReason(response);
+    if (blockReason) {
+        return new SafetyBlockedError(`The request was blocked (${blockReason}).`, { cause: response });
+    }
+    return new NoImageReturnedError(responseText, { cause: response });
+}
+
+/**
+ * Maps a raw SDK, network or provider error onto the taxonomy. The HTTP status of the
+ * SDK's ApiError and the status in the API's error body decide; the message text is only
+ * matched against whole status names as a last resort.
+ */
+export function classifyModelError(error: unknown): ModelError {
+    if (error instanceof ModelError) return error;
+
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    const body = parseErrorBody(message);
+    const status = getStatus(error) ?? body.code;
+    const code = body.status;
+    const options = { cause: error };
+
+    if (message.includes('ReadableStream uploading is not supported')) {
+        return new InvalidInputError(message, { ...options, messageKey: 'errors_unsupportedPlatform' });
+    }
+    // An invalid key is reported as a 400 whose details carry the reason.
+    if (status === 401 || status === 403 || (code && AUTH_CODES.includes(code))
+        || body.details?.some(detail => detail?.reason === 'API_KEY_INVALID')) {
+        return new AuthError(message, options);
+    }
+    if (status === 429 || code === 'RESOURCE_EXHAUSTED') {
+        return DAILY_QUOTA.test(message) ? new QuotaError(message, options) : new RateLimitError(message, options);
+    }
+    if ((status !== undefined && TRANSIENT_STATUSES.includes(status)) || (code && TRANSIENT_CODES.includes(code))) {
+        return new TransientServerError(message, options);
+    }
+    if (status === 400 || code === 'INVALID_ARGUMENT') {
+        return new InvalidInputError(message, options);
+    }
+
+    // No status: a network failure, or an error that only names its status in the text.
+    if (error instanceof TypeError && NETWORK_FAILURE_MESSAGE.test(message)) {
+        return new TransientServerError(message, options);
+    }
+    if (/\b(UNAUTHENTICATED|PERMISSION_DENIED|API_KEY_INVALID)\b/.test(message)) {
+        return new AuthError(message, options);
+    }
+    if (/\bRESOURCE_EXHAUSTED\b/.test(message)) {
+        return DAILY_QUOTA.test(message) ? new QuotaError(message, options) : new RateLimitError(message, options);
+    }
+    if (/\b(INTERNAL|UNAVAILABLE|DEADLINE_EXCEEDED)\b/.test(message)) {
+        return new TransientServerError(message, options);
+    }
+    if (/\bINVALID_ARGUMENT\b/.test(message)) {
+        return new InvalidInputError(message, options);
+    }
+    return new ModelError(message, options);
+}
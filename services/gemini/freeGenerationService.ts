@@ -3,12 +3,12 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Modality } from "@google/genai";
-import ai from './client'; // Import the shared client instance
 import { 
     processApiError, 
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 export async function generateFreeImage(
@@ -19,7 +19,8 @@ export async function generateFreeImage(
     imageDataUrl2?: string,
     imageDataUrl3?: string,
     imageDataUrl4?: string,
-    removeWatermark?: boolean
+    removeWatermark?: boolean,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string[]> {
     try {
         const allImageUrls = [imageDataUrl1, imageDataUrl2, imageDataUrl3, imageDataUrl4].filter(Boolean) as string[];
@@ -29,11 +30,9 @@ export async function generateFreeImage(
         for (let i = 0; i < numberOfImages; i++) {
             const parts: object[] = [];
 
-            if (allImageUrls.length > 0) {
-                allImageUrls.forEach(url => {
-                    const { mimeType, data } = parseDataUrl(url);
-                    parts.push({ inlineData: { mimeType, data } });
-                });
+            for (const url of allImageUrls) {
+                const { mimeType, data } = await parseDataUrl(url);
+                parts.push({ inlineData: { mimeType, data } });
             }
 
             const promptParts = [prompt];
@@ -58,7 +57,7 @@ export async function generateFreeImage(
                 config.imageConfig = { aspectRatio: finalAspectRatio };
             }
 
-            const response = await callGeminiWithRetry(parts, config);
+            const response = await callGeminiWithRetry(parts, config, requestOptions);
             results.push(processGeminiResponse(response));
         }
 
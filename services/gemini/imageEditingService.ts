@@ -3,12 +3,13 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client'; // Import the shared client instance
+import { getTextProvider } from './modelProvider';
 import { 
     processApiError, 
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 /**
@@ -17,16 +18,18 @@ import {
  * @param prompt The text prompt with editing instructions.
  * @param aspectRatio Optional target aspect ratio.
  * @param removeWatermark Optional boolean to request watermark removal.
+ * @param requestOptions Optional abort signal from the generation queue.
  * @returns A promise that resolves to a base64-encoded image data URL of the edited image.
  */
 export async function editImageWithPrompt(
     imageDataUrl: string,
     prompt: string,
     aspectRatio?: string,
-    removeWatermark?: boolean
+    removeWatermark?: boolean,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
     try {
-        const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+        const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
         const imagePart = {
             inlineData: { mimeType, data: base64Data },
         };
@@ -70,7 +73,7 @@ export async function editImageWithPrompt(
             config.imageConfig = { aspectRatio };
         }
 
-        const response = await callGeminiWithRetry([imagePart, textPart], config);
+        const response = await callGeminiWithRetry([imagePart, textPart], config, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
@@ -79,14 +82,40 @@ export async function editImageWithPrompt(
     }
 }
 
+/**
+ * Redraws only the marked part of an image (inpainting and outpainting).
+ * @param markedImageDataUrl A data URL of the image with the area to redraw tinted magenta.
+ * @param prompt What to put in the marked area; empty to continue the surrounding image.
+ * @param removeWatermark Optional boolean to request watermark removal.
+ * @param requestOptions Optional abort signal from the generation queue.
+ * @returns A promise that resolves to a data URL of the whole image with the area redrawn.
+ */
+export async function inpaintImage(
+    markedImageDataUrl: string,
+    prompt: string,
+    removeWatermark?: boolean,
+    requestOptions: GenerationRequestOptions = {}
+): Promise<string> {
+    const instructions = [
+        'Vùng được phủ lớp màu hồng tím (magenta) bán trong suốt trên ảnh là vùng cần vẽ lại.',
+        prompt.trim()
+            ? `Vẽ lại vùng đó theo yêu cầu: ${prompt.trim()}`
+            : 'Vẽ lại vùng đó sao cho liền mạch với phần còn lại của bức ảnh, như thể bức ảnh gốc vốn đã có sẵn nội dung ở đó.',
+        'Nội dung mới phải khớp với phối cảnh, ánh sáng, màu sắc và độ nét của phần ảnh xung quanh.',
+        'Ảnh kết quả không được còn chút màu hồng tím nào của lớp phủ, phải giữ nguyên kích thước và bố cục, và giữ nguyên mọi chi tiết nằm ngoài vùng được phủ màu.',
+    ].join('\n');
+    return editImageWithPrompt(markedImageDataUrl, instructions, undefined, removeWatermark, requestOptions);
+}
+
 /**
  * Removes the background from an image, making it transparent.
  * @param imageDataUrl A data URL string of the source image.
+ * @param requestOptions Optional abort signal from the generation queue.
  * @returns A promise resolving to a data URL of the image with a transparent background.
  */
-export async function removeImageBackground(imageDataUrl: string): Promise<string> {
+export async function removeImageBackground(imageDataUrl: string, requestOptions: GenerationRequestOptions = {}): Promise<string> {
     try {
-        const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+        const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
         const imagePart = {
             inlineData: { mimeType, data: base64Data },
         };
@@ -102,7 +131,7 @@ export async function removeImageBackground(imageDataUrl: string): Promise<strin
         const textPart = { text: prompt };
 
         console.log("Attempting to remove image background...");
-        const response = await callGeminiWithRetry([imagePart, textPart]);
+        const response = await callGeminiWithRetry([imagePart, textPart], {}, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
@@ -115,12 +144,13 @@ export async function generateFromMultipleImages(
     imageDataUrls: string[],
     prompt: string,
     aspectRatio?: string,
-    removeWatermark?: boolean
+    removeWatermark?: boolean,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
     try {
         const imageParts = await Promise.all(
             imageDataUrls.map(async (url) => {
-                const { mimeType, data } = parseDataUrl(url);
+                const { mimeType, data } = await parseDataUrl(url);
                 return { inlineData: { mimeType, data } };
             })
         );
@@ -154,7 +184,7 @@ export async function generateFromMultipleImages(
         }
 
         console.log("Attempting to generate image from multiple sources with config:", config);
-        const response = await callGeminiWithRetry(allParts, config);
+        const response = await callGeminiWithRetry(allParts, config, requestOptions);
         return processGeminiResponse(response);
 
     } catch (error) {
@@ -176,10 +206,10 @@ export async function refinePrompt(userPrompt: string, imageDataUrls?: string[])
     let metaPrompt = '';
 
     if (imageDataUrls && imageDataUrls.length > 0) {
-        const imageParts = imageDataUrls.map(url => {
-            const { mimeType, data } = parseDataUrl(url);
+        const imageParts = await Promise.all(imageDataUrls.map(async url => {
+            const { mimeType, data } = await parseDataUrl(url);
             return { inlineData: { mimeType, data } };
-        });
+        }));
         parts.push(...imageParts);
         metaPrompt = `You are an expert prompt engineer for a generative AI model. Your task is to refine a user's prompt to make it more descriptive and effective, based on the context of the provided image(s).`;
     } else {
@@ -192,8 +222,7 @@ export async function refinePrompt(userPrompt: string, imageDataUrls?: string[])
 
     try {
         console.log("Attempting to refine prompt...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts },
         });
 
@@ -225,10 +254,10 @@ export async function refineImageAndPrompt(
   userNotes: string,
   imageDataUrls: string[]
 ): Promise<string> {
-  const imageParts = imageDataUrls.map(url => {
-    const { mimeType, data } = parseDataUrl(url);
+  const imageParts = await Promise.all(imageDataUrls.map(async url => {
+    const { mimeType, data } = await parseDataUrl(url);
     return { inlineData: { mimeType, data } };
-  });
+  }));
 
   const metaPrompt = `Bạn là một chuyên gia ra lệnh cho AI chỉnh sửa ảnh (image editing AI). Nhiệm vụ của bạn là chuyển đổi ý định của người dùng thành một câu lệnh **ngắn gọn, trực tiếp, và rõ ràng**.
 Phân tích (các) "Ảnh đính kèm", "Prompt Gốc", và "Ghi chú của người dùng" để hiểu bối cảnh và yêu cầu.
@@ -250,8 +279,7 @@ Phân tích (các) "Ảnh đính kèm", "Prompt Gốc", và "Ghi chú của ngư
 
   try {
     console.log("Refining prompt with image context...");
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+    const response = await getTextProvider().generateText({
       contents: { parts },
     });
     
@@ -287,8 +315,7 @@ export async function analyzePromptForImageGenerationParams(prompt: string): Pro
 
     try {
         console.log("Analyzing prompt for image generation parameters...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: metaPrompt,
             config: {
                 responseMimeType: "application/json",
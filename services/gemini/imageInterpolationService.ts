@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client'; // Import the shared client instance
+import { getTextProvider } from './modelProvider';
 import { 
     processApiError, 
     parseDataUrl,
@@ -16,8 +16,8 @@ import {
  * @returns A promise resolving to the generated text prompt.
  */
 export async function analyzeImagePairForPrompt(inputImageDataUrl: string, outputImageDataUrl: string): Promise<{ mainPrompt: string; suggestions: string; }> {
-    const { mimeType: inputMime, data: inputData } = parseDataUrl(inputImageDataUrl);
-    const { mimeType: outputMime, data: outputData } = parseDataUrl(outputImageDataUrl);
+    const { mimeType: inputMime, data: inputData } = await parseDataUrl(inputImageDataUrl);
+    const { mimeType: outputMime, data: outputData } = await parseDataUrl(outputImageDataUrl);
 
     const inputImagePart = { inlineData: { mimeType: inputMime, data: inputData } };
     const outputImagePart = { inlineData: { mimeType: outputMime, data: outputData } };
@@ -38,8 +38,7 @@ export async function analyzeImagePairForPrompt(inputImageDataUrl: string, outpu
     
     try {
         console.log("Attempting to analyze image pair for prompt...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [textPart, inputImagePart, outputImagePart] },
             config: {
                 responseMimeType: "application/json",
@@ -85,8 +84,8 @@ export async function analyzeImagePairForPrompt(inputImageDataUrl: string, outpu
  * @returns A promise resolving to an object with the detailed main prompt and suggestions.
  */
 export async function analyzeImagePairForPromptDeep(inputImageDataUrl: string, outputImageDataUrl: string): Promise<{ mainPrompt: string; suggestions: string; }> {
-    const { mimeType: inputMime, data: inputData } = parseDataUrl(inputImageDataUrl);
-    const { mimeType: outputMime, data: outputData } = parseDataUrl(outputImageDataUrl);
+    const { mimeType: inputMime, data: inputData } = await parseDataUrl(inputImageDataUrl);
+    const { mimeType: outputMime, data: outputData } = await parseDataUrl(outputImageDataUrl);
 
     const inputImagePart = { inlineData: { mimeType: inputMime, data: inputData } };
     const outputImagePart = { inlineData: { mimeType: outputMime, data: outputData } };
@@ -109,8 +108,7 @@ export async function analyzeImagePairForPromptDeep(inputImageDataUrl: string, o
     
     try {
         console.log("Attempting to analyze image pair for DETAILED prompt...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [textPart, inputImagePart, outputImagePart] },
             config: {
                 responseMimeType: "application/json",
@@ -156,8 +154,8 @@ export async function analyzeImagePairForPromptDeep(inputImageDataUrl: string, o
  * @returns A promise resolving to an object with the detailed main prompt and suggestions.
  */
 export async function analyzeImagePairForPromptExpert(inputImageDataUrl: string, outputImageDataUrl: string): Promise<{ mainPrompt: string; suggestions: string; }> {
-    const { mimeType: inputMime, data: inputData } = parseDataUrl(inputImageDataUrl);
-    const { mimeType: outputMime, data: outputData } = parseDataUrl(outputImageDataUrl);
+    const { mimeType: inputMime, data: inputData } = await parseDataUrl(inputImageDataUrl);
+    const { mimeType: outputMime, data: outputData } = await parseDataUrl(outputImageDataUrl);
 
     const inputImagePart = { inlineData: { mimeType: inputMime, data: inputData } };
     const outputImagePart = { inlineData: { mimeType: outputMime, data: outputData } };
@@ -183,8 +181,7 @@ export async function analyzeImagePairForPromptExpert(inputImageDataUrl: string,
     
     try {
         console.log("Attempting to analyze image pair for EXPERT prompt...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [textPart, inputImagePart, outputImagePart] },
             config: {
                 responseMimeType: "application/json",
@@ -257,8 +254,7 @@ export async function interpolatePrompts(basePrompt: string, userNotes: string):
 
     try {
         console.log("Attempting to interpolate prompts with prioritization...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: prompt,
         });
 
@@ -284,7 +280,7 @@ export async function interpolatePrompts(basePrompt: string, userNotes: string):
  * @returns A promise that resolves to the new, contextually-aware prompt.
  */
 export async function adaptPromptToContext(imageDataUrl: string, basePrompt: string): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     const promptText = `Nhiệm vụ của bạn là một chuyên gia tinh chỉnh prompt cho AI tạo ảnh. Tôi sẽ cung cấp cho bạn: 1. Một "Ảnh Tham Chiếu". 2. Một "Prompt Gốc" mô tả một sự biến đổi. Yêu cầu của bạn là viết lại "Prompt Gốc" thành một "Prompt Mới" sao cho phù hợp hơn với bối cảnh, chủ thể, và phong cách của "Ảnh Tham Chiếu". Sự biến đổi cốt lõi phải được giữ nguyên. Ví dụ: - Ảnh Tham Chiếu: ảnh một con chó thật. - Prompt Gốc: "biến thành nhân vật hoạt hình" - Prompt Mới: "biến con chó trong ảnh thành nhân vật hoạt hình theo phong cách Pixar". - Ảnh Tham Chiếu: ảnh một toà nhà cổ kính. - Prompt Gốc: "thêm các chi tiết cyberpunk" - Prompt Mới: "thêm các chi tiết máy móc và đèn neon theo phong cách cyberpunk vào toà nhà cổ kính, giữ lại kiến trúc gốc". - Ảnh Tham Chiếu: một bức tranh phong cảnh màu nước. - Prompt Gốc: "thay đổi bầu trời thành dải ngân hà" - Prompt Mới: "vẽ lại bầu trời thành một dải ngân hà rực rỡ theo phong cách màu nước, hoà hợp với phần còn lại của bức tranh". Prompt Gốc hiện tại là: "${basePrompt}". Hãy phân tích Ảnh Tham Chiếu và tạo ra Prompt Mới bằng tiếng Việt. Chỉ trả về nội dung của prompt, không có các cụm từ giới thiệu như "Đây là prompt mới:".`;
@@ -292,8 +288,7 @@ export async function adaptPromptToContext(imageDataUrl: string, basePrompt: str
     
     try {
         console.log("Attempting to adapt prompt to image context...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, textPart] },
         });
 
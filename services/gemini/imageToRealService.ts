@@ -6,7 +6,8 @@ import {
     processApiError,
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 interface ImageToRealOptions {
@@ -15,8 +16,8 @@ interface ImageToRealOptions {
     removeWatermark?: boolean;
 }
 
-export async function convertImageToRealistic(imageDataUrl: string, options: ImageToRealOptions): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+export async function convertImageToRealistic(imageDataUrl: string, options: ImageToRealOptions, requestOptions: GenerationRequestOptions = {}): Promise<string> {
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     const promptParts = [
@@ -58,7 +59,7 @@ export async function convertImageToRealistic(imageDataUrl: string, options: Ima
 
     try {
         console.log("Attempting to convert image to realistic with new prompt...");
-        const response = await callGeminiWithRetry([imagePart, textPart]);
+        const response = await callGeminiWithRetry([imagePart, textPart], {}, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
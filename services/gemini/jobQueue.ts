@@ -0,0 +1,304 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelError } from './errors';
+
+// A single queue for every generation in the app. It caps how many model calls run at
+// once across all creators, orders waiting jobs by priority, retries transient failures
+// and gives each job an AbortSignal that is passed down to the model provider.
+
+// --- Types ---
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export const JOB_PRIORITY = {
+    low: -10,
+    normal: 0,
+    high: 10,
+} as const;
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    initialDelayMs: number;
+    backoffFactor: number;
+    shouldRetry: (error: unknown) => boolean;
+}
+
+export interface GenerationJob {
+    id: string;
+    appId: string;
+    label: string;
+    priority: number;
+    status: JobStatus;
+    attempt: number;
+    maxAttempts: number;
+    // 0..1 when the task reports it, otherwise undefined.
+    progress?: number;
+    // The error the job failed with; localize it with getErrorMessage before showing it.
+    error?: unknown;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+}
+
+export interface JobContext {
+    signal: AbortSignal;
+    attempt: number;
+    reportProgress: (progress: number) => void;
+}
+
+export interface JobOptions {
+    appId: string;
+    label: string;
+    priority?: number;
+    retry?: Partial<RetryPolicy>;
+    // Cancels the job together with an outside controller, e.g. when a component unmounts.
+    signal?: AbortSignal;
+}
+
+interface QueueEntry {
+    job: GenerationJob;
+    controller: AbortController;
+    run: (context: JobContext) => Promise<unknown>;
+    retry: RetryPolicy;
+    resolve: (value: any) => void;
+    reject: (error: unknown) => void;
+}
+
+// --- Cancellation ---
+
+const CANCELLED_MESSAGE = "Tác vụ đã bị hủy.";
+
+export function createCancelledError(): Error {
+    const error = new Error(CANCELLED_MESSAGE);
+    error.name = 'AbortError';
+    return error;
+}
+
+export function isCancelledError(error: unknown): boolean {
+    return error instanceof Error && (error.name === 'AbortError' || error.message === CANCELLED_MESSAGE);
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+    if (signal?.aborted) throw createCancelledError();
+}
+
+/**
+ * Waits like setTimeout but rejects as soon as the signal is aborted.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(createCancelledError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createCancelledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// --- Retry ---
+
+/**
+ * Model errors retry when their type says so. Cancellations and anything unclassified,
+ * e.g. a bug in the job itself, fail straight away.
+ */
+export function isRetriableError(error: unknown): boolean {
+    if (isCancelledError(error)) return false;
+    return error instanceof ModelError && error.retryable;
+}
+
+// Image model calls already retry inside callGeminiWithRetry, so by default the queue
+// runs a job once. Jobs whose calls have no retry of their own can raise maxAttempts.
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 1,
+    initialDelayMs: 2000,
+    backoffFactor: 2,
+    shouldRetry: isRetriableError,
+};
+
+// --- Queue State ---
+
+const DEFAULT_MAX_CONCURRENCY = 3;
+// Finished jobs kept for the jobs tray.
+const MAX_FINISHED_JOBS = 50;
+
+let maxConcurrency = DEFAULT_MAX_CONCURRENCY;
+const entries = new Map<string, QueueEntry>();
+let finishedJobs: GenerationJob[] = [];
+let snapshot: GenerationJob[] = [];
+const listeners = new Set<() => void>();
+
+function publish() {
+    const active = [...entries.values()].map(entry => entry.job);
+    snapshot = [...active, ...finishedJobs];
+    listeners.forEach(listener => listener());
+}
+
+function updateJob(entry: QueueEntry, changes: Partial<GenerationJob>) {
+    entry.job = { ...entry.job, ...changes };
+    publish();
+}
+
+function finishJob(entry: QueueEntry, changes: Partial<GenerationJob>) {
+    entries.delete(entry.job.id);
+    entry.job = { ...entry.job, ...changes, finishedAt: Date.now() };
+    finishedJobs = [entry.job, ...finishedJobs].slice(0, MAX_FINISHED_JOBS);
+    publish();
+    pump();
+}
+
+const runningCount = () => [...entries.values()].filter(entry => entry.job.status === 'running').length;
+
+/**
+ * The next job to start: highest priority first, oldest first within a priority.
+ */
+function nextPendingEntry(): QueueEntry | undefined {
+    let best: QueueEntry | undefined;
+    for (const entry of entries.values()) {
+        if (entry.job.status !== 'pending') continue;
+        if (!best
+            || entry.job.priority > best.job.priority
+            || (entry.job.priority === best.job.priority && entry.job.createdAt < best.job.createdAt)) {
+            best = entry;
+        }
+    }
+    return best;
+}
+
+function pump() {
+    while (runningCount() < maxConcurrency) {
+        const entry = nextPendingEntry();
+        if (!entry) return;
+        execute(entry);
+    }
+}
+
+async function execute(entry: QueueEntry) {
+    const { signal } = entry.controller;
+    updateJob(entry, { status: 'running', startedAt: entry.job.startedAt ?? Date.now() });
+
+    for (let attempt = 1; attempt <= entry.retry.maxAttempts; attempt++) {
+        updateJob(entry, { attempt });
+        try {
+            throwIfCancelled(signal);
+            const result = await entry.run({
+                signal,
+                attempt,
+                reportProgress: (progress) => updateJob(entry, { progress: Math.min(Math.max(progress, 0), 1) }),
+            });
+            throwIfCancelled(signal);
+            finishJob(entry, { status: 'done', progress: 1 });
+            entry.resolve(result);
+            return;
+        } catch (error) {
+            // Services wrap errors in their own messages, so the signal is the source of truth.
+            if (signal.aborted) {
+                finishJob(entry, { status: 'cancelled' });
+                entry.reject(createCancelledError());
+                return;
+            }
+            const isLastAttempt = attempt >= entry.retry.maxAttempts;
+            if (isLastAttempt || !entry.retry.shouldRetry(error)) {
+                finishJob(entry, { status: 'failed', error });
+                entry.reject(error);
+                return;
+            }
+            console.warn(`Job "${entry.job.label}" failed (attempt ${attempt}/${entry.retry.maxAttempts}). Retrying...`, error);
+            try {
+                await abortableDelay(entry.retry.initialDelayMs * Math.pow(entry.retry.backoffFactor, attempt - 1), signal);
+            } catch {
+                finishJob(entry, { status: 'cancelled' });
+                entry.reject(createCancelledError());
+                return;
+            }
+        }
+    }
+}
+
+// --- Public API ---
+
+/**
+ * Queues a generation and resolves with its result once it has run. The task receives
+ * the job's AbortSignal and must pass it on to the model call so cancellation is immediate.
+ */
+export function enqueueJob<T>(options: JobOptions, run: (context: JobContext) => Promise<T>): Promise<T> {
+    const retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    const controller = new AbortController();
+    const job: GenerationJob = {
+        id: crypto.randomUUID(),
+        appId: options.appId,
+        label: options.label,
+        priority: options.priority ?? JOB_PRIORITY.normal,
+        status: 'pending',
+        attempt: 0,
+        maxAttempts: retry.maxAttempts,
+        createdAt: Date.now(),
+    };
+
+    return new Promise<T>((resolve, reject) => {
+        const entry: QueueEntry = { job, controller, run, retry, resolve, reject };
+
+        if (options.signal?.aborted) {
+            reject(createCancelledError());
+            return;
+        }
+        options.signal?.addEventListener('abort', () => cancelJob(job.id), { once: true });
+
+        entries.set(job.id, entry);
+        publish();
+        pump();
+    });
+}
+
+/**
+ * Cancels a pending or running job. Pending jobs are dropped at once; running ones
+ * abort their model call and settle as cancelled.
+ */
+export function cancelJob(id: string) {
+    const entry = entries.get(id);
+    if (!entry) return;
+    entry.controller.abort();
+    if (entry.job.status === 'pending') {
+        finishJob(entry, { status: 'cancelled' });
+        entry.reject(createCancelledError());
+    }
+}
+
+export function cancelJobsForApp(appId: string) {
+    [...entries.values()]
+        .filter(entry => entry.job.appId === appId)
+        .forEach(entry => cancelJob(entry.job.id));
+}
+
+export function clearFinishedJobs() {
+    finishedJobs = [];
+    publish();
+}
+
+export function getJobs(): GenerationJob[] {
+    return snapshot;
+}
+
+export function subscribeToJobs(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+export function getMaxConcurrency(): number {
+    return maxConcurrency;
+}
+
+export function setMaxConcurrency(value: number) {
+    if (!Number.isInteger(value) || value < 1) {
+        console.warn(`Ignoring invalid job concurrency: ${value}`);
+        return;
+    }
+    maxConcurrency = value;
+    pump();
+}
@@ -2,12 +2,13 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import ai from './client'; // Import the shared client instance
+import { getTextProvider } from './modelProvider';
 import { 
     processApiError,
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 interface MixStyleOptions {
@@ -22,14 +23,13 @@ interface MixStyleOptions {
  * @returns A promise that resolves to a string describing the style.
  */
 async function analyzeStyle(styleImageDataUrl: string): Promise<string> {
-    const { mimeType, data } = parseDataUrl(styleImageDataUrl);
+    const { mimeType, data } = await parseDataUrl(styleImageDataUrl);
     const imagePart = { inlineData: { mimeType, data } };
 
     const prompt = `Phân tích hình ảnh này và mô tả phong cách nghệ thuật, bảng màu, kết cấu, chất liệu, và không khí chung của nó một cách tổng quát, chính xác và súc tích. Chỉ tập trung vào các đặc điểm phong cách có thể áp dụng lại, không mô tả nội dung cụ thể (con người, đồ vật). Ví dụ: "Phong cách tranh sơn dầu với nét cọ dày, bảng màu ấm áp với tông vàng và cam, ánh sáng dịu nhẹ, không khí hoài cổ."`;
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [imagePart, {text: prompt}] },
         });
 
@@ -44,13 +44,13 @@ async function analyzeStyle(styleImageDataUrl: string): Promise<string> {
     }
 }
 
-export async function mixImageStyle(contentImageDataUrl: string, styleImageDataUrl: string, options: MixStyleOptions): Promise<{ resultUrl: string; finalPrompt: string; }> {
+export async function mixImageStyle(contentImageDataUrl: string, styleImageDataUrl: string, options: MixStyleOptions, requestOptions: GenerationRequestOptions = {}): Promise<{ resultUrl: string; finalPrompt: string; }> {
     try {
         console.log("Step 1: Analyzing style image...");
         const styleDescription = await analyzeStyle(styleImageDataUrl);
         console.log("Style analysis result:", styleDescription);
 
-        const { mimeType: contentMime, data: contentData } = parseDataUrl(contentImageDataUrl);
+        const { mimeType: contentMime, data: contentData } = await parseDataUrl(contentImageDataUrl);
         const contentImagePart = { inlineData: { mimeType: contentMime, data: contentData } };
 
         const promptParts = [
@@ -84,7 +84,7 @@ export async function mixImageStyle(contentImageDataUrl: string, styleImageDataU
         console.log("Step 2: Constructed final prompt for image generation:", finalPrompt);
 
         // This call uses the vision model `gemini-2.5-flash-image-preview`
-        const response = await callGeminiWithRetry([contentImagePart, textPart]);
+        const response = await callGeminiWithRetry([contentImagePart, textPart], {}, requestOptions);
         const resultUrl = processGeminiResponse(response);
         return { resultUrl, finalPrompt };
 
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ContentListUnion, GenerateContentConfig, GenerateContentResponse, GenerateVideosOperation, Part } from "@google/genai";
+import { geminiImageProvider, geminiTextProvider, geminiVideoProvider } from './providers/geminiProvider';
+import { mockImageProvider, mockTextProvider, mockVideoProvider } from './providers/mockProvider';
+
+// --- Provider Contracts ---
+
+export interface ImageGenerationRequest {
+    parts: object[];
+    config?: GenerateContentConfig;
+    // Aborts the call when the queued job it belongs to is cancelled.
+    signal?: AbortSignal;
+}
+
+export interface TextGenerationRequest {
+    contents: ContentListUnion;
+    config?: GenerateContentConfig;
+}
+
+export interface VideoGenerationRequest {
+    prompt: string;
+    image?: { mimeType: string; data: string };
+}
+
+export interface ChatSessionOptions {
+    systemInstruction?: string;
+}
+
+/**
+ * The subset of a chat session the app relies on. The SDK's `Chat` class satisfies it,
+ * which lets a provider hand back either a real session or a local stand-in.
+ */
+export interface ChatSession {
+    sendMessage(params: { message: Part[] | string }): Promise<GenerateContentResponse>;
+}
+
+/**
+ * A backend able to produce images. The response must follow the Gemini response shape
+ * so that `processGeminiResponse` can extract the inline image data.
+ */
+export interface ImageModelProvider {
+    readonly id: string;
+    generateImage(request: ImageGenerationRequest): Promise<GenerateContentResponse>;
+}
+
+/**
+ * A backend able to answer text and JSON prompts and to host chat sessions.
+ */
+export interface TextModelProvider {
+    readonly id: string;
+    generateText(request: TextGenerationRequest): Promise<GenerateContentResponse>;
+    createChat(options: ChatSessionOptions): ChatSession;
+}
+
+/**
+ * A backend able to produce videos. Generation is a long-running operation that is started
+ * once and polled until `done`; the finished operation carries a URI to download.
+ * Running operations are kept in IndexedDB, so polling must accept one read back as a plain object.
+ */
+export interface VideoModelProvider {
+    readonly id: string;
+    startVideoGeneration(request: VideoGenerationRequest): Promise<GenerateVideosOperation>;
+    pollVideoOperation(operation: GenerateVideosOperation): Promise<GenerateVideosOperation>;
+    downloadVideo(uri: string): Promise<Blob>;
+}
+
+export type ModelProviderId = 'gemini' | 'mock';
+
+// --- Registry ---
+
+let imageProvider: ImageModelProvider | null = null;
+let textProvider: TextModelProvider | null = null;
+let videoProvider: VideoModelProvider | null = null;
+
+/**
+ * Resolves which provider to use when none was set explicitly.
+ * `MODEL_PROVIDER` wins; without an API key we fall back to the local mock.
+ */
+export function getConfiguredProviderId(): ModelProviderId {
+    const configured = (process.env.MODEL_PROVIDER || '').toLowerCase();
+    if (configured === 'mock' || configured === 'gemini') {
+        return configured;
+    }
+    return process.env.API_KEY ? 'gemini' : 'mock';
+}
+
+function createDefaultProviders(): { image: ImageModelProvider; text: TextModelProvider; video: VideoModelProvider } {
+    if (getConfiguredProviderId() === 'mock') {
+        console.info("Using the local mock model provider. No requests will leave the browser.");
+        return { image: mockImageProvider, text: mockTextProvider, video: mockVideoProvider };
+    }
+    return { image: geminiImageProvider, text: geminiTextProvider, video: geminiVideoProvider };
+}
+
+export function getImageProvider(): ImageModelProvider {
+    if (!imageProvider) {
+        imageProvider = createDefaultProviders().image;
+    }
+    return imageProvider;
+}
+
+export function getTextProvider(): TextModelProvider {
+    if (!textProvider) {
+        textProvider = createDefaultProviders().text;
+    }
+    return textProvider;
+}
+
+export function getVideoProvider(): VideoModelProvider {
+    if (!videoProvider) {
+        videoProvider = createDefaultProviders().video;
+    }
+    return videoProvider;
+}
+
+/**
+ * Overrides the active providers, e.g. to switch to the mock in an end-to-end test.
+ * Passing `null` restores the configured default on next use.
+ */
+export function setModelProviders(providers: { image?: ImageModelProvider | null; text?: TextModelProvider | null; video?: VideoModelProvider | null }) {
+    if (providers.image !== undefined) imageProvider = providers.image;
+    if (providers.text !== undefined) textProvider = providers.text;
+    if (providers.video !== undefined) videoProvider = providers.video;
+}
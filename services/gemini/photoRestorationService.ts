@@ -6,7 +6,8 @@ import {
     processApiError,
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 interface PhotoRestorationOptions {
@@ -20,8 +21,8 @@ interface PhotoRestorationOptions {
     colorizeRgb?: boolean;
 }
 
-export async function restoreOldPhoto(imageDataUrl: string, options: PhotoRestorationOptions): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+export async function restoreOldPhoto(imageDataUrl: string, options: PhotoRestorationOptions, requestOptions: GenerationRequestOptions = {}): Promise<string> {
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     const promptParts = [
@@ -80,7 +81,7 @@ export async function restoreOldPhoto(imageDataUrl: string, options: PhotoRestor
 
     try {
         console.log("Attempting to restore old photo with new stronger prompt...");
-        const response = await callGeminiWithRetry([imagePart, textPart]);
+        const response = await callGeminiWithRetry([imagePart, textPart], {}, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
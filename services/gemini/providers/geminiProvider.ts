@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerateVideosOperation, Modality } from "@google/genai";
+import type { GoogleGenAI } from "@google/genai";
+import type { ImageModelProvider, TextModelProvider, VideoModelProvider } from '../modelProvider';
+
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+export const GEMINI_VIDEO_MODEL = 'veo-2.0-generate-001';
+
+let clientPromise: Promise<GoogleGenAI> | null = null;
+
+/**
+ * Loads the shared client on first use. The SDK throws when it is constructed without an
+ * API key, so the client module is only imported once a Gemini provider is actually called.
+ */
+function getClient(): Promise<GoogleGenAI> {
+    if (!clientPromise) {
+        clientPromise = import('../client').then(module => module.default);
+        // A failed load is retried on the next call instead of being cached.
+        clientPromise.catch(() => { clientPromise = null; });
+    }
+    return clientPromise;
+}
+
+/**
+ * Image provider backed by the Gemini API.
+ */
+export const geminiImageProvider: ImageModelProvider = {
+    id: 'gemini',
+    async generateImage({ parts, config = {}, signal }) {
+        const ai = await getClient();
+        return ai.models.generateContent({
+            model: GEMINI_IMAGE_MODEL,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                ...config,
+                ...(signal && { abortSignal: signal }),
+            },
+        });
+    },
+};
+
+/**
+ * Text, JSON and chat provider backed by the Gemini API.
+ */
+export const geminiTextProvider: TextModelProvider = {
+    id: 'gemini',
+    async generateText({ contents, config }) {
+        const ai = await getClient();
+        return ai.models.generateContent({
+            model: GEMINI_TEXT_MODEL,
+            contents,
+            ...(config && { config }),
+        });
+    },
+    createChat({ systemInstruction }) {
+        // The session is created with the client; messages wait for both.
+        const chat = getClient().then(ai => ai.chats.create({
+            model: GEMINI_TEXT_MODEL,
+            config: { systemInstruction },
+        }));
+        // Keeps an early load failure from surfacing as an unhandled rejection; sendMessage rethrows it.
+        chat.catch(() => {});
+        return {
+            async sendMessage(params) {
+                return (await chat).sendMessage(params);
+            },
+        };
+    },
+};
+
+/**
+ * Video provider backed by the Gemini API (Veo).
+ */
+export const geminiVideoProvider: VideoModelProvider = {
+    id: 'gemini',
+    async startVideoGeneration({ prompt, image }) {
+        const ai = await getClient();
+        return ai.models.generateVideos({
+            model: GEMINI_VIDEO_MODEL,
+            prompt,
+            ...(image && { image: { imageBytes: image.data, mimeType: image.mimeType } }),
+            config: {
+                numberOfVideos: 1
+            }
+        });
+    },
+    async pollVideoOperation(operation) {
+        const ai = await getClient();
+        // An operation read back from IndexedDB is a plain object; the SDK needs the class instance.
+        const typedOperation = operation instanceof GenerateVideosOperation
+            ? operation
+            : Object.assign(new GenerateVideosOperation(), operation);
+        return ai.operations.getVideosOperation({ operation: typedOperation });
+    },
+    async downloadVideo(uri) {
+        const response = await fetch(`${uri}&key=${process.env.API_KEY}`);
+        if (!response.ok) throw new Error(`Failed to fetch video: ${response.statusText}`);
+        return response.blob();
+    },
+};
@@ -0,0 +1,352 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerateContentResponse, GenerateVideosOperation } from "@google/genai";
+import type { Content, ContentListUnion, Part, Schema } from "@google/genai";
+import type { ChatSession, ImageModelProvider, TextModelProvider, VideoModelProvider } from '../modelProvider';
+import { abortableDelay } from '../jobQueue';
+
+// A deterministic, offline stand-in for the Gemini API. The same request always yields
+// the same image or text, which makes end-to-end runs of the creator apps reproducible.
+
+const MOCK_LATENCY_MS = 300;
+const MOCK_IMAGE_LONG_SIDE = 256;
+// How long a mock video operation stays pending, and the length of the clip it produces.
+const MOCK_VIDEO_RENDER_MS = 3000;
+const MOCK_VIDEO_CLIP_MS = 1500;
+const MOCK_VIDEO_URI_PREFIX = 'mock-video:';
+
+const delay = (ms: number, signal?: AbortSignal) => abortableDelay(ms, signal);
+
+// --- Hashing ---
+
+/** 32-bit FNV-1a hash, used to derive stable colors and variations from a request. */
+function hashString(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// --- Minimal PNG Encoder ---
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+    let a = 1, b = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        a = (a + bytes[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+}
+
+function writeUint32(target: Uint8Array, offset: number, value: number) {
+    target[offset] = (value >>> 24) & 0xff;
+    target[offset + 1] = (value >>> 16) & 0xff;
+    target[offset + 2] = (value >>> 8) & 0xff;
+    target[offset + 3] = value & 0xff;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    writeUint32(chunk, 0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+}
+
+/** Wraps raw bytes in a zlib stream made of uncompressed ("stored") deflate blocks. */
+function zlibStore(raw: Uint8Array): Uint8Array {
+    const maxBlock = 0xffff;
+    const blockCount = Math.max(1, Math.ceil(raw.length / maxBlock));
+    const out = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+    out[0] = 0x78;
+    out[1] = 0x01;
+    let pos = 2;
+    for (let i = 0; i < blockCount; i++) {
+        const start = i * maxBlock;
+        const len = Math.min(maxBlock, raw.length - start);
+        out[pos++] = i === blockCount - 1 ? 1 : 0;
+        out[pos++] = len & 0xff;
+        out[pos++] = (len >>> 8) & 0xff;
+        out[pos++] = ~len & 0xff;
+        out[pos++] = (~len >>> 8) & 0xff;
+        out.set(raw.subarray(start, start + len), pos);
+        pos += len;
+    }
+    writeUint32(out, pos, adler32(raw));
+    return out;
+}
+
+function encodePng(width: number, height: number, rgb: Uint8Array): Uint8Array {
+    const header = new Uint8Array(13);
+    writeUint32(header, 0, width);
+    writeUint32(header, 4, height);
+    header[8] = 8; // bit depth
+    header[9] = 2; // color type: truecolor
+    const raw = new Uint8Array((width * 3 + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw[y * (width * 3 + 1)] = 0; // filter: none
+        raw.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), y * (width * 3 + 1) + 1);
+    }
+    const signature = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+    const chunks = [signature, pngChunk('IHDR', header), pngChunk('IDAT', zlibStore(raw)), pngChunk('IEND', new Uint8Array(0))];
+    const png = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+    let offset = 0;
+    for (const c of chunks) {
+        png.set(c, offset);
+        offset += c.length;
+    }
+    return png;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const step = 0x8000;
+    for (let i = 0; i < bytes.length; i += step) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + step));
+    }
+    return btoa(binary);
+}
+
+function getDimensionsForAspectRatio(aspectRatio?: string): { width: number; height: number } {
+    const match = aspectRatio?.match(/^(\d+):(\d+)$/);
+    if (!match) return { width: MOCK_IMAGE_LONG_SIDE, height: MOCK_IMAGE_LONG_SIDE };
+    const w = parseInt(match[1], 10);
+    const h = parseInt(match[2], 10);
+    return w >= h
+        ? { width: MOCK_IMAGE_LONG_SIDE, height: Math.round(MOCK_IMAGE_LONG_SIDE * h / w) }
+        : { width: Math.round(MOCK_IMAGE_LONG_SIDE * w / h), height: MOCK_IMAGE_LONG_SIDE };
+}
+
+/**
+ * Renders a diagonal two-color gradient whose colors are derived from the seed,
+ * so different prompts are visually distinguishable in the UI.
+ */
+export function createMockImageBase64(seed: string, aspectRatio?: string): string {
+    const { width, height } = getDimensionsForAspectRatio(aspectRatio);
+    const hash = hashString(seed);
+    const from = [hash & 0xff, (hash >>> 8) & 0xff, (hash >>> 16) & 0xff];
+    const to = [255 - from[1], 255 - from[2], 255 - from[0]];
+    const rgb = new Uint8Array(width * height * 3);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const t = (x / width + y / height) / 2;
+            const i = (y * width + x) * 3;
+            for (let c = 0; c < 3; c++) {
+                rgb[i + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+            }
+        }
+    }
+    return bytesToBase64(encodePng(width, height, rgb));
+}
+
+/**
+ * Records a short clip of a gradient drifting between two seed-derived colors.
+ * Uses the browser's MediaRecorder, so the result is a WebM video the app can play like a real one.
+ */
+export async function createMockVideoBlob(seed: string): Promise<Blob> {
+    const { width, height } = getDimensionsForAspectRatio('16:9');
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || typeof MediaRecorder === 'undefined' || typeof canvas.captureStream !== 'function') {
+        throw new Error("Trình duyệt không hỗ trợ tạo video giả lập.");
+    }
+    const hash = hashString(seed);
+    const from = `rgb(${hash & 0xff}, ${(hash >>> 8) & 0xff}, ${(hash >>> 16) & 0xff})`;
+    const to = `rgb(${255 - ((hash >>> 8) & 0xff)}, ${255 - ((hash >>> 16) & 0xff)}, ${255 - (hash & 0xff)})`;
+    const drawFrame = (progress: number) => {
+        const offset = progress * width;
+        const gradient = ctx.createLinearGradient(offset - width, 0, offset + width, height);
+        gradient.addColorStop(0, from);
+        gradient.addColorStop(0.5, to);
+        gradient.addColorStop(1, from);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    };
+
+    drawFrame(0);
+    const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => { if (event.data.size > 0) chunks.push(event.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    recorder.start();
+    const start = performance.now();
+    await new Promise<void>(resolve => {
+        const tick = () => {
+            const elapsed = performance.now() - start;
+            drawFrame(Math.min(elapsed / MOCK_VIDEO_CLIP_MS, 1));
+            if (elapsed >= MOCK_VIDEO_CLIP_MS) resolve();
+            else requestAnimationFrame(tick);
+        };
+        requestAnimationFrame(tick);
+    });
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+}
+
+// --- Request Helpers ---
+
+const isContent = (value: Content | Part): value is Content => 'role' in value || 'parts' in value;
+
+function collectParts(contents: ContentListUnion | undefined): Part[] {
+    if (!contents) return [];
+    if (typeof contents === 'string') return [{ text: contents }];
+    if (Array.isArray(contents)) {
+        return contents.flatMap(item => collectParts(item));
+    }
+    if (isContent(contents)) return contents.parts ?? [];
+    if (typeof contents.text === 'string' || contents.inlineData) return [contents];
+    return [];
+}
+
+function describeParts(parts: Part[]): string {
+    const text = parts.map(p => p.text).filter(Boolean).join('\n');
+    const imageCount = parts.filter(p => p.inlineData).length;
+    return `${text}|images:${imageCount}`;
+}
+
+function buildResponse(parts: Part[]): GenerateContentResponse {
+    const response = new GenerateContentResponse();
+    response.candidates = [{ content: { role: 'model', parts } }];
+    return response;
+}
+
+/**
+ * Builds a deterministic value matching a response schema, so JSON-mode callers
+ * receive data they can parse and validate like a real model answer.
+ */
+export function createMockValueForSchema(schema: Schema | undefined, key = 'value', index = 0): unknown {
+    if (!schema) return `Mock ${key}`;
+    if (schema.enum && schema.enum.length > 0) {
+        return schema.enum[index % schema.enum.length];
+    }
+    switch (String(schema.type).toUpperCase()) {
+        case 'OBJECT': {
+            const result: Record<string, unknown> = {};
+            for (const [propKey, propSchema] of Object.entries(schema.properties || {})) {
+                result[propKey] = createMockValueForSchema(propSchema, propKey, index);
+            }
+            return result;
+        }
+        case 'ARRAY': {
+            const count = Math.max(Number(schema.minItems) || 0, Math.min(Number(schema.maxItems) || 3, 3));
+            return Array.from({ length: count }, (_, i) => createMockValueForSchema(schema.items, key, i));
+        }
+        case 'INTEGER':
+        case 'NUMBER':
+            return Math.max(Number(schema.minimum) || 1, 1);
+        case 'BOOLEAN':
+            return false;
+        default:
+            return index > 0 ? `Mock ${key} ${index + 1}` : `Mock ${key}`;
+    }
+}
+
+function createMockText(parts: Part[]): string {
+    const text = parts.map(p => p.text).filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+    const excerpt = text.length > 120 ? `${text.slice(0, 120)}…` : text;
+    return `[Mock] ${excerpt || 'Phản hồi mẫu từ mô hình giả lập.'}`;
+}
+
+// --- Providers ---
+
+export const mockImageProvider: ImageModelProvider = {
+    id: 'mock',
+    async generateImage({ parts, config, signal }) {
+        await delay(MOCK_LATENCY_MS, signal);
+        const aspectRatio = config?.imageConfig?.aspectRatio;
+        const data = createMockImageBase64(describeParts(parts as Part[]), aspectRatio);
+        return buildResponse([{ inlineData: { mimeType: 'image/png', data } }]);
+    },
+};
+
+export const mockTextProvider: TextModelProvider = {
+    id: 'mock',
+    async generateText({ contents, config }) {
+        await delay(MOCK_LATENCY_MS);
+        const parts = collectParts(contents);
+        if (config?.responseSchema) {
+            const value = createMockValueForSchema(config.responseSchema as Schema);
+            return buildResponse([{ text: JSON.stringify(value) }]);
+        }
+        if (config?.responseMimeType === 'application/json') {
+            return buildResponse([{ text: '{}' }]);
+        }
+        return buildResponse([{ text: createMockText(parts) }]);
+    },
+    createChat(): ChatSession {
+        let turn = 0;
+        return {
+            async sendMessage({ message }) {
+                await delay(MOCK_LATENCY_MS);
+                turn++;
+                const parts = collectParts(message);
+                const imageCount = parts.filter(p => p.inlineData).length;
+                const imageNote = imageCount > 0 ? ` (${imageCount} ảnh đính kèm)` : '';
+                return buildResponse([{ text: `${createMockText(parts)}${imageNote} — lượt ${turn}` }]);
+            },
+        };
+    },
+};
+
+/**
+ * Video operations that finish a few seconds after they start. The start time and seed live
+ * in the operation's metadata, so an operation restored after a reload keeps its schedule.
+ */
+export const mockVideoProvider: VideoModelProvider = {
+    id: 'mock',
+    async startVideoGeneration({ prompt, image }) {
+        await delay(MOCK_LATENCY_MS);
+        const seed = `${prompt}|image:${image ? hashString(image.data) : 'none'}`;
+        return Object.assign(new GenerateVideosOperation(), {
+            name: `mock/operations/${hashString(seed).toString(16)}-${Date.now()}`,
+            done: false,
+            metadata: { seed, startedAt: Date.now() },
+        });
+    },
+    async pollVideoOperation(operation) {
+        await delay(MOCK_LATENCY_MS);
+        const seed = String(operation.metadata?.seed ?? operation.name ?? '');
+        const startedAt = Number(operation.metadata?.startedAt) || 0;
+        if (Date.now() - startedAt < MOCK_VIDEO_RENDER_MS) {
+            return Object.assign(new GenerateVideosOperation(), operation);
+        }
+        return Object.assign(new GenerateVideosOperation(), operation, {
+            done: true,
+            response: { generatedVideos: [{ video: { uri: `${MOCK_VIDEO_URI_PREFIX}${seed}`, mimeType: 'video/webm' } }] },
+        });
+    },
+    async downloadVideo(uri) {
+        if (!uri.startsWith(MOCK_VIDEO_URI_PREFIX)) {
+            throw new Error("Không thể tải video không do mô hình giả lập tạo ra.");
+        }
+        return createMockVideoBlob(uri.slice(MOCK_VIDEO_URI_PREFIX.length));
+    },
+};
@@ -6,7 +6,8 @@ import {
     processApiError, 
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 interface Spring2026Options {
@@ -25,13 +26,15 @@ interface Spring2026Options {
  * Generates a Spring 2026 themed image based on a user photo.
  * @param imageDataUrl The data URL of the user's photo.
  * @param options Configuration options.
+ * @param requestOptions Optional abort signal from the generation queue.
  * @returns A promise resolving to the generated image data URL.
  */
 export async function generateSpring2026Image(
     imageDataUrl: string,
-    options: Spring2026Options
+    options: Spring2026Options,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     // Base Prompt Construction
@@ -125,7 +128,7 @@ export async function generateSpring2026Image(
 
     try {
         console.log("Generating Spring 2026 image with prompt:", prompt);
-        const response = await callGeminiWithRetry([imagePart, textPart], config);
+        const response = await callGeminiWithRetry([imagePart, textPart], config, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
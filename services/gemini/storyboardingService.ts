@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client';
+import { getTextProvider } from './modelProvider';
 import { processApiError, parseDataUrl } from './baseService';
 
 // --- TYPES ---
@@ -186,8 +186,7 @@ const generateImageDescriptions = async (referenceImages: { mimeType: string; da
     const prompt = "Briefly describe the key visual elements of each image provided, focusing on character appearance, setting, and overall mood. Combine the descriptions into a single paragraph.";
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [...imageParts, { text: prompt }] },
         });
         return `\n\nVisual Reference Context: ${response.text.trim()}`;
@@ -199,8 +198,7 @@ const generateImageDescriptions = async (referenceImages: { mimeType: string; da
 
 // --- API FUNCTIONS ---
 const executeScriptSummaryGeneration = async (prompt: string, parts: any[] = [], language: 'vi' | 'en' | 'zh'): Promise<ScriptSummary> => {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+    const response = await getTextProvider().generateText({
         contents: { parts: [...parts, { text: prompt }] },
         config: {
             responseMimeType: "application/json",
@@ -337,8 +335,7 @@ export async function createScriptSummaryFromAudio(audio: { mimeType: string; da
         
         const audioPart = { inlineData: audio };
         const imageParts = referenceImagesData.map(img => ({ inlineData: img }));
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: { parts: [audioPart, ...imageParts, { text: prompt }] },
              config: {
                 responseMimeType: "application/json",
@@ -426,8 +423,7 @@ Each shot should logically follow the previous one.${notesInstruction_en}${scrip
     }
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: prompt,
             config: {
                 responseMimeType: "application/json",
@@ -496,8 +492,7 @@ export async function refineSceneDescription(
     }
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: prompt,
         });
 
@@ -560,8 +555,7 @@ export async function refineSceneTransition(
     }
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: prompt,
         });
 
@@ -634,8 +628,7 @@ Generate a detailed JSON according to the schema. **IMPORTANT: All text values i
 根据模式生成一个详细的JSON。**重要提示：JSON中的所有文本值都必须是中文。**`,
                 };
                 
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
+                const response = await getTextProvider().generateText({
                     contents: prompts_json[language],
                     config: {
                         responseMimeType: "application/json",
@@ -669,8 +662,7 @@ Generate a detailed JSON according to the schema. **IMPORTANT: All text values i
                 break;
         }
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await getTextProvider().generateText({
             contents: prompt,
         });
         const text = response.text.trim();
@@ -6,7 +6,8 @@ import {
     processApiError,
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 interface SwapStyleOptions {
@@ -17,8 +18,8 @@ interface SwapStyleOptions {
     convertToReal?: boolean;
 }
 
-async function convertImageToRealistic(imageDataUrl: string, options: SwapStyleOptions): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+async function convertImageToRealistic(imageDataUrl: string, options: SwapStyleOptions, requestOptions: GenerationRequestOptions = {}): Promise<string> {
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     const promptParts = [
@@ -60,7 +61,7 @@ async function convertImageToRealistic(imageDataUrl: string, options: SwapStyleO
     const textPart = { text: prompt };
 
     try {
-        const response = await callGeminiWithRetry([imagePart, textPart]);
+        const response = await callGeminiWithRetry([imagePart, textPart], {}, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
@@ -69,13 +70,13 @@ async function convertImageToRealistic(imageDataUrl: string, options: SwapStyleO
     }
 }
 
-export async function swapImageStyle(imageDataUrl: string, options: SwapStyleOptions): Promise<string> {
+export async function swapImageStyle(imageDataUrl: string, options: SwapStyleOptions, requestOptions: GenerationRequestOptions = {}): Promise<string> {
     
     if (options.convertToReal) {
-        return convertImageToRealistic(imageDataUrl, options);
+        return convertImageToRealistic(imageDataUrl, options, requestOptions);
     }
 
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     const promptParts = [
@@ -118,7 +119,7 @@ export async function swapImageStyle(imageDataUrl: string, options: SwapStyleOpt
 
     try {
         console.log("Attempting to swap image style...");
-        const response = await callGeminiWithRetry([imagePart, textPart]);
+        const response = await callGeminiWithRetry([imagePart, textPart], {}, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
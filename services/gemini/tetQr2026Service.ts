@@ -6,7 +6,8 @@ import {
     processApiError, 
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 interface TetQr2026Options {
@@ -26,11 +27,13 @@ interface TetQr2026Options {
  * Generates a Tet 2026 QR portrait image based on a user photo and a QR code.
  * @param imageDataUrl The data URL of the user's photo (optional).
  * @param options Configuration options.
+ * @param requestOptions Optional abort signal from the generation queue.
  * @returns A promise resolving to the generated image data URL.
  */
 export async function generateTetQr2026Image(
     imageDataUrl: string | null,
-    options: TetQr2026Options
+    options: TetQr2026Options,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
     const parts: any[] = [];
     
@@ -38,13 +41,13 @@ export async function generateTetQr2026Image(
     
     // Reference Face Image - Priority #1 for identity
     if (imageDataUrl) {
-        const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+        const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
         parts.push({ inlineData: { mimeType, data: base64Data } });
     }
 
     // QR Code Image - Priority #2 for object consistency
     if (options.qrImageBase64) {
-        const { mimeType, data } = parseDataUrl(options.qrImageBase64);
+        const { mimeType, data } = await parseDataUrl(options.qrImageBase64);
         parts.push({ inlineData: { mimeType, data } });
     }
 
@@ -144,7 +147,7 @@ export async function generateTetQr2026Image(
     try {
         console.log("Generating Tet QR 2026 with identity-focused prompt:", prompt);
         // Ensure the prompt part is last in the array if mixing text and images, although logic handles it.
-        const response = await callGeminiWithRetry(parts, config);
+        const response = await callGeminiWithRetry(parts, config, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
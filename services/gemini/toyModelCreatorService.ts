@@ -6,7 +6,8 @@ import {
     processApiError, 
     parseDataUrl, 
     callGeminiWithRetry, 
-    processGeminiResponse 
+    processGeminiResponse,
+    type GenerationRequestOptions
 } from './baseService';
 
 export interface ToyModelOptions {
@@ -246,9 +247,10 @@ const buildPokemonModelPrompt = (options: ToyModelOptions): string[] => {
 export async function generateToyModelImage(
     imageDataUrl: string, 
     concept: string, 
-    options: ToyModelOptions
+    options: ToyModelOptions,
+    requestOptions: GenerationRequestOptions = {}
 ): Promise<string> {
-    const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
+    const { mimeType, data: base64Data } = await parseDataUrl(imageDataUrl);
     const imagePart = { inlineData: { mimeType, data: base64Data } };
 
     let promptParts: string[];
@@ -301,7 +303,7 @@ export async function generateToyModelImage(
 
     try {
         console.log(`Attempting to generate toy model image for concept [${concept}] with prompt...`, prompt);
-        const response = await callGeminiWithRetry([imagePart, textPart], config);
+        const response = await callGeminiWithRetry([imagePart, textPart], config, requestOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
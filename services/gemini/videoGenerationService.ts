@@ -2,7 +2,8 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import ai from './client'; // Import the shared client instance
+import type { GenerateVideosOperation } from '@google/genai';
+import { getVideoProvider } from './modelProvider';
 import { 
     processApiError,
     parseDataUrl, 
@@ -11,21 +12,10 @@ import {
 export async function startVideoGeneration(
     prompt: string,
     image?: { mimeType: string; data: string }
-): Promise<any> {
+): Promise<GenerateVideosOperation> {
     try {
         console.log(`Starting video generation. Image provided: ${!!image}`);
-        
-        const operation = await ai.models.generateVideos({
-            model: 'veo-2.0-generate-001',
-            prompt,
-            ...(image && { image: { imageBytes: image.data, mimeType: image.mimeType } }),
-            config: {
-                numberOfVideos: 1
-            }
-        });
-
-        return operation;
-
+        return await getVideoProvider().startVideoGeneration({ prompt, image });
     } catch (error) {
         const processedError = processApiError(error);
         console.error("Error starting video generation:", processedError);
@@ -34,14 +24,27 @@ export async function startVideoGeneration(
 }
 
 export async function pollVideoOperation(
-    operation: any
-): Promise<any> {
+    operation: GenerateVideosOperation
+): Promise<GenerateVideosOperation> {
     try {
         console.log("Polling video operation status...");
-        return await ai.operations.getVideosOperation({ operation });
+        return await getVideoProvider().pollVideoOperation(operation);
     } catch (error) {
          const processedError = processApiError(error);
         console.error("Error polling video operation:", processedError);
         throw processedError;
     }
 }
+
+/**
+ * Downloads the video a finished operation points to.
+ */
+export async function downloadGeneratedVideo(uri: string): Promise<Blob> {
+    try {
+        return await getVideoProvider().downloadVideo(uri);
+    } catch (error) {
+        const processedError = processApiError(error);
+        console.error("Error downloading generated video:", processedError);
+        throw processedError;
+    }
+}
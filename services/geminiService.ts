@@ -8,6 +8,9 @@
 // It allows components to import from a single location, simplifying refactoring.
 
 export * from './gemini/baseService';
+export * from './gemini/modelProvider';
+export * from './gemini/errors';
+export * from './gemini/jobQueue';
 export * from './gemini/imageEditingService';
 export * from './gemini/avatarCreatorService';
 export * from './gemini/babyPhotoCreatorService';
@@ -1,18 +1,23 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiDevServer } from './server/devApiPlugin';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), apiDevServer()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+        // Where the collaboration relay is. The dev server has its own; a build has none
+        // unless COLLAB_URL is set, and the Collaborate section is hidden then.
+        'process.env.COLLAB_URL': JSON.stringify(env.COLLAB_URL || (command === 'serve' ? '/api/collab' : ''))
       },
       resolve: {
         alias: {